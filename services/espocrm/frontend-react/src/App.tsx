@@ -3,6 +3,7 @@ import { Routes, Route } from 'react-router-dom';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { ProtectedRoute } from '@/components/common/ProtectedRoute';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { getRoutes, useRegistryVersion, type RouteAccess } from '@/lib/extensions';
 
 // Lazy load pages
 const LoginPage = lazy(() => import('@/features/auth/pages/LoginPage'));
@@ -179,7 +180,30 @@ function PageLoader(): React.ReactElement {
   );
 }
 
+/**
+ * Routes contributed by extension modules for one access level
+ */
+function renderExtensionRoutes(access: RouteAccess): React.ReactElement[] {
+  return getRoutes(access).map((route) => {
+    const Page = route.component;
+    return (
+      <Route
+        key={`${access}:${route.path}`}
+        path={route.path}
+        element={
+          <Suspense fallback={<PageLoader />}>
+            <Page />
+          </Suspense>
+        }
+      />
+    );
+  });
+}
+
 function App(): React.ReactElement {
+  // Re-render routes when extension modules change
+  useRegistryVersion();
+
   return (
     <Routes>
       {/* Public routes */}
@@ -199,6 +223,7 @@ function App(): React.ReactElement {
           </Suspense>
         }
       />
+      {renderExtensionRoutes('public')}
 
       {/* Protected routes */}
       <Route
@@ -218,6 +243,9 @@ function App(): React.ReactElement {
           }
         />
 
+        {/* Extension pages (static paths rank above the entity routes) */}
+        {renderExtensionRoutes('authenticated')}
+
         {/* Entity routes - must be in specific order */}
         <Route
           path=":entityType/create"
@@ -619,6 +647,8 @@ function App(): React.ReactElement {
             </Suspense>
           }
         />
+        {/* Extension admin pages */}
+        {renderExtensionRoutes('admin')}
       </Route>
     </Routes>
   );
@@ -0,0 +1,155 @@
+/**
+ * Attachment API Tests
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getAttachmentUrl, getImageThumbnailUrl, uploadAttachmentInChunks, isUploadCancelled } from './attachments';
+
+vi.mock('./client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./client')>()),
+  post: vi.fn(),
+}));
+
+import { ApiError, post } from './client';
+
+const mockPost = vi.mocked(post);
+
+// Chunks are untyped slices of the file
+function chunkData(text: string): string {
+  return 'data:application/octet-stream;base64,' + btoa(text);
+}
+
+function chunkCalls(): unknown[][] {
+  return mockPost.mock.calls.filter(([url]) => String(url).startsWith('/Attachment/chunk/'));
+}
+
+describe('attachment URLs', () => {
+  it('serves files and thumbnails through the API', () => {
+    expect(getAttachmentUrl('att1')).toBe('/api/v1/Attachment/file/att1');
+    expect(getImageThumbnailUrl('att1', 'medium')).toBe('/api/v1/Attachment/image/att1?size=medium');
+  });
+});
+
+describe('uploadAttachmentInChunks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('creates the attachment and posts each chunk in order', async () => {
+    mockPost.mockImplementation(async (url) =>
+      url === '/Attachment' ? { id: 'att1', name: 'report.txt' } : {}
+    );
+    const onProgress = vi.fn();
+    const file = new File(['abcdefghij'], 'report.txt', { type: 'text/plain' });
+
+    const result = await uploadAttachmentInChunks(file, {
+      chunkSize: 4,
+      relatedType: 'Document',
+      field: 'file',
+      onProgress,
+    });
+
+    expect(result).toEqual({ id: 'att1', name: 'report.txt', type: 'text/plain', size: 10 });
+    expect(mockPost).toHaveBeenCalledWith(
+      '/Attachment',
+      expect.objectContaining({ isBeingUploaded: true, size: 10, relatedType: 'Document', field: 'file' }),
+      expect.anything()
+    );
+    expect(chunkCalls()).toHaveLength(3);
+    expect(chunkCalls()[0]?.[1]).toBe(chunkData('abcd'));
+    expect(chunkCalls()[0]?.[2]).toMatchObject({ timeout: 0 });
+    expect(onProgress.mock.calls.map(([progress]) => progress.uploadedBytes)).toEqual([4, 8, 10]);
+  });
+
+  it('retries a chunk the server turned away', async () => {
+    let failures = 1;
+    mockPost.mockImplementation(async (url) => {
+      if (url === '/Attachment') return { id: 'att1', name: 'a.txt' };
+      if (failures-- > 0) throw new ApiError('Service unavailable', 503);
+      return {};
+    });
+    const file = new File(['abcd'], 'a.txt', { type: 'text/plain' });
+
+    await uploadAttachmentInChunks(file, { chunkSize: 4, retryDelayMs: 0 });
+
+    expect(chunkCalls()).toHaveLength(2);
+  });
+
+  it('does not repost a chunk that may have been stored', async () => {
+    mockPost.mockImplementation(async (url) => {
+      if (url === '/Attachment') return { id: 'att1', name: 'a.txt' };
+      throw new ApiError('Network error', 0);
+    });
+    const file = new File(['abcd'], 'a.txt', { type: 'text/plain' });
+
+    await expect(uploadAttachmentInChunks(file, { chunkSize: 4, retryDelayMs: 0 })).rejects.toThrow(
+      'Network error'
+    );
+    expect(chunkCalls()).toHaveLength(1);
+  });
+
+  it('gives up after the retries and resumes from the last stored chunk', async () => {
+    mockPost.mockImplementation(async (url, data) => {
+      if (url === '/Attachment') return { id: 'att1', name: 'a.txt' };
+      if (data === chunkData('efgh')) throw new ApiError('Service unavailable', 503);
+      return {};
+    });
+    const onProgress = vi.fn();
+    const file = new File(['abcdefgh'], 'a.txt', { type: 'text/plain' });
+
+    await expect(
+      uploadAttachmentInChunks(file, { chunkSize: 4, maxRetries: 1, retryDelayMs: 0, onProgress })
+    ).rejects.toThrow('Service unavailable');
+    expect(chunkCalls()).toHaveLength(3);
+
+    const progress = onProgress.mock.calls.at(-1)?.[0];
+    expect(progress).toEqual({ attachment: { id: 'att1', name: 'a.txt' }, uploadedBytes: 4 });
+
+    mockPost.mockClear();
+    mockPost.mockResolvedValue({});
+    await uploadAttachmentInChunks(file, { chunkSize: 4, resume: progress });
+
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    expect(mockPost).toHaveBeenCalledWith(
+      '/Attachment/chunk/att1',
+      chunkData('efgh'),
+      expect.anything()
+    );
+  });
+
+  it('stops when cancelled', async () => {
+    const controller = new AbortController();
+    mockPost.mockImplementation(async (url) => {
+      if (url === '/Attachment') return { id: 'att1', name: 'a.txt' };
+      controller.abort();
+      return {};
+    });
+    const file = new File(['abcdefgh'], 'a.txt', { type: 'text/plain' });
+
+    const error = await uploadAttachmentInChunks(file, { chunkSize: 4, signal: controller.signal }).catch(
+      (e: unknown) => e
+    );
+
+    expect(isUploadCancelled(error)).toBe(true);
+    expect(chunkCalls()).toHaveLength(1);
+  });
+
+  it('reports a chunk request cancelled in flight as cancelled', async () => {
+    const controller = new AbortController();
+    mockPost.mockImplementation(async (url) => {
+      if (url === '/Attachment') return { id: 'att1', name: 'a.txt' };
+      controller.abort();
+      // The client reports aborted requests as network errors
+      throw new ApiError('Network error', 0);
+    });
+    const file = new File(['abcd'], 'a.txt', { type: 'text/plain' });
+
+    const error = await uploadAttachmentInChunks(file, {
+      chunkSize: 4,
+      retryDelayMs: 0,
+      signal: controller.signal,
+    }).catch((e: unknown) => e);
+
+    expect(isUploadCancelled(error)).toBe(true);
+    expect(chunkCalls()).toHaveLength(1);
+  });
+});
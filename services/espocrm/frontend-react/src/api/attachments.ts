@@ -0,0 +1,209 @@
+/**
+ * Attachment API
+ *
+ * EspoCRM accepts uploads as JSON with the file contents in a data URL.
+ * Large files go through the chunk API: the attachment is created with
+ * `isBeingUploaded`, then each chunk is posted to `Attachment/chunk/{id}`
+ * in order and appended on the server.
+ */
+import { ApiError, post } from './client';
+
+/** Attachment endpoints of the API, for URLs loaded by the browser itself */
+const ATTACHMENT_API_URL = '/api/v1/Attachment';
+
+export interface Attachment {
+  id: string;
+  name: string;
+  type?: string;
+  size?: number;
+}
+
+export interface UploadAttachmentOptions {
+  /** `Attachment` for file fields, `Inline Attachment` for images in rich text */
+  role?: 'Attachment' | 'Inline Attachment';
+  /** Entity type the attachment belongs to */
+  relatedType?: string;
+  /** Field the attachment belongs to */
+  field?: string;
+}
+
+/**
+ * URL serving an attachment's contents
+ */
+export function getAttachmentUrl(id: string): string {
+  return `${ATTACHMENT_API_URL}/file/${id}`;
+}
+
+/** Default chunk size (2 MB) */
+export const DEFAULT_CHUNK_SIZE = 2 * 1024 * 1024;
+
+// Responses telling the chunk was not stored. Chunks are appended, so a
+// chunk that may have reached the server (e.g. a dropped connection) is not
+// posted again.
+const RETRYABLE_CHUNK_STATUSES = [408, 429, 503];
+
+export interface ChunkedUploadProgress {
+  /** Attachment being filled; pass it back as `resume` to continue a failed upload */
+  attachment: Attachment;
+  /** Bytes stored on the server so far */
+  uploadedBytes: number;
+}
+
+export interface ChunkedUploadOptions extends UploadAttachmentOptions {
+  chunkSize?: number;
+  /** Attempts per chunk after the first one fails */
+  maxRetries?: number;
+  /** Delay before the first retry; doubled on each further attempt */
+  retryDelayMs?: number;
+  signal?: AbortSignal;
+  /** Called after each stored chunk */
+  onProgress?: (progress: ChunkedUploadProgress) => void;
+  /** Continue an upload whose earlier chunks are already stored */
+  resume?: ChunkedUploadProgress;
+}
+
+export type ImageThumbnailSize = 'small' | 'medium' | 'large' | 'x-large';
+
+/**
+ * URL of a thumbnail EspoCRM generates (and caches) for an image attachment
+ */
+export function getImageThumbnailUrl(id: string, size: ImageThumbnailSize): string {
+  return `${ATTACHMENT_API_URL}/image/${encodeURIComponent(id)}?size=${size}`;
+}
+
+function readAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read file'));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Upload a file as an attachment
+ */
+export async function uploadAttachment(
+  file: File,
+  options: UploadAttachmentOptions = {}
+): Promise<Attachment> {
+  const attachment = await post<Attachment>('/Attachment', {
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    role: options.role ?? 'Attachment',
+    relatedType: options.relatedType,
+    field: options.field,
+    file: await readAsDataUrl(file),
+  });
+
+  return {
+    id: attachment.id,
+    name: attachment.name ?? file.name,
+    type: attachment.type ?? file.type,
+    size: attachment.size ?? file.size,
+  };
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Whether an error comes from cancelling an upload
+ */
+export function isUploadCancelled(error: unknown): boolean {
+  const name = (error as { name?: unknown } | null)?.name;
+  return name === 'AbortError' || name === 'CanceledError';
+}
+
+/**
+ * Upload a file through the chunk API, retrying chunks the server turned
+ * away
+ *
+ * Rejects with the last chunk error once retries run out; the most recent
+ * `onProgress` value can then be passed as `resume` to continue from there.
+ */
+export async function uploadAttachmentInChunks(
+  file: File,
+  options: ChunkedUploadOptions = {}
+): Promise<Attachment> {
+  const {
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    maxRetries = 3,
+    retryDelayMs = 1000,
+    signal,
+    onProgress,
+    resume,
+  } = options;
+
+  signal?.throwIfAborted();
+
+  // The chunk API needs at least one chunk
+  if (!resume && file.size === 0) {
+    return uploadAttachment(file, options);
+  }
+
+  const attachment =
+    resume?.attachment ??
+    (await post<Attachment>(
+      '/Attachment',
+      {
+        name: file.name,
+        type: file.type,
+        size: file.size,
+        role: options.role ?? 'Attachment',
+        relatedType: options.relatedType,
+        field: options.field,
+        isBeingUploaded: true,
+      },
+      { signal }
+    ));
+
+  let uploadedBytes = resume?.uploadedBytes ?? 0;
+
+  while (uploadedBytes < file.size) {
+    const chunk = file.slice(uploadedBytes, uploadedBytes + chunkSize);
+    const data = await readAsDataUrl(chunk);
+
+    for (let attempt = 0; ; attempt++) {
+      signal?.throwIfAborted();
+      try {
+        await post(`/Attachment/chunk/${attachment.id}`, data, {
+          headers: { 'Content-Type': 'multipart/form-data' },
+          // A chunk takes as long as the connection needs
+          timeout: 0,
+          signal,
+        });
+        break;
+      } catch (error) {
+        // A cancelled request reaches here as a network error
+        signal?.throwIfAborted();
+        const retryable =
+          error instanceof ApiError && RETRYABLE_CHUNK_STATUSES.includes(error.status);
+        if (!retryable || attempt >= maxRetries) throw error;
+        await wait(retryDelayMs * 2 ** attempt, signal);
+      }
+    }
+
+    uploadedBytes += chunk.size;
+    onProgress?.({ attachment, uploadedBytes });
+  }
+
+  return {
+    id: attachment.id,
+    name: attachment.name ?? file.name,
+    type: attachment.type ?? file.type,
+    size: attachment.size ?? file.size,
+  };
+}
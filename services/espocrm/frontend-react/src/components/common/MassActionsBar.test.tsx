@@ -225,6 +225,52 @@ describe('MassActionsBar', () => {
     });
   });
 
+  describe('custom actions', () => {
+    const customAction = { label: 'Send to ERP', handler: vi.fn() };
+
+    it('renders extension actions', () => {
+      render(
+        <MassActionsBar
+          {...defaultProps}
+          customActions={[customAction]}
+          onCustomAction={vi.fn()}
+        />
+      );
+      expect(screen.getByRole('button', { name: 'Send to ERP' })).toBeInTheDocument();
+    });
+
+    it('calls onCustomAction with the action when clicked', () => {
+      const onCustomAction = vi.fn();
+      render(
+        <MassActionsBar
+          {...defaultProps}
+          customActions={[customAction]}
+          onCustomAction={onCustomAction}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Send to ERP' }));
+      expect(onCustomAction).toHaveBeenCalledWith(customAction);
+    });
+
+    it('hides extension actions when onCustomAction not provided', () => {
+      render(<MassActionsBar {...defaultProps} customActions={[customAction]} />);
+      expect(screen.queryByRole('button', { name: 'Send to ERP' })).not.toBeInTheDocument();
+    });
+
+    it('disables extension actions when processing', () => {
+      render(
+        <MassActionsBar
+          {...defaultProps}
+          customActions={[customAction]}
+          onCustomAction={vi.fn()}
+          isProcessing
+        />
+      );
+      expect(screen.getByRole('button', { name: 'Send to ERP' })).toBeDisabled();
+    });
+  });
+
   describe('styling', () => {
     it('applies custom className', () => {
       render(<MassActionsBar {...defaultProps} className="custom-class" />);
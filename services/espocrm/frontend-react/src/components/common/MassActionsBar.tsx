@@ -3,6 +3,7 @@ import { Trash2, Edit, Download, X, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useModal } from '@/components/modals';
 import { cn } from '@/lib/utils/cn';
+import type { ActionHandler } from '@/lib/extensions';
 
 interface MassActionsBarProps {
   /** Number of selected records */
@@ -23,6 +24,10 @@ interface MassActionsBarProps {
   canDelete?: boolean;
   /** Whether user can edit */
   canEdit?: boolean;
+  /** Actions registered by extension modules (already filtered by ACL) */
+  customActions?: ActionHandler[];
+  /** Handler for an extension action */
+  onCustomAction?: (action: ActionHandler) => void;
   /** Additional class name */
   className?: string;
 }
@@ -37,6 +42,8 @@ export function MassActionsBar({
   processingAction,
   canDelete = true,
   canEdit = true,
+  customActions = [],
+  onCustomAction,
   className,
 }: MassActionsBarProps): React.ReactElement | null {
   const { confirm } = useModal();
@@ -114,6 +121,22 @@ export function MassActionsBar({
           </Button>
         )}
 
+        {onCustomAction &&
+          customActions.map((action) => (
+            <Button
+              key={action.label}
+              variant="secondary"
+              size="sm"
+              onClick={() => onCustomAction(action)}
+              disabled={isProcessing}
+            >
+              {isProcessing && processingAction === action.label && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              {action.label}
+            </Button>
+          ))}
+
         {canDelete && (
           <Button
             variant="secondary"
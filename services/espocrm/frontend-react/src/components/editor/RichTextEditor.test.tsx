@@ -0,0 +1,147 @@
+/**
+ * RichTextEditor Tests
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { RichTextEditor } from './RichTextEditor';
+
+const execCommand = vi.fn();
+
+describe('RichTextEditor', () => {
+  beforeEach(() => {
+    execCommand.mockReset();
+    // jsdom has no editing commands
+    Object.defineProperty(document, 'execCommand', {
+      value: execCommand,
+      configurable: true,
+      writable: true,
+    });
+  });
+
+  it('renders sanitized content', () => {
+    render(<RichTextEditor value={'<p>Hello</p><script>alert(1)</script>'} />);
+
+    expect(screen.getByRole('textbox').innerHTML).toBe('<p>Hello</p>');
+  });
+
+  it('runs formatting commands from the toolbar', () => {
+    const onChange = vi.fn();
+    render(<RichTextEditor value="<p>Hello</p>" onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Bold' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Numbered list' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Insert table' }));
+
+    expect(execCommand).toHaveBeenCalledWith('bold', false, undefined);
+    expect(execCommand).toHaveBeenCalledWith('insertOrderedList', false, undefined);
+    expect(execCommand).toHaveBeenCalledWith('insertHTML', false, expect.stringContaining('<table'));
+    expect(onChange).toHaveBeenCalledWith('<p>Hello</p>');
+  });
+
+  it('emits sanitized HTML on input', () => {
+    const onChange = vi.fn();
+    render(<RichTextEditor value="" onChange={onChange} />);
+
+    const editor = screen.getByRole('textbox');
+    editor.innerHTML = '<p>Text<img src="/a.png" onerror="alert(1)"></p>';
+    fireEvent.input(editor);
+
+    expect(onChange).toHaveBeenCalledWith('<p>Text<img src="/a.png"></p>');
+  });
+
+  it('emits an empty string when only markup is left', () => {
+    const onChange = vi.fn();
+    render(<RichTextEditor value="<p>x</p>" onChange={onChange} />);
+
+    const editor = screen.getByRole('textbox');
+    editor.innerHTML = '<p><br></p>';
+    fireEvent.input(editor);
+
+    expect(onChange).toHaveBeenCalledWith('');
+  });
+
+  it('sanitizes pasted HTML', () => {
+    render(<RichTextEditor value="" />);
+
+    fireEvent.paste(screen.getByRole('textbox'), {
+      clipboardData: {
+        getData: (type: string) => (type === 'text/html' ? '<b onclick="x()">Pasted</b><script>x()</script>' : ''),
+      },
+    });
+
+    expect(execCommand).toHaveBeenCalledWith('insertHTML', false, '<b>Pasted</b>');
+  });
+
+  it('inserts links, accepting only web, mail and phone targets', () => {
+    render(<RichTextEditor value="<p>Site</p>" />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Insert link' }));
+    fireEvent.change(screen.getByLabelText('Link URL'), { target: { value: 'example.com' } });
+    fireEvent.click(screen.getByText('Apply'));
+
+    expect(execCommand).toHaveBeenCalledWith('createLink', false, 'https://example.com');
+
+    execCommand.mockClear();
+    fireEvent.click(screen.getByRole('button', { name: 'Insert link' }));
+    fireEvent.change(screen.getByLabelText('Link URL'), { target: { value: 'javascript:alert(1)' } });
+    fireEvent.click(screen.getByText('Apply'));
+
+    expect(execCommand).not.toHaveBeenCalled();
+  });
+
+  it('uploads and inserts inline images', async () => {
+    const onUploadImage = vi.fn().mockResolvedValue('/api/v1/Attachment/file/img1');
+    render(<RichTextEditor value="" onUploadImage={onUploadImage} />);
+
+    const file = new File(['png'], 'logo.png', { type: 'image/png' });
+    fireEvent.change(screen.getByTestId('rich-text-image-input'), { target: { files: [file] } });
+
+    await waitFor(() => {
+      expect(execCommand).toHaveBeenCalledWith(
+        'insertHTML',
+        false,
+        '<img src="/api/v1/Attachment/file/img1" alt="logo.png">'
+      );
+    });
+    expect(onUploadImage).toHaveBeenCalledWith(file);
+  });
+
+  it('shows upload errors', async () => {
+    render(<RichTextEditor value="" onUploadImage={() => Promise.reject(new Error('Too large'))} />);
+
+    fireEvent.change(screen.getByTestId('rich-text-image-input'), {
+      target: { files: [new File(['png'], 'big.png', { type: 'image/png' })] },
+    });
+
+    expect(await screen.findByText('Too large')).toBeInTheDocument();
+  });
+
+  it('hides the image button without an upload handler', () => {
+    render(<RichTextEditor value="" />);
+
+    expect(screen.queryByRole('button', { name: 'Insert image' })).not.toBeInTheDocument();
+  });
+
+  it('edits the HTML source', () => {
+    const onChange = vi.fn();
+    render(<RichTextEditor value="<p>Hello</p>" onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'HTML source' }));
+    const source = screen.getByRole('textbox', { name: 'HTML source' });
+    expect(source).toHaveValue('<p>Hello</p>');
+    expect(screen.getByRole('button', { name: 'Bold' })).toBeDisabled();
+
+    fireEvent.change(source, { target: { value: '<h2 onclick="x()">Title</h2>' } });
+    fireEvent.click(screen.getByRole('button', { name: 'HTML source' }));
+
+    expect(onChange).toHaveBeenCalledWith('<h2>Title</h2>');
+    expect(screen.getByRole('textbox')).toBeInTheDocument();
+  });
+
+  it('is not editable when read-only', () => {
+    render(<RichTextEditor value="<p>Fixed</p>" readOnly />);
+
+    expect(screen.getByRole('textbox')).toHaveAttribute('contenteditable', 'false');
+    expect(screen.getByRole('button', { name: 'Bold' })).toBeDisabled();
+  });
+});
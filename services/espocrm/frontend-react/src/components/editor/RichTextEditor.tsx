@@ -0,0 +1,319 @@
+/**
+ * RichTextEditor - contentEditable HTML editor
+ *
+ * Toolbar for inline formatting, headings, lists, quotes, links, tables and
+ * inline images, plus an HTML source view. Everything the editor emits and
+ * everything pasted into it goes through the allow-list sanitizer.
+ */
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Bold,
+  Italic,
+  Underline,
+  Strikethrough,
+  Heading2,
+  List,
+  ListOrdered,
+  Quote,
+  Link as LinkIcon,
+  Unlink,
+  Table,
+  ImagePlus,
+  RemoveFormatting,
+  Code,
+  Loader2,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { sanitizeHtml, htmlToPlainText } from '@/lib/utils/sanitizeHtml';
+import { cn } from '@/lib/utils/cn';
+
+export interface RichTextEditorProps {
+  /** HTML content */
+  value: string;
+  /** Called with the sanitized HTML after each edit */
+  onChange?: (html: string) => void;
+  /** Uploads an inline image and resolves to its URL; the image button is hidden without it */
+  onUploadImage?: (file: File) => Promise<string>;
+  name?: string;
+  placeholder?: string;
+  disabled?: boolean;
+  readOnly?: boolean;
+  className?: string;
+}
+
+const TABLE_HTML =
+  '<table style="border-collapse: collapse; width: 100%"><tbody>' +
+  '<tr><td style="border: 1px solid #ccc"><br></td><td style="border: 1px solid #ccc"><br></td><td style="border: 1px solid #ccc"><br></td></tr>'.repeat(3) +
+  '</tbody></table><p><br></p>';
+
+/**
+ * Whether the editor holds no content (browsers leave a `<br>` behind)
+ */
+function isEmptyHtml(html: string): boolean {
+  return !htmlToPlainText(html) && !/<(img|table|hr)\b/i.test(html);
+}
+
+/**
+ * Complete a typed link target, accepting only web, mail and phone links
+ */
+function normalizeLinkUrl(url: string): string | null {
+  const trimmed = url.trim();
+  if (!trimmed) return null;
+  if (/^(https?:|mailto:|tel:)/i.test(trimmed)) return trimmed;
+  if (/^[a-z][a-z0-9+.-]*:/i.test(trimmed)) return null;
+  return `https://${trimmed}`;
+}
+
+export function RichTextEditor({
+  value,
+  onChange,
+  onUploadImage,
+  name,
+  placeholder,
+  disabled,
+  readOnly,
+  className,
+}: RichTextEditorProps): React.ReactElement {
+  const editorRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Last HTML emitted by the editor; other values come from outside and replace the content
+  const lastHtmlRef = useRef<string | null>(null);
+  const savedRangeRef = useRef<Range | null>(null);
+
+  const [isSourceView, setIsSourceView] = useState(false);
+  const [source, setSource] = useState('');
+  const [linkUrl, setLinkUrl] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const isEditable = !disabled && !readOnly;
+
+  // Load outside values into the editable area
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || value === lastHtmlRef.current) return;
+    editor.innerHTML = sanitizeHtml(value);
+    lastHtmlRef.current = value;
+  }, [value, isSourceView]);
+
+  const emitChange = useCallback((): void => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const html = isEmptyHtml(editor.innerHTML) ? '' : sanitizeHtml(editor.innerHTML);
+    lastHtmlRef.current = html;
+    onChange?.(html);
+  }, [onChange]);
+
+  const exec = useCallback(
+    (command: string, argument?: string): void => {
+      editorRef.current?.focus();
+      document.execCommand(command, false, argument);
+      emitChange();
+    },
+    [emitChange]
+  );
+
+  const saveSelection = (): void => {
+    const selection = window.getSelection();
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    savedRangeRef.current =
+      range && editorRef.current?.contains(range.commonAncestorContainer) ? range.cloneRange() : null;
+  };
+
+  const restoreSelection = (): void => {
+    editorRef.current?.focus();
+    const selection = window.getSelection();
+    if (selection && savedRangeRef.current) {
+      selection.removeAllRanges();
+      selection.addRange(savedRangeRef.current);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>): void => {
+    e.preventDefault();
+    const html = e.clipboardData.getData('text/html');
+    if (html) {
+      exec('insertHTML', sanitizeHtml(html));
+    } else {
+      exec('insertText', e.clipboardData.getData('text/plain'));
+    }
+  };
+
+  const applyLink = (): void => {
+    const url = normalizeLinkUrl(linkUrl ?? '');
+    setLinkUrl(null);
+    if (!url) return;
+    restoreSelection();
+    exec('createLink', url);
+  };
+
+  const handleImageSelect = async (e: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onUploadImage) return;
+
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      const url = await onUploadImage(file);
+      const image = document.createElement('img');
+      image.setAttribute('src', url);
+      image.setAttribute('alt', file.name);
+      restoreSelection();
+      exec('insertHTML', image.outerHTML);
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : 'Image upload failed');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const toggleSourceView = (): void => {
+    if (isSourceView) {
+      const html = sanitizeHtml(source);
+      lastHtmlRef.current = null;
+      onChange?.(html);
+    } else {
+      setSource(value);
+    }
+    setIsSourceView(!isSourceView);
+  };
+
+  const toolbarButton = (
+    label: string,
+    icon: React.ReactNode,
+    onClick: () => void,
+    options?: { active?: boolean; disabled?: boolean }
+  ): React.ReactElement => (
+    <Button
+      type="button"
+      variant="ghost"
+      size="sm"
+      className={cn('h-7 w-7 p-0', options?.active && 'bg-gray-200')}
+      aria-label={label}
+      title={label}
+      aria-pressed={options?.active}
+      disabled={!isEditable || options?.disabled}
+      // Keep the editor's selection when clicking toolbar buttons
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={onClick}
+    >
+      {icon}
+    </Button>
+  );
+
+  return (
+    <div className={cn('rounded-md border border-input bg-background', className)}>
+      <div role="toolbar" aria-label="Formatting" className="flex flex-wrap items-center gap-0.5 border-b p-1">
+        {toolbarButton('Bold', <Bold className="h-4 w-4" />, () => exec('bold'), { disabled: isSourceView })}
+        {toolbarButton('Italic', <Italic className="h-4 w-4" />, () => exec('italic'), { disabled: isSourceView })}
+        {toolbarButton('Underline', <Underline className="h-4 w-4" />, () => exec('underline'), { disabled: isSourceView })}
+        {toolbarButton('Strikethrough', <Strikethrough className="h-4 w-4" />, () => exec('strikeThrough'), { disabled: isSourceView })}
+        {toolbarButton('Heading', <Heading2 className="h-4 w-4" />, () => exec('formatBlock', '<h2>'), { disabled: isSourceView })}
+        {toolbarButton('Bulleted list', <List className="h-4 w-4" />, () => exec('insertUnorderedList'), { disabled: isSourceView })}
+        {toolbarButton('Numbered list', <ListOrdered className="h-4 w-4" />, () => exec('insertOrderedList'), { disabled: isSourceView })}
+        {toolbarButton('Quote', <Quote className="h-4 w-4" />, () => exec('formatBlock', '<blockquote>'), { disabled: isSourceView })}
+        {toolbarButton(
+          'Insert link',
+          <LinkIcon className="h-4 w-4" />,
+          () => {
+            saveSelection();
+            setLinkUrl('');
+          },
+          { disabled: isSourceView }
+        )}
+        {toolbarButton('Remove link', <Unlink className="h-4 w-4" />, () => exec('unlink'), { disabled: isSourceView })}
+        {toolbarButton('Insert table', <Table className="h-4 w-4" />, () => exec('insertHTML', TABLE_HTML), { disabled: isSourceView })}
+        {onUploadImage &&
+          toolbarButton(
+            'Insert image',
+            isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImagePlus className="h-4 w-4" />,
+            () => {
+              saveSelection();
+              fileInputRef.current?.click();
+            },
+            { disabled: isSourceView || isUploading }
+          )}
+        {toolbarButton('Clear formatting', <RemoveFormatting className="h-4 w-4" />, () => exec('removeFormat'), { disabled: isSourceView })}
+        <div className="ml-auto">
+          {toolbarButton('HTML source', <Code className="h-4 w-4" />, toggleSourceView, { active: isSourceView })}
+        </div>
+      </div>
+
+      {linkUrl !== null && (
+        <div className="flex items-center gap-2 border-b p-2">
+          <input
+            type="text"
+            aria-label="Link URL"
+            autoFocus
+            value={linkUrl}
+            onChange={(e) => setLinkUrl(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                applyLink();
+              } else if (e.key === 'Escape') {
+                setLinkUrl(null);
+              }
+            }}
+            placeholder="https://"
+            className="h-8 flex-1 rounded-md border border-input bg-background px-2 text-sm"
+          />
+          <Button type="button" size="sm" onClick={applyLink}>
+            Apply
+          </Button>
+          <Button type="button" size="sm" variant="ghost" onClick={() => setLinkUrl(null)}>
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      {uploadError && <p className="border-b px-3 py-1 text-xs text-destructive">{uploadError}</p>}
+
+      {isSourceView ? (
+        <textarea
+          name={name}
+          aria-label="HTML source"
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          onBlur={() => onChange?.(sanitizeHtml(source))}
+          readOnly={!isEditable}
+          rows={10}
+          className="block min-h-[160px] w-full resize-y bg-transparent p-3 font-mono text-xs focus-visible:outline-none"
+        />
+      ) : (
+        <div
+          ref={editorRef}
+          role="textbox"
+          aria-multiline="true"
+          aria-label={name}
+          aria-disabled={disabled || undefined}
+          aria-readonly={readOnly || undefined}
+          contentEditable={isEditable}
+          suppressContentEditableWarning
+          data-placeholder={placeholder}
+          onInput={emitChange}
+          onPaste={handlePaste}
+          className={cn(
+            'prose prose-sm max-w-none min-h-[160px] px-3 py-2 text-sm focus-visible:outline-none',
+            'empty:before:text-muted-foreground empty:before:content-[attr(data-placeholder)]',
+            !isEditable && 'cursor-not-allowed opacity-50'
+          )}
+        />
+      )}
+
+      {onUploadImage && (
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          data-testid="rich-text-image-input"
+          onChange={(e) => void handleImageSelect(e)}
+        />
+      )}
+    </div>
+  );
+}
+
+export default RichTextEditor;
@@ -0,0 +1,121 @@
+/**
+ * ImageCropper Tests
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ImageCropper } from './ImageCropper';
+
+vi.mock('@/lib/image', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/image')>()),
+  processImage: vi.fn(),
+}));
+
+import { processImage } from '@/lib/image';
+
+const mockProcessImage = vi.mocked(processImage);
+
+function loadImage(name: string, width: number, height: number): void {
+  const image = screen.getByAltText(name);
+  Object.defineProperty(image, 'naturalWidth', { value: width });
+  Object.defineProperty(image, 'naturalHeight', { value: height });
+  fireEvent.load(image);
+}
+
+describe('ImageCropper', () => {
+  const file = new File(['photo'], 'photo.heic', { type: 'image/heic' });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    URL.createObjectURL = vi.fn(() => 'blob:photo');
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('starts with a centered crop of the default preset', () => {
+    render(<ImageCropper file={file} defaultPreset="square" onConfirm={vi.fn()} onCancel={vi.fn()} />);
+    loadImage('photo.heic', 2000, 1000);
+
+    expect(screen.getByRole('dialog')).toHaveTextContent('Crop image');
+    expect(screen.getByRole('button', { name: 'Square (avatar)' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByText('1000 × 1000 px')).toBeInTheDocument();
+  });
+
+  it('switches presets and rotates', () => {
+    render(<ImageCropper file={file} onConfirm={vi.fn()} onCancel={vi.fn()} />);
+    loadImage('photo.heic', 2000, 1000);
+    expect(screen.getByText('2000 × 1000 px')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Banner (3:1)' }));
+    expect(screen.getByText('2000 × 667 px')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Rotate right' }));
+    expect(screen.getByText('1000 × 333 px')).toBeInTheDocument();
+  });
+
+  it('moves the crop with the arrow keys', () => {
+    render(<ImageCropper file={file} defaultPreset="square" onConfirm={vi.fn()} onCancel={vi.fn()} />);
+    loadImage('photo.heic', 2000, 1000);
+
+    const area = screen.getByTestId('crop-area');
+    const left = parseFloat(area.style.left);
+    fireEvent.keyDown(area, { key: 'ArrowRight' });
+
+    expect(parseFloat(screen.getByTestId('crop-area').style.left)).toBeGreaterThan(left);
+  });
+
+  it('revokes the preview URL on unmount', () => {
+    const { unmount } = render(<ImageCropper file={file} onConfirm={vi.fn()} onCancel={vi.fn()} />);
+    unmount();
+
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:photo');
+  });
+
+  it('passes on the processed image as a JPEG', async () => {
+    mockProcessImage.mockResolvedValue(new Blob(['small'], { type: 'image/jpeg' }));
+    const onConfirm = vi.fn();
+    render(
+      <ImageCropper file={file} defaultPreset="square" maxWidth={256} onConfirm={onConfirm} onCancel={vi.fn()} />
+    );
+    loadImage('photo.heic', 2000, 1000);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+
+    await waitFor(() => expect(onConfirm).toHaveBeenCalled());
+    expect(mockProcessImage).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        crop: { x: 500, y: 0, width: 1000, height: 1000 },
+        rotation: 0,
+        maxWidth: 256,
+        mimeType: 'image/jpeg',
+      })
+    );
+    const processed = onConfirm.mock.calls[0]?.[0] as File;
+    expect(processed.name).toBe('photo.jpg');
+    expect(processed.type).toBe('image/jpeg');
+  });
+
+  it('falls back to the original file when processing fails', async () => {
+    mockProcessImage.mockRejectedValue(new Error('Canvas is not supported'));
+    const onConfirm = vi.fn();
+    render(<ImageCropper file={file} onConfirm={onConfirm} onCancel={vi.fn()} />);
+    loadImage('photo.heic', 2000, 1000);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+
+    await waitFor(() => expect(onConfirm).toHaveBeenCalledWith(file));
+  });
+
+  it('cancels', () => {
+    const onCancel = vi.fn();
+    render(<ImageCropper file={file} onConfirm={vi.fn()} onCancel={onCancel} />);
+
+    expect(screen.getByRole('button', { name: 'Apply' })).toBeDisabled();
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+    expect(onCancel).toHaveBeenCalled();
+  });
+});
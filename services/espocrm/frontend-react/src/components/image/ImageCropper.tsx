@@ -0,0 +1,290 @@
+/**
+ * ImageCropper - crop, rotate and downscale a picked photo before upload
+ *
+ * Drag the frame to move it and its corner handle to resize it (arrow keys
+ * move it too). Confirming encodes the result with the canvas; if the browser
+ * can't do that, the original file is passed on unchanged.
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import { RotateCcw, RotateCw } from 'lucide-react';
+import { BaseModal } from '@/components/modals/BaseModal';
+import { Button } from '@/components/ui/button';
+import {
+  ASPECT_PRESETS,
+  getCenteredCrop,
+  getOutputType,
+  getRotatedSize,
+  processImage,
+  renameForType,
+  type AspectPreset,
+  type CropArea,
+  type Rotation,
+  type Size,
+} from '@/lib/image';
+import { cn } from '@/lib/utils/cn';
+
+export interface ImageCropperProps {
+  file: File;
+  presets?: AspectPreset[];
+  /** Key of the preset selected initially */
+  defaultPreset?: string;
+  maxWidth?: number;
+  maxHeight?: number;
+  quality?: number;
+  /** Called with the processed file */
+  onConfirm: (file: File) => void;
+  onCancel: () => void;
+}
+
+// Largest size of the on-screen preview
+const VIEW_WIDTH = 480;
+const VIEW_HEIGHT = 360;
+const MIN_CROP_SIZE = 16;
+const KEYBOARD_STEP = 10;
+
+interface DragState {
+  mode: 'move' | 'resize';
+  pointerX: number;
+  pointerY: number;
+  crop: CropArea;
+}
+
+function clampCrop(crop: CropArea, bounds: Size): CropArea {
+  const width = Math.min(Math.max(crop.width, MIN_CROP_SIZE), bounds.width);
+  const height = Math.min(Math.max(crop.height, MIN_CROP_SIZE), bounds.height);
+  return {
+    x: Math.min(Math.max(crop.x, 0), bounds.width - width),
+    y: Math.min(Math.max(crop.y, 0), bounds.height - height),
+    width,
+    height,
+  };
+}
+
+export function ImageCropper({
+  file,
+  presets = ASPECT_PRESETS,
+  defaultPreset,
+  maxWidth,
+  maxHeight,
+  quality,
+  onConfirm,
+  onCancel,
+}: ImageCropperProps): React.ReactElement {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const [natural, setNatural] = useState<Size | null>(null);
+  const [rotation, setRotation] = useState<Rotation>(0);
+  const [presetKey, setPresetKey] = useState(defaultPreset ?? presets[0]?.key ?? 'free');
+  const [crop, setCrop] = useState<CropArea | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const aspect = presets.find((preset) => preset.key === presetKey)?.aspect ?? null;
+  const rotated = natural ? getRotatedSize(natural, rotation) : null;
+  const scale = rotated ? Math.min(1, VIEW_WIDTH / rotated.width, VIEW_HEIGHT / rotated.height) : 1;
+
+  // The object URL is set on the element directly so it can be revoked on unmount
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    if (imageRef.current) imageRef.current.src = url;
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const handleLoad = (): void => {
+    const image = imageRef.current;
+    if (!image) return;
+    const size = { width: image.naturalWidth, height: image.naturalHeight };
+    setNatural(size);
+    setCrop(getCenteredCrop(getRotatedSize(size, rotation), aspect));
+  };
+
+  const selectPreset = (preset: AspectPreset): void => {
+    setPresetKey(preset.key);
+    if (rotated) setCrop(getCenteredCrop(rotated, preset.aspect));
+  };
+
+  const rotate = (delta: 90 | -90): void => {
+    const next = (((rotation + delta) % 360) + 360) % 360 as Rotation;
+    setRotation(next);
+    if (natural) setCrop(getCenteredCrop(getRotatedSize(natural, next), aspect));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, mode: DragState['mode']): void => {
+    if (!crop) return;
+    e.preventDefault();
+    e.stopPropagation();
+    dragRef.current = { mode, pointerX: e.clientX, pointerY: e.clientY, crop };
+
+    const handleMove = (event: PointerEvent): void => {
+      const drag = dragRef.current;
+      if (!drag || !rotated) return;
+      const dx = (event.clientX - drag.pointerX) / scale;
+      const dy = (event.clientY - drag.pointerY) / scale;
+
+      if (drag.mode === 'move') {
+        setCrop(clampCrop({ ...drag.crop, x: drag.crop.x + dx, y: drag.crop.y + dy }, rotated));
+        return;
+      }
+
+      let width = Math.min(drag.crop.width + dx, rotated.width - drag.crop.x);
+      let height = aspect ? width / aspect : Math.min(drag.crop.height + dy, rotated.height - drag.crop.y);
+      if (aspect && height > rotated.height - drag.crop.y) {
+        height = rotated.height - drag.crop.y;
+        width = height * aspect;
+      }
+      setCrop(clampCrop({ ...drag.crop, width, height }, rotated));
+    };
+
+    const handleUp = (): void => {
+      dragRef.current = null;
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent): void => {
+    if (!crop || !rotated) return;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-KEYBOARD_STEP, 0],
+      ArrowRight: [KEYBOARD_STEP, 0],
+      ArrowUp: [0, -KEYBOARD_STEP],
+      ArrowDown: [0, KEYBOARD_STEP],
+    };
+    const move = moves[e.key];
+    if (!move) return;
+    e.preventDefault();
+    setCrop(clampCrop({ ...crop, x: crop.x + move[0], y: crop.y + move[1] }, rotated));
+  };
+
+  const handleConfirm = async (): Promise<void> => {
+    const image = imageRef.current;
+    if (!image || !crop) return;
+
+    setIsProcessing(true);
+    const mimeType = getOutputType(file.type);
+    try {
+      const blob = await processImage(image, {
+        crop: {
+          x: Math.round(crop.x),
+          y: Math.round(crop.y),
+          width: Math.round(crop.width),
+          height: Math.round(crop.height),
+        },
+        rotation,
+        maxWidth,
+        maxHeight,
+        quality,
+        mimeType,
+      });
+      onConfirm(new File([blob], renameForType(file.name, mimeType), { type: mimeType }));
+    } catch {
+      onConfirm(file);
+    }
+  };
+
+  return (
+    <BaseModal
+      open={true}
+      onOpenChange={(open) => !open && onCancel()}
+      title="Crop image"
+      size="lg"
+      footer={
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onCancel} disabled={isProcessing}>
+            Cancel
+          </Button>
+          <Button onClick={() => void handleConfirm()} disabled={!crop || isProcessing}>
+            {isProcessing ? 'Processing...' : 'Apply'}
+          </Button>
+        </div>
+      }
+    >
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-1">
+          {presets.map((preset) => (
+            <Button
+              key={preset.key}
+              type="button"
+              size="sm"
+              variant={preset.key === presetKey ? 'default' : 'outline'}
+              aria-pressed={preset.key === presetKey}
+              onClick={() => selectPreset(preset)}
+            >
+              {preset.label}
+            </Button>
+          ))}
+          <div className="ml-auto flex gap-1">
+            <Button type="button" size="sm" variant="outline" aria-label="Rotate left" onClick={() => rotate(-90)}>
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+            <Button type="button" size="sm" variant="outline" aria-label="Rotate right" onClick={() => rotate(90)}>
+              <RotateCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex justify-center rounded bg-gray-900 p-2">
+          <div
+            className="relative overflow-hidden"
+            style={
+              rotated
+                ? { width: rotated.width * scale, height: rotated.height * scale }
+                : { width: VIEW_WIDTH, height: VIEW_HEIGHT }
+            }
+          >
+            <img
+              ref={imageRef}
+              alt={file.name}
+              onLoad={handleLoad}
+              draggable={false}
+              className={cn('absolute left-1/2 top-1/2 max-w-none select-none', !natural && 'invisible')}
+              style={
+                natural
+                  ? {
+                      width: natural.width * scale,
+                      height: natural.height * scale,
+                      transform: `translate(-50%, -50%) rotate(${rotation}deg)`,
+                    }
+                  : undefined
+              }
+            />
+            {crop && (
+              <div
+                role="group"
+                tabIndex={0}
+                aria-label="Crop area"
+                data-testid="crop-area"
+                onPointerDown={(e) => handlePointerDown(e, 'move')}
+                onKeyDown={handleKeyDown}
+                className="absolute cursor-move border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.5)] focus:outline-none focus-visible:border-blue-400"
+                style={{
+                  left: crop.x * scale,
+                  top: crop.y * scale,
+                  width: crop.width * scale,
+                  height: crop.height * scale,
+                }}
+              >
+                <div
+                  data-testid="crop-resize-handle"
+                  onPointerDown={(e) => handlePointerDown(e, 'resize')}
+                  className="absolute -bottom-1.5 -right-1.5 h-3 w-3 cursor-se-resize rounded-sm border border-gray-700 bg-white"
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        {crop && (
+          <p className="text-center text-xs text-muted-foreground">
+            {Math.round(crop.width)} × {Math.round(crop.height)} px
+          </p>
+        )}
+      </div>
+    </BaseModal>
+  );
+}
+
+export default ImageCropper;
@@ -0,0 +1,2 @@
+export { ImageCropper } from './ImageCropper';
+export type { ImageCropperProps } from './ImageCropper';
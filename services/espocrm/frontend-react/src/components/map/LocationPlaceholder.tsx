@@ -0,0 +1,38 @@
+/**
+ * LocationPlaceholder - map stand-in that loads nothing over the network
+ *
+ * Used by the `None` provider: shows the marked locations as a list.
+ */
+import React from 'react';
+import { MapPin } from 'lucide-react';
+import { formatCoordinates, type MapRendererProps } from '@/lib/map';
+import { cn } from '@/lib/utils/cn';
+
+export function LocationPlaceholder({ markers, height, onMarkerClick, className }: MapRendererProps): React.ReactElement {
+  return (
+    <div
+      className={cn('overflow-auto rounded-md border bg-gray-50 p-3', className)}
+      style={{ maxHeight: height }}
+    >
+      <ul className="space-y-1 text-sm">
+        {markers.map((marker) => {
+          const text = marker.label || formatCoordinates(marker.position);
+          return (
+            <li key={marker.id} className="flex items-center gap-2">
+              <MapPin className="h-4 w-4 shrink-0 text-red-500" />
+              {onMarkerClick ? (
+                <button type="button" className="text-left text-blue-600 hover:underline" onClick={() => onMarkerClick(marker)}>
+                  {text}
+                </button>
+              ) : (
+                <span>{text}</span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default LocationPlaceholder;
@@ -0,0 +1,33 @@
+/**
+ * MapView - renders markers with a registered map provider
+ */
+import React from 'react';
+import { useMapSettings, type MapMarker } from '@/lib/map';
+import { resolveMapProvider } from './providers';
+
+export interface MapViewProps {
+  markers: MapMarker[];
+  /** Provider name; the `mapProvider` setting is used when not given */
+  provider?: string;
+  /** Height in pixels */
+  height?: number;
+  onMarkerClick?: (marker: MapMarker) => void;
+  className?: string;
+}
+
+export function MapView({ markers, provider, height = 300, onMarkerClick, className }: MapViewProps): React.ReactElement {
+  const settings = useMapSettings();
+  const { component: Renderer } = resolveMapProvider(provider, settings);
+
+  return (
+    <Renderer
+      markers={markers}
+      height={height}
+      settings={settings}
+      onMarkerClick={onMarkerClick}
+      className={className}
+    />
+  );
+}
+
+export default MapView;
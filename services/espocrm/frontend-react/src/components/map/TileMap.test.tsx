@@ -0,0 +1,92 @@
+/**
+ * TileMap Tests
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TileMap } from './TileMap';
+import { DEFAULT_MAP_SETTINGS, type MapMarker } from '@/lib/map';
+
+const settings = {
+  ...DEFAULT_MAP_SETTINGS,
+  tileUrl: 'https://tiles.internal/{z}/{x}/{y}.png',
+  attribution: 'Internal tiles',
+  maxZoom: 17,
+};
+
+const berlin: MapMarker = { id: 'b', position: { latitude: 52.52, longitude: 13.405 }, label: 'Berlin' };
+const paris: MapMarker = { id: 'p', position: { latitude: 48.8566, longitude: 2.3522 }, label: 'Paris' };
+
+function tileUrls(): string[] {
+  return Array.from(document.querySelectorAll('img[alt=""]')).map((img) => img.getAttribute('src') ?? '');
+}
+
+function zoomOf(url: string | undefined): number {
+  return Number(url?.split('/')[3]);
+}
+
+describe('TileMap', () => {
+  it('loads tiles from the configured server around a single marker', () => {
+    render(<TileMap markers={[berlin]} height={300} settings={settings} />);
+
+    const urls = tileUrls();
+    expect(urls.length).toBeGreaterThan(0);
+    expect(urls.every((url) => url.startsWith('https://tiles.internal/15/'))).toBe(true);
+    expect(screen.getByRole('img', { name: 'Berlin' })).toBeInTheDocument();
+    expect(screen.getByText(settings.attribution)).toBeInTheDocument();
+  });
+
+  it('zooms out to show all markers', () => {
+    render(<TileMap markers={[berlin, paris]} height={300} settings={settings} />);
+
+    expect(zoomOf(tileUrls()[0])).toBeLessThan(8);
+    expect(screen.getByRole('img', { name: 'Paris' })).toBeInTheDocument();
+  });
+
+  it('zooms with the buttons and keyboard within the limits', () => {
+    render(<TileMap markers={[berlin]} height={300} settings={settings} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Zoom in' }));
+    expect(zoomOf(tileUrls()[0])).toBe(16);
+
+    fireEvent.keyDown(screen.getByRole('region', { name: 'Map' }), { key: '+' });
+    expect(zoomOf(tileUrls()[0])).toBe(17);
+    expect(screen.getByRole('button', { name: 'Zoom in' })).toBeDisabled();
+
+    fireEvent.keyDown(screen.getByRole('region', { name: 'Map' }), { key: '-' });
+    expect(zoomOf(tileUrls()[0])).toBe(16);
+  });
+
+  it('pans by dragging and with the arrow keys', () => {
+    render(<TileMap markers={[berlin]} height={300} settings={settings} />);
+    const marker = screen.getByRole('img', { name: 'Berlin' });
+    const left = parseFloat(marker.style.left);
+
+    const map = screen.getByRole('region', { name: 'Map' });
+    fireEvent.pointerDown(map, { button: 0, clientX: 100, clientY: 100 });
+    fireEvent.pointerMove(window, { clientX: 150, clientY: 100 });
+    fireEvent.pointerUp(window);
+    expect(parseFloat(screen.getByRole('img', { name: 'Berlin' }).style.left)).toBeCloseTo(left + 50, 3);
+
+    fireEvent.keyDown(map, { key: 'ArrowRight' });
+    expect(parseFloat(screen.getByRole('img', { name: 'Berlin' }).style.left)).toBeCloseTo(left - 14, 3);
+  });
+
+  it('makes markers clickable when a handler is given', () => {
+    const onMarkerClick = vi.fn();
+    render(<TileMap markers={[berlin, paris]} height={300} settings={settings} onMarkerClick={onMarkerClick} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Paris' }));
+
+    expect(onMarkerClick).toHaveBeenCalledWith(paris);
+  });
+
+  it('hides tiles that fail to load', () => {
+    render(<TileMap markers={[berlin]} height={300} settings={settings} />);
+    const tile = document.querySelector('img[alt=""]') as HTMLImageElement;
+
+    fireEvent.error(tile);
+
+    expect(tile.style.visibility).toBe('hidden');
+    expect(screen.getByRole('img', { name: 'Berlin' })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * TileMap - built-in map renderer for XYZ tile servers
+ *
+ * Draws tiles from the configured tile URL (e.g. a self-hosted server) with
+ * markers on top. The view starts fitted to the markers; drag or use the
+ * arrow keys to pan, and the buttons, +/- or a double click to zoom. Tiles
+ * that fail to load are hidden, so markers still show without the server.
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import { MapPin, Minus, Plus } from 'lucide-react';
+import {
+  TILE_SIZE,
+  fitBounds,
+  formatTileUrl,
+  getVisibleTiles,
+  project,
+  unproject,
+  type MapRendererProps,
+  type Viewport,
+} from '@/lib/map';
+import { cn } from '@/lib/utils/cn';
+
+// Width used until the container is measured
+const DEFAULT_WIDTH = 600;
+const KEYBOARD_PAN = 64;
+
+interface ViewState {
+  /** Markers the view was changed for; a new marker set starts fitted again */
+  markersKey: string;
+  viewport: Viewport;
+}
+
+export function TileMap({
+  markers,
+  height,
+  settings,
+  onMarkerClick,
+  className,
+}: MapRendererProps): React.ReactElement {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(DEFAULT_WIDTH);
+  const [view, setView] = useState<ViewState | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver((entries) => {
+      const measured = entries[0]?.contentRect.width;
+      if (measured) setWidth(measured);
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const markersKey = markers
+    .map((marker) => `${marker.id}:${marker.position.latitude},${marker.position.longitude}`)
+    .join('|');
+
+  const firstMarker = markers[0];
+  const fitted: Viewport =
+    markers.length === 1 && firstMarker
+      ? { center: firstMarker.position, zoom: Math.min(settings.defaultZoom, settings.maxZoom) }
+      : fitBounds(
+          markers.map((marker) => marker.position),
+          width,
+          height,
+          { minZoom: settings.minZoom, maxZoom: Math.min(settings.defaultZoom, settings.maxZoom) }
+        );
+  const viewport = view && view.markersKey === markersKey ? view.viewport : fitted;
+  const { zoom } = viewport;
+
+  const center = project(viewport.center, zoom);
+  const originX = center.x - width / 2;
+  const originY = center.y - height / 2;
+
+  const moveTo = (x: number, y: number, nextZoom = zoom): void => {
+    // Keep the world's top and bottom edges within reach
+    const worldSize = TILE_SIZE * 2 ** nextZoom;
+    const clampedY = Math.min(Math.max(y, 0), worldSize);
+    setView({ markersKey, viewport: { center: unproject({ x, y: clampedY }, nextZoom), zoom: nextZoom } });
+  };
+
+  const zoomTo = (nextZoom: number): void => {
+    const clamped = Math.min(Math.max(nextZoom, settings.minZoom), settings.maxZoom);
+    if (clamped === zoom) return;
+    const scaled = project(viewport.center, clamped);
+    moveTo(scaled.x, scaled.y, clamped);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent): void => {
+    if (e.button !== 0 || (e.target as HTMLElement).closest('button')) return;
+    const start = { pointerX: e.clientX, pointerY: e.clientY, x: center.x, y: center.y };
+
+    const handleMove = (event: PointerEvent): void => {
+      moveTo(start.x - (event.clientX - start.pointerX), start.y - (event.clientY - start.pointerY));
+    };
+    const handleUp = (): void => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent): void => {
+    const pans: Record<string, [number, number]> = {
+      ArrowLeft: [-KEYBOARD_PAN, 0],
+      ArrowRight: [KEYBOARD_PAN, 0],
+      ArrowUp: [0, -KEYBOARD_PAN],
+      ArrowDown: [0, KEYBOARD_PAN],
+    };
+    const pan = pans[e.key];
+    if (pan) {
+      e.preventDefault();
+      moveTo(center.x + pan[0], center.y + pan[1]);
+    } else if (e.key === '+' || e.key === '=') {
+      e.preventDefault();
+      zoomTo(zoom + 1);
+    } else if (e.key === '-') {
+      e.preventDefault();
+      zoomTo(zoom - 1);
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      role="region"
+      aria-label="Map"
+      tabIndex={0}
+      onPointerDown={handlePointerDown}
+      onKeyDown={handleKeyDown}
+      onDoubleClick={(e) => {
+        if (!(e.target as HTMLElement).closest('button')) zoomTo(zoom + 1);
+      }}
+      className={cn(
+        'relative w-full cursor-grab touch-none select-none overflow-hidden rounded-md border bg-gray-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400',
+        className
+      )}
+      style={{ height }}
+    >
+      {getVisibleTiles(viewport, width, height).map((tile) => (
+        <img
+          key={tile.key}
+          src={formatTileUrl(settings.tileUrl, tile, settings.tileSubdomains)}
+          alt=""
+          draggable={false}
+          className="absolute max-w-none"
+          style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+          onError={(e) => {
+            e.currentTarget.style.visibility = 'hidden';
+          }}
+        />
+      ))}
+
+      {markers.map((marker) => {
+        const position = project(marker.position, zoom);
+        const label = marker.label || `${marker.position.latitude}, ${marker.position.longitude}`;
+        const style = {
+          left: position.x - originX,
+          top: position.y - originY,
+          transform: 'translate(-50%, -100%)',
+        };
+        const pin = <MapPin className="h-7 w-7 fill-red-500 text-red-700 drop-shadow" />;
+
+        return onMarkerClick ? (
+          <button
+            key={marker.id}
+            type="button"
+            title={label}
+            aria-label={label}
+            onClick={() => onMarkerClick(marker)}
+            className="absolute cursor-pointer"
+            style={style}
+          >
+            {pin}
+          </button>
+        ) : (
+          <span key={marker.id} role="img" title={label} aria-label={label} className="absolute" style={style}>
+            {pin}
+          </span>
+        );
+      })}
+
+      <div className="absolute right-2 top-2 flex flex-col overflow-hidden rounded border bg-white shadow">
+        <button
+          type="button"
+          aria-label="Zoom in"
+          onClick={() => zoomTo(zoom + 1)}
+          disabled={zoom >= settings.maxZoom}
+          className="p-1 hover:bg-gray-100 disabled:opacity-40"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          aria-label="Zoom out"
+          onClick={() => zoomTo(zoom - 1)}
+          disabled={zoom <= settings.minZoom}
+          className="border-t p-1 hover:bg-gray-100 disabled:opacity-40"
+        >
+          <Minus className="h-4 w-4" />
+        </button>
+      </div>
+
+      {settings.attribution && (
+        <div className="absolute bottom-0 right-0 bg-white/75 px-1 text-[10px] text-gray-700">
+          {settings.attribution}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TileMap;
@@ -0,0 +1,5 @@
+export { MapView } from './MapView';
+export type { MapViewProps } from './MapView';
+export { TileMap } from './TileMap';
+export { LocationPlaceholder } from './LocationPlaceholder';
+export { tileMapProvider, noMapProvider, resolveMapProvider } from './providers';
@@ -0,0 +1,40 @@
+/**
+ * Built-in map providers
+ *
+ * - `Tiles`: the tile renderer, using the configured tile server
+ * - `None`: a list of locations, also used while no tile server is configured
+ *
+ * Modules can add providers (e.g. one using a vendor SDK) through the
+ * `mapProviders` key of their module definition.
+ */
+import { DEFAULT_MAP_PROVIDER, formatMapLink, getMapProvider, registerMapProvider } from '@/lib/map';
+import type { MapProvider, MapSettings } from '@/lib/map';
+import { TileMap } from './TileMap';
+import { LocationPlaceholder } from './LocationPlaceholder';
+
+export const tileMapProvider: MapProvider = {
+  label: 'Tile server',
+  component: TileMap,
+  getExternalUrl: (point, settings) => formatMapLink(settings.linkUrl, point, settings.defaultZoom),
+};
+
+export const noMapProvider: MapProvider = {
+  label: 'None',
+  component: LocationPlaceholder,
+  getExternalUrl: (point, settings) => formatMapLink(settings.linkUrl, point, settings.defaultZoom),
+};
+
+registerMapProvider(DEFAULT_MAP_PROVIDER, tileMapProvider);
+registerMapProvider('None', noMapProvider);
+
+/**
+ * Provider to use: the requested one if registered, else the configured
+ * default, else the tile renderer. Fields stored with a provider that isn't
+ * available here (e.g. EspoCRM's `Google` default) fall back this way. The
+ * tile renderer gives way to the location list until a tile URL is set.
+ */
+export function resolveMapProvider(name: string | undefined, settings: MapSettings): MapProvider {
+  const provider =
+    (name ? getMapProvider(name) : undefined) ?? getMapProvider(settings.provider) ?? tileMapProvider;
+  return provider === tileMapProvider && !settings.tileUrl ? noMapProvider : provider;
+}
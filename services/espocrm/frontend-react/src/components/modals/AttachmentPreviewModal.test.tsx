@@ -0,0 +1,135 @@
+/**
+ * AttachmentPreviewModal Tests
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { AttachmentPreviewModal } from './AttachmentPreviewModal';
+
+vi.mock('@/api/client', () => ({
+  get: vi.fn(),
+}));
+
+import { get } from '@/api/client';
+
+const mockGet = vi.mocked(get);
+
+const attachments = [
+  { id: 'img1', name: 'photo.png', type: 'image/png' },
+  { id: 'pdf1', name: 'contract.pdf', type: 'application/pdf' },
+  { id: 'txt1', name: 'notes.txt', type: 'text/plain' },
+];
+
+describe('AttachmentPreviewModal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    URL.createObjectURL = vi.fn(() => 'blob:contract');
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  it('shows the initial attachment with a download link', () => {
+    mockGet.mockReturnValue(new Promise(() => {}));
+    render(<AttachmentPreviewModal attachments={attachments} initialIndex={1} onClose={vi.fn()} />);
+
+    expect(screen.getByText('contract.pdf')).toBeInTheDocument();
+    expect(screen.getByText('2 / 3')).toBeInTheDocument();
+    expect(screen.getByText('Download').closest('a')).toHaveAttribute('download', 'contract.pdf');
+  });
+
+  it('shows PDFs from an object URL revoked on close', async () => {
+    mockGet.mockResolvedValue(new Blob(['%PDF-1.4']));
+    const { unmount } = render(
+      <AttachmentPreviewModal attachments={attachments} initialIndex={1} onClose={vi.fn()} />
+    );
+
+    expect(await screen.findByTitle('contract.pdf')).toHaveAttribute('src', 'blob:contract');
+    expect(mockGet).toHaveBeenCalledWith('/Attachment/file/pdf1', { responseType: 'blob' });
+
+    unmount();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:contract');
+  });
+
+  it('zooms images', () => {
+    render(<AttachmentPreviewModal attachments={attachments} onClose={vi.fn()} />);
+
+    const image = screen.getByAltText('photo.png');
+    fireEvent.click(screen.getByRole('button', { name: 'Zoom in' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Zoom in' }));
+
+    expect(image).toHaveStyle({ transform: 'scale(1.5)' });
+    expect(screen.getByText('150%')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reset zoom' }));
+    expect(image).toHaveStyle({ transform: 'scale(1)' });
+  });
+
+  it('pages with the buttons and arrow keys', () => {
+    mockGet.mockReturnValue(new Promise(() => {}));
+    render(<AttachmentPreviewModal attachments={attachments} onClose={vi.fn()} />);
+
+    expect(screen.getByRole('button', { name: 'Previous attachment' })).toBeDisabled();
+    fireEvent.click(screen.getByRole('button', { name: 'Next attachment' }));
+    expect(screen.getByText('2 / 3')).toBeInTheDocument();
+
+    fireEvent.keyDown(window, { key: 'ArrowRight' });
+    expect(screen.getByText('3 / 3')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Next attachment' })).toBeDisabled();
+
+    fireEvent.keyDown(window, { key: 'ArrowLeft' });
+    expect(screen.getByText('2 / 3')).toBeInTheDocument();
+  });
+
+  it('loads text files', async () => {
+    mockGet.mockResolvedValue('First line\nSecond line');
+    render(<AttachmentPreviewModal attachments={attachments} initialIndex={2} onClose={vi.fn()} />);
+
+    expect(await screen.findByText(/Second line/)).toBeInTheDocument();
+    expect(mockGet).toHaveBeenCalledWith('/Attachment/file/txt1', { responseType: 'text' });
+  });
+
+  it('shows CSV files as a table', async () => {
+    mockGet.mockResolvedValue('Name,City\n"Smith, J.",Berlin\n');
+    render(
+      <AttachmentPreviewModal attachments={[{ id: 'csv1', name: 'export.csv', type: 'text/csv' }]} onClose={vi.fn()} />
+    );
+
+    expect(await screen.findByRole('cell', { name: 'Smith, J.' })).toBeInTheDocument();
+    expect(screen.getByRole('cell', { name: 'Berlin' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Next attachment' })).not.toBeInTheDocument();
+  });
+
+  it('renders audio and video players', () => {
+    render(
+      <AttachmentPreviewModal
+        attachments={[
+          { id: 'a1', name: 'call.mp3', type: 'audio/mpeg' },
+          { id: 'v1', name: 'demo.mp4', type: 'video/mp4' },
+        ]}
+        onClose={vi.fn()}
+      />
+    );
+
+    expect(document.querySelector('audio')).toHaveAttribute('src', '/api/v1/Attachment/file/a1');
+    fireEvent.click(screen.getByRole('button', { name: 'Next attachment' }));
+    expect(document.querySelector('video')).toHaveAttribute('src', '/api/v1/Attachment/file/v1');
+  });
+
+  it('offers only a download for other files', () => {
+    render(
+      <AttachmentPreviewModal
+        attachments={[{ id: 'z1', name: 'archive.zip', type: 'application/zip' }]}
+        onClose={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('No preview available for this file type.')).toBeInTheDocument();
+    expect(screen.getByText('Download').closest('a')).toHaveAttribute('href', '/api/v1/Attachment/file/z1');
+  });
+
+  it('calls onClose when closed', () => {
+    const onClose = vi.fn();
+    render(<AttachmentPreviewModal attachments={attachments} onClose={onClose} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close' }));
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,288 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Download, RotateCcw, ZoomIn, ZoomOut } from 'lucide-react';
+import { BaseModal } from './BaseModal';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { get } from '@/api/client';
+import { getAttachmentUrl, type Attachment } from '@/api/attachments';
+import { getPreviewKind, parseCsv } from '@/lib/utils/attachments';
+
+interface AttachmentPreviewModalProps {
+  /** Attachments to page through */
+  attachments: Attachment[];
+  /** Attachment shown first */
+  initialIndex?: number;
+  onClose: () => void;
+}
+
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 0.25;
+
+// Longer text files are cut off in the preview
+const TEXT_PREVIEW_LIMIT = 200_000;
+
+interface TextState {
+  content?: string;
+  error?: string;
+}
+
+// Rendered with `key={attachment.id}`, so each file starts from a fresh state
+function TextPreview({ attachment, csv }: { attachment: Attachment; csv: boolean }) {
+  const [state, setState] = useState<TextState | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    get<string>(`/Attachment/file/${attachment.id}`, { responseType: 'text' })
+      .then((content) => {
+        if (!cancelled) setState({ content: String(content) });
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) {
+          setState({
+            error: error instanceof Error ? error.message : 'Could not load the file',
+          });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment.id]);
+
+  if (!state) {
+    return <LoadingSpinner />;
+  }
+
+  if (state.error !== undefined) {
+    return <p className="text-sm text-red-600">{state.error}</p>;
+  }
+
+  const content = state.content ?? '';
+  const isTruncated = content.length > TEXT_PREVIEW_LIMIT;
+  const text = isTruncated ? content.slice(0, TEXT_PREVIEW_LIMIT) : content;
+
+  return (
+    <div className="space-y-2">
+      {csv ? (
+        <div className="max-h-[70vh] overflow-auto rounded border">
+          <table className="min-w-full text-sm">
+            <tbody>
+              {parseCsv(text).map((row, rowIndex) => (
+                <tr key={rowIndex} className={rowIndex === 0 ? 'bg-gray-50 font-medium' : 'border-t'}>
+                  {row.map((cell, cellIndex) => (
+                    <td key={cellIndex} className="whitespace-nowrap px-2 py-1">
+                      {cell}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <pre className="max-h-[70vh] overflow-auto whitespace-pre-wrap rounded border bg-gray-50 p-3 text-xs">
+          {text}
+        </pre>
+      )}
+      {isTruncated && <p className="text-xs text-muted-foreground">Preview truncated; download the file to see all of it.</p>}
+    </div>
+  );
+}
+
+interface PdfState {
+  url?: string;
+  error?: string;
+}
+
+// The file endpoint sends attachments as downloads, so the PDF is fetched
+// and shown from an object URL, revoked when the preview goes away.
+// Rendered with `key={attachment.id}` like TextPreview.
+function PdfPreview({ attachment }: { attachment: Attachment }) {
+  const [state, setState] = useState<PdfState | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    get<Blob>(`/Attachment/file/${attachment.id}`, { responseType: 'blob' })
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(new Blob([blob], { type: 'application/pdf' }));
+        setState({ url: objectUrl });
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) {
+          setState({
+            error: error instanceof Error ? error.message : 'Could not load the file',
+          });
+        }
+      });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment.id]);
+
+  if (!state) {
+    return <LoadingSpinner />;
+  }
+
+  if (state.error !== undefined) {
+    return <p className="text-sm text-red-600">{state.error}</p>;
+  }
+
+  return <iframe src={state.url} title={attachment.name} className="h-[70vh] w-full rounded border" />;
+}
+
+export function AttachmentPreviewModal({ attachments, initialIndex = 0, onClose }: AttachmentPreviewModalProps) {
+  const [index, setIndex] = useState(() => Math.min(Math.max(initialIndex, 0), attachments.length - 1));
+  const [zoom, setZoom] = useState(1);
+
+  const attachment = attachments[index];
+  const kind = attachment ? getPreviewKind(attachment) : null;
+  const hasPaging = attachments.length > 1;
+
+  const goTo = (next: number): void => {
+    if (next < 0 || next >= attachments.length) return;
+    setIndex(next);
+    setZoom(1);
+  };
+
+  const changeZoom = (delta: number): void => {
+    setZoom((current) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current + delta)));
+  };
+
+  // Arrow keys page through the attachments
+  useEffect(() => {
+    if (!hasPaging) return;
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'ArrowLeft') {
+        setIndex((current) => Math.max(current - 1, 0));
+        setZoom(1);
+      } else if (e.key === 'ArrowRight') {
+        setIndex((current) => Math.min(current + 1, attachments.length - 1));
+        setZoom(1);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [hasPaging, attachments.length]);
+
+  if (!attachment) return null;
+
+  const url = getAttachmentUrl(attachment.id);
+
+  const renderPreview = () => {
+    switch (kind) {
+      case 'image':
+        return (
+          <div className="flex max-h-[70vh] justify-center overflow-auto">
+            <img
+              src={url}
+              alt={attachment.name}
+              className="max-w-none origin-top transition-transform"
+              style={{ transform: `scale(${zoom})` }}
+            />
+          </div>
+        );
+      case 'pdf':
+        return <PdfPreview key={attachment.id} attachment={attachment} />;
+      case 'text':
+      case 'csv':
+        return <TextPreview key={attachment.id} attachment={attachment} csv={kind === 'csv'} />;
+      case 'audio':
+        return <audio controls src={url} className="w-full" aria-label={attachment.name} />;
+      case 'video':
+        return <video controls src={url} className="max-h-[70vh] w-full" aria-label={attachment.name} />;
+      default:
+        return (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No preview available for this file type.
+          </p>
+        );
+    }
+  };
+
+  return (
+    <BaseModal
+      open={true}
+      onOpenChange={(open) => !open && onClose()}
+      title={attachment.name}
+      size="full"
+      footer={
+        <div className="flex w-full flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-1">
+            {hasPaging && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => goTo(index - 1)}
+                  disabled={index === 0}
+                  aria-label="Previous attachment"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="px-2 text-sm text-muted-foreground">
+                  {index + 1} / {attachments.length}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => goTo(index + 1)}
+                  disabled={index === attachments.length - 1}
+                  aria-label="Next attachment"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+          <div className="flex items-center gap-1">
+            {kind === 'image' && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => changeZoom(-ZOOM_STEP)}
+                  disabled={zoom <= MIN_ZOOM}
+                  aria-label="Zoom out"
+                >
+                  <ZoomOut className="h-4 w-4" />
+                </Button>
+                <span className="w-12 text-center text-sm text-muted-foreground">{Math.round(zoom * 100)}%</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => changeZoom(ZOOM_STEP)}
+                  disabled={zoom >= MAX_ZOOM}
+                  aria-label="Zoom in"
+                >
+                  <ZoomIn className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setZoom(1)}
+                  disabled={zoom === 1}
+                  aria-label="Reset zoom"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            <a
+              href={url}
+              download={attachment.name}
+              className="ml-2 inline-flex h-8 items-center rounded-md bg-blue-600 px-3 text-xs font-medium text-white hover:bg-blue-700"
+            >
+              <Download className="mr-1 h-4 w-4" />
+              Download
+            </a>
+          </div>
+        </div>
+      }
+    >
+      {renderPreview()}
+    </BaseModal>
+  );
+}
@@ -71,23 +71,37 @@ vi.mock('@/lib/layout', () => ({
 }));
 
 // Mock validation
-vi.mock('@/lib/validation', () => ({
-  useFormValidation: () => ({
-    validate: (data: Record<string, unknown>) => {
-      const errors: Record<string, string> = {};
-      if (!data.firstName) errors.firstName = 'First Name is required';
-      if (!data.lastName) errors.lastName = 'Last Name is required';
-      return { isValid: Object.keys(errors).length === 0, errors };
-    },
-    validateField: (field: string, value: unknown) => {
-      if ((field === 'firstName' || field === 'lastName') && !value) {
-        return `${field} is required`;
-      }
-      return null;
-    },
-    isReady: true,
-  }),
-}));
+vi.mock('@/lib/validation', () => {
+  // Errors with this message stand in for server validation failures
+  const isServerValidationError = (error: unknown): boolean =>
+    error instanceof Error && error.message === 'validationFailure';
+
+  return {
+    useFormValidation: () => ({
+      validate: (data: Record<string, unknown>) => {
+        const errors: Record<string, string> = {};
+        if (!data.firstName) errors.firstName = 'First Name is required';
+        if (!data.lastName) errors.lastName = 'Last Name is required';
+        return { isValid: Object.keys(errors).length === 0, errors };
+      },
+      validateField: (field: string, value: unknown) => {
+        if ((field === 'firstName' || field === 'lastName') && !value) {
+          return `${field} is required`;
+        }
+        return null;
+      },
+      validateFieldAsync: () => undefined,
+      waitForAsyncValidation: () => Promise.resolve({}),
+      getDependentFields: () => [],
+      fieldStatus: {},
+      asyncErrors: {},
+      mapServerErrors: (error: unknown) =>
+        isServerValidationError(error) ? { lastName: 'Last Name is required' } : null,
+      isReady: true,
+    }),
+    isServerValidationError,
+  };
+});
 
 // Mock fields init
 vi.mock('@/fields', () => ({
@@ -359,6 +373,28 @@ describe('QuickCreateModal', () => {
         expect(screen.getByText(/Error creating record/)).toBeInTheDocument();
       });
     });
+
+    it('should show server validation errors on the fields', async () => {
+      mockPost.mockRejectedValue(new Error('validationFailure'));
+
+      render(
+        <QuickCreateModal
+          config={{
+            ...defaultConfig,
+            defaultValues: { firstName: 'John', lastName: 'Doe' },
+          }}
+          onCreate={mockOnCreate}
+          onCancel={mockOnCancel}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      fireEvent.click(screen.getByText('Create'));
+
+      expect(await screen.findByText('Last Name is required')).toBeInTheDocument();
+      expect(screen.queryByText(/Error creating record/)).not.toBeInTheDocument();
+      expect(mockOnCreate).not.toHaveBeenCalled();
+    });
   });
 
   describe('cancel', () => {
@@ -1,9 +1,10 @@
-import { useState, useMemo, useCallback } from 'react';
+import { useMemo } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { post } from '@/api/client';
 import { useMetadata } from '@/lib/metadata/useMetadata';
 import { useDetailLayout, getDefaultDetailLayout, LayoutRenderer } from '@/lib/layout';
-import { useFormValidation } from '@/lib/validation';
+import { isServerValidationError } from '@/lib/validation';
+import { useRecordForm } from '@/hooks/useRecordForm';
 import { initializeFieldTypes } from '@/fields';
 import { BaseModal } from './BaseModal';
 import { Button } from '@/components/ui/button';
@@ -24,8 +25,6 @@ export function QuickCreateModal({ config, onCreate, onCancel }: QuickCreateModa
   const queryClient = useQueryClient();
   const { metadata, isLoading: metadataLoading } = useMetadata();
   const { layout: detailLayout, isLoading: layoutLoading } = useDetailLayout(entityType);
-  const [formData, setFormData] = useState<Record<string, unknown>>(initialDefaults);
-  const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
 
   // Get entity label from metadata
   const entityLabel = String(metadata?.entityDefs?.[entityType]?.label ?? entityType);
@@ -40,15 +39,6 @@ export function QuickCreateModal({ config, onCreate, onCancel }: QuickCreateModa
     return typedDefs;
   }, [metadata, entityType]);
 
-  // Use Zod-based form validation from metadata
-  const { validate: zodValidate, validateField, isReady: validationReady } = useFormValidation(
-    entityType,
-    {
-      skipReadOnly: true,
-      excludeFields: ['id', 'deleted', 'createdAt', 'modifiedAt', 'createdBy', 'modifiedBy'],
-    }
-  );
-
   // Compute default values
   const defaults = useMemo(() => {
     const result: Record<string, unknown> = {};
@@ -60,10 +50,21 @@ export function QuickCreateModal({ config, onCreate, onCancel }: QuickCreateModa
     return { ...result, ...initialDefaults };
   }, [fieldDefs, initialDefaults]);
 
-  // Merge defaults with user-edited form data
-  const mergedFormData = useMemo(() => {
-    return { ...defaults, ...formData };
-  }, [defaults, formData]);
+  // Defaults with the user's changes applied
+  const {
+    formData,
+    handleChange,
+    handleSave,
+    handleSaveError,
+    fieldErrors,
+    fieldStatus,
+    isCheckingFields,
+  } = useRecordForm(entityType, {
+    initialData: defaults,
+    fieldDefs,
+    skipReadOnly: true,
+    excludeFields: ['id', 'deleted', 'createdAt', 'modifiedAt', 'createdBy', 'modifiedBy'],
+  });
 
   // Get simplified layout - prefer quick create fields or first few fields
   const layout = useMemo(() => {
@@ -114,62 +115,9 @@ export function QuickCreateModal({ config, onCreate, onCancel }: QuickCreateModa
       queryClient.invalidateQueries({ queryKey: ['recordSelect', entityType] });
       onCreate({ id: data.id, name: data.name ?? String(data.id) });
     },
+    onError: (error) => handleSaveError(error),
   });
 
-  // Handle field change with real-time validation
-  const handleChange = useCallback(
-    (field: string, value: unknown): void => {
-      const updatedFormData = { ...defaults, ...formData, [field]: value };
-      setFormData((prev) => ({ ...prev, [field]: value }));
-
-      // Validate the field on change
-      if (validationReady) {
-        const fieldError = validateField(field, value, updatedFormData);
-        setValidationErrors((prev) => {
-          if (fieldError) {
-            return { ...prev, [field]: fieldError };
-          } else {
-            const next = { ...prev };
-            delete next[field];
-            return next;
-          }
-        });
-      }
-    },
-    [defaults, formData, validateField, validationReady]
-  );
-
-  // Validate form using Zod schemas
-  const validate = useCallback((): boolean => {
-    if (!validationReady) {
-      // Fallback to basic required check if validation not ready
-      const errors: Record<string, string> = {};
-      for (const [fieldName, fieldDef] of Object.entries(fieldDefs)) {
-        if (fieldDef.required || requiredFields.includes(fieldName)) {
-          const value = mergedFormData[fieldName];
-          if (value === null || value === undefined || value === '') {
-            errors[fieldName] = `${formatFieldName(fieldName)} is required`;
-          }
-        }
-      }
-      setValidationErrors(errors);
-      return Object.keys(errors).length === 0;
-    }
-
-    // Use comprehensive Zod validation
-    const result = zodValidate(mergedFormData);
-    setValidationErrors(result.errors);
-    return result.isValid;
-  }, [validationReady, zodValidate, mergedFormData, fieldDefs, requiredFields]);
-
-  // Handle save
-  const handleSave = (): void => {
-    if (!validate()) {
-      return;
-    }
-    createMutation.mutate(mergedFormData);
-  };
-
   const isLoading = metadataLoading || layoutLoading;
 
   return (
@@ -183,8 +131,11 @@ export function QuickCreateModal({ config, onCreate, onCancel }: QuickCreateModa
           <Button variant="outline" onClick={onCancel}>
             Cancel
           </Button>
-          <Button onClick={handleSave} disabled={createMutation.isPending || isLoading}>
-            {createMutation.isPending ? 'Creating...' : 'Create'}
+          <Button
+            onClick={() => handleSave(createMutation.mutate)}
+            disabled={createMutation.isPending || isCheckingFields || isLoading}
+          >
+            {createMutation.isPending ? 'Creating...' : isCheckingFields ? 'Checking...' : 'Create'}
           </Button>
         </div>
       }
@@ -196,17 +147,17 @@ export function QuickCreateModal({ config, onCreate, onCancel }: QuickCreateModa
       ) : (
         <div className="space-y-4">
           {/* Error display */}
-          {createMutation.error && (
+          {createMutation.error && !isServerValidationError(createMutation.error) && (
             <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-red-600 text-sm">
               Error creating record: {createMutation.error.message}
             </div>
           )}
 
           {/* Validation errors */}
-          {Object.keys(validationErrors).length > 0 && (
+          {Object.keys(fieldErrors).length > 0 && (
             <div className="rounded-lg border border-red-200 bg-red-50 p-3">
               <ul className="list-disc list-inside text-red-600 text-sm">
-                {Object.values(validationErrors).map((error, idx) => (
+                {Object.values(fieldErrors).map((error, idx) => (
                   <li key={idx}>{error}</li>
                 ))}
               </ul>
@@ -221,18 +172,13 @@ export function QuickCreateModal({ config, onCreate, onCancel }: QuickCreateModa
             record={{}}
             entityType={entityType}
             mode="edit"
-            formData={mergedFormData}
+            formData={formData}
             onChange={handleChange}
+            errors={fieldErrors}
+            fieldStatus={fieldStatus}
           />
         </div>
       )}
     </BaseModal>
   );
 }
-
-function formatFieldName(name: string): string {
-  return name
-    .replace(/([A-Z])/g, ' $1')
-    .replace(/^./, (str) => str.toUpperCase())
-    .trim();
-}
@@ -30,13 +30,30 @@ vi.mock('@/lib/metadata/useMetadata', () => ({
           },
         },
       },
+      clientDefs: {
+        Account: {
+          filterList: ['customers', { name: 'partners' }],
+          boolFilterList: ['onlyMy'],
+        },
+      },
     },
     isLoading: false,
   }),
 }));
 
+// Stand-in for the create form: creates a fixed record
+vi.mock('./QuickCreateModal', () => ({
+  QuickCreateModal: ({ onCreate }: { onCreate: (record: SelectedRecord | null) => void }) => (
+    <button type="button" onClick={() => onCreate({ id: '9', name: 'New Corp' })}>
+      Save new record
+    </button>
+  ),
+}));
+
 // Import after mocks
 import { RecordSelectModal } from './RecordSelectModal';
+import { addRecentRecords } from './recentRecords';
+import { useAuthStore } from '@/features/auth/store';
 import { get } from '@/api/client';
 
 const mockGet = vi.mocked(get);
@@ -72,9 +89,16 @@ describe('RecordSelectModal', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    localStorage.clear();
     mockGet.mockResolvedValue(mockRecords);
   });
 
+  // Query parameters of the latest list request
+  const lastParams = (): URLSearchParams => {
+    const url = String(mockGet.mock.calls.at(-1)?.[0] ?? '');
+    return new URLSearchParams(url.slice(url.indexOf('?') + 1));
+  };
+
   describe('rendering', () => {
     it('should render with default title based on entity type', async () => {
       render(
@@ -448,4 +472,182 @@ describe('RecordSelectModal', () => {
       expect(screen.queryByText(/Page/)).not.toBeInTheDocument();
     });
   });
+
+  describe('filters', () => {
+    it('should apply the primary filter of the config and allow changing it', async () => {
+      render(
+        <RecordSelectModal
+          config={{ ...defaultConfig, primaryFilter: 'customers' }}
+          onSelect={mockOnSelect}
+          onCancel={mockOnCancel}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      await waitFor(() => {
+        expect(lastParams().get('primaryFilter')).toBe('customers');
+      });
+
+      const select = screen.getByRole('combobox', { name: 'Primary filter' });
+      expect(Array.from((select as HTMLSelectElement).options).map((option) => option.text)).toEqual([
+        'All',
+        'Customers',
+        'Partners',
+      ]);
+
+      fireEvent.change(select, { target: { value: 'partners' } });
+
+      await waitFor(() => {
+        expect(lastParams().get('primaryFilter')).toBe('partners');
+      });
+    });
+
+    it('should toggle bool filters', async () => {
+      render(
+        <RecordSelectModal
+          config={{ ...defaultConfig, boolFilterList: ['onlyMy'] }}
+          onSelect={mockOnSelect}
+          onCancel={mockOnCancel}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      await waitFor(() => {
+        expect(lastParams().getAll('boolFilterList[]')).toEqual(['onlyMy']);
+      });
+
+      const checkbox = screen.getByRole('checkbox', { name: 'Only My' });
+      expect(checkbox).toBeChecked();
+      fireEvent.click(checkbox);
+
+      await waitFor(() => {
+        expect(lastParams().has('boolFilterList[]')).toBe(false);
+      });
+    });
+
+    it('should send the fixed filters as a where clause', async () => {
+      const fixed = { type: 'equals', attribute: 'type', value: 'Customer' };
+      render(
+        <RecordSelectModal
+          config={{ ...defaultConfig, filters: fixed }}
+          onSelect={mockOnSelect}
+          onCancel={mockOnCancel}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      await waitFor(() => {
+        expect(JSON.parse(lastParams().get('where') ?? '[]')).toEqual([fixed]);
+      });
+    });
+  });
+
+  describe('recently used', () => {
+    it('should list records picked before', async () => {
+      const { unmount } = render(
+        <RecordSelectModal
+          config={defaultConfig}
+          onSelect={mockOnSelect}
+          onCancel={mockOnCancel}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      await waitFor(() => {
+        expect(screen.getByText('Global Inc')).toBeInTheDocument();
+      });
+      expect(screen.queryByRole('region', { name: 'Recently used' })).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Global Inc'));
+      unmount();
+
+      render(
+        <RecordSelectModal
+          config={defaultConfig}
+          onSelect={mockOnSelect}
+          onCancel={mockOnCancel}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      const recent = screen.getByRole('region', { name: 'Recently used' });
+      expect(recent).toHaveTextContent('Global Inc');
+
+      // Hidden while searching
+      fireEvent.change(screen.getByPlaceholderText('Search account...'), { target: { value: 'Acme' } });
+      expect(screen.queryByRole('region', { name: 'Recently used' })).not.toBeInTheDocument();
+    });
+
+    it('should not list records another user picked', async () => {
+      useAuthStore.setState({ user: { id: 'user-1', userName: 'first', type: 'regular', isAdmin: false } });
+      addRecentRecords('user-1', 'Account', [{ id: '2', name: 'Global Inc' }]);
+      useAuthStore.setState({ user: { id: 'user-2', userName: 'second', type: 'regular', isAdmin: false } });
+
+      render(
+        <RecordSelectModal
+          config={defaultConfig}
+          onSelect={mockOnSelect}
+          onCancel={mockOnCancel}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      await waitFor(() => {
+        expect(screen.getByText('Global Inc')).toBeInTheDocument();
+      });
+      expect(screen.queryByRole('region', { name: 'Recently used' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('create', () => {
+    it('should not offer creating by default', async () => {
+      render(
+        <RecordSelectModal
+          config={defaultConfig}
+          onSelect={mockOnSelect}
+          onCancel={mockOnCancel}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      await waitFor(() => {
+        expect(screen.getByText('Acme Corp')).toBeInTheDocument();
+      });
+
+      expect(screen.queryByRole('button', { name: /Create Account/ })).not.toBeInTheDocument();
+    });
+
+    it('should select the created record', async () => {
+      render(
+        <RecordSelectModal
+          config={{ ...defaultConfig, createButton: true }}
+          onSelect={mockOnSelect}
+          onCancel={mockOnCancel}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: /Create Account/ }));
+      fireEvent.click(screen.getByText('Save new record'));
+
+      expect(mockOnSelect).toHaveBeenCalledWith({ id: '9', name: 'New Corp' });
+    });
+
+    it('should add the created record to a multiple selection', async () => {
+      render(
+        <RecordSelectModal
+          config={{ ...defaultConfig, multiple: true, createButton: true }}
+          onSelect={mockOnSelect}
+          onCancel={mockOnCancel}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: /Create Account/ }));
+      fireEvent.click(screen.getByText('Save new record'));
+
+      expect(mockOnSelect).not.toHaveBeenCalled();
+      expect(screen.getByText('Select (1)')).toBeInTheDocument();
+    });
+  });
 });
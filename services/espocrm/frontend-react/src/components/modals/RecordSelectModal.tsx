@@ -1,9 +1,14 @@
 import { useState, useMemo, useCallback } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { Search, Check, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Check, ChevronLeft, ChevronRight, Clock, Plus } from 'lucide-react';
 import { get } from '@/api/client';
 import { useMetadata } from '@/lib/metadata/useMetadata';
+import { useDateTime } from '@/lib/datetime';
+import { useAuthStore } from '@/features/auth/store';
+import { AdvancedSearch, filtersToWhereClause, type SearchFilter } from '@/components/search/AdvancedSearch';
 import { BaseModal } from './BaseModal';
+import { QuickCreateModal } from './QuickCreateModal';
+import { addRecentRecords, getRecentRecords } from './recentRecords';
 import { Button } from '@/components/ui/button';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { cn } from '@/lib/utils/cn';
@@ -20,22 +25,67 @@ interface ListResponse {
   list: Array<{ id: string; name: string; [key: string]: unknown }>;
 }
 
+interface SelectClientDefs {
+  filterList?: Array<string | { name?: string }>;
+  boolFilterList?: string[];
+}
+
 const PAGE_SIZE = 10;
 
 export function RecordSelectModal({ config, onSelect, onCancel }: RecordSelectModalProps) {
-  const { entityType, title, multiple = false, filters, excludeIds = [] } = config;
+  const {
+    entityType,
+    title,
+    multiple = false,
+    filters,
+    excludeIds = [],
+    primaryFilter: initialPrimaryFilter,
+    boolFilterList: initialBoolFilters,
+    createButton = false,
+  } = config;
   const { metadata } = useMetadata();
+  const { settings: dateTimeSettings } = useDateTime();
+  const userId = useAuthStore((state) => state.user?.id ?? '');
 
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchFilters, setSearchFilters] = useState<SearchFilter[]>([]);
+  const [primaryFilter, setPrimaryFilter] = useState(initialPrimaryFilter ?? '');
+  const [boolFilters, setBoolFilters] = useState<string[]>(initialBoolFilters ?? []);
   const [page, setPage] = useState(1);
   const [selectedRecords, setSelectedRecords] = useState<SelectedRecord[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [recentRecords] = useState(() => getRecentRecords(userId, entityType));
 
   // Get entity label from metadata
   const entityLabel = String(metadata?.entityDefs?.[entityType]?.label ?? entityType);
+  const fieldDefs = metadata?.entityDefs?.[entityType]?.fields;
+
+  // Primary and bool filters of the entity, plus any the field asks for
+  const { primaryFilterList, boolFilterList } = useMemo(() => {
+    const clientDefs = metadata?.clientDefs?.[entityType] as SelectClientDefs | undefined;
+    const primary = (clientDefs?.filterList ?? [])
+      .map((item) => (typeof item === 'string' ? item : item.name))
+      .filter((name): name is string => !!name);
+    const bool = clientDefs?.boolFilterList ?? [];
+    return {
+      primaryFilterList: [...new Set([...primary, ...(initialPrimaryFilter ? [initialPrimaryFilter] : [])])],
+      boolFilterList: [...new Set([...bool, ...(initialBoolFilters ?? [])])],
+    };
+  }, [metadata, entityType, initialPrimaryFilter, initialBoolFilters]);
 
   // Fetch records
   const { data, isLoading, error } = useQuery<ListResponse, Error>({
-    queryKey: ['recordSelect', entityType, page, searchQuery, filters],
+    queryKey: [
+      'recordSelect',
+      entityType,
+      page,
+      searchQuery,
+      filters,
+      searchFilters,
+      primaryFilter,
+      boolFilters,
+      dateTimeSettings.timeZone,
+    ],
     queryFn: async () => {
       const offset = (page - 1) * PAGE_SIZE;
       const params = new URLSearchParams({
@@ -49,8 +99,21 @@ export function RecordSelectModal({ config, onSelect, onCancel }: RecordSelectMo
         params.append('textFilter', searchQuery);
       }
 
-      if (filters) {
-        params.append('where', JSON.stringify(filters));
+      if (primaryFilter) {
+        params.append('primaryFilter', primaryFilter);
+      }
+
+      for (const boolFilter of boolFilters) {
+        params.append('boolFilterList[]', boolFilter);
+      }
+
+      // Fixed filters of the caller plus the user's advanced filters
+      const where = [
+        ...(filters ? [filters] : []),
+        ...filtersToWhereClause(searchFilters, { fieldDefs, timeZone: dateTimeSettings.timeZone }),
+      ];
+      if (where.length > 0) {
+        params.append('where', JSON.stringify(where));
       }
 
       const response = await get<ListResponse>(`/${entityType}?${params.toString()}`);
@@ -67,8 +130,28 @@ export function RecordSelectModal({ config, onSelect, onCancel }: RecordSelectMo
 
   const totalPages = data ? Math.ceil(data.total / PAGE_SIZE) : 0;
 
-  const handleSearch = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    setSearchQuery(e.target.value);
+  // Recently picked records, offered while the list is not narrowed down
+  const visibleRecentRecords = useMemo(() => {
+    const isFiltered =
+      !!searchQuery || searchFilters.length > 0 || !!primaryFilter || boolFilters.length > 0 || !!filters;
+    if (isFiltered || page !== 1) return [];
+    return recentRecords.filter((record) => !excludeIds.includes(record.id));
+  }, [recentRecords, excludeIds, searchQuery, searchFilters, primaryFilter, boolFilters, filters, page]);
+
+  const handleSearch = useCallback((text: string) => {
+    setSearchQuery(text);
+    setPage(1);
+  }, []);
+
+  const handleFiltersChange = useCallback((newFilters: SearchFilter[]) => {
+    setSearchFilters(newFilters);
+    setPage(1);
+  }, []);
+
+  const toggleBoolFilter = useCallback((boolFilter: string) => {
+    setBoolFilters((prev) =>
+      prev.includes(boolFilter) ? prev.filter((name) => name !== boolFilter) : [...prev, boolFilter]
+    );
     setPage(1);
   }, []);
 
@@ -83,23 +166,74 @@ export function RecordSelectModal({ config, onSelect, onCancel }: RecordSelectMo
           return [...prev, record];
         });
       } else {
+        addRecentRecords(userId, entityType, [record]);
         onSelect(record);
       }
     },
-    [multiple, onSelect]
+    [multiple, onSelect, userId, entityType]
   );
 
   const handleConfirmSelection = useCallback(() => {
     if (multiple) {
+      addRecentRecords(userId, entityType, selectedRecords);
       onSelect(selectedRecords.length > 0 ? selectedRecords : null);
     }
-  }, [multiple, selectedRecords, onSelect]);
+  }, [multiple, selectedRecords, onSelect, userId, entityType]);
+
+  // A created record is picked right away, or added to the selection
+  const handleCreated = useCallback(
+    (record: SelectedRecord | null) => {
+      setIsCreating(false);
+      if (!record) return;
+      if (multiple) {
+        setSelectedRecords((prev) => [...prev, record]);
+      } else {
+        addRecentRecords(userId, entityType, [record]);
+        onSelect(record);
+      }
+    },
+    [multiple, onSelect, userId, entityType]
+  );
 
   const isRecordSelected = useCallback(
     (id: string) => selectedRecords.some((r) => r.id === id),
     [selectedRecords]
   );
 
+  if (isCreating) {
+    return (
+      <QuickCreateModal
+        config={{ entityType }}
+        onCreate={handleCreated}
+        onCancel={() => setIsCreating(false)}
+      />
+    );
+  }
+
+  const renderRecord = (record: SelectedRecord) => {
+    const selected = isRecordSelected(record.id);
+    return (
+      <li key={record.id}>
+        <button
+          type="button"
+          onClick={() =>
+            handleRecordClick({
+              id: record.id,
+              name: record.name,
+            })
+          }
+          className={cn(
+            'w-full px-4 py-3 text-left hover:bg-gray-50 flex items-center justify-between transition-colors',
+            selected && 'bg-blue-50 hover:bg-blue-100'
+          )}
+        >
+          <span className="font-medium text-gray-900">{record.name}</span>
+          {selected && <Check className="h-4 w-4 text-blue-600" />}
+        </button>
+      </li>
+    );
+  };
+
   return (
     <BaseModal
       open={true}
@@ -121,17 +255,65 @@ export function RecordSelectModal({ config, onSelect, onCancel }: RecordSelectMo
     >
       <div className="space-y-4">
         {/* Search */}
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
-          <input
-            type="text"
-            placeholder={`Search ${entityLabel.toLowerCase()}...`}
-            value={searchQuery}
-            onChange={handleSearch}
-            className="w-full rounded-md border border-gray-300 py-2 pl-10 pr-4 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
-            autoFocus
-          />
-        </div>
+        <AdvancedSearch
+          entityType={entityType}
+          filters={searchFilters}
+          onFiltersChange={handleFiltersChange}
+          textFilter={searchQuery}
+          onTextFilterChange={handleSearch}
+          placeholder={`Search ${entityLabel.toLowerCase()}...`}
+        />
+
+        {/* Primary and bool filters, create button */}
+        {(primaryFilterList.length > 0 || boolFilterList.length > 0 || createButton) && (
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            {primaryFilterList.length > 0 && (
+              <select
+                aria-label="Primary filter"
+                value={primaryFilter}
+                onChange={(e) => {
+                  setPrimaryFilter(e.target.value);
+                  setPage(1);
+                }}
+                className="h-9 rounded-md border border-gray-300 bg-background px-3 text-sm"
+              >
+                <option value="">All</option>
+                {primaryFilterList.map((name) => (
+                  <option key={name} value={name}>
+                    {formatFilterName(name)}
+                  </option>
+                ))}
+              </select>
+            )}
+            {boolFilterList.map((name) => (
+              <label key={name} className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={boolFilters.includes(name)}
+                  onChange={() => toggleBoolFilter(name)}
+                />
+                {formatFilterName(name)}
+              </label>
+            ))}
+            {createButton && (
+              <Button variant="outline" size="sm" className="ml-auto" onClick={() => setIsCreating(true)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Create {entityLabel}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Recently used */}
+        {visibleRecentRecords.length > 0 && (
+          <section aria-label="Recently used" className="rounded-md border border-gray-200">
+            <h3 className="flex items-center gap-1.5 border-b border-gray-100 px-4 py-2 text-xs font-medium uppercase text-gray-500">
+              <Clock className="h-3.5 w-3.5" />
+              Recently used
+            </h3>
+            <ul className="divide-y divide-gray-100">{visibleRecentRecords.map(renderRecord)}</ul>
+          </section>
+        )}
 
         {/* Record list */}
         <div className="min-h-[300px] max-h-[400px] overflow-y-auto rounded-md border border-gray-200">
@@ -144,31 +326,7 @@ export function RecordSelectModal({ config, onSelect, onCancel }: RecordSelectMo
           ) : filteredList.length === 0 ? (
             <div className="p-8 text-center text-gray-500">No records found</div>
           ) : (
-            <ul className="divide-y divide-gray-100">
-              {filteredList.map((record) => {
-                const selected = isRecordSelected(record.id);
-                return (
-                  <li key={record.id}>
-                    <button
-                      type="button"
-                      onClick={() =>
-                        handleRecordClick({
-                          id: record.id,
-                          name: record.name,
-                        })
-                      }
-                      className={cn(
-                        'w-full px-4 py-3 text-left hover:bg-gray-50 flex items-center justify-between transition-colors',
-                        selected && 'bg-blue-50 hover:bg-blue-100'
-                      )}
-                    >
-                      <span className="font-medium text-gray-900">{record.name}</span>
-                      {selected && <Check className="h-4 w-4 text-blue-600" />}
-                    </button>
-                  </li>
-                );
-              })}
-            </ul>
+            <ul className="divide-y divide-gray-100">{filteredList.map(renderRecord)}</ul>
           )}
         </div>
 
@@ -202,3 +360,10 @@ export function RecordSelectModal({ config, onSelect, onCancel }: RecordSelectMo
     </BaseModal>
   );
 }
+
+function formatFilterName(name: string): string {
+  return name
+    .replace(/([A-Z])/g, ' $1')
+    .replace(/^./, (str) => str.toUpperCase())
+    .trim();
+}
@@ -3,6 +3,7 @@ export { BaseModal } from './BaseModal';
 export { ConfirmationModal } from './ConfirmationModal';
 export { RecordSelectModal } from './RecordSelectModal';
 export { QuickCreateModal } from './QuickCreateModal';
+export { AttachmentPreviewModal } from './AttachmentPreviewModal';
 export type {
   ConfirmationModalConfig,
   RecordSelectModalConfig,
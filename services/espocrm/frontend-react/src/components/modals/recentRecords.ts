@@ -0,0 +1,56 @@
+/**
+ * Records recently picked in the record select modal, kept per user and
+ * entity type in local storage, most recent first
+ */
+import type { SelectedRecord } from './types';
+
+const STORAGE_PREFIX = 'recent-records-';
+const MAX_RECENT_RECORDS = 5;
+
+function getStorageKey(userId: string, entityType: string): string {
+  return `${STORAGE_PREFIX}${userId}-${entityType}`;
+}
+
+export function getRecentRecords(userId: string, entityType: string): SelectedRecord[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(getStorageKey(userId, entityType)) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.filter(
+      (item): item is SelectedRecord =>
+        typeof (item as SelectedRecord | null)?.id === 'string' &&
+        typeof (item as SelectedRecord).name === 'string'
+    );
+  } catch {
+    return [];
+  }
+}
+
+export function addRecentRecords(userId: string, entityType: string, records: SelectedRecord[]): void {
+  const picked = records.map(({ id, name }) => ({ id, name }));
+  const pickedIds = new Set(picked.map((record) => record.id));
+  const recent = [
+    ...picked,
+    ...getRecentRecords(userId, entityType).filter((record) => !pickedIds.has(record.id)),
+  ];
+
+  try {
+    localStorage.setItem(getStorageKey(userId, entityType), JSON.stringify(recent.slice(0, MAX_RECENT_RECORDS)));
+  } catch {
+    // Storage full or unavailable; recent records are a convenience only
+  }
+}
+
+/**
+ * Remove the recent records of every user, so record names don't outlive
+ * the session on a shared browser
+ */
+export function clearRecentRecords(): void {
+  try {
+    const keys = Array.from({ length: localStorage.length }, (_, index) => localStorage.key(index));
+    for (const key of keys) {
+      if (key?.startsWith(STORAGE_PREFIX)) localStorage.removeItem(key);
+    }
+  } catch {
+    // Storage unavailable; nothing to clear
+  }
+}
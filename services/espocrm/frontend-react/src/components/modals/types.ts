@@ -10,8 +10,15 @@ export interface RecordSelectModalConfig {
   entityType: string;
   title?: string;
   multiple?: boolean;
+  /** Where-clause item always applied, on top of the user's filters */
   filters?: Record<string, unknown>;
   excludeIds?: string[];
+  /** Primary filter from the entity's `clientDefs` selected initially */
+  primaryFilter?: string;
+  /** Bool filters (e.g. `onlyMy`) checked initially */
+  boolFilterList?: string[];
+  /** Offer creating a new record, which is then selected */
+  createButton?: boolean;
 }
 
 export interface QuickCreateModalConfig {
@@ -411,4 +411,23 @@ describe('filtersToWhereClause', () => {
   it('returns empty array for no filters', () => {
     expect(filtersToWhereClause([])).toEqual([]);
   });
+
+  it('filters date-time fields by day in the user time zone', () => {
+    const filters: SearchFilter[] = [
+      { id: '1', field: 'dateStart', operator: 'equals', value: '2024-06-15' },
+      { id: '2', field: 'dateStart', operator: 'lastSevenDays', value: null },
+      { id: '3', field: 'dateDue', operator: 'equals', value: '2024-06-15' },
+    ];
+
+    const result = filtersToWhereClause(filters, {
+      fieldDefs: { dateStart: { type: 'datetime' }, dateDue: { type: 'date' } },
+      timeZone: 'Europe/Berlin',
+    });
+
+    expect(result).toEqual([
+      { type: 'on', attribute: 'dateStart', value: '2024-06-15', dateTime: true, timeZone: 'Europe/Berlin' },
+      { type: 'lastSevenDays', attribute: 'dateStart', value: null, dateTime: true, timeZone: 'Europe/Berlin' },
+      { type: 'equals', attribute: 'dateDue', value: '2024-06-15' },
+    ]);
+  });
 });
@@ -20,6 +20,8 @@ interface AdvancedSearchProps {
   textFilter?: string;
   /** Callback when text search changes */
   onTextFilterChange?: (text: string) => void;
+  /** Placeholder of the text search */
+  placeholder?: string;
   className?: string;
 }
 
@@ -109,6 +111,7 @@ export function AdvancedSearch({
   onFiltersChange,
   textFilter = '',
   onTextFilterChange,
+  placeholder,
   className,
 }: AdvancedSearchProps): React.ReactElement {
   const { metadata } = useMetadata();
@@ -192,7 +195,7 @@ export function AdvancedSearch({
             type="text"
             value={textFilter}
             onChange={(e) => onTextFilterChange?.(e.target.value)}
-            placeholder={`Search ${entityType}...`}
+            placeholder={placeholder ?? `Search ${entityType}...`}
             className="w-full h-10 pl-10 pr-4 rounded-md border bg-background"
           />
         </div>
@@ -412,15 +415,43 @@ function formatFieldName(name: string): string {
     .trim();
 }
 
+export interface WhereClauseOptions {
+  /** Field definitions of the entity, to tell date-time fields apart */
+  fieldDefs?: Record<string, { type?: string }>;
+  /** User's time zone; date filters on date-time fields are resolved in it */
+  timeZone?: string;
+}
+
+// Date-time fields are filtered by day, e.g. "on" rather than "equals"
+const DATE_TIME_OPERATORS: Partial<Record<FilterOperator, string>> = {
+  equals: 'on',
+  notEquals: 'notOn',
+};
+
 /**
  * Convert filters to EspoCRM API where clause
  */
-export function filtersToWhereClause(filters: SearchFilter[]): unknown[] {
-  return filters.map((filter) => ({
-    type: filter.operator,
-    attribute: filter.field,
-    value: filter.value,
-  }));
+export function filtersToWhereClause(filters: SearchFilter[], options: WhereClauseOptions = {}): unknown[] {
+  return filters.map((filter) => {
+    const item = {
+      type: filter.operator,
+      attribute: filter.field,
+      value: filter.value,
+    };
+
+    // Date-time values are stored in UTC; the server turns the days of
+    // these filters into UTC ranges in the user's time zone
+    if (options.fieldDefs?.[filter.field]?.type === 'datetime') {
+      return {
+        ...item,
+        type: DATE_TIME_OPERATORS[filter.operator] ?? filter.operator,
+        dateTime: true,
+        timeZone: options.timeZone,
+      };
+    }
+
+    return item;
+  });
 }
 
 export default AdvancedSearch;
@@ -0,0 +1,70 @@
+/**
+ * FileDropZone - accepts files dragged onto its content
+ */
+import React, { useState } from 'react';
+import { cn } from '@/lib/utils/cn';
+
+export interface FileDropZoneProps {
+  onFiles: (files: File[]) => void;
+  /** Only the first dropped file is passed on when false */
+  multiple?: boolean;
+  disabled?: boolean;
+  className?: string;
+  children: React.ReactNode;
+}
+
+export function FileDropZone({
+  onFiles,
+  multiple = false,
+  disabled,
+  className,
+  children,
+}: FileDropZoneProps): React.ReactElement {
+  const [isDragging, setIsDragging] = useState(false);
+
+  const hasFiles = (e: React.DragEvent): boolean =>
+    Array.from(e.dataTransfer?.types ?? []).includes('Files');
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>): void => {
+    if (disabled || !hasFiles(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>): void => {
+    // Ignore leaving into a child element
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>): void => {
+    if (disabled) return;
+    e.preventDefault();
+    setIsDragging(false);
+    const files = Array.from(e.dataTransfer?.files ?? []);
+    if (files.length > 0) {
+      onFiles(multiple ? files : files.slice(0, 1));
+    }
+  };
+
+  return (
+    <div
+      data-testid="file-drop-zone"
+      data-dragging={isDragging || undefined}
+      onDragOver={handleDragOver}
+      onDragEnter={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      className={cn(
+        'rounded-md transition-colors',
+        isDragging && 'bg-blue-50 ring-2 ring-blue-400 ring-offset-1',
+        className
+      )}
+    >
+      {children}
+    </div>
+  );
+}
+
+export default FileDropZone;
@@ -0,0 +1,108 @@
+/**
+ * UploadQueue - progress, cancel and retry for queued uploads, plus files
+ * rejected by the field's upload rules
+ */
+import React from 'react';
+import { AlertCircle, RotateCw, X } from 'lucide-react';
+import type { FileRejection, UploadItem } from '@/lib/upload';
+import { formatFileSize } from '@/lib/utils/formatFileSize';
+import { cn } from '@/lib/utils/cn';
+
+export interface UploadQueueProps {
+  items: UploadItem[];
+  rejections?: FileRejection[];
+  onCancel: (key: string) => void;
+  onRetry: (key: string) => void;
+  onDismiss: (key: string) => void;
+  onDismissRejections?: () => void;
+  className?: string;
+}
+
+export function UploadQueue({
+  items,
+  rejections = [],
+  onCancel,
+  onRetry,
+  onDismiss,
+  onDismissRejections,
+  className,
+}: UploadQueueProps): React.ReactElement | null {
+  if (items.length === 0 && rejections.length === 0) return null;
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      {items.map((item) => {
+        const percent = item.file.size > 0 ? Math.round((item.uploadedBytes / item.file.size) * 100) : 0;
+        const isFailed = item.status === 'failed';
+
+        return (
+          <div key={item.key} className="rounded-md border p-2 text-sm">
+            <div className="flex items-center gap-2">
+              <span className="flex-1 truncate">{item.file.name}</span>
+              <span className="flex-shrink-0 text-xs text-muted-foreground">
+                {item.status === 'queued' ? 'Waiting…' : `${percent}% of ${formatFileSize(item.file.size) || '0 B'}`}
+              </span>
+              {isFailed && (
+                <button
+                  type="button"
+                  onClick={() => onRetry(item.key)}
+                  className="flex-shrink-0 text-muted-foreground hover:text-blue-600"
+                  aria-label={`Retry upload of ${item.file.name}`}
+                  title="Retry"
+                >
+                  <RotateCw className="h-4 w-4" />
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => (isFailed ? onDismiss(item.key) : onCancel(item.key))}
+                className="flex-shrink-0 text-muted-foreground hover:text-red-600"
+                aria-label={`${isFailed ? 'Remove' : 'Cancel'} upload of ${item.file.name}`}
+                title={isFailed ? 'Remove' : 'Cancel'}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            <div
+              role="progressbar"
+              aria-label={item.file.name}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={percent}
+              className="mt-1 h-1.5 overflow-hidden rounded-full bg-gray-200"
+            >
+              <div
+                className={cn('h-full transition-all', isFailed ? 'bg-red-500' : 'bg-blue-600')}
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+            {item.error && <p className="mt-1 text-xs text-red-600">{item.error}</p>}
+          </div>
+        );
+      })}
+
+      {rejections.length > 0 && (
+        <div role="alert" className="flex items-start gap-2 rounded-md bg-red-50 p-2 text-xs text-red-700">
+          <AlertCircle className="mt-0.5 h-3.5 w-3.5 flex-shrink-0" />
+          <ul className="flex-1 space-y-0.5">
+            {rejections.map((rejection, index) => (
+              <li key={index}>{rejection.message}</li>
+            ))}
+          </ul>
+          {onDismissRejections && (
+            <button
+              type="button"
+              onClick={onDismissRejections}
+              className="flex-shrink-0 hover:text-red-900"
+              aria-label="Dismiss"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default UploadQueue;
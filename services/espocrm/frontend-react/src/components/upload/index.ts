@@ -0,0 +1,4 @@
+export { FileDropZone } from './FileDropZone';
+export type { FileDropZoneProps } from './FileDropZone';
+export { UploadQueue } from './UploadQueue';
+export type { UploadQueueProps } from './UploadQueue';
@@ -0,0 +1,82 @@
+/**
+ * CalendarView Tests
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MemoryRouter } from 'react-router-dom';
+import { CalendarView } from './CalendarView';
+import { useAuthStore } from '@/features/auth/store';
+
+vi.mock('@/api/client', () => ({
+  get: vi.fn(),
+}));
+
+import { get } from '@/api/client';
+
+const mockGet = vi.mocked(get);
+
+function renderCalendar() {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <MemoryRouter>
+        <CalendarView entityType="Meeting" dateField="dateStart" />
+      </MemoryRouter>
+    </QueryClientProvider>
+  );
+}
+
+describe('CalendarView', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // 2024-06-16 00:30 in Berlin
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-06-15T22:30:00Z'));
+    useAuthStore.setState({
+      settings: { timeZone: 'Europe/Berlin', timeFormat: 'HH:mm', weekStart: 1 },
+      preferences: null,
+    });
+    mockGet.mockResolvedValue({
+      total: 2,
+      list: [
+        { id: 'm1', name: 'Late call', dateStart: '2024-06-15 22:30:00' },
+        { id: 'm2', name: 'Offsite', dateStart: '2024-06-16' },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts weeks on the configured day', async () => {
+    renderCalendar();
+
+    expect(await screen.findByText('June 2024')).toBeInTheDocument();
+    const headers = screen.getAllByText(/^(Sun|Mon|Tue|Wed|Thu|Fri|Sat)$/);
+    expect(headers[0]).toHaveTextContent('Mon');
+    expect(headers[6]).toHaveTextContent('Sun');
+  });
+
+  it('places date-times on their day in the user time zone', async () => {
+    renderCalendar();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'day' }));
+
+    expect(await screen.findByText('Sun, June 16')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: /Late call/ })).toHaveTextContent('00:30');
+    expect(screen.getByRole('link', { name: 'Offsite' })).toBeInTheDocument();
+  });
+
+  it('queries around the visible days', async () => {
+    renderCalendar();
+    await screen.findByText('June 2024');
+
+    const url = mockGet.mock.calls[0]?.[0] as string;
+    const params = new URLSearchParams(url.split('?')[1]);
+    // The month grid runs from Monday May 27 to Sunday June 30
+    expect(params.get('where[0][value]')).toBe('2024-05-26');
+    expect(params.get('where[1][value]')).toBe('2024-07-01 23:59:59');
+  });
+});
@@ -2,10 +2,21 @@ import React, { useState, useMemo, useCallback } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { ChevronLeft, ChevronRight, Plus } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
 import { get } from '@/api/client';
 import { Button } from '@/components/ui/button';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { cn } from '@/lib/utils/cn';
+import {
+  addDaysToDate,
+  getDayOfWeek,
+  getZonedParts,
+  parseDate,
+  parseDateTime,
+  toDateFnsFormat,
+  useDateTime,
+  type DateTimeService,
+} from '@/lib/datetime';
 
 interface CalendarViewProps {
   entityType: string;
@@ -38,6 +49,27 @@ const MONTHS = [
   'July', 'August', 'September', 'October', 'November', 'December'
 ];
 
+const isDateOnly = (value: unknown): boolean => typeof value === 'string' && value.length === 10;
+
+/**
+ * The same day of another month, clamped to the month's length
+ */
+function addMonthsToDate(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number) as [number, number, number];
+  const first = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+  first.setUTCDate(Math.min(day, lastDay));
+  return first.toISOString().slice(0, 10);
+}
+
+/**
+ * Day of an event in the user's time zone; date-only values are their own day
+ */
+function getEventDay(value: unknown, dateTime: DateTimeService): string | null {
+  if (isDateOnly(value)) return parseDate(value);
+  return dateTime.toUserDate(value);
+}
+
 export function CalendarView({
   entityType,
   dateField,
@@ -49,46 +81,36 @@ export function CalendarView({
   // Note: endDateField and colorField are reserved for future enhancements
   void _endDateField;
   void _colorField;
-  const [currentDate, setCurrentDate] = useState(new Date());
+  const dateTime = useDateTime();
+  // Days are YYYY-MM-DD in the user's time zone
+  const [currentDate, setCurrentDate] = useState(() => dateTime.today());
   const [viewMode, setViewMode] = useState<ViewMode>('month');
+  const { startOfWeek } = dateTime;
 
   // Calculate date range for query
   const dateRange = useMemo(() => {
-    const year = currentDate.getFullYear();
-    const month = currentDate.getMonth();
-
     if (viewMode === 'month') {
       // Get first day of month and last day
-      const firstDay = new Date(year, month, 1);
-      const lastDay = new Date(year, month + 1, 0);
+      const firstDay = `${currentDate.slice(0, 7)}-01`;
+      const lastDay = addDaysToDate(addMonthsToDate(firstDay, 1), -1);
 
       // Extend to include visible days from adjacent months
-      const startDate = new Date(firstDay);
-      startDate.setDate(startDate.getDate() - startDate.getDay());
-
-      const endDate = new Date(lastDay);
-      endDate.setDate(endDate.getDate() + (6 - endDate.getDay()));
-
-      return { start: startDate, end: endDate };
+      return { start: startOfWeek(firstDay), end: addDaysToDate(startOfWeek(lastDay), 6) };
     }
 
     if (viewMode === 'week') {
-      const startDate = new Date(currentDate);
-      startDate.setDate(startDate.getDate() - startDate.getDay());
-
-      const endDate = new Date(startDate);
-      endDate.setDate(endDate.getDate() + 6);
-
-      return { start: startDate, end: endDate };
+      const startDate = startOfWeek(currentDate);
+      return { start: startDate, end: addDaysToDate(startDate, 6) };
     }
 
     // Day view
     return { start: currentDate, end: currentDate };
-  }, [currentDate, viewMode]);
+  }, [currentDate, viewMode, startOfWeek]);
 
-  // Format dates for API
-  const startDateStr = dateRange.start.toISOString().split('T')[0] ?? '';
-  const endDateStr = dateRange.end.toISOString().split('T')[0] ?? '';
+  // Date-times are stored in UTC, so the query is widened by a day on each
+  // side to cover the user's zone; events are then placed by their local day
+  const startDateStr = addDaysToDate(dateRange.start, -1);
+  const endDateStr = addDaysToDate(dateRange.end, 1);
 
   // Fetch events
   const { data, isLoading, error } = useQuery<ListResponse, Error>({
@@ -127,18 +149,13 @@ export function CalendarView({
     enabled: !!entityType,
   });
 
-  // Group events by date
+  // Group events by their day in the user's time zone
   const eventsByDate = useMemo(() => {
     const map: Record<string, CalendarRecord[]> = {};
 
     if (data?.list) {
       for (const record of data.list) {
-        const dateValue = record[dateField];
-        if (!dateValue) continue;
-
-        const dateStrParts = String(dateValue).split('T');
-        const datePart = dateStrParts[0] ?? '';
-        const dateStr = datePart.split(' ')[0] ?? datePart;
+        const dateStr = getEventDay(record[dateField], dateTime);
         if (!dateStr) continue;
 
         if (!map[dateStr]) {
@@ -149,40 +166,32 @@ export function CalendarView({
     }
 
     return map;
-  }, [data?.list, dateField]);
+  }, [data?.list, dateField, dateTime]);
+
+  // Week day names, starting with the user's first day of the week
+  const dayNames = useMemo(
+    () => DAYS.map((_, index) => DAYS[(index + dateTime.settings.weekStart) % 7] ?? ''),
+    [dateTime.settings.weekStart]
+  );
 
   // Navigation handlers
-  const navigatePrev = useCallback(() => {
+  const navigate = useCallback((direction: 1 | -1) => {
     setCurrentDate((prev) => {
-      const next = new Date(prev);
       if (viewMode === 'month') {
-        next.setMonth(next.getMonth() - 1);
-      } else if (viewMode === 'week') {
-        next.setDate(next.getDate() - 7);
-      } else {
-        next.setDate(next.getDate() - 1);
+        return addMonthsToDate(prev, direction);
       }
-      return next;
+      return addDaysToDate(prev, viewMode === 'week' ? direction * 7 : direction);
     });
   }, [viewMode]);
 
-  const navigateNext = useCallback(() => {
-    setCurrentDate((prev) => {
-      const next = new Date(prev);
-      if (viewMode === 'month') {
-        next.setMonth(next.getMonth() + 1);
-      } else if (viewMode === 'week') {
-        next.setDate(next.getDate() + 7);
-      } else {
-        next.setDate(next.getDate() + 1);
-      }
-      return next;
-    });
-  }, [viewMode]);
+  const navigatePrev = useCallback(() => navigate(-1), [navigate]);
+  const navigateNext = useCallback(() => navigate(1), [navigate]);
 
   const navigateToday = useCallback(() => {
-    setCurrentDate(new Date());
-  }, []);
+    setCurrentDate(dateTime.today());
+  }, [dateTime]);
+
+  const today = dateTime.today();
 
   if (isLoading) {
     return (
@@ -215,7 +224,7 @@ export function CalendarView({
             <ChevronRight className="h-4 w-4" />
           </Button>
           <h2 className="text-lg font-semibold ml-4">
-            {MONTHS[currentDate.getMonth()]} {currentDate.getFullYear()}
+            {MONTHS[Number(currentDate.slice(5, 7)) - 1]} {currentDate.slice(0, 4)}
           </h2>
         </div>
 
@@ -250,6 +259,8 @@ export function CalendarView({
       {viewMode === 'month' && (
         <MonthView
           currentDate={currentDate}
+          today={today}
+          dayNames={dayNames}
           dateRange={dateRange}
           eventsByDate={eventsByDate}
           entityType={entityType}
@@ -260,6 +271,8 @@ export function CalendarView({
       {viewMode === 'week' && (
         <WeekView
           currentDate={currentDate}
+          today={today}
+          dayNames={dayNames}
           dateRange={dateRange}
           eventsByDate={eventsByDate}
           entityType={entityType}
@@ -267,65 +280,66 @@ export function CalendarView({
         />
       )}
 
-      {viewMode === 'day' && (() => {
-        const dayKey = currentDate.toISOString().split('T')[0] ?? '';
-        return (
-          <DayView
-            currentDate={currentDate}
-            events={eventsByDate[dayKey] ?? []}
-            entityType={entityType}
-            titleField={titleField}
-          />
-        );
-      })()}
+      {viewMode === 'day' && (
+        <DayView
+          currentDate={currentDate}
+          events={eventsByDate[currentDate] ?? []}
+          dateField={dateField}
+          entityType={entityType}
+          titleField={titleField}
+        />
+      )}
     </div>
   );
 }
 
 interface ViewProps {
-  currentDate: Date;
-  dateRange: { start: Date; end: Date };
+  /** Days are YYYY-MM-DD in the user's time zone */
+  currentDate: string;
+  today: string;
+  dayNames: string[];
+  dateRange: { start: string; end: string };
   eventsByDate: Record<string, CalendarRecord[]>;
   entityType: string;
   titleField: string;
 }
 
+/**
+ * Days from the start to the end of a range, inclusive
+ */
+function getDays(range: { start: string; end: string }): string[] {
+  const result: string[] = [];
+  for (let day = range.start; day <= range.end; day = addDaysToDate(day, 1)) {
+    result.push(day);
+  }
+  return result;
+}
+
 function MonthView({
   currentDate,
+  today,
+  dayNames,
   dateRange,
   eventsByDate,
   entityType,
   titleField,
 }: ViewProps): React.ReactElement {
   const weeks = useMemo(() => {
-    const result: Date[][] = [];
-    let week: Date[] = [];
-    const current = new Date(dateRange.start);
-
-    while (current <= dateRange.end) {
-      week.push(new Date(current));
-      if (week.length === 7) {
-        result.push(week);
-        week = [];
-      }
-      current.setDate(current.getDate() + 1);
+    const days = getDays(dateRange);
+    const result: string[][] = [];
+    for (let i = 0; i < days.length; i += 7) {
+      result.push(days.slice(i, i + 7));
     }
-
-    if (week.length > 0) {
-      result.push(week);
-    }
-
     return result;
   }, [dateRange]);
 
-  const today = new Date().toISOString().split('T')[0];
-  const currentMonth = currentDate.getMonth();
+  const currentMonth = currentDate.slice(0, 7);
 
   return (
     <div className="border rounded-lg overflow-hidden">
       {/* Day headers */}
       <div className="grid grid-cols-7 bg-muted/50">
-        {DAYS.map((day) => (
+        {dayNames.map((day) => (
           <div key={day} className="px-2 py-3 text-center text-sm font-medium text-muted-foreground">
             {day}
           </div>
@@ -335,10 +349,9 @@ function MonthView({
       {/* Weeks */}
       {weeks.map((week, weekIdx) => (
         <div key={weekIdx} className="grid grid-cols-7 border-t">
-          {week.map((date) => {
-            const dateStr = date.toISOString().split('T')[0] ?? '';
+          {week.map((dateStr) => {
             const isToday = dateStr === today;
-            const isCurrentMonth = date.getMonth() === currentMonth;
+            const isCurrentMonth = dateStr.startsWith(currentMonth);
             const dayEvents: CalendarRecord[] = eventsByDate[dateStr] ?? [];
 
             return (
@@ -355,7 +368,7 @@ function MonthView({
                     isToday && 'bg-primary text-primary-foreground'
                   )}
                 >
-                  {date.getDate()}
+                  {Number(dateStr.slice(8))}
                 </div>
 
                 <div className="space-y-1">
@@ -384,31 +397,20 @@ function MonthView({
 }
 
 function WeekView({
+  today,
+  dayNames,
   dateRange,
   eventsByDate,
   entityType,
   titleField,
 }: ViewProps): React.ReactElement {
-  const days = useMemo(() => {
-    const result: Date[] = [];
-    const current = new Date(dateRange.start);
-
-    while (current <= dateRange.end) {
-      result.push(new Date(current));
-      current.setDate(current.getDate() + 1);
-    }
-
-    return result;
-  }, [dateRange]);
-
-  const today = new Date().toISOString().split('T')[0];
+  const days = useMemo(() => getDays(dateRange), [dateRange]);
 
   return (
     <div className="border rounded-lg overflow-hidden">
       {/* Day headers */}
       <div className="grid grid-cols-7 bg-muted/50">
-        {days.map((date) => {
-          const dateStr = date.toISOString().split('T')[0];
+        {days.map((dateStr, index) => {
           const isToday = dateStr === today;
 
           return (
@@ -419,14 +421,14 @@ function WeekView({
                 isToday && 'bg-primary/10'
               )}
             >
-              <div className="text-sm font-medium">{DAYS[date.getDay()]}</div>
+              <div className="text-sm font-medium">{dayNames[index]}</div>
               <div
                 className={cn(
                   'text-2xl font-bold',
                   isToday && 'text-primary'
                 )}
               >
-                {date.getDate()}
+                {Number(dateStr.slice(8))}
               </div>
             </div>
           );
@@ -435,8 +437,7 @@ function WeekView({
 
       {/* Events */}
       <div className="grid grid-cols-7 min-h-[400px]">
-        {days.map((date) => {
-          const dateStr = date.toISOString().split('T')[0] ?? '';
+        {days.map((dateStr) => {
           const dayEvents: CalendarRecord[] = eventsByDate[dateStr] ?? [];
 
           return (
@@ -459,8 +460,9 @@ function WeekView({
 }
 
 interface DayViewProps {
-  currentDate: Date;
+  currentDate: string;
   events: CalendarRecord[];
+  dateField: string;
   entityType: string;
   titleField: string;
 }
@@ -468,38 +470,67 @@ interface DayViewProps {
 function DayView({
   currentDate,
   events,
+  dateField,
   entityType,
   titleField,
 }: DayViewProps): React.ReactElement {
+  const dateTime = useDateTime();
+  const { timeZone, timeFormat } = dateTime.settings;
   const hours = Array.from({ length: 24 }, (_, i) => i);
+  const hourFormat = toDateFnsFormat(timeFormat);
+
+  // Timed events go in their hour; date-only events are listed below
+  const eventsByHour: Record<number, CalendarRecord[]> = {};
+  const allDayEvents: CalendarRecord[] = [];
+  for (const event of events) {
+    const value = event[dateField];
+    const moment = isDateOnly(value) ? null : parseDateTime(value);
+    if (!moment) {
+      allDayEvents.push(event);
+      continue;
+    }
+    const { hour } = getZonedParts(moment, timeZone);
+    (eventsByHour[hour] ??= []).push(event);
+  }
+
+  const [year, month, day] = currentDate.split('-').map(Number) as [number, number, number];
 
   return (
     <div className="border rounded-lg overflow-hidden">
       <div className="bg-muted/50 px-4 py-3 text-center">
         <div className="text-lg font-semibold">
-          {DAYS[currentDate.getDay()]}, {MONTHS[currentDate.getMonth()]} {currentDate.getDate()}
+          {DAYS[getDayOfWeek(currentDate)]}, {MONTHS[month - 1]} {day}
         </div>
       </div>
 
       <div className="divide-y">
         {hours.map((hour) => (
           <div key={hour} className="flex">
-            <div className="w-16 px-2 py-4 text-sm text-muted-foreground text-right border-r">
-              {hour === 0 ? '12 AM' : hour < 12 ? `${hour} AM` : hour === 12 ? '12 PM' : `${hour - 12} PM`}
+            <div className="w-20 px-2 py-4 text-sm text-muted-foreground text-right border-r">
+              {format(new Date(year, month - 1, day, hour), hourFormat)}
             </div>
-            <div className="flex-1 p-2 min-h-[60px]">
-              {/* Events would be positioned here based on time */}
+            <div className="flex-1 p-2 min-h-[60px] space-y-1">
+              {(eventsByHour[hour] ?? []).map((event) => (
+                <Link
+                  key={event.id}
+                  to={`/${entityType}/view/${event.id}`}
+                  className="block p-2 text-sm rounded bg-primary/10 text-primary hover:bg-primary/20"
+                >
+                  <span className="mr-2 text-xs">{dateTime.formatTime(event[dateField])}</span>
+                  {(event[titleField] as string) ?? event.id}
+                </Link>
+              ))}
             </div>
           </div>
         ))}
       </div>
 
       {/* All-day events or events without specific time */}
-      {events.length > 0 && (
+      {allDayEvents.length > 0 && (
         <div className="border-t p-4">
           <h4 className="text-sm font-medium text-muted-foreground mb-2">Events</h4>
           <div className="space-y-2">
-            {events.map((event) => (
+            {allDayEvents.map((event) => (
               <Link
                 key={event.id}
                 to={`/${entityType}/view/${event.id}`}
@@ -0,0 +1,59 @@
+/**
+ * ExtensionSidePanels Component Tests
+ */
+import React from 'react';
+import { describe, it, expect, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { ExtensionSidePanels } from './ExtensionSidePanels';
+import { registerModule, clearAllRegistries, type SidebarPanelProps } from '@/lib/extensions';
+
+function NotesPanel({ entityType, recordId, data }: SidebarPanelProps): React.ReactElement {
+  return (
+    <div data-testid="notes-panel">
+      {entityType}:{recordId}:{String(data?.name)}
+    </div>
+  );
+}
+
+describe('ExtensionSidePanels', () => {
+  afterEach(() => {
+    clearAllRegistries();
+  });
+
+  it('renders nothing when no panels are registered', () => {
+    const { container } = render(
+      <ExtensionSidePanels entityType="Account" recordId="acc-1" />
+    );
+
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('renders registered panels inside a SidePanel with record context', async () => {
+    await registerModule({
+      name: 'NotesModule',
+      sidebarPanels: {
+        notes: { label: 'Internal Notes', component: NotesPanel },
+      },
+    });
+
+    render(
+      <ExtensionSidePanels entityType="Account" recordId="acc-1" data={{ name: 'Acme' }} />
+    );
+
+    expect(screen.getByText('Internal Notes')).toBeInTheDocument();
+    expect(await screen.findByTestId('notes-panel')).toHaveTextContent('Account:acc-1:Acme');
+  });
+
+  it('skips panels restricted to other entity types', async () => {
+    await registerModule({
+      name: 'LeadModule',
+      sidebarPanels: {
+        scoring: { label: 'Lead Scoring', component: NotesPanel, entityTypes: ['Lead'] },
+      },
+    });
+
+    render(<ExtensionSidePanels entityType="Account" recordId="acc-1" />);
+
+    expect(screen.queryByText('Lead Scoring')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * ExtensionSidePanels - Side panels contributed by extension modules
+ * Each registered panel is rendered inside a collapsible SidePanel
+ */
+import React, { Suspense } from 'react';
+import { useExtensions } from '@/lib/extensions';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { SidePanel } from './SidePanel';
+
+export interface ExtensionSidePanelsProps {
+  /** Entity type of the record */
+  entityType: string;
+  /** Record ID */
+  recordId: string;
+  /** Record data passed through to panels */
+  data?: Record<string, unknown>;
+}
+
+export function ExtensionSidePanels({
+  entityType,
+  recordId,
+  data,
+}: ExtensionSidePanelsProps): React.ReactElement | null {
+  const { sidebarPanels } = useExtensions({ entityType });
+
+  if (sidebarPanels.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      {sidebarPanels.map((panel, index) => {
+        const Component = panel.component;
+
+        return (
+          <SidePanel key={`${index}-${panel.label}`} title={panel.label}>
+            <Suspense fallback={<LoadingSpinner size="sm" className="py-6" />}>
+              <Component entityType={entityType} recordId={recordId} data={data} />
+            </Suspense>
+          </SidePanel>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * RecordMapView Tests
+ */
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { RecordMapView } from './RecordMapView';
+
+vi.mock('@/api/client', () => ({
+  get: vi.fn(),
+}));
+
+import { get } from '@/api/client';
+
+const mockGet = vi.mocked(get);
+
+function renderView(url = '/Account?view=map') {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <MemoryRouter initialEntries={[url]}>
+        <Routes>
+          <Route path="/Account" element={<RecordMapView entityType="Account" mapField="billingAddressMap" />} />
+          <Route path="/Account/view/:id" element={<div>Account detail</div>} />
+        </Routes>
+      </MemoryRouter>
+    </QueryClientProvider>
+  );
+}
+
+describe('RecordMapView', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGet.mockResolvedValue({
+      total: 3,
+      list: [
+        {
+          id: 'a1',
+          name: 'Acme',
+          billingAddressCity: 'Berlin',
+          billingAddressLatitude: 52.52,
+          billingAddressLongitude: 13.405,
+        },
+        { id: 'a2', name: 'Globex', billingAddressLatitude: 48.8566, billingAddressLongitude: 2.3522 },
+        { id: 'a3', name: 'Initech' },
+      ],
+    });
+  });
+
+  it('places the list results with a location on the map', async () => {
+    renderView('/Account?view=map&q=ac&orderBy=name&order=asc');
+
+    expect(await screen.findByRole('button', { name: 'Acme — Berlin' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Globex' })).toBeInTheDocument();
+    expect(screen.getByText('2 of 3 records have a location')).toBeInTheDocument();
+
+    const url = mockGet.mock.calls[0]?.[0] as string;
+    expect(url).toContain('textFilter=ac');
+    expect(url).toContain('orderBy=name');
+    expect(url).toContain('order=asc');
+  });
+
+  it('opens a record from its marker', async () => {
+    renderView();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Globex' }));
+
+    expect(screen.getByText('Account detail')).toBeInTheDocument();
+  });
+
+  it('says when no record has a location', async () => {
+    mockGet.mockResolvedValue({ total: 1, list: [{ id: 'a3', name: 'Initech' }] });
+    renderView();
+
+    expect(await screen.findByText('No records with a location')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,120 @@
+import React, { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { get } from '@/api/client';
+import { MapView } from '@/components/map';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { getMapAddressLabel, getRecordCoordinates, type MapMarker } from '@/lib/map';
+import { cn } from '@/lib/utils/cn';
+
+interface RecordMapViewProps {
+  entityType: string;
+  /** Map field whose locations are shown */
+  mapField: string;
+  /** Map provider; the `mapProvider` setting is used when not given */
+  provider?: string;
+  /** Map height in pixels */
+  height?: number;
+  className?: string;
+}
+
+interface MapRecord {
+  id: string;
+  name?: string;
+  [key: string]: unknown;
+}
+
+interface ListResponse {
+  total: number;
+  list: MapRecord[];
+}
+
+// Records placed on the map at most
+const MAX_RECORDS = 200;
+
+/**
+ * Map of the list results: the search text and order of the list view apply
+ */
+export function RecordMapView({
+  entityType,
+  mapField,
+  provider,
+  height = 500,
+  className,
+}: RecordMapViewProps): React.ReactElement {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const orderBy = searchParams.get('orderBy') ?? 'createdAt';
+  const order = searchParams.get('order') ?? 'desc';
+  const searchQuery = searchParams.get('q') ?? '';
+
+  const { data, isLoading, error } = useQuery<ListResponse, Error>({
+    queryKey: ['entityMap', entityType, mapField, orderBy, order, searchQuery],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        maxSize: String(MAX_RECORDS),
+        offset: '0',
+        orderBy,
+        order,
+      });
+      if (searchQuery) {
+        params.append('textFilter', searchQuery);
+      }
+      return get<ListResponse>(`/${entityType}?${params.toString()}`);
+    },
+    enabled: !!entityType,
+  });
+
+  const markers = useMemo<MapMarker[]>(() => {
+    const result: MapMarker[] = [];
+    for (const record of data?.list ?? []) {
+      const position = getRecordCoordinates(record, mapField);
+      if (!position) continue;
+      const address = getMapAddressLabel(record, mapField);
+      const label = [record.name, address].filter(Boolean).join(' — ');
+      result.push({ id: record.id, position, label: label || record.id });
+    }
+    return result;
+  }, [data?.list, mapField]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-lg border border-destructive bg-destructive/10 p-4 text-destructive">
+        Error loading records: {error.message}
+      </div>
+    );
+  }
+
+  const shown = data?.list.length ?? 0;
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {markers.length > 0 ? (
+        <MapView
+          provider={provider}
+          height={height}
+          markers={markers}
+          onMarkerClick={(marker) => navigate(`/${entityType}/view/${marker.id}`)}
+        />
+      ) : (
+        <div className="rounded-md border bg-muted/30 py-12 text-center text-sm text-muted-foreground">
+          No records with a location
+        </div>
+      )}
+      <p className="text-sm text-muted-foreground">
+        {markers.length} of {shown} records have a location
+        {data && data.total > shown && ` (first ${shown} of ${data.total} shown)`}
+      </p>
+    </div>
+  );
+}
+
+export default RecordMapView;
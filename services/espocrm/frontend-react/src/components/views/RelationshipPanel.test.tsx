@@ -26,7 +26,7 @@ vi.mock('@/lib/metadata/useMetadata', () => ({
       entityDefs: {
         Account: {
           links: {
-            contacts: { type: 'hasMany', entity: 'Contact' },
+            contacts: { type: 'hasMany', entity: 'Contact', columnAttributeMap: { role: 'accountRole' } },
             opportunities: { type: 'hasMany', entity: 'Opportunity' },
           },
           fields: {},
@@ -36,6 +36,7 @@ vi.mock('@/lib/metadata/useMetadata', () => ({
           fields: {
             name: { type: 'varchar' },
             emailAddress: { type: 'email' },
+            accountRole: { type: 'varchar' },
           },
         },
         Opportunity: {
@@ -269,6 +270,45 @@ describe('RelationshipPanel', () => {
     });
   });
 
+  describe('relationship columns', () => {
+    it('shows the relationship column values of each record', async () => {
+      mockGet.mockResolvedValue({
+        total: 1,
+        list: [{ id: 'con-001', name: 'John Doe', accountRole: 'Decision Maker' }],
+      });
+
+      render(
+        <RelationshipPanel
+          entityType="Account"
+          recordId="acc-001"
+          linkName="contacts"
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      expect(await screen.findByText('Decision Maker')).toBeInTheDocument();
+    });
+
+    it('does not repeat a relationship column already shown', async () => {
+      mockGet.mockResolvedValue({
+        total: 1,
+        list: [{ id: 'con-001', name: 'John Doe', accountRole: 'Decision Maker' }],
+      });
+
+      render(
+        <RelationshipPanel
+          entityType="Account"
+          recordId="acc-001"
+          linkName="contacts"
+          columns={['name', 'accountRole']}
+        />,
+        { wrapper: createWrapper() }
+      );
+
+      expect(await screen.findAllByText('Decision Maker')).toHaveLength(1);
+    });
+  });
+
   describe('show all', () => {
     it('shows "Show all" button when more records exist', async () => {
       mockGet.mockResolvedValue({
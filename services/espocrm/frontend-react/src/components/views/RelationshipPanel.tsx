@@ -67,7 +67,9 @@ export function RelationshipPanel({
   // Get link definition from metadata
   const linkDef = useMemo(() => {
     const links = metadata?.entityDefs?.[entityType]?.links ?? {};
-    return links[linkName] as { type?: string; entity?: string; foreign?: string } | undefined;
+    return links[linkName] as
+      | { type?: string; entity?: string; foreign?: string; columnAttributeMap?: Record<string, string> }
+      | undefined;
   }, [metadata, entityType, linkName]);
 
   const relatedEntityType = linkDef?.entity ?? linkName;
@@ -78,14 +80,13 @@ export function RelationshipPanel({
     return (metadata?.entityDefs?.[relatedEntityType]?.fields ?? {}) as Record<string, FieldDef>;
   }, [metadata, relatedEntityType]);
 
-  // Determine columns to show
+  // Determine columns to show, followed by the relationship columns, which
+  // related records carry in the attributes of the link's column map
   const displayColumns = useMemo(() => {
-    if (columns && columns.length > 0) {
-      return columns;
-    }
-    // Default columns
-    return ['name'];
-  }, [columns]);
+    const baseColumns = columns && columns.length > 0 ? columns : ['name'];
+    const relationshipColumns = Object.values(linkDef?.columnAttributeMap ?? {});
+    return [...baseColumns, ...relationshipColumns.filter((column) => !baseColumns.includes(column))];
+  }, [columns, linkDef]);
 
   // Fetch related records
   const { data, isLoading, error } = useQuery<ListResponse, Error>({
@@ -317,6 +317,35 @@ describe('StreamFeed', () => {
     });
   });
 
+  describe('attachments', () => {
+    it('previews attachments across all loaded notes', async () => {
+      mockGet.mockResolvedValue({
+        total: 2,
+        list: [
+          { ...sampleNotes[0], attachments: [{ id: 'att-1', name: 'quote.pdf', type: 'application/pdf' }] },
+          {
+            ...sampleNotes[1],
+            attachmentsIds: ['att-2'],
+            attachmentsNames: { 'att-2': 'photo.png' },
+            attachmentsTypes: { 'att-2': 'image/png' },
+          },
+        ],
+      });
+
+      render(<StreamFeed />, { wrapper: createWrapper() });
+
+      fireEvent.click(await screen.findByRole('link', { name: 'photo.png' }));
+
+      expect(screen.getByRole('dialog')).toBeInTheDocument();
+      expect(screen.getByAltText('photo.png')).toBeInTheDocument();
+      expect(screen.getByText('2 / 2')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Previous attachment' }));
+      expect(screen.getByText('1 / 2')).toBeInTheDocument();
+      expect(mockGet).toHaveBeenCalledWith('/Attachment/file/att-1', { responseType: 'blob' });
+    });
+  });
+
   describe('className prop', () => {
     it('applies custom className', async () => {
       const { container } = render(
@@ -15,9 +15,12 @@ import {
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { get, post as apiPost, del } from '@/api/client';
+import type { Attachment } from '@/api/attachments';
 import { Button } from '@/components/ui/button';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { useAttachmentPreview } from '@/hooks/useAttachmentPreview';
 import { cn } from '@/lib/utils/cn';
+import { parseDateTime, useDateTime, type DateTimeService } from '@/lib/datetime';
 
 interface StreamFeedProps {
   /** Entity type (e.g., 'Account', 'Contact') */
@@ -42,6 +45,10 @@ interface StreamNote {
   createdByName?: string;
   isInternal?: boolean;
   attachments?: Array<{ id: string; name: string; type: string }>;
+  /** Attachments of a post, as returned by the API */
+  attachmentsIds?: string[];
+  attachmentsNames?: Record<string, string>;
+  attachmentsTypes?: Record<string, string>;
 }
 
 interface StreamResponse {
@@ -58,6 +65,7 @@ export function StreamFeed({
   className,
 }: StreamFeedProps): React.ReactElement {
   const queryClient = useQueryClient();
+  const { openPreview, previewModal } = useAttachmentPreview();
   const [newPost, setNewPost] = useState('');
   const [isInternal, setIsInternal] = useState(false);
 
@@ -145,6 +153,8 @@ export function StreamFeed({
   );
 
   const allNotes = data?.pages.flatMap((page) => page.list) ?? [];
+  // The previewer pages through the attachments of every loaded note
+  const allAttachments = allNotes.flatMap(getNoteAttachments);
 
   if (isLoading) {
     return (
@@ -206,6 +216,7 @@ export function StreamFeed({
             key={note.id}
             note={note}
             onDelete={() => deleteNoteMutation.mutate(note.id)}
+            onPreviewAttachment={(e, id) => openPreview(e, allAttachments, id)}
           />
         ))}
 
@@ -227,6 +238,8 @@ export function StreamFeed({
           </div>
         )}
       </div>
+
+      {previewModal}
     </div>
   );
 }
@@ -234,15 +247,18 @@ export function StreamFeed({
 interface StreamItemProps {
   note: StreamNote;
   onDelete: () => void;
+  onPreviewAttachment: (e: React.MouseEvent, id: string) => void;
 }
 
-function StreamItem({ note, onDelete }: StreamItemProps): React.ReactElement {
+function StreamItem({ note, onDelete, onPreviewAttachment }: StreamItemProps): React.ReactElement {
   const [showMenu, setShowMenu] = useState(false);
+  const attachments = getNoteAttachments(note);
 
   const icon = getStreamIcon(note.type);
   const title = getStreamTitle(note);
   const content = getStreamContent(note);
-  const timeAgo = formatTimeAgo(new Date(note.createdAt));
+  const dateTime = useDateTime();
+  const timeAgo = formatTimeAgo(note.createdAt, dateTime);
 
   return (
     <div className="rounded-lg border p-4 bg-card">
@@ -330,14 +346,15 @@ function StreamItem({ note, onDelete }: StreamItemProps): React.ReactElement {
           )}
 
           {/* Attachments */}
-          {note.attachments && note.attachments.length > 0 && (
+          {attachments.length > 0 && (
             <div className="mt-3 flex flex-wrap gap-2">
-              {note.attachments.map((attachment) => (
+              {attachments.map((attachment) => (
                 <a
                   key={attachment.id}
                   href={`/api/v1/Attachment/file/${attachment.id}`}
                   target="_blank"
                   rel="noopener noreferrer"
+                  onClick={(e) => onPreviewAttachment(e, attachment.id)}
                   className="inline-flex items-center gap-1 px-2 py-1 bg-muted rounded text-sm hover:bg-muted/80"
                 >
                   <FileText className="h-3 w-3" />
@@ -364,6 +381,16 @@ function StreamItem({ note, onDelete }: StreamItemProps): React.ReactElement {
   );
 }
 
+function getNoteAttachments(note: StreamNote): Attachment[] {
+  if (note.attachments) return note.attachments;
+
+  return (note.attachmentsIds ?? []).map((id) => ({
+    id,
+    name: note.attachmentsNames?.[id] ?? id,
+    type: note.attachmentsTypes?.[id],
+  }));
+}
+
 function getStreamIcon(type: string): React.ReactNode {
   switch (type) {
     case 'Post':
@@ -465,7 +492,10 @@ function formatValue(value: unknown): string {
   return String(value);
 }
 
-function formatTimeAgo(date: Date): string {
+function formatTimeAgo(value: string, dateTime: DateTimeService): string {
+  const date = parseDateTime(value);
+  if (!date) return '';
+
   const now = new Date();
   const diffMs = now.getTime() - date.getTime();
   const diffSec = Math.floor(diffMs / 1000);
@@ -478,7 +508,7 @@ function formatTimeAgo(date: Date): string {
   if (diffHour < 24) return `${diffHour}h ago`;
   if (diffDay < 7) return `${diffDay}d ago`;
 
-  return date.toLocaleDateString();
+  return dateTime.formatDateTimeDay(date);
 }
 
 export default StreamFeed;
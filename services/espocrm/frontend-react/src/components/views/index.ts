@@ -22,6 +22,9 @@ export {
   type RelatedPanelProps,
 } from './RelatedPanel';
 
+// Panels contributed by extension modules
+export { ExtensionSidePanels, type ExtensionSidePanelsProps } from './ExtensionSidePanels';
+
 // Existing relationship panels
 export { RelationshipPanel, RelationshipPanels } from './RelationshipPanel';
 
@@ -29,3 +32,6 @@ export { RelationshipPanel, RelationshipPanels } from './RelationshipPanel';
 export { StreamFeed } from './StreamFeed';
 export { KanbanBoard } from './KanbanBoard';
 export { CalendarView } from './CalendarView';
+
+// Map of list results
+export { RecordMapView } from './RecordMapView';
@@ -4,13 +4,14 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { ChevronRight, Home } from 'lucide-react';
-import { adminMenuGroups, getAllAdminItems } from '../config/adminPanels';
-import type { AdminBreadcrumb } from '../types';
+import { getAllAdminItems } from '../config/adminPanels';
+import { useAdminMenuGroups } from '../hooks/useAdminMenuGroups';
+import type { AdminBreadcrumb, AdminMenuGroup } from '../types';
 
 /**
  * Generate breadcrumbs from current path
  */
-function generateBreadcrumbs(pathname: string): AdminBreadcrumb[] {
+function generateBreadcrumbs(pathname: string, groups: AdminMenuGroup[]): AdminBreadcrumb[] {
   const breadcrumbs: AdminBreadcrumb[] = [
     { label: 'Admin', path: '/Admin' },
   ];
@@ -20,12 +21,12 @@ function generateBreadcrumbs(pathname: string): AdminBreadcrumb[] {
   }
 
   // Try to find matching menu item
-  const allItems = getAllAdminItems();
+  const allItems = getAllAdminItems(groups);
   const matchingItem = allItems.find((item) => pathname.startsWith(item.path));
 
   if (matchingItem) {
     // Add group breadcrumb
-    const group = adminMenuGroups.find((g) =>
+    const group = groups.find((g) =>
       g.items.some((i) => i.name === matchingItem.name)
     );
     if (group) {
@@ -58,7 +59,8 @@ function generateBreadcrumbs(pathname: string): AdminBreadcrumb[] {
 
 export function AdminHeader(): React.ReactElement {
   const location = useLocation();
-  const breadcrumbs = generateBreadcrumbs(location.pathname);
+  const groups = useAdminMenuGroups();
+  const breadcrumbs = generateBreadcrumbs(location.pathname, groups);
 
   // Don't render on admin index page
   if (location.pathname === '/Admin') {
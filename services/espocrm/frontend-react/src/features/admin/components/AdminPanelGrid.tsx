@@ -4,7 +4,8 @@
 import React, { useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { Search, Settings, Users, Palette, Mail, Globe, Database, Plug, ExternalLink } from 'lucide-react';
-import { adminMenuGroups, searchAdminItems } from '../config/adminPanels';
+import { searchAdminItems } from '../config/adminPanels';
+import { useAdminMenuGroups } from '../hooks/useAdminMenuGroups';
 import { useAdminStore } from '../store';
 import { cn } from '@/lib/utils/cn';
 
@@ -20,13 +21,14 @@ const iconMap: Record<string, React.ElementType> = {
 
 export function AdminPanelGrid(): React.ReactElement {
   const { searchQuery, setSearchQuery } = useAdminStore();
+  const groups = useAdminMenuGroups();
 
   const filteredItems = useMemo(() => {
     if (!searchQuery.trim()) {
       return null; // Show grouped view
     }
-    return searchAdminItems(searchQuery);
-  }, [searchQuery]);
+    return searchAdminItems(searchQuery, groups);
+  }, [searchQuery, groups]);
 
   return (
     <div className="max-w-6xl mx-auto">
@@ -81,7 +83,7 @@ export function AdminPanelGrid(): React.ReactElement {
       ) : (
         /* Grouped panel view */
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-          {adminMenuGroups.map((group) => {
+          {groups.map((group) => {
             const Icon = iconMap[group.icon ?? 'Settings'] ?? Settings;
             return (
               <div
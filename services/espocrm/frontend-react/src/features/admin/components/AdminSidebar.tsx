@@ -16,7 +16,7 @@ import {
   PanelLeftClose,
   PanelLeft,
 } from 'lucide-react';
-import { adminMenuGroups } from '../config/adminPanels';
+import { useAdminMenuGroups } from '../hooks/useAdminMenuGroups';
 import { useAdminStore } from '../store';
 import { cn } from '@/lib/utils/cn';
 
@@ -32,12 +32,12 @@ const iconMap: Record<string, React.ReactNode> = {
 
 export function AdminSidebar(): React.ReactElement {
   const { sidebarCollapsed, toggleSidebar } = useAdminStore();
-  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(
-    new Set(adminMenuGroups.map((g) => g.name))
-  );
+  const groups = useAdminMenuGroups();
+  // Track collapsed groups, so groups added by extensions start expanded
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(() => new Set());
 
   const toggleGroup = (groupName: string) => {
-    setExpandedGroups((prev) => {
+    setCollapsedGroups((prev) => {
       const next = new Set(prev);
       if (next.has(groupName)) {
         next.delete(groupName);
@@ -73,7 +73,7 @@ export function AdminSidebar(): React.ReactElement {
 
         {/* Navigation groups */}
         <nav className="flex-1 overflow-y-auto p-2">
-          {adminMenuGroups.map((group) => (
+          {groups.map((group) => (
             <div key={group.name} className="mb-2">
               {/* Group header */}
               <button
@@ -88,7 +88,7 @@ export function AdminSidebar(): React.ReactElement {
                 {!sidebarCollapsed && (
                   <>
                     <span className="flex-1 text-left">{group.label}</span>
-                    {expandedGroups.has(group.name) ? (
+                    {!collapsedGroups.has(group.name) ? (
                       <ChevronDown className="h-4 w-4" />
                     ) : (
                       <ChevronRight className="h-4 w-4" />
@@ -98,7 +98,7 @@ export function AdminSidebar(): React.ReactElement {
               </button>
 
               {/* Group items */}
-              {!sidebarCollapsed && expandedGroups.has(group.name) && (
+              {!sidebarCollapsed && !collapsedGroups.has(group.name) && (
                 <div className="mt-1 ml-4 space-y-1">
                   {group.items.map((item) => (
                     <NavLink
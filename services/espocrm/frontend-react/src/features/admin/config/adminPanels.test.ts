@@ -0,0 +1,55 @@
+/**
+ * Admin Panel Config Tests
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { adminMenuGroups, getAdminMenuGroups, getAllAdminItems } from './adminPanels';
+import { registerModule, clearAllRegistries } from '@/lib/extensions';
+
+describe('adminPanels', () => {
+  afterEach(() => {
+    clearAllRegistries();
+  });
+
+  it('returns the built-in groups when no extensions are registered', () => {
+    expect(getAdminMenuGroups()).toEqual(adminMenuGroups);
+  });
+
+  it('appends extension items to an existing group', async () => {
+    await registerModule({
+      name: 'ReportsModule',
+      adminPanels: [
+        {
+          group: 'customization',
+          items: [{ name: 'reportSettings', label: 'Report Settings', path: '/Admin/reportSettings' }],
+        },
+      ],
+    });
+
+    const customization = getAdminMenuGroups().find((group) => group.name === 'customization');
+    expect(customization?.items.at(-1)?.name).toBe('reportSettings');
+
+    // Built-in config is not mutated
+    const original = adminMenuGroups.find((group) => group.name === 'customization');
+    expect(original?.items.some((item) => item.name === 'reportSettings')).toBe(false);
+  });
+
+  it('creates a new group for unknown group names', async () => {
+    await registerModule({
+      name: 'ReportsModule',
+      adminPanels: [
+        {
+          group: 'reports',
+          label: 'Reports',
+          icon: 'Database',
+          items: [{ name: 'reportSettings', label: 'Report Settings', path: '/Admin/reportSettings' }],
+        },
+      ],
+    });
+
+    const groups = getAdminMenuGroups();
+    expect(groups.at(-1)).toEqual(
+      expect.objectContaining({ name: 'reports', label: 'Reports', icon: 'Database' })
+    );
+    expect(getAllAdminItems().find((item) => item.name === 'reportSettings')?.group).toBe('Reports');
+  });
+});
@@ -2,6 +2,7 @@
  * Admin panel definitions
  * Based on EspoCRM's adminPanel metadata structure
  */
+import { getAdminPanels } from '@/lib/extensions';
 import type { AdminMenuGroup } from '../types';
 
 export const adminMenuGroups: AdminMenuGroup[] = [
@@ -92,11 +93,37 @@ export const adminMenuGroups: AdminMenuGroup[] = [
   },
 ];
 
+/**
+ * Get admin menu groups including panels contributed by extension modules.
+ * Extension items join an existing group by name or form a new group.
+ */
+export function getAdminMenuGroups(): AdminMenuGroup[] {
+  const groups = adminMenuGroups.map((group) => ({ ...group, items: [...group.items] }));
+
+  for (const panel of getAdminPanels()) {
+    const existing = groups.find((group) => group.name === panel.group);
+    if (existing) {
+      existing.items.push(...panel.items);
+    } else {
+      groups.push({
+        name: panel.group,
+        label: panel.label ?? panel.group,
+        icon: panel.icon,
+        items: [...panel.items],
+      });
+    }
+  }
+
+  return groups;
+}
+
 /**
  * Get all admin menu items flattened
  */
-export function getAllAdminItems(): { name: string; label: string; path: string; group: string; description?: string }[] {
-  return adminMenuGroups.flatMap((group) =>
+export function getAllAdminItems(
+  groups: AdminMenuGroup[] = getAdminMenuGroups()
+): { name: string; label: string; path: string; group: string; description?: string }[] {
+  return groups.flatMap((group) =>
     group.items.map((item) => ({
       ...item,
       group: group.label,
@@ -107,13 +134,16 @@ export function getAllAdminItems(): { name: string; label: string; path: string;
 /**
  * Search admin items by query
  */
-export function searchAdminItems(query: string): ReturnType<typeof getAllAdminItems> {
+export function searchAdminItems(
+  query: string,
+  groups: AdminMenuGroup[] = getAdminMenuGroups()
+): ReturnType<typeof getAllAdminItems> {
   if (!query.trim()) {
-    return getAllAdminItems();
+    return getAllAdminItems(groups);
   }
 
   const lowerQuery = query.toLowerCase();
-  return getAllAdminItems().filter(
+  return getAllAdminItems(groups).filter(
     (item) =>
       item.label.toLowerCase().includes(lowerQuery) ||
       item.description?.toLowerCase().includes(lowerQuery) ||
@@ -0,0 +1,37 @@
+/**
+ * useAdminMenuGroups Tests
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useAdminMenuGroups } from './useAdminMenuGroups';
+import { registerModule, unregisterModule, clearAllRegistries } from '@/lib/extensions';
+
+describe('useAdminMenuGroups', () => {
+  afterEach(() => {
+    clearAllRegistries();
+  });
+
+  it('picks up admin panels registered after the first render', async () => {
+    const { result } = renderHook(() => useAdminMenuGroups());
+    expect(result.current.some((group) => group.name === 'reports')).toBe(false);
+
+    await act(async () => {
+      await registerModule({
+        name: 'ReportsModule',
+        adminPanels: [
+          {
+            group: 'reports',
+            label: 'Reports',
+            items: [{ name: 'reportSettings', label: 'Report Settings', path: '/Admin/reportSettings' }],
+          },
+        ],
+      });
+    });
+    expect(result.current.at(-1)?.name).toBe('reports');
+
+    act(() => {
+      unregisterModule('ReportsModule');
+    });
+    expect(result.current.some((group) => group.name === 'reports')).toBe(false);
+  });
+});
@@ -0,0 +1,17 @@
+/**
+ * useAdminMenuGroups Hook
+ *
+ * Admin menu groups including extension panels, recomputed when a module
+ * is registered, replaced or removed.
+ */
+import { useMemo } from 'react';
+import { useRegistryVersion } from '@/lib/extensions';
+import { getAdminMenuGroups } from '../config/adminPanels';
+import type { AdminMenuGroup } from '../types';
+
+export function useAdminMenuGroups(): AdminMenuGroup[] {
+  const registryVersion = useRegistryVersion();
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- recompute when the registry changes
+  return useMemo(() => getAdminMenuGroups(), [registryVersion]);
+}
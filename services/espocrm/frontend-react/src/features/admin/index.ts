@@ -4,3 +4,4 @@
 export * from './types';
 export * from './store';
 export * from './config/adminPanels';
+export * from './hooks/useAdminMenuGroups';
@@ -62,6 +62,19 @@ export function CurrencyPage(): React.ReactElement {
     handleChange('currencyList', currencyList.filter((c) => c !== currency));
   };
 
+  const baseCurrency = (values.baseCurrency as string) || (values.defaultCurrency as string) || '';
+  const currencyRates = (values.currencyRates as Record<string, number> | undefined) ?? {};
+
+  const setRate = (currency: string, rate: string) => {
+    const next = { ...currencyRates };
+    if (rate === '') {
+      delete next[currency];
+    } else {
+      next[currency] = parseFloat(rate);
+    }
+    handleChange('currencyRates', next);
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -213,6 +226,35 @@ export function CurrencyPage(): React.ReactElement {
             </div>
           </div>
         </div>
+
+        {/* Conversion Rates */}
+        {baseCurrency && currencyList.some((c) => c !== baseCurrency) && (
+          <div className="grid grid-cols-3 gap-4 items-start">
+            <label className="text-sm font-medium text-gray-700 pt-2">Conversion Rates</label>
+            <div className="col-span-2 space-y-2">
+              {currencyList
+                .filter((c) => c !== baseCurrency)
+                .map((currency) => (
+                  <div key={currency} className="flex items-center gap-2 text-sm">
+                    <span className="w-16">1 {currency} =</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      aria-label={`${currency} rate`}
+                      value={currencyRates[currency] ?? ''}
+                      onChange={(e) => setRate(currency, e.target.value)}
+                      className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-primary/20 focus:border-primary outline-none"
+                    />
+                    <span>{baseCurrency}</span>
+                  </div>
+                ))}
+              <p className="mt-1 text-xs text-gray-500">
+                Amounts are converted into the base currency with these rates
+              </p>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -145,6 +145,7 @@ describe('useAuthStore', () => {
         isAuthenticated: true,
       });
       localStorage.setItem('auth-token', 'test-token');
+      localStorage.setItem('recent-records-123-Account', '[{"id":"1","name":"Acme"}]');
 
       await useAuthStore.getState().logout();
 
@@ -153,6 +154,7 @@ describe('useAuthStore', () => {
       expect(state.token).toBeNull();
       expect(state.isAuthenticated).toBe(false);
       expect(localStorage.getItem('auth-token')).toBeNull();
+      expect(localStorage.getItem('recent-records-123-Account')).toBeNull();
     });
 
     it('should clear state even if logout API call fails', async () => {
@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { get, post, ApiError } from '@/api/client';
 import { API_ENDPOINTS } from '@/api/endpoints';
+import { clearRecentRecords } from '@/components/modals/recentRecords';
 import {
   type AuthStore,
   type User,
@@ -103,6 +104,7 @@ export const useAuthStore = create<AuthStore>()(
         } finally {
           localStorage.removeItem('auth-token');
           localStorage.removeItem('auth-is-token');
+          clearRecentRecords();
           set({
             user: null,
             token: null,
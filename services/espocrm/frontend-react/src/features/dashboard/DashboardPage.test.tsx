@@ -2,11 +2,12 @@
  * DashboardPage Tests
  */
 import React from 'react';
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { MemoryRouter } from 'react-router-dom';
 import DashboardPage from './DashboardPage';
+import { registerModule, clearAllRegistries, type DashletProps } from '@/lib/extensions';
 
 // Mock API client
 vi.mock('@/api/client', () => ({
@@ -270,4 +271,29 @@ describe('DashboardPage', () => {
       expect(container.querySelector('.animate-pulse')).toBeInTheDocument();
     });
   });
+
+  describe('extension dashlets', () => {
+    afterEach(() => {
+      clearAllRegistries();
+    });
+
+    it('renders dashlets registered by modules', async () => {
+      mockGet.mockResolvedValue({ total: 0, list: [] });
+      const SalesDashlet = ({ options }: DashletProps) => (
+        <div data-testid="sales-dashlet">Target: {String(options?.target)}</div>
+      );
+
+      await registerModule({
+        name: 'SalesModule',
+        dashlets: {
+          sales: { label: 'Sales Pipeline', component: SalesDashlet, options: { target: 100 } },
+        },
+      });
+
+      render(<DashboardPage />, { wrapper: createWrapper() });
+
+      expect(screen.getByText('Sales Pipeline')).toBeInTheDocument();
+      expect(await screen.findByTestId('sales-dashlet')).toHaveTextContent('Target: 100');
+    });
+  });
 });
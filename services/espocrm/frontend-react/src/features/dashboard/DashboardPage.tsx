@@ -1,7 +1,9 @@
+import { Suspense } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { get } from '@/api/client';
 import { useAuthStore } from '@/features/auth/store';
 import { useMetadata } from '@/lib/metadata/useMetadata';
+import { useExtensions, type DashletConfig } from '@/lib/extensions';
 import {
   Building2,
   Users,
@@ -16,6 +18,7 @@ import {
   type LucideIcon,
 } from 'lucide-react';
 import { cn } from '@/lib/utils/cn';
+import { parseDateTime, useDateTime, type DateTimeService } from '@/lib/datetime';
 
 interface ListResponse {
   total: number;
@@ -123,8 +126,11 @@ function getStreamAction(type: string): string {
   }
 }
 
-// Format time ago
-function formatTimeAgo(date: Date): string {
+// Format time ago; older than a week shows the day in the user's format
+function formatTimeAgo(value: string, dateTime: DateTimeService): string {
+  const date = parseDateTime(value);
+  if (!date) return '';
+
   const now = new Date();
   const diffMs = now.getTime() - date.getTime();
   const diffMin = Math.floor(diffMs / 1000 / 60);
@@ -135,11 +141,12 @@ function formatTimeAgo(date: Date): string {
   if (diffMin < 60) return `${diffMin}m ago`;
   if (diffHour < 24) return `${diffHour}h ago`;
   if (diffDay < 7) return `${diffDay}d ago`;
-  return date.toLocaleDateString();
+  return dateTime.formatDateTimeDay(date);
 }
 
 // Activity stream dashlet
 function ActivityStreamDashlet(): React.ReactElement {
+  const dateTime = useDateTime();
   const { data, isLoading } = useQuery({
     queryKey: ['globalStream'],
     queryFn: async () => {
@@ -199,7 +206,7 @@ function ActivityStreamDashlet(): React.ReactElement {
                     <p className="text-gray-600 truncate mt-0.5">{note.post}</p>
                   )}
                   <p className="text-gray-500 text-xs mt-0.5">
-                    {formatTimeAgo(new Date(note.createdAt))}
+                    {formatTimeAgo(note.createdAt, dateTime)}
                   </p>
                 </div>
               </li>
@@ -223,6 +230,7 @@ interface Task {
 }
 
 function TasksDashlet(): React.ReactElement {
+  const dateTime = useDateTime();
   const { data, isLoading, error } = useQuery({
     queryKey: ['tasks', 'myTasks'],
     queryFn: async () => {
@@ -274,7 +282,7 @@ function TasksDashlet(): React.ReactElement {
                   </a>
                   {task.dateEnd && (
                     <p className="text-xs text-gray-500">
-                      Due: {new Date(task.dateEnd).toLocaleDateString()}
+                      Due: {dateTime.formatDateTimeDay(task.dateEnd)}
                     </p>
                   )}
                 </div>
@@ -301,6 +309,24 @@ function TasksDashlet(): React.ReactElement {
   );
 }
 
+// Dashlet registered by an extension module
+function ExtensionDashlet({ config }: { config: DashletConfig }): React.ReactElement {
+  const Component = config.component;
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b">
+        <h3 className="font-medium text-gray-900">{config.label}</h3>
+      </div>
+      <div className="p-6">
+        <Suspense fallback={<div className="h-24 bg-gray-100 animate-pulse rounded" />}>
+          <Component options={config.options} />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
+
 // Entity configurations
 const ENTITY_DASHLETS = [
   { type: 'Account', title: 'Accounts', icon: Building2, color: 'border-blue-500' },
@@ -314,6 +340,7 @@ const ENTITY_DASHLETS = [
 // Main Dashboard component
 export default function DashboardPage(): React.ReactElement {
   const { user } = useAuthStore();
+  const { dashlets } = useExtensions();
 
   return (
     <div className="space-y-6">
@@ -344,6 +371,15 @@ export default function DashboardPage(): React.ReactElement {
         <ActivityStreamDashlet />
       </div>
 
+      {/* Dashlets from extension modules */}
+      {dashlets.size > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {Array.from(dashlets.entries()).map(([key, config]) => (
+            <ExtensionDashlet key={key} config={config} />
+          ))}
+        </div>
+      )}
+
       {/* Quick access notice */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <div className="flex items-start gap-3">
@@ -0,0 +1,138 @@
+/**
+ * DynamicLogicDebugger Tests
+ */
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { useAuthStore } from '@/features/auth/store';
+import type { DetailLayout } from '@/lib/layout/types';
+
+vi.mock('@/lib/metadata/useMetadata', () => ({
+  useMetadata: () => ({
+    metadata: {
+      clientDefs: {
+        Opportunity: {
+          dynamicLogic: {
+            fields: {
+              lossReason: {
+                visible: {
+                  type: 'and',
+                  value: [
+                    { type: 'equals', attribute: 'stage', value: 'Closed Lost' },
+                    {
+                      type: 'or',
+                      value: [{ type: 'isNotEmpty', attribute: 'amount' }],
+                    },
+                  ],
+                },
+              },
+            },
+          },
+        },
+        // Meeting.json clientDefs, stored in the conditionGroup format
+        Meeting: {
+          dynamicLogic: {
+            fields: {
+              duration: {
+                readOnly: {
+                  conditionGroup: [{ type: 'isTrue', attribute: 'isAllDay' }],
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  }),
+}));
+
+import { DynamicLogicDebugger } from './DynamicLogicDebugger';
+
+function setAdmin(isAdmin: boolean): void {
+  useAuthStore.setState({
+    user: { id: '1', userName: 'admin', type: isAdmin ? 'admin' : 'regular', isAdmin },
+  } as Partial<ReturnType<typeof useAuthStore.getState>>);
+}
+
+describe('DynamicLogicDebugger', () => {
+  beforeEach(() => {
+    setAdmin(true);
+  });
+
+  it('renders nothing for regular users', () => {
+    setAdmin(false);
+    const { container } = render(
+      <DynamicLogicDebugger entityType="Opportunity" data={{}} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('shows each condition with its actual value and result', () => {
+    render(
+      <DynamicLogicDebugger
+        entityType="Opportunity"
+        data={{ stage: 'Prospecting', amount: 500 }}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /dynamic logic/i }));
+
+    const field = screen.getByTestId('logic-lossReason');
+    expect(within(field).getByText('visible')).toBeInTheDocument();
+    expect(within(field).getByText('stage equals "Closed Lost"')).toBeInTheDocument();
+    expect(within(field).getByText('(actual: "Prospecting")')).toBeInTheDocument();
+    expect(within(field).getByText('amount isNotEmpty')).toBeInTheDocument();
+    // Rule, AND group and equals are false; OR group and isNotEmpty are true
+    expect(within(field).getAllByText('false')).toHaveLength(3);
+    expect(within(field).getAllByText('true')).toHaveLength(2);
+  });
+
+  it('traces rules stored in the conditionGroup format', () => {
+    render(<DynamicLogicDebugger entityType="Meeting" data={{ isAllDay: true }} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /dynamic logic/i }));
+
+    const field = screen.getByTestId('logic-duration');
+    expect(within(field).getByText('readOnly')).toBeInTheDocument();
+    expect(within(field).getByText('isAllDay isTrue')).toBeInTheDocument();
+    expect(within(field).getByText('(actual: true)')).toBeInTheDocument();
+  });
+
+  it('includes panel conditions from the layout', () => {
+    const layout: DetailLayout = [
+      {
+        name: 'risk',
+        style: 'danger',
+        dynamicLogicStyled: {
+          conditionGroup: [{ type: 'lessThan', attribute: 'probability', value: 20 }],
+        },
+        rows: [],
+      },
+    ];
+
+    render(
+      <DynamicLogicDebugger
+        entityType="Opportunity"
+        data={{ probability: 10 }}
+        layout={layout}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /dynamic logic/i }));
+
+    const panel = screen.getByTestId('logic-risk');
+    expect(within(panel).getByText('styled')).toBeInTheDocument();
+    expect(within(panel).getByText('(actual: 10)')).toBeInTheDocument();
+  });
+
+  it('can be closed', () => {
+    render(<DynamicLogicDebugger entityType="Opportunity" data={{}} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /dynamic logic/i }));
+    expect(screen.getByRole('dialog')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close' }));
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+});
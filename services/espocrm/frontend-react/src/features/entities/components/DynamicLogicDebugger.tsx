@@ -0,0 +1,216 @@
+/**
+ * DynamicLogicDebugger - Admin-only overlay explaining dynamic logic
+ *
+ * Lists every field and panel of the entity that has dynamic logic, with the
+ * condition tree of each rule, the attribute values found in the record and
+ * whether each sub-condition matched.
+ */
+import React, { useMemo, useState } from 'react';
+import { Bug, X } from 'lucide-react';
+import { useAuthStore } from '@/features/auth/store';
+import { useDynamicLogicTrace, type ConditionTrace } from '@/lib/dynamicLogic';
+import { getLayoutPanelLogic } from '@/lib/layout/panelLogic';
+import type { DetailLayout } from '@/lib/layout/types';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils/cn';
+
+export interface DynamicLogicDebuggerProps {
+  /** Entity type */
+  entityType: string;
+  /** Current record or form values */
+  data: Record<string, unknown>;
+  /** Layout whose panel conditions should be included */
+  layout?: DetailLayout;
+}
+
+/**
+ * Toggle button and overlay, rendered for administrators only
+ */
+export function DynamicLogicDebugger({
+  entityType,
+  data,
+  layout,
+}: DynamicLogicDebuggerProps): React.ReactElement | null {
+  const { user } = useAuthStore();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!user?.isAdmin) {
+    return null;
+  }
+
+  if (!isOpen) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        className="fixed bottom-4 right-4 z-40 shadow-md"
+        onClick={() => setIsOpen(true)}
+      >
+        <Bug className="h-4 w-4 mr-2" />
+        Dynamic Logic
+      </Button>
+    );
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Dynamic logic debugger"
+      className="fixed bottom-4 right-4 z-40 flex max-h-[70vh] w-[28rem] flex-col rounded-lg border bg-background shadow-lg"
+    >
+      <div className="flex items-center justify-between border-b px-4 py-2">
+        <h3 className="text-sm font-semibold">Dynamic Logic · {entityType}</h3>
+        <Button variant="ghost" size="sm" onClick={() => setIsOpen(false)} aria-label="Close">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="overflow-y-auto p-4">
+        <TraceList entityType={entityType} data={data} layout={layout} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Evaluated rules per field and panel
+ */
+function TraceList({ entityType, data, layout }: DynamicLogicDebuggerProps): React.ReactElement {
+  const panels = useMemo(() => (layout ? getLayoutPanelLogic(layout) : undefined), [layout]);
+  const trace = useDynamicLogicTrace({ entityType, data, panels });
+
+  const fieldEntries = Object.entries(trace.fields);
+  const panelEntries = Object.entries(trace.panels);
+
+  if (fieldEntries.length === 0 && panelEntries.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No dynamic logic is defined for {entityType}.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4 text-xs">
+      {fieldEntries.length > 0 && (
+        <section>
+          <h4 className="mb-2 text-sm font-medium">Fields</h4>
+          <div className="space-y-3">
+            {fieldEntries.map(([fieldName, fieldTrace]) => (
+              <TraceItem
+                key={fieldName}
+                name={fieldName}
+                rules={{
+                  visible: fieldTrace.visible,
+                  required: fieldTrace.required,
+                  readOnly: fieldTrace.readOnly,
+                  invalid: fieldTrace.invalid,
+                  ...Object.fromEntries(
+                    (fieldTrace.options ?? []).map((item, index) => [
+                      `options #${index + 1} "${item.optionList.join(', ')}"`,
+                      item.trace,
+                    ])
+                  ),
+                }}
+              />
+            ))}
+          </div>
+        </section>
+      )}
+      {panelEntries.length > 0 && (
+        <section>
+          <h4 className="mb-2 text-sm font-medium">Panels</h4>
+          <div className="space-y-3">
+            {panelEntries.map(([panelName, panelTrace]) => (
+              <TraceItem
+                key={panelName}
+                name={panelName}
+                rules={{ visible: panelTrace.visible, styled: panelTrace.styled }}
+              />
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
+
+interface TraceItemProps {
+  name: string;
+  rules: Record<string, ConditionTrace | undefined>;
+}
+
+/**
+ * A field or panel with its evaluated rules
+ */
+function TraceItem({ name, rules }: TraceItemProps): React.ReactElement {
+  return (
+    <div className="rounded-md border p-2" data-testid={`logic-${name}`}>
+      <div className="mb-1 font-mono font-semibold">{name}</div>
+      {Object.entries(rules).map(([rule, trace]) =>
+        trace ? (
+          <div key={rule} className="mt-1">
+            <div className="flex items-center gap-2">
+              <span className="text-muted-foreground">{rule}</span>
+              <ResultBadge result={trace.result} />
+            </div>
+            <ul className="mt-1">
+              <TraceNode trace={trace} />
+            </ul>
+          </div>
+        ) : null
+      )}
+    </div>
+  );
+}
+
+/**
+ * A condition or condition group with its nested conditions
+ */
+function TraceNode({ trace }: { trace: ConditionTrace }): React.ReactElement {
+  if (trace.children) {
+    return (
+      <li>
+        <div className="flex items-center gap-2">
+          <ResultBadge result={trace.result} />
+          <span className="font-mono uppercase">{trace.type}</span>
+        </div>
+        <ul className="ml-2 border-l pl-3">
+          {trace.children.map((child, idx) => (
+            <TraceNode key={idx} trace={child} />
+          ))}
+        </ul>
+      </li>
+    );
+  }
+
+  return (
+    <li className="flex flex-wrap items-center gap-2 py-0.5">
+      <ResultBadge result={trace.result} />
+      <span className="font-mono">
+        {trace.attribute} {trace.type}
+        {trace.expected !== undefined && ` ${formatValue(trace.expected)}`}
+      </span>
+      <span className="text-muted-foreground">(actual: {formatValue(trace.actual)})</span>
+    </li>
+  );
+}
+
+function ResultBadge({ result }: { result: boolean }): React.ReactElement {
+  return (
+    <span
+      className={cn(
+        'rounded px-1.5 py-0.5 font-mono text-[10px] font-semibold',
+        result ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+      )}
+    >
+      {result ? 'true' : 'false'}
+    </span>
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  return JSON.stringify(value);
+}
+
+export default DynamicLogicDebugger;
@@ -73,8 +73,15 @@ vi.mock('@/lib/validation', () => ({
   useFormValidation: () => ({
     validate: () => ({ isValid: true, errors: {} }),
     validateField: () => null,
+    validateFieldAsync: () => undefined,
+    waitForAsyncValidation: () => Promise.resolve({}),
+    getDependentFields: () => [],
+    fieldStatus: {},
+    asyncErrors: {},
+    mapServerErrors: () => null,
     isReady: true,
   }),
+  isServerValidationError: () => false,
 }));
 
 vi.mock('@/fields', () => ({
@@ -214,6 +221,19 @@ describe('RecordCreate', () => {
       });
     });
 
+    it('should prefill attributes passed in the navigation state', async () => {
+      const queryClient = new QueryClient();
+      render(
+        <QueryClientProvider client={queryClient}>
+          <MemoryRouter initialEntries={[{ pathname: '/Account/create', state: { attributes: { name: 'Prefilled' } } }]}>
+            <RecordCreate entityType="Account" />
+          </MemoryRouter>
+        </QueryClientProvider>
+      );
+
+      expect(await screen.findByTestId('name-input')).toHaveValue('Prefilled');
+    });
+
     it('should navigate to view page after successful create', async () => {
       render(<RecordCreate entityType="Account" />, { wrapper: createWrapper() });
 
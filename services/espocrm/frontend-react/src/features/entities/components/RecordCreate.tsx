@@ -1,11 +1,13 @@
-import React, { useState, useMemo, useCallback } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import React, { useMemo, useCallback, useEffect } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { ArrowLeft, Save, X } from 'lucide-react';
 import { post } from '@/api/client';
 import { useMetadata } from '@/lib/metadata/useMetadata';
 import { useDetailLayout, getDefaultDetailLayout, LayoutRenderer } from '@/lib/layout';
-import { useFormValidation } from '@/lib/validation';
+import { isServerValidationError } from '@/lib/validation';
+import { emit, emitBeforeSave } from '@/lib/extensions';
+import { useRecordForm, type RecordFormChange } from '@/hooks/useRecordForm';
 import { initializeFieldTypes } from '@/fields';
 import { Button } from '@/components/ui/button';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
@@ -26,11 +28,10 @@ export function RecordCreate({
   className,
 }: RecordCreateProps): React.ReactElement {
   const navigate = useNavigate();
+  const location = useLocation();
   const queryClient = useQueryClient();
   const { metadata, isLoading: metadataLoading } = useMetadata();
   const { layout: detailLayout, isLoading: layoutLoading } = useDetailLayout(entityType);
-  const [formData, setFormData] = useState<Record<string, unknown>>({});
-  const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
 
   // Get field definitions from metadata
   const fieldDefs = useMemo(() => {
@@ -42,14 +43,8 @@ export function RecordCreate({
     return typedDefs;
   }, [metadata, entityType]);
 
-  // Use Zod-based form validation from metadata
-  const { validate: zodValidate, validateField, isReady: validationReady } = useFormValidation(
-    entityType,
-    {
-      skipReadOnly: true,
-      excludeFields: ['id', 'deleted', 'createdAt', 'modifiedAt', 'createdBy', 'modifiedBy'],
-    }
-  );
+  // Attributes passed in the navigation state (e.g. by the email compose action)
+  const prefill = (location.state as { attributes?: Record<string, unknown> } | null)?.attributes;
 
   // Compute default values
   const defaultValues = useMemo(() => {
@@ -59,13 +54,32 @@ export function RecordCreate({
         defaults[key] = fieldDef.default;
       }
     }
-    return defaults;
-  }, [fieldDefs]);
+    return { ...defaults, ...prefill };
+  }, [fieldDefs, prefill]);
+
+  const handleFieldChange = useCallback(
+    ({ field, value, previousValue, attributes }: RecordFormChange): void => {
+      emit('fieldChange', { entityType, field, value, previousValue, attributes });
+    },
+    [entityType]
+  );
 
-  // Merge defaults with user-edited form data
-  const mergedFormData = useMemo(() => {
-    return { ...defaultValues, ...formData };
-  }, [defaultValues, formData]);
+  // Defaults with the user's changes applied
+  const {
+    formData,
+    handleChange,
+    handleSave,
+    handleSaveError,
+    fieldErrors,
+    fieldStatus,
+    isCheckingFields,
+  } = useRecordForm(entityType, {
+    initialData: defaultValues,
+    fieldDefs,
+    onFieldChange: handleFieldChange,
+    skipReadOnly: true,
+    excludeFields: ['id', 'deleted', 'createdAt', 'modifiedAt', 'createdBy', 'modifiedBy'],
+  });
 
   // Get layout or generate default
   const layout = useMemo(() => {
@@ -75,69 +89,37 @@ export function RecordCreate({
     return getDefaultDetailLayout(fieldDefs);
   }, [detailLayout, fieldDefs]);
 
+  const formReady = !metadataLoading && !layoutLoading;
+  useEffect(() => {
+    if (formReady) {
+      emit('viewRendered', { entityType, viewType: 'create' });
+    }
+  }, [entityType, formReady]);
+
   // Create mutation
   const createMutation = useMutation({
     mutationFn: async (data: Record<string, unknown>) => {
-      const response = await post<Record<string, unknown>>(`/${entityType}`, data);
+      const beforeSave = await emitBeforeSave({ entityType, isNew: true, attributes: data });
+      if (beforeSave.vetoed) {
+        throw new Error(beforeSave.reason ?? 'Save was cancelled');
+      }
+
+      const response = await post<Record<string, unknown>>(`/${entityType}`, beforeSave.attributes);
+      emit('afterSave', {
+        entityType,
+        recordId: response.id as string | undefined,
+        isNew: true,
+        attributes: response,
+      });
       return response;
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['entityList', entityType] });
       navigate(`/${entityType}/view/${data.id}`);
     },
+    onError: (error) => handleSaveError(error),
   });
 
-  // Handle field change with real-time validation
-  const handleChange = useCallback((field: string, value: unknown): void => {
-    const updatedFormData = { ...defaultValues, ...formData, [field]: value };
-    setFormData((prev) => ({ ...prev, [field]: value }));
-
-    // Validate the field on change
-    if (validationReady) {
-      const fieldError = validateField(field, value, updatedFormData);
-      setValidationErrors((prev) => {
-        if (fieldError) {
-          return { ...prev, [field]: fieldError };
-        } else {
-          const next = { ...prev };
-          delete next[field];
-          return next;
-        }
-      });
-    }
-  }, [defaultValues, formData, validateField, validationReady]);
-
-  // Validate form using Zod schemas
-  const validate = useCallback((): boolean => {
-    if (!validationReady) {
-      // Fallback to basic required check if validation not ready
-      const errors: Record<string, string> = {};
-      for (const [fieldName, fieldDef] of Object.entries(fieldDefs)) {
-        if (fieldDef.required) {
-          const value = mergedFormData[fieldName];
-          if (value === null || value === undefined || value === '') {
-            errors[fieldName] = `${formatFieldName(fieldName)} is required`;
-          }
-        }
-      }
-      setValidationErrors(errors);
-      return Object.keys(errors).length === 0;
-    }
-
-    // Use comprehensive Zod validation
-    const result = zodValidate(mergedFormData);
-    setValidationErrors(result.errors);
-    return result.isValid;
-  }, [validationReady, zodValidate, mergedFormData, fieldDefs]);
-
-  // Handle save
-  const handleSave = (): void => {
-    if (!validate()) {
-      return;
-    }
-    createMutation.mutate(mergedFormData);
-  };
-
   if (metadataLoading || layoutLoading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -170,27 +152,27 @@ export function RecordCreate({
             </Button>
           </Link>
           <Button
-            onClick={handleSave}
-            disabled={createMutation.isPending}
+            onClick={() => handleSave(createMutation.mutate)}
+            disabled={createMutation.isPending || isCheckingFields}
           >
             <Save className="h-4 w-4 mr-2" />
-            {createMutation.isPending ? 'Creating...' : 'Create'}
+            {createMutation.isPending ? 'Creating...' : isCheckingFields ? 'Checking...' : 'Create'}
           </Button>
         </div>
       </div>
 
       {/* Error display */}
-      {createMutation.error && (
+      {createMutation.error && !isServerValidationError(createMutation.error) && (
         <div className="rounded-lg border border-destructive bg-destructive/10 p-4 text-destructive">
           Error creating record: {createMutation.error.message}
         </div>
       )}
 
       {/* Validation errors */}
-      {Object.keys(validationErrors).length > 0 && (
+      {Object.keys(fieldErrors).length > 0 && (
         <div className="rounded-lg border border-destructive bg-destructive/10 p-4">
           <ul className="list-disc list-inside text-destructive text-sm">
-            {Object.values(validationErrors).map((error, idx) => (
+            {Object.values(fieldErrors).map((error, idx) => (
               <li key={idx}>{error}</li>
             ))}
           </ul>
@@ -200,7 +182,7 @@ export function RecordCreate({
       {/* Duplicate detection */}
       <DuplicateCheck
         entityType={entityType}
-        formData={mergedFormData}
+        formData={formData}
         onSelectDuplicate={(record) => {
           // Navigate to the existing record
           navigate(`/${entityType}/view/${record.id}`);
@@ -215,18 +197,13 @@ export function RecordCreate({
         record={{}}
         entityType={entityType}
         mode="edit"
-        formData={mergedFormData}
+        formData={formData}
         onChange={handleChange}
+        errors={fieldErrors}
+        fieldStatus={fieldStatus}
       />
     </div>
   );
 }
 
-function formatFieldName(name: string): string {
-  return name
-    .replace(/([A-Z])/g, ' $1')
-    .replace(/^./, (str) => str.toUpperCase())
-    .trim();
-}
-
 export default RecordCreate;
@@ -2,13 +2,14 @@
  * RecordDetail Tests
  */
 import React from 'react';
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import { MemoryRouter } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 
 // Mock all external dependencies
-vi.mock('@/api/client', () => ({
+vi.mock('@/api/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/api/client')>()),
   get: vi.fn(),
   del: vi.fn(),
   put: vi.fn(),
@@ -23,6 +24,7 @@ vi.mock('@/lib/metadata/useMetadata', () => ({
             name: { type: 'varchar' },
             website: { type: 'url' },
             description: { type: 'text' },
+            contacts: { type: 'linkMultiple', entity: 'Contact', columns: { role: 'accountRole' } },
           },
         },
       },
@@ -31,6 +33,11 @@ vi.mock('@/lib/metadata/useMetadata', () => ({
   }),
 }));
 
+// Props the mocked layout renderer received
+const layoutProps = vi.hoisted(() => ({
+  current: {} as { onInlineEditSave?: (field: string, value: unknown) => Promise<void> },
+}));
+
 vi.mock('@/lib/layout', () => ({
   useDetailLayout: () => ({
     layout: [
@@ -45,16 +52,20 @@ vi.mock('@/lib/layout', () => ({
     isLoading: false,
   }),
   getDefaultDetailLayout: () => [],
-  LayoutRenderer: ({ mode }: { mode: string }) => (
-    <div data-testid="layout-renderer" data-mode={mode}>
-      Layout Content
-    </div>
-  ),
+  LayoutRenderer: (props: { mode: string; onInlineEditSave?: (field: string, value: unknown) => Promise<void> }) => {
+    layoutProps.current = props;
+    return (
+      <div data-testid="layout-renderer" data-mode={props.mode}>
+        Layout Content
+      </div>
+    );
+  },
 }));
 
 vi.mock('@/lib/acl', () => ({
   useAcl: () => ({
-    checkModel: vi.fn().mockReturnValue(true),
+    // Everything is allowed except streaming, used for extension action ACL tests
+    checkModel: vi.fn((_entityType: string, _record: unknown, action: string) => action !== 'stream'),
   }),
 }));
 
@@ -67,11 +78,13 @@ vi.mock('@/components/views', () => ({
   StreamFeed: () => <div data-testid="stream-feed">Stream</div>,
   ActivitiesPanel: () => <div data-testid="activities-panel">Activities</div>,
   HistoryPanel: () => <div data-testid="history-panel">History</div>,
+  ExtensionSidePanels: () => <div data-testid="extension-side-panels">Extension Panels</div>,
 }));
 
 // Import after mocks
 import { RecordDetail } from './RecordDetail';
 import { get, del, put } from '@/api/client';
+import { registerModule, subscribe, clearAllRegistries } from '@/lib/extensions';
 
 const mockGet = vi.mocked(get);
 const mockDel = vi.mocked(del);
@@ -242,6 +255,82 @@ describe('RecordDetail', () => {
     });
   });
 
+  describe('extension actions', () => {
+    afterEach(() => {
+      clearAllRegistries();
+    });
+
+    it('should render registered detail actions and call their handler', async () => {
+      const handler = vi.fn();
+      await registerModule({
+        name: 'ActionModule',
+        actions: {
+          Account: [{ label: 'Sync to ERP', handler }],
+        },
+      });
+
+      render(<RecordDetail entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(screen.getByText('Acme Corporation')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByText('Sync to ERP'));
+
+      await waitFor(() => {
+        expect(handler).toHaveBeenCalledWith({
+          entityType: 'Account',
+          recordId: '123',
+          data: mockRecord,
+        });
+      });
+    });
+
+    it('should hide actions the user lacks ACL access for', async () => {
+      await registerModule({
+        name: 'AclModule',
+        actions: {
+          Account: [
+            { label: 'Allowed Action', handler: vi.fn(), acl: 'edit' },
+            { label: 'Denied Action', handler: vi.fn(), acl: 'stream' },
+          ],
+        },
+      });
+
+      render(<RecordDetail entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(screen.getByText('Acme Corporation')).toBeInTheDocument();
+      });
+
+      expect(screen.getByText('Allowed Action')).toBeInTheDocument();
+      expect(screen.queryByText('Denied Action')).not.toBeInTheDocument();
+    });
+
+    it('should not render actions hidden from the detail view', async () => {
+      await registerModule({
+        name: 'ListOnlyModule',
+        actions: {
+          Account: [{ label: 'List Only', handler: vi.fn(), showInDetail: false }],
+        },
+      });
+
+      render(<RecordDetail entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(screen.getByText('Acme Corporation')).toBeInTheDocument();
+      });
+
+      expect(screen.queryByText('List Only')).not.toBeInTheDocument();
+    });
+  });
+
   describe('delete confirmation', () => {
     it('should show delete confirmation modal when Delete is clicked', async () => {
       render(<RecordDetail entityType="Account" recordId="123" />, {
@@ -340,6 +429,70 @@ describe('RecordDetail', () => {
     });
   });
 
+  describe('inline edit', () => {
+    afterEach(() => {
+      clearAllRegistries();
+    });
+
+    it('should save the ids, names and relationship columns of the links', async () => {
+      render(<RecordDetail entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(screen.getByText('Acme Corporation')).toBeInTheDocument();
+      });
+
+      const contacts = [{ id: 'c1', name: 'Jane Smith', columns: { role: 'Influencer' } }];
+      await act(async () => {
+        await layoutProps.current.onInlineEditSave?.('contacts', contacts);
+      });
+
+      expect(mockPut).toHaveBeenCalledWith('/Account/123', {
+        contacts,
+        contactsIds: ['c1'],
+        contactsNames: { c1: 'Jane Smith' },
+        contactsColumns: { c1: { role: 'Influencer' } },
+      });
+    });
+
+    it('should reject with the veto reason of a beforeSave handler', async () => {
+      subscribe('beforeSave', (event) => event.veto('Name cannot be changed'));
+
+      render(<RecordDetail entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(screen.getByText('Acme Corporation')).toBeInTheDocument();
+      });
+
+      await act(async () => {
+        await expect(layoutProps.current.onInlineEditSave?.('name', 'Acme Inc')).rejects.toThrow(
+          'Name cannot be changed'
+        );
+      });
+
+      expect(mockPut).not.toHaveBeenCalled();
+    });
+
+    it('should reject with the error of a failed save', async () => {
+      mockPut.mockRejectedValue(new Error('Network error'));
+
+      render(<RecordDetail entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(screen.getByText('Acme Corporation')).toBeInTheDocument();
+      });
+
+      await act(async () => {
+        await expect(layoutProps.current.onInlineEditSave?.('name', 'Acme Inc')).rejects.toThrow('Network error');
+      });
+    });
+  });
+
   describe('side panels', () => {
     it('should render relationship panels', async () => {
       render(<RecordDetail entityType="Account" recordId="123" />, {
@@ -388,6 +541,18 @@ describe('RecordDetail', () => {
 
       expect(screen.getByTestId('history-panel')).toBeInTheDocument();
     });
+
+    it('should render extension side panels', async () => {
+      render(<RecordDetail entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(screen.getByText('Acme Corporation')).toBeInTheDocument();
+      });
+
+      expect(screen.getByTestId('extension-side-panels')).toBeInTheDocument();
+    });
   });
 
   describe('system information', () => {
@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { ArrowLeft, Pencil, Trash2 } from 'lucide-react';
@@ -7,6 +7,8 @@ import { useMetadata } from '@/lib/metadata/useMetadata';
 import { useDetailLayout, getDefaultDetailLayout, LayoutRenderer } from '@/lib/layout';
 import { initializeFieldTypes } from '@/fields';
 import { useAcl } from '@/lib/acl';
+import { useFormValidation } from '@/lib/validation';
+import { useExtensions, emit, emitBeforeSave, type ActionHandler } from '@/lib/extensions';
 import { Button } from '@/components/ui/button';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import {
@@ -14,8 +16,12 @@ import {
   StreamFeed,
   ActivitiesPanel,
   HistoryPanel,
+  ExtensionSidePanels,
 } from '@/components/views';
+import { useDateTime } from '@/lib/datetime';
+import { getAttributeSyncChanges } from '@/lib/utils/attributeSync';
 import { cn } from '@/lib/utils/cn';
+import { DynamicLogicDebugger } from './DynamicLogicDebugger';
 import type { FieldDef } from '@/fields/types';
 
 // Initialize field types
@@ -35,10 +41,14 @@ export function RecordDetail({
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const { metadata } = useMetadata();
+  const dateTime = useDateTime();
   const { checkModel } = useAcl();
   const { layout: detailLayout, isLoading: layoutLoading } = useDetailLayout(entityType);
+  const { detailActions } = useExtensions({ entityType });
+  const { mapServerErrors } = useFormValidation(entityType);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [savingFields, setSavingFields] = useState<Set<string>>(new Set());
+  const [runningAction, setRunningAction] = useState<string | null>(null);
 
   // Get field definitions from metadata
   const fieldDefs = useMemo(() => {
@@ -69,10 +79,18 @@ export function RecordDetail({
     enabled: !!entityType && !!recordId,
   });
 
+  const recordLoaded = !!record;
+  useEffect(() => {
+    if (recordLoaded) {
+      emit('viewRendered', { entityType, recordId, viewType: 'detail' });
+    }
+  }, [entityType, recordId, recordLoaded]);
+
   // Delete mutation
   const deleteMutation = useMutation({
     mutationFn: async () => {
       await del(`/${entityType}/${recordId}`);
+      emit('afterDelete', { entityType, recordId });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['entityList', entityType] });
@@ -86,17 +104,35 @@ export function RecordDetail({
       setSavingFields((prev) => new Set(prev).add(fieldName));
 
       try {
+        // Save the attributes tied to the field along with it
+        const attributes = {
+          [fieldName]: value,
+          ...getAttributeSyncChanges(fieldDefs, fieldName, { ...record, [fieldName]: value }),
+        };
+        const beforeSave = await emitBeforeSave({
+          entityType,
+          recordId,
+          isNew: false,
+          attributes,
+        });
+        if (beforeSave.vetoed) {
+          throw new Error(beforeSave.reason ?? 'Save was cancelled');
+        }
+
         const response = await put<Record<string, unknown>>(
           `/${entityType}/${recordId}`,
-          { [fieldName]: value }
+          beforeSave.attributes
         );
+        emit('afterSave', { entityType, recordId, isNew: false, attributes: response });
 
         // Update the cache with new data
         queryClient.setQueryData(['entity', entityType, recordId], response);
         queryClient.invalidateQueries({ queryKey: ['entityList', entityType] });
       } catch (error) {
-        console.error('Failed to save field:', fieldName, error);
-        // Could show a toast notification here
+        // The inline editor stays open and shows the server validation
+        // message, veto reason or save error
+        const serverError = mapServerErrors(error)?.[fieldName];
+        throw serverError ? new Error(serverError) : error;
       } finally {
         setSavingFields((prev) => {
           const next = new Set(prev);
@@ -105,12 +141,30 @@ export function RecordDetail({
         });
       }
     },
-    [entityType, recordId, queryClient]
+    [entityType, recordId, record, fieldDefs, queryClient, mapServerErrors]
+  );
+
+  // Run an action registered by an extension module
+  const handleCustomAction = useCallback(
+    async (action: ActionHandler) => {
+      setRunningAction(action.label);
+      try {
+        await action.handler({ entityType, recordId, data: record });
+      } catch (error) {
+        console.error('Failed to run action:', action.label, error);
+      } finally {
+        setRunningAction(null);
+      }
+    },
+    [entityType, recordId, record]
   );
 
   // Check permissions
   const canEdit = record ? checkModel(entityType, record, 'edit') : false;
   const canDelete = record ? checkModel(entityType, record, 'delete') : false;
+  const allowedActions = record
+    ? detailActions.filter((action) => !action.acl || checkModel(entityType, record, action.acl))
+    : [];
 
   if (layoutLoading || isLoading) {
     return (
@@ -155,6 +209,16 @@ export function RecordDetail({
           </div>
         </div>
         <div className="flex items-center gap-2">
+          {allowedActions.map((action) => (
+            <Button
+              key={action.label}
+              variant="outline"
+              onClick={() => handleCustomAction(action)}
+              disabled={runningAction !== null}
+            >
+              {action.label}
+            </Button>
+          ))}
           {canEdit && (
             <Link to={`/${entityType}/edit/${recordId}`}>
               <Button variant="outline">
@@ -220,6 +284,11 @@ export function RecordDetail({
             recordId={recordId}
             defaultCollapsed
           />
+          <ExtensionSidePanels
+            entityType={entityType}
+            recordId={recordId}
+            data={record}
+          />
         </div>
       </div>
 
@@ -235,7 +304,7 @@ export function RecordDetail({
             <div>
               <span className="text-muted-foreground">Created:</span>
               <span className="ml-2">
-                {new Date(record.createdAt).toLocaleString()}
+                {dateTime.formatDateTime(record.createdAt)}
               </span>
             </div>
           )}
@@ -243,7 +312,7 @@ export function RecordDetail({
             <div>
               <span className="text-muted-foreground">Modified:</span>
               <span className="ml-2">
-                {new Date(record.modifiedAt).toLocaleString()}
+                {dateTime.formatDateTime(record.modifiedAt)}
               </span>
             </div>
           )}
@@ -282,6 +351,9 @@ export function RecordDetail({
           </div>
         </div>
       )}
+
+      {/* Dynamic logic debugger (admin only) */}
+      <DynamicLogicDebugger entityType={entityType} data={record} layout={layout} />
     </div>
   );
 }
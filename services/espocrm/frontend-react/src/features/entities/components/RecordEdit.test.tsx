@@ -22,6 +22,13 @@ vi.mock('@/lib/metadata/useMetadata', () => ({
             name: { type: 'varchar', required: true },
             website: { type: 'url' },
             description: { type: 'text' },
+            dateStart: { type: 'datetime' },
+            dateEnd: { type: 'datetime' },
+            duration: { type: 'duration' },
+            contacts: { type: 'linkMultiple', entity: 'Contact', columns: { role: 'accountRole' } },
+            emailAddress: { type: 'email' },
+            phoneNumber: { type: 'phone', typeList: ['Office', 'Mobile'] },
+            billingAddress: { type: 'address' },
           },
         },
       },
@@ -60,6 +67,60 @@ vi.mock('@/lib/layout', () => ({
         onChange={(e) => onChange?.('name', e.target.value)}
         placeholder="Name"
       />
+      <input
+        data-testid="dateEnd-input"
+        value={(formData?.dateEnd as string) ?? ''}
+        onChange={(e) => onChange?.('dateEnd', e.target.value)}
+      />
+      <input
+        data-testid="duration-input"
+        value={String(formData?.duration ?? '')}
+        onChange={(e) => onChange?.('duration', Number(e.target.value))}
+      />
+      <button
+        type="button"
+        onClick={() => onChange?.('contacts', [{ id: 'c1', name: 'John Doe', columns: { role: 'Influencer' } }])}
+      >
+        Link contact
+      </button>
+      <button
+        type="button"
+        onClick={() =>
+          onChange?.('emailAddress', [
+            { emailAddress: 'old@acme.com', primary: false, invalid: true },
+            { emailAddress: 'sales@acme.com', primary: true },
+          ])
+        }
+      >
+        Set email addresses
+      </button>
+      <button
+        type="button"
+        onClick={() =>
+          onChange?.('phoneNumber', [
+            { phoneNumber: '+12125550100', type: 'Office', primary: false },
+            { phoneNumber: '+12125550101', type: 'Mobile', primary: true, optOut: true },
+          ])
+        }
+      >
+        Set phone numbers
+      </button>
+      <button
+        type="button"
+        onClick={() =>
+          onChange?.('billingAddress', {
+            street: '350 5th Ave',
+            city: 'New York',
+            state: '',
+            postalCode: '10118',
+            country: 'United States',
+            latitude: 40.7484,
+            longitude: -73.9857,
+          })
+        }
+      >
+        Pick address
+      </button>
     </div>
   ),
 }));
@@ -70,14 +131,36 @@ vi.mock('@/lib/acl', () => ({
   }),
 }));
 
-vi.mock('@/lib/validation', () => ({
-  useFormValidation: () => ({
-    validate: () => ({ isValid: true, errors: {} }),
-    validateField: () => null,
-    isReady: true,
-  }),
+// Asynchronous validation state returned by the mocked hook
+const asyncValidation = vi.hoisted(() => ({
+  fieldStatus: {} as Record<string, string>,
+  asyncErrors: {} as Record<string, string>,
+  // Resolves once the pending checks finished
+  settled: null as Promise<Record<string, string>> | null,
 }));
 
+vi.mock('@/lib/validation', () => {
+  // Errors with this message stand in for server validation failures
+  const isServerValidationError = (error: unknown): boolean =>
+    error instanceof Error && error.message === 'validationFailure';
+
+  return {
+    useFormValidation: () => ({
+      validate: () => ({ isValid: true, errors: {} }),
+      validateField: () => null,
+      validateFieldAsync: () => undefined,
+      waitForAsyncValidation: () => asyncValidation.settled ?? Promise.resolve(asyncValidation.fieldStatus),
+      getDependentFields: () => [],
+      fieldStatus: asyncValidation.fieldStatus,
+      asyncErrors: asyncValidation.asyncErrors,
+      mapServerErrors: (error: unknown) =>
+        isServerValidationError(error) ? { name: 'Name must be unique' } : null,
+      isReady: true,
+    }),
+    isServerValidationError,
+  };
+});
+
 vi.mock('@/fields', () => ({
   initializeFieldTypes: vi.fn(),
 }));
@@ -85,6 +168,7 @@ vi.mock('@/fields', () => ({
 // Import after mocks
 import { RecordEdit } from './RecordEdit';
 import { get, put } from '@/api/client';
+import { subscribe, clearAllRegistries } from '@/lib/extensions';
 
 const mockGet = vi.mocked(get);
 const mockPut = vi.mocked(put);
@@ -126,8 +210,12 @@ describe('RecordEdit', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    clearAllRegistries();
     mockGet.mockResolvedValue(mockRecord);
     mockPut.mockResolvedValue({ ...mockRecord, name: 'Updated Name' });
+    asyncValidation.fieldStatus = {};
+    asyncValidation.asyncErrors = {};
+    asyncValidation.settled = null;
   });
 
   describe('rendering', () => {
@@ -258,6 +346,143 @@ describe('RecordEdit', () => {
     });
   });
 
+  describe('duration sync', () => {
+    beforeEach(() => {
+      mockGet.mockResolvedValue({
+        ...mockRecord,
+        dateStart: '2024-06-15 08:00:00',
+        dateEnd: '2024-06-15 09:00:00',
+        duration: 3600,
+      });
+    });
+
+    it('should move the end when the duration changes', async () => {
+      render(<RecordEdit entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId('duration-input')).toHaveValue('3600');
+      });
+
+      fireEvent.change(screen.getByTestId('duration-input'), { target: { value: '5400' } });
+      expect(screen.getByTestId('dateEnd-input')).toHaveValue('2024-06-15 09:30:00');
+
+      fireEvent.click(screen.getByText('Save'));
+
+      await waitFor(() => {
+        expect(mockPut).toHaveBeenCalledWith('/Account/123', {
+          duration: 5400,
+          dateEnd: '2024-06-15 09:30:00',
+        });
+      });
+    });
+
+    it('should update the duration when the end changes', async () => {
+      render(<RecordEdit entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId('dateEnd-input')).toHaveValue('2024-06-15 09:00:00');
+      });
+
+      fireEvent.change(screen.getByTestId('dateEnd-input'), { target: { value: '2024-06-15 10:15:00' } });
+
+      expect(screen.getByTestId('duration-input')).toHaveValue('8100');
+    });
+  });
+
+  describe('link-multiple fields', () => {
+    it('should save the ids, names and relationship columns of the links', async () => {
+      render(<RecordEdit entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      fireEvent.click(await screen.findByText('Link contact'));
+      fireEvent.click(screen.getByText('Save'));
+
+      await waitFor(() => {
+        expect(mockPut).toHaveBeenCalledWith(
+          '/Account/123',
+          expect.objectContaining({
+            contactsIds: ['c1'],
+            contactsNames: { c1: 'John Doe' },
+            contactsColumns: { c1: { role: 'Influencer' } },
+          })
+        );
+      });
+    });
+  });
+
+  describe('email fields', () => {
+    it('should save the primary address and the address rows', async () => {
+      render(<RecordEdit entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      fireEvent.click(await screen.findByText('Set email addresses'));
+      fireEvent.click(screen.getByText('Save'));
+
+      await waitFor(() => {
+        expect(mockPut).toHaveBeenCalledWith('/Account/123', {
+          emailAddress: 'sales@acme.com',
+          emailAddressData: [
+            { emailAddress: 'old@acme.com', primary: false, invalid: true },
+            { emailAddress: 'sales@acme.com', primary: true },
+          ],
+        });
+      });
+    });
+  });
+
+  describe('phone fields', () => {
+    it('should save the primary number and the number rows', async () => {
+      render(<RecordEdit entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      fireEvent.click(await screen.findByText('Set phone numbers'));
+      fireEvent.click(screen.getByText('Save'));
+
+      await waitFor(() => {
+        expect(mockPut).toHaveBeenCalledWith('/Account/123', {
+          phoneNumber: '+12125550101',
+          phoneNumberData: [
+            { phoneNumber: '+12125550100', type: 'Office', primary: false },
+            { phoneNumber: '+12125550101', type: 'Mobile', primary: true, optOut: true },
+          ],
+        });
+      });
+    });
+  });
+
+  describe('address fields', () => {
+    it('should save the address parts and the geocoded coordinates', async () => {
+      render(<RecordEdit entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      fireEvent.click(await screen.findByText('Pick address'));
+      fireEvent.click(screen.getByText('Save'));
+
+      await waitFor(() => {
+        expect(mockPut).toHaveBeenCalledWith(
+          '/Account/123',
+          expect.objectContaining({
+            billingAddressStreet: '350 5th Ave',
+            billingAddressCity: 'New York',
+            billingAddressState: null,
+            billingAddressPostalCode: '10118',
+            billingAddressCountry: 'United States',
+            billingAddressLatitude: 40.7484,
+            billingAddressLongitude: -73.9857,
+          })
+        );
+      });
+    });
+  });
+
   describe('form submission', () => {
     it('should call API when save is clicked', async () => {
       render(<RecordEdit entityType="Account" recordId="123" />, {
@@ -302,6 +527,165 @@ describe('RecordEdit', () => {
     });
   });
 
+  describe('lifecycle events', () => {
+    it('should emit viewRendered and fieldChange events', async () => {
+      const viewRendered = vi.fn();
+      const fieldChange = vi.fn();
+      subscribe('viewRendered', viewRendered);
+      subscribe('fieldChange', fieldChange);
+
+      render(<RecordEdit entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(viewRendered).toHaveBeenCalledWith({ entityType: 'Account', recordId: '123', viewType: 'edit' });
+      });
+
+      fireEvent.change(screen.getByTestId('name-input'), { target: { value: 'Updated Name' } });
+
+      expect(fieldChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          field: 'name',
+          value: 'Updated Name',
+          previousValue: 'Acme Corporation',
+        })
+      );
+    });
+
+    it('should send attributes modified by beforeSave handlers', async () => {
+      const afterSave = vi.fn();
+      subscribe('beforeSave', (event) => {
+        event.attributes.description = 'Set by extension';
+      });
+      subscribe('afterSave', afterSave);
+
+      render(<RecordEdit entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId('name-input')).toBeInTheDocument();
+      });
+
+      fireEvent.change(screen.getByTestId('name-input'), { target: { value: 'Updated Name' } });
+      fireEvent.click(screen.getByText('Save'));
+
+      await waitFor(() => {
+        expect(mockPut).toHaveBeenCalledWith('/Account/123', {
+          name: 'Updated Name',
+          description: 'Set by extension',
+        });
+      });
+      expect(afterSave).toHaveBeenCalledWith(
+        expect.objectContaining({ entityType: 'Account', recordId: '123', isNew: false })
+      );
+    });
+
+    it('should not save when a beforeSave handler vetoes', async () => {
+      subscribe('beforeSave', (event) => event.veto('Name cannot be changed'));
+
+      render(<RecordEdit entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId('name-input')).toBeInTheDocument();
+      });
+
+      fireEvent.change(screen.getByTestId('name-input'), { target: { value: 'Updated Name' } });
+      fireEvent.click(screen.getByText('Save'));
+
+      expect(await screen.findByText(/Name cannot be changed/)).toBeInTheDocument();
+      expect(mockPut).not.toHaveBeenCalled();
+      expect(mockNavigate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('server validation', () => {
+    it('should show field errors returned by the server', async () => {
+      mockPut.mockRejectedValue(new Error('validationFailure'));
+
+      render(<RecordEdit entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId('name-input')).toBeInTheDocument();
+      });
+
+      fireEvent.change(screen.getByTestId('name-input'), { target: { value: 'Duplicate' } });
+      fireEvent.click(screen.getByText('Save'));
+
+      expect(await screen.findByText('Name must be unique')).toBeInTheDocument();
+      expect(screen.queryByText(/Error saving record/)).not.toBeInTheDocument();
+      expect(mockNavigate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('asynchronous validation', () => {
+    it('should show asynchronous errors and not save', async () => {
+      asyncValidation.fieldStatus = { name: 'invalid' };
+      asyncValidation.asyncErrors = { name: 'Name must be unique' };
+
+      render(<RecordEdit entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      expect(await screen.findByText('Name must be unique')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Save'));
+
+      expect(mockPut).not.toHaveBeenCalled();
+    });
+
+    it('should wait for a pending check before saving', async () => {
+      let settle: (status: Record<string, string>) => void = () => undefined;
+      asyncValidation.fieldStatus = { name: 'pending' };
+      asyncValidation.settled = new Promise((resolve) => {
+        settle = resolve;
+      });
+
+      render(<RecordEdit entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId('name-input')).toBeInTheDocument();
+      });
+
+      fireEvent.change(screen.getByTestId('name-input'), { target: { value: 'Updated Name' } });
+      fireEvent.click(screen.getByText('Save'));
+
+      expect(await screen.findByRole('button', { name: 'Checking...' })).toBeDisabled();
+      expect(mockPut).not.toHaveBeenCalled();
+
+      settle({ name: 'valid' });
+
+      await waitFor(() => {
+        expect(mockPut).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it('should not save when a pending check fails', async () => {
+      asyncValidation.fieldStatus = { name: 'pending' };
+      asyncValidation.settled = Promise.resolve({ name: 'invalid' });
+
+      render(<RecordEdit entityType="Account" recordId="123" />, {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId('name-input')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByText('Save'));
+
+      expect(await screen.findByRole('button', { name: 'Save' })).toBeEnabled();
+      expect(mockPut).not.toHaveBeenCalled();
+    });
+  });
+
   describe('cancel', () => {
     it('should link cancel to view page', async () => {
       render(<RecordEdit entityType="Account" recordId="123" />, {
@@ -1,16 +1,19 @@
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useMemo, useCallback, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { ArrowLeft, Save, X } from 'lucide-react';
 import { get, put } from '@/api/client';
 import { useMetadata } from '@/lib/metadata/useMetadata';
 import { useDetailLayout, getDefaultDetailLayout, LayoutRenderer } from '@/lib/layout';
-import { useFormValidation } from '@/lib/validation';
+import { isServerValidationError } from '@/lib/validation';
+import { emit, emitBeforeSave } from '@/lib/extensions';
+import { useRecordForm, type RecordFormChange } from '@/hooks/useRecordForm';
 import { initializeFieldTypes } from '@/fields';
 // ACL is checked in parent component
 import { Button } from '@/components/ui/button';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { cn } from '@/lib/utils/cn';
+import { DynamicLogicDebugger } from './DynamicLogicDebugger';
 import type { FieldDef } from '@/fields/types';
 
 // Initialize field types
@@ -31,8 +34,6 @@ export function RecordEdit({
   const queryClient = useQueryClient();
   const { metadata } = useMetadata();
   const { layout: detailLayout, isLoading: layoutLoading } = useDetailLayout(entityType);
-  const [localFormData, setLocalFormData] = useState<Record<string, unknown> | null>(null);
-  const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
 
   // Get field definitions from metadata
   const fieldDefs = useMemo(() => {
@@ -44,15 +45,6 @@ export function RecordEdit({
     return typedDefs;
   }, [metadata, entityType]);
 
-  // Use Zod-based form validation from metadata
-  const { validate: zodValidate, validateField, isReady: validationReady } = useFormValidation(
-    entityType,
-    {
-      skipReadOnly: true,
-      excludeFields: ['id', 'deleted', 'createdAt', 'modifiedAt', 'createdBy', 'modifiedBy'],
-    }
-  );
-
   // Get layout or generate default
   const layout = useMemo(() => {
     if (detailLayout) {
@@ -71,8 +63,38 @@ export function RecordEdit({
     enabled: !!entityType && !!recordId,
   });
 
-  // Use localFormData if user has edited, otherwise use record
-  const formData = localFormData ?? record ?? {};
+  const handleFieldChange = useCallback(
+    ({ field, value, previousValue, attributes }: RecordFormChange): void => {
+      emit('fieldChange', { entityType, recordId, field, value, previousValue, attributes });
+    },
+    [entityType, recordId]
+  );
+
+  // The record with the user's changes applied
+  const initialData = useMemo(() => record ?? {}, [record]);
+  const {
+    formData,
+    handleChange,
+    handleSave,
+    handleSaveError,
+    fieldErrors,
+    fieldStatus,
+    isCheckingFields,
+  } = useRecordForm(entityType, {
+    initialData,
+    fieldDefs,
+    onFieldChange: handleFieldChange,
+    skipReadOnly: true,
+    recordId,
+    excludeFields: ['id', 'deleted', 'createdAt', 'modifiedAt', 'createdBy', 'modifiedBy'],
+  });
+
+  const recordLoaded = !!record;
+  useEffect(() => {
+    if (recordLoaded) {
+      emit('viewRendered', { entityType, recordId, viewType: 'edit' });
+    }
+  }, [entityType, recordId, recordLoaded]);
 
   // Save mutation
   const saveMutation = useMutation({
@@ -89,10 +111,21 @@ export function RecordEdit({
         return record;
       }
 
+      const beforeSave = await emitBeforeSave({
+        entityType,
+        recordId,
+        isNew: false,
+        attributes: changedFields,
+      });
+      if (beforeSave.vetoed) {
+        throw new Error(beforeSave.reason ?? 'Save was cancelled');
+      }
+
       const response = await put<Record<string, unknown>>(
         `/${entityType}/${recordId}`,
-        changedFields
+        beforeSave.attributes
       );
+      emit('afterSave', { entityType, recordId, isNew: false, attributes: response });
       return response;
     },
     onSuccess: () => {
@@ -100,59 +133,9 @@ export function RecordEdit({
       queryClient.invalidateQueries({ queryKey: ['entityList', entityType] });
       navigate(`/${entityType}/view/${recordId}`);
     },
+    onError: (error) => handleSaveError(error),
   });
 
-  // Handle field change with real-time validation
-  const handleChange = useCallback((field: string, value: unknown): void => {
-    const updatedFormData = { ...(localFormData ?? record ?? {}), [field]: value };
-    setLocalFormData(updatedFormData);
-
-    // Validate the field on change (debounced feel through React batching)
-    if (validationReady) {
-      const fieldError = validateField(field, value, updatedFormData);
-      setValidationErrors((prev) => {
-        if (fieldError) {
-          return { ...prev, [field]: fieldError };
-        } else {
-          const next = { ...prev };
-          delete next[field];
-          return next;
-        }
-      });
-    }
-  }, [localFormData, record, validateField, validationReady]);
-
-  // Validate form using Zod schemas
-  const validate = useCallback((): boolean => {
-    if (!validationReady) {
-      // Fallback to basic required check if validation not ready
-      const errors: Record<string, string> = {};
-      for (const [fieldName, fieldDef] of Object.entries(fieldDefs)) {
-        if (fieldDef.required) {
-          const value = formData[fieldName];
-          if (value === null || value === undefined || value === '') {
-            errors[fieldName] = `${formatFieldName(fieldName)} is required`;
-          }
-        }
-      }
-      setValidationErrors(errors);
-      return Object.keys(errors).length === 0;
-    }
-
-    // Use comprehensive Zod validation
-    const result = zodValidate(formData);
-    setValidationErrors(result.errors);
-    return result.isValid;
-  }, [validationReady, zodValidate, formData, fieldDefs]);
-
-  // Handle save
-  const handleSave = (): void => {
-    if (!validate()) {
-      return;
-    }
-    saveMutation.mutate(formData);
-  };
-
   if (layoutLoading || isLoading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -203,27 +186,27 @@ export function RecordEdit({
             </Button>
           </Link>
           <Button
-            onClick={handleSave}
-            disabled={saveMutation.isPending}
+            onClick={() => handleSave(saveMutation.mutate)}
+            disabled={saveMutation.isPending || isCheckingFields}
           >
             <Save className="h-4 w-4 mr-2" />
-            {saveMutation.isPending ? 'Saving...' : 'Save'}
+            {saveMutation.isPending ? 'Saving...' : isCheckingFields ? 'Checking...' : 'Save'}
           </Button>
         </div>
       </div>
 
       {/* Error display */}
-      {saveMutation.error && (
+      {saveMutation.error && !isServerValidationError(saveMutation.error) && (
         <div className="rounded-lg border border-destructive bg-destructive/10 p-4 text-destructive">
           Error saving record: {saveMutation.error.message}
         </div>
       )}
 
       {/* Validation errors */}
-      {Object.keys(validationErrors).length > 0 && (
+      {Object.keys(fieldErrors).length > 0 && (
         <div className="rounded-lg border border-destructive bg-destructive/10 p-4">
           <ul className="list-disc list-inside text-destructive text-sm">
-            {Object.values(validationErrors).map((error, idx) => (
+            {Object.values(fieldErrors).map((error, idx) => (
               <li key={idx}>{error}</li>
             ))}
           </ul>
@@ -240,16 +223,14 @@ export function RecordEdit({
         mode="edit"
         formData={formData}
         onChange={handleChange}
+        errors={fieldErrors}
+        fieldStatus={fieldStatus}
       />
+
+      {/* Dynamic logic debugger (admin only) */}
+      <DynamicLogicDebugger entityType={entityType} data={formData} layout={layout} />
     </div>
   );
 }
 
-function formatFieldName(name: string): string {
-  return name
-    .replace(/([A-Z])/g, ' $1')
-    .replace(/^./, (str) => str.toUpperCase())
-    .trim();
-}
-
 export default RecordEdit;
@@ -22,6 +22,7 @@ vi.mock('@/lib/metadata/useMetadata', () => ({
             website: { type: 'url' },
             status: { type: 'enum', options: ['Active', 'Inactive'] },
             createdAt: { type: 'datetime' },
+            amount: { type: 'currency' },
           },
         },
       },
@@ -37,6 +38,7 @@ vi.mock('@/lib/layout', () => ({
       { name: 'website', width: 25 },
       { name: 'status', width: 20 },
       { name: 'createdAt', width: 25 },
+      { name: 'amount', width: 15 },
     ],
     isLoading: false,
   }),
@@ -88,6 +90,7 @@ vi.mock('@/components/common/MassActionsBar', () => ({
 // Import after mocks
 import { RecordList } from './RecordList';
 import { get } from '@/api/client';
+import { useAuthStore } from '@/features/auth/store';
 
 const mockGet = vi.mocked(get);
 
@@ -348,6 +351,45 @@ describe('RecordList', () => {
     });
   });
 
+  describe('currency totals', () => {
+    beforeEach(() => {
+      useAuthStore.setState({
+        settings: { currencyList: ['USD', 'EUR', 'JPY'], baseCurrency: 'USD', currencyRates: { EUR: 1.1 } },
+      });
+    });
+
+    it('sums currency columns of the page in the base currency', async () => {
+      mockGet.mockResolvedValue({
+        total: 3,
+        list: [
+          { id: '1', name: 'Acme Corp', amount: 100, amountCurrency: 'USD' },
+          { id: '2', name: 'Beta Inc', amount: 200, amountCurrency: 'EUR' },
+          { id: '3', name: 'Gamma Ltd', amount: null, amountCurrency: 'USD' },
+        ],
+      });
+
+      render(<RecordList entityType="Account" />, { wrapper: createWrapper() });
+
+      expect(await screen.findByText('$320.00')).toBeInTheDocument();
+      expect(screen.getByText('Page total')).toBeInTheDocument();
+    });
+
+    it('marks totals that leave out amounts without a rate', async () => {
+      mockGet.mockResolvedValue({
+        total: 2,
+        list: [
+          { id: '1', name: 'Acme Corp', amount: 100, amountCurrency: 'USD' },
+          { id: '2', name: 'Beta Inc', amount: 5000, amountCurrency: 'JPY' },
+        ],
+      });
+
+      render(<RecordList entityType="Account" />, { wrapper: createWrapper() });
+
+      const total = await screen.findByText('$100.00*');
+      expect(total).toHaveAttribute('title', '1 amount(s) without a conversion rate left out');
+    });
+  });
+
   describe('className prop', () => {
     it('should apply className to container', async () => {
       const { container } = render(
@@ -19,11 +19,14 @@ import { useMetadata } from '@/lib/metadata/useMetadata';
 import { useListLayout, getDefaultListLayout } from '@/lib/layout';
 import { FieldRenderer, initializeFieldTypes } from '@/fields';
 import { useAcl } from '@/lib/acl';
+import { useExtensions, type ActionHandler } from '@/lib/extensions';
 import { useMassActions } from '@/hooks/useMassActions';
 import { Button } from '@/components/ui/button';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { MassActionsBar } from '@/components/common/MassActionsBar';
 import { AdvancedSearch, filtersToWhereClause, type SearchFilter } from '@/components/search/AdvancedSearch';
+import { useDateTime } from '@/lib/datetime';
+import { formatCurrency, sumInBaseCurrency, useCurrencySettings } from '@/lib/currency';
 import { cn } from '@/lib/utils/cn';
 import type { ListColumn } from '@/lib/layout/types';
 import type { FieldDef } from '@/fields/types';
@@ -46,8 +49,12 @@ const PAGE_SIZE = 20;
 export function RecordList({ entityType, className }: RecordListProps): React.ReactElement {
   const [searchParams, setSearchParams] = useSearchParams();
   const { metadata } = useMetadata();
+  const { timeZone } = useDateTime().settings;
+  const currencySettings = useCurrencySettings();
   const { checkScope } = useAcl();
   const { layout: listLayout, isLoading: layoutLoading } = useListLayout(entityType);
+  const { listActions } = useExtensions({ entityType });
+  const [runningAction, setRunningAction] = useState<string | null>(null);
 
   // Advanced search filters state
   const [filters, setFilters] = useState<SearchFilter[]>([]);
@@ -86,7 +93,7 @@ export function RecordList({ entityType, className }: RecordListProps): React.Re
 
   // Fetch records
   const { data, isLoading, error } = useQuery<ListResponse, Error>({
-    queryKey: ['entityList', entityType, page, orderBy, order, searchQuery, filters],
+    queryKey: ['entityList', entityType, page, orderBy, order, searchQuery, filters, timeZone],
     queryFn: async () => {
       const offset = (page - 1) * PAGE_SIZE;
       const params = new URLSearchParams({
@@ -102,7 +109,10 @@ export function RecordList({ entityType, className }: RecordListProps): React.Re
 
       // Add advanced filters as where clause
       if (filters.length > 0) {
-        const whereClause = filtersToWhereClause(filters);
+        const whereClause = filtersToWhereClause(filters, {
+          fieldDefs,
+          timeZone,
+        });
         params.append('where', JSON.stringify(whereClause));
       }
 
@@ -114,6 +124,33 @@ export function RecordList({ entityType, className }: RecordListProps): React.Re
 
   const totalPages = data ? Math.ceil(data.total / PAGE_SIZE) : 0;
 
+  // Totals of the currency columns on this page, in the base currency
+  const currencyTotals = useMemo(() => {
+    const totals: Record<string, { total: number; skipped: number }> = {};
+    if (!data?.list.length) return totals;
+
+    for (const column of columns) {
+      const fieldDef = fieldDefs[column.name];
+      if (column.hidden || fieldDef?.type !== 'currency') continue;
+
+      totals[column.name] = sumInBaseCurrency(
+        data.list.map((record) => {
+          const amount = record[column.name];
+          const currency = record[`${column.name}Currency`];
+          return {
+            amount: typeof amount === 'number' ? amount : null,
+            currency:
+              typeof currency === 'string' && currency
+                ? currency
+                : (fieldDef.currency ?? currencySettings.defaultCurrency),
+          };
+        }),
+        currencySettings
+      );
+    }
+    return totals;
+  }, [data?.list, columns, fieldDefs, currencySettings]);
+
   // Handlers
   const handleSort = (column: string): void => {
     const newOrder = orderBy === column && order === 'asc' ? 'desc' : 'asc';
@@ -148,6 +185,26 @@ export function RecordList({ entityType, className }: RecordListProps): React.Re
   const canEdit = checkScope(entityType, 'edit');
   const canDelete = checkScope(entityType, 'delete');
 
+  // Extension mass actions the user has scope access for
+  const allowedListActions = useMemo(
+    () => listActions.filter((action) => !action.acl || checkScope(entityType, action.acl)),
+    [listActions, checkScope, entityType]
+  );
+
+  const handleCustomAction = useCallback(
+    async (action: ActionHandler) => {
+      setRunningAction(action.label);
+      try {
+        await action.handler({ entityType, recordIds: Array.from(selectedIds) });
+      } catch (error) {
+        console.error('Failed to run action:', action.label, error);
+      } finally {
+        setRunningAction(null);
+      }
+    },
+    [entityType, selectedIds]
+  );
+
   // Get all current page record IDs for select all
   const currentPageIds = useMemo(
     () => data?.list.map((r) => r.id as string) ?? [],
@@ -378,6 +435,44 @@ export function RecordList({ entityType, className }: RecordListProps): React.Re
                 </tr>
               )}
             </tbody>
+            {Object.keys(currencyTotals).length > 0 && (
+              <tfoot className="border-t bg-muted/30">
+                <tr>
+                  <td className="px-4 py-3" />
+                  {columns
+                    .filter((column) => !column.hidden)
+                    .map((column, index) => {
+                      const total = currencyTotals[column.name];
+                      return (
+                        <td
+                          key={column.name}
+                          className={cn(
+                            'px-4 py-3 text-sm font-medium',
+                            column.align === 'right' && 'text-right',
+                            column.align === 'center' && 'text-center'
+                          )}
+                        >
+                          {total ? (
+                            <span
+                              title={
+                                total.skipped > 0
+                                  ? `${total.skipped} amount(s) without a conversion rate left out`
+                                  : `Total in ${currencySettings.baseCurrency}`
+                              }
+                            >
+                              {formatCurrency(total.total, currencySettings.baseCurrency, currencySettings)}
+                              {total.skipped > 0 && '*'}
+                            </span>
+                          ) : (
+                            index === 0 && <span className="text-muted-foreground">Page total</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  <td />
+                </tr>
+              </tfoot>
+            )}
           </table>
         </div>
       </div>
@@ -416,10 +511,12 @@ export function RecordList({ entityType, className }: RecordListProps): React.Re
         selectedCount={selectedCount}
         onMassDelete={massDelete}
         onClearSelection={clearSelection}
-        isProcessing={isProcessing}
-        processingAction={processingAction}
+        isProcessing={isProcessing || runningAction !== null}
+        processingAction={runningAction ?? processingAction}
         canDelete={canDelete}
         canEdit={canEdit}
+        customActions={allowedListActions}
+        onCustomAction={handleCustomAction}
       />
     </div>
   );
@@ -8,3 +8,4 @@ export { RecordList } from './RecordList';
 export { RecordDetail } from './RecordDetail';
 export { RecordEdit } from './RecordEdit';
 export { RecordCreate } from './RecordCreate';
+export { DynamicLogicDebugger } from './DynamicLogicDebugger';
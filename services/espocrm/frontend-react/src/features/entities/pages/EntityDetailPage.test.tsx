@@ -2,10 +2,11 @@
  * EntityDetailPage Tests
  */
 import React from 'react';
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import { MemoryRouter, Routes, Route } from 'react-router-dom';
 import EntityDetailPage from './EntityDetailPage';
+import { registerModule, clearAllRegistries, type ViewProps } from '@/lib/extensions';
 
 // Mock useMetadata
 vi.mock('@/lib/metadata/useMetadata', () => ({
@@ -96,4 +97,43 @@ describe('EntityDetailPage', () => {
       expect(screen.getByTestId('record-id')).toHaveTextContent('acc-999');
     });
   });
+
+  describe('extension views', () => {
+    afterEach(() => {
+      clearAllRegistries();
+    });
+
+    it('renders a registered detail view instead of RecordDetail', async () => {
+      const CustomDetail = ({ entityType, recordId, mode }: ViewProps) => (
+        <div data-testid="custom-detail">
+          {entityType}/{recordId}/{mode}
+        </div>
+      );
+
+      await registerModule({
+        name: 'CustomDetailModule',
+        views: {
+          Account: [{ type: 'detail', component: CustomDetail }],
+        },
+      });
+
+      renderWithRouter('Account', 'acc-001');
+
+      expect(await screen.findByTestId('custom-detail')).toHaveTextContent('Account/acc-001/detail');
+      expect(screen.queryByTestId('record-detail')).not.toBeInTheDocument();
+    });
+
+    it('keeps RecordDetail when only other view types are registered', async () => {
+      await registerModule({
+        name: 'ListOnlyModule',
+        views: {
+          Account: [{ type: 'list', component: () => <div data-testid="custom-list" /> }],
+        },
+      });
+
+      renderWithRouter('Account', 'acc-001');
+
+      expect(screen.getByTestId('record-detail')).toBeInTheDocument();
+    });
+  });
 });
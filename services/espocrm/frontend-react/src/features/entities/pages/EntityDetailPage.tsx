@@ -1,12 +1,14 @@
 import React from 'react';
 import { useParams } from 'react-router-dom';
 import { useMetadata } from '@/lib/metadata/useMetadata';
+import { useExtensions, ExtensionView } from '@/lib/extensions';
 import { RecordDetail } from '../components';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 
 export default function EntityDetailPage(): React.ReactElement {
   const { entityType = '', id = '' } = useParams<{ entityType: string; id: string }>();
   const { isLoading: metadataLoading, isEntityEnabled } = useMetadata();
+  const { getView } = useExtensions({ entityType });
 
   // Show loading while metadata is being fetched
   if (metadataLoading) {
@@ -30,5 +32,13 @@ export default function EntityDetailPage(): React.ReactElement {
     );
   }
 
+  // Registered module views take precedence over the built-in detail view
+  const customView = getView('detail');
+  if (customView) {
+    return (
+      <ExtensionView view={customView} entityType={entityType} recordId={id} mode="detail" />
+    );
+  }
+
   return <RecordDetail entityType={entityType} recordId={id} />;
 }
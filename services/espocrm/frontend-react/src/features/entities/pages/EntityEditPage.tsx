@@ -2,6 +2,7 @@ import React from 'react';
 import { useParams } from 'react-router-dom';
 import { useMetadata } from '@/lib/metadata/useMetadata';
 import { useAcl } from '@/lib/acl';
+import { useExtensions, ExtensionView } from '@/lib/extensions';
 import { RecordEdit } from '../components';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 
@@ -9,6 +10,7 @@ export default function EntityEditPage(): React.ReactElement {
   const { entityType = '', id = '' } = useParams<{ entityType: string; id: string }>();
   const { isLoading: metadataLoading, isEntityEnabled } = useMetadata();
   const { checkScope } = useAcl();
+  const { getView } = useExtensions({ entityType });
 
   // Show loading while metadata is being fetched
   if (metadataLoading) {
@@ -44,5 +46,13 @@ export default function EntityEditPage(): React.ReactElement {
     );
   }
 
+  // Registered module views take precedence over the built-in edit view
+  const customView = getView('edit');
+  if (customView) {
+    return (
+      <ExtensionView view={customView} entityType={entityType} recordId={id} mode="edit" />
+    );
+  }
+
   return <RecordEdit entityType={entityType} recordId={id} />;
 }
@@ -2,11 +2,12 @@
  * EntityListPage Tests
  */
 import React from 'react';
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { MemoryRouter, Routes, Route } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import EntityListPage from './EntityListPage';
+import { registerModule, clearAllRegistries, type ViewProps } from '@/lib/extensions';
 
 // Mock API client
 vi.mock('@/api/client', () => ({
@@ -23,6 +24,7 @@ vi.mock('@/lib/metadata/useMetadata', () => ({
             name: { type: 'varchar' },
             status: { type: 'enum', options: ['Active', 'Inactive'] },
             createdAt: { type: 'datetime' },
+            billingAddressMap: { type: 'map', provider: 'None' },
           },
         },
       },
@@ -54,6 +56,14 @@ vi.mock('@/components/views/CalendarView', () => ({
   CalendarView: () => <div data-testid="calendar-view">Calendar View</div>,
 }));
 
+vi.mock('@/components/views/RecordMapView', () => ({
+  RecordMapView: ({ mapField, provider }: { mapField: string; provider?: string }) => (
+    <div data-testid="record-map-view">
+      {mapField} {provider}
+    </div>
+  ),
+}));
+
 vi.mock('@/components/export/ExportModal', () => ({
   ExportModal: ({ onClose }: { onClose: () => void }) => (
     <div data-testid="export-modal">
@@ -140,6 +150,13 @@ describe('EntityListPage', () => {
       expect(screen.getByTestId('calendar-view')).toBeInTheDocument();
     });
 
+    it('switches to map view with the first map field', () => {
+      render(<EntityListPage />, { wrapper: createWrapper() });
+
+      fireEvent.click(screen.getByTitle('Map view'));
+      expect(screen.getByTestId('record-map-view')).toHaveTextContent('billingAddressMap None');
+    });
+
     it('switches back to list view', () => {
       render(<EntityListPage />, { wrapper: createWrapper() });
 
@@ -170,6 +187,52 @@ describe('EntityListPage', () => {
     });
   });
 
+  describe('extension views', () => {
+    const CustomView = ({ entityType, mode }: ViewProps) => (
+      <div data-testid={`custom-${mode}`}>{entityType}</div>
+    );
+
+    afterEach(() => {
+      clearAllRegistries();
+    });
+
+    it('renders a registered list view instead of RecordList', async () => {
+      await registerModule({
+        name: 'CustomListModule',
+        views: {
+          Account: [{ type: 'list', component: CustomView }],
+        },
+      });
+
+      render(<EntityListPage />, { wrapper: createWrapper() });
+
+      expect(await screen.findByTestId('custom-list')).toHaveTextContent('Account');
+      expect(screen.queryByTestId('record-list')).not.toBeInTheDocument();
+    });
+
+    it('renders registered kanban and calendar views', async () => {
+      await registerModule({
+        name: 'CustomBoardModule',
+        views: {
+          Account: [
+            { type: 'kanban', component: CustomView },
+            { type: 'calendar', component: CustomView },
+          ],
+        },
+      });
+
+      render(<EntityListPage />, { wrapper: createWrapper() });
+
+      fireEvent.click(screen.getByTitle('Kanban view'));
+      expect(await screen.findByTestId('custom-kanban')).toBeInTheDocument();
+      expect(screen.queryByTestId('kanban-board')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByTitle('Calendar view'));
+      expect(await screen.findByTestId('custom-calendar')).toBeInTheDocument();
+      expect(screen.queryByTestId('calendar-view')).not.toBeInTheDocument();
+    });
+  });
+
   describe('create link', () => {
     it('links to create page', () => {
       render(<EntityListPage />, { wrapper: createWrapper() });
@@ -1,23 +1,26 @@
 import React, { useState, useMemo } from 'react';
 import { useParams, Link, useSearchParams } from 'react-router-dom';
-import { Plus, List, LayoutGrid, Calendar as CalendarIcon, Download } from 'lucide-react';
+import { Plus, List, LayoutGrid, Calendar as CalendarIcon, Map as MapIcon, Download } from 'lucide-react';
 import { useMetadata } from '@/lib/metadata/useMetadata';
 import { useAcl } from '@/lib/acl';
+import { useExtensions, ExtensionView } from '@/lib/extensions';
 import { RecordList } from '../components';
 import { Button } from '@/components/ui/button';
 import { KanbanBoard } from '@/components/views/KanbanBoard';
 import { CalendarView } from '@/components/views/CalendarView';
+import { RecordMapView } from '@/components/views/RecordMapView';
 import { ExportModal } from '@/components/export/ExportModal';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { cn } from '@/lib/utils/cn';
 
-type ViewMode = 'list' | 'kanban' | 'calendar';
+type ViewMode = 'list' | 'kanban' | 'calendar' | 'map';
 
 export default function EntityListPage(): React.ReactElement {
   const { entityType = '' } = useParams<{ entityType: string }>();
   const [searchParams, setSearchParams] = useSearchParams();
   const { metadata, isLoading: metadataLoading, error: metadataError, isEntityEnabled } = useMetadata();
   const { checkScope } = useAcl();
+  const { getView } = useExtensions({ entityType });
   const [showExportModal, setShowExportModal] = useState(false);
 
   // Get view mode from URL or default to list
@@ -77,6 +80,24 @@ export default function EntityListPage(): React.ReactElement {
     return 'createdAt'; // Fallback
   }, [metadata, entityType]);
 
+  // Get map field for the map view (first map field, if any)
+  const mapField = useMemo(() => {
+    const fields = metadata?.entityDefs?.[entityType]?.fields ?? {};
+    for (const [name, def] of Object.entries(fields)) {
+      const fieldDef = def as { type?: string };
+      if (fieldDef.type === 'map') {
+        return name;
+      }
+    }
+    return null;
+  }, [metadata, entityType]);
+
+  // Registered module views take precedence over the built-in ones
+  const customListView = getView('list');
+  const customKanbanView = getView('kanban');
+  const customCalendarView = getView('calendar');
+  const customMapView = getView('map');
+
   const enabled = isEntityEnabled(entityType);
   const canCreate = checkScope(entityType, 'create');
 
@@ -157,7 +178,7 @@ export default function EntityListPage(): React.ReactElement {
             >
               <List className="h-4 w-4" />
             </button>
-            {kanbanField && (
+            {(kanbanField || customKanbanView) && (
               <button
                 onClick={() => setViewMode('kanban')}
                 className={cn(
@@ -179,6 +200,18 @@ export default function EntityListPage(): React.ReactElement {
             >
               <CalendarIcon className="h-4 w-4" />
             </button>
+            {(mapField || customMapView) && (
+              <button
+                onClick={() => setViewMode('map')}
+                className={cn(
+                  'px-3 py-2 text-sm transition-colors border-l',
+                  viewMode === 'map' ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+                )}
+                title="Map view"
+              >
+                <MapIcon className="h-4 w-4" />
+              </button>
+            )}
           </div>
 
           {/* Export button */}
@@ -199,20 +232,49 @@ export default function EntityListPage(): React.ReactElement {
       </div>
 
       {/* View content */}
-      {viewMode === 'list' && <RecordList entityType={entityType} />}
+      {viewMode === 'list' && (
+        customListView ? (
+          <ExtensionView view={customListView} entityType={entityType} mode="list" />
+        ) : (
+          <RecordList entityType={entityType} />
+        )
+      )}
 
-      {viewMode === 'kanban' && kanbanField && (
-        <KanbanBoard
-          entityType={entityType}
-          groupField={kanbanField}
-        />
+      {viewMode === 'kanban' && (
+        customKanbanView ? (
+          <ExtensionView view={customKanbanView} entityType={entityType} mode="kanban" />
+        ) : kanbanField && (
+          <KanbanBoard
+            entityType={entityType}
+            groupField={kanbanField}
+          />
+        )
       )}
 
       {viewMode === 'calendar' && (
-        <CalendarView
-          entityType={entityType}
-          dateField={dateField}
-        />
+        customCalendarView ? (
+          <ExtensionView view={customCalendarView} entityType={entityType} mode="calendar" />
+        ) : (
+          <CalendarView
+            entityType={entityType}
+            dateField={dateField}
+          />
+        )
+      )}
+
+      {viewMode === 'map' && (
+        customMapView ? (
+          <ExtensionView view={customMapView} entityType={entityType} mode="map" />
+        ) : mapField && (
+          <RecordMapView
+            entityType={entityType}
+            mapField={mapField}
+            provider={
+              (metadata?.entityDefs?.[entityType]?.fields?.[mapField] as { provider?: string } | undefined)
+                ?.provider
+            }
+          />
+        )
       )}
 
       {/* Export Modal */}
@@ -2,10 +2,11 @@
  * FieldRenderer Tests
  */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
 import { FieldRenderer } from './FieldRenderer';
 import { registerField, fieldRegistry } from './registry';
 import type { FieldDef, FieldProps } from './types';
+import { registerModule, unregisterModule } from '@/lib/extensions/registry';
 
 // Clear and reset registry before each test
 beforeEach(() => {
@@ -412,4 +413,27 @@ describe('FieldRenderer', () => {
       expect(container.firstChild).toHaveClass('wrapper-class');
     });
   });
+
+  describe('extension field types', () => {
+    it('should swap the component when a module replaces it', async () => {
+      registerField('custom', MockField);
+      const HotField = ({ name }: FieldProps) => <div data-testid={`hot-field-${name}`} />;
+
+      const fieldDef: FieldDef = { type: 'custom' };
+      render(
+        <FieldRenderer name="testField" value="test" fieldDef={fieldDef} mode="detail" entityType="Account" />
+      );
+      expect(screen.getByTestId('mock-field-testField')).toBeInTheDocument();
+
+      await act(async () => {
+        await registerModule({ name: 'HotModule', fieldTypes: { custom: HotField } });
+      });
+      expect(screen.getByTestId('hot-field-testField')).toBeInTheDocument();
+
+      act(() => {
+        unregisterModule('HotModule');
+      });
+      expect(screen.getByTestId('mock-field-testField')).toBeInTheDocument();
+    });
+  });
 });
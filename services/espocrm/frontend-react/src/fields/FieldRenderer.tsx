@@ -1,9 +1,10 @@
 /* eslint-disable react-hooks/static-components */
-import React, { useMemo, memo } from 'react';
+import React, { useMemo, memo, useSyncExternalStore } from 'react';
 import { getFieldComponent, hasFieldType } from './registry';
 import { VarcharField } from './text/VarcharField';
-import type { FieldProps, FieldMode, FieldDef } from './types';
+import type { FieldProps, FieldMode, FieldDef, FieldComponent } from './types';
 import { cn } from '@/lib/utils/cn';
+import { subscribeToRegistry } from '@/lib/extensions/registry';
 
 export interface FieldRendererProps {
   /** Field name */
@@ -75,17 +76,19 @@ export function FieldRenderer({
     className: showLabel ? undefined : className,
   }), [name, value, fieldDef, mode, entityType, record, onChange, disabled, readOnly, label, showLabel, className]);
 
+  // Extension modules may register or hot-reload field components
+  const getComponent = (): FieldComponent | undefined =>
+    hasFieldType(fieldType) ? getFieldComponent(fieldType) : undefined;
+  const Component = useSyncExternalStore(subscribeToRegistry, getComponent, getComponent);
+
   // Render the appropriate field component
   const renderedField = useMemo(() => {
-    if (hasFieldType(fieldType)) {
-      const Component = getFieldComponent(fieldType);
-      if (Component) {
-        return <Component {...fieldProps} />;
-      }
+    if (Component) {
+      return <Component {...fieldProps} />;
     }
     // Fall back to varchar (text display)
     return <VarcharField {...fieldProps} />;
-  }, [fieldType, fieldProps]);
+  }, [Component, fieldProps]);
 
   // If showing label, wrap in a label container
   if (showLabel && mode !== 'list') {
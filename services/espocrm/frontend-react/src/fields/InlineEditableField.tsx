@@ -1,6 +1,9 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { Check, X, Pencil, Loader2 } from 'lucide-react';
 import { FieldRenderer } from './FieldRenderer';
+import { useFieldDynamicLogic } from '@/lib/dynamicLogic';
+import { formatValidationMessage } from '@/lib/validation/messages';
+import { useTranslation } from '@/hooks/useTranslation';
 import type { FieldDef } from './types';
 import { cn } from '@/lib/utils/cn';
 
@@ -21,8 +24,8 @@ interface InlineEditableFieldProps {
   isSaving?: boolean;
   /** Save error if any */
   error?: Error | null;
-  /** Callback when field is saved */
-  onSave?: (fieldName: string, value: unknown) => void;
+  /** Callback when field is saved; a rejected promise keeps the editor open with the error */
+  onSave?: (fieldName: string, value: unknown) => void | Promise<void>;
   /** Custom label */
   label?: string;
   /** Additional CSS class */
@@ -44,6 +47,17 @@ export function InlineEditableField({
 }: InlineEditableFieldProps): React.ReactElement {
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState<unknown>(value);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const { t, translateField } = useTranslation();
+
+  // Re-evaluate dynamic logic with the value being typed
+  const editData = useMemo(() => ({ ...record, [name]: editValue }), [record, name, editValue]);
+  const dynamicState = useFieldDynamicLogic(entityType, name, editData);
+  const editFieldDef = useMemo<FieldDef>(() => ({
+    ...fieldDef,
+    required: fieldDef.required || dynamicState.required,
+    ...(dynamicState.filteredOptions ? { filteredOptions: dynamicState.filteredOptions } : {}),
+  }), [fieldDef, dynamicState.required, dynamicState.filteredOptions]);
 
   // Check if field is editable
   const isReadOnly = fieldDef.readOnly || fieldDef.disabled;
@@ -52,20 +66,39 @@ export function InlineEditableField({
   const handleStartEdit = useCallback(() => {
     if (!canEdit) return;
     setEditValue(value);
+    setValidationError(null);
     setIsEditing(true);
   }, [canEdit, value]);
 
   const handleCancel = useCallback(() => {
     setEditValue(value);
+    setValidationError(null);
     setIsEditing(false);
   }, [value]);
 
   const handleSave = useCallback(() => {
-    if (onSave) {
-      onSave(name, editValue);
+    const field = label ?? translateField(entityType, name);
+    if (editFieldDef.required && isEmptyValue(editValue)) {
+      setValidationError(formatValidationMessage('fieldIsRequired', { field }, t));
+      return;
+    }
+    if (dynamicState.invalid) {
+      setValidationError(formatValidationMessage('fieldInvalid', { field }, t));
+      return;
+    }
+    if (!onSave) return;
+
+    const result = onSave(name, editValue);
+    if (result instanceof Promise) {
+      result
+        .then(() => setIsEditing(false))
+        .catch((saveError: unknown) => {
+          setValidationError(saveError instanceof Error ? saveError.message : 'Failed to save');
+        });
+    } else {
       setIsEditing(false);
     }
-  }, [onSave, name, editValue]);
+  }, [onSave, name, editValue, editFieldDef.required, dynamicState.invalid, label, entityType, t, translateField]);
 
   const handleChange = useCallback((newValue: unknown) => {
     setEditValue(newValue);
@@ -93,7 +126,7 @@ export function InlineEditableField({
             <FieldRenderer
               name={name}
               value={editValue}
-              fieldDef={fieldDef}
+              fieldDef={editFieldDef}
               mode="edit"
               entityType={entityType}
               record={record}
@@ -126,8 +159,8 @@ export function InlineEditableField({
             )}
           </div>
         </div>
-        {error && (
-          <div className="text-xs text-destructive mt-1">{error.message}</div>
+        {(validationError ?? error) && (
+          <div className="text-xs text-destructive mt-1">{validationError ?? error?.message}</div>
         )}
       </div>
     );
@@ -175,4 +208,8 @@ export function InlineEditableField({
   );
 }
 
+function isEmptyValue(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
 export default InlineEditableField;
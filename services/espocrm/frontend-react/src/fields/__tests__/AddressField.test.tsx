@@ -1,10 +1,13 @@
 /**
  * AddressField Tests
  */
-import { describe, it, expect, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { useState } from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { AddressField } from '../special/AddressField';
 import type { FieldProps, FieldDef } from '../types';
+import { useAuthStore } from '@/features/auth/store';
+import { createLocalGeocoder, registerGeocoder } from '@/lib/geocoding';
 
 function createFieldProps(overrides: Partial<FieldProps> = {}): FieldProps {
   const fieldDef: FieldDef = { type: 'address' };
@@ -145,4 +148,150 @@ describe('AddressField', () => {
       expect(onChange).toHaveBeenCalledWith('New York');
     });
   });
+
+  describe('geocoding', () => {
+    const addresses = [
+      {
+        label: '1600 Pennsylvania Avenue NW, Washington, DC 20500, United States',
+        street: '1600 Pennsylvania Avenue NW',
+        city: 'Washington',
+        state: 'District of Columbia',
+        postalCode: '20500',
+        country: 'United States',
+        countryCode: 'US',
+        latitude: 38.8977,
+        longitude: -77.0365,
+      },
+      {
+        label: '10 Downing Street, London SW1A 2AA, United Kingdom',
+        street: '10 Downing Street',
+        city: 'London',
+        postalCode: 'SW1A 2AA',
+        country: 'United Kingdom',
+        countryCode: 'GB',
+        latitude: 51.5034,
+        longitude: -0.1276,
+      },
+    ];
+
+    registerGeocoder('LocalTest', createLocalGeocoder(addresses));
+
+    // Keeps the value like a record form does
+    function EditableAddress({ onChange }: { onChange: (value: unknown) => void }) {
+      const [value, setValue] = useState<unknown>(null);
+      return (
+        <AddressField
+          {...createFieldProps({
+            value,
+            mode: 'edit',
+            onChange: (next) => {
+              setValue(next);
+              onChange(next);
+            },
+          })}
+        />
+      );
+    }
+
+    beforeEach(() => {
+      useAuthStore.setState({ settings: { geocoder: 'LocalTest' } });
+    });
+
+    afterEach(() => {
+      useAuthStore.setState({ settings: null });
+    });
+
+    it('fills the address and coordinates from a picked suggestion', async () => {
+      const onChange = vi.fn();
+      render(<EditableAddress onChange={onChange} />);
+
+      const street = screen.getByRole('combobox');
+      fireEvent.focus(street);
+      fireEvent.change(street, { target: { value: 'penn' } });
+
+      fireEvent.mouseDown(await screen.findByRole('option', { name: /1600 Pennsylvania/ }));
+
+      expect(onChange).toHaveBeenLastCalledWith({
+        street: '1600 Pennsylvania Avenue NW',
+        city: 'Washington',
+        state: 'DC',
+        postalCode: '20500',
+        country: 'United States',
+        latitude: 38.8977,
+        longitude: -77.0365,
+      });
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+      expect(screen.getByText('Located at 38.897700, -77.036500')).toBeInTheDocument();
+    });
+
+    it('picks suggestions with the keyboard', async () => {
+      const onChange = vi.fn();
+      render(<EditableAddress onChange={onChange} />);
+
+      const street = screen.getByRole('combobox');
+      fireEvent.focus(street);
+      fireEvent.change(street, { target: { value: 'street' } });
+      await screen.findByRole('listbox');
+
+      fireEvent.keyDown(street, { key: 'ArrowDown' });
+      expect(screen.getByRole('option', { name: /Downing/ })).toHaveAttribute('aria-selected', 'true');
+      fireEvent.keyDown(street, { key: 'Enter' });
+
+      expect(onChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ street: '10 Downing Street', postalCode: 'SW1A 2AA', latitude: 51.5034 })
+      );
+    });
+
+    it('completes a typed street when leaving it', async () => {
+      const onChange = vi.fn();
+      render(<EditableAddress onChange={onChange} />);
+
+      const street = screen.getByRole('combobox');
+      fireEvent.change(street, { target: { value: '10 Downing Street' } });
+      fireEvent.blur(street);
+
+      await waitFor(() =>
+        expect(onChange).toHaveBeenLastCalledWith(
+          expect.objectContaining({ city: 'London', postalCode: 'SW1A 2AA', country: 'United Kingdom', longitude: -0.1276 })
+        )
+      );
+    });
+
+    it('clears stale coordinates when the address changes', async () => {
+      const onChange = vi.fn();
+      render(<EditableAddress onChange={onChange} />);
+
+      const street = screen.getByRole('combobox');
+      fireEvent.focus(street);
+      fireEvent.change(street, { target: { value: 'penn' } });
+      fireEvent.mouseDown(await screen.findByRole('option'));
+      fireEvent.change(screen.getByPlaceholderText('City'), { target: { value: 'Baltimore' } });
+
+      expect(onChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ city: 'Baltimore', latitude: null, longitude: null })
+      );
+    });
+
+    it('normalizes country, state and postal code', () => {
+      const onChange = vi.fn();
+      render(<EditableAddress onChange={onChange} />);
+
+      fireEvent.change(screen.getByPlaceholderText('Country'), { target: { value: 'canada' } });
+      fireEvent.change(screen.getByPlaceholderText('State/Province'), { target: { value: 'british columbia' } });
+      fireEvent.change(screen.getByPlaceholderText('Postal Code'), { target: { value: 'v6b4y8' } });
+      fireEvent.blur(screen.getByPlaceholderText('Postal Code'));
+
+      expect(onChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ country: 'Canada', state: 'BC', postalCode: 'V6B 4Y8' })
+      );
+    });
+
+    it('is a plain input without a geocoder', () => {
+      useAuthStore.setState({ settings: null });
+      render(<AddressField {...createFieldProps({ value: null, mode: 'edit' })} />);
+
+      expect(screen.queryByRole('combobox')).not.toBeInTheDocument();
+      expect(screen.getByPlaceholderText('Street')).toBeInTheDocument();
+    });
+  });
 });
@@ -2,10 +2,19 @@
  * AttachmentMultipleField Tests
  */
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { AttachmentMultipleField } from '../file/AttachmentMultipleField';
 import type { FieldProps, FieldDef } from '../types';
 
+vi.mock('@/api/attachments', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/api/attachments')>()),
+  uploadAttachmentInChunks: vi.fn(),
+}));
+
+import { uploadAttachmentInChunks } from '@/api/attachments';
+
+const mockUpload = vi.mocked(uploadAttachmentInChunks);
+
 function createFieldProps(overrides: Partial<FieldProps> = {}): FieldProps {
   const fieldDef: FieldDef = { type: 'attachmentMultiple' };
   return {
@@ -71,6 +80,31 @@ describe('AttachmentMultipleField', () => {
     });
   });
 
+  describe('preview', () => {
+    it('opens the previewer at the clicked attachment', () => {
+      render(<AttachmentMultipleField {...createFieldProps({ value: mockAttachments })} />);
+
+      fireEvent.click(screen.getByRole('link', { name: 'image.png' }));
+
+      expect(screen.getByRole('dialog')).toBeInTheDocument();
+      expect(screen.getByAltText('image.png')).toHaveAttribute('src', '/api/v1/Attachment/file/file-2');
+      expect(screen.getByText('2 / 3')).toBeInTheDocument();
+    });
+
+    it('reads attachments from the record attributes', () => {
+      render(
+        <AttachmentMultipleField
+          {...createFieldProps({
+            value: undefined,
+            record: { attachmentsIds: ['a1'], attachmentsNames: { a1: 'notes.txt' }, attachmentsTypes: {} },
+          })}
+        />
+      );
+
+      expect(screen.getByRole('link', { name: 'notes.txt' })).toHaveAttribute('href', '/api/v1/Attachment/file/a1');
+    });
+  });
+
   describe('list mode', () => {
     it('shows dash for empty array', () => {
       render(<AttachmentMultipleField {...createFieldProps({ value: [], mode: 'list' })} />);
@@ -247,6 +281,45 @@ describe('AttachmentMultipleField', () => {
     });
   });
 
+  describe('uploading', () => {
+    it('uploads each file and appends it to the list', async () => {
+      mockUpload.mockImplementation(async (file) => ({ id: `id-${file.name}`, name: file.name }));
+      const onChange = vi.fn();
+      const { container } = render(
+        <AttachmentMultipleField {...createFieldProps({ value: mockAttachments, mode: 'edit', onChange })} />
+      );
+
+      fireEvent.change(container.querySelector('input[type="file"]') as HTMLInputElement, {
+        target: { files: [new File(['a'], 'a.txt'), new File(['b'], 'b.txt')] },
+      });
+
+      await waitFor(() => {
+        expect(onChange).toHaveBeenLastCalledWith([
+          ...mockAttachments,
+          { id: 'id-a.txt', name: 'a.txt' },
+          { id: 'id-b.txt', name: 'b.txt' },
+        ]);
+      });
+    });
+
+    it('enforces maxCount', () => {
+      mockUpload.mockReset();
+      mockUpload.mockReturnValue(new Promise(() => {}));
+      const fieldDef: FieldDef = { type: 'attachmentMultiple', maxCount: 4 };
+      const { container } = render(
+        <AttachmentMultipleField {...createFieldProps({ value: mockAttachments, mode: 'edit', fieldDef })} />
+      );
+
+      fireEvent.change(container.querySelector('input[type="file"]') as HTMLInputElement, {
+        target: { files: [new File(['a'], 'a.txt'), new File(['b'], 'b.txt')] },
+      });
+
+      expect(mockUpload).toHaveBeenCalledTimes(1);
+      expect(screen.getByRole('alert')).toHaveTextContent('Maximum 4 files allowed');
+      expect(screen.getByText('Add Files').closest('button')).toBeDisabled();
+    });
+  });
+
   describe('search mode', () => {
     it('shows dash (attachments not searchable)', () => {
       render(<AttachmentMultipleField {...createFieldProps({ value: [], mode: 'search' })} />);
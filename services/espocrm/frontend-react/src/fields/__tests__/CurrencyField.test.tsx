@@ -1,7 +1,8 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { screen, fireEvent } from '@testing-library/react';
 import { CurrencyField } from '../number/CurrencyField';
 import { renderField } from './testUtils';
+import { useAuthStore } from '@/features/auth/store';
 
 describe('CurrencyField', () => {
   describe('detail mode', () => {
@@ -199,4 +200,98 @@ describe('CurrencyField', () => {
       expect(onChange).toHaveBeenCalledWith(500);
     });
   });
+
+  describe('multiple currencies', () => {
+    beforeEach(() => {
+      useAuthStore.setState({
+        settings: {
+          currencyList: ['USD', 'EUR', 'GBP'],
+          defaultCurrency: 'EUR',
+          baseCurrency: 'USD',
+          currencyRates: { EUR: 1.1 },
+        },
+      });
+    });
+
+    it('shows the amount converted into the base currency', () => {
+      renderField(CurrencyField, {
+        name: 'amount',
+        value: 1000,
+        mode: 'detail',
+        record: { amountCurrency: 'EUR' },
+      });
+      expect(screen.getByText('€1,000.00')).toBeInTheDocument();
+      expect(screen.getByText('≈ $1,100.00')).toBeInTheDocument();
+    });
+
+    it('falls back to the stored converted amount without a rate', () => {
+      renderField(CurrencyField, {
+        name: 'amount',
+        value: 100,
+        mode: 'detail',
+        record: { amountCurrency: 'GBP', amountConverted: 127 },
+      });
+      expect(screen.getByText('≈ $127.00')).toBeInTheDocument();
+    });
+
+    it('shows base-currency amounts once', () => {
+      renderField(CurrencyField, {
+        name: 'amount',
+        value: 100,
+        mode: 'detail',
+        record: { amountCurrency: 'USD' },
+      });
+      expect(screen.getByText('$100.00')).toBeInTheDocument();
+      expect(screen.queryByText(/≈/)).not.toBeInTheDocument();
+    });
+
+    it('offers the enabled currencies and uses the default currency for new amounts', () => {
+      renderField(CurrencyField, { name: 'amount', value: null, mode: 'edit' });
+
+      const select = screen.getByRole('combobox', { name: 'Currency' });
+      expect(select).toHaveValue('EUR');
+      expect(Array.from((select as HTMLSelectElement).options).map((o) => o.value)).toEqual(['USD', 'EUR', 'GBP']);
+    });
+
+    it('keeps a disabled currency selectable on existing amounts', () => {
+      renderField(CurrencyField, {
+        name: 'amount',
+        value: 100,
+        mode: 'edit',
+        record: { amountCurrency: 'CHF' },
+      });
+      expect(screen.getByRole('combobox', { name: 'Currency' })).toHaveValue('CHF');
+      expect(screen.getByRole('option', { name: 'CHF' })).toBeInTheDocument();
+    });
+
+    it('emits the amount with the picked currency', () => {
+      const onChange = vi.fn();
+      renderField(CurrencyField, {
+        name: 'amount',
+        value: 100,
+        mode: 'edit',
+        record: { amountCurrency: 'EUR' },
+        onChange,
+      });
+
+      expect(screen.getByText('≈ $110.00')).toBeInTheDocument();
+      fireEvent.change(screen.getByRole('combobox', { name: 'Currency' }), { target: { value: 'GBP' } });
+      expect(onChange).toHaveBeenCalledWith({ amount: 100, currency: 'GBP' });
+    });
+
+    it('keeps the picked currency when the amount changes', () => {
+      const onChange = vi.fn();
+      renderField(CurrencyField, {
+        name: 'amount',
+        value: { amount: 100, currency: 'GBP' },
+        mode: 'edit',
+        record: { amountCurrency: 'EUR' },
+        onChange,
+      });
+
+      expect(screen.getByRole('combobox', { name: 'Currency' })).toHaveValue('GBP');
+      fireEvent.change(screen.getByRole('spinbutton'), { target: { value: '250' } });
+      expect(onChange).toHaveBeenCalledWith({ amount: 250, currency: 'GBP' });
+    });
+  });
 });
@@ -1,7 +1,8 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { screen, fireEvent } from '@testing-library/react';
 import { DateField } from '../date/DateField';
 import { renderField } from './testUtils';
+import { useAuthStore } from '@/features/auth/store';
 
 describe('DateField', () => {
   describe('detail mode', () => {
@@ -207,4 +208,19 @@ describe('DateField', () => {
       expect(screen.getByText('Mar 15, 2024')).toBeInTheDocument();
     });
   });
+
+  describe('user date format', () => {
+    beforeEach(() => {
+      useAuthStore.setState({ settings: null, preferences: null });
+    });
+
+    it('shows dates in the preferred format, not shifted by the time zone', () => {
+      useAuthStore.setState({
+        settings: { dateFormat: 'MM/DD/YYYY' },
+        preferences: { dateFormat: 'DD.MM.YYYY', timeZone: 'Pacific/Honolulu' },
+      });
+      renderField(DateField, { value: '2024-12-31', mode: 'detail' });
+      expect(screen.getByText('31.12.2024')).toBeInTheDocument();
+    });
+  });
 });
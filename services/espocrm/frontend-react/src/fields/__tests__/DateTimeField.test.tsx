@@ -1,7 +1,8 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { screen, fireEvent } from '@testing-library/react';
 import { DateTimeField } from '../date/DateTimeField';
 import { renderField } from './testUtils';
+import { useAuthStore } from '@/features/auth/store';
 
 describe('DateTimeField', () => {
   // Use a fixed date for testing
@@ -102,7 +103,7 @@ describe('DateTimeField', () => {
       expect(input.value).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/);
     });
 
-    it('calls onChange with ISO string when value changes', () => {
+    it('calls onChange with the UTC storage format when value changes', () => {
       const onChange = vi.fn();
       renderField(DateTimeField, {
         name: 'startDate',
@@ -114,10 +115,7 @@ describe('DateTimeField', () => {
       const input = document.querySelector('input[type="datetime-local"]') as HTMLInputElement;
       fireEvent.change(input, { target: { value: '2024-12-25T10:30' } });
 
-      expect(onChange).toHaveBeenCalled();
-      // Check that it's an ISO string
-      const calledWith = onChange.mock.calls[0][0];
-      expect(calledWith).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/);
+      expect(onChange).toHaveBeenCalledWith('2024-12-25 10:30:00');
     });
 
     it('calls onChange with null for empty value', () => {
@@ -187,4 +185,31 @@ describe('DateTimeField', () => {
       expect(onChange).toHaveBeenCalled();
     });
   });
+
+  describe('user time zone and formats', () => {
+    beforeEach(() => {
+      useAuthStore.setState({ settings: null, preferences: null });
+    });
+
+    it('shows stored UTC values in the user zone and format', () => {
+      useAuthStore.setState({
+        settings: { timeZone: 'America/New_York', dateFormat: 'MM/DD/YYYY', timeFormat: 'hh:mm a' },
+        preferences: { timeZone: 'Europe/Berlin', dateFormat: 'DD.MM.YYYY', timeFormat: 'HH:mm' },
+      });
+      renderField(DateTimeField, { value: '2024-06-15 22:30:00', mode: 'detail' });
+      expect(screen.getByText('16.06.2024 00:30')).toBeInTheDocument();
+    });
+
+    it('edits in the user zone and stores UTC', () => {
+      useAuthStore.setState({ settings: { timeZone: 'Europe/Berlin' } });
+      const onChange = vi.fn();
+      renderField(DateTimeField, { value: '2024-06-15 22:30:00', mode: 'edit', onChange });
+
+      const input = document.querySelector('input[type="datetime-local"]') as HTMLInputElement;
+      expect(input).toHaveValue('2024-06-16T00:30');
+
+      fireEvent.change(input, { target: { value: '2024-12-25T10:30' } });
+      expect(onChange).toHaveBeenCalledWith('2024-12-25 09:30:00');
+    });
+  });
 });
@@ -1,10 +1,11 @@
 /**
  * DurationField Tests
  */
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { DurationField } from '../date/DurationField';
 import type { FieldProps, FieldDef } from '../types';
+import { useAuthStore } from '@/features/auth/store';
 
 function createFieldProps(overrides: Partial<FieldProps> = {}): FieldProps {
   const fieldDef: FieldDef = { type: 'duration' };
@@ -47,9 +48,47 @@ describe('DurationField', () => {
       render(<DurationField {...createFieldProps({ value: 0 })} />);
       expect(screen.getByText('0m')).toBeInTheDocument();
     });
+
+    it('displays days for long durations', () => {
+      render(<DurationField {...createFieldProps({ value: 2 * 86400 + 1800 })} />);
+      expect(screen.getByText('2d 30m')).toBeInTheDocument();
+    });
+
+    describe('with a start date', () => {
+      beforeEach(() => {
+        useAuthStore.setState({ settings: { timeZone: 'Europe/Berlin', dateFormat: 'DD.MM.YYYY', timeFormat: 'HH:mm' } });
+      });
+
+      it('shows the end time in the user time zone', () => {
+        render(
+          <DurationField {...createFieldProps({ value: 5400, record: { dateStart: '2024-06-15 08:00:00' } })} />
+        );
+        expect(screen.getByText('(ends 11:30)')).toBeInTheDocument();
+      });
+
+      it('shows the end date when it falls on another day', () => {
+        render(
+          <DurationField {...createFieldProps({ value: 7200, record: { dateStart: '2024-06-15 21:30:00' } })} />
+        );
+        expect(screen.getByText('(ends 16.06.2024 01:30)')).toBeInTheDocument();
+      });
+    });
   });
 
   describe('list mode', () => {
+    it('derives the duration from the record start and end', () => {
+      render(
+        <DurationField
+          {...createFieldProps({
+            value: null,
+            mode: 'list',
+            record: { dateStart: '2024-06-15 08:00:00', dateEnd: '2024-06-15 08:45:00' },
+          })}
+        />
+      );
+      expect(screen.getByText('45m')).toBeInTheDocument();
+    });
+
     it('shows dash for null value', () => {
       render(<DurationField {...createFieldProps({ value: null, mode: 'list' })} />);
       expect(screen.getByText('—')).toBeInTheDocument();
@@ -133,12 +172,40 @@ describe('DurationField', () => {
       expect(onChange).toHaveBeenCalledWith(0);
     });
 
+    it('renders the default presets', () => {
+      render(<DurationField {...createFieldProps({ value: 1800, mode: 'edit' })} />);
+
+      expect(screen.getByRole('button', { name: '15m' })).toHaveAttribute('aria-pressed', 'false');
+      expect(screen.getByRole('button', { name: '30m' })).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByRole('button', { name: '1h' })).toBeInTheDocument();
+    });
+
+    it('renders the presets of the field definition', () => {
+      render(
+        <DurationField
+          {...createFieldProps({ value: 0, mode: 'edit', fieldDef: { type: 'duration', options: ['300', '600'] } })}
+        />
+      );
+
+      expect(screen.getAllByRole('button').map((button) => button.textContent)).toEqual(['5m', '10m']);
+    });
+
+    it('calls onChange with the seconds of a preset', () => {
+      const onChange = vi.fn();
+      render(<DurationField {...createFieldProps({ value: 0, mode: 'edit', onChange })} />);
+
+      fireEvent.click(screen.getByRole('button', { name: '1h 30m' }));
+
+      expect(onChange).toHaveBeenCalledWith(5400);
+    });
+
     it('disables inputs when disabled', () => {
       render(<DurationField {...createFieldProps({ value: 0, mode: 'edit', disabled: true })} />);
 
       const inputs = screen.getAllByRole('spinbutton');
       expect(inputs[0]).toBeDisabled();
       expect(inputs[1]).toBeDisabled();
+      expect(screen.getByRole('button', { name: '15m' })).toBeDisabled();
     });
 
     it('makes inputs readonly when readOnly', () => {
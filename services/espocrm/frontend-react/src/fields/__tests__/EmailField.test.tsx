@@ -1,60 +1,115 @@
+import React, { useState } from 'react';
 import { describe, it, expect, vi } from 'vitest';
-import { screen, fireEvent } from '@testing-library/react';
+import { screen, fireEvent, render } from '@testing-library/react';
+import { MemoryRouter, Route, Routes, useLocation } from 'react-router-dom';
 import { EmailField } from '../special/EmailField';
-import { renderField, testValues } from './testUtils';
+import type { FieldProps } from '../types';
+import { createFieldProps, renderField, testValues } from './testUtils';
+
+function renderDetail(props: Partial<FieldProps>) {
+  return render(<EmailField {...createFieldProps({ mode: 'detail', ...props })} />, { wrapper: MemoryRouter });
+}
+
+function ComposeTarget(): React.ReactElement {
+  const location = useLocation();
+  return <pre data-testid="compose-state">{JSON.stringify(location.state)}</pre>;
+}
+
+function EditableEmail({ onChange, ...props }: Partial<FieldProps>): React.ReactElement {
+  const [value, setValue] = useState<unknown>(props.value ?? '');
+  return (
+    <EmailField
+      {...createFieldProps({ name: 'emailAddress', ...props, mode: 'edit', value })}
+      onChange={(next) => {
+        setValue(next);
+        onChange?.(next);
+      }}
+    />
+  );
+}
+
 
 describe('EmailField', () => {
   describe('detail mode', () => {
     it('displays email as mailto link', () => {
-      renderField(EmailField, {
-        value: testValues.sampleEmail,
-        mode: 'detail',
-      });
-      const link = screen.getByRole('link');
+      renderDetail({ value: testValues.sampleEmail });
+      const link = screen.getByRole('link', { name: testValues.sampleEmail });
       expect(link).toHaveAttribute('href', `mailto:${testValues.sampleEmail}`);
-      expect(link).toHaveTextContent(testValues.sampleEmail);
     });
 
     it('displays em-dash for empty value', () => {
-      renderField(EmailField, {
-        value: '',
-        mode: 'detail',
-      });
+      renderDetail({ value: '' });
       expect(screen.getByText('—')).toBeInTheDocument();
     });
 
     it('displays em-dash for null value', () => {
-      renderField(EmailField, {
-        value: null,
-        mode: 'detail',
-      });
+      renderDetail({ value: null });
       expect(screen.getByText('—')).toBeInTheDocument();
     });
 
-    it('handles EspoCRM email array format', () => {
-      const emailArray = [
-        { emailAddress: 'primary@example.com', primary: true },
-        { emailAddress: 'secondary@example.com', primary: false },
-      ];
-      renderField(EmailField, {
-        value: emailArray,
-        mode: 'detail',
+    it('lists all addresses with the primary one first', () => {
+      renderDetail({
+        value: [
+          { emailAddress: 'secondary@example.com', primary: false },
+          { emailAddress: 'primary@example.com', primary: true },
+        ],
       });
-      const link = screen.getByRole('link');
-      expect(link).toHaveAttribute('href', 'mailto:primary@example.com');
+
+      const links = screen.getAllByRole('link', { name: /^\S+@example\.com$/ });
+      expect(links.map((link) => link.getAttribute('href'))).toEqual([
+        'mailto:primary@example.com',
+        'mailto:secondary@example.com',
+      ]);
+      expect(screen.getByText('Primary')).toBeInTheDocument();
     });
 
-    it('uses first email when no primary is set', () => {
-      const emailArray = [
-        { emailAddress: 'first@example.com', primary: false },
-        { emailAddress: 'second@example.com', primary: false },
-      ];
-      renderField(EmailField, {
-        value: emailArray,
-        mode: 'detail',
+    it('reads the addresses and flags from the data attribute of the record', () => {
+      renderDetail({
+        name: 'emailAddress',
+        value: 'first@example.com',
+        record: {
+          emailAddressData: [
+            { emailAddress: 'first@example.com', primary: true },
+            { emailAddress: 'old@example.com', invalid: true },
+            { emailAddress: 'quiet@example.com', optOut: true },
+          ],
+        },
+      });
+
+      expect(screen.getByText('old@example.com')).toHaveClass('line-through');
+      expect(screen.getByText('Invalid')).toBeInTheDocument();
+      expect(screen.getByText('Opted out')).toBeInTheDocument();
+      expect(screen.queryByRole('link', { name: 'quiet@example.com' })).not.toBeInTheDocument();
+      expect(screen.queryByRole('link', { name: 'Compose email to old@example.com' })).not.toBeInTheDocument();
+    });
+
+    it('composes an email to the address about the record', () => {
+      render(
+        <MemoryRouter>
+          <Routes>
+            <Route
+              path="/"
+              element={
+                <EmailField
+                  {...createFieldProps({
+                    mode: 'detail',
+                    entityType: 'Contact',
+                    value: 'jane@example.com',
+                    record: { id: 'c1', name: 'Jane' },
+                  })}
+                />
+              }
+            />
+            <Route path="/Email/create" element={<ComposeTarget />} />
+          </Routes>
+        </MemoryRouter>
+      );
+
+      fireEvent.click(screen.getByRole('link', { name: 'Compose email to jane@example.com' }));
+
+      expect(JSON.parse(screen.getByTestId('compose-state').textContent ?? '')).toEqual({
+        attributes: { to: 'jane@example.com', parentType: 'Contact', parentId: 'c1', parentName: 'Jane' },
       });
-      const link = screen.getByRole('link');
-      expect(link).toHaveAttribute('href', 'mailto:first@example.com');
     });
   });
 
@@ -69,6 +124,17 @@ describe('EmailField', () => {
       expect(link).toHaveClass('text-sm');
     });
 
+    it('uses first email when no primary is set', () => {
+      renderField(EmailField, {
+        value: [
+          { emailAddress: 'first@example.com', primary: false },
+          { emailAddress: 'second@example.com', primary: false },
+        ],
+        mode: 'list',
+      });
+      expect(screen.getByRole('link')).toHaveAttribute('href', 'mailto:first@example.com');
+    });
+
     it('displays em-dash for empty value', () => {
       renderField(EmailField, {
         value: '',
@@ -112,7 +178,43 @@ describe('EmailField', () => {
       const input = screen.getByRole('textbox');
       fireEvent.change(input, { target: { value: 'new@email.com' } });
 
-      expect(onChange).toHaveBeenCalledWith('new@email.com');
+      expect(onChange).toHaveBeenCalledWith([{ emailAddress: 'new@email.com', primary: true }]);
+    });
+
+    it('manages several addresses and their flags', () => {
+      const onChange = vi.fn();
+      render(<EditableEmail value="a@example.com" onChange={onChange} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Add email address' }));
+      fireEvent.change(screen.getAllByRole('textbox')[1]!, { target: { value: 'b@example.com' } });
+      fireEvent.click(screen.getAllByRole('button', { name: 'Primary' })[1]!);
+      fireEvent.click(screen.getAllByRole('button', { name: 'Opted out' })[0]!);
+
+      expect(onChange).toHaveBeenLastCalledWith([
+        { emailAddress: 'a@example.com', primary: false, optOut: true },
+        { emailAddress: 'b@example.com', primary: true },
+      ]);
+
+      fireEvent.click(screen.getAllByRole('button', { name: 'Invalid' })[0]!);
+      fireEvent.click(screen.getAllByRole('button', { name: 'Remove email address' })[1]!);
+      expect(onChange).toHaveBeenLastCalledWith([
+        { emailAddress: 'a@example.com', primary: true, optOut: true, invalid: true },
+      ]);
+    });
+
+    it('trims addresses and flags malformed ones after typing', () => {
+      const onChange = vi.fn();
+      render(<EditableEmail onChange={onChange} />);
+
+      const input = screen.getByRole('textbox');
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: ' not-an-email ' } });
+      expect(screen.queryByText('Not a valid email address')).not.toBeInTheDocument();
+
+      fireEvent.blur(input);
+      expect(onChange).toHaveBeenLastCalledWith([{ emailAddress: 'not-an-email', primary: true }]);
+      expect(screen.getByText('Not a valid email address')).toBeInTheDocument();
+      expect(input).toHaveAttribute('aria-invalid', 'true');
     });
 
     it('can be disabled', () => {
@@ -125,6 +227,7 @@ describe('EmailField', () => {
 
       const input = screen.getByRole('textbox');
       expect(input).toBeDisabled();
+      expect(screen.queryByRole('button', { name: 'Add email address' })).not.toBeInTheDocument();
     });
 
     it('can be read-only', () => {
@@ -144,6 +144,32 @@ describe('EnumField', () => {
       const select = screen.getByRole('combobox');
       expect(select).toBeDisabled();
     });
+
+    it('only offers filtered options', () => {
+      renderField(EnumField, {
+        name: 'status',
+        value: 'New',
+        mode: 'edit',
+        fieldDef: { ...fieldDef, filteredOptions: ['New', 'Completed'] },
+      });
+
+      // 2 filtered options + 1 "— Select —" empty option
+      expect(screen.getAllByRole('option')).toHaveLength(3);
+      expect(screen.queryByRole('option', { name: 'Canceled' })).not.toBeInTheDocument();
+    });
+
+    it('replaces a value that is no longer allowed', () => {
+      const onChange = vi.fn();
+      renderField(EnumField, {
+        name: 'status',
+        value: 'Canceled',
+        mode: 'edit',
+        fieldDef: { ...fieldDef, filteredOptions: ['New', 'Completed'] },
+        onChange,
+      });
+
+      expect(onChange).toHaveBeenCalledWith('New');
+    });
   });
 
   describe('search mode', () => {
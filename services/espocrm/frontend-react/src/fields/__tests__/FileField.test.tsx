@@ -1,11 +1,26 @@
 /**
  * FileField Tests
  */
-import { describe, it, expect, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { FileField } from '../file/FileField';
 import type { FieldProps, FieldDef } from '../types';
 
+vi.mock('@/api/attachments', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/api/attachments')>()),
+  uploadAttachmentInChunks: vi.fn(),
+}));
+
+vi.mock('@/api/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/api/client')>()),
+  get: vi.fn(() => new Promise(() => {})),
+}));
+
+import { uploadAttachmentInChunks } from '@/api/attachments';
+import { get } from '@/api/client';
+
+const mockUpload = vi.mocked(uploadAttachmentInChunks);
+
 function createFieldProps(overrides: Partial<FieldProps> = {}): FieldProps {
   const fieldDef: FieldDef = { type: 'file' };
   return {
@@ -81,6 +96,44 @@ describe('FileField', () => {
     });
   });
 
+  describe('preview', () => {
+    it('opens the previewer with all attachments of the record', () => {
+      render(
+        <FileField
+          {...createFieldProps({
+            value: null,
+            record: {
+              fileId: 'file-1',
+              fileName: 'contract.pdf',
+              fileType: 'application/pdf',
+              imagesIds: ['img-1'],
+              imagesNames: { 'img-1': 'scan.png' },
+              imagesTypes: { 'img-1': 'image/png' },
+            },
+          })}
+          name="file"
+        />
+      );
+
+      fireEvent.click(screen.getByRole('link', { name: 'contract.pdf' }));
+
+      expect(screen.getByRole('dialog')).toBeInTheDocument();
+      expect(get).toHaveBeenCalledWith('/Attachment/file/file-1', { responseType: 'blob' });
+      expect(screen.getByText('1 / 2')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Next attachment' }));
+      expect(screen.getByAltText('scan.png')).toBeInTheDocument();
+    });
+
+    it('keeps modified clicks for the browser', () => {
+      render(<FileField {...createFieldProps({ value: { id: 'file-1', name: 'contract.pdf' } })} />);
+
+      fireEvent.click(screen.getByRole('link', { name: 'contract.pdf' }), { ctrlKey: true });
+
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+  });
+
   describe('list mode', () => {
     it('shows dash for null value', () => {
       render(<FileField {...createFieldProps({ value: null, mode: 'list' })} />);
@@ -212,6 +265,79 @@ describe('FileField', () => {
     });
   });
 
+  describe('uploading', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('uploads a picked file and sets the attachment', async () => {
+      mockUpload.mockResolvedValue({ id: 'att-1', name: 'report.pdf', type: 'application/pdf', size: 3 });
+      const onChange = vi.fn();
+      const { container } = render(<FileField {...createFieldProps({ mode: 'edit', onChange })} />);
+
+      const file = new File(['pdf'], 'report.pdf', { type: 'application/pdf' });
+      fireEvent.change(container.querySelector('input[type="file"]') as HTMLInputElement, {
+        target: { files: [file] },
+      });
+
+      await waitFor(() => {
+        expect(onChange).toHaveBeenCalledWith({ id: 'att-1', name: 'report.pdf', type: 'application/pdf', size: 3 });
+      });
+      expect(mockUpload).toHaveBeenCalledWith(
+        file,
+        expect.objectContaining({ role: 'Attachment', relatedType: 'Document', field: 'attachment' })
+      );
+    });
+
+    it('uploads a dropped file', async () => {
+      mockUpload.mockResolvedValue({ id: 'att-1', name: 'notes.txt' });
+      const onChange = vi.fn();
+      render(<FileField {...createFieldProps({ mode: 'edit', onChange })} />);
+
+      fireEvent.drop(screen.getByTestId('file-drop-zone'), {
+        dataTransfer: { files: [new File(['x'], 'notes.txt')], types: ['Files'] },
+      });
+
+      await waitFor(() => expect(onChange).toHaveBeenCalledWith({ id: 'att-1', name: 'notes.txt' }));
+    });
+
+    it('shows progress and cancels an upload', () => {
+      mockUpload.mockReturnValue(new Promise(() => {}));
+      const onChange = vi.fn();
+      const { container } = render(<FileField {...createFieldProps({ mode: 'edit', onChange })} />);
+
+      fireEvent.change(container.querySelector('input[type="file"]') as HTMLInputElement, {
+        target: { files: [new File(['pdf'], 'report.pdf')] },
+      });
+
+      expect(screen.getByRole('progressbar', { name: 'report.pdf' })).toHaveAttribute('aria-valuenow', '0');
+      expect(screen.queryByText('Choose File')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Cancel upload of report.pdf' }));
+
+      expect(screen.queryByRole('progressbar')).not.toBeInTheDocument();
+      expect(screen.getByText('Choose File')).toBeInTheDocument();
+      expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it('enforces accept and maxFileSize', () => {
+      const fieldDef: FieldDef = { type: 'file', accept: ['.pdf'], maxFileSize: 1 };
+      const { container } = render(<FileField {...createFieldProps({ mode: 'edit', fieldDef })} />);
+      const input = container.querySelector('input[type="file"]') as HTMLInputElement;
+      expect(input).toHaveAttribute('accept', '.pdf');
+
+      fireEvent.change(input, { target: { files: [new File(['x'], 'setup.exe')] } });
+      expect(screen.getByRole('alert')).toHaveTextContent('setup.exe: file type is not allowed');
+
+      const large = new File(['x'], 'big.pdf');
+      Object.defineProperty(large, 'size', { value: 2 * 1024 * 1024 });
+      fireEvent.change(input, { target: { files: [large] } });
+      expect(screen.getByRole('alert')).toHaveTextContent('big.pdf: file should not exceed 1 MB');
+
+      expect(mockUpload).not.toHaveBeenCalled();
+    });
+  });
+
   describe('search mode', () => {
     it('shows dash (files not searchable)', () => {
       render(<FileField {...createFieldProps({ value: null, mode: 'search' })} />);
@@ -1,11 +1,27 @@
 /**
  * ImageField Tests
  */
-import { describe, it, expect, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { ImageField } from '../file/ImageField';
 import type { FieldProps, FieldDef } from '../types';
 
+vi.mock('@/api/attachments', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/api/attachments')>()),
+  uploadAttachmentInChunks: vi.fn(),
+}));
+
+vi.mock('@/lib/image', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/image')>()),
+  processImage: vi.fn(),
+}));
+
+import { uploadAttachmentInChunks } from '@/api/attachments';
+import { processImage } from '@/lib/image';
+
+const mockUpload = vi.mocked(uploadAttachmentInChunks);
+const mockProcessImage = vi.mocked(processImage);
+
 function createFieldProps(overrides: Partial<FieldProps> = {}): FieldProps {
   const fieldDef: FieldDef = { type: 'image' };
   return {
@@ -34,13 +50,13 @@ describe('ImageField', () => {
         />
       );
       const img = screen.getByAltText('photo.jpg');
-      expect(img).toHaveAttribute('src', '/api/v1/Attachment/file/img-123?size=medium');
+      expect(img).toHaveAttribute('src', '/api/v1/Attachment/image/img-123?size=medium');
     });
 
     it('handles string ID value', () => {
       render(<ImageField {...createFieldProps({ value: 'img-123' })} />);
       const img = screen.getByAltText('Image');
-      expect(img).toHaveAttribute('src', '/api/v1/Attachment/file/img-123?size=medium');
+      expect(img).toHaveAttribute('src', '/api/v1/Attachment/image/img-123?size=medium');
     });
 
     it('opens lightbox on click', () => {
@@ -128,7 +144,7 @@ describe('ImageField', () => {
         />
       );
       const img = screen.getByAltText('avatar.png');
-      expect(img).toHaveAttribute('src', '/api/v1/Attachment/file/img-123?size=small');
+      expect(img).toHaveAttribute('src', '/api/v1/Attachment/image/img-123?size=small');
       expect(img).toHaveClass('h-8', 'w-8');
     });
   });
@@ -227,6 +243,82 @@ describe('ImageField', () => {
     });
   });
 
+  describe('uploading', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      mockUpload.mockReturnValue(new Promise(() => {}));
+      URL.createObjectURL = vi.fn(() => 'blob:photo');
+      URL.revokeObjectURL = vi.fn();
+    });
+
+    function pickFile(container: HTMLElement, file: File): void {
+      fireEvent.change(container.querySelector('input[type="file"]') as HTMLInputElement, {
+        target: { files: [file] },
+      });
+    }
+
+    it('crops photos before uploading them', async () => {
+      mockProcessImage.mockResolvedValue(new Blob(['small'], { type: 'image/jpeg' }));
+      const fieldDef: FieldDef = {
+        type: 'image',
+        params: { cropPreset: 'square', imageMaxWidth: 512, imageMaxHeight: 512, imageQuality: 0.8 },
+      };
+      const { container } = render(
+        <ImageField {...createFieldProps({ value: null, mode: 'edit', fieldDef })} />
+      );
+
+      pickFile(container, new File(['photo'], 'photo.png', { type: 'image/png' }));
+
+      expect(screen.getByRole('dialog')).toHaveTextContent('Crop image');
+      expect(screen.getByRole('button', { name: 'Square (avatar)' })).toHaveAttribute('aria-pressed', 'true');
+      expect(mockUpload).not.toHaveBeenCalled();
+
+      const image = screen.getByAltText('photo.png');
+      Object.defineProperty(image, 'naturalWidth', { value: 800 });
+      Object.defineProperty(image, 'naturalHeight', { value: 600 });
+      fireEvent.load(image);
+      fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+
+      await waitFor(() => expect(mockUpload).toHaveBeenCalled());
+      expect(mockProcessImage).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ maxWidth: 512, maxHeight: 512, quality: 0.8, mimeType: 'image/png' })
+      );
+      expect(mockUpload.mock.calls[0]?.[0].size).toBe(5);
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+
+    it('discards the photo when cropping is cancelled', () => {
+      const { container } = render(<ImageField {...createFieldProps({ value: null, mode: 'edit' })} />);
+
+      pickFile(container, new File(['photo'], 'photo.jpg', { type: 'image/jpeg' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+      expect(mockUpload).not.toHaveBeenCalled();
+    });
+
+    it('uploads animated images without cropping', () => {
+      const { container } = render(<ImageField {...createFieldProps({ value: null, mode: 'edit' })} />);
+
+      pickFile(container, new File(['gif'], 'wave.gif', { type: 'image/gif' }));
+
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+      expect(mockUpload).toHaveBeenCalledWith(expect.objectContaining({ name: 'wave.gif' }), expect.anything());
+    });
+
+    it('rejects files that are not images', () => {
+      const { container } = render(<ImageField {...createFieldProps({ value: null, mode: 'edit' })} />);
+
+      fireEvent.change(container.querySelector('input[type="file"]') as HTMLInputElement, {
+        target: { files: [new File(['x'], 'notes.txt', { type: 'text/plain' })] },
+      });
+
+      expect(screen.getByRole('alert')).toHaveTextContent('notes.txt: file type is not allowed');
+      expect(mockUpload).not.toHaveBeenCalled();
+    });
+  });
+
   describe('search mode', () => {
     it('shows dash (images not searchable)', () => {
       render(<ImageField {...createFieldProps({ value: null, mode: 'search' })} />);
@@ -250,7 +342,7 @@ describe('ImageField', () => {
         />
       );
       const img = container.querySelector('img');
-      expect(img).toHaveAttribute('src', '/api/v1/Attachment/file/img-123?size=small');
+      expect(img).toHaveAttribute('src', '/api/v1/Attachment/image/img-123?size=small');
     });
   });
 
@@ -0,0 +1,70 @@
+/**
+ * InlineEditableField Tests
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import type { ComponentProps } from 'react';
+import { InlineEditableField } from '../InlineEditableField';
+
+vi.mock('../FieldRenderer', () => ({
+  FieldRenderer: ({ name, value, mode }: { name: string; value: unknown; mode: string }) => (
+    <span data-testid={`${name}-${mode}`}>{String(value ?? '')}</span>
+  ),
+}));
+
+const dynamicState = vi.hoisted(() => ({ current: { required: false, invalid: false } }));
+
+vi.mock('@/lib/dynamicLogic', () => ({
+  useFieldDynamicLogic: () => dynamicState.current,
+}));
+
+const translations: Record<string, string> = {
+  'Account.fields.name': 'Nom',
+  'Global.messages.fieldIsRequired': '{field} est obligatoire',
+  'Global.messages.fieldInvalid': '{field} est invalide',
+};
+
+vi.mock('@/hooks/useTranslation', () => {
+  const helpers = {
+    t: (key: string): string => translations[key] ?? key,
+    translateField: (entityType: string, field: string): string =>
+      translations[`${entityType}.fields.${field}`] ?? field,
+  };
+  return { useTranslation: () => helpers };
+});
+
+function renderEditing(props: Partial<ComponentProps<typeof InlineEditableField>> = {}) {
+  render(
+    <InlineEditableField
+      name="name"
+      value=""
+      fieldDef={{ type: 'varchar', required: true }}
+      entityType="Account"
+      onSave={vi.fn()}
+      {...props}
+    />
+  );
+  fireEvent.click(screen.getByRole('button'));
+  fireEvent.click(screen.getByTitle('Save (Ctrl+Enter)'));
+}
+
+describe('InlineEditableField', () => {
+  beforeEach(() => {
+    dynamicState.current = { required: false, invalid: false };
+  });
+
+  it('shows a translated message for an empty required field', () => {
+    const onSave = vi.fn();
+    renderEditing({ onSave });
+
+    expect(screen.getByText('Nom est obligatoire')).toBeInTheDocument();
+    expect(onSave).not.toHaveBeenCalled();
+  });
+
+  it('shows a translated message for a value dynamic logic marks invalid', () => {
+    dynamicState.current = { required: false, invalid: true };
+    renderEditing({ value: 'Acme', label: 'Company' });
+
+    expect(screen.getByText('Company est invalide')).toBeInTheDocument();
+  });
+});
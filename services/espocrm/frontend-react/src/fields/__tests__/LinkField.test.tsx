@@ -140,9 +140,31 @@ describe('LinkField', () => {
         expect(mockSelectRecord).toHaveBeenCalledWith({
           entityType: 'Account',
           multiple: false,
+          createButton: true,
         });
       });
 
+      it('passes the select filters of the field definition', () => {
+        mockSelectRecord.mockResolvedValue(null);
+
+        renderLinkField({
+          mode: 'edit',
+          fieldDef: {
+            type: 'link',
+            entity: 'Account',
+            selectPrimaryFilterName: 'customers',
+            selectBoolFilterList: ['onlyMy'],
+          },
+          onChange: vi.fn(),
+        });
+
+        fireEvent.click(screen.getByText(/Select Account/i));
+
+        expect(mockSelectRecord).toHaveBeenCalledWith(
+          expect.objectContaining({ primaryFilter: 'customers', boolFilterList: ['onlyMy'] })
+        );
+      });
+
       it('calls quickCreate when plus button clicked', () => {
         const onChange = vi.fn();
 
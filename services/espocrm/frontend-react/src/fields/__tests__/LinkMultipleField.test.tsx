@@ -1,11 +1,52 @@
 import React from 'react';
-import { describe, it, expect, vi } from 'vitest';
-import { screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, fireEvent, waitFor } from '@testing-library/react';
 import { render } from '@testing-library/react';
 import { MemoryRouter } from 'react-router-dom';
 import { LinkMultipleField } from '../relation/LinkMultipleField';
 import { createFieldProps } from './testUtils';
 
+// Mock useModal hook
+const mockSelectRecord = vi.fn();
+
+vi.mock('@/components/modals', () => ({
+  useModal: () => ({
+    selectRecord: mockSelectRecord,
+  }),
+}));
+
+// Mock metadata: contacts carry their role on an opportunity
+vi.mock('@/lib/metadata/useMetadata', () => ({
+  useMetadata: () => ({
+    metadata: {
+      entityDefs: {
+        Contact: {
+          fields: {
+            opportunityRole: { type: 'enum', options: ['', 'Decision Maker', 'Influencer'] },
+          },
+        },
+      },
+    },
+    isLoading: false,
+  }),
+}));
+
+// Translations available to the field; empty means every key is untranslated
+const translations = vi.hoisted(() => ({ current: {} as Record<string, string> }));
+
+vi.mock('@/hooks/useTranslation', () => {
+  const translate = (key: string, fallback: string): string => translations.current[key] ?? fallback;
+  const helpers = {
+    t: (key: string): string => translate(key, key),
+    translateEntity: (entityType: string): string => translate(`${entityType}.label`, entityType),
+    translateField: (entityType: string, field: string): string =>
+      translate(`${entityType}.fields.${field}`, field),
+    translateOption: (entityType: string, field: string, value: string): string =>
+      translate(`${entityType}.options.${field}.${value}`, value),
+  };
+  return { useTranslation: () => helpers };
+});
+
 // Wrapper with router
 function renderWithRouter(props: Parameters<typeof createFieldProps>[0] = {}) {
   const mergedProps = createFieldProps({
@@ -26,6 +67,10 @@ describe('LinkMultipleField', () => {
     { id: 'con-003', name: 'Bob Wilson' },
   ];
 
+  beforeEach(() => {
+    translations.current = {};
+  });
+
   describe('detail mode', () => {
     it('displays multiple links', () => {
       renderWithRouter({
@@ -178,6 +223,31 @@ describe('LinkMultipleField', () => {
       expect(screen.getByText('Add Contact')).toBeInTheDocument();
     });
 
+    it('adds the records picked in the select modal', async () => {
+      mockSelectRecord.mockResolvedValue([{ id: 'con-003', name: 'Bob Wilson' }]);
+      const onChange = vi.fn();
+      renderWithRouter({
+        value: sampleLinks.slice(0, 2),
+        mode: 'edit',
+        onChange,
+        fieldDef: { type: 'linkMultiple', entity: 'Contact', selectPrimaryFilterName: 'active' },
+      });
+
+      fireEvent.click(screen.getByText('Add Contact'));
+
+      expect(mockSelectRecord).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entityType: 'Contact',
+          multiple: true,
+          excludeIds: ['con-001', 'con-002'],
+          primaryFilter: 'active',
+        })
+      );
+      await waitFor(() => {
+        expect(onChange).toHaveBeenCalledWith(sampleLinks);
+      });
+    });
+
     it('hides remove buttons when disabled', () => {
       renderWithRouter({
         value: sampleLinks.slice(0, 2),
@@ -216,6 +286,92 @@ describe('LinkMultipleField', () => {
     });
   });
 
+  describe('relationship columns', () => {
+    const fieldDef = { type: 'linkMultiple', entity: 'Contact', columns: { role: 'opportunityRole' } };
+    const record = {
+      contactsIds: ['con-001', 'con-002'],
+      contactsNames: { 'con-001': 'John Doe', 'con-002': 'Jane Smith' },
+      contactsColumns: { 'con-001': { role: 'Decision Maker' }, 'con-002': { role: null } },
+    };
+
+    it('shows the column values next to each link in detail mode', () => {
+      renderWithRouter({ name: 'contacts', value: null, mode: 'detail', fieldDef, record });
+
+      expect(screen.getByText('(Decision Maker)')).toBeInTheDocument();
+      expect(screen.getAllByText(/^\(/)).toHaveLength(1);
+    });
+
+    it('edits the column values in edit mode', () => {
+      const onChange = vi.fn();
+      renderWithRouter({ name: 'contacts', value: null, mode: 'edit', fieldDef, record, onChange });
+
+      expect(screen.getByRole('combobox', { name: 'Role of John Doe' })).toHaveValue('Decision Maker');
+
+      fireEvent.change(screen.getByRole('combobox', { name: 'Role of Jane Smith' }), {
+        target: { value: 'Influencer' },
+      });
+
+      expect(onChange).toHaveBeenCalledWith([
+        { id: 'con-001', name: 'John Doe', columns: { role: 'Decision Maker' } },
+        { id: 'con-002', name: 'Jane Smith', columns: { role: 'Influencer' } },
+      ]);
+    });
+
+    it('keeps the column values of the remaining links on remove', () => {
+      const onChange = vi.fn();
+      renderWithRouter({ name: 'contacts', value: null, mode: 'edit', fieldDef, record, onChange });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Remove Jane Smith' }));
+
+      expect(onChange).toHaveBeenCalledWith([
+        { id: 'con-001', name: 'John Doe', columns: { role: 'Decision Maker' } },
+      ]);
+    });
+  });
+
+  describe('translations', () => {
+    const fieldDef = { type: 'linkMultiple', entity: 'Contact', columns: { role: 'opportunityRole' } };
+    const record = {
+      contactsIds: ['con-001'],
+      contactsNames: { 'con-001': 'John Doe' },
+      contactsColumns: { 'con-001': { role: 'Decision Maker' } },
+    };
+
+    beforeEach(() => {
+      translations.current = {
+        'Contact.label': 'Kontakt',
+        'Contact.fields.opportunityRole': 'Rolle',
+        'Contact.options.opportunityRole.Decision Maker': 'Entscheider',
+        'Global.labels.addRecord': '{entityType} hinzufügen',
+        'Global.labels.removeRecord': '{name} entfernen',
+        'Global.labels.noRecordsSelected': 'Kein {entityType} ausgewählt',
+        'Global.labels.columnOfRecord': '{column} von {name}',
+      };
+    });
+
+    it('translates column values in detail mode', () => {
+      renderWithRouter({ name: 'contacts', value: null, mode: 'detail', fieldDef, record });
+
+      expect(screen.getByText('(Entscheider)')).toBeInTheDocument();
+    });
+
+    it('translates labels, column names and options in edit mode', () => {
+      renderWithRouter({ name: 'contacts', value: null, mode: 'edit', fieldDef, record });
+
+      const roleSelect = screen.getByRole('combobox', { name: 'Rolle von John Doe' });
+      expect(roleSelect).toHaveValue('Decision Maker');
+      expect(screen.getByRole('option', { name: 'Entscheider' })).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'John Doe entfernen' })).toBeInTheDocument();
+      expect(screen.getByText('Kontakt hinzufügen')).toBeInTheDocument();
+    });
+
+    it('translates the empty state', () => {
+      renderWithRouter({ value: [], mode: 'edit' });
+
+      expect(screen.getByText('Kein Kontakt ausgewählt')).toBeInTheDocument();
+    });
+  });
+
   describe('search mode', () => {
     it('renders search input with entity placeholder', () => {
       renderWithRouter({
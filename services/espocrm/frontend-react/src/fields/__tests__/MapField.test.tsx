@@ -1,10 +1,11 @@
 /**
  * MapField Tests
  */
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { MapField } from '../special/MapField';
 import type { FieldProps, FieldDef } from '../types';
+import { useAuthStore } from '@/features/auth/store';
 
 function createFieldProps(overrides: Partial<FieldProps> = {}): FieldProps {
   const fieldDef: FieldDef = { type: 'map' };
@@ -18,7 +19,13 @@ function createFieldProps(overrides: Partial<FieldProps> = {}): FieldProps {
   };
 }
 
+const TILE_URL = 'https://tiles.internal/{z}/{x}/{y}.png';
+
 describe('MapField', () => {
+  beforeEach(() => {
+    useAuthStore.setState({ settings: { mapTileUrl: TILE_URL } });
+  });
+
   describe('detail mode', () => {
     it('shows dash for null value', () => {
       render(<MapField {...createFieldProps({ value: null })} />);
@@ -56,7 +63,7 @@ describe('MapField', () => {
       expect(screen.getByText('48.856600, 2.352200')).toBeInTheDocument();
     });
 
-    it('links to Google Maps', () => {
+    it('links to the external map', () => {
       render(
         <MapField
           {...createFieldProps({
@@ -65,7 +72,10 @@ describe('MapField', () => {
         />
       );
       const link = screen.getByRole('link', { name: /40.712800/ });
-      expect(link).toHaveAttribute('href', 'https://www.google.com/maps?q=40.7128,-74.006');
+      expect(link).toHaveAttribute(
+        'href',
+        'https://www.openstreetmap.org/?mlat=40.7128&mlon=-74.006#map=15/40.7128/-74.006'
+      );
     });
 
     it('opens link in new tab', () => {
@@ -81,7 +91,24 @@ describe('MapField', () => {
       expect(link).toHaveAttribute('rel', 'noopener noreferrer');
     });
 
-    it('renders map image', () => {
+    it('renders tiles from the tile server with a marker', () => {
+      render(
+        <MapField
+          {...createFieldProps({
+            value: { latitude: 40.7128, longitude: -74.006 },
+          })}
+        />
+      );
+      expect(screen.getByRole('region', { name: 'Map' })).toBeInTheDocument();
+      expect(screen.getByRole('img', { name: '40.712800, -74.006000' })).toBeInTheDocument();
+      const tiles = Array.from(document.querySelectorAll('img[alt=""]'));
+      expect(tiles.length).toBeGreaterThan(0);
+      expect(tiles[0]).toHaveAttribute('src', expect.stringMatching(/^https:\/\/tiles\.internal\/15\/\d+\/\d+\.png$/));
+      expect(document.body.innerHTML).not.toContain('staticmap.openstreetmap.de');
+    });
+
+    it('uses the configured link', () => {
+      useAuthStore.setState({ settings: { mapTileUrl: TILE_URL, mapLinkUrl: '' } });
       render(
         <MapField
           {...createFieldProps({
@@ -89,8 +116,56 @@ describe('MapField', () => {
           })}
         />
       );
-      const img = screen.getByAltText('Map location');
-      expect(img).toHaveAttribute('src', expect.stringContaining('staticmap.openstreetmap.de'));
+      expect(document.querySelector('img[alt=""]')).toHaveAttribute(
+        'src',
+        expect.stringMatching(/^https:\/\/tiles\.internal\//)
+      );
+      expect(screen.queryByRole('link')).not.toBeInTheDocument();
+      expect(screen.getByText('40.712800, -74.006000')).toBeInTheDocument();
+    });
+
+    it('marks the address coordinates of an address map field', () => {
+      render(
+        <MapField
+          {...createFieldProps({
+            name: 'billingAddressMap',
+            value: null,
+            record: {
+              billingAddressStreet: '1 Main St',
+              billingAddressCity: 'Springfield',
+              billingAddressLatitude: 39.7817,
+              billingAddressLongitude: -89.6501,
+            },
+          })}
+        />
+      );
+      expect(screen.getByRole('img', { name: '1 Main St, Springfield' })).toBeInTheDocument();
+      expect(screen.getByText('39.781700, -89.650100')).toBeInTheDocument();
+    });
+
+    it('falls back to the default provider for unavailable ones', () => {
+      const fieldDef: FieldDef = { type: 'map', provider: 'Google' };
+      render(
+        <MapField {...createFieldProps({ fieldDef, value: { latitude: 40.7128, longitude: -74.006 } })} />
+      );
+      expect(screen.getByRole('region', { name: 'Map' })).toBeInTheDocument();
+    });
+
+    it('lists the location until a tile server is configured', () => {
+      useAuthStore.setState({ settings: null });
+      render(<MapField {...createFieldProps({ value: { latitude: 40.7128, longitude: -74.006 } })} />);
+      expect(screen.queryByRole('region', { name: 'Map' })).not.toBeInTheDocument();
+      expect(document.querySelector('img')).not.toBeInTheDocument();
+      expect(screen.getAllByText('40.712800, -74.006000').length).toBeGreaterThan(0);
+    });
+
+    it('lists the location without a map for the None provider', () => {
+      const fieldDef: FieldDef = { type: 'map', provider: 'None' };
+      render(
+        <MapField {...createFieldProps({ fieldDef, value: { latitude: 40.7128, longitude: -74.006 } })} />
+      );
+      expect(screen.queryByRole('region', { name: 'Map' })).not.toBeInTheDocument();
+      expect(document.querySelector('img')).not.toBeInTheDocument();
     });
 
     it('shows dash for invalid coordinates', () => {
@@ -122,7 +197,7 @@ describe('MapField', () => {
       expect(screen.getByText('35.676200, 139.650300')).toBeInTheDocument();
     });
 
-    it('links to Google Maps in list mode', () => {
+    it('links to the external map in list mode', () => {
       render(
         <MapField
           {...createFieldProps({
@@ -132,7 +207,7 @@ describe('MapField', () => {
         />
       );
       const link = screen.getByRole('link');
-      expect(link).toHaveAttribute('href', 'https://www.google.com/maps?q=35.6762,139.6503');
+      expect(link).toHaveAttribute('href', expect.stringContaining('mlat=35.6762&mlon=139.6503'));
     });
 
     it('has font-mono class for coordinates', () => {
@@ -133,6 +133,37 @@ describe('MultiEnumField', () => {
       );
       expect(screen.getByText('No options available')).toBeInTheDocument();
     });
+
+    it('only offers filtered options', () => {
+      render(
+        <MultiEnumField
+          {...createFieldProps({
+            value: [],
+            mode: 'edit',
+            fieldDef: { type: 'multiEnum', options, filteredOptions: ['Option1', 'Option3'] },
+          })}
+        />
+      );
+
+      expect(screen.getAllByRole('checkbox')).toHaveLength(2);
+      expect(screen.queryByText('Option2')).not.toBeInTheDocument();
+    });
+
+    it('drops values that are no longer allowed', () => {
+      const onChange = vi.fn();
+      render(
+        <MultiEnumField
+          {...createFieldProps({
+            value: ['Option1', 'Option2'],
+            mode: 'edit',
+            fieldDef: { type: 'multiEnum', options, filteredOptions: ['Option1', 'Option3'] },
+            onChange,
+          })}
+        />
+      );
+
+      expect(onChange).toHaveBeenCalledWith(['Option1']);
+    });
   });
 
   describe('search mode', () => {
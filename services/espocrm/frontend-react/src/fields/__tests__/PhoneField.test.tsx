@@ -1,10 +1,13 @@
 /**
  * PhoneField Tests
  */
-import { describe, it, expect, vi } from 'vitest';
+import React, { useState } from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { PhoneField } from '../special/PhoneField';
 import type { FieldProps, FieldDef } from '../types';
+import { useAuthStore } from '@/features/auth/store';
+import { registerCallHandler, unregisterCallHandler } from '@/lib/phone';
 
 function createFieldProps(overrides: Partial<FieldProps> = {}): FieldProps {
   const fieldDef: FieldDef = { type: 'phone' };
@@ -18,7 +21,28 @@ function createFieldProps(overrides: Partial<FieldProps> = {}): FieldProps {
   };
 }
 
+function EditablePhone({ onChange, ...props }: Partial<FieldProps>): React.ReactElement {
+  const [value, setValue] = useState<unknown>(props.value ?? null);
+  return (
+    <PhoneField
+      {...createFieldProps({ ...props, mode: 'edit', value })}
+      onChange={(next) => {
+        setValue(next);
+        onChange?.(next);
+      }}
+    />
+  );
+}
+
 describe('PhoneField', () => {
+  beforeEach(() => {
+    useAuthStore.setState({ settings: { phoneNumberDefaultCountry: 'US' }, preferences: null });
+  });
+
+  afterEach(() => {
+    useAuthStore.setState({ settings: null, preferences: null });
+  });
+
   describe('detail mode', () => {
     it('shows dash for empty value', () => {
       render(<PhoneField {...createFieldProps({ value: null })} />);
@@ -26,34 +50,98 @@ describe('PhoneField', () => {
     });
 
     it('displays phone number as clickable link', () => {
-      render(<PhoneField {...createFieldProps({ value: '5551234567' })} />);
+      render(<PhoneField {...createFieldProps({ value: '+12125550100' })} />);
       const link = screen.getByRole('link');
-      expect(link).toHaveAttribute('href', 'tel:5551234567');
+      expect(link).toHaveAttribute('href', 'tel:+12125550100');
     });
 
-    it('formats US phone number correctly', () => {
-      render(<PhoneField {...createFieldProps({ value: '5551234567' })} />);
-      expect(screen.getByText('(555) 123-4567')).toBeInTheDocument();
+    it('formats numbers of the default country nationally', () => {
+      render(<PhoneField {...createFieldProps({ value: '+12125550100' })} />);
+      expect(screen.getByText('(212) 555-0100')).toBeInTheDocument();
     });
 
-    it('formats US phone with country code', () => {
-      render(<PhoneField {...createFieldProps({ value: '15551234567' })} />);
-      expect(screen.getByText('+1 (555) 123-4567')).toBeInTheDocument();
+    it('reads legacy numbers stored without a calling code', () => {
+      render(<PhoneField {...createFieldProps({ value: '12125550100' })} />);
+      expect(screen.getByRole('link', { name: '(212) 555-0100' })).toHaveAttribute('href', 'tel:+12125550100');
+    });
+
+    it('formats other countries internationally', () => {
+      render(<PhoneField {...createFieldProps({ value: '+442079460958' })} />);
+      expect(screen.getByText('+44 20 7946 0958')).toBeInTheDocument();
+    });
+
+    it('uses the international format when the user prefers it', () => {
+      useAuthStore.setState({ preferences: { phoneNumberFormat: 'international' } });
+      render(<PhoneField {...createFieldProps({ value: '+12125550100' })} />);
+      expect(screen.getByText('+1 212 555 0100')).toBeInTheDocument();
     });
 
     it('displays multiple phone numbers', () => {
       const phones = [
-        { phoneNumber: '5551234567', type: 'Work', primary: true },
-        { phoneNumber: '5559876543', type: 'Mobile' },
+        { phoneNumber: '+12125550100', type: 'Work', primary: true },
+        { phoneNumber: '+12125550199', type: 'Mobile' },
       ];
       render(<PhoneField {...createFieldProps({ value: phones })} />);
 
-      expect(screen.getByText('(555) 123-4567')).toBeInTheDocument();
-      expect(screen.getByText('(555) 987-6543')).toBeInTheDocument();
+      expect(screen.getByText('(212) 555-0100')).toBeInTheDocument();
+      expect(screen.getByText('(212) 555-0199')).toBeInTheDocument();
       expect(screen.getByText('(Work)')).toBeInTheDocument();
       expect(screen.getByText('(Mobile)')).toBeInTheDocument();
       expect(screen.getByText('Primary')).toBeInTheDocument();
     });
+
+    it('reads the numbers from the data attribute of the record', () => {
+      render(
+        <PhoneField
+          {...createFieldProps({
+            value: '+12125550100',
+            record: {
+              phoneData: [
+                { phoneNumber: '+12125550100', type: 'Office', primary: true },
+                { phoneNumber: '+12125550199', type: 'Home', optOut: true },
+                { phoneNumber: '+12125550111', type: 'Fax', invalid: true },
+              ],
+            },
+          })}
+        />
+      );
+
+      expect(screen.getAllByRole('link')).toHaveLength(1);
+      expect(screen.getByText('(212) 555-0199')).toHaveClass('line-through');
+      expect(screen.getByText('Opted out')).toBeInTheDocument();
+      expect(screen.getByText('Invalid')).toBeInTheDocument();
+    });
+  });
+
+  describe('click-to-call', () => {
+    afterEach(() => {
+      unregisterCallHandler('Softphone', 'test');
+    });
+
+    it('uses the configured link template', () => {
+      useAuthStore.setState({ settings: { phoneNumberDefaultCountry: 'US', phoneCallUrl: 'sip:{number}@pbx.local' } });
+      render(<PhoneField {...createFieldProps({ value: '+12125550100' })} />);
+      expect(screen.getByRole('link')).toHaveAttribute('href', 'sip:+12125550100@pbx.local');
+    });
+
+    it('hands calls to the selected softphone', () => {
+      const call = vi.fn();
+      registerCallHandler('Softphone', { label: 'Softphone', call }, 'test');
+      useAuthStore.setState({ preferences: { phoneCallHandler: 'Softphone' } });
+
+      render(
+        <PhoneField {...createFieldProps({ value: '(212) 555-0100', record: { id: 'c1' } })} />
+      );
+      fireEvent.click(screen.getByRole('button', { name: '(212) 555-0100' }));
+
+      expect(call).toHaveBeenCalledWith('+12125550100', { entityType: 'Contact', recordId: 'c1', field: 'phone' });
+    });
+
+    it('falls back to phone links for unknown handlers', () => {
+      useAuthStore.setState({ preferences: { phoneCallHandler: 'Missing' } });
+      render(<PhoneField {...createFieldProps({ value: '+12125550100' })} />);
+      expect(screen.getByRole('link')).toHaveAttribute('href', 'tel:+12125550100');
+    });
   });
 
   describe('list mode', () => {
@@ -64,14 +152,14 @@ describe('PhoneField', () => {
 
     it('displays primary phone as link', () => {
       const phones = [
-        { phoneNumber: '5551234567', primary: true },
-        { phoneNumber: '5559876543' },
+        { phoneNumber: '+12125550199' },
+        { phoneNumber: '+12125550100', primary: true },
       ];
       render(<PhoneField {...createFieldProps({ value: phones, mode: 'list' })} />);
 
       const link = screen.getByRole('link');
-      expect(link).toHaveAttribute('href', 'tel:5551234567');
-      expect(link).toHaveTextContent('(555) 123-4567');
+      expect(link).toHaveAttribute('href', 'tel:+12125550100');
+      expect(link).toHaveTextContent('(212) 555-0100');
     });
   });
 
@@ -84,21 +172,94 @@ describe('PhoneField', () => {
     });
 
     it('displays current value', () => {
-      render(<PhoneField {...createFieldProps({ value: '5551234567', mode: 'edit' })} />);
-      expect(screen.getByRole('textbox')).toHaveValue('5551234567');
+      render(<PhoneField {...createFieldProps({ value: '+12125550100', mode: 'edit' })} />);
+      expect(screen.getByRole('textbox')).toHaveValue('+12125550100');
     });
 
     it('calls onChange when value changes', () => {
       const onChange = vi.fn();
       render(<PhoneField {...createFieldProps({ value: '', mode: 'edit', onChange })} />);
 
-      fireEvent.change(screen.getByRole('textbox'), { target: { value: '5551234567' } });
-      expect(onChange).toHaveBeenCalledWith('5551234567');
+      fireEvent.change(screen.getByRole('textbox'), { target: { value: '2125550100' } });
+      expect(onChange).toHaveBeenCalledWith([{ phoneNumber: '2125550100', primary: true }]);
+    });
+
+    it('stores numbers in E.164 on blur', () => {
+      const onChange = vi.fn();
+      render(<EditablePhone onChange={onChange} />);
+
+      const input = screen.getByRole('textbox');
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: '(212) 555-0100' } });
+      fireEvent.blur(input);
+
+      expect(onChange).toHaveBeenLastCalledWith([{ phoneNumber: '+12125550100', primary: true }]);
+    });
+
+    it('flags numbers that are not valid after typing', () => {
+      render(<EditablePhone />);
+
+      const input = screen.getByRole('textbox');
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: '123' } });
+      expect(screen.queryByText('Not a valid phone number')).not.toBeInTheDocument();
+
+      fireEvent.blur(input);
+      expect(screen.getByText('Not a valid phone number')).toBeInTheDocument();
+      expect(input).toHaveAttribute('aria-invalid', 'true');
+    });
+
+    it('adds numbers with types and moves the primary flag', () => {
+      const onChange = vi.fn();
+      render(
+        <EditablePhone
+          value={[{ phoneNumber: '+12125550100', type: 'Office', primary: true }]}
+          fieldDef={{ type: 'phone', typeList: ['Mobile', 'Office', 'Home'], defaultType: 'Mobile' }}
+          onChange={onChange}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Add phone number' }));
+      fireEvent.change(screen.getAllByRole('textbox')[1]!, { target: { value: '+12125550199' } });
+      fireEvent.change(screen.getAllByRole('combobox')[1]!, { target: { value: 'Home' } });
+      fireEvent.click(screen.getAllByRole('button', { name: 'Primary' })[1]!);
+
+      expect(onChange).toHaveBeenLastCalledWith([
+        { phoneNumber: '+12125550100', type: 'Office', primary: false },
+        { phoneNumber: '+12125550199', type: 'Home', primary: true },
+      ]);
+    });
+
+    it('toggles opt-out and invalid flags and removes numbers', () => {
+      const onChange = vi.fn();
+      render(
+        <EditablePhone
+          value={[
+            { phoneNumber: '+12125550100', primary: true },
+            { phoneNumber: '+12125550199' },
+          ]}
+          onChange={onChange}
+        />
+      );
+
+      fireEvent.click(screen.getAllByRole('button', { name: 'Opted out' })[1]!);
+      fireEvent.click(screen.getAllByRole('button', { name: 'Invalid' })[1]!);
+      expect(screen.getAllByRole('button', { name: 'Opted out' })[1]).toHaveAttribute('aria-pressed', 'true');
+      expect(onChange).toHaveBeenLastCalledWith([
+        { phoneNumber: '+12125550100', primary: true },
+        { phoneNumber: '+12125550199', optOut: true, invalid: true },
+      ]);
+
+      fireEvent.click(screen.getAllByRole('button', { name: 'Remove phone number' })[0]!);
+      expect(onChange).toHaveBeenLastCalledWith([
+        { phoneNumber: '+12125550199', optOut: true, invalid: true, primary: true },
+      ]);
     });
 
     it('disables input when disabled', () => {
       render(<PhoneField {...createFieldProps({ value: '', mode: 'edit', disabled: true })} />);
       expect(screen.getByRole('textbox')).toBeDisabled();
+      expect(screen.queryByRole('button', { name: 'Add phone number' })).not.toBeInTheDocument();
     });
 
     it('makes input readonly when readOnly', () => {
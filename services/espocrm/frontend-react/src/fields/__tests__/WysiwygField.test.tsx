@@ -1,11 +1,20 @@
 /**
  * WysiwygField Tests
  */
-import { describe, it, expect, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { WysiwygField } from '../text/WysiwygField';
 import type { FieldProps, FieldDef } from '../types';
 
+vi.mock('@/api/attachments', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/api/attachments')>()),
+  uploadAttachment: vi.fn(),
+}));
+
+import { uploadAttachment } from '@/api/attachments';
+
+const mockUploadAttachment = vi.mocked(uploadAttachment);
+
 function createFieldProps(overrides: Partial<FieldProps> = {}): FieldProps {
   const fieldDef: FieldDef = { type: 'wysiwyg' };
   return {
@@ -43,6 +52,20 @@ describe('WysiwygField', () => {
       expect(container.firstChild).toHaveClass('prose');
     });
 
+    it('sanitizes stored HTML', () => {
+      const { container } = render(
+        <WysiwygField
+          {...createFieldProps({
+            value: '<p>Safe</p><script>alert(1)</script><img src="x" onerror="alert(1)"><a href="javascript:alert(1)">Link</a>',
+          })}
+        />
+      );
+      expect(container.querySelector('script')).toBeNull();
+      expect(container.querySelector('img')).not.toHaveAttribute('onerror');
+      expect(screen.getByText('Link')).not.toHaveAttribute('href');
+      expect(screen.getByText('Safe')).toBeInTheDocument();
+    });
+
     it('renders nested HTML elements', () => {
       const html = '<ul><li>Item 1</li><li>Item 2</li></ul>';
       render(<WysiwygField {...createFieldProps({ value: html })} />);
@@ -76,6 +99,13 @@ describe('WysiwygField', () => {
       expect(content.textContent).toHaveLength(103); // 100 chars + "..."
     });
 
+    it('ignores script content in the preview', () => {
+      render(
+        <WysiwygField {...createFieldProps({ value: '<p>Visible</p><script>hidden()</script>', mode: 'list' })} />
+      );
+      expect(screen.getByText('Visible')).toBeInTheDocument();
+    });
+
     it('does not truncate short content', () => {
       render(<WysiwygField {...createFieldProps({ value: '<p>Short text</p>', mode: 'list' })} />);
       expect(screen.getByText('Short text')).toBeInTheDocument();
@@ -88,55 +118,72 @@ describe('WysiwygField', () => {
   });
 
   describe('edit mode', () => {
-    it('renders textarea', () => {
+    beforeEach(() => {
+      // jsdom has no editing commands
+      Object.defineProperty(document, 'execCommand', {
+        value: vi.fn(),
+        configurable: true,
+        writable: true,
+      });
+    });
+
+    it('renders a rich text editor with a toolbar', () => {
       render(<WysiwygField {...createFieldProps({ value: '', mode: 'edit' })} />);
-      expect(screen.getByRole('textbox')).toBeInTheDocument();
+      expect(screen.getByRole('textbox')).toHaveAttribute('contenteditable', 'true');
+      expect(screen.getByRole('toolbar')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Insert image' })).toBeInTheDocument();
     });
 
-    it('populates textarea with existing value', () => {
+    it('populates the editor with the existing value', () => {
       render(<WysiwygField {...createFieldProps({ value: '<p>Content</p>', mode: 'edit' })} />);
-      expect(screen.getByDisplayValue('<p>Content</p>')).toBeInTheDocument();
+      expect(screen.getByRole('textbox').innerHTML).toBe('<p>Content</p>');
     });
 
     it('shows placeholder', () => {
       render(<WysiwygField {...createFieldProps({ value: '', mode: 'edit' })} />);
-      expect(screen.getByPlaceholderText(/Enter content/)).toBeInTheDocument();
-    });
-
-    it('shows HTML support hint', () => {
-      render(<WysiwygField {...createFieldProps({ value: '', mode: 'edit' })} />);
-      expect(screen.getByText('HTML formatting is supported')).toBeInTheDocument();
+      expect(screen.getByRole('textbox')).toHaveAttribute('data-placeholder', 'Enter content...');
     });
 
-    it('calls onChange on input', () => {
+    it('calls onChange with sanitized HTML on input', () => {
       const onChange = vi.fn();
       render(<WysiwygField {...createFieldProps({ value: '', mode: 'edit', onChange })} />);
 
-      fireEvent.change(screen.getByRole('textbox'), {
-        target: { value: '<p>New content</p>' },
-      });
+      const editor = screen.getByRole('textbox');
+      editor.innerHTML = '<p onclick="alert(1)">New content</p>';
+      fireEvent.input(editor);
 
       expect(onChange).toHaveBeenCalledWith('<p>New content</p>');
     });
 
-    it('disables textarea when disabled', () => {
+    it('disables the toolbar when disabled', () => {
       render(<WysiwygField {...createFieldProps({ value: '', mode: 'edit', disabled: true })} />);
-      expect(screen.getByRole('textbox')).toBeDisabled();
+      expect(screen.getByRole('button', { name: 'Bold' })).toBeDisabled();
     });
 
-    it('makes textarea readonly when readOnly', () => {
+    it('is not editable when readOnly', () => {
       render(<WysiwygField {...createFieldProps({ value: '', mode: 'edit', readOnly: true })} />);
-      expect(screen.getByRole('textbox')).toHaveAttribute('readonly');
+      expect(screen.getByRole('textbox')).toHaveAttribute('contenteditable', 'false');
     });
 
-    it('has minimum height', () => {
+    it('uploads inline images as attachments', async () => {
+      mockUploadAttachment.mockResolvedValue({ id: 'att1', name: 'logo.png' });
       render(<WysiwygField {...createFieldProps({ value: '', mode: 'edit' })} />);
-      expect(screen.getByRole('textbox')).toHaveClass('min-h-[120px]');
-    });
 
-    it('has 8 rows by default', () => {
-      render(<WysiwygField {...createFieldProps({ value: '', mode: 'edit' })} />);
-      expect(screen.getByRole('textbox')).toHaveAttribute('rows', '8');
+      const file = new File(['png'], 'logo.png', { type: 'image/png' });
+      fireEvent.change(screen.getByTestId('rich-text-image-input'), { target: { files: [file] } });
+
+      await waitFor(() => {
+        expect(document.execCommand).toHaveBeenCalledWith(
+          'insertHTML',
+          false,
+          '<img src="/api/v1/Attachment/file/att1" alt="logo.png">'
+        );
+      });
+      expect(mockUploadAttachment).toHaveBeenCalledWith(file, {
+        role: 'Inline Attachment',
+        relatedType: 'Article',
+        field: 'description',
+      });
     });
   });
 
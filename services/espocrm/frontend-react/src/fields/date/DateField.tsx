@@ -1,11 +1,11 @@
 import React from 'react';
-import { format, parseISO, isValid } from 'date-fns';
 import { Input } from '@/components/ui/input';
 import type { FieldProps } from '../types';
 import { cn } from '@/lib/utils/cn';
+import { parseDate, useDateTime } from '@/lib/datetime';
 
 /**
- * Date field component
+ * Date field component - stored as `YYYY-MM-DD`, shown in the user's date format
  */
 export function DateField({
   name,
@@ -16,20 +16,12 @@ export function DateField({
   readOnly,
   className,
 }: FieldProps): React.ReactElement {
-  // Parse and validate date
-  const parseDate = (val: unknown): Date | null => {
-    if (!val) return null;
-    if (val instanceof Date) return isValid(val) ? val : null;
-    if (typeof val === 'string') {
-      const parsed = parseISO(val);
-      return isValid(parsed) ? parsed : null;
-    }
-    return null;
-  };
+  const dateTime = useDateTime();
 
+  // Parse and validate date
   const dateValue = parseDate(value);
-  const displayValue = dateValue ? format(dateValue, 'MMM d, yyyy') : '';
-  const inputValue = dateValue ? format(dateValue, 'yyyy-MM-dd') : '';
+  const displayValue = dateValue ? dateTime.formatDate(dateValue) : '';
+  const inputValue = dateValue ?? '';
 
   // Detail/List mode - display only
   if (mode === 'detail' || mode === 'list') {
@@ -1,11 +1,12 @@
 import React from 'react';
-import { format, parseISO, isValid } from 'date-fns';
 import { Input } from '@/components/ui/input';
 import type { FieldProps } from '../types';
 import { cn } from '@/lib/utils/cn';
+import { parseDateTime, useDateTime } from '@/lib/datetime';
 
 /**
- * DateTime field component
+ * DateTime field component - stored in UTC as `YYYY-MM-DD HH:mm:ss`, shown
+ * and entered in the user's time zone and formats
  */
 export function DateTimeField({
   name,
@@ -16,21 +17,13 @@ export function DateTimeField({
   readOnly,
   className,
 }: FieldProps): React.ReactElement {
-  // Parse and validate datetime
-  const parseDateTime = (val: unknown): Date | null => {
-    if (!val) return null;
-    if (val instanceof Date) return isValid(val) ? val : null;
-    if (typeof val === 'string') {
-      const parsed = parseISO(val);
-      return isValid(parsed) ? parsed : null;
-    }
-    return null;
-  };
+  const dateTime = useDateTime();
 
+  // Parse and validate datetime
   const dateValue = parseDateTime(value);
-  const displayValue = dateValue ? format(dateValue, 'MMM d, yyyy h:mm a') : '';
-  const listDisplayValue = dateValue ? format(dateValue, 'MMM d, yyyy') : '';
-  const inputValue = dateValue ? format(dateValue, "yyyy-MM-dd'T'HH:mm") : '';
+  const displayValue = dateValue ? dateTime.formatDateTime(dateValue) : '';
+  const listDisplayValue = dateValue ? dateTime.formatDateTimeDay(dateValue) : '';
+  const inputValue = dateValue ? dateTime.toInputValue(dateValue) : '';
 
   // Detail mode - display with time
   if (mode === 'detail') {
@@ -64,9 +57,8 @@ export function DateTimeField({
           if (!val) {
             onChange?.(null);
           } else {
-            // Convert to ISO string
-            const date = new Date(val);
-            onChange?.(date.toISOString());
+            // Convert to the UTC storage format
+            onChange?.(dateTime.fromInputValue(val));
           }
         }}
         disabled={disabled}
@@ -88,8 +80,7 @@ export function DateTimeField({
           if (!val) {
             onChange?.(null);
           } else {
-            const date = new Date(val);
-            onChange?.(date.toISOString());
+            onChange?.(dateTime.fromInputValue(val));
           }
         }}
         className={className}
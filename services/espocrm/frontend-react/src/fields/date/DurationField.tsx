@@ -2,21 +2,39 @@ import React, { useMemo, useCallback } from 'react';
 import { Input } from '@/components/ui/input';
 import type { FieldProps } from '../types';
 import { cn } from '@/lib/utils/cn';
+import {
+  formatDuration,
+  getDurationBetween,
+  getDurationBounds,
+  getDurationEnd,
+  getDurationPresets,
+  useDateTime,
+} from '@/lib/datetime';
 
 /**
- * Duration field component - displays/edits time duration (stored as seconds)
+ * Duration field component - displays/edits time duration (stored as seconds).
+ * Without a value the duration comes from the record's start and end; with
+ * a start, the end is shown in the user's time zone. Edit mode offers the
+ * field's presets next to hours and minutes inputs.
  */
 export function DurationField({
   name,
   value,
+  fieldDef,
   mode,
+  record,
   onChange,
   disabled,
   readOnly,
   className,
 }: FieldProps): React.ReactElement {
+  const dateTime = useDateTime();
+  const { start: startAttribute, end: endAttribute } = getDurationBounds(fieldDef);
+  const start = record?.[startAttribute];
+
   // Value is stored in seconds
-  const totalSeconds = typeof value === 'number' ? value : 0;
+  const seconds = typeof value === 'number' ? value : getDurationBetween(start, record?.[endAttribute]);
+  const totalSeconds = seconds ?? 0;
 
   // Parse into hours and minutes
   const { hours, minutes } = useMemo(() => {
@@ -25,19 +43,7 @@ export function DurationField({
     return { hours: h, minutes: m };
   }, [totalSeconds]);
 
-  // Format display string
-  const displayValue = useMemo(() => {
-    if (totalSeconds === 0 && value == null) return '';
-
-    const parts: string[] = [];
-    if (hours > 0) {
-      parts.push(`${hours}h`);
-    }
-    if (minutes > 0 || hours === 0) {
-      parts.push(`${minutes}m`);
-    }
-    return parts.join(' ');
-  }, [totalSeconds, hours, minutes, value]);
+  const presets = useMemo(() => getDurationPresets(fieldDef), [fieldDef]);
 
   const handleChange = useCallback((newHours: number, newMinutes: number) => {
     const newSeconds = (newHours * 3600) + (newMinutes * 60);
@@ -46,46 +52,83 @@ export function DurationField({
 
   // Detail/List mode - display formatted duration
   if (mode === 'detail' || mode === 'list') {
-    if (value == null) {
+    if (seconds === null) {
       return <span className={cn('text-muted-foreground', className)}>—</span>;
     }
-    return <span className={className}>{displayValue || '0m'}</span>;
+
+    const end = getDurationEnd(start, seconds);
+    if (mode === 'detail' && end) {
+      const sameDay = dateTime.toUserDate(start) === dateTime.toUserDate(end);
+      return (
+        <span className={className}>
+          {formatDuration(seconds)}
+          <span className="ml-2 text-sm text-muted-foreground">
+            (ends {sameDay ? dateTime.formatTime(end) : dateTime.formatDateTime(end)})
+          </span>
+        </span>
+      );
+    }
+
+    return <span className={className}>{formatDuration(seconds)}</span>;
   }
 
-  // Edit mode - hours and minutes inputs
+  // Edit mode - presets, then hours and minutes inputs
   if (mode === 'edit') {
+    const isLocked = disabled || readOnly;
+
     return (
-      <div className={cn('flex items-center gap-2', className)}>
-        <div className="flex items-center gap-1">
-          <Input
-            type="number"
-            value={hours}
-            onChange={(e) => {
-              const newHours = Math.max(0, parseInt(e.target.value, 10) || 0);
-              handleChange(newHours, minutes);
-            }}
-            disabled={disabled}
-            readOnly={readOnly}
-            min={0}
-            className="w-20"
-          />
-          <span className="text-sm text-muted-foreground">h</span>
+      <div className={cn('space-y-2', className)}>
+        <div className="flex flex-wrap gap-1" role="group" aria-label="Duration presets">
+          {presets.map((preset) => (
+            <button
+              key={preset}
+              type="button"
+              aria-pressed={seconds === preset}
+              onClick={() => onChange?.(preset)}
+              disabled={isLocked}
+              className={cn(
+                'rounded border px-2 py-1 text-xs hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50',
+                seconds === preset && 'border-primary bg-primary text-primary-foreground hover:bg-primary'
+              )}
+            >
+              {formatDuration(preset)}
+            </button>
+          ))}
         </div>
-        <div className="flex items-center gap-1">
-          <Input
-            type="number"
-            value={minutes}
-            onChange={(e) => {
-              const newMinutes = Math.max(0, Math.min(59, parseInt(e.target.value, 10) || 0));
-              handleChange(hours, newMinutes);
-            }}
-            disabled={disabled}
-            readOnly={readOnly}
-            min={0}
-            max={59}
-            className="w-20"
-          />
-          <span className="text-sm text-muted-foreground">m</span>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              value={hours}
+              onChange={(e) => {
+                const newHours = Math.max(0, parseInt(e.target.value, 10) || 0);
+                handleChange(newHours, minutes);
+              }}
+              disabled={disabled}
+              readOnly={readOnly}
+              min={0}
+              aria-label="Hours"
+              className="w-20"
+            />
+            <span className="text-sm text-muted-foreground">h</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              value={minutes}
+              onChange={(e) => {
+                const newMinutes = Math.max(0, Math.min(59, parseInt(e.target.value, 10) || 0));
+                handleChange(hours, newMinutes);
+              }}
+              disabled={disabled}
+              readOnly={readOnly}
+              min={0}
+              max={59}
+              aria-label="Minutes"
+              className="w-20"
+            />
+            <span className="text-sm text-muted-foreground">m</span>
+          </div>
         </div>
       </div>
     );
@@ -97,7 +140,7 @@ export function DurationField({
       <Input
         type="number"
         name={name}
-        value={totalSeconds || ''}
+        value={typeof value === 'number' ? value : ''}
         onChange={(e) => {
           const val = e.target.value;
           onChange?.(val ? parseInt(val, 10) : null);
@@ -108,5 +151,5 @@ export function DurationField({
     );
   }
 
-  return <span>{displayValue || '—'}</span>;
+  return <span>{seconds === null ? '—' : formatDuration(seconds)}</span>;
 }
@@ -1,8 +1,14 @@
-import React, { useRef } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { File, X, Download, Plus } from 'lucide-react';
 import type { FieldProps } from '../types';
 import { cn } from '@/lib/utils/cn';
+import { formatFileSize } from '@/lib/utils/formatFileSize';
+import { getAttachmentUrl } from '@/api/attachments';
+import { useFieldUpload, getAcceptAttribute } from '@/lib/upload';
+import { FileDropZone, UploadQueue } from '@/components/upload';
+import { useAttachmentPreview } from '@/hooks/useAttachmentPreview';
+import { getFieldAttachments, getPreviewAttachments } from '@/lib/utils/attachments';
 
 interface AttachmentValue {
   id: string;
@@ -17,7 +23,10 @@ interface AttachmentValue {
 export function AttachmentMultipleField({
   name,
   value,
+  fieldDef,
   mode,
+  entityType,
+  record,
   onChange,
   disabled,
   readOnly,
@@ -28,25 +37,28 @@ export function AttachmentMultipleField({
   // Parse attachments array
   const attachments: AttachmentValue[] = Array.isArray(value)
     ? (value as AttachmentValue[])
-    : [];
-
-  // Format file size
-  const formatSize = (bytes?: number): string => {
-    if (!bytes) return '';
-    const units = ['B', 'KB', 'MB', 'GB'];
-    let size = bytes;
-    let unitIndex = 0;
-    while (size >= 1024 && unitIndex < units.length - 1) {
-      size /= 1024;
-      unitIndex++;
-    }
-    return `${size.toFixed(1)} ${units[unitIndex]}`;
-  };
-
-  // Get download URL
-  const getDownloadUrl = (id: string): string => {
-    return `/api/v1/Attachment/file/${id}`;
-  };
+    : record
+      ? getFieldAttachments(record, name)
+      : [];
+
+  const { openPreview, previewModal } = useAttachmentPreview();
+
+  // Uploads finish after later renders; append to the latest list
+  const attachmentsRef = useRef(attachments);
+  useEffect(() => {
+    attachmentsRef.current = attachments;
+  });
+
+  const { rules, queue, rejections, handleFiles, dismissRejections } = useFieldUpload({
+    name,
+    entityType,
+    fieldDef,
+    existingCount: attachments.length,
+    onUploaded: (attachment) => {
+      attachmentsRef.current = [...attachmentsRef.current, attachment];
+      onChange?.(attachmentsRef.current);
+    },
+  });
 
   // Detail mode - list of files
   if (mode === 'detail') {
@@ -60,20 +72,21 @@ export function AttachmentMultipleField({
           <div key={file.id} className="flex items-center gap-2">
             <File className="h-4 w-4 text-muted-foreground" />
             <a
-              href={getDownloadUrl(file.id)}
+              href={getAttachmentUrl(file.id)}
               target="_blank"
               rel="noopener noreferrer"
+              onClick={(e) => openPreview(e, getPreviewAttachments(record, attachments), file.id)}
               className="text-blue-600 hover:underline flex-1"
             >
               {file.name}
             </a>
             {file.size && (
               <span className="text-xs text-muted-foreground">
-                {formatSize(file.size)}
+                {formatFileSize(file.size)}
               </span>
             )}
             <a
-              href={getDownloadUrl(file.id)}
+              href={getAttachmentUrl(file.id)}
               download={file.name}
               className="text-muted-foreground hover:text-blue-600"
             >
@@ -81,6 +94,7 @@ export function AttachmentMultipleField({
             </a>
           </div>
         ))}
+        {previewModal}
       </div>
     );
   }
@@ -99,20 +113,13 @@ export function AttachmentMultipleField({
     );
   }
 
-  // Edit mode - file list with upload
+  // Edit mode - file list with upload (drop files or pick them)
   if (mode === 'edit') {
+    const isLocked = disabled || readOnly;
+    const isFull = !!rules.maxCount && attachments.length + queue.items.length >= rules.maxCount;
+
     const handleFilesSelect = (e: React.ChangeEvent<HTMLInputElement>): void => {
-      const files = e.target.files;
-      if (files && files.length > 0) {
-        const newAttachments = Array.from(files).map((file) => ({
-          id: `temp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          name: file.name,
-          type: file.type,
-          size: file.size,
-          file: file,
-        }));
-        onChange?.([...attachments, ...newAttachments]);
-      }
+      handleFiles(Array.from(e.target.files ?? []));
       // Reset input
       if (inputRef.current) {
         inputRef.current.value = '';
@@ -124,13 +131,19 @@ export function AttachmentMultipleField({
     };
 
     return (
-      <div className={cn('space-y-2', className)}>
+      <FileDropZone
+        onFiles={handleFiles}
+        multiple
+        disabled={isLocked}
+        className={cn('space-y-2', className)}
+      >
         <input
           ref={inputRef}
           type="file"
           multiple
+          accept={getAcceptAttribute(rules)}
           onChange={handleFilesSelect}
-          disabled={disabled || readOnly}
+          disabled={isLocked}
           className="hidden"
           id={`attachments-${name}`}
         />
@@ -146,10 +159,10 @@ export function AttachmentMultipleField({
                 <span className="flex-1 truncate text-sm">{file.name}</span>
                 {file.size && (
                   <span className="text-xs text-muted-foreground flex-shrink-0">
-                    {formatSize(file.size)}
+                    {formatFileSize(file.size)}
                   </span>
                 )}
-                {!disabled && !readOnly && (
+                {!isLocked && (
                   <button
                     type="button"
                     onClick={() => handleRemove(file.id)}
@@ -163,17 +176,26 @@ export function AttachmentMultipleField({
           </div>
         )}
 
+        <UploadQueue
+          items={queue.items}
+          rejections={rejections}
+          onCancel={queue.cancel}
+          onRetry={queue.retry}
+          onDismiss={queue.dismiss}
+          onDismissRejections={dismissRejections}
+        />
+
         <Button
           type="button"
           variant="outline"
           size="sm"
           onClick={() => inputRef.current?.click()}
-          disabled={disabled || readOnly}
+          disabled={isLocked || isFull}
         >
           <Plus className="h-4 w-4 mr-1" />
           Add Files
         </Button>
-      </div>
+      </FileDropZone>
     );
   }
 
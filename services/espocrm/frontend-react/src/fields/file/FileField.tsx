@@ -3,6 +3,12 @@ import { Button } from '@/components/ui/button';
 import { File, Upload, X, Download } from 'lucide-react';
 import type { FieldProps } from '../types';
 import { cn } from '@/lib/utils/cn';
+import { formatFileSize } from '@/lib/utils/formatFileSize';
+import { getAttachmentUrl } from '@/api/attachments';
+import { useFieldUpload, getAcceptAttribute } from '@/lib/upload';
+import { FileDropZone, UploadQueue } from '@/components/upload';
+import { useAttachmentPreview } from '@/hooks/useAttachmentPreview';
+import { getFieldAttachments, getPreviewAttachments } from '@/lib/utils/attachments';
 
 interface FileValue {
   id: string;
@@ -17,7 +23,10 @@ interface FileValue {
 export function FileField({
   name,
   value,
+  fieldDef,
   mode,
+  entityType,
+  record,
   onChange,
   disabled,
   readOnly,
@@ -25,30 +34,28 @@ export function FileField({
 }: FieldProps): React.ReactElement {
   const inputRef = useRef<HTMLInputElement>(null);
 
+  const { rules, queue, rejections, handleFiles, dismissRejections } = useFieldUpload({
+    name,
+    entityType,
+    fieldDef,
+    onUploaded: (attachment) => onChange?.(attachment),
+  });
+  const { openPreview, previewModal } = useAttachmentPreview();
+
   // Parse file value
   let fileData: FileValue | null = null;
   if (typeof value === 'object' && value !== null && 'id' in value) {
     fileData = value as FileValue;
   } else if (typeof value === 'string' && value) {
     fileData = { id: value, name: 'File' };
+  } else if (record) {
+    fileData = getFieldAttachments(record, name)[0] ?? null;
   }
 
-  // Format file size
-  const formatSize = (bytes?: number): string => {
-    if (!bytes) return '';
-    const units = ['B', 'KB', 'MB', 'GB'];
-    let size = bytes;
-    let unitIndex = 0;
-    while (size >= 1024 && unitIndex < units.length - 1) {
-      size /= 1024;
-      unitIndex++;
+  const handlePreview = (e: React.MouseEvent): void => {
+    if (fileData) {
+      openPreview(e, getPreviewAttachments(record, [fileData]), fileData.id);
     }
-    return `${size.toFixed(1)} ${units[unitIndex]}`;
-  };
-
-  // Get download URL
-  const getDownloadUrl = (id: string): string => {
-    return `/api/v1/Attachment/file/${id}`;
   };
 
   // Detail mode - display file with download link
@@ -61,25 +68,27 @@ export function FileField({
       <div className={cn('flex items-center gap-2', className)}>
         <File className="h-4 w-4 text-muted-foreground" />
         <a
-          href={getDownloadUrl(fileData.id)}
+          href={getAttachmentUrl(fileData.id)}
           target="_blank"
           rel="noopener noreferrer"
+          onClick={handlePreview}
           className="text-blue-600 hover:underline"
         >
           {fileData.name}
         </a>
         {fileData.size && (
           <span className="text-xs text-muted-foreground">
-            ({formatSize(fileData.size)})
+            ({formatFileSize(fileData.size)})
           </span>
         )}
         <a
-          href={getDownloadUrl(fileData.id)}
+          href={getAttachmentUrl(fileData.id)}
           download={fileData.name}
           className="text-muted-foreground hover:text-blue-600"
         >
           <Download className="h-4 w-4" />
         </a>
+        {previewModal}
       </div>
     );
   }
@@ -91,32 +100,30 @@ export function FileField({
     }
 
     return (
-      <a
-        href={getDownloadUrl(fileData.id)}
-        className={cn('text-blue-600 hover:underline inline-flex items-center gap-1', className)}
-        onClick={(e) => e.stopPropagation()}
-      >
-        <File className="h-3 w-3" />
-        {fileData.name}
-      </a>
+      <>
+        <a
+          href={getAttachmentUrl(fileData.id)}
+          className={cn('text-blue-600 hover:underline inline-flex items-center gap-1', className)}
+          onClick={(e) => {
+            e.stopPropagation();
+            handlePreview(e);
+          }}
+        >
+          <File className="h-3 w-3" />
+          {fileData.name}
+        </a>
+        {previewModal}
+      </>
     );
   }
 
-  // Edit mode - file upload
+  // Edit mode - file upload (drop a file or pick one)
   if (mode === 'edit') {
+    const isLocked = disabled || readOnly;
+
     const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>): void => {
-      const file = e.target.files?.[0];
-      if (file) {
-        // In a real implementation, this would upload the file and get back an ID
-        // For now, we'll pass the File object
-        onChange?.({
-          id: `temp-${Date.now()}`,
-          name: file.name,
-          type: file.type,
-          size: file.size,
-          file: file, // Include file for upload handling
-        });
-      }
+      handleFiles(Array.from(e.target.files ?? []).slice(0, 1));
+      e.target.value = '';
     };
 
     const handleRemove = (): void => {
@@ -127,12 +134,17 @@ export function FileField({
     };
 
     return (
-      <div className={cn('space-y-2', className)}>
+      <FileDropZone
+        onFiles={handleFiles}
+        disabled={isLocked || !!fileData || queue.items.length > 0}
+        className={cn('space-y-2', className)}
+      >
         <input
           ref={inputRef}
           type="file"
+          accept={getAcceptAttribute(rules)}
           onChange={handleFileSelect}
-          disabled={disabled || readOnly}
+          disabled={isLocked}
           className="hidden"
           id={`file-${name}`}
         />
@@ -143,10 +155,10 @@ export function FileField({
             <span className="flex-1 truncate">{fileData.name}</span>
             {fileData.size && (
               <span className="text-xs text-muted-foreground">
-                {formatSize(fileData.size)}
+                {formatFileSize(fileData.size)}
               </span>
             )}
-            {!disabled && !readOnly && (
+            {!isLocked && (
               <button
                 type="button"
                 onClick={handleRemove}
@@ -157,18 +169,29 @@ export function FileField({
             )}
           </div>
         ) : (
-          <Button
-            type="button"
-            variant="outline"
-            onClick={() => inputRef.current?.click()}
-            disabled={disabled || readOnly}
-            className="w-full"
-          >
-            <Upload className="h-4 w-4 mr-2" />
-            Choose File
-          </Button>
+          queue.items.length === 0 && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => inputRef.current?.click()}
+              disabled={isLocked}
+              className="w-full border-dashed"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Choose File
+            </Button>
+          )
         )}
-      </div>
+
+        <UploadQueue
+          items={queue.items}
+          rejections={rejections}
+          onCancel={queue.cancel}
+          onRetry={queue.retry}
+          onDismiss={queue.dismiss}
+          onDismissRejections={dismissRejections}
+        />
+      </FileDropZone>
     );
   }
 
@@ -3,6 +3,19 @@ import { Button } from '@/components/ui/button';
 import { Image as ImageIcon, Upload, X, ZoomIn } from 'lucide-react';
 import type { FieldProps } from '../types';
 import { cn } from '@/lib/utils/cn';
+import { useFieldUpload, getAcceptAttribute } from '@/lib/upload';
+import { canProcessImage } from '@/lib/image';
+import { getFieldAttachments } from '@/lib/utils/attachments';
+import { getAttachmentUrl, getImageThumbnailUrl, type ImageThumbnailSize } from '@/api/attachments';
+import { FileDropZone, UploadQueue } from '@/components/upload';
+import { ImageCropper } from '@/components/image';
+
+const IMAGE_ACCEPT = ['image/*'];
+
+function numberParam(params: Record<string, unknown> | undefined, key: string): number | undefined {
+  const value = params?.[key];
+  return typeof value === 'number' && value > 0 ? value : undefined;
+}
 
 interface ImageValue {
   id: string;
@@ -17,7 +30,10 @@ interface ImageValue {
 export function ImageField({
   name,
   value,
+  fieldDef,
   mode,
+  entityType,
+  record,
   onChange,
   disabled,
   readOnly,
@@ -25,6 +41,24 @@ export function ImageField({
 }: FieldProps): React.ReactElement {
   const inputRef = useRef<HTMLInputElement>(null);
   const [showLightbox, setShowLightbox] = useState(false);
+  // Picked photo waiting in the cropper
+  const [cropFile, setCropFile] = useState<File | null>(null);
+
+  const { rules, queue, rejections, handleFiles, queueFiles, dismissRejections } = useFieldUpload({
+    name,
+    entityType,
+    fieldDef,
+    defaultAccept: IMAGE_ACCEPT,
+    onUploaded: (attachment) => onChange?.(attachment),
+    prepareFiles: ([file]) => {
+      if (!file) return;
+      if (canProcessImage(file)) {
+        setCropFile(file);
+      } else {
+        queueFiles([file]);
+      }
+    },
+  });
 
   // Parse image value
   let imageData: ImageValue | null = null;
@@ -32,12 +66,13 @@ export function ImageField({
     imageData = value as ImageValue;
   } else if (typeof value === 'string' && value) {
     imageData = { id: value };
+  } else if (record) {
+    imageData = getFieldAttachments(record, name)[0] ?? null;
   }
 
-  // Get image URL
-  const getImageUrl = (id: string, size?: 'small' | 'medium' | 'large'): string => {
-    const sizeParam = size ? `?size=${size}` : '';
-    return `/api/v1/Attachment/file/${id}${sizeParam}`;
+  // Thumbnails come from the server, so lists don't download full-size photos
+  const getImageUrl = (id: string, size?: ImageThumbnailSize): string => {
+    return size ? getImageThumbnailUrl(id, size) : getAttachmentUrl(id);
   };
 
   // Detail mode - display image with lightbox
@@ -101,26 +136,13 @@ export function ImageField({
     );
   }
 
-  // Edit mode - image upload with preview
+  // Edit mode - image upload with preview (drop an image or pick one)
   if (mode === 'edit') {
+    const isLocked = disabled || readOnly;
+
     const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>): void => {
-      const file = e.target.files?.[0];
-      if (file) {
-        // Validate it's an image
-        if (!file.type.startsWith('image/')) {
-          return;
-        }
-        // In a real implementation, this would upload the file
-        onChange?.({
-          id: `temp-${Date.now()}`,
-          name: file.name,
-          type: file.type,
-          size: file.size,
-          file: file,
-          // Create preview URL
-          previewUrl: URL.createObjectURL(file),
-        });
-      }
+      handleFiles(Array.from(e.target.files ?? []).slice(0, 1));
+      e.target.value = '';
     };
 
     const handleRemove = (): void => {
@@ -135,13 +157,17 @@ export function ImageField({
       : null;
 
     return (
-      <div className={cn('space-y-2', className)}>
+      <FileDropZone
+        onFiles={handleFiles}
+        disabled={isLocked || !!previewUrl || queue.items.length > 0}
+        className={cn('space-y-2', className)}
+      >
         <input
           ref={inputRef}
           type="file"
-          accept="image/*"
+          accept={getAcceptAttribute(rules)}
           onChange={handleFileSelect}
-          disabled={disabled || readOnly}
+          disabled={isLocked}
           className="hidden"
           id={`image-${name}`}
         />
@@ -153,7 +179,7 @@ export function ImageField({
               alt="Preview"
               className="max-w-full max-h-48 rounded-md object-cover border"
             />
-            {!disabled && !readOnly && (
+            {!isLocked && (
               <button
                 type="button"
                 onClick={handleRemove}
@@ -164,23 +190,49 @@ export function ImageField({
             )}
           </div>
         ) : (
-          <Button
-            type="button"
-            variant="outline"
-            onClick={() => inputRef.current?.click()}
-            disabled={disabled || readOnly}
-            className="w-full h-24 border-dashed"
-          >
-            <div className="flex flex-col items-center gap-1">
-              <ImageIcon className="h-6 w-6 text-muted-foreground" />
-              <span className="text-sm">
-                <Upload className="h-3 w-3 inline mr-1" />
-                Upload Image
-              </span>
-            </div>
-          </Button>
+          queue.items.length === 0 && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => inputRef.current?.click()}
+              disabled={isLocked}
+              className="w-full h-24 border-dashed"
+            >
+              <div className="flex flex-col items-center gap-1">
+                <ImageIcon className="h-6 w-6 text-muted-foreground" />
+                <span className="text-sm">
+                  <Upload className="h-3 w-3 inline mr-1" />
+                  Upload Image
+                </span>
+              </div>
+            </Button>
+          )
+        )}
+
+        <UploadQueue
+          items={queue.items}
+          rejections={rejections}
+          onCancel={queue.cancel}
+          onRetry={queue.retry}
+          onDismiss={queue.dismiss}
+          onDismissRejections={dismissRejections}
+        />
+
+        {cropFile && (
+          <ImageCropper
+            file={cropFile}
+            defaultPreset={typeof fieldDef.params?.cropPreset === 'string' ? fieldDef.params.cropPreset : undefined}
+            maxWidth={numberParam(fieldDef.params, 'imageMaxWidth')}
+            maxHeight={numberParam(fieldDef.params, 'imageMaxHeight')}
+            quality={numberParam(fieldDef.params, 'imageQuality')}
+            onConfirm={(file) => {
+              setCropFile(null);
+              queueFiles([file]);
+            }}
+            onCancel={() => setCropFile(null)}
+          />
         )}
-      </div>
+      </FileDropZone>
     );
   }
 
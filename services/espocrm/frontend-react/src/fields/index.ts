@@ -129,8 +129,8 @@ export function initializeFieldTypes(): void {
 // Export components and types
 export { FieldRenderer, MemoizedFieldRenderer } from './FieldRenderer';
 export type { FieldRendererProps } from './FieldRenderer';
-export { registerField, getFieldComponent, hasFieldType, getRegisteredTypes } from './registry';
-export type { FieldProps, FieldMode, FieldDef, FieldComponent, LinkValue, CurrencyValue, AddressValue } from './types';
+export { registerField, unregisterField, getFieldComponent, hasFieldType, getRegisteredTypes } from './registry';
+export type { FieldProps, FieldMode, FieldDef, FieldComponent, LinkValue, LinkMultipleItem, CurrencyValue, AddressValue, EmailAddressEntry } from './types';
 
 // Export individual field components - Text
 export { VarcharField } from './text/VarcharField';
@@ -2,9 +2,34 @@ import React from 'react';
 import { Input } from '@/components/ui/input';
 import type { FieldProps, CurrencyValue } from '../types';
 import { cn } from '@/lib/utils/cn';
+import {
+  formatCurrency,
+  getEnabledCurrencies,
+  toBaseCurrency,
+  useCurrencySettings,
+  type CurrencySettings,
+} from '@/lib/currency';
 
 /**
- * Currency field component - number with currency symbol
+ * Amount in the base currency: converted with the configured rates, or the
+ * record's `<field>Converted` when there is no rate
+ */
+function getConvertedAmount(
+  name: string,
+  amount: number,
+  currency: string,
+  record: Record<string, unknown> | undefined,
+  settings: CurrencySettings
+): number | null {
+  const converted = toBaseCurrency(amount, currency, settings);
+  if (converted !== null) return converted;
+  const stored = record?.[`${name}Converted`];
+  return typeof stored === 'number' ? stored : null;
+}
+
+/**
+ * Currency field component - amount with a currency from the enabled list,
+ * shown with its value in the base currency
  */
 export function CurrencyField({
   name,
@@ -17,11 +42,20 @@ export function CurrencyField({
   record,
   className,
 }: FieldProps): React.ReactElement {
+  const settings = useCurrencySettings();
+
   // Handle both simple number values and CurrencyValue objects
   let amount: number | null = null;
-  let currency = fieldDef.currency ?? 'USD';
+  let currency = fieldDef.currency ?? settings.defaultCurrency;
+
+  // Check for currency field in record (e.g., amountCurrency for amount field)
+  const currencyFieldName = `${name}Currency`;
+  if (record?.[currencyFieldName]) {
+    currency = String(record[currencyFieldName]);
+  }
 
-  if (typeof value === 'object' && value !== null) {
+  const isCurrencyValue = typeof value === 'object' && value !== null;
+  if (isCurrencyValue) {
     const currencyValue = value as CurrencyValue;
     amount = currencyValue.amount ?? null;
     currency = currencyValue.currency ?? currency;
@@ -31,54 +65,104 @@ export function CurrencyField({
     amount = parseFloat(value);
   }
 
-  // Check for currency field in record (e.g., amountCurrency for amount field)
-  const currencyFieldName = `${name}Currency`;
-  if (record?.[currencyFieldName]) {
-    currency = String(record[currencyFieldName]);
-  }
+  const hasAmount = amount !== null && !isNaN(amount);
+  const isBaseCurrency = currency === settings.baseCurrency;
+  const converted =
+    hasAmount && !isBaseCurrency ? getConvertedAmount(name, amount as number, currency, record, settings) : null;
+  const convertedDisplay = converted !== null ? formatCurrency(converted, settings.baseCurrency, settings) : '';
 
   // Format currency for display
-  const formatCurrency = (val: number | null): string => {
+  const formatAmount = (val: number | null): string => {
     if (val === null || isNaN(val)) return '';
-    try {
-      return new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: currency,
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 2,
-      }).format(val);
-    } catch {
-      // Fallback for unknown currencies
-      return `${currency} ${val.toFixed(2)}`;
-    }
+    return formatCurrency(val, currency, settings);
   };
 
-  // Detail/List mode - display only
-  if (mode === 'detail' || mode === 'list') {
-    if (amount === null) {
+  // Detail mode - original amount and its base-currency value
+  if (mode === 'detail') {
+    if (!hasAmount) {
+      return <span className={cn('text-muted-foreground', className)}>—</span>;
+    }
+    if (!convertedDisplay) {
+      return <span className={className}>{formatAmount(amount)}</span>;
+    }
+    return (
+      <span className={className}>
+        <span>{formatAmount(amount)}</span>
+        <span className="ml-2 text-sm text-muted-foreground" title={`Converted to ${settings.baseCurrency}`}>
+          ≈ {convertedDisplay}
+        </span>
+      </span>
+    );
+  }
+
+  // List mode - original amount, base-currency value on hover
+  if (mode === 'list') {
+    if (!hasAmount) {
       return <span className={cn('text-muted-foreground', className)}>—</span>;
     }
-    return <span className={className}>{formatCurrency(amount)}</span>;
+    return (
+      <span className={className} title={convertedDisplay ? `≈ ${convertedDisplay}` : undefined}>
+        {formatAmount(amount)}
+      </span>
+    );
   }
 
   // Edit mode
   if (mode === 'edit') {
+    const enabled = getEnabledCurrencies(settings);
+    // Keep a currency that is no longer enabled selectable on old records
+    const options = enabled.includes(currency) ? enabled : [currency, ...enabled];
+
+    // Plain numbers while the currency is unchanged, amount and currency once it is picked
+    const emit = (nextAmount: number | null, nextCurrency: string): void => {
+      if (isCurrencyValue || nextCurrency !== currency) {
+        onChange?.({ amount: nextAmount, currency: nextCurrency } satisfies CurrencyValue);
+      } else {
+        onChange?.(nextAmount);
+      }
+    };
+
     return (
-      <div className={cn('flex items-center gap-2', className)}>
-        <span className="text-muted-foreground">{currency}</span>
-        <Input
-          name={name}
-          type="number"
-          step="0.01"
-          value={amount ?? ''}
-          onChange={(e) => {
-            const newAmount = e.target.value === '' ? null : parseFloat(e.target.value);
-            onChange?.(newAmount);
-          }}
-          disabled={disabled}
-          readOnly={readOnly}
-          className="flex-1"
-        />
+      <div className={cn('space-y-1', className)}>
+        <div className="flex items-center gap-2">
+          {options.length > 1 ? (
+            <select
+              aria-label="Currency"
+              value={currency}
+              onChange={(e) => emit(amount, e.target.value)}
+              disabled={disabled || readOnly}
+              className={cn(
+                'h-10 rounded-md border border-input bg-background px-2 py-2 text-sm',
+                'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                'disabled:cursor-not-allowed disabled:opacity-50'
+              )}
+            >
+              {options.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <span className="text-muted-foreground">{currency}</span>
+          )}
+          <Input
+            name={name}
+            type="number"
+            step="0.01"
+            value={amount ?? ''}
+            onChange={(e) => {
+              const newAmount = e.target.value === '' ? null : parseFloat(e.target.value);
+              emit(newAmount, currency);
+            }}
+            disabled={disabled}
+            readOnly={readOnly}
+            className="flex-1"
+          />
+        </div>
+        {convertedDisplay && (
+          <p className="text-xs text-muted-foreground">≈ {convertedDisplay}</p>
+        )}
       </div>
     );
   }
@@ -101,5 +185,5 @@ export function CurrencyField({
     );
   }
 
-  return <span>{formatCurrency(amount)}</span>;
+  return <span>{formatAmount(amount)}</span>;
 }
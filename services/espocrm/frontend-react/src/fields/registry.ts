@@ -1,34 +1,46 @@
+import { createLayeredRegistry } from '@/lib/utils/layeredRegistry';
 import type { FieldComponent } from './types';
 
-// Field component registry
-const fieldRegistry: Record<string, FieldComponent> = {};
+// Field component registry. Components registered by extension modules are
+// layered over the built-in ones; removing one restores the one below.
+const fields = createLayeredRegistry<FieldComponent>();
+const fieldRegistry = fields.base;
 
 /**
- * Register a field component for a field type
+ * Register a field component for a field type.
+ * Pass an owner (module name) to layer the component over the built-in one
+ * so it can be removed again with unregisterField.
  */
-export function registerField(type: string, component: FieldComponent): void {
-  fieldRegistry[type] = component;
+export function registerField(type: string, component: FieldComponent, owner?: string): void {
+  fields.register(type, component, owner);
+}
+
+/**
+ * Remove a field component registered by an owner
+ */
+export function unregisterField(type: string, owner: string): void {
+  fields.unregister(type, owner);
 }
 
 /**
  * Get a field component by type
  */
 export function getFieldComponent(type: string): FieldComponent | undefined {
-  return fieldRegistry[type];
+  return fields.get(type);
 }
 
 /**
  * Check if a field type is registered
  */
 export function hasFieldType(type: string): boolean {
-  return type in fieldRegistry;
+  return fields.has(type);
 }
 
 /**
  * Get all registered field types
  */
 export function getRegisteredTypes(): string[] {
-  return Object.keys(fieldRegistry);
+  return fields.names();
 }
 
 // Export registry for direct access if needed
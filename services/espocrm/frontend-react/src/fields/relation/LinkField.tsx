@@ -34,6 +34,9 @@ export function LinkField({
       const selected = await selectRecord({
         entityType,
         multiple: false,
+        primaryFilter: fieldDef.selectPrimaryFilterName,
+        boolFilterList: fieldDef.selectBoolFilterList,
+        createButton: true,
       });
       if (selected && !Array.isArray(selected)) {
         onChange?.({ id: selected.id, name: selected.name });
@@ -43,7 +46,7 @@ export function LinkField({
     } finally {
       setIsSelectOpen(false);
     }
-  }, [entityType, selectRecord, onChange, isSelectOpen]);
+  }, [entityType, fieldDef.selectPrimaryFilterName, fieldDef.selectBoolFilterList, selectRecord, onChange, isSelectOpen]);
 
   const handleQuickCreate = useCallback(async () => {
     try {
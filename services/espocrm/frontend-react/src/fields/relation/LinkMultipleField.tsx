@@ -1,16 +1,25 @@
-import React from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { X, Plus } from 'lucide-react';
-import type { FieldProps } from '../types';
+import type { FieldDef, FieldProps, LinkMultipleItem } from '../types';
 import { cn } from '@/lib/utils/cn';
+import { getLinkMultipleItems } from '@/lib/utils/linkMultiple';
+import { useMetadata } from '@/lib/metadata/useMetadata';
+import { useTranslation } from '@/hooks/useTranslation';
+import { formatLabel } from '@/lib/i18n/labels';
+import { useModal } from '@/components/modals';
 
-interface LinkItem {
-  id: string;
+interface RelationshipColumn {
   name: string;
+  label: string;
+  fieldDef: FieldDef;
+  /** Display label of a column value */
+  getValueLabel: (value: string) => string;
 }
 
 /**
- * LinkMultiple field component - multiple entity relationships
+ * LinkMultiple field component - multiple entity relationships, with the
+ * relationship column values (e.g. a contact's role) of each link
  */
 export function LinkMultipleField({
   name,
@@ -23,19 +32,61 @@ export function LinkMultipleField({
   readOnly,
   className,
 }: FieldProps): React.ReactElement {
-  // LinkMultiple stores IDs in `${name}Ids` and names in `${name}Names`
-  const linkIds = (record?.[`${name}Ids`] as string[]) ?? [];
-  const linkNames = (record?.[`${name}Names`] as Record<string, string>) ?? {};
+  const { selectRecord } = useModal();
+  const { metadata } = useMetadata();
+  const { t, translateEntity, translateField, translateOption } = useTranslation();
+  const [isSelectOpen, setIsSelectOpen] = useState(false);
   const entityType = fieldDef.entity ?? '';
+  const entityLabel = translateEntity(entityType);
 
-  // Build array of link items
-  const items: LinkItem[] = linkIds.map((id) => ({
-    id,
-    name: linkNames[id] ?? id,
-  }));
+  // An array value, or `${name}Ids` with `${name}Names` and `${name}Columns`
+  const valueArray = getLinkMultipleItems(name, value, record);
 
-  // Alternative: value might be an array directly
-  const valueArray = Array.isArray(value) ? value as LinkItem[] : items;
+  // Relationship columns, described and translated by fields of the target entity
+  const columns = useMemo((): RelationshipColumn[] => {
+    const targetFields = metadata?.entityDefs?.[entityType]?.fields ?? {};
+    return Object.entries(fieldDef.columns ?? {}).map(([column, field]) => {
+      const label = translateField(entityType, field);
+      const columnFieldDef = (targetFields[field] as FieldDef | undefined) ?? { type: 'varchar' };
+      return {
+        name: column,
+        label: label !== field ? label : formatColumnName(column),
+        fieldDef: columnFieldDef,
+        getValueLabel: (value: string) =>
+          columnFieldDef.type === 'enum' ? translateOption(entityType, field, value) : value,
+      };
+    });
+  }, [metadata, entityType, fieldDef.columns, translateField, translateOption]);
+
+  const updateColumn = (itemId: string, column: string, columnValue: unknown): void => {
+    onChange?.(
+      valueArray.map((item) =>
+        item.id === itemId ? { ...item, columns: { ...item.columns, [column]: columnValue } } : item
+      )
+    );
+  };
+
+  const handleAdd = useCallback(async () => {
+    if (isSelectOpen) return;
+    setIsSelectOpen(true);
+    try {
+      const selected = await selectRecord({
+        entityType,
+        multiple: true,
+        excludeIds: valueArray.map((item) => item.id),
+        primaryFilter: fieldDef.selectPrimaryFilterName,
+        boolFilterList: fieldDef.selectBoolFilterList,
+        createButton: true,
+      });
+      if (Array.isArray(selected) && selected.length > 0) {
+        onChange?.([...valueArray, ...selected.map(({ id, name }) => ({ id, name }))]);
+      }
+    } catch {
+      // Modal was closed
+    } finally {
+      setIsSelectOpen(false);
+    }
+  }, [entityType, fieldDef.selectPrimaryFilterName, fieldDef.selectBoolFilterList, valueArray, selectRecord, onChange, isSelectOpen]);
 
   // Detail mode - display as comma-separated links
   if (mode === 'detail') {
@@ -44,17 +95,21 @@ export function LinkMultipleField({
     }
     return (
       <div className={cn('flex flex-wrap gap-2', className)}>
-        {valueArray.map((item, index) => (
-          <React.Fragment key={item.id}>
-            <Link
-              to={`/${entityType}/view/${item.id}`}
-              className="text-primary hover:underline"
-            >
-              {item.name}
-            </Link>
-            {index < valueArray.length - 1 && <span className="text-muted-foreground">,</span>}
-          </React.Fragment>
-        ))}
+        {valueArray.map((item, index) => {
+          const columnText = getColumnText(item, columns);
+          return (
+            <React.Fragment key={item.id}>
+              <Link
+                to={`/${entityType}/view/${item.id}`}
+                className="text-primary hover:underline"
+              >
+                {item.name}
+              </Link>
+              {columnText && <span className="text-sm text-muted-foreground">({columnText})</span>}
+              {index < valueArray.length - 1 && <span className="text-muted-foreground">,</span>}
+            </React.Fragment>
+          );
+        })}
       </div>
     );
   }
@@ -82,19 +137,78 @@ export function LinkMultipleField({
           </React.Fragment>
         ))}
         {moreCount > 0 && (
-          <span className="text-muted-foreground text-sm">+{moreCount} more</span>
+          <span className="text-muted-foreground text-sm">
+            {formatLabel('andMore', { count: moreCount }, t)}
+          </span>
         )}
       </div>
     );
   }
 
-  // Edit mode - tag-style display with add/remove
+  // Edit mode - tag-style display with add/remove; a row per link with
+  // inputs for the relationship columns when the field has any
   if (mode === 'edit') {
+    const isLocked = disabled || readOnly;
+    const removeItem = (itemId: string): void => {
+      onChange?.(valueArray.filter((i) => i.id !== itemId));
+    };
+
+    if (columns.length > 0) {
+      return (
+        <div className={cn('space-y-2', className)}>
+          <div className="min-h-[40px] p-2 border rounded-md bg-background space-y-2">
+            {valueArray.length === 0 && (
+              <span className="text-muted-foreground text-sm">
+                {formatLabel('noRecordsSelected', { entityType: entityLabel }, t)}
+              </span>
+            )}
+            {valueArray.map((item) => (
+              <div key={item.id} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 min-w-0 truncate">{item.name}</span>
+                {columns.map((column) => (
+                  <ColumnInput
+                    key={column.name}
+                    column={column}
+                    label={formatLabel('columnOfRecord', { column: column.label, name: item.name }, t)}
+                    value={item.columns?.[column.name]}
+                    onChange={(columnValue) => updateColumn(item.id, column.name, columnValue)}
+                    disabled={isLocked}
+                  />
+                ))}
+                {!isLocked && (
+                  <button
+                    type="button"
+                    aria-label={formatLabel('removeRecord', { name: item.name }, t)}
+                    onClick={() => removeItem(item.id)}
+                    className="p-1 hover:bg-secondary rounded"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          {!isLocked && (
+            <button
+              type="button"
+              onClick={handleAdd}
+              className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+            >
+              <Plus className="h-4 w-4" />
+              {formatLabel('addRecord', { entityType: entityLabel }, t)}
+            </button>
+          )}
+        </div>
+      );
+    }
+
     return (
       <div className={cn('space-y-2', className)}>
         <div className="flex flex-wrap gap-2 min-h-[40px] p-2 border rounded-md bg-background">
           {valueArray.length === 0 && (
-            <span className="text-muted-foreground text-sm">No {entityType} selected</span>
+            <span className="text-muted-foreground text-sm">
+              {formatLabel('noRecordsSelected', { entityType: entityLabel }, t)}
+            </span>
           )}
           {valueArray.map((item) => (
             <span
@@ -105,10 +219,8 @@ export function LinkMultipleField({
               {!disabled && !readOnly && (
                 <button
                   type="button"
-                  onClick={() => {
-                    const newItems = valueArray.filter((i) => i.id !== item.id);
-                    onChange?.(newItems);
-                  }}
+                  aria-label={formatLabel('removeRecord', { name: item.name }, t)}
+                  onClick={() => removeItem(item.id)}
                   className="hover:bg-secondary-foreground/10 rounded"
                 >
                   <X className="h-3 w-3" />
@@ -120,13 +232,11 @@ export function LinkMultipleField({
         {!disabled && !readOnly && (
           <button
             type="button"
-            onClick={() => {
-              // TODO: Open entity selection modal
-            }}
+            onClick={handleAdd}
             className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
           >
             <Plus className="h-4 w-4" />
-            Add {entityType}
+            {formatLabel('addRecord', { entityType: entityLabel }, t)}
           </button>
         )}
       </div>
@@ -139,7 +249,7 @@ export function LinkMultipleField({
       <input
         type="text"
         name={name}
-        placeholder={`Search ${entityType}...`}
+        placeholder={formatLabel('searchRecords', { entityType: entityLabel }, t)}
         className={cn(
           'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm',
           className
@@ -150,3 +260,93 @@ export function LinkMultipleField({
 
   return <span>{valueArray.map((i) => i.name).join(', ') || '—'}</span>;
 }
+
+interface ColumnInputProps {
+  column: RelationshipColumn;
+  label: string;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Input for one relationship column value of a link
+ */
+function ColumnInput({ column, label, value, onChange, disabled }: ColumnInputProps): React.ReactElement {
+  const inputClass = 'h-8 rounded-md border border-input bg-background px-2 text-sm disabled:opacity-50';
+  const { type, options } = column.fieldDef;
+
+  if (type === 'enum' && options) {
+    return (
+      <select
+        aria-label={label}
+        value={value == null ? '' : String(value)}
+        onChange={(e) => onChange(e.target.value || null)}
+        disabled={disabled}
+        className={cn(inputClass, 'w-40')}
+      >
+        <option value="">—</option>
+        {options.map((option) => (
+          <option key={option} value={option}>
+            {column.getValueLabel(option)}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  if (type === 'bool') {
+    return (
+      <input
+        type="checkbox"
+        aria-label={label}
+        checked={value === true}
+        onChange={(e) => onChange(e.target.checked)}
+        disabled={disabled}
+      />
+    );
+  }
+
+  if (type === 'int' || type === 'float') {
+    return (
+      <input
+        type="number"
+        aria-label={label}
+        value={typeof value === 'number' ? value : ''}
+        onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+        disabled={disabled}
+        className={cn(inputClass, 'w-24')}
+      />
+    );
+  }
+
+  return (
+    <input
+      type="text"
+      aria-label={label}
+      placeholder={column.label}
+      value={value == null ? '' : String(value)}
+      onChange={(e) => onChange(e.target.value || null)}
+      disabled={disabled}
+      className={cn(inputClass, 'w-40')}
+    />
+  );
+}
+
+/**
+ * Relationship column values of a link shown next to its name
+ */
+function getColumnText(item: LinkMultipleItem, columns: RelationshipColumn[]): string {
+  return columns
+    .map((column) => ({ column, columnValue: item.columns?.[column.name] }))
+    .filter(({ columnValue }) => columnValue != null && columnValue !== '' && columnValue !== false)
+    .map(({ column, columnValue }) => (columnValue === true ? column.label : column.getValueLabel(String(columnValue))))
+    .join(', ');
+}
+
+function formatColumnName(name: string): string {
+  return name
+    .replace(/([A-Z])/g, ' $1')
+    .replace(/^./, (str) => str.toUpperCase())
+    .trim();
+}
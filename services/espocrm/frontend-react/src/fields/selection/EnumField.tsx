@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import type { FieldProps } from '../types';
 import { cn } from '@/lib/utils/cn';
 
@@ -17,6 +17,15 @@ export function EnumField({
 }: FieldProps): React.ReactElement {
   const stringValue = value != null ? String(value) : '';
   const options = fieldDef.options ?? [];
+  const { filteredOptions } = fieldDef;
+
+  // Dynamic logic narrowed the options: replace a value that is no longer allowed
+  useEffect(() => {
+    if (mode !== 'edit' || !filteredOptions || !stringValue) return;
+    if (!filteredOptions.includes(stringValue)) {
+      onChange?.(filteredOptions[0] ?? null);
+    }
+  }, [mode, filteredOptions, stringValue, onChange]);
 
   // Get display label for value (in real implementation, would use translation)
   const getLabel = (val: string): string => {
@@ -72,7 +81,7 @@ export function EnumField({
         )}
       >
         <option value="">— Select —</option>
-        {options.map((opt) => (
+        {(filteredOptions ?? options).map((opt) => (
           <option key={opt} value={opt}>
             {getLabel(opt)}
           </option>
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import type { FieldProps } from '../types';
 import { cn } from '@/lib/utils/cn';
 
@@ -18,6 +18,16 @@ export function MultiEnumField({
   // Value is an array of strings
   const arrayValue: string[] = Array.isArray(value) ? value : [];
   const options = fieldDef.options ?? [];
+  const { filteredOptions } = fieldDef;
+
+  // Dynamic logic narrowed the options: drop values that are no longer allowed
+  useEffect(() => {
+    if (mode !== 'edit' || !filteredOptions || !Array.isArray(value)) return;
+    const allowed = (value as string[]).filter((v) => filteredOptions.includes(v));
+    if (allowed.length !== value.length) {
+      onChange?.(allowed);
+    }
+  }, [mode, filteredOptions, value, onChange]);
 
   // Get display label for value
   const getLabel = (val: string): string => {
@@ -55,13 +65,14 @@ export function MultiEnumField({
         : [...arrayValue, opt];
       onChange?.(newValue);
     };
+    const editOptions = filteredOptions ?? options;
 
     return (
       <div className={cn('space-y-2 rounded-md border p-3', className)}>
-        {options.length === 0 ? (
+        {editOptions.length === 0 ? (
           <span className="text-muted-foreground text-sm">No options available</span>
         ) : (
-          options.map((opt) => (
+          editOptions.map((opt) => (
             <label
               key={opt}
               className={cn(
@@ -1,11 +1,33 @@
-import React from 'react';
+import React, { useEffect, useId, useRef, useState } from 'react';
 import { Input } from '@/components/ui/input';
 import { MapPin } from 'lucide-react';
 import type { FieldProps, AddressValue } from '../types';
 import { cn } from '@/lib/utils/cn';
+import {
+  getCountryCode,
+  normalizeAddress,
+  useAddressSuggestions,
+  useGeocoder,
+  type GeocodedAddress,
+} from '@/lib/geocoding';
+import { formatCoordinates } from '@/lib/map';
+
+// Parts whose change makes stored coordinates stale
+const LOCATION_PARTS = ['street', 'city', 'postalCode', 'country'];
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+}
 
 /**
  * Address field component - multi-part address
+ *
+ * With a geocoder configured (`geocoder` setting), the street input suggests
+ * addresses and picking one fills the other parts and the coordinates used
+ * by the map field. Country, state and postal code are normalized when
+ * leaving their inputs.
  */
 export function AddressField({
   name,
@@ -39,8 +61,34 @@ export function AddressField({
   const postalCode = getAddressPart('postalCode');
   const country = getAddressPart('country');
 
+  const latitude = toNumber(
+    typeof value === 'object' && value !== null ? (value as AddressValue).latitude : record?.[`${name}Latitude`]
+  );
+  const longitude = toNumber(
+    typeof value === 'object' && value !== null ? (value as AddressValue).longitude : record?.[`${name}Longitude`]
+  );
+
   const hasAddress = street || city || state || postalCode || country;
 
+  const { geocoder, settings: geocoderSettings } = useGeocoder();
+  const countryCode = getCountryCode(country) ?? undefined;
+  const [streetFocused, setStreetFocused] = useState(false);
+  // Street text the suggestions were closed for (picked or dismissed)
+  const [closedFor, setClosedFor] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const listboxId = useId();
+  const { suggestions } = useAddressSuggestions(street, {
+    enabled: mode === 'edit' && streetFocused && street !== closedFor,
+    countryCode,
+  });
+  const showSuggestions = suggestions.length > 0;
+
+  // Latest address, for changes applied after an asynchronous lookup
+  const addressRef = useRef<AddressValue>({});
+  useEffect(() => {
+    addressRef.current = { street, city, state, postalCode, country, latitude, longitude };
+  });
+
   // Format address for display
   const formatAddress = (): string[] => {
     const lines: string[] = [];
@@ -98,27 +146,143 @@ export function AddressField({
 
   // Edit mode - multiple inputs
   if (mode === 'edit') {
-    const handleChange = (part: string, newValue: string): void => {
-      const currentAddress: AddressValue = typeof value === 'object' && value !== null
+    const currentAddress = (): AddressValue =>
+      typeof value === 'object' && value !== null
         ? (value as AddressValue)
-        : { street, city, state, postalCode, country };
+        : { street, city, state, postalCode, country, latitude, longitude };
 
+    const handleChange = (part: string, newValue: string): void => {
+      const next: AddressValue = { ...currentAddress(), [part]: newValue };
+      if (LOCATION_PARTS.includes(part) && (latitude !== null || longitude !== null)) {
+        next.latitude = null;
+        next.longitude = null;
+      }
+      onChange?.(next);
+    };
+
+    const selectSuggestion = (suggestion: GeocodedAddress): void => {
+      const address = normalizeAddress({
+        street: suggestion.street,
+        city: suggestion.city,
+        state: suggestion.state,
+        postalCode: suggestion.postalCode,
+        country: suggestion.country,
+      });
       onChange?.({
-        ...currentAddress,
-        [part]: newValue,
+        ...currentAddress(),
+        ...address,
+        latitude: suggestion.latitude ?? null,
+        longitude: suggestion.longitude ?? null,
       });
+      setClosedFor(address.street ?? '');
+      setActiveIndex(-1);
+    };
+
+    // Normalize country, state and postal code once they're typed
+    const normalize = (): void => {
+      const address = currentAddress();
+      const normalized = normalizeAddress(address);
+      if (
+        normalized.country !== (address.country ?? '') ||
+        normalized.state !== (address.state ?? '') ||
+        normalized.postalCode !== (address.postalCode ?? '')
+      ) {
+        onChange?.({ ...address, country: normalized.country, state: normalized.state, postalCode: normalized.postalCode });
+      }
+    };
+
+    // Complete a typed street with the geocoder: fill empty parts and the coordinates
+    const complete = (): void => {
+      if (!geocoder?.geocode || !street.trim() || latitude !== null) return;
+      geocoder
+        .geocode(currentAddress(), { settings: geocoderSettings, countryCode })
+        .then((found) => {
+          const latest = addressRef.current;
+          if (!found || latest.street !== street) return;
+          const filled = normalizeAddress({
+            street: latest.street,
+            city: latest.city || found.city,
+            state: latest.state || found.state,
+            postalCode: latest.postalCode || found.postalCode,
+            country: latest.country || found.country,
+          });
+          onChange?.({ ...latest, ...filled, latitude: found.latitude ?? null, longitude: found.longitude ?? null });
+        })
+        .catch(() => {
+          // Lookups are a convenience; the typed address is kept as is
+        });
+    };
+
+    const handleStreetKeyDown = (e: React.KeyboardEvent): void => {
+      if (!showSuggestions) return;
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setActiveIndex((index) => (index + 1) % suggestions.length);
+      } else if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setActiveIndex((index) => (index <= 0 ? suggestions.length - 1 : index - 1));
+      } else if (e.key === 'Enter' && suggestions[activeIndex]) {
+        e.preventDefault();
+        selectSuggestion(suggestions[activeIndex]);
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        setClosedFor(street);
+        setActiveIndex(-1);
+      }
     };
 
     return (
       <div className={cn('space-y-2', className)}>
-        <Input
-          name={`${name}Street`}
-          value={street}
-          onChange={(e) => handleChange('street', e.target.value)}
-          disabled={disabled}
-          readOnly={readOnly}
-          placeholder="Street"
-        />
+        <div className="relative">
+          <Input
+            name={`${name}Street`}
+            value={street}
+            onChange={(e) => {
+              setActiveIndex(-1);
+              handleChange('street', e.target.value);
+            }}
+            onFocus={() => setStreetFocused(true)}
+            onBlur={() => {
+              setStreetFocused(false);
+              complete();
+            }}
+            onKeyDown={handleStreetKeyDown}
+            disabled={disabled}
+            readOnly={readOnly}
+            placeholder="Street"
+            autoComplete="off"
+            role={geocoder ? 'combobox' : undefined}
+            aria-autocomplete={geocoder ? 'list' : undefined}
+            aria-expanded={geocoder ? showSuggestions : undefined}
+            aria-controls={showSuggestions ? listboxId : undefined}
+            aria-activedescendant={showSuggestions && activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined}
+          />
+          {showSuggestions && (
+            <ul
+              id={listboxId}
+              role="listbox"
+              aria-label="Address suggestions"
+              className="absolute z-20 mt-1 max-h-60 w-full overflow-auto rounded-md border bg-white py-1 text-sm shadow-lg"
+            >
+              {suggestions.map((suggestion, index) => (
+                <li
+                  key={`${suggestion.label}-${index}`}
+                  id={`${listboxId}-${index}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onMouseDown={(e) => {
+                    // Keep focus in the input until the choice is applied
+                    e.preventDefault();
+                    selectSuggestion(suggestion);
+                  }}
+                  className={cn('cursor-pointer px-3 py-1.5', index === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50')}
+                >
+                  {suggestion.label}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
         <div className="grid grid-cols-2 gap-2">
           <Input
             name={`${name}City`}
@@ -132,6 +296,7 @@ export function AddressField({
             name={`${name}State`}
             value={state}
             onChange={(e) => handleChange('state', e.target.value)}
+            onBlur={normalize}
             disabled={disabled}
             readOnly={readOnly}
             placeholder="State/Province"
@@ -142,6 +307,7 @@ export function AddressField({
             name={`${name}PostalCode`}
             value={postalCode}
             onChange={(e) => handleChange('postalCode', e.target.value)}
+            onBlur={normalize}
             disabled={disabled}
             readOnly={readOnly}
             placeholder="Postal Code"
@@ -150,11 +316,18 @@ export function AddressField({
             name={`${name}Country`}
             value={country}
             onChange={(e) => handleChange('country', e.target.value)}
+            onBlur={normalize}
             disabled={disabled}
             readOnly={readOnly}
             placeholder="Country"
           />
         </div>
+        {latitude !== null && longitude !== null && (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <MapPin className="h-3 w-3" />
+            Located at {formatCoordinates({ latitude, longitude })}
+          </p>
+        )}
       </div>
     );
   }
@@ -1,51 +1,94 @@
-import React from 'react';
-import { Mail } from 'lucide-react';
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, Ban, Mail, Plus, Send, Star, X } from 'lucide-react';
 import { Input } from '@/components/ui/input';
-import type { FieldProps } from '../types';
+import type { EmailAddressEntry, FieldProps } from '../types';
 import { cn } from '@/lib/utils/cn';
+import { getEmailAddressEntries } from '@/lib/utils/emailAddress';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+const flagButtonClass =
+  'rounded p-2 text-muted-foreground hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50';
 
 /**
- * Email field component
+ * Email field component - addresses with primary, opt-out and invalid flags
+ * and a compose action
  */
 export function EmailField({
   name,
   value,
   mode,
+  entityType,
+  record,
   onChange,
   disabled,
   readOnly,
   className,
 }: FieldProps): React.ReactElement {
-  // Email can be a string or an object with primary email
-  const getEmailString = (val: unknown): string => {
-    if (!val) return '';
-    if (typeof val === 'string') return val;
-    if (typeof val === 'object' && val !== null) {
-      // Handle EspoCRM email format: array of {emailAddress, primary} or object
-      if (Array.isArray(val)) {
-        const primary = val.find((e: Record<string, unknown>) => e.primary);
-        return (primary?.emailAddress as string) ?? (val[0]?.emailAddress as string) ?? '';
-      }
-      return '';
-    }
-    return '';
-  };
+  // Row being typed in; its validity hint waits for blur
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
 
-  const emailValue = getEmailString(value);
+  // An array value, or the record's `${name}Data`
+  const addresses = getEmailAddressEntries(name, value, record);
+  const primary = addresses.find((entry) => entry.primary) ?? addresses[0];
+  const emailValue = primary?.emailAddress ?? '';
 
-  // Detail mode - display as mailto link
+  // Detail mode - primary address first, each with mailto and compose links
   if (mode === 'detail') {
-    if (!emailValue) {
+    if (addresses.length === 0) {
       return <span className={cn('text-muted-foreground', className)}>—</span>;
     }
+
+    const ordered = primary ? [primary, ...addresses.filter((entry) => entry !== primary)] : addresses;
+    const parent =
+      typeof record?.id === 'string'
+        ? { parentType: entityType, parentId: record.id, parentName: record.name }
+        : {};
+
     return (
-      <a
-        href={`mailto:${emailValue}`}
-        className={cn('text-primary hover:underline inline-flex items-center gap-1', className)}
-      >
-        <Mail className="h-4 w-4" />
-        {emailValue}
-      </a>
+      <div className={cn('space-y-1', className)}>
+        {ordered.map((entry, index) => {
+          const isBlocked = entry.optOut || entry.invalid;
+          return (
+            <div key={index} className="flex items-center gap-2">
+              <Mail className="h-4 w-4 text-muted-foreground" />
+              {isBlocked ? (
+                <span
+                  className="line-through text-muted-foreground"
+                  title={entry.invalid ? 'Invalid' : 'Opted out'}
+                >
+                  {entry.emailAddress}
+                </span>
+              ) : (
+                <a href={`mailto:${entry.emailAddress}`} className="text-primary hover:underline">
+                  {entry.emailAddress}
+                </a>
+              )}
+              {entry === primary && addresses.length > 1 && (
+                <span className="text-xs bg-blue-100 text-blue-800 px-1 rounded">Primary</span>
+              )}
+              {entry.optOut && (
+                <span className="text-xs bg-gray-100 text-gray-700 px-1 rounded">Opted out</span>
+              )}
+              {entry.invalid && (
+                <span className="text-xs bg-red-100 text-red-800 px-1 rounded">Invalid</span>
+              )}
+              {!isBlocked && (
+                <Link
+                  to="/Email/create"
+                  state={{ attributes: { to: entry.emailAddress, ...parent } }}
+                  aria-label={`Compose email to ${entry.emailAddress}`}
+                  title="Compose email"
+                  className="text-muted-foreground hover:text-primary"
+                >
+                  <Send className="h-3.5 w-3.5" />
+                </Link>
+              )}
+            </div>
+          );
+        })}
+      </div>
     );
   }
 
@@ -66,19 +109,119 @@ export function EmailField({
 
   // Edit mode
   if (mode === 'edit') {
+    const rows: EmailAddressEntry[] = addresses.length > 0 ? addresses : [{ emailAddress: '', primary: true }];
+    const isLocked = disabled || readOnly;
+
+    const update = (index: number, changes: Partial<EmailAddressEntry>): void => {
+      onChange?.(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    };
+
+    const setPrimary = (index: number): void => {
+      onChange?.(rows.map((row, i) => ({ ...row, primary: i === index })));
+    };
+
+    const remove = (index: number): void => {
+      const remaining = rows.filter((_, i) => i !== index);
+      if (rows[index]?.primary && remaining[0]) {
+        remaining[0] = { ...remaining[0], primary: true };
+      }
+      onChange?.(remaining);
+    };
+
     return (
-      <div className="relative">
-        <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-        <Input
-          type="email"
-          name={name}
-          value={emailValue}
-          onChange={(e) => onChange?.(e.target.value)}
-          disabled={disabled}
-          readOnly={readOnly}
-          placeholder="email@example.com"
-          className={cn('pl-10', className)}
-        />
+      <div className={cn('space-y-2', className)}>
+        {rows.map((row, index) => {
+          const showInvalid =
+            editingIndex !== index && row.emailAddress.trim() !== '' && !EMAIL_PATTERN.test(row.emailAddress.trim());
+          const hintId = `${name}-${index}-hint`;
+
+          return (
+            <div key={index} className="space-y-1">
+              <div className="flex items-center gap-1">
+                <div className="relative flex-1">
+                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    type="email"
+                    name={rows.length > 1 ? `${name}-${index}` : name}
+                    value={row.emailAddress}
+                    onChange={(e) => update(index, { emailAddress: e.target.value })}
+                    onFocus={() => setEditingIndex(index)}
+                    onBlur={() => {
+                      setEditingIndex(null);
+                      const trimmed = row.emailAddress.trim();
+                      if (trimmed !== row.emailAddress) update(index, { emailAddress: trimmed });
+                    }}
+                    disabled={disabled}
+                    readOnly={readOnly}
+                    placeholder="email@example.com"
+                    aria-invalid={showInvalid || undefined}
+                    aria-describedby={showInvalid ? hintId : undefined}
+                    className={cn('pl-10', (row.optOut || row.invalid) && 'line-through')}
+                  />
+                </div>
+                <button
+                  type="button"
+                  aria-label="Primary"
+                  aria-pressed={!!row.primary}
+                  title="Primary"
+                  onClick={() => setPrimary(index)}
+                  disabled={isLocked || rows.length < 2}
+                  className={flagButtonClass}
+                >
+                  <Star className={cn('h-4 w-4', row.primary && 'fill-yellow-400 text-yellow-500')} />
+                </button>
+                <button
+                  type="button"
+                  aria-label="Opted out"
+                  aria-pressed={!!row.optOut}
+                  title="Opted out"
+                  onClick={() => update(index, { optOut: !row.optOut })}
+                  disabled={isLocked}
+                  className={cn(flagButtonClass, row.optOut && 'text-gray-900')}
+                >
+                  <Ban className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  aria-label="Invalid"
+                  aria-pressed={!!row.invalid}
+                  title="Invalid"
+                  onClick={() => update(index, { invalid: !row.invalid })}
+                  disabled={isLocked}
+                  className={cn(flagButtonClass, row.invalid && 'text-red-600')}
+                >
+                  <AlertTriangle className="h-4 w-4" />
+                </button>
+                {rows.length > 1 && (
+                  <button
+                    type="button"
+                    aria-label="Remove email address"
+                    onClick={() => remove(index)}
+                    disabled={isLocked}
+                    className={flagButtonClass}
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+              {showInvalid && (
+                <p id={hintId} className="text-xs text-destructive">
+                  Not a valid email address
+                </p>
+              )}
+            </div>
+          );
+        })}
+        {!isLocked && (
+          <button
+            type="button"
+            onClick={() => onChange?.([...rows, { emailAddress: '', primary: false }])}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:underline"
+          >
+            <Plus className="h-3 w-3" />
+            Add email address
+          </button>
+        )}
       </div>
     );
   }
@@ -89,7 +232,7 @@ export function EmailField({
       <Input
         type="text"
         name={name}
-        value={emailValue}
+        value={typeof value === 'string' ? value : emailValue}
         onChange={(e) => onChange?.(e.target.value)}
         placeholder="Search email..."
         className={className}
@@ -1,20 +1,31 @@
 import React from 'react';
 import { Input } from '@/components/ui/input';
 import { MapPin, ExternalLink } from 'lucide-react';
+import { MapView, resolveMapProvider } from '@/components/map';
+import {
+  formatCoordinates as formatPoint,
+  getMapAddressLabel,
+  getRecordCoordinates,
+  useMapSettings,
+} from '@/lib/map';
 import type { FieldProps } from '../types';
 import { cn } from '@/lib/utils/cn';
 
 interface MapCoordinates {
-  latitude: number;
-  longitude: number;
+  latitude: number | null;
+  longitude: number | null;
 }
 
 /**
  * Map field component - geographic coordinates display
+ *
+ * The map is drawn by the field's `provider` (or the `mapProvider` setting),
+ * by default the built-in tile renderer using the configured tile server.
  */
 export function MapField({
   name,
   value,
+  fieldDef,
   mode,
   onChange,
   disabled,
@@ -22,96 +33,56 @@ export function MapField({
   record,
   className,
 }: FieldProps): React.ReactElement {
-  // Parse coordinates from value or record
-  let latitude: number | null = null;
-  let longitude: number | null = null;
-
-  if (typeof value === 'object' && value !== null) {
-    const coords = value as MapCoordinates;
-    latitude = coords.latitude ?? null;
-    longitude = coords.longitude ?? null;
-  } else if (typeof value === 'string' && value.includes(',')) {
-    const parts = value.split(',').map((p) => parseFloat(p.trim()));
-    const lat = parts[0];
-    const lng = parts[1];
-    if (parts.length === 2 && lat !== undefined && lng !== undefined && !isNaN(lat) && !isNaN(lng)) {
-      latitude = lat;
-      longitude = lng;
-    }
-  }
+  const settings = useMapSettings();
+  const provider = resolveMapProvider(fieldDef.provider, settings);
 
-  // Also check for separate lat/lng fields in record
-  const latField = `${name}Latitude`;
-  const lngField = `${name}Longitude`;
-  if (record?.[latField] != null && record?.[lngField] != null) {
-    latitude = parseFloat(String(record[latField]));
-    longitude = parseFloat(String(record[lngField]));
-  }
+  const point = getRecordCoordinates(record, name, value);
+  const hasCoordinates = point !== null;
 
-  const hasCoordinates = latitude !== null && longitude !== null && !isNaN(latitude) && !isNaN(longitude);
+  // Edit inputs show what was typed, even while it isn't a valid point yet
+  const typed = typeof value === 'object' && value !== null ? (value as Partial<MapCoordinates>) : null;
+  const latitude = typed?.latitude ?? point?.latitude ?? null;
+  const longitude = typed?.longitude ?? point?.longitude ?? null;
 
   // Format coordinates for display
-  const formatCoordinates = (): string => {
-    if (!hasCoordinates) return '';
-    return `${latitude!.toFixed(6)}, ${longitude!.toFixed(6)}`;
-  };
-
-  // Get Google Maps URL
-  const getMapUrl = (): string => {
-    if (!hasCoordinates) return '';
-    return `https://www.google.com/maps?q=${latitude},${longitude}`;
-  };
-
-  // Get static map image URL (using OpenStreetMap)
-  const getStaticMapUrl = (): string => {
-    if (!hasCoordinates) return '';
-    // Using OpenStreetMap's static map service
-    return `https://staticmap.openstreetmap.de/staticmap.php?center=${latitude},${longitude}&zoom=14&size=300x200&markers=${latitude},${longitude},red`;
-  };
-
-  // Detail mode - map preview with link
+  const formatCoordinates = (): string => (point ? formatPoint(point) : '');
+
+  // Link to the location in an external map, if the provider has one
+  const getMapUrl = (): string | null => (point ? (provider.getExternalUrl?.(point, settings) ?? null) : null);
+
+  const mapUrl = getMapUrl();
+
+  // Detail mode - map with the location marked
   if (mode === 'detail') {
-    if (!hasCoordinates) {
+    if (!point) {
       return <span className={cn('text-muted-foreground', className)}>—</span>;
     }
 
     return (
       <div className={cn('space-y-2', className)}>
-        {/* Static map preview */}
-        <a
-          href={getMapUrl()}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="block"
-        >
-          <div className="relative w-full max-w-sm h-40 bg-gray-100 rounded-md overflow-hidden border">
-            <img
-              src={getStaticMapUrl()}
-              alt="Map location"
-              className="w-full h-full object-cover"
-              onError={(e) => {
-                // Hide image on error, show fallback
-                (e.target as HTMLImageElement).style.display = 'none';
-              }}
-            />
-            <div className="absolute inset-0 flex items-center justify-center bg-gray-100">
-              <MapPin className="h-8 w-8 text-red-500" />
-            </div>
-          </div>
-        </a>
-
-        {/* Coordinates with link */}
+        <MapView
+          provider={fieldDef.provider}
+          height={fieldDef.height ?? 200}
+          markers={[{ id: name, position: point, label: getMapAddressLabel(record, name) || formatCoordinates() }]}
+          className="max-w-xl"
+        />
+
+        {/* Coordinates, linked to the external map if there is one */}
         <div className="flex items-center gap-2">
           <MapPin className="h-4 w-4 text-muted-foreground" />
-          <a
-            href={getMapUrl()}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-blue-600 hover:underline inline-flex items-center gap-1 text-sm font-mono"
-          >
-            {formatCoordinates()}
-            <ExternalLink className="h-3 w-3" />
-          </a>
+          {mapUrl ? (
+            <a
+              href={mapUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-600 hover:underline inline-flex items-center gap-1 text-sm font-mono"
+            >
+              {formatCoordinates()}
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          ) : (
+            <span className="text-sm font-mono">{formatCoordinates()}</span>
+          )}
         </div>
       </div>
     );
@@ -123,9 +94,18 @@ export function MapField({
       return <span className={cn('text-muted-foreground', className)}>—</span>;
     }
 
+    if (!mapUrl) {
+      return (
+        <span className={cn('inline-flex items-center gap-1', className)}>
+          <MapPin className="h-3 w-3" />
+          <span className="font-mono text-xs">{formatCoordinates()}</span>
+        </span>
+      );
+    }
+
     return (
       <a
-        href={getMapUrl()}
+        href={mapUrl}
         target="_blank"
         rel="noopener noreferrer"
         className={cn('text-blue-600 hover:underline inline-flex items-center gap-1', className)}
@@ -181,9 +161,9 @@ export function MapField({
             />
           </div>
         </div>
-        {hasCoordinates && (
+        {mapUrl && (
           <a
-            href={getMapUrl()}
+            href={mapUrl}
             target="_blank"
             rel="noopener noreferrer"
             className="text-xs text-blue-600 hover:underline inline-flex items-center gap-1"
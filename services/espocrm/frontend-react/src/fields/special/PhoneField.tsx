@@ -1,49 +1,114 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Input } from '@/components/ui/input';
-import { Phone } from 'lucide-react';
+import { AlertTriangle, Ban, Phone, Plus, Star, X } from 'lucide-react';
 import type { FieldProps } from '../types';
 import { cn } from '@/lib/utils/cn';
+import {
+  formatPhoneNumber,
+  getPhoneNumberEntries,
+  isValidPhoneNumber,
+  normalizePhoneNumber,
+  usePhoneSettings,
+  type CallContext,
+  type CallHandler,
+  type PhoneNumberEntry,
+  type PhoneSettings,
+} from '@/lib/phone';
 
-interface PhoneData {
-  phoneNumber?: string;
-  type?: string;
-  primary?: boolean;
+interface PhoneLinkProps {
+  entry: PhoneNumberEntry;
+  settings: PhoneSettings;
+  callHandler?: CallHandler;
+  context: CallContext;
+  /** Keep clicks from reaching the list row */
+  stopPropagation?: boolean;
+  className?: string;
 }
 
 /**
- * Phone field component - phone number with click-to-call
+ * A number with click-to-call; opted-out and invalid numbers are struck
+ * through and not linked
+ */
+function PhoneLink({
+  entry,
+  settings,
+  callHandler,
+  context,
+  stopPropagation,
+  className,
+}: PhoneLinkProps): React.ReactElement {
+  const number = normalizePhoneNumber(entry.phoneNumber, settings.defaultCountry);
+  const display = formatPhoneNumber(entry.phoneNumber, settings.format, settings.defaultCountry);
+
+  if (entry.optOut || entry.invalid || !callHandler) {
+    return (
+      <span
+        className={cn((entry.optOut || entry.invalid) && 'line-through text-muted-foreground', className)}
+        title={entry.invalid ? 'Invalid' : entry.optOut ? 'Opted out' : undefined}
+      >
+        {display}
+      </span>
+    );
+  }
+
+  const handleClick = (e: React.MouseEvent): void => {
+    if (stopPropagation) e.stopPropagation();
+    if (callHandler.call) {
+      e.preventDefault();
+      callHandler.call(number, context);
+    }
+  };
+
+  const href = callHandler.getHref?.(number, settings) ?? null;
+  if (!href) {
+    return (
+      <button
+        type="button"
+        onClick={handleClick}
+        title={`Call ${display}`}
+        className={cn('text-blue-600 hover:underline', className)}
+      >
+        {display}
+      </button>
+    );
+  }
+
+  return (
+    <a href={href} onClick={handleClick} className={cn('text-blue-600 hover:underline', className)}>
+      {display}
+    </a>
+  );
+}
+
+const flagButtonClass =
+  'rounded p-2 text-muted-foreground hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50';
+
+/**
+ * Phone field component - numbers stored in E.164 with types, primary,
+ * opt-out and invalid flags, shown per the user's format with click-to-call
  */
 export function PhoneField({
   name,
   value,
+  fieldDef,
   mode,
+  entityType,
+  record,
   onChange,
   disabled,
   readOnly,
   className,
 }: FieldProps): React.ReactElement {
-  // Handle both string and array of phone data
-  let phoneNumbers: PhoneData[] = [];
-
-  if (Array.isArray(value)) {
-    phoneNumbers = value as PhoneData[];
-  } else if (typeof value === 'string' && value) {
-    phoneNumbers = [{ phoneNumber: value, primary: true }];
-  }
-
-  const primaryPhone = phoneNumbers.find((p) => p.primary)?.phoneNumber ?? phoneNumbers[0]?.phoneNumber ?? '';
+  const { settings, callHandler } = usePhoneSettings();
+  // Row being typed in; its validity hint waits for blur
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
 
-  // Format phone for display
-  const formatPhone = (phone: string): string => {
-    // Basic US phone formatting
-    const cleaned = phone.replace(/\D/g, '');
-    if (cleaned.length === 10) {
-      return `(${cleaned.slice(0, 3)}) ${cleaned.slice(3, 6)}-${cleaned.slice(6)}`;
-    }
-    if (cleaned.length === 11 && cleaned[0] === '1') {
-      return `+1 (${cleaned.slice(1, 4)}) ${cleaned.slice(4, 7)}-${cleaned.slice(7)}`;
-    }
-    return phone;
+  const phoneNumbers = getPhoneNumberEntries(name, value, record);
+  const primary = phoneNumbers.find((p) => p.primary) ?? phoneNumbers[0];
+  const context: CallContext = {
+    entityType,
+    recordId: typeof record?.id === 'string' ? record.id : undefined,
+    field: name,
   };
 
   // Detail mode - display with click-to-call
@@ -57,18 +122,19 @@ export function PhoneField({
         {phoneNumbers.map((phone, index) => (
           <div key={index} className="flex items-center gap-2">
             <Phone className="h-4 w-4 text-muted-foreground" />
-            <a
-              href={`tel:${phone.phoneNumber}`}
-              className="text-blue-600 hover:underline"
-            >
-              {formatPhone(phone.phoneNumber ?? '')}
-            </a>
+            <PhoneLink entry={phone} settings={settings} callHandler={callHandler} context={context} />
             {phone.type && (
               <span className="text-xs text-muted-foreground">({phone.type})</span>
             )}
-            {phone.primary && (
+            {phone.primary && phoneNumbers.length > 1 && (
               <span className="text-xs bg-blue-100 text-blue-800 px-1 rounded">Primary</span>
             )}
+            {phone.optOut && (
+              <span className="text-xs bg-gray-100 text-gray-700 px-1 rounded">Opted out</span>
+            )}
+            {phone.invalid && (
+              <span className="text-xs bg-red-100 text-red-800 px-1 rounded">Invalid</span>
+            )}
           </div>
         ))}
       </div>
@@ -77,35 +143,164 @@ export function PhoneField({
 
   // List mode - compact display
   if (mode === 'list') {
-    if (!primaryPhone) {
+    if (!primary) {
       return <span className={cn('text-muted-foreground', className)}>—</span>;
     }
     return (
-      <a
-        href={`tel:${primaryPhone}`}
-        className={cn('text-blue-600 hover:underline', className)}
-        onClick={(e) => e.stopPropagation()}
-      >
-        {formatPhone(primaryPhone)}
-      </a>
+      <PhoneLink
+        entry={primary}
+        settings={settings}
+        callHandler={callHandler}
+        context={context}
+        stopPropagation
+        className={className}
+      />
     );
   }
 
   // Edit mode
   if (mode === 'edit') {
+    const typeList = fieldDef.typeList ?? [];
+    const defaultType = fieldDef.defaultType ?? typeList[0];
+    const rows: PhoneNumberEntry[] =
+      phoneNumbers.length > 0 ? phoneNumbers : [{ phoneNumber: '', type: defaultType, primary: true }];
+    const isLocked = disabled || readOnly;
+
+    const update = (index: number, changes: Partial<PhoneNumberEntry>): void => {
+      onChange?.(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    };
+
+    const setPrimary = (index: number): void => {
+      onChange?.(rows.map((row, i) => ({ ...row, primary: i === index })));
+    };
+
+    const remove = (index: number): void => {
+      const remaining = rows.filter((_, i) => i !== index);
+      if (rows[index]?.primary && remaining[0]) {
+        remaining[0] = { ...remaining[0], primary: true };
+      }
+      onChange?.(remaining);
+    };
+
+    const add = (): void => {
+      onChange?.([...rows, { phoneNumber: '', type: defaultType, primary: false }]);
+    };
+
     return (
-      <div className={cn('flex items-center gap-2', className)}>
-        <Phone className="h-4 w-4 text-muted-foreground" />
-        <Input
-          name={name}
-          type="tel"
-          value={primaryPhone}
-          onChange={(e) => onChange?.(e.target.value)}
-          disabled={disabled}
-          readOnly={readOnly}
-          placeholder="Enter phone number"
-          className="flex-1"
-        />
+      <div className={cn('space-y-2', className)}>
+        {rows.map((row, index) => {
+          const showInvalid =
+            editingIndex !== index &&
+            row.phoneNumber.trim() !== '' &&
+            !isValidPhoneNumber(row.phoneNumber, settings.defaultCountry);
+          const hintId = `${name}-${index}-hint`;
+
+          return (
+            <div key={index} className="space-y-1">
+              <div className="flex items-center gap-1">
+                <Phone className="mr-1 h-4 w-4 shrink-0 text-muted-foreground" />
+                {typeList.length > 0 && (
+                  <select
+                    aria-label="Phone number type"
+                    value={row.type ?? ''}
+                    onChange={(e) => update(index, { type: e.target.value })}
+                    disabled={isLocked}
+                    className={cn(
+                      'h-10 rounded-md border border-input bg-background px-2 py-2 text-sm',
+                      'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                      'disabled:cursor-not-allowed disabled:opacity-50'
+                    )}
+                  >
+                    {typeList.map((type) => (
+                      <option key={type} value={type}>
+                        {type}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <Input
+                  name={rows.length > 1 ? `${name}-${index}` : name}
+                  type="tel"
+                  value={row.phoneNumber}
+                  onChange={(e) => update(index, { phoneNumber: e.target.value })}
+                  onFocus={() => setEditingIndex(index)}
+                  onBlur={() => {
+                    setEditingIndex(null);
+                    const normalized = normalizePhoneNumber(row.phoneNumber, settings.defaultCountry);
+                    if (normalized !== row.phoneNumber) update(index, { phoneNumber: normalized });
+                  }}
+                  disabled={disabled}
+                  readOnly={readOnly}
+                  placeholder="Enter phone number"
+                  aria-invalid={showInvalid || undefined}
+                  aria-describedby={showInvalid ? hintId : undefined}
+                  className={cn('flex-1', (row.optOut || row.invalid) && 'line-through')}
+                />
+                <button
+                  type="button"
+                  aria-label="Primary"
+                  aria-pressed={!!row.primary}
+                  title="Primary"
+                  onClick={() => setPrimary(index)}
+                  disabled={isLocked || rows.length < 2}
+                  className={flagButtonClass}
+                >
+                  <Star className={cn('h-4 w-4', row.primary && 'fill-yellow-400 text-yellow-500')} />
+                </button>
+                <button
+                  type="button"
+                  aria-label="Opted out"
+                  aria-pressed={!!row.optOut}
+                  title="Opted out"
+                  onClick={() => update(index, { optOut: !row.optOut })}
+                  disabled={isLocked}
+                  className={cn(flagButtonClass, row.optOut && 'text-gray-900')}
+                >
+                  <Ban className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  aria-label="Invalid"
+                  aria-pressed={!!row.invalid}
+                  title="Invalid"
+                  onClick={() => update(index, { invalid: !row.invalid })}
+                  disabled={isLocked}
+                  className={cn(flagButtonClass, row.invalid && 'text-red-600')}
+                >
+                  <AlertTriangle className="h-4 w-4" />
+                </button>
+                {rows.length > 1 && (
+                  <button
+                    type="button"
+                    aria-label="Remove phone number"
+                    onClick={() => remove(index)}
+                    disabled={isLocked}
+                    className={flagButtonClass}
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+              {showInvalid && (
+                <p id={hintId} className="pl-6 text-xs text-destructive">
+                  {settings.defaultCountry
+                    ? 'Not a valid phone number'
+                    : 'Enter the number with its country code, e.g. +1'}
+                </p>
+              )}
+            </div>
+          );
+        })}
+        {!isLocked && (
+          <button
+            type="button"
+            onClick={add}
+            className="flex items-center gap-1 pl-6 text-sm text-blue-600 hover:underline"
+          >
+            <Plus className="h-3 w-3" />
+            Add phone number
+          </button>
+        )}
       </div>
     );
   }
@@ -116,7 +311,7 @@ export function PhoneField({
       <Input
         name={name}
         type="tel"
-        value={primaryPhone}
+        value={typeof value === 'string' ? value : (primary?.phoneNumber ?? '')}
         onChange={(e) => onChange?.(e.target.value)}
         placeholder="Search phone..."
         className={className}
@@ -124,5 +319,5 @@ export function PhoneField({
     );
   }
 
-  return <span>{formatPhone(primaryPhone)}</span>;
+  return <span>{primary ? formatPhoneNumber(primary.phoneNumber, settings.format, settings.defaultCountry) : ''}</span>;
 }
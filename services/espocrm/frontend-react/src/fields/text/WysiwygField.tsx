@@ -1,22 +1,42 @@
-import React from 'react';
+import React, { useCallback, useMemo } from 'react';
 import type { FieldProps } from '../types';
+import { RichTextEditor } from '@/components/editor/RichTextEditor';
+import { uploadAttachment, getAttachmentUrl } from '@/api/attachments';
+import { sanitizeHtml, htmlToPlainText } from '@/lib/utils/sanitizeHtml';
 import { cn } from '@/lib/utils/cn';
 
 /**
  * WYSIWYG field component - rich text editor
- * Note: Uses a textarea for editing. For a full WYSIWYG experience,
- * integrate a library like TipTap, Slate, or Quill.
+ * Stored HTML is sanitized before it is rendered; inline images are
+ * uploaded as attachments of the record's entity type.
  */
 export function WysiwygField({
   name,
   value,
   mode,
+  entityType,
   onChange,
   disabled,
   readOnly,
   className,
 }: FieldProps): React.ReactElement {
   const stringValue = value != null ? String(value) : '';
+  const safeHtml = useMemo(
+    () => (mode === 'detail' || mode === 'list' ? sanitizeHtml(stringValue) : ''),
+    [mode, stringValue]
+  );
+
+  const handleUploadImage = useCallback(
+    async (file: File): Promise<string> => {
+      const attachment = await uploadAttachment(file, {
+        role: 'Inline Attachment',
+        relatedType: entityType,
+        field: name,
+      });
+      return getAttachmentUrl(attachment.id);
+    },
+    [entityType, name]
+  );
 
   // Detail mode - render HTML content
   if (mode === 'detail') {
@@ -27,7 +47,7 @@ export function WysiwygField({
     return (
       <div
         className={cn('prose prose-sm max-w-none', className)}
-        dangerouslySetInnerHTML={{ __html: stringValue }}
+        dangerouslySetInnerHTML={{ __html: safeHtml }}
       />
     );
   }
@@ -39,34 +59,25 @@ export function WysiwygField({
     }
 
     // Strip HTML tags for list display
-    const plainText = stringValue.replace(/<[^>]*>/g, '').trim();
+    const plainText = htmlToPlainText(safeHtml);
     const preview = plainText.length > 100 ? `${plainText.slice(0, 100)}...` : plainText;
 
     return <span className={className}>{preview || '—'}</span>;
   }
 
-  // Edit mode - textarea with basic formatting hint
+  // Edit mode - rich text editor
   if (mode === 'edit') {
     return (
-      <div className={cn('space-y-1', className)}>
-        <textarea
-          name={name}
-          value={stringValue}
-          onChange={(e) => onChange?.(e.target.value)}
-          disabled={disabled}
-          readOnly={readOnly}
-          rows={8}
-          className={cn(
-            'flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background',
-            'placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2',
-            'disabled:cursor-not-allowed disabled:opacity-50 resize-y min-h-[120px]'
-          )}
-          placeholder="Enter content... (HTML supported)"
-        />
-        <p className="text-xs text-muted-foreground">
-          HTML formatting is supported
-        </p>
-      </div>
+      <RichTextEditor
+        name={name}
+        value={stringValue}
+        onChange={onChange}
+        onUploadImage={handleUploadImage}
+        disabled={disabled}
+        readOnly={readOnly}
+        placeholder="Enter content..."
+        className={className}
+      />
     );
   }
 
@@ -87,5 +98,5 @@ export function WysiwygField({
     );
   }
 
-  return <div dangerouslySetInnerHTML={{ __html: stringValue }} />;
+  return <div dangerouslySetInnerHTML={{ __html: sanitizeHtml(stringValue) }} />;
 }
@@ -18,15 +18,35 @@ export interface FieldDef {
   min?: number;
   max?: number;
   options?: string[];
+  /** Options allowed by dynamic logic (edit mode offers only these) */
+  filteredOptions?: string[];
   optionsPath?: string;
   view?: string;
   params?: Record<string, unknown>;
-  // Link field specific
+  // Link field specific: target entity and filters of the select modal
   entity?: string;
+  selectPrimaryFilterName?: string;
+  selectBoolFilterList?: string[];
+  // Link-multiple field specific: relationship columns and the target
+  // entity fields describing them, e.g. `{ role: 'opportunityRole' }`
+  columns?: Record<string, string>;
   // Currency field specific
   currency?: string;
   // Enum field specific
   translation?: string;
+  // File field specific: size limit in MB, accepted types and extensions
+  maxFileSize?: number;
+  accept?: string[];
+  maxCount?: number;
+  // Map field specific: provider name and height in pixels
+  provider?: string;
+  height?: number;
+  // Duration field specific: start and end attributes it is kept in sync with
+  start?: string;
+  end?: string;
+  // Phone field specific: number types offered and preselected
+  typeList?: string[];
+  defaultType?: string;
 }
 
 /**
@@ -70,14 +90,36 @@ export interface LinkValue {
   name?: string;
 }
 
+/**
+ * Linked record of a link-multiple field with its relationship column values
+ */
+export interface LinkMultipleItem {
+  id: string;
+  name: string;
+  columns?: Record<string, unknown>;
+}
+
 /**
  * Currency value structure
  */
 export interface CurrencyValue {
-  amount: number;
+  /** Null while the amount is not filled in */
+  amount: number | null;
   currency: string;
 }
 
+/**
+ * One address of an email field, as stored in `<field>Data`
+ */
+export interface EmailAddressEntry {
+  emailAddress: string;
+  primary?: boolean;
+  /** The contact asked not to be emailed at this address */
+  optOut?: boolean;
+  /** Mail to this address bounces */
+  invalid?: boolean;
+}
+
 /**
  * Address value structure
  */
@@ -87,4 +129,7 @@ export interface AddressValue {
   state?: string;
   postalCode?: string;
   country?: string;
+  /** Location found by the geocoder; stored as `<field>Latitude` / `<field>Longitude` */
+  latitude?: number | null;
+  longitude?: number | null;
 }
@@ -0,0 +1,40 @@
+import React, { useCallback, useState } from 'react';
+import { AttachmentPreviewModal } from '@/components/modals/AttachmentPreviewModal';
+import type { Attachment } from '@/api/attachments';
+
+interface PreviewState {
+  attachments: Attachment[];
+  index: number;
+}
+
+interface UseAttachmentPreviewResult {
+  /**
+   * Click handler for attachment links: opens the previewer at `id`. Clicks
+   * with a modifier key keep the browser's default (open in a new tab, etc.).
+   */
+  openPreview: (e: React.MouseEvent, attachments: Attachment[], id: string) => void;
+  /** Previewer element to render, or null when closed */
+  previewModal: React.ReactElement | null;
+}
+
+export function useAttachmentPreview(): UseAttachmentPreviewResult {
+  const [preview, setPreview] = useState<PreviewState | null>(null);
+
+  const openPreview = useCallback((e: React.MouseEvent, attachments: Attachment[], id: string): void => {
+    if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const index = attachments.findIndex((attachment) => attachment.id === id);
+    setPreview({ attachments, index: Math.max(index, 0) });
+  }, []);
+
+  const previewModal = preview ? (
+    <AttachmentPreviewModal
+      attachments={preview.attachments}
+      initialIndex={preview.index}
+      onClose={() => setPreview(null)}
+    />
+  ) : null;
+
+  return { openPreview, previewModal };
+}
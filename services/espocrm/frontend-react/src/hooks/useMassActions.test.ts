@@ -6,6 +6,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { renderHook, act, waitFor } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { useMassActions } from './useMassActions';
+import { subscribe, clearAllRegistries } from '@/lib/extensions';
 
 // Mock API client
 vi.mock('@/api/client', () => ({
@@ -32,6 +33,7 @@ function createWrapper() {
 describe('useMassActions', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    clearAllRegistries();
     mockPost.mockResolvedValue({ count: 3 });
   });
 
@@ -380,6 +382,78 @@ describe('useMassActions', () => {
     });
   });
 
+  describe('lifecycle events', () => {
+    it('should let beforeSave handlers modify mass update attributes', async () => {
+      const afterSave = vi.fn();
+      subscribe('beforeSave', (event) => {
+        event.attributes.description = 'Updated in bulk';
+      });
+      subscribe('afterSave', afterSave);
+
+      const { result } = renderHook(
+        () => useMassActions({ entityType: 'Contact' }),
+        { wrapper: createWrapper() }
+      );
+
+      act(() => {
+        result.current.selectAll(['1', '2']);
+      });
+
+      await act(async () => {
+        await result.current.massUpdate({ status: 'Active' });
+      });
+
+      expect(mockPost).toHaveBeenCalledWith('/Contact/action/massUpdate', {
+        ids: ['1', '2'],
+        attributes: { status: 'Active', description: 'Updated in bulk' },
+      });
+      expect(afterSave).toHaveBeenCalledWith(
+        expect.objectContaining({ entityType: 'Contact', recordIds: ['1', '2'], isNew: false })
+      );
+    });
+
+    it('should not update when a beforeSave handler vetoes', async () => {
+      const onError = vi.fn();
+      subscribe('beforeSave', (event) => event.veto('Status is locked'));
+
+      const { result } = renderHook(
+        () => useMassActions({ entityType: 'Contact', onError }),
+        { wrapper: createWrapper() }
+      );
+
+      act(() => {
+        result.current.selectAll(['1']);
+      });
+
+      await act(async () => {
+        await result.current.massUpdate({ status: 'Active' }).catch(() => {});
+      });
+
+      expect(mockPost).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith('update', expect.objectContaining({ message: 'Status is locked' }));
+    });
+
+    it('should emit afterDelete with the deleted IDs', async () => {
+      const afterDelete = vi.fn();
+      subscribe('afterDelete', afterDelete);
+
+      const { result } = renderHook(
+        () => useMassActions({ entityType: 'Contact' }),
+        { wrapper: createWrapper() }
+      );
+
+      act(() => {
+        result.current.selectAll(['1', '2']);
+      });
+
+      await act(async () => {
+        await result.current.massDelete();
+      });
+
+      expect(afterDelete).toHaveBeenCalledWith({ entityType: 'Contact', recordIds: ['1', '2'] });
+    });
+  });
+
   describe('isProcessing', () => {
     it('should be false initially', () => {
       const { result } = renderHook(
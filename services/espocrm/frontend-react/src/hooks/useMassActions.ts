@@ -10,6 +10,7 @@
 import { useState, useCallback } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { post } from '@/api/client';
+import { emit, emitBeforeSave } from '@/lib/extensions';
 
 interface UseMassActionsOptions {
   entityType: string;
@@ -111,6 +112,7 @@ export function useMassActions({
         `/${entityType}/action/massDelete`,
         { ids }
       );
+      emit('afterDelete', { entityType, recordIds: ids });
       return response;
     },
     onSuccess: (data) => {
@@ -131,11 +133,27 @@ export function useMassActions({
   // Mass update mutation
   const updateMutation = useMutation({
     mutationFn: async ({ ids, attributes }: MassUpdateData) => {
+      const beforeSave = await emitBeforeSave({
+        entityType,
+        recordIds: ids,
+        isNew: false,
+        attributes,
+      });
+      if (beforeSave.vetoed) {
+        throw new Error(beforeSave.reason ?? 'Update was cancelled');
+      }
+
       // EspoCRM supports mass update via POST to /EntityType/action/massUpdate
       const response = await post<{ count: number }>(
         `/${entityType}/action/massUpdate`,
-        { ids, attributes }
+        { ids, attributes: beforeSave.attributes }
       );
+      emit('afterSave', {
+        entityType,
+        recordIds: ids,
+        isNew: false,
+        attributes: beforeSave.attributes,
+      });
       return response;
     },
     onSuccess: (data) => {
@@ -1,9 +1,10 @@
 /**
  * useNavigation Hook Tests
  */
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook } from '@testing-library/react';
 import { useNavigation } from './useNavigation';
+import { registerModule, clearAllRegistries } from '@/lib/extensions';
 
 // Mock auth store
 vi.mock('@/features/auth/store', () => ({
@@ -248,6 +249,47 @@ describe('useNavigation', () => {
     });
   });
 
+  describe('extension tabs', () => {
+    afterEach(() => {
+      clearAllRegistries();
+    });
+
+    it('should append tabs registered by modules before Admin', async () => {
+      await registerModule({
+        name: 'ReportsModule',
+        navItems: [
+          { name: 'ReportBuilder', label: 'Reports', href: '/ReportBuilder' },
+          { name: 'ReportSetup', label: 'Report Setup', href: '/ReportSetup', adminOnly: true },
+        ],
+      });
+      mockUseAuthStore.mockReturnValue({
+        settings: { tabList: ['Account'] },
+        user: { isAdmin: true, id: '1', name: 'Admin' },
+      } as ReturnType<typeof useAuthStore>);
+
+      const { result } = renderHook(() => useNavigation());
+
+      const names = result.current.navItems.map((item) => item.name);
+      expect(names).toEqual(['Home', 'Account', 'ReportBuilder', 'ReportSetup', 'Admin']);
+      expect(result.current.navItems[2]?.icon).toBeDefined();
+    });
+
+    it('should hide admin-only tabs from regular users', async () => {
+      await registerModule({
+        name: 'ReportsModule',
+        navItems: [{ name: 'ReportSetup', label: 'Report Setup', href: '/ReportSetup', adminOnly: true }],
+      });
+      mockUseAuthStore.mockReturnValue({
+        settings: { tabList: ['Account'] },
+        user: { isAdmin: false, id: '1', name: 'Regular User' },
+      } as ReturnType<typeof useAuthStore>);
+
+      const { result } = renderHook(() => useNavigation());
+
+      expect(result.current.navItems.find((item) => item.name === 'ReportSetup')).toBeUndefined();
+    });
+  });
+
   describe('entity icons', () => {
     it('should assign correct icons to known entities', () => {
       mockUseAuthStore.mockReturnValue({
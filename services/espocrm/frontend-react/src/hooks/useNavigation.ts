@@ -19,6 +19,7 @@ import {
 } from 'lucide-react';
 import { useAuthStore } from '@/features/auth/store';
 import { useMetadata } from '@/lib/metadata/useMetadata';
+import { getNavItems, useRegistryVersion } from '@/lib/extensions';
 
 export interface NavItem {
   name: string;
@@ -62,6 +63,7 @@ export function useNavigation(): {
   isLoading: boolean;
 } {
   const { settings, user } = useAuthStore();
+  const registryVersion = useRegistryVersion();
   const { metadata, getEntityList } = useMetadata();
 
   const navItems = useMemo<NavItem[]>(() => {
@@ -172,11 +174,21 @@ export function useNavigation(): {
     return items;
   }, [settings, metadata, getEntityList]);
 
-  // Add admin section if user is admin
+  // Add extension tabs, then the admin section if user is admin
   const finalItems = useMemo<NavItem[]>(() => {
+    const extensionItems: NavItem[] = getNavItems()
+      .filter((item) => !item.adminOnly || user?.isAdmin)
+      .map((item) => ({
+        name: item.name,
+        label: item.label,
+        href: item.href,
+        icon: item.icon ?? defaultEntityIcon,
+      }));
+
     if (user?.isAdmin) {
       return [
         ...navItems,
+        ...extensionItems,
         {
           name: 'Admin',
           label: 'Administration',
@@ -185,8 +197,9 @@ export function useNavigation(): {
         },
       ];
     }
-    return navItems;
-  }, [navItems, user?.isAdmin]);
+    return [...navItems, ...extensionItems];
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- recompute when the registry changes
+  }, [navItems, user?.isAdmin, registryVersion]);
 
   return {
     navItems: finalItems,
@@ -0,0 +1,179 @@
+/**
+ * useRecordForm Hook Tests
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useRecordForm } from './useRecordForm';
+import type { FieldDef } from '@/fields/types';
+
+vi.mock('@/lib/metadata/useMetadata', () => ({
+  useMetadata: vi.fn(),
+}));
+
+vi.mock('@/hooks/useTranslation', () => {
+  const helpers = {
+    t: (key: string): string => key,
+    translateField: (_entityType: string, field: string): string => field,
+  };
+  return { useTranslation: () => helpers };
+});
+
+import { useMetadata } from '@/lib/metadata/useMetadata';
+import { ApiError } from '@/api/client';
+
+const mockUseMetadata = vi.mocked(useMetadata);
+
+const fieldDefs: Record<string, FieldDef> = {
+  name: { type: 'varchar', required: true },
+  dateStart: { type: 'datetime' },
+  dateEnd: { type: 'datetime' },
+  duration: { type: 'duration' },
+  contacts: { type: 'linkMultiple', entity: 'Contact', columns: { role: 'opportunityRole' } },
+};
+
+const initialData = {
+  name: 'Kick-off',
+  dateStart: '2024-03-01 10:00:00',
+  dateEnd: '2024-03-01 11:00:00',
+  duration: 3600,
+};
+
+describe('useRecordForm', () => {
+  const isTaken = vi.fn();
+  const options = {
+    initialData,
+    fieldDefs,
+    asyncValidations: {
+      name: async (value: unknown) => ((await isTaken(value)) ? 'Name is taken' : null),
+    },
+    asyncDebounceMs: 300,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    isTaken.mockResolvedValue(false);
+    mockUseMetadata.mockReturnValue({
+      metadata: { entityDefs: { Meeting: { fields: fieldDefs } } },
+      isLoading: false,
+      error: null,
+    } as unknown as ReturnType<typeof useMetadata>);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('applies changes on top of the initial data', () => {
+    const { result } = renderHook(() => useRecordForm('Meeting', options));
+
+    act(() => {
+      result.current.handleChange('name', 'Review');
+    });
+
+    expect(result.current.formData).toEqual({ ...initialData, name: 'Review' });
+  });
+
+  it('keeps the attributes tied to a field in sync', () => {
+    const onFieldChange = vi.fn();
+    const { result } = renderHook(() => useRecordForm('Meeting', { ...options, onFieldChange }));
+
+    act(() => {
+      result.current.handleChange('duration', 1800);
+    });
+    act(() => {
+      result.current.handleChange('contacts', [{ id: 'c1', name: 'Jane', columns: { role: 'Evaluator' } }]);
+    });
+
+    expect(result.current.formData).toMatchObject({
+      dateEnd: '2024-03-01 10:30:00',
+      contactsIds: ['c1'],
+      contactsNames: { c1: 'Jane' },
+      contactsColumns: { c1: { role: 'Evaluator' } },
+    });
+    expect(onFieldChange).toHaveBeenCalledWith(
+      expect.objectContaining({
+        field: 'duration',
+        value: 1800,
+        previousValue: 3600,
+        attributes: expect.objectContaining({ dateEnd: '2024-03-01 10:30:00' }),
+      })
+    );
+  });
+
+  it('does not save invalid data', () => {
+    const save = vi.fn();
+    const { result } = renderHook(() => useRecordForm('Meeting', options));
+
+    act(() => {
+      result.current.handleChange('name', '');
+    });
+    act(() => {
+      result.current.handleSave(save);
+    });
+
+    expect(result.current.fieldErrors.name).toBe('Name is required');
+    expect(result.current.isCheckingFields).toBe(false);
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it('waits for a pending check, then saves', async () => {
+    const save = vi.fn();
+    const { result } = renderHook(() => useRecordForm('Meeting', options));
+
+    act(() => {
+      result.current.handleChange('name', 'Review');
+    });
+    act(() => {
+      result.current.handleSave(save);
+    });
+
+    expect(result.current.isCheckingFields).toBe(true);
+    expect(save).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(300);
+    });
+
+    expect(result.current.isCheckingFields).toBe(false);
+    expect(save).toHaveBeenCalledWith({ ...initialData, name: 'Review' });
+  });
+
+  it('does not save when a pending check fails', async () => {
+    isTaken.mockResolvedValue(true);
+    const save = vi.fn();
+    const { result } = renderHook(() => useRecordForm('Meeting', options));
+
+    act(() => {
+      result.current.handleChange('name', 'Review');
+    });
+    act(() => {
+      result.current.handleSave(save);
+    });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(300);
+    });
+
+    expect(result.current.isCheckingFields).toBe(false);
+    expect(result.current.fieldErrors.name).toBe('Name is taken');
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it('shows the field errors of a failed save', () => {
+    const { result } = renderHook(() => useRecordForm('Meeting', options));
+
+    const error = new ApiError('An error occurred', 400, undefined, {
+      messageTranslation: {
+        label: 'validationFailure',
+        scope: null,
+        data: { field: 'name', type: 'required' },
+      },
+    });
+
+    act(() => {
+      result.current.handleSaveError(error);
+    });
+
+    expect(result.current.fieldErrors).toEqual({ name: 'Name is required' });
+  });
+});
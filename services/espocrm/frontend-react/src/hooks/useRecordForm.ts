@@ -0,0 +1,151 @@
+import { useState, useMemo, useCallback } from 'react';
+import {
+  useFormValidation,
+  type FieldValidationStatus,
+  type UseFormValidationOptions,
+} from '@/lib/validation';
+import { getAttributeSyncChanges } from '@/lib/utils/attributeSync';
+import type { FieldDef } from '@/fields/types';
+
+export interface RecordFormChange {
+  field: string;
+  value: unknown;
+  previousValue: unknown;
+  /** All attributes after the change */
+  attributes: Record<string, unknown>;
+}
+
+interface UseRecordFormOptions extends UseFormValidationOptions {
+  /** Attributes the form starts from: the record being edited, or default values */
+  initialData: Record<string, unknown>;
+  /** Field definitions of the entity */
+  fieldDefs: Record<string, FieldDef>;
+  /** Called after every field change */
+  onFieldChange?: (change: RecordFormChange) => void;
+}
+
+interface UseRecordFormResult {
+  /** Initial data with the user's changes applied */
+  formData: Record<string, unknown>;
+  /** Change a field, keep the attributes tied to it in sync and revalidate */
+  handleChange: (field: string, value: unknown) => void;
+  /** Validate, wait for pending asynchronous checks, then save if all passed */
+  handleSave: (save: (data: Record<string, unknown>) => void) => void;
+  /** Show the field errors a failed save reported */
+  handleSaveError: (error: unknown) => void;
+  /** Synchronous and asynchronous errors by field name */
+  fieldErrors: Record<string, string>;
+  /** Asynchronous validation status by field name */
+  fieldStatus: Record<string, FieldValidationStatus>;
+  /** Whether a save waits for asynchronous checks to finish */
+  isCheckingFields: boolean;
+}
+
+/**
+ * State, validation and saving shared by the record create and edit forms
+ */
+export function useRecordForm(
+  entityType: string,
+  { initialData, fieldDefs, onFieldChange, ...validationOptions }: UseRecordFormOptions
+): UseRecordFormResult {
+  const [changes, setChanges] = useState<Record<string, unknown>>({});
+  const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  const [isCheckingFields, setIsCheckingFields] = useState(false);
+
+  const {
+    validate,
+    validateField,
+    validateFieldAsync,
+    waitForAsyncValidation,
+    getDependentFields,
+    fieldStatus,
+    asyncErrors,
+    mapServerErrors,
+    isReady,
+  } = useFormValidation(entityType, validationOptions);
+
+  const formData = useMemo(() => ({ ...initialData, ...changes }), [initialData, changes]);
+
+  const handleChange = useCallback(
+    (field: string, value: unknown): void => {
+      const changedFormData = { ...formData, [field]: value };
+      const syncedChanges = getAttributeSyncChanges(fieldDefs, field, changedFormData);
+      const updatedFormData = { ...changedFormData, ...syncedChanges };
+      setChanges((prev) => ({ ...prev, [field]: value, ...syncedChanges }));
+
+      onFieldChange?.({
+        field,
+        value,
+        previousValue: formData[field],
+        attributes: updatedFormData,
+      });
+
+      if (!isReady) return;
+
+      // Re-check the field, the attributes synced with it and any fields
+      // whose cross-field rules read it
+      const changedErrors: Record<string, string | null> = {};
+      for (const name of [field, ...Object.keys(syncedChanges), ...getDependentFields(field)]) {
+        changedErrors[name] = validateField(name, updatedFormData[name], updatedFormData);
+      }
+      setValidationErrors((prev) => {
+        const next = { ...prev };
+        for (const [name, fieldError] of Object.entries(changedErrors)) {
+          if (fieldError) {
+            next[name] = fieldError;
+          } else {
+            delete next[name];
+          }
+        }
+        return next;
+      });
+      validateFieldAsync(field, updatedFormData[field], updatedFormData);
+    },
+    [formData, fieldDefs, onFieldChange, isReady, getDependentFields, validateField, validateFieldAsync]
+  );
+
+  const handleSave = useCallback(
+    (save: (data: Record<string, unknown>) => void): void => {
+      const result = validate(formData);
+      setValidationErrors(result.errors);
+      if (!result.isValid) return;
+
+      // Asynchronous checks (e.g. uniqueness) still running hold the save back
+      setIsCheckingFields(true);
+      void waitForAsyncValidation().then((status) => {
+        setIsCheckingFields(false);
+        if (Object.values(status).every((check) => check === 'valid')) {
+          save(formData);
+        }
+      });
+    },
+    [formData, validate, waitForAsyncValidation]
+  );
+
+  const handleSaveError = useCallback(
+    (error: unknown): void => {
+      // Highlight the fields rejected by server-side validation
+      const serverErrors = mapServerErrors(error);
+      if (serverErrors) {
+        setValidationErrors(serverErrors);
+      }
+    },
+    [mapServerErrors]
+  );
+
+  // Synchronous errors take precedence over asynchronous ones
+  const fieldErrors = useMemo(
+    () => ({ ...asyncErrors, ...validationErrors }),
+    [asyncErrors, validationErrors]
+  );
+
+  return {
+    formData,
+    handleChange,
+    handleSave,
+    handleSaveError,
+    fieldErrors,
+    fieldStatus,
+    isCheckingFields,
+  };
+}
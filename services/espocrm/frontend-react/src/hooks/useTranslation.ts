@@ -1,3 +1,4 @@
+import { useMemo } from 'react';
 import { useTranslation as useI18nTranslation } from 'react-i18next';
 
 interface TranslationHelpers {
@@ -12,7 +13,8 @@ interface TranslationHelpers {
 export function useTranslation(): TranslationHelpers {
   const { t, ready } = useI18nTranslation();
 
-  return {
+  // Stable helpers, so callers can memoize on them (e.g. validation schemas)
+  return useMemo(() => ({
     t: (key: string, options?: Record<string, unknown>): string => {
       return t(key, options);
     },
@@ -63,5 +65,5 @@ export function useTranslation(): TranslationHelpers {
     },
 
     isReady: ready,
-  };
+  }), [t, ready]);
 }
@@ -0,0 +1,61 @@
+/**
+ * Currency Conversion Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { convertCurrency, formatCurrency, getRate, sumInBaseCurrency, toBaseCurrency } from './conversion';
+import { DEFAULT_CURRENCY_SETTINGS } from './settings';
+import type { CurrencySettings } from './types';
+
+const settings: CurrencySettings = {
+  ...DEFAULT_CURRENCY_SETTINGS,
+  currencyList: ['USD', 'EUR', 'GBP', 'JPY'],
+  rates: { EUR: 1.1, GBP: 1.25 },
+};
+
+describe('conversion', () => {
+  it('uses a rate of 1 for the base currency', () => {
+    expect(getRate('USD', settings)).toBe(1);
+    expect(getRate('EUR', settings)).toBe(1.1);
+    expect(getRate('JPY', settings)).toBeNull();
+  });
+
+  it('converts into the base currency', () => {
+    expect(toBaseCurrency(100, 'EUR', settings)).toBeCloseTo(110);
+    expect(toBaseCurrency(100, 'USD', settings)).toBe(100);
+  });
+
+  it('converts between other currencies through the base currency', () => {
+    expect(convertCurrency(125, 'GBP', 'EUR', settings)).toBeCloseTo(142.045, 3);
+    expect(convertCurrency(100, 'JPY', 'USD', settings)).toBeNull();
+    expect(convertCurrency(100, 'JPY', 'JPY', settings)).toBe(100);
+  });
+
+  it('sums amounts and counts those without a rate', () => {
+    expect(
+      sumInBaseCurrency(
+        [
+          { amount: 100, currency: 'USD' },
+          { amount: 100, currency: 'EUR' },
+          { amount: 500, currency: 'JPY' },
+          { amount: null, currency: 'GBP' },
+        ],
+        settings
+      )
+    ).toEqual({ total: 210, skipped: 1 });
+  });
+});
+
+describe('formatCurrency', () => {
+  it('formats with the currency symbol', () => {
+    expect(formatCurrency(1234.5, 'USD', settings)).toBe('$1,234.50');
+  });
+
+  it('uses the configured separators and decimal places', () => {
+    const european = { ...settings, thousandSeparator: '.', decimalMark: ',', decimalPlaces: 0 };
+    expect(formatCurrency(1234567.8, 'EUR', european)).toBe('€1.234.568');
+  });
+
+  it('falls back to the code for unknown currencies', () => {
+    expect(formatCurrency(5, 'XX', settings)).toBe('XX 5.00');
+  });
+});
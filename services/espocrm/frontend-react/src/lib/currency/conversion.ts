@@ -0,0 +1,90 @@
+/**
+ * Currency conversion and formatting
+ */
+import type { CurrencySettings, Money } from './types';
+
+/**
+ * Value of one unit of a currency in the base currency; null when no rate
+ * is configured
+ */
+export function getRate(currency: string, settings: CurrencySettings): number | null {
+  if (currency === settings.baseCurrency) return 1;
+  return settings.rates[currency] ?? null;
+}
+
+/**
+ * Convert an amount between currencies through the base currency
+ */
+export function convertCurrency(
+  amount: number,
+  from: string,
+  to: string,
+  settings: CurrencySettings
+): number | null {
+  if (from === to) return amount;
+  const fromRate = getRate(from, settings);
+  const toRate = getRate(to, settings);
+  if (fromRate === null || toRate === null) return null;
+  return (amount * fromRate) / toRate;
+}
+
+/**
+ * Convert an amount into the base currency
+ */
+export function toBaseCurrency(amount: number, currency: string, settings: CurrencySettings): number | null {
+  return convertCurrency(amount, currency, settings.baseCurrency, settings);
+}
+
+/**
+ * Sum amounts in the base currency. Amounts without a rate are left out
+ * and counted in `skipped`.
+ */
+export function sumInBaseCurrency(
+  amounts: Money[],
+  settings: CurrencySettings
+): { total: number; skipped: number } {
+  let total = 0;
+  let skipped = 0;
+
+  for (const { amount, currency } of amounts) {
+    if (amount === null || !Number.isFinite(amount)) continue;
+    const converted = toBaseCurrency(amount, currency, settings);
+    if (converted === null) {
+      skipped++;
+    } else {
+      total += converted;
+    }
+  }
+
+  return { total, skipped };
+}
+
+/**
+ * Format an amount with its currency symbol and the configured separators
+ */
+export function formatCurrency(amount: number, currency: string, settings: CurrencySettings): string {
+  const digits = settings.decimalPlaces ?? undefined;
+
+  let parts: Intl.NumberFormatPart[];
+  try {
+    parts = new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    }).formatToParts(amount);
+  } catch {
+    // Fallback for unknown currencies
+    return `${currency} ${amount.toFixed(digits ?? 2)}`;
+  }
+
+  return parts
+    .map((part) =>
+      part.type === 'group'
+        ? settings.thousandSeparator
+        : part.type === 'decimal'
+          ? settings.decimalMark
+          : part.value
+    )
+    .join('');
+}
@@ -0,0 +1,11 @@
+/**
+ * Currency Module
+ *
+ * Currency settings, conversion through the base currency and amount
+ * formatting used by CurrencyField and list totals.
+ */
+
+export type { CurrencySettings, Money } from './types';
+export { DEFAULT_CURRENCY_SETTINGS, getCurrencySettings, getEnabledCurrencies } from './settings';
+export { getRate, convertCurrency, toBaseCurrency, sumInBaseCurrency, formatCurrency } from './conversion';
+export { useCurrencySettings } from './useCurrencySettings';
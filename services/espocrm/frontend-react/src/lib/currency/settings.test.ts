@@ -0,0 +1,44 @@
+/**
+ * Currency Settings Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_CURRENCY_SETTINGS, getCurrencySettings, getEnabledCurrencies } from './settings';
+
+describe('getCurrencySettings', () => {
+  it('uses defaults for missing settings', () => {
+    expect(getCurrencySettings(null)).toEqual(DEFAULT_CURRENCY_SETTINGS);
+  });
+
+  it('reads the currency configuration', () => {
+    expect(
+      getCurrencySettings({
+        currencyList: ['EUR', 'USD'],
+        defaultCurrency: 'EUR',
+        baseCurrency: 'USD',
+        currencyRates: { EUR: '1.1', GBP: 0, CHF: 'abc' },
+        currencyDecimalPlaces: null,
+        thousandSeparator: ' ',
+        decimalMark: ',',
+      })
+    ).toEqual({
+      currencyList: ['EUR', 'USD'],
+      defaultCurrency: 'EUR',
+      baseCurrency: 'USD',
+      rates: { EUR: 1.1 },
+      decimalPlaces: null,
+      thousandSeparator: ' ',
+      decimalMark: ',',
+    });
+  });
+
+  it('uses the default currency as base when none is set', () => {
+    expect(getCurrencySettings({ defaultCurrency: 'EUR' }).baseCurrency).toBe('EUR');
+  });
+});
+
+describe('getEnabledCurrencies', () => {
+  it('offers the default currency without a list', () => {
+    expect(getEnabledCurrencies(getCurrencySettings({ defaultCurrency: 'GBP' }))).toEqual(['GBP']);
+    expect(getEnabledCurrencies(getCurrencySettings({ currencyList: ['USD', 'EUR'] }))).toEqual(['USD', 'EUR']);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Currency settings
+ *
+ * - `currencyList`: currencies amounts may be entered in
+ * - `defaultCurrency`: currency of new amounts (USD when not set)
+ * - `baseCurrency`: currency of converted amounts; the default currency when
+ *   not set
+ * - `currencyRates`: value of one unit of each currency in the base
+ *   currency, e.g. `{ EUR: 1.08 }` with a USD base
+ * - `currencyDecimalPlaces`, `thousandSeparator`, `decimalMark`: number
+ *   formatting of amounts
+ */
+import type { CurrencySettings } from './types';
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  currencyList: [],
+  defaultCurrency: 'USD',
+  baseCurrency: 'USD',
+  rates: {},
+  decimalPlaces: 2,
+  thousandSeparator: ',',
+  decimalMark: '.',
+};
+
+function stringSetting(...values: unknown[]): string | undefined {
+  return values.find((value): value is string => typeof value === 'string' && value !== '');
+}
+
+function getRates(value: unknown): Record<string, number> {
+  const rates: Record<string, number> = {};
+  if (typeof value !== 'object' || value === null) return rates;
+
+  for (const [currency, rate] of Object.entries(value)) {
+    const number = typeof rate === 'string' ? parseFloat(rate) : rate;
+    if (typeof number === 'number' && Number.isFinite(number) && number > 0) {
+      rates[currency] = number;
+    }
+  }
+  return rates;
+}
+
+/**
+ * Currency settings from the application settings
+ */
+export function getCurrencySettings(settings: Record<string, unknown> | null | undefined): CurrencySettings {
+  const source = settings ?? {};
+
+  const currencyList = Array.isArray(source.currencyList)
+    ? source.currencyList.filter((item): item is string => typeof item === 'string' && item !== '')
+    : DEFAULT_CURRENCY_SETTINGS.currencyList;
+  const defaultCurrency = stringSetting(source.defaultCurrency) ?? DEFAULT_CURRENCY_SETTINGS.defaultCurrency;
+  const decimalPlaces = source.currencyDecimalPlaces;
+
+  return {
+    currencyList,
+    defaultCurrency,
+    baseCurrency: stringSetting(source.baseCurrency) ?? defaultCurrency,
+    rates: getRates(source.currencyRates),
+    decimalPlaces:
+      typeof decimalPlaces === 'number' && Number.isInteger(decimalPlaces) && decimalPlaces >= 0
+        ? decimalPlaces
+        : decimalPlaces === null
+          ? null
+          : DEFAULT_CURRENCY_SETTINGS.decimalPlaces,
+    thousandSeparator:
+      typeof source.thousandSeparator === 'string'
+        ? source.thousandSeparator
+        : DEFAULT_CURRENCY_SETTINGS.thousandSeparator,
+    decimalMark: stringSetting(source.decimalMark) ?? DEFAULT_CURRENCY_SETTINGS.decimalMark,
+  };
+}
+
+/**
+ * Currencies offered when entering an amount; the default currency when no
+ * list is configured
+ */
+export function getEnabledCurrencies(settings: CurrencySettings): string[] {
+  return settings.currencyList.length > 0 ? settings.currencyList : [settings.defaultCurrency];
+}
@@ -0,0 +1,29 @@
+/**
+ * Currency Types
+ */
+
+/**
+ * Currency configuration of the application, as set on the Currency admin page
+ */
+export interface CurrencySettings {
+  /** Currencies amounts may be entered in (ISO 4217 codes) */
+  currencyList: string[];
+  /** Currency of new amounts */
+  defaultCurrency: string;
+  /** Currency amounts are converted into for totals and comparison */
+  baseCurrency: string;
+  /** Value of one unit of each currency in the base currency */
+  rates: Record<string, number>;
+  /** Fraction digits shown; null for the currency's own */
+  decimalPlaces: number | null;
+  thousandSeparator: string;
+  decimalMark: string;
+}
+
+/**
+ * An amount of money; amounts in a form may not be filled in yet
+ */
+export interface Money {
+  amount: number | null;
+  currency: string;
+}
@@ -0,0 +1,12 @@
+import { useMemo } from 'react';
+import { useAuthStore } from '@/features/auth/store';
+import { getCurrencySettings } from './settings';
+import type { CurrencySettings } from './types';
+
+/**
+ * Currency settings of the application
+ */
+export function useCurrencySettings(): CurrencySettings {
+  const settings = useAuthStore((state) => state.settings);
+  return useMemo(() => getCurrencySettings(settings), [settings]);
+}
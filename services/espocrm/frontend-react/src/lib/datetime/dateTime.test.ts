@@ -0,0 +1,137 @@
+/**
+ * Date/Time Conversion Tests
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  formatDate,
+  formatDateTime,
+  fromDateInTimeZone,
+  fromDateTimeInputValue,
+  getTimeZoneOffset,
+  parseDate,
+  parseDateTime,
+  startOfWeekDate,
+  toDateFnsFormat,
+  toDateInTimeZone,
+  toDateTimeInputValue,
+  toStoredDateTime,
+} from './dateTime';
+import { createDateTimeService } from './service';
+import type { DateTimeSettings } from './types';
+
+const berlin: DateTimeSettings = {
+  timeZone: 'Europe/Berlin',
+  dateFormat: 'DD.MM.YYYY',
+  timeFormat: 'HH:mm',
+  weekStart: 1,
+};
+
+const newYork: DateTimeSettings = {
+  timeZone: 'America/New_York',
+  dateFormat: 'MM/DD/YYYY',
+  timeFormat: 'hh:mm a',
+  weekStart: 0,
+};
+
+describe('parsing', () => {
+  it('reads stored date-times as UTC', () => {
+    expect(parseDateTime('2024-06-15 22:30:00')?.toISOString()).toBe('2024-06-15T22:30:00.000Z');
+    expect(parseDateTime('2024-06-15 22:30')?.toISOString()).toBe('2024-06-15T22:30:00.000Z');
+    expect(parseDateTime('2024-06-15T22:30:00+02:00')?.toISOString()).toBe('2024-06-15T20:30:00.000Z');
+  });
+
+  it('rejects invalid values', () => {
+    expect(parseDateTime('not-a-date')).toBeNull();
+    expect(parseDateTime('')).toBeNull();
+    expect(parseDate('2024-02-30')).toBeNull();
+    expect(parseDate(42)).toBeNull();
+  });
+
+  it('keeps the written day of date-only values', () => {
+    expect(parseDate('2024-06-15')).toBe('2024-06-15');
+    expect(parseDate('2024-06-15T23:00:00Z')).toBe('2024-06-15');
+  });
+
+  it('writes the storage format', () => {
+    expect(toStoredDateTime(new Date('2024-01-05T03:04:05Z'))).toBe('2024-01-05 03:04:05');
+  });
+});
+
+describe('time zones', () => {
+  it('finds the day of a moment in a zone', () => {
+    const moment = new Date('2024-06-15T22:30:00Z');
+    expect(toDateInTimeZone(moment, 'Europe/Berlin')).toBe('2024-06-16');
+    expect(toDateInTimeZone(moment, 'America/New_York')).toBe('2024-06-15');
+  });
+
+  it('knows offsets on both sides of DST', () => {
+    expect(getTimeZoneOffset(new Date('2024-01-15T12:00:00Z'), 'Europe/Berlin')).toBe(60);
+    expect(getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), 'Europe/Berlin')).toBe(120);
+    expect(getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), 'America/New_York')).toBe(-240);
+  });
+
+  it('converts wall-clock times to UTC', () => {
+    expect(fromDateInTimeZone('2024-06-16', '00:30', 'Europe/Berlin')?.toISOString()).toBe('2024-06-15T22:30:00.000Z');
+    expect(fromDateInTimeZone('2024-12-01', undefined, 'America/New_York')?.toISOString()).toBe(
+      '2024-12-01T05:00:00.000Z'
+    );
+  });
+
+  it('resolves times skipped by DST to the moment after the change', () => {
+    expect(fromDateInTimeZone('2024-03-31', '02:30', 'Europe/Berlin')?.toISOString()).toBe('2024-03-31T01:30:00.000Z');
+  });
+
+  it('round-trips datetime-local input values', () => {
+    expect(toDateTimeInputValue('2024-06-15 22:30:00', 'Europe/Berlin')).toBe('2024-06-16T00:30');
+    expect(fromDateTimeInputValue('2024-06-16T00:30', 'Europe/Berlin')).toBe('2024-06-15 22:30:00');
+    expect(fromDateTimeInputValue('', 'Europe/Berlin')).toBeNull();
+  });
+});
+
+describe('formats', () => {
+  it('converts moment.js formats to date-fns patterns', () => {
+    expect(toDateFnsFormat('DD.MM.YYYY')).toBe('dd.MM.yyyy');
+    expect(toDateFnsFormat('hh:mm a')).toBe('hh:mm aaa');
+    expect(toDateFnsFormat('dddd, Do MMMM [at] HH:mm')).toBe("EEEE, do MMMM 'at' HH:mm");
+  });
+
+  it('shows dates in the user format', () => {
+    expect(formatDate('2024-06-05', berlin)).toBe('05.06.2024');
+    expect(formatDate('2024-06-05', newYork)).toBe('06/05/2024');
+    expect(formatDate('garbage', newYork)).toBe('');
+  });
+
+  it('shows date-times in the user zone and format', () => {
+    expect(formatDateTime('2024-06-15 22:30:00', berlin)).toBe('16.06.2024 00:30');
+    expect(formatDateTime('2024-06-15 22:30:00', newYork)).toBe('06/15/2024 06:30 pm');
+    expect(formatDateTime('2024-06-15 22:30:00', berlin, 'date')).toBe('16.06.2024');
+    expect(formatDateTime('2024-06-15 22:30:00', newYork, 'time')).toBe('06:30 pm');
+  });
+});
+
+describe('weeks', () => {
+  it('starts weeks on the configured day', () => {
+    // 2024-06-12 is a Wednesday
+    expect(startOfWeekDate('2024-06-12', 0)).toBe('2024-06-09');
+    expect(startOfWeekDate('2024-06-12', 1)).toBe('2024-06-10');
+    expect(startOfWeekDate('2024-06-09', 1)).toBe('2024-06-03');
+  });
+});
+
+describe('createDateTimeService', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('binds the helpers to the settings', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-06-15T23:30:00Z'));
+    const service = createDateTimeService(berlin);
+
+    expect(service.today()).toBe('2024-06-16');
+    expect(service.startOfWeek('2024-06-16')).toBe('2024-06-10');
+    expect(service.toUserDate('2024-06-15 22:30:00')).toBe('2024-06-16');
+    expect(service.fromUserDate('2024-06-16')).toBe('2024-06-15 22:00:00');
+    expect(service.formatTime('2024-06-15 22:30:00')).toBe('00:30');
+  });
+});
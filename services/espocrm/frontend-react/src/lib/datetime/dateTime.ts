@@ -0,0 +1,308 @@
+/**
+ * Date/time conversion
+ *
+ * EspoCRM stores dates as `YYYY-MM-DD` and date-times as
+ * `YYYY-MM-DD HH:mm:ss` in UTC. These helpers convert between that storage
+ * format and wall-clock values in a time zone, and format them with
+ * EspoCRM's moment.js-style formats.
+ */
+import { format } from 'date-fns';
+import type { DateTimeParts, DateTimeSettings } from './types';
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})/;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const STORED_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?$/;
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/;
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+/**
+ * Whether Intl knows a time zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: isValidTimeZone(timeZone) ? timeZone : undefined,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock parts of a moment in a time zone
+ */
+export function getZonedParts(date: Date, timeZone: string): DateTimeParts {
+  const parts = getPartsFormatter(timeZone).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    // Some engines still print midnight as 24 with h23
+    hour: part('hour') % 24,
+    minute: part('minute'),
+    second: part('second'),
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at a moment, in minutes
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const wall = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((wall - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * The moment a wall-clock time in a time zone happens. Times skipped by a
+ * DST change resolve to the moment after the change.
+ */
+export function zonedTimeToUtc(parts: DateTimeParts, timeZone: string): Date {
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const offset = getTimeZoneOffset(new Date(wall), timeZone);
+  const moment = wall - offset * 60000;
+  const corrected = getTimeZoneOffset(new Date(moment), timeZone);
+  return new Date(corrected === offset ? moment : wall - corrected * 60000);
+}
+
+/**
+ * Parse a date-only value into `YYYY-MM-DD`. Strings with a time keep their
+ * written day; Date objects use their local day.
+ */
+export function parseDate(value: unknown): string | null {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    return `${pad(value.getFullYear(), 4)}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+  if (typeof value !== 'string') return null;
+
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day] = match.map(Number) as [number, number, number, number];
+  const check = new Date(Date.UTC(year, month - 1, day));
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) return null;
+
+  return match[0];
+}
+
+/**
+ * Parse a date-time value. Stored values (`YYYY-MM-DD HH:mm:ss`) and dates
+ * without a time are UTC; ISO strings keep their own offset.
+ */
+export function parseDateTime(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value !== 'string' || !value) return null;
+
+  const stored = STORED_DATE_TIME_PATTERN.exec(value);
+  if (stored) {
+    const [, year, month, day, hour, minute, second] = stored.map((part) => Number(part ?? 0)) as number[];
+    const moment = new Date(Date.UTC(year!, month! - 1, day!, hour, minute, second));
+    return isNaN(moment.getTime()) ? null : moment;
+  }
+
+  if (DATE_ONLY_PATTERN.test(value)) {
+    const date = parseDate(value);
+    return date ? new Date(`${date}T00:00:00Z`) : null;
+  }
+
+  const moment = new Date(value);
+  return isNaN(moment.getTime()) ? null : moment;
+}
+
+/**
+ * A moment in EspoCRM's storage format, `YYYY-MM-DD HH:mm:ss` in UTC
+ */
+export function toStoredDateTime(date: Date): string {
+  return (
+    `${pad(date.getUTCFullYear(), 4)}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`
+  );
+}
+
+/**
+ * The day (`YYYY-MM-DD`) of a moment in a time zone
+ */
+export function toDateInTimeZone(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${pad(p.year, 4)}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+/**
+ * The moment of a wall-clock date (`YYYY-MM-DD`) and time (`HH:mm[:ss]`,
+ * midnight when omitted) in a time zone
+ */
+export function fromDateInTimeZone(date: string, time: string | undefined, timeZone: string): Date | null {
+  const day = parseDate(date);
+  const clock = TIME_PATTERN.exec(time ?? '00:00');
+  if (!day || !clock) return null;
+
+  const [year, month, dayOfMonth] = day.split('-').map(Number) as [number, number, number];
+  return zonedTimeToUtc(
+    {
+      year,
+      month,
+      day: dayOfMonth,
+      hour: Number(clock[1]),
+      minute: Number(clock[2]),
+      second: Number(clock[3] ?? 0),
+    },
+    timeZone
+  );
+}
+
+/**
+ * Add days to a date (`YYYY-MM-DD`)
+ */
+export function addDaysToDate(date: string, days: number): string {
+  const moment = new Date(`${date}T00:00:00Z`);
+  moment.setUTCDate(moment.getUTCDate() + days);
+  return moment.toISOString().slice(0, 10);
+}
+
+/**
+ * Day of the week of a date (`YYYY-MM-DD`), 0 being Sunday
+ */
+export function getDayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * The first day of the week containing a date
+ */
+export function startOfWeekDate(date: string, weekStart: number): string {
+  return addDaysToDate(date, -((getDayOfWeek(date) - weekStart + 7) % 7));
+}
+
+/**
+ * moment.js tokens used in EspoCRM formats and their date-fns equivalents;
+ * anything in [brackets] is literal text
+ */
+const FORMAT_TOKENS: Record<string, string> = {
+  YYYY: 'yyyy',
+  YY: 'yy',
+  MMMM: 'MMMM',
+  MMM: 'MMM',
+  MM: 'MM',
+  M: 'M',
+  Do: 'do',
+  DD: 'dd',
+  D: 'd',
+  dddd: 'EEEE',
+  ddd: 'EEE',
+  dd: 'EEEEEE',
+  HH: 'HH',
+  H: 'H',
+  hh: 'hh',
+  h: 'h',
+  mm: 'mm',
+  m: 'm',
+  ss: 'ss',
+  s: 's',
+  A: 'a',
+  a: 'aaa',
+};
+
+const FORMAT_TOKEN_PATTERN = /\[[^\]]*\]|YYYY|YY|MMMM|MMM|MM|M|Do|DD|D|dddd|ddd|dd|HH|H|hh|h|mm|m|ss|s|A|a|[\s\S]/g;
+
+const convertedFormats = new Map<string, string>();
+
+/**
+ * Convert an EspoCRM (moment.js) format to a date-fns pattern
+ */
+export function toDateFnsFormat(momentFormat: string): string {
+  let converted = convertedFormats.get(momentFormat);
+  if (converted === undefined) {
+    converted = (momentFormat.match(FORMAT_TOKEN_PATTERN) ?? [])
+      .map((token) => {
+        if (FORMAT_TOKENS[token]) return FORMAT_TOKENS[token];
+        if (token.startsWith('[')) return `'${token.slice(1, -1).replaceAll("'", "''")}'`;
+        if (token === "'") return "''";
+        return /[a-zA-Z]/.test(token) ? `'${token}'` : token;
+      })
+      .join('');
+    convertedFormats.set(momentFormat, converted);
+  }
+  return converted;
+}
+
+function formatParts(parts: DateTimeParts, momentFormat: string): string {
+  const wall = new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return format(wall, toDateFnsFormat(momentFormat));
+}
+
+/**
+ * Show a date-only value in the user's date format
+ */
+export function formatDate(value: unknown, settings: DateTimeSettings): string {
+  const date = parseDate(value);
+  if (!date) return '';
+  const [year, month, day] = date.split('-').map(Number) as [number, number, number];
+  return formatParts({ year, month, day, hour: 0, minute: 0, second: 0 }, settings.dateFormat);
+}
+
+/**
+ * Show a date-time value in the user's zone, in a date, time or combined format
+ */
+export function formatDateTime(
+  value: unknown,
+  settings: DateTimeSettings,
+  part: 'dateTime' | 'date' | 'time' = 'dateTime'
+): string {
+  const moment = parseDateTime(value);
+  if (!moment) return '';
+
+  const momentFormat =
+    part === 'date'
+      ? settings.dateFormat
+      : part === 'time'
+        ? settings.timeFormat
+        : `${settings.dateFormat} ${settings.timeFormat}`;
+  return formatParts(getZonedParts(moment, settings.timeZone), momentFormat);
+}
+
+/**
+ * Value of a `datetime-local` input (`YYYY-MM-DDTHH:mm`) for a date-time
+ * in a time zone
+ */
+export function toDateTimeInputValue(value: unknown, timeZone: string): string {
+  const moment = parseDateTime(value);
+  if (!moment) return '';
+  const p = getZonedParts(moment, timeZone);
+  return `${pad(p.year, 4)}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+/**
+ * Stored date-time for the value of a `datetime-local` input in a time zone
+ */
+export function fromDateTimeInputValue(value: string, timeZone: string): string | null {
+  const [date, time] = value.split('T');
+  if (!date || !time) return null;
+  const moment = fromDateInTimeZone(date, time, timeZone);
+  return moment ? toStoredDateTime(moment) : null;
+}
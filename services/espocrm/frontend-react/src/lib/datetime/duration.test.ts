@@ -0,0 +1,102 @@
+/**
+ * Duration Tests
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_DURATION_PRESETS,
+  formatDuration,
+  getDurationBetween,
+  getDurationPresets,
+  getDurationSyncChanges,
+} from './duration';
+
+const fieldDefs = {
+  dateStart: { type: 'datetime' },
+  dateEnd: { type: 'datetime' },
+  duration: { type: 'duration' },
+};
+
+const meeting = {
+  dateStart: '2024-06-15 08:00:00',
+  dateEnd: '2024-06-15 09:00:00',
+  duration: 3600,
+};
+
+describe('formatDuration', () => {
+  it('shows days, hours and minutes', () => {
+    expect(formatDuration(0)).toBe('0m');
+    expect(formatDuration(900)).toBe('15m');
+    expect(formatDuration(5400)).toBe('1h 30m');
+    expect(formatDuration(7200)).toBe('2h');
+    expect(formatDuration(86400 + 4 * 3600)).toBe('1d 4h');
+  });
+});
+
+describe('getDurationPresets', () => {
+  it('reads the options of the field as seconds', () => {
+    expect(getDurationPresets({ options: [600, '1200', 'x', -5] })).toEqual([600, 1200]);
+  });
+
+  it('falls back to the defaults', () => {
+    expect(getDurationPresets({})).toBe(DEFAULT_DURATION_PRESETS);
+    expect(getDurationPresets({ options: [] })).toBe(DEFAULT_DURATION_PRESETS);
+  });
+});
+
+describe('getDurationBetween', () => {
+  it('counts the seconds from start to end', () => {
+    expect(getDurationBetween('2024-06-15 08:00:00', '2024-06-15 09:30:00')).toBe(5400);
+  });
+
+  it('is null for a missing value or an end before the start', () => {
+    expect(getDurationBetween(null, '2024-06-15 09:30:00')).toBeNull();
+    expect(getDurationBetween('2024-06-15 09:30:00', '2024-06-15 08:00:00')).toBeNull();
+  });
+});
+
+describe('getDurationSyncChanges', () => {
+  it('moves the end when the duration changes', () => {
+    expect(getDurationSyncChanges(fieldDefs, 'duration', { ...meeting, duration: 1800 })).toEqual({
+      dateEnd: '2024-06-15 08:30:00',
+    });
+  });
+
+  it('moves the end when the start changes, keeping the duration', () => {
+    expect(getDurationSyncChanges(fieldDefs, 'dateStart', { ...meeting, dateStart: '2024-06-16 23:30:00' })).toEqual({
+      dateEnd: '2024-06-17 00:30:00',
+    });
+  });
+
+  it('updates the duration when the end changes', () => {
+    expect(getDurationSyncChanges(fieldDefs, 'dateEnd', { ...meeting, dateEnd: '2024-06-15 10:15:00' })).toEqual({
+      duration: 8100,
+    });
+  });
+
+  it('leaves the duration alone when the end comes before the start', () => {
+    expect(getDurationSyncChanges(fieldDefs, 'dateEnd', { ...meeting, dateEnd: '2024-06-15 07:00:00' })).toEqual({});
+  });
+
+  it('derives a missing duration from a new start', () => {
+    expect(
+      getDurationSyncChanges(fieldDefs, 'dateStart', { dateStart: '2024-06-15 08:30:00', dateEnd: '2024-06-15 09:00:00' })
+    ).toEqual({ duration: 1800 });
+  });
+
+  it('uses the start and end named by the field', () => {
+    const defs = {
+      from: { type: 'datetime' },
+      to: { type: 'datetime' },
+      length: { type: 'duration', start: 'from', end: 'to' },
+    };
+    expect(getDurationSyncChanges(defs, 'length', { from: '2024-06-15 08:00:00', length: 900 })).toEqual({
+      to: '2024-06-15 08:15:00',
+    });
+  });
+
+  it('ignores entities without the start and end fields', () => {
+    expect(getDurationSyncChanges({ duration: { type: 'duration' } }, 'duration', { ...meeting, duration: 1800 })).toEqual(
+      {}
+    );
+  });
+});
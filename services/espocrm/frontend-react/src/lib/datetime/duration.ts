@@ -0,0 +1,114 @@
+/**
+ * Durations
+ *
+ * A duration field stores seconds and is tied to a start and an end
+ * date-time (`dateStart` and `dateEnd` unless the field definition names
+ * others), the way meetings and calls are in EspoCRM. Changing any of the
+ * three keeps the other two consistent.
+ */
+import { parseDateTime, toStoredDateTime } from './dateTime';
+
+/**
+ * Presets offered when the field definition has no `options`, in seconds
+ */
+export const DEFAULT_DURATION_PRESETS = [900, 1800, 3600, 5400, 7200, 86400];
+
+/**
+ * The parts of a field definition durations read
+ */
+export interface DurationFieldDef {
+  type?: string;
+  options?: unknown;
+  start?: string;
+  end?: string;
+}
+
+/**
+ * Show seconds as days, hours and minutes, e.g. `1h 30m` or `2d 4h`
+ */
+export function formatDuration(seconds: number): string {
+  const totalMinutes = Math.max(0, Math.floor(seconds / 60));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  const parts: string[] = [];
+  if (days > 0) parts.push(`${days}d`);
+  if (hours > 0) parts.push(`${hours}h`);
+  if (minutes > 0 || parts.length === 0) parts.push(`${minutes}m`);
+  return parts.join(' ');
+}
+
+/**
+ * Preset durations of a field: its `options` as seconds, or the defaults
+ */
+export function getDurationPresets(fieldDef: DurationFieldDef): number[] {
+  const options = Array.isArray(fieldDef.options) ? fieldDef.options : [];
+  const presets = options
+    .map((option) => (typeof option === 'string' && option.trim() !== '' ? Number(option) : option))
+    .filter((option): option is number => typeof option === 'number' && Number.isInteger(option) && option > 0);
+  return presets.length > 0 ? presets : DEFAULT_DURATION_PRESETS;
+}
+
+/**
+ * Names of the start and end attributes a duration field is tied to
+ */
+export function getDurationBounds(fieldDef: DurationFieldDef): { start: string; end: string } {
+  return { start: fieldDef.start ?? 'dateStart', end: fieldDef.end ?? 'dateEnd' };
+}
+
+/**
+ * Seconds between a start and an end date-time; null when either is missing
+ * or the end comes before the start
+ */
+export function getDurationBetween(start: unknown, end: unknown): number | null {
+  const startMoment = parseDateTime(start);
+  const endMoment = parseDateTime(end);
+  if (!startMoment || !endMoment) return null;
+
+  const seconds = Math.round((endMoment.getTime() - startMoment.getTime()) / 1000);
+  return seconds >= 0 ? seconds : null;
+}
+
+/**
+ * Stored end date-time of a duration from a start; null without a valid start
+ */
+export function getDurationEnd(start: unknown, seconds: number): string | null {
+  const startMoment = parseDateTime(start);
+  return startMoment ? toStoredDateTime(new Date(startMoment.getTime() + seconds * 1000)) : null;
+}
+
+/**
+ * Attributes to update after `field` changed so that duration fields and
+ * their start and end stay consistent:
+ * - a new start moves the end, keeping the duration
+ * - a new end changes the duration
+ * - a new duration moves the end
+ */
+export function getDurationSyncChanges(
+  fieldDefs: Record<string, DurationFieldDef>,
+  field: string,
+  attributes: Record<string, unknown>
+): Record<string, unknown> {
+  const changes: Record<string, unknown> = {};
+
+  for (const [name, fieldDef] of Object.entries(fieldDefs)) {
+    if (fieldDef.type !== 'duration') continue;
+
+    const { start, end } = getDurationBounds(fieldDef);
+    if (!fieldDefs[start] || !fieldDefs[end]) continue;
+
+    const duration = attributes[name];
+
+    if (field === name || (field === start && typeof duration === 'number')) {
+      if (typeof duration !== 'number') continue;
+      const newEnd = getDurationEnd(attributes[start], duration);
+      if (newEnd && newEnd !== attributes[end]) changes[end] = newEnd;
+    } else if (field === start || field === end) {
+      const seconds = getDurationBetween(attributes[start], attributes[end]);
+      if (seconds !== null && seconds !== duration) changes[name] = seconds;
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,41 @@
+/**
+ * Date/Time Module
+ *
+ * Conversion between EspoCRM's UTC storage format and the user's time zone,
+ * date/time formats and week start, used by the date fields, calendar,
+ * search filters and dynamic logic; durations tied to a start and an end.
+ */
+
+export type { DateTimeSettings, DateTimeParts, DateTimeService } from './types';
+export {
+  isValidTimeZone,
+  getZonedParts,
+  getTimeZoneOffset,
+  zonedTimeToUtc,
+  parseDate,
+  parseDateTime,
+  toStoredDateTime,
+  toDateInTimeZone,
+  fromDateInTimeZone,
+  addDaysToDate,
+  getDayOfWeek,
+  startOfWeekDate,
+  toDateFnsFormat,
+  formatDate,
+  formatDateTime,
+  toDateTimeInputValue,
+  fromDateTimeInputValue,
+} from './dateTime';
+export type { DurationFieldDef } from './duration';
+export {
+  DEFAULT_DURATION_PRESETS,
+  formatDuration,
+  getDurationPresets,
+  getDurationBounds,
+  getDurationBetween,
+  getDurationEnd,
+  getDurationSyncChanges,
+} from './duration';
+export { DEFAULT_DATE_FORMAT, DEFAULT_TIME_FORMAT, getBrowserTimeZone, getDateTimeSettings } from './settings';
+export { createDateTimeService } from './service';
+export { useDateTime } from './useDateTime';
@@ -0,0 +1,39 @@
+import {
+  formatDate,
+  formatDateTime,
+  fromDateInTimeZone,
+  fromDateTimeInputValue,
+  parseDateTime,
+  startOfWeekDate,
+  toDateInTimeZone,
+  toDateTimeInputValue,
+  toStoredDateTime,
+} from './dateTime';
+import type { DateTimeService, DateTimeSettings } from './types';
+
+/**
+ * Date/time helpers bound to a user's settings
+ */
+export function createDateTimeService(settings: DateTimeSettings): DateTimeService {
+  const { timeZone } = settings;
+
+  return {
+    settings,
+    formatDate: (value) => formatDate(value, settings),
+    formatDateTime: (value) => formatDateTime(value, settings),
+    formatDateTimeDay: (value) => formatDateTime(value, settings, 'date'),
+    formatTime: (value) => formatDateTime(value, settings, 'time'),
+    toInputValue: (value) => toDateTimeInputValue(value, timeZone),
+    fromInputValue: (value) => fromDateTimeInputValue(value, timeZone),
+    toUserDate: (value) => {
+      const moment = parseDateTime(value);
+      return moment ? toDateInTimeZone(moment, timeZone) : null;
+    },
+    fromUserDate: (date, time) => {
+      const moment = fromDateInTimeZone(date, time, timeZone);
+      return moment ? toStoredDateTime(moment) : null;
+    },
+    today: () => toDateInTimeZone(new Date(), timeZone),
+    startOfWeek: (date) => startOfWeekDate(date, settings.weekStart),
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Date/Time Settings Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_DATE_FORMAT, DEFAULT_TIME_FORMAT, getBrowserTimeZone, getDateTimeSettings } from './settings';
+
+describe('getDateTimeSettings', () => {
+  it('uses defaults for missing settings', () => {
+    expect(getDateTimeSettings(null)).toEqual({
+      timeZone: getBrowserTimeZone(),
+      dateFormat: DEFAULT_DATE_FORMAT,
+      timeFormat: DEFAULT_TIME_FORMAT,
+      weekStart: 0,
+    });
+  });
+
+  it('reads settings, with user preferences first', () => {
+    expect(
+      getDateTimeSettings(
+        { timeZone: 'America/New_York', dateFormat: 'MM/DD/YYYY', timeFormat: 'hh:mm a', weekStart: 0 },
+        { timeZone: 'Europe/Berlin', dateFormat: 'DD.MM.YYYY', timeFormat: '', weekStart: 1 }
+      )
+    ).toEqual({ timeZone: 'Europe/Berlin', dateFormat: 'DD.MM.YYYY', timeFormat: 'hh:mm a', weekStart: 1 });
+  });
+
+  it('falls back for unknown zones and unset week starts', () => {
+    expect(
+      getDateTimeSettings({ timeZone: 'America/New_York', weekStart: 1 }, { timeZone: 'Mars/Olympus', weekStart: -1 })
+    ).toMatchObject({ timeZone: 'America/New_York', weekStart: 1 });
+  });
+});
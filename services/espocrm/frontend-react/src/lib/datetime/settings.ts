@@ -0,0 +1,56 @@
+/**
+ * Date/time settings
+ *
+ * - `timeZone`: zone date-times are shown and entered in; the browser's zone
+ *   when not set or unknown
+ * - `dateFormat`, `timeFormat`: EspoCRM (moment.js) formats, e.g. `DD.MM.YYYY`
+ *   and `HH:mm`
+ * - `weekStart`: first day of the week, 0 (Sunday) to 6
+ *
+ * User preferences take precedence over the application settings; an empty
+ * preference (or a week start of -1) means "use the system default".
+ */
+import { isValidTimeZone } from './dateTime';
+import type { DateTimeSettings } from './types';
+
+export const DEFAULT_DATE_FORMAT = 'MMM D, YYYY';
+export const DEFAULT_TIME_FORMAT = 'h:mm A';
+
+function stringSetting(...values: unknown[]): string | undefined {
+  return values.find((value): value is string => typeof value === 'string' && value !== '');
+}
+
+function weekStartSetting(...values: unknown[]): number | undefined {
+  return values.find(
+    (value): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 6
+  );
+}
+
+/**
+ * Zone of the browser, used when no zone is configured
+ */
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Date/time settings from the application settings and user preferences
+ */
+export function getDateTimeSettings(
+  settings: Record<string, unknown> | null | undefined,
+  preferences?: Record<string, unknown> | null
+): DateTimeSettings {
+  const source = settings ?? {};
+  const user = preferences ?? {};
+
+  const timeZone = [user.timeZone, source.timeZone].find(
+    (value): value is string => typeof value === 'string' && value !== '' && isValidTimeZone(value)
+  );
+
+  return {
+    timeZone: timeZone ?? getBrowserTimeZone(),
+    dateFormat: stringSetting(user.dateFormat, source.dateFormat) ?? DEFAULT_DATE_FORMAT,
+    timeFormat: stringSetting(user.timeFormat, source.timeFormat) ?? DEFAULT_TIME_FORMAT,
+    weekStart: weekStartSetting(user.weekStart, source.weekStart) ?? 0,
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Date/Time Types
+ */
+
+/**
+ * How dates and times are shown to and entered by the current user
+ */
+export interface DateTimeSettings {
+  /** IANA time zone, e.g. `Europe/Berlin` */
+  timeZone: string;
+  /** Date format in EspoCRM (moment.js) notation, e.g. `DD.MM.YYYY` */
+  dateFormat: string;
+  /** Time format in EspoCRM notation, e.g. `HH:mm` or `hh:mm a` */
+  timeFormat: string;
+  /** First day of the week: 0 is Sunday, 1 is Monday */
+  weekStart: number;
+}
+
+/**
+ * Wall-clock parts of a moment in some time zone; months start at 1
+ */
+export interface DateTimeParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Date/time helpers bound to the settings of the current user
+ */
+export interface DateTimeService {
+  settings: DateTimeSettings;
+  /** Show a date-only value (`YYYY-MM-DD`) in the user's date format */
+  formatDate(value: unknown): string;
+  /** Show a stored date-time in the user's zone and formats */
+  formatDateTime(value: unknown): string;
+  /** The day of a stored date-time in the user's zone, in the user's date format */
+  formatDateTimeDay(value: unknown): string;
+  /** The time of a stored date-time in the user's zone and time format */
+  formatTime(value: unknown): string;
+  /** Value of a `datetime-local` input for a stored date-time */
+  toInputValue(value: unknown): string;
+  /** Stored date-time for the value of a `datetime-local` input */
+  fromInputValue(value: string): string | null;
+  /** The day (`YYYY-MM-DD`) of a stored date-time in the user's zone */
+  toUserDate(value: unknown): string | null;
+  /** Stored date-time of a wall-clock date and time in the user's zone */
+  fromUserDate(date: string, time?: string): string | null;
+  /** Today in the user's zone, as `YYYY-MM-DD` */
+  today(): string;
+  /** The first day of the week containing a date, per the user's week start */
+  startOfWeek(date: string): string;
+}
@@ -0,0 +1,17 @@
+import { useMemo } from 'react';
+import { useAuthStore } from '@/features/auth/store';
+import { createDateTimeService } from './service';
+import { getDateTimeSettings } from './settings';
+import type { DateTimeService } from './types';
+
+/**
+ * Date/time service for the current user's time zone, formats and week start
+ */
+export function useDateTime(): DateTimeService {
+  const appSettings = useAuthStore((state) => state.settings);
+  const preferences = useAuthStore((state) => state.preferences);
+  return useMemo(
+    () => createDateTimeService(getDateTimeSettings(appSettings, preferences)),
+    [appSettings, preferences]
+  );
+}
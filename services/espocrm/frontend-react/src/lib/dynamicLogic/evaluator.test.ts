@@ -6,6 +6,9 @@ import {
   evaluateConditionGroup,
   evaluateFieldDynamicLogic,
   evaluateEntityDynamicLogic,
+  toConditionGroup,
+  traceConditionGroup,
+  traceEntityDynamicLogic,
 } from './evaluator';
 import type { ConditionGroup, DynamicLogicDef, EntityDynamicLogic } from './types';
 
@@ -310,6 +313,136 @@ describe('evaluateConditionGroup', () => {
     });
   });
 
+  describe('builder operators', () => {
+    it('should handle has/notHas for multi-value fields', () => {
+      const has: ConditionGroup = {
+        type: 'and',
+        value: [{ type: 'has', attribute: 'tags', value: 'vip' }],
+      };
+      const notHas: ConditionGroup = {
+        type: 'and',
+        value: [{ type: 'notHas', attribute: 'tags', value: 'vip' }],
+      };
+      expect(evaluateConditionGroup(has, { tags: ['vip', 'partner'] })).toBe(true);
+      expect(evaluateConditionGroup(has, { tags: [] })).toBe(false);
+      expect(evaluateConditionGroup(notHas, { tags: ['partner'] })).toBe(true);
+      expect(evaluateConditionGroup(notHas, { tags: null })).toBe(true);
+    });
+
+    it('should read link-multiple id arrays for contains', () => {
+      const group: ConditionGroup = {
+        type: 'and',
+        value: [{ type: 'contains', attribute: 'teams', value: 'team-1' }],
+      };
+      expect(evaluateConditionGroup(group, { teamsIds: ['team-1', 'team-2'] })).toBe(true);
+      expect(evaluateConditionGroup(group, { teamsIds: ['team-2'] })).toBe(false);
+    });
+
+    it('should handle matches with delimited and bare patterns', () => {
+      const delimited: ConditionGroup = {
+        type: 'and',
+        value: [{ type: 'matches', attribute: 'code', value: '/^ab-\\d+$/i' }],
+      };
+      const bare: ConditionGroup = {
+        type: 'and',
+        value: [{ type: 'matches', attribute: 'code', value: '^AB' }],
+      };
+      expect(evaluateConditionGroup(delimited, { code: 'AB-42' })).toBe(true);
+      expect(evaluateConditionGroup(delimited, { code: 'AB-x' })).toBe(false);
+      expect(evaluateConditionGroup(bare, { code: 'ab-1' })).toBe(false);
+      expect(evaluateConditionGroup(bare, { code: null })).toBe(false);
+    });
+
+    it('should return false for invalid patterns', () => {
+      const group: ConditionGroup = {
+        type: 'and',
+        value: [{ type: 'matches', attribute: 'code', value: '/[/' }],
+      };
+      expect(evaluateConditionGroup(group, { code: '[' })).toBe(false);
+    });
+
+    it('should handle isLinked/isNotLinked for link fields', () => {
+      const linked: ConditionGroup = {
+        type: 'and',
+        value: [{ type: 'isLinked', attribute: 'account' }],
+      };
+      const notLinked: ConditionGroup = {
+        type: 'and',
+        value: [{ type: 'isNotLinked', attribute: 'contacts' }],
+      };
+      expect(evaluateConditionGroup(linked, { accountId: 'acc-1' })).toBe(true);
+      expect(evaluateConditionGroup(linked, { accountId: null })).toBe(false);
+      expect(evaluateConditionGroup(notLinked, { contactsIds: [] })).toBe(true);
+      expect(evaluateConditionGroup(notLinked, { contactsIds: ['c-1'] })).toBe(false);
+    });
+
+    it('should compare date strings', () => {
+      const group: ConditionGroup = {
+        type: 'and',
+        value: [{ type: 'greaterThan', attribute: 'closeDate', value: '2024-06-01' }],
+      };
+      expect(evaluateConditionGroup(group, { closeDate: '2024-06-15' })).toBe(true);
+      expect(evaluateConditionGroup(group, { closeDate: '2024-05-31' })).toBe(false);
+    });
+
+    it('should read current user attributes', () => {
+      const group: ConditionGroup = {
+        type: 'and',
+        value: [{ type: 'equals', attribute: '$user.type', value: 'admin' }],
+      };
+      expect(evaluateConditionGroup(group, {}, { user: { type: 'admin' } })).toBe(true);
+      expect(evaluateConditionGroup(group, {}, { user: { type: 'regular' } })).toBe(false);
+    });
+  });
+
+  describe('time zone aware date conditions', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      // 23:30 UTC on June 15 is already June 16 in Tokyo
+      vi.setSystemTime(new Date('2024-06-15T23:30:00Z'));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should evaluate today against the user time zone', () => {
+      const group: ConditionGroup = {
+        type: 'and',
+        value: [{ type: 'today', attribute: 'date' }],
+      };
+      expect(evaluateConditionGroup(group, { date: '2024-06-16' }, { timeZone: 'Asia/Tokyo' })).toBe(true);
+      expect(evaluateConditionGroup(group, { date: '2024-06-15' }, { timeZone: 'Asia/Tokyo' })).toBe(false);
+      expect(evaluateConditionGroup(group, { date: '2024-06-15' }, { timeZone: 'UTC' })).toBe(true);
+    });
+
+    it('should treat stored date-times as UTC', () => {
+      const group: ConditionGroup = {
+        type: 'and',
+        value: [{ type: 'today', attribute: 'dateStart' }],
+      };
+      // 16:00 UTC on June 15 is 01:00 June 16 in Tokyo, 14:00 UTC is still June 15 there
+      expect(evaluateConditionGroup(group, { dateStart: '2024-06-15 16:00:00' }, { timeZone: 'Asia/Tokyo' })).toBe(true);
+      expect(evaluateConditionGroup(group, { dateStart: '2024-06-15 14:00:00' }, { timeZone: 'Asia/Tokyo' })).toBe(false);
+      expect(evaluateConditionGroup(group, { dateStart: '2024-06-15 14:00:00' }, { timeZone: 'UTC' })).toBe(true);
+    });
+
+    it('should compare date-only values by day and date-times by instant', () => {
+      const past: ConditionGroup = { type: 'and', value: [{ type: 'past', attribute: 'date' }] };
+      const future: ConditionGroup = { type: 'and', value: [{ type: 'future', attribute: 'date' }] };
+
+      expect(evaluateConditionGroup(past, { date: '2024-06-15' }, { timeZone: 'Asia/Tokyo' })).toBe(true);
+      expect(evaluateConditionGroup(past, { date: '2024-06-15' }, { timeZone: 'UTC' })).toBe(false);
+      expect(evaluateConditionGroup(future, { date: '2024-06-15 23:45:00' }, { timeZone: 'UTC' })).toBe(true);
+      expect(evaluateConditionGroup(past, { date: '2024-06-15 23:15:00' }, { timeZone: 'UTC' })).toBe(true);
+    });
+
+    it('should fall back to the browser time zone for unknown zones', () => {
+      const group: ConditionGroup = { type: 'and', value: [{ type: 'inPast', attribute: 'date' }] };
+      expect(evaluateConditionGroup(group, { date: '2024-01-01' }, { timeZone: 'Not/AZone' })).toBe(true);
+    });
+  });
+
   describe('nested attributes', () => {
     it('should handle dot notation for nested values', () => {
       const group: ConditionGroup = {
@@ -442,6 +575,19 @@ describe('evaluateFieldDynamicLogic', () => {
     expect(evaluateFieldDynamicLogic(logic, { type: 'basic' }).visible).toBe(false);
   });
 
+  it('should evaluate the stored conditionGroup format', () => {
+    // Meeting clientDefs: dynamicLogic.fields.duration
+    const logic: DynamicLogicDef = {
+      readOnly: { conditionGroup: [{ type: 'isTrue', attribute: 'isAllDay' }] },
+      required: { conditionGroup: [] },
+    };
+    expect(evaluateFieldDynamicLogic(logic, { isAllDay: true })).toMatchObject({
+      readOnly: true,
+      required: false,
+    });
+    expect(evaluateFieldDynamicLogic(logic, { isAllDay: false }).readOnly).toBe(false);
+  });
+
   it('should evaluate required', () => {
     const logic: DynamicLogicDef = {
       required: {
@@ -495,26 +641,37 @@ describe('evaluateFieldDynamicLogic', () => {
     expect(result.invalid).toBe(true);
   });
 
-  it('should filter options', () => {
+  it('should apply the first matching option list', () => {
     const logic: DynamicLogicDef = {
-      options: {
-        premium: {
-          type: 'and',
-          value: [{ type: 'equals', attribute: 'tier', value: 'gold' }],
+      options: [
+        {
+          optionList: ['premium', 'basic'],
+          conditionGroup: [{ type: 'equals', attribute: 'tier', value: 'gold' }],
         },
-        basic: {
-          type: 'and',
-          value: [{ type: 'isTrue', attribute: 'alwaysShow' }],
+        {
+          optionList: ['basic', 'free'],
+          conditionGroup: [{ type: 'isTrue', attribute: 'alwaysShow' }],
         },
-      },
+      ],
     };
     const allOptions = ['premium', 'basic', 'free'];
 
     const goldTier = evaluateFieldDynamicLogic(logic, { tier: 'gold', alwaysShow: true }, allOptions);
-    expect(goldTier.filteredOptions).toEqual(['premium', 'basic', 'free']);
+    expect(goldTier.filteredOptions).toEqual(['premium', 'basic']);
+
+    const silverTier = evaluateFieldDynamicLogic(logic, { tier: 'silver', alwaysShow: true }, allOptions);
+    expect(silverTier.filteredOptions).toEqual(['basic', 'free']);
 
-    const silverTier = evaluateFieldDynamicLogic(logic, { tier: 'silver', alwaysShow: false }, allOptions);
-    expect(silverTier.filteredOptions).toEqual(['free']); // Only 'free' has no condition
+    const noMatch = evaluateFieldDynamicLogic(logic, { tier: 'silver', alwaysShow: false }, allOptions);
+    expect(noMatch.filteredOptions).toBeUndefined();
+  });
+
+  it('should apply an option list without conditions and drop unknown options', () => {
+    const logic: DynamicLogicDef = {
+      options: [{ optionList: ['basic', 'legacy'] }],
+    };
+    const result = evaluateFieldDynamicLogic(logic, {}, ['premium', 'basic', 'free']);
+    expect(result.filteredOptions).toEqual(['basic']);
   });
 });
 
@@ -570,17 +727,59 @@ describe('evaluateEntityDynamicLogic', () => {
     expect(result2.panels.advancedPanel?.visible).toBe(false);
   });
 
-  it('should pass field options for filtering', () => {
+  it('should evaluate panel styling', () => {
     const logic: EntityDynamicLogic = {
-      fields: {
-        status: {
-          options: {
-            archived: {
-              type: 'and',
-              value: [{ type: 'isTrue', attribute: 'canArchive' }],
-            },
+      panels: {
+        riskPanel: {
+          styled: {
+            type: 'and',
+            value: [{ type: 'lessThan', attribute: 'probability', value: 20 }],
           },
         },
+        plainPanel: {},
+      },
+    };
+
+    const result = evaluateEntityDynamicLogic(logic, { probability: 10 });
+    expect(result.panels.riskPanel).toEqual({ visible: true, styled: true });
+    expect(result.panels.plainPanel).toEqual({ visible: true });
+
+    const result2 = evaluateEntityDynamicLogic(logic, { probability: 50 });
+    expect(result2.panels.riskPanel?.styled).toBe(false);
+  });
+
+  it('should evaluate panels stored in the conditionGroup format', () => {
+    const logic: EntityDynamicLogic = {
+      panels: {
+        billing: {
+          visible: { conditionGroup: [{ type: 'equals', attribute: 'type', value: 'Customer' }] },
+          styled: { conditionGroup: [{ type: 'isEmpty', attribute: 'billingAddressCity' }] },
+        },
+        notes: { visible: { conditionGroup: [] } },
+      },
+    };
+
+    const result = evaluateEntityDynamicLogic(logic, { type: 'Customer' });
+    expect(result.panels.billing).toEqual({ visible: true, styled: true });
+    expect(result.panels.notes).toEqual({ visible: true });
+
+    const result2 = evaluateEntityDynamicLogic(logic, { type: 'Partner', billingAddressCity: 'Oslo' });
+    expect(result2.panels.billing).toEqual({ visible: false, styled: false });
+  });
+
+  it('should evaluate option lists stored at the entity level', () => {
+    // clientDefs format: dynamicLogic.options.<field>
+    const logic: EntityDynamicLogic = {
+      fields: {
+        status: { readOnly: { conditionGroup: [{ type: 'isTrue', attribute: 'isLocked' }] } },
+      },
+      options: {
+        status: [
+          {
+            optionList: ['active', 'pending'],
+            conditionGroup: [{ type: 'isFalse', attribute: 'canArchive' }],
+          },
+        ],
       },
     };
 
@@ -589,9 +788,121 @@ describe('evaluateEntityDynamicLogic', () => {
     };
 
     const result = evaluateEntityDynamicLogic(logic, { canArchive: true }, fieldOptions);
-    expect(result.fields.status?.filteredOptions).toEqual(['active', 'pending', 'archived']);
+    expect(result.fields.status?.filteredOptions).toBeUndefined();
+
+    const result2 = evaluateEntityDynamicLogic(logic, { canArchive: false, isLocked: true }, fieldOptions);
+    expect(result2.fields.status).toMatchObject({
+      readOnly: true,
+      filteredOptions: ['active', 'pending'],
+    });
+  });
+});
+
+describe('toConditionGroup', () => {
+  it('should convert the builder format to an "and" group', () => {
+    const condition = { type: 'isTrue', attribute: 'isActive' };
+    expect(toConditionGroup({ conditionGroup: [condition] })).toEqual({
+      type: 'and',
+      value: [condition],
+    });
+  });
+
+  it('should pass condition groups through', () => {
+    const group: ConditionGroup = { type: 'or', value: [{ type: 'isEmpty', attribute: 'name' }] };
+    expect(toConditionGroup(group)).toBe(group);
+  });
+
+  it('should ignore empty or malformed definitions', () => {
+    expect(toConditionGroup(undefined)).toBeUndefined();
+    expect(toConditionGroup({ conditionGroup: [] })).toBeUndefined();
+    expect(toConditionGroup({ foo: 'bar' })).toBeUndefined();
+  });
+});
+
+describe('traceConditionGroup', () => {
+  it('should record actual values and results for every condition', () => {
+    const group: ConditionGroup = {
+      type: 'or',
+      value: [
+        { type: 'equals', attribute: 'status', value: 'Active' },
+        { type: 'not', value: [{ type: 'isEmpty', attribute: 'name' }] },
+      ],
+    };
+
+    expect(traceConditionGroup(group, { status: 'Inactive', name: 'Acme' })).toEqual({
+      type: 'or',
+      result: true,
+      children: [
+        { type: 'equals', attribute: 'status', expected: 'Active', actual: 'Inactive', result: false },
+        {
+          type: 'not',
+          result: true,
+          children: [
+            { type: 'isEmpty', attribute: 'name', expected: undefined, actual: 'Acme', result: false },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should agree with evaluateConditionGroup', () => {
+    const group: ConditionGroup = {
+      type: 'and',
+      value: [
+        { type: 'greaterThan', attribute: 'amount', value: 100 },
+        { type: 'in', attribute: 'stage', value: ['Proposal', 'Negotiation'] },
+      ],
+    };
+
+    for (const data of [{ amount: 200, stage: 'Proposal' }, { amount: 50, stage: 'Proposal' }]) {
+      expect(traceConditionGroup(group, data).result).toBe(evaluateConditionGroup(group, data));
+    }
+  });
+});
+
+describe('traceEntityDynamicLogic', () => {
+  it('should trace field rules, options and panels', () => {
+    const condition: ConditionGroup = {
+      type: 'and',
+      value: [{ type: 'isTrue', attribute: 'isPartner' }],
+    };
+    const logic: EntityDynamicLogic = {
+      fields: {
+        partnerLevel: { visible: condition },
+      },
+      options: {
+        partnerLevel: [{ optionList: ['Gold'], conditionGroup: condition.value }],
+      },
+      panels: {
+        partner: { styled: condition },
+      },
+    };
+
+    const trace = traceEntityDynamicLogic(logic, { isPartner: false });
+    expect(trace.fields.partnerLevel?.visible?.result).toBe(false);
+    expect(trace.fields.partnerLevel?.required).toBeUndefined();
+    expect(trace.fields.partnerLevel?.options).toEqual([
+      { optionList: ['Gold'], trace: expect.objectContaining({ type: 'and', result: false }) },
+    ]);
+    expect(trace.panels.partner?.styled?.children?.[0]?.actual).toBe(false);
+  });
+
+  it('should trace the stored conditionGroup format and skip empty rules', () => {
+    const logic: EntityDynamicLogic = {
+      fields: {
+        duration: {
+          readOnly: { conditionGroup: [{ type: 'isTrue', attribute: 'isAllDay' }] },
+          visible: { conditionGroup: [] },
+        },
+      },
+      panels: {
+        reminders: { visible: { conditionGroup: [{ type: 'isFalse', attribute: 'isAllDay' }] } },
+      },
+    };
 
-    const result2 = evaluateEntityDynamicLogic(logic, { canArchive: false }, fieldOptions);
-    expect(result2.fields.status?.filteredOptions).toEqual(['active', 'pending']);
+    const trace = traceEntityDynamicLogic(logic, { isAllDay: true });
+    expect(trace.fields.duration?.readOnly).toMatchObject({ type: 'and', result: true });
+    expect(trace.fields.duration?.visible).toBeUndefined();
+    expect(trace.panels.reminders?.visible?.result).toBe(false);
   });
 });
@@ -1,17 +1,29 @@
 /**
  * Dynamic Logic Condition Evaluator
  *
- * Evaluates dynamic logic conditions against record data.
+ * Evaluates dynamic logic conditions against record data, following the
+ * semantics of the EspoCRM classic client. Date-only values are compared
+ * by day in the user's time zone; date-time values are stored in UTC.
  */
 
 import type {
   Condition,
+  ConditionDefinition,
   ConditionGroup,
+  ConditionTrace,
+  DynamicLogicTrace,
+  FieldLogicTrace,
+  PanelLogicTrace,
   DynamicLogicDef,
   DynamicFieldState,
+  DynamicOptionLogicItem,
   DynamicEntityState,
+  DynamicPanelLogicDef,
+  DynamicPanelState,
   EntityDynamicLogic,
+  EvaluationContext,
 } from './types';
+import { getBrowserTimeZone, parseDate, parseDateTime, toDateInTimeZone } from '@/lib/datetime';
 
 /**
  * Get a value from an object using dot notation
@@ -46,24 +58,112 @@ function isEmpty(value: unknown): boolean {
 }
 
 /**
- * Parse a date string into a Date object
+ * Read a condition attribute. `$user.` attributes read the current user;
+ * link fields fall back to their `<field>Id` / `<field>Ids` attributes.
  */
-function parseDate(value: unknown): Date | null {
-  if (!value) return null;
-  if (value instanceof Date) return value;
-  if (typeof value === 'string') {
-    const parsed = new Date(value);
-    return isNaN(parsed.getTime()) ? null : parsed;
+function getAttributeValue(
+  attribute: string,
+  data: Record<string, unknown>,
+  context: EvaluationContext
+): unknown {
+  if (attribute.startsWith('$user.')) {
+    return getNestedValue(context.user ?? {}, attribute.slice('$user.'.length));
   }
-  return null;
+
+  const value = getNestedValue(data, attribute);
+  if (value !== undefined || attribute.includes('.')) {
+    return value;
+  }
+  if (`${attribute}Ids` in data) return data[`${attribute}Ids`];
+  if (`${attribute}Id` in data) return data[`${attribute}Id`];
+  return undefined;
+}
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A date-only value (YYYY-MM-DD) or a point in time
+ */
+type DateValue = { date: string } | { moment: Date };
+
+/**
+ * Parse a date or date-time value.
+ * Stored date-times ('YYYY-MM-DD HH:mm:ss') are in UTC.
+ */
+function parseDateValue(value: unknown): DateValue | null {
+  if (typeof value === 'string' && DATE_ONLY_PATTERN.test(value)) {
+    const date = parseDate(value);
+    return date ? { date } : null;
+  }
+
+  const moment = parseDateTime(value);
+  return moment ? { moment } : null;
+}
+
+/**
+ * Format a point in time as YYYY-MM-DD in a time zone
+ */
+function toDateString(moment: Date, timeZone?: string): string {
+  return toDateInTimeZone(moment, timeZone ?? getBrowserTimeZone());
 }
 
 /**
- * Get today's date at midnight
+ * Compare a date value with now: negative in past, 0 today/now, positive in future.
+ * Date-only values compare by day, date-times by instant.
  */
-function getToday(): Date {
+function compareWithNow(value: DateValue, context: EvaluationContext): number {
   const now = new Date();
-  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if ('date' in value) {
+    const today = toDateString(now, context.timeZone);
+    return value.date < today ? -1 : value.date > today ? 1 : 0;
+  }
+  return value.moment.getTime() - now.getTime();
+}
+
+/**
+ * Check if a date value falls on the current day in the user's time zone
+ */
+function isTodayValue(value: DateValue, context: EvaluationContext): boolean {
+  const today = toDateString(new Date(), context.timeZone);
+  const day = 'date' in value ? value.date : toDateString(value.moment, context.timeZone);
+  return day === today;
+}
+
+/**
+ * Compare two values of the same kind (numbers, or strings such as dates)
+ */
+function compareValues(actual: unknown, expected: unknown): number | null {
+  if (typeof actual === 'number' && typeof expected === 'number') {
+    return actual - expected;
+  }
+  if (typeof actual === 'string' && typeof expected === 'string') {
+    return actual < expected ? -1 : actual > expected ? 1 : 0;
+  }
+  return null;
+}
+
+/**
+ * Test a value against a pattern given as '/pattern/flags' or a bare pattern
+ */
+function matchesPattern(value: unknown, pattern: unknown): boolean {
+  if (typeof value !== 'string' || !value || typeof pattern !== 'string') return false;
+
+  const delimited = /^\/(.*)\/([a-z]*)$/.exec(pattern);
+  try {
+    const regExp = delimited ? new RegExp(delimited[1] ?? '', delimited[2]) : new RegExp(pattern);
+    return regExp.test(value);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check if a list (link-multiple ids, multi-enum values) or string has a value
+ */
+function hasValue(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(actual)) return actual.includes(expected);
+  if (typeof actual === 'string' && typeof expected === 'string') return actual.includes(expected);
+  return false;
 }
 
 /**
@@ -71,12 +171,13 @@ function getToday(): Date {
  */
 function evaluateCondition(
   condition: Condition,
-  data: Record<string, unknown>
+  data: Record<string, unknown>,
+  context: EvaluationContext
 ): boolean {
   const { type, attribute, value: conditionValue } = condition;
 
   // Get the actual value from data
-  const actualValue = attribute ? getNestedValue(data, attribute) : undefined;
+  const actualValue = attribute ? getAttributeValue(attribute, data, context) : undefined;
 
   switch (type) {
     case 'equals':
@@ -97,29 +198,25 @@ function evaluateCondition(
     case 'isFalse':
       return actualValue === false;
 
-    case 'greaterThan':
-      if (typeof actualValue === 'number' && typeof conditionValue === 'number') {
-        return actualValue > conditionValue;
-      }
-      return false;
+    case 'greaterThan': {
+      const comparison = compareValues(actualValue, conditionValue);
+      return comparison !== null && comparison > 0;
+    }
 
-    case 'lessThan':
-      if (typeof actualValue === 'number' && typeof conditionValue === 'number') {
-        return actualValue < conditionValue;
-      }
-      return false;
+    case 'lessThan': {
+      const comparison = compareValues(actualValue, conditionValue);
+      return comparison !== null && comparison < 0;
+    }
 
-    case 'greaterThanOrEquals':
-      if (typeof actualValue === 'number' && typeof conditionValue === 'number') {
-        return actualValue >= conditionValue;
-      }
-      return false;
+    case 'greaterThanOrEquals': {
+      const comparison = compareValues(actualValue, conditionValue);
+      return comparison !== null && comparison >= 0;
+    }
 
-    case 'lessThanOrEquals':
-      if (typeof actualValue === 'number' && typeof conditionValue === 'number') {
-        return actualValue <= conditionValue;
-      }
-      return false;
+    case 'lessThanOrEquals': {
+      const comparison = compareValues(actualValue, conditionValue);
+      return comparison !== null && comparison <= 0;
+    }
 
     case 'contains':
       if (typeof actualValue === 'string' && typeof conditionValue === 'string') {
@@ -139,6 +236,12 @@ function evaluateCondition(
       }
       return true;
 
+    case 'has':
+      return hasValue(actualValue, conditionValue);
+
+    case 'notHas':
+      return !hasValue(actualValue, conditionValue);
+
     case 'startsWith':
       if (typeof actualValue === 'string' && typeof conditionValue === 'string') {
         return actualValue.toLowerCase().startsWith(conditionValue.toLowerCase());
@@ -151,6 +254,9 @@ function evaluateCondition(
       }
       return false;
 
+    case 'matches':
+      return matchesPattern(actualValue, conditionValue);
+
     case 'in':
       if (Array.isArray(conditionValue)) {
         return conditionValue.includes(actualValue);
@@ -163,27 +269,28 @@ function evaluateCondition(
       }
       return true;
 
-    case 'isToday': {
-      const dateValue = parseDate(actualValue);
-      if (!dateValue) return false;
-      const today = getToday();
-      return (
-        dateValue.getFullYear() === today.getFullYear() &&
-        dateValue.getMonth() === today.getMonth() &&
-        dateValue.getDate() === today.getDate()
-      );
+    case 'isLinked':
+      return !isEmpty(actualValue);
+
+    case 'isNotLinked':
+      return isEmpty(actualValue);
+
+    case 'isToday':
+    case 'today': {
+      const dateValue = parseDateValue(actualValue);
+      return dateValue ? isTodayValue(dateValue, context) : false;
     }
 
-    case 'inFuture': {
-      const dateValue = parseDate(actualValue);
-      if (!dateValue) return false;
-      return dateValue > new Date();
+    case 'inFuture':
+    case 'future': {
+      const dateValue = parseDateValue(actualValue);
+      return dateValue ? compareWithNow(dateValue, context) > 0 : false;
     }
 
-    case 'inPast': {
-      const dateValue = parseDate(actualValue);
-      if (!dateValue) return false;
-      return dateValue < new Date();
+    case 'inPast':
+    case 'past': {
+      const dateValue = parseDateValue(actualValue);
+      return dateValue ? compareWithNow(dateValue, context) < 0 : false;
     }
 
     default:
@@ -204,7 +311,8 @@ function isConditionGroup(item: Condition | ConditionGroup): item is ConditionGr
  */
 export function evaluateConditionGroup(
   group: ConditionGroup,
-  data: Record<string, unknown>
+  data: Record<string, unknown>,
+  context: EvaluationContext = {}
 ): boolean {
   const { type, value: conditions } = group;
 
@@ -212,15 +320,15 @@ export function evaluateConditionGroup(
     case 'and':
       return conditions.every((condition) =>
         isConditionGroup(condition)
-          ? evaluateConditionGroup(condition, data)
-          : evaluateCondition(condition, data)
+          ? evaluateConditionGroup(condition, data, context)
+          : evaluateCondition(condition, data, context)
       );
 
     case 'or':
       return conditions.some((condition) =>
         isConditionGroup(condition)
-          ? evaluateConditionGroup(condition, data)
-          : evaluateCondition(condition, data)
+          ? evaluateConditionGroup(condition, data, context)
+          : evaluateCondition(condition, data, context)
       );
 
     case 'not':
@@ -230,8 +338,8 @@ export function evaluateConditionGroup(
       if (!firstCondition) return true;
       return !(
         isConditionGroup(firstCondition)
-          ? evaluateConditionGroup(firstCondition, data)
-          : evaluateCondition(firstCondition, data)
+          ? evaluateConditionGroup(firstCondition, data, context)
+          : evaluateCondition(firstCondition, data, context)
       );
 
     default:
@@ -240,13 +348,45 @@ export function evaluateConditionGroup(
   }
 }
 
+/**
+ * Evaluate a stored condition definition; undefined when it has no conditions
+ */
+function evaluateDefinition(
+  definition: ConditionDefinition | undefined,
+  data: Record<string, unknown>,
+  context: EvaluationContext
+): boolean | undefined {
+  const group = toConditionGroup(definition);
+  return group ? evaluateConditionGroup(group, data, context) : undefined;
+}
+
+/**
+ * Conditions of an option list item
+ */
+function toOptionCondition(item: DynamicOptionLogicItem): ConditionDefinition {
+  return { conditionGroup: item.conditionGroup ?? [] };
+}
+
+/**
+ * Field rules of an entity with the field's option lists merged in
+ */
+export function getFieldDynamicLogic(
+  entityLogic: EntityDynamicLogic | undefined,
+  fieldName: string
+): DynamicLogicDef | undefined {
+  const fieldLogic = entityLogic?.fields?.[fieldName];
+  const options = entityLogic?.options?.[fieldName];
+  return options ? { ...fieldLogic, options } : fieldLogic;
+}
+
 /**
  * Evaluate dynamic logic for a single field
  */
 export function evaluateFieldDynamicLogic(
   fieldLogic: DynamicLogicDef | undefined,
   data: Record<string, unknown>,
-  allOptions?: string[]
+  allOptions?: string[],
+  context: EvaluationContext = {}
 ): DynamicFieldState {
   const result: DynamicFieldState = {
     visible: true,
@@ -260,36 +400,84 @@ export function evaluateFieldDynamicLogic(
     return result;
   }
 
-  // Evaluate visibility
-  if (fieldLogic.visible) {
-    result.visible = evaluateConditionGroup(fieldLogic.visible, data);
+  result.visible = evaluateDefinition(fieldLogic.visible, data, context) ?? true;
+
+  // Required only applies to visible fields
+  if (result.visible) {
+    result.required = evaluateDefinition(fieldLogic.required, data, context) ?? false;
   }
 
-  // Evaluate required (only if visible)
-  if (result.visible && fieldLogic.required) {
-    result.required = evaluateConditionGroup(fieldLogic.required, data);
+  result.readOnly = evaluateDefinition(fieldLogic.readOnly, data, context) ?? false;
+  result.invalid = evaluateDefinition(fieldLogic.invalid, data, context) ?? false;
+
+  // The first matching item sets the option list; otherwise all options apply
+  const optionItem = fieldLogic.options?.find(
+    (item) => evaluateDefinition(toOptionCondition(item), data, context) ?? true
+  );
+  if (optionItem) {
+    result.filteredOptions = allOptions
+      ? optionItem.optionList.filter((option) => allOptions.includes(option))
+      : optionItem.optionList;
   }
 
-  // Evaluate readOnly
-  if (fieldLogic.readOnly) {
-    result.readOnly = evaluateConditionGroup(fieldLogic.readOnly, data);
+  return result;
+}
+
+/**
+ * Evaluate dynamic logic for a panel
+ */
+export function evaluatePanelDynamicLogic(
+  panelLogic: DynamicPanelLogicDef,
+  data: Record<string, unknown>,
+  context: EvaluationContext = {}
+): DynamicPanelState {
+  const result: DynamicPanelState = {
+    visible: evaluateDefinition(panelLogic.visible, data, context) ?? true,
+  };
+
+  const styled = evaluateDefinition(panelLogic.styled, data, context);
+  if (styled !== undefined) {
+    result.styled = styled;
   }
 
-  // Evaluate invalid
-  if (fieldLogic.invalid) {
-    result.invalid = evaluateConditionGroup(fieldLogic.invalid, data);
+  return result;
+}
+
+/**
+ * Convert a stored condition definition to a condition group.
+ * Accepts the builder format (`{ conditionGroup: [...] }`, implicitly
+ * "and") as well as a plain condition group.
+ */
+export function toConditionGroup(definition: unknown): ConditionGroup | undefined {
+  if (!definition || typeof definition !== 'object') {
+    return undefined;
   }
 
-  // Evaluate filtered options
-  if (fieldLogic.options && allOptions) {
-    result.filteredOptions = allOptions.filter((option) => {
-      const optionCondition = fieldLogic.options?.[option];
-      if (!optionCondition) return true; // No condition means always visible
-      return evaluateConditionGroup(optionCondition, data);
-    });
+  const def = definition as { conditionGroup?: unknown; type?: unknown; value?: unknown };
+
+  if (Array.isArray(def.conditionGroup)) {
+    return def.conditionGroup.length > 0
+      ? { type: 'and', value: def.conditionGroup as ConditionGroup['value'] }
+      : undefined;
   }
 
-  return result;
+  if (typeof def.type === 'string' && Array.isArray(def.value)) {
+    return definition as ConditionGroup;
+  }
+
+  return undefined;
+}
+
+/**
+ * Names of the fields with rules or option lists
+ */
+function getFieldNames(entityLogic: EntityDynamicLogic | undefined): string[] {
+  return [
+    ...new Set([
+      ...Object.keys(entityLogic?.fields ?? {}),
+      ...Object.keys(entityLogic?.options ?? {}),
+    ]),
+  ];
 }
 
 /**
@@ -298,7 +486,8 @@ export function evaluateFieldDynamicLogic(
 export function evaluateEntityDynamicLogic(
   entityLogic: EntityDynamicLogic | undefined,
   data: Record<string, unknown>,
-  fieldOptions?: Record<string, string[]>
+  fieldOptions?: Record<string, string[]>,
+  context: EvaluationContext = {}
 ): DynamicEntityState {
   const result: DynamicEntityState = {
     fields: {},
@@ -310,25 +499,122 @@ export function evaluateEntityDynamicLogic(
   }
 
   // Evaluate field logic
-  if (entityLogic.fields) {
-    for (const [fieldName, fieldLogic] of Object.entries(entityLogic.fields)) {
-      result.fields[fieldName] = evaluateFieldDynamicLogic(
-        fieldLogic,
-        data,
-        fieldOptions?.[fieldName]
-      );
-    }
+  for (const fieldName of getFieldNames(entityLogic)) {
+    result.fields[fieldName] = evaluateFieldDynamicLogic(
+      getFieldDynamicLogic(entityLogic, fieldName),
+      data,
+      fieldOptions?.[fieldName],
+      context
+    );
   }
 
   // Evaluate panel logic
   if (entityLogic.panels) {
     for (const [panelName, panelLogic] of Object.entries(entityLogic.panels)) {
-      result.panels[panelName] = {
-        visible: panelLogic.visible
-          ? evaluateConditionGroup(panelLogic.visible, data)
-          : true,
-      };
+      result.panels[panelName] = evaluatePanelDynamicLogic(panelLogic, data, context);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Evaluate a condition group recording every sub-condition's value and
+ * result. Unlike evaluateConditionGroup it does not short-circuit, so the
+ * trace covers the whole tree.
+ */
+export function traceConditionGroup(
+  group: ConditionGroup,
+  data: Record<string, unknown>,
+  context: EvaluationContext = {}
+): ConditionTrace {
+  const children = group.value.map((item) =>
+    isConditionGroup(item)
+      ? traceConditionGroup(item, data, context)
+      : traceCondition(item, data, context)
+  );
+
+  let result: boolean;
+  switch (group.type) {
+    case 'and':
+      result = children.every((child) => child.result);
+      break;
+    case 'or':
+      result = children.some((child) => child.result);
+      break;
+    case 'not':
+      result = children[0] ? !children[0].result : true;
+      break;
+    default:
+      result = false;
+  }
+
+  return { type: group.type, result, children };
+}
+
+/**
+ * Trace a single condition
+ */
+function traceCondition(
+  condition: Condition,
+  data: Record<string, unknown>,
+  context: EvaluationContext
+): ConditionTrace {
+  const { type, attribute, value } = condition;
+
+  return {
+    type,
+    attribute,
+    expected: value,
+    actual: attribute ? getAttributeValue(attribute, data, context) : undefined,
+    result: evaluateCondition(condition, data, context),
+  };
+}
+
+/**
+ * Trace the dynamic logic of an entire entity (for debugging)
+ */
+export function traceEntityDynamicLogic(
+  entityLogic: EntityDynamicLogic | undefined,
+  data: Record<string, unknown>,
+  context: EvaluationContext = {}
+): DynamicLogicTrace {
+  const result: DynamicLogicTrace = {
+    fields: {},
+    panels: {},
+  };
+
+  for (const fieldName of getFieldNames(entityLogic)) {
+    const fieldLogic = getFieldDynamicLogic(entityLogic, fieldName) ?? {};
+    const trace: FieldLogicTrace = {};
+    for (const key of ['visible', 'required', 'readOnly', 'invalid'] as const) {
+      const group = toConditionGroup(fieldLogic[key]);
+      if (group) {
+        trace[key] = traceConditionGroup(group, data, context);
+      }
+    }
+    if (fieldLogic.options) {
+      trace.options = fieldLogic.options.map((item) => ({
+        optionList: item.optionList,
+        trace: traceConditionGroup(
+          toConditionGroup(toOptionCondition(item)) ?? { type: 'and', value: [] },
+          data,
+          context
+        ),
+      }));
+    }
+    result.fields[fieldName] = trace;
+  }
+
+  for (const [panelName, panelLogic] of Object.entries(entityLogic?.panels ?? {})) {
+    const trace: PanelLogicTrace = {};
+    for (const key of ['visible', 'styled'] as const) {
+      const group = toConditionGroup(panelLogic[key]);
+      if (group) {
+        trace[key] = traceConditionGroup(group, data, context);
+      }
     }
+    result.panels[panelName] = trace;
   }
 
   return result;
@@ -6,5 +6,19 @@
  */
 
 export * from './types';
-export { evaluateConditionGroup, evaluateFieldDynamicLogic, evaluateEntityDynamicLogic } from './evaluator';
-export { useDynamicLogic, useFieldDynamicLogic } from './useDynamicLogic';
+export {
+  evaluateConditionGroup,
+  evaluateFieldDynamicLogic,
+  evaluatePanelDynamicLogic,
+  evaluateEntityDynamicLogic,
+  getFieldDynamicLogic,
+  toConditionGroup,
+  traceConditionGroup,
+  traceEntityDynamicLogic,
+} from './evaluator';
+export {
+  useDynamicLogic,
+  useFieldDynamicLogic,
+  useDynamicLogicTrace,
+  useEvaluationContext,
+} from './useDynamicLogic';
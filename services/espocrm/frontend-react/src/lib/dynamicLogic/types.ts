@@ -18,13 +18,21 @@ export type ConditionOperator =
   | 'lessThanOrEquals'
   | 'contains'
   | 'notContains'
+  | 'has'
+  | 'notHas'
   | 'startsWith'
   | 'endsWith'
+  | 'matches'
   | 'in'
   | 'notIn'
+  | 'isLinked'
+  | 'isNotLinked'
   | 'isToday'
+  | 'today'
   | 'inFuture'
-  | 'inPast';
+  | 'future'
+  | 'inPast'
+  | 'past';
 
 export type LogicalOperator = 'and' | 'or' | 'not';
 
@@ -46,20 +54,57 @@ export interface ConditionGroup {
   value: (Condition | ConditionGroup)[];
 }
 
+/**
+ * Conditions as stored in metadata: EspoCRM and the condition builder store
+ * `{ conditionGroup: [...] }` (implicitly "and"); a plain condition group is
+ * accepted as well
+ */
+export type ConditionDefinition = ConditionGroup | { conditionGroup: (Condition | ConditionGroup)[] };
+
+/**
+ * Environment conditions are evaluated in
+ */
+export interface EvaluationContext {
+  /** User time zone for date operators (defaults to the browser's) */
+  timeZone?: string;
+  /** Current user attributes, read by `$user.` attributes */
+  user?: Record<string, unknown>;
+}
+
+/**
+ * Option list applied to an enum field while its conditions hold
+ * (`dynamicLogic.options.<field>` items in clientDefs)
+ */
+export interface DynamicOptionLogicItem {
+  optionList: string[];
+  /** Conditions, implicitly "and"; no conditions always match */
+  conditionGroup?: (Condition | ConditionGroup)[];
+}
+
 /**
  * Dynamic logic definition for a field
  */
 export interface DynamicLogicDef {
   /** Conditions that make the field visible */
-  visible?: ConditionGroup;
+  visible?: ConditionDefinition;
   /** Conditions that make the field required */
-  required?: ConditionGroup;
+  required?: ConditionDefinition;
   /** Conditions that make the field read-only */
-  readOnly?: ConditionGroup;
-  /** Conditions for filtering options (enum fields) */
-  options?: Record<string, ConditionGroup>;
+  readOnly?: ConditionDefinition;
+  /** Option lists for enum fields; the first matching item applies */
+  options?: DynamicOptionLogicItem[];
   /** Invalid conditions (field invalid when true) */
-  invalid?: ConditionGroup;
+  invalid?: ConditionDefinition;
+}
+
+/**
+ * Dynamic logic definition for a panel
+ */
+export interface DynamicPanelLogicDef {
+  /** Conditions that make the panel visible */
+  visible?: ConditionDefinition;
+  /** Conditions that switch the panel to its configured style */
+  styled?: ConditionDefinition;
 }
 
 /**
@@ -67,7 +112,9 @@ export interface DynamicLogicDef {
  */
 export interface EntityDynamicLogic {
   fields?: Record<string, DynamicLogicDef>;
-  panels?: Record<string, { visible?: ConditionGroup }>;
+  /** Option lists per enum field, kept apart from the field rules as in EspoCRM */
+  options?: Record<string, DynamicOptionLogicItem[]>;
+  panels?: Record<string, DynamicPanelLogicDef>;
 }
 
 /**
@@ -81,10 +128,69 @@ export interface DynamicFieldState {
   filteredOptions?: string[];
 }
 
+/**
+ * Result of evaluating dynamic logic for a panel
+ */
+export interface DynamicPanelState {
+  visible: boolean;
+  /** Whether the styled conditions match (undefined when the panel has none) */
+  styled?: boolean;
+}
+
 /**
  * Result of evaluating dynamic logic for an entity
  */
 export interface DynamicEntityState {
   fields: Record<string, DynamicFieldState>;
-  panels: Record<string, { visible: boolean }>;
+  panels: Record<string, DynamicPanelState>;
+}
+
+/**
+ * Evaluation trace of a condition or condition group
+ */
+export interface ConditionTrace {
+  type: ConditionOperator | LogicalOperator;
+  attribute?: string;
+  /** Value the condition compares against */
+  expected?: unknown;
+  /** Attribute value found in the data */
+  actual?: unknown;
+  result: boolean;
+  /** Traces of nested conditions (groups only) */
+  children?: ConditionTrace[];
+}
+
+/**
+ * Evaluation traces of a field's dynamic logic
+ */
+export interface FieldLogicTrace {
+  visible?: ConditionTrace;
+  required?: ConditionTrace;
+  readOnly?: ConditionTrace;
+  invalid?: ConditionTrace;
+  options?: OptionLogicTrace[];
+}
+
+/**
+ * Evaluation trace of an option list item
+ */
+export interface OptionLogicTrace {
+  optionList: string[];
+  trace: ConditionTrace;
+}
+
+/**
+ * Evaluation traces of a panel's dynamic logic
+ */
+export interface PanelLogicTrace {
+  visible?: ConditionTrace;
+  styled?: ConditionTrace;
+}
+
+/**
+ * Evaluation traces of an entity's dynamic logic
+ */
+export interface DynamicLogicTrace {
+  fields: Record<string, FieldLogicTrace>;
+  panels: Record<string, PanelLogicTrace>;
 }
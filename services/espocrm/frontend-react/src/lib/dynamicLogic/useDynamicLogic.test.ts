@@ -293,6 +293,23 @@ describe('useDynamicLogic', () => {
       expect(result.current.panelStates).toHaveProperty('partnerDetails');
       expect(result.current.panelStates.partnerDetails.visible).toBe(true);
     });
+
+    it('merges layout panel logic over metadata panel logic', () => {
+      const panels = {
+        partnerDetails: {
+          styled: {
+            type: 'and' as const,
+            value: [{ type: 'isEmpty' as const, attribute: 'industry' }],
+          },
+        },
+      };
+
+      const { result } = renderHook(() =>
+        useDynamicLogic({ entityType: 'Account', data: { type: 'Partner' }, panels })
+      );
+
+      expect(result.current.getPanelState('partnerDetails')).toEqual({ visible: true, styled: true });
+    });
   });
 });
 
@@ -356,6 +373,14 @@ describe('useFieldDynamicLogic', () => {
                     },
                   },
                 },
+                options: {
+                  partnerLevel: [
+                    {
+                      optionList: ['Gold', 'Silver'],
+                      conditionGroup: [{ type: 'isTrue', attribute: 'isVerified' }],
+                    },
+                  ],
+                },
               },
             },
           },
@@ -384,6 +409,18 @@ describe('useFieldDynamicLogic', () => {
       expect(result2.current.visible).toBe(true);
     });
 
+    it('applies the option lists of the field', () => {
+      const { result: result1 } = renderHook(() =>
+        useFieldDynamicLogic('Account', 'partnerLevel', { type: 'Partner', isVerified: true })
+      );
+      expect(result1.current.filteredOptions).toEqual(['Gold', 'Silver']);
+
+      const { result: result2 } = renderHook(() =>
+        useFieldDynamicLogic('Account', 'partnerLevel', { type: 'Partner', isVerified: false })
+      );
+      expect(result2.current.filteredOptions).toBeUndefined();
+    });
+
     it('returns default for fields without dynamic logic', () => {
       const { result } = renderHook(() =>
         useFieldDynamicLogic('Account', 'type', { type: 'Customer' })
@@ -6,12 +6,23 @@
 
 import { useMemo } from 'react';
 import { useMetadata } from '@/lib/metadata/useMetadata';
-import { evaluateEntityDynamicLogic, evaluateFieldDynamicLogic } from './evaluator';
+import { useAuthStore } from '@/features/auth/store';
+import { getDateTimeSettings } from '@/lib/datetime';
+import {
+  evaluateEntityDynamicLogic,
+  evaluateFieldDynamicLogic,
+  getFieldDynamicLogic,
+  traceEntityDynamicLogic,
+} from './evaluator';
 import type {
   DynamicFieldState,
   DynamicEntityState,
+  DynamicPanelLogicDef,
+  DynamicPanelState,
   EntityDynamicLogic,
   DynamicLogicDef,
+  DynamicLogicTrace,
+  EvaluationContext,
 } from './types';
 
 interface UseDynamicLogicOptions {
@@ -19,17 +30,19 @@ interface UseDynamicLogicOptions {
   entityType: string;
   /** Current form/record data */
   data: Record<string, unknown>;
+  /** Panel logic defined in the layout, merged over the metadata panel logic */
+  panels?: Record<string, DynamicPanelLogicDef>;
 }
 
 interface UseDynamicLogicResult {
   /** Dynamic state for all fields */
   fieldStates: Record<string, DynamicFieldState>;
   /** Dynamic state for all panels */
-  panelStates: Record<string, { visible: boolean }>;
+  panelStates: Record<string, DynamicPanelState>;
   /** Get state for a specific field */
   getFieldState: (fieldName: string) => DynamicFieldState;
   /** Get state for a specific panel */
-  getPanelState: (panelName: string) => { visible: boolean };
+  getPanelState: (panelName: string) => DynamicPanelState;
   /** Check if a field is visible */
   isFieldVisible: (fieldName: string) => boolean;
   /** Check if a field is required (including dynamic requirement) */
@@ -50,7 +63,36 @@ const DEFAULT_FIELD_STATE: DynamicFieldState = {
   filteredOptions: undefined,
 };
 
-const DEFAULT_PANEL_STATE = { visible: true };
+const DEFAULT_PANEL_STATE: DynamicPanelState = { visible: true };
+
+/**
+ * Merge panel logic defined in a layout over the metadata logic
+ */
+function mergePanelLogic(
+  logic: EntityDynamicLogic | undefined,
+  panels: Record<string, DynamicPanelLogicDef> | undefined
+): EntityDynamicLogic | undefined {
+  if (!panels) return logic;
+
+  const mergedPanels: Record<string, DynamicPanelLogicDef> = { ...logic?.panels };
+  for (const [panelName, panelLogic] of Object.entries(panels)) {
+    mergedPanels[panelName] = { ...mergedPanels[panelName], ...panelLogic };
+  }
+  return { ...logic, panels: mergedPanels };
+}
+
+/**
+ * Current user and time zone for condition evaluation
+ */
+export function useEvaluationContext(): EvaluationContext {
+  const { user, settings, preferences } = useAuthStore();
+  const { timeZone } = getDateTimeSettings(settings, preferences);
+
+  return useMemo(
+    () => ({ timeZone, user: user ?? undefined }),
+    [timeZone, user]
+  );
+}
 
 /**
  * Hook to use dynamic logic for an entity
@@ -58,16 +100,18 @@ const DEFAULT_PANEL_STATE = { visible: true };
 export function useDynamicLogic({
   entityType,
   data,
+  panels,
 }: UseDynamicLogicOptions): UseDynamicLogicResult {
   const { metadata } = useMetadata();
+  const context = useEvaluationContext();
 
   // Get dynamic logic definition from metadata
   const dynamicLogic = useMemo<EntityDynamicLogic | undefined>(() => {
     const clientDefs = metadata?.clientDefs?.[entityType] as
       | { dynamicLogic?: EntityDynamicLogic }
       | undefined;
-    return clientDefs?.dynamicLogic;
-  }, [metadata, entityType]);
+    return mergePanelLogic(clientDefs?.dynamicLogic, panels);
+  }, [metadata, entityType, panels]);
 
   // Get field options from metadata (for filtering)
   const fieldOptions = useMemo<Record<string, string[]>>(() => {
@@ -88,8 +132,8 @@ export function useDynamicLogic({
 
   // Evaluate dynamic logic
   const dynamicState = useMemo<DynamicEntityState>(() => {
-    return evaluateEntityDynamicLogic(dynamicLogic, data, fieldOptions);
-  }, [dynamicLogic, data, fieldOptions]);
+    return evaluateEntityDynamicLogic(dynamicLogic, data, fieldOptions, context);
+  }, [dynamicLogic, data, fieldOptions, context]);
 
   // Get state for a specific field
   const getFieldState = useMemo(
@@ -101,7 +145,7 @@ export function useDynamicLogic({
 
   // Get state for a specific panel
   const getPanelState = useMemo(
-    () => (panelName: string): { visible: boolean } => {
+    () => (panelName: string): DynamicPanelState => {
       return dynamicState.panels[panelName] ?? DEFAULT_PANEL_STATE;
     },
     [dynamicState.panels]
@@ -161,13 +205,14 @@ export function useFieldDynamicLogic(
   data: Record<string, unknown>
 ): DynamicFieldState {
   const { metadata } = useMetadata();
+  const context = useEvaluationContext();
 
   // Get dynamic logic definition for this field
   const fieldLogic = useMemo<DynamicLogicDef | undefined>(() => {
     const clientDefs = metadata?.clientDefs?.[entityType] as
       | { dynamicLogic?: EntityDynamicLogic }
       | undefined;
-    return clientDefs?.dynamicLogic?.fields?.[fieldName];
+    return getFieldDynamicLogic(clientDefs?.dynamicLogic, fieldName);
   }, [metadata, entityType, fieldName]);
 
   // Get field options
@@ -179,6 +224,29 @@ export function useFieldDynamicLogic(
 
   // Evaluate
   return useMemo(() => {
-    return evaluateFieldDynamicLogic(fieldLogic, data, fieldOptions);
-  }, [fieldLogic, data, fieldOptions]);
+    return evaluateFieldDynamicLogic(fieldLogic, data, fieldOptions, context);
+  }, [fieldLogic, data, fieldOptions, context]);
+}
+
+/**
+ * Hook to trace how an entity's dynamic logic evaluates (for debugging)
+ */
+export function useDynamicLogicTrace({
+  entityType,
+  data,
+  panels,
+}: UseDynamicLogicOptions): DynamicLogicTrace {
+  const { metadata } = useMetadata();
+  const context = useEvaluationContext();
+
+  const dynamicLogic = useMemo<EntityDynamicLogic | undefined>(() => {
+    const clientDefs = metadata?.clientDefs?.[entityType] as
+      | { dynamicLogic?: EntityDynamicLogic }
+      | undefined;
+    return mergePanelLogic(clientDefs?.dynamicLogic, panels);
+  }, [metadata, entityType, panels]);
+
+  return useMemo(() => {
+    return traceEntityDynamicLogic(dynamicLogic, data, context);
+  }, [dynamicLogic, data, context]);
 }
@@ -0,0 +1,124 @@
+/**
+ * ExtensionLoader Tests
+ */
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+
+vi.mock('@/features/auth/store', () => ({
+  useAuthStore: vi.fn(() => ({ isAuthenticated: true })),
+}));
+
+vi.mock('@/lib/metadata/useMetadata', () => ({
+  useMetadata: vi.fn(),
+}));
+
+const translations: Record<string, string> = {
+  'Global.labels.extensionsNotLoaded': 'Certaines extensions n’ont pas pu être chargées',
+  'Global.labels.dismiss': 'Fermer',
+};
+
+vi.mock('@/hooks/useTranslation', () => {
+  const helpers = { t: (key: string): string => translations[key] ?? key };
+  return { useTranslation: () => helpers };
+});
+
+vi.mock('./loader', async () => {
+  const actual = await vi.importActual<typeof import('./loader')>('./loader');
+  return {
+    ...actual,
+    loadExtensionModules: vi.fn(),
+  };
+});
+
+import { ExtensionLoader } from './ExtensionLoader';
+import { loadExtensionModules } from './loader';
+import { useAuthStore } from '@/features/auth/store';
+import { useMetadata } from '@/lib/metadata/useMetadata';
+
+const mockLoad = vi.mocked(loadExtensionModules);
+const mockUseAuthStore = vi.mocked(useAuthStore);
+const mockUseMetadata = vi.mocked(useMetadata);
+
+const manifestMetadata = {
+  app: {
+    client: {
+      reactModuleList: [{ name: 'Reports', url: '/client/reports.js' }],
+    },
+  },
+};
+
+function renderLoader() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false } },
+  });
+
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <ExtensionLoader>
+        <div data-testid="app">App</div>
+      </ExtensionLoader>
+    </QueryClientProvider>
+  );
+}
+
+describe('ExtensionLoader', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseAuthStore.mockReturnValue({ isAuthenticated: true } as ReturnType<typeof useAuthStore>);
+    mockUseMetadata.mockReturnValue({
+      metadata: manifestMetadata,
+      isLoading: false,
+    } as ReturnType<typeof useMetadata>);
+  });
+
+  it('renders children immediately when not authenticated', () => {
+    mockUseAuthStore.mockReturnValue({ isAuthenticated: false } as ReturnType<typeof useAuthStore>);
+
+    renderLoader();
+
+    expect(screen.getByTestId('app')).toBeInTheDocument();
+    expect(mockLoad).not.toHaveBeenCalled();
+  });
+
+  it('waits for bundles to load before rendering children', async () => {
+    mockLoad.mockResolvedValue({ loaded: ['Reports'], errors: [] });
+
+    renderLoader();
+
+    expect(screen.getByRole('status')).toBeInTheDocument();
+    expect(screen.queryByTestId('app')).not.toBeInTheDocument();
+
+    expect(await screen.findByTestId('app')).toBeInTheDocument();
+    expect(mockLoad).toHaveBeenCalledWith([{ name: 'Reports', url: '/client/reports.js' }]);
+  });
+
+  it('skips loading when the manifest is empty', () => {
+    mockUseMetadata.mockReturnValue({
+      metadata: { scopes: {} },
+      isLoading: false,
+    } as ReturnType<typeof useMetadata>);
+
+    renderLoader();
+
+    expect(screen.getByTestId('app')).toBeInTheDocument();
+    expect(mockLoad).not.toHaveBeenCalled();
+  });
+
+  it('shows a dismissible notice for failed modules', async () => {
+    mockLoad.mockResolvedValue({
+      loaded: [],
+      errors: [{ name: 'Reports', url: '/client/reports.js', error: new Error('Failed to fetch') }],
+    });
+
+    renderLoader();
+
+    expect(await screen.findByTestId('app')).toBeInTheDocument();
+    expect(screen.getByRole('alert')).toHaveTextContent('Certaines extensions n’ont pas pu être chargées');
+    expect(screen.getByRole('alert')).toHaveTextContent('Reports: Failed to fetch');
+
+    fireEvent.click(screen.getByTitle('Fermer'));
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * ExtensionLoader
+ *
+ * Loads the extension bundles advertised in metadata once the user is
+ * authenticated, and holds back rendering until they are registered so
+ * routes see the complete registry. Load failures are reported in a
+ * dismissible notice instead of blocking the app.
+ */
+
+import React, { useState, type ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, X } from 'lucide-react';
+import { useAuthStore } from '@/features/auth/store';
+import { useMetadata } from '@/lib/metadata/useMetadata';
+import { useTranslation } from '@/hooks/useTranslation';
+import { formatLabel } from '@/lib/i18n/labels';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import {
+  getExtensionManifest,
+  loadExtensionModules,
+  type ExtensionLoadResult,
+} from './loader';
+
+interface ExtensionLoaderProps {
+  children: ReactNode;
+}
+
+export function ExtensionLoader({ children }: ExtensionLoaderProps): React.ReactElement {
+  const { isAuthenticated } = useAuthStore();
+  const { metadata, isLoading: metadataLoading } = useMetadata();
+  const { t } = useTranslation();
+  const [dismissed, setDismissed] = useState(false);
+
+  const manifest = metadata ? getExtensionManifest(metadata) : [];
+
+  const { data, isLoading } = useQuery<ExtensionLoadResult>({
+    queryKey: ['extensionModules', manifest.map((entry) => entry.url)],
+    queryFn: () => loadExtensionModules(manifest),
+    enabled: isAuthenticated && manifest.length > 0,
+    // Modules stay registered for the lifetime of the page
+    staleTime: Infinity,
+    gcTime: Infinity,
+    retry: false,
+  });
+
+  if (isAuthenticated && (metadataLoading || isLoading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const errors = data?.errors ?? [];
+
+  return (
+    <>
+      {children}
+      {errors.length > 0 && !dismissed && (
+        <div
+          role="alert"
+          className="fixed bottom-4 left-4 z-50 max-w-sm rounded-lg border border-yellow-300 bg-yellow-50 p-4 shadow-lg"
+        >
+          <div className="flex items-start gap-3">
+            <AlertTriangle className="h-5 w-5 text-yellow-600 flex-shrink-0" />
+            <div className="flex-1 text-sm">
+              <p className="font-medium text-yellow-900">
+                {formatLabel('extensionsNotLoaded', {}, t)}
+              </p>
+              <ul className="mt-1 text-yellow-800">
+                {errors.map((failure) => (
+                  <li key={failure.name}>
+                    {failure.name}: {failure.error.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <button
+              type="button"
+              onClick={() => setDismissed(true)}
+              className="p-1 rounded hover:bg-yellow-100 text-yellow-700"
+              title={formatLabel('dismiss', {}, t)}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default ExtensionLoader;
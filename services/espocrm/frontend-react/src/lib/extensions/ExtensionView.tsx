@@ -0,0 +1,34 @@
+/**
+ * ExtensionView
+ *
+ * Renders a view registered through the extension registry. Module views
+ * are often lazy components, so they are wrapped in their own Suspense
+ * boundary to avoid suspending the whole page.
+ */
+
+import React, { Suspense } from 'react';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import type { ViewConfig, ViewProps } from './registry';
+
+interface ExtensionViewProps extends ViewProps {
+  /** Registered view configuration (usually from getCustomView) */
+  view: ViewConfig;
+}
+
+export function ExtensionView({ view, ...props }: ExtensionViewProps): React.ReactElement {
+  const Component = view.component;
+
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      }
+    >
+      <Component {...props} />
+    </Suspense>
+  );
+}
+
+export default ExtensionView;
@@ -0,0 +1,128 @@
+/**
+ * Record Event Bus Tests
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  subscribe,
+  emit,
+  emitBeforeSave,
+  subscribeModuleHandlers,
+  clearEventListeners,
+} from './events';
+
+describe('Record Event Bus', () => {
+  beforeEach(() => {
+    clearEventListeners();
+  });
+
+  describe('emit', () => {
+    it('notifies subscribers with the event payload', () => {
+      const handler = vi.fn();
+      subscribe('viewRendered', handler);
+
+      emit('viewRendered', { entityType: 'Account', recordId: '1', viewType: 'detail' });
+
+      expect(handler).toHaveBeenCalledWith({ entityType: 'Account', recordId: '1', viewType: 'detail' });
+    });
+
+    it('stops notifying after unsubscribe', () => {
+      const handler = vi.fn();
+      const unsubscribe = subscribe('afterDelete', handler);
+
+      unsubscribe();
+      emit('afterDelete', { entityType: 'Account', recordId: '1' });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('logs handler errors without affecting other subscribers', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const failing = vi.fn(() => {
+        throw new Error('boom');
+      });
+      const rejecting = vi.fn(() => Promise.reject(new Error('async boom')));
+      const handler = vi.fn();
+      subscribe('afterDelete', failing);
+      subscribe('afterDelete', rejecting);
+      subscribe('afterDelete', handler);
+
+      emit('afterDelete', { entityType: 'Account', recordId: '1' });
+      await Promise.resolve();
+
+      expect(handler).toHaveBeenCalled();
+      expect(consoleSpy).toHaveBeenCalledTimes(2);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('emitBeforeSave', () => {
+    it('returns the original attributes when there are no handlers', async () => {
+      const result = await emitBeforeSave({ entityType: 'Account', isNew: true, attributes: { name: 'Acme' } });
+
+      expect(result).toEqual({ vetoed: false, attributes: { name: 'Acme' } });
+    });
+
+    it('lets handlers modify attributes in order', async () => {
+      subscribe('beforeSave', (event) => {
+        event.attributes.name = String(event.attributes.name).trim();
+      });
+      subscribe('beforeSave', async (event) => {
+        await Promise.resolve();
+        event.attributes.type = 'Customer';
+      });
+
+      const attributes = { name: ' Acme ' };
+      const result = await emitBeforeSave({ entityType: 'Account', isNew: true, attributes });
+
+      expect(result.attributes).toEqual({ name: 'Acme', type: 'Customer' });
+      // Caller's object is not mutated
+      expect(attributes).toEqual({ name: ' Acme ' });
+    });
+
+    it('stops at the first veto', async () => {
+      const later = vi.fn();
+      subscribe('beforeSave', (event) => event.veto('Name is reserved'));
+      subscribe('beforeSave', later);
+
+      const result = await emitBeforeSave({ entityType: 'Account', recordId: '1', isNew: false, attributes: {} });
+
+      expect(result.vetoed).toBe(true);
+      expect(result.reason).toBe('Name is reserved');
+      expect(later).not.toHaveBeenCalled();
+    });
+
+    it('treats a thrown error as a veto', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      subscribe('beforeSave', () => {
+        throw new Error('Service unavailable');
+      });
+
+      const result = await emitBeforeSave({ entityType: 'Account', isNew: true, attributes: {} });
+
+      expect(result).toEqual(expect.objectContaining({ vetoed: true, reason: 'Service unavailable' }));
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('subscribeModuleHandlers', () => {
+    it('subscribes and removes all handlers of a module', () => {
+      const afterSave = vi.fn();
+      const fieldChange = vi.fn();
+      const unsubscribe = subscribeModuleHandlers({ afterSave, fieldChange });
+
+      emit('afterSave', { entityType: 'Account', recordId: '1', isNew: false, attributes: {} });
+      emit('fieldChange', {
+        entityType: 'Account',
+        field: 'name',
+        value: 'Acme',
+        previousValue: '',
+        attributes: { name: 'Acme' },
+      });
+      unsubscribe();
+      emit('afterSave', { entityType: 'Account', recordId: '1', isNew: false, attributes: {} });
+
+      expect(afterSave).toHaveBeenCalledTimes(1);
+      expect(fieldChange).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Record Lifecycle Event Bus
+ *
+ * Typed events emitted by the record views so extension modules can react
+ * to records being created, saved, deleted or edited.
+ *
+ * `beforeSave` handlers run sequentially and may mutate `attributes` or
+ * veto the save. All other events are notifications; handler errors are
+ * logged and never break the emitting view.
+ *
+ * @example
+ * const unsubscribe = subscribe('beforeSave', (event) => {
+ *   if (event.entityType === 'Opportunity' && !event.attributes.closeDate) {
+ *     event.veto('Close date is required for opportunities');
+ *   }
+ * });
+ */
+
+/**
+ * Emitted before a record (or a batch of records) is saved
+ */
+export interface BeforeSaveEvent {
+  entityType: string;
+  /** Record ID (absent when creating) */
+  recordId?: string;
+  /** Record IDs for mass update */
+  recordIds?: string[];
+  /** Whether the record is being created */
+  isNew: boolean;
+  /** Attributes about to be sent; handlers may modify them in place */
+  attributes: Record<string, unknown>;
+  /** Cancel the save with an optional reason shown to the user */
+  veto: (reason?: string) => void;
+}
+
+/**
+ * Emitted after a record (or a batch of records) was saved
+ */
+export interface AfterSaveEvent {
+  entityType: string;
+  recordId?: string;
+  recordIds?: string[];
+  isNew: boolean;
+  /** Saved attributes (the server response for single records) */
+  attributes: Record<string, unknown>;
+}
+
+/**
+ * Emitted after one or more records were deleted
+ */
+export interface AfterDeleteEvent {
+  entityType: string;
+  recordId?: string;
+  recordIds?: string[];
+}
+
+/**
+ * Emitted when a field value changes in an edit form
+ */
+export interface FieldChangeEvent {
+  entityType: string;
+  recordId?: string;
+  field: string;
+  value: unknown;
+  previousValue: unknown;
+  /** All form attributes after the change */
+  attributes: Record<string, unknown>;
+}
+
+/**
+ * Emitted when a record view has rendered its data
+ */
+export interface ViewRenderedEvent {
+  entityType: string;
+  recordId?: string;
+  viewType: 'detail' | 'edit' | 'create';
+}
+
+export interface RecordEventMap {
+  beforeSave: BeforeSaveEvent;
+  afterSave: AfterSaveEvent;
+  afterDelete: AfterDeleteEvent;
+  fieldChange: FieldChangeEvent;
+  viewRendered: ViewRenderedEvent;
+}
+
+export type RecordEventType = keyof RecordEventMap;
+
+export type RecordEventHandler<K extends RecordEventType> = (
+  event: RecordEventMap[K]
+) => void | Promise<void>;
+
+/**
+ * Handlers a module can declare in its definition
+ */
+export type ModuleEventHandlers = {
+  [K in RecordEventType]?: RecordEventHandler<K>;
+};
+
+export interface BeforeSaveResult {
+  /** Whether a handler vetoed the save */
+  vetoed: boolean;
+  /** Veto reason */
+  reason?: string;
+  /** Attributes after all handlers ran */
+  attributes: Record<string, unknown>;
+}
+
+type AnyHandler = (event: never) => void | Promise<void>;
+
+const listeners = new Map<RecordEventType, Set<AnyHandler>>();
+
+/**
+ * Subscribe to a record event. Returns an unsubscribe function.
+ */
+export function subscribe<K extends RecordEventType>(
+  type: K,
+  handler: RecordEventHandler<K>
+): () => void {
+  let handlers = listeners.get(type);
+  if (!handlers) {
+    handlers = new Set();
+    listeners.set(type, handlers);
+  }
+  handlers.add(handler as AnyHandler);
+
+  return () => {
+    listeners.get(type)?.delete(handler as AnyHandler);
+  };
+}
+
+/**
+ * Run beforeSave handlers in subscription order.
+ * Stops at the first veto; thrown errors count as a veto.
+ */
+export async function emitBeforeSave(
+  payload: Omit<BeforeSaveEvent, 'veto' | 'attributes'> & { attributes: Record<string, unknown> }
+): Promise<BeforeSaveResult> {
+  const handlers = Array.from(listeners.get('beforeSave') ?? []) as RecordEventHandler<'beforeSave'>[];
+  const attributes = { ...payload.attributes };
+  let vetoed = false;
+  let reason: string | undefined;
+
+  const event: BeforeSaveEvent = {
+    ...payload,
+    attributes,
+    veto: (vetoReason?: string) => {
+      vetoed = true;
+      reason = vetoReason;
+    },
+  };
+
+  for (const handler of handlers) {
+    try {
+      await handler(event);
+    } catch (error) {
+      console.error('beforeSave handler failed:', error);
+      vetoed = true;
+      reason = error instanceof Error ? error.message : String(error);
+    }
+    if (vetoed) {
+      return { vetoed, reason, attributes: event.attributes };
+    }
+  }
+
+  return { vetoed: false, attributes: event.attributes };
+}
+
+/**
+ * Notify subscribers of an event. Handlers run without being awaited.
+ */
+export function emit<K extends Exclude<RecordEventType, 'beforeSave'>>(
+  type: K,
+  event: RecordEventMap[K]
+): void {
+  const handlers = Array.from(listeners.get(type) ?? []) as RecordEventHandler<K>[];
+
+  for (const handler of handlers) {
+    try {
+      Promise.resolve(handler(event)).catch((error: unknown) => {
+        console.error(`${type} handler failed:`, error);
+      });
+    } catch (error) {
+      console.error(`${type} handler failed:`, error);
+    }
+  }
+}
+
+/**
+ * Subscribe every handler of a module definition.
+ * Returns a function removing all of them.
+ */
+export function subscribeModuleHandlers(handlers: ModuleEventHandlers): () => void {
+  const unsubscribers: (() => void)[] = [];
+
+  for (const type of Object.keys(handlers) as RecordEventType[]) {
+    const handler = handlers[type];
+    if (handler) {
+      unsubscribers.push(subscribe(type, handler as RecordEventHandler<typeof type>));
+    }
+  }
+
+  return () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+  };
+}
+
+/**
+ * Remove all subscribers (for testing)
+ */
+export function clearEventListeners(): void {
+  listeners.clear();
+}
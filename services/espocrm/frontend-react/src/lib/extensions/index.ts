@@ -27,9 +27,30 @@
  *       showInDetail: true,
  *     }],
  *   },
+ *   routes: [{
+ *     path: 'ReportBuilder',
+ *     component: lazy(() => import('./ReportBuilderPage')),
+ *   }],
+ *   navItems: [{ name: 'ReportBuilder', label: 'Reports', href: '/ReportBuilder' }],
+ *   mapProviders: {
+ *     Vendor: { label: 'Vendor maps', component: VendorMap },
+ *   },
+ *   events: {
+ *     beforeSave: (event) => {
+ *       if (event.entityType === 'MyEntity') event.attributes.source = 'Web';
+ *     },
+ *   },
  * });
  *
  * @example
+ * // Hot-reload a module during development: re-registering replaces its
+ * // contributions and re-renders components using them
+ * registerModule(myModule);
+ * if (import.meta.hot) {
+ *   import.meta.hot.accept();
+ * }
+ *
+ * @example
  * // Use extensions in a component
  * import { useExtensions } from '@/lib/extensions';
  *
@@ -37,6 +58,23 @@
  *   const { actions, sidebarPanels } = useExtensions({ entityType });
  *   // ...
  * }
+ *
+ * @example
+ * // Ship a module as a runtime bundle (see loader.ts for the manifest format)
+ * export default ({ React }) => ({
+ *   name: 'MyCustomModule',
+ *   views: { ... },
+ * });
+ *
+ * @example
+ * // Render a registered view in place of the built-in one
+ * import { useExtensions, ExtensionView } from '@/lib/extensions';
+ *
+ * const { getView } = useExtensions({ entityType });
+ * const customView = getView('detail');
+ * if (customView) {
+ *   return <ExtensionView view={customView} entityType={entityType} recordId={id} mode="detail" />;
+ * }
  */
 
 export {
@@ -45,14 +83,31 @@ export {
   getCustomActions,
   getDashlets,
   getSidebarPanels,
+  getRoutes,
+  getNavItems,
+  getAdminPanels,
   isModuleRegistered,
   getModule,
   getRegisteredModules,
   unregisterModule,
   clearAllRegistries,
+  subscribeToRegistry,
+  getRegistryVersion,
 } from './registry';
 
 export { useExtensions } from './useExtensions';
+export { useRegistryVersion } from './useRegistryVersion';
+export { ExtensionView } from './ExtensionView';
+export { ExtensionLoader } from './ExtensionLoader';
+
+export { subscribe, emit, emitBeforeSave } from './events';
+
+export {
+  getExtensionManifest,
+  loadExtensionModules,
+  resolveBundleUrl,
+  ExtensionManifestEntrySchema,
+} from './loader';
 
 export type {
   ModuleDefinition,
@@ -64,4 +119,31 @@ export type {
   DashletProps,
   SidebarPanelConfig,
   SidebarPanelProps,
+  RouteAccess,
+  RouteConfig,
+  NavItemConfig,
+  AdminPanelConfig,
+  AdminPanelItem,
 } from './registry';
+
+export type {
+  RecordEventMap,
+  RecordEventType,
+  RecordEventHandler,
+  ModuleEventHandlers,
+  BeforeSaveEvent,
+  BeforeSaveResult,
+  AfterSaveEvent,
+  AfterDeleteEvent,
+  FieldChangeEvent,
+  ViewRenderedEvent,
+} from './events';
+
+export type {
+  ExtensionManifestEntry,
+  ExtensionBundle,
+  ExtensionHost,
+  ExtensionLoadError,
+  ExtensionLoadResult,
+  ExtensionImporter,
+} from './loader';
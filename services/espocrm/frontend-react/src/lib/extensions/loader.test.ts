@@ -0,0 +1,134 @@
+/**
+ * Extension Bundle Loader Tests
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  getExtensionManifest,
+  loadExtensionModules,
+  resolveBundleUrl,
+  type ExtensionImporter,
+} from './loader';
+import { clearAllRegistries, isModuleRegistered, getCustomActions } from './registry';
+
+describe('Extension Loader', () => {
+  beforeEach(() => {
+    clearAllRegistries();
+  });
+
+  describe('getExtensionManifest', () => {
+    it('reads reactModuleList from app.client metadata', () => {
+      const manifest = getExtensionManifest({
+        app: {
+          client: {
+            scriptList: ['client/custom/lib/legacy.js'],
+            reactModuleList: [
+              { name: 'Reports', url: 'client/custom/modules/reports/react/index.js', version: '1.2.0' },
+            ],
+          },
+        },
+      });
+
+      expect(manifest).toEqual([
+        { name: 'Reports', url: 'client/custom/modules/reports/react/index.js', version: '1.2.0' },
+      ]);
+    });
+
+    it('returns an empty list when metadata has no manifest', () => {
+      expect(getExtensionManifest({ scopes: {} })).toEqual([]);
+      expect(getExtensionManifest({ app: { client: {} } })).toEqual([]);
+    });
+
+    it('ignores a malformed manifest', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(getExtensionManifest({ app: { client: { reactModuleList: [{ name: 1 }] } } })).toEqual([]);
+      expect(warnSpy).toHaveBeenCalled();
+
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('resolveBundleUrl', () => {
+    it('resolves relative URLs against the document base', () => {
+      const url = resolveBundleUrl({ name: 'Reports', url: 'client/reports.js' });
+      expect(url).toBe(new URL('client/reports.js', document.baseURI).href);
+    });
+
+    it('appends the version for cache busting', () => {
+      const url = resolveBundleUrl({ name: 'Reports', url: '/client/reports.js', version: '2.0.0' });
+      expect(url).toMatch(/\/client\/reports\.js\?v=2\.0\.0$/);
+    });
+  });
+
+  describe('loadExtensionModules', () => {
+    it('registers modules exported as a definition object', async () => {
+      const importer: ExtensionImporter = vi.fn().mockResolvedValue({
+        default: {
+          name: 'Reports',
+          actions: { Account: [{ label: 'Run Report', handler: vi.fn() }] },
+        },
+      });
+
+      const result = await loadExtensionModules(
+        [{ name: 'Reports', url: '/client/reports.js' }],
+        importer
+      );
+
+      expect(result).toEqual({ loaded: ['Reports'], errors: [] });
+      expect(isModuleRegistered('Reports')).toBe(true);
+      expect(getCustomActions('Account')[0]?.label).toBe('Run Report');
+    });
+
+    it('passes the host React instance to factory exports', async () => {
+      const factory = vi.fn(({ React }) => ({
+        name: 'Factory',
+        initialize: () => {
+          expect(typeof React.createElement).toBe('function');
+        },
+      }));
+      const importer: ExtensionImporter = vi.fn().mockResolvedValue({ default: factory });
+
+      const result = await loadExtensionModules([{ name: 'Factory', url: '/factory.js' }], importer);
+
+      expect(factory).toHaveBeenCalledOnce();
+      expect(result.loaded).toEqual(['Factory']);
+    });
+
+    it('collects failures without blocking other modules', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const importer: ExtensionImporter = vi.fn(async (url: string) => {
+        if (url.includes('broken')) {
+          throw new Error('Failed to fetch');
+        }
+        return { default: { name: 'Working' } };
+      });
+
+      const result = await loadExtensionModules(
+        [
+          { name: 'Broken', url: '/broken.js' },
+          { name: 'Working', url: '/working.js' },
+        ],
+        importer
+      );
+
+      expect(result.loaded).toEqual(['Working']);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]?.name).toBe('Broken');
+      expect(result.errors[0]?.error.message).toBe('Failed to fetch');
+      expect(isModuleRegistered('Working')).toBe(true);
+
+      errorSpy.mockRestore();
+    });
+
+    it('reports bundles without a module definition', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const importer: ExtensionImporter = vi.fn().mockResolvedValue({});
+
+      const result = await loadExtensionModules([{ name: 'Empty', url: '/empty.js' }], importer);
+
+      expect(result.errors[0]?.error.message).toBe('Bundle has no default export');
+
+      errorSpy.mockRestore();
+    });
+  });
+});
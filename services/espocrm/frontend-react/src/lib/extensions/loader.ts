@@ -0,0 +1,170 @@
+/**
+ * Extension Bundle Loader
+ *
+ * Loads frontend extension bundles advertised by the backend at runtime,
+ * so modules deployed to custom/Espo/Modules/ can ship React UI without
+ * rebuilding the app.
+ *
+ * Modules advertise their bundle in metadata, e.g. in
+ * `Resources/metadata/app/client.json`:
+ *
+ * @example
+ * {
+ *   "reactModuleList": [
+ *     { "name": "Reports", "url": "client/custom/modules/reports/react/index.js" }
+ *   ]
+ * }
+ *
+ * A bundle is an ES module whose default export is either a
+ * ModuleDefinition or a factory receiving the host's React instance.
+ */
+
+import * as React from 'react';
+import { z } from 'zod';
+import { registerModule, type ModuleDefinition } from './registry';
+
+/**
+ * Manifest entry describing one extension bundle
+ */
+export const ExtensionManifestEntrySchema = z.object({
+  /** Module name (must match backend module name) */
+  name: z.string(),
+  /** URL of the ES module bundle, absolute or relative to the site root */
+  url: z.string(),
+  /** Module version, used for cache busting */
+  version: z.string().optional(),
+});
+
+export type ExtensionManifestEntry = z.infer<typeof ExtensionManifestEntrySchema>;
+
+const ExtensionManifestSchema = z.object({
+  app: z.object({
+    client: z.object({
+      reactModuleList: z.array(ExtensionManifestEntrySchema).optional(),
+    }).passthrough().optional(),
+  }).passthrough().optional(),
+}).passthrough();
+
+/**
+ * Shared host API handed to bundle factories, so bundles can use the
+ * app's React instance instead of bundling their own copy.
+ */
+export interface ExtensionHost {
+  React: typeof React;
+}
+
+/**
+ * Shape of a loaded extension bundle
+ */
+export interface ExtensionBundle {
+  default:
+    | ModuleDefinition
+    | ((host: ExtensionHost) => ModuleDefinition | Promise<ModuleDefinition>);
+}
+
+export interface ExtensionLoadError {
+  /** Module name from the manifest */
+  name: string;
+  /** Bundle URL that failed */
+  url: string;
+  /** Failure reason */
+  error: Error;
+}
+
+export interface ExtensionLoadResult {
+  /** Names of modules that were registered */
+  loaded: string[];
+  /** Modules that failed to load or register */
+  errors: ExtensionLoadError[];
+}
+
+/**
+ * Imports a bundle from a URL
+ */
+export type ExtensionImporter = (url: string) => Promise<ExtensionBundle>;
+
+const defaultImporter: ExtensionImporter = (url) =>
+  import(/* @vite-ignore */ url) as Promise<ExtensionBundle>;
+
+/**
+ * Read the extension manifest from metadata.
+ * Malformed manifests are ignored rather than breaking startup.
+ */
+export function getExtensionManifest(metadata: unknown): ExtensionManifestEntry[] {
+  const parsed = ExtensionManifestSchema.safeParse(metadata);
+  if (!parsed.success) {
+    console.warn('Ignoring malformed extension manifest:', parsed.error.message);
+    return [];
+  }
+  return parsed.data.app?.client?.reactModuleList ?? [];
+}
+
+/**
+ * Resolve a manifest URL against the document base, appending the
+ * version as a query parameter so upgraded modules bypass the cache.
+ */
+export function resolveBundleUrl(entry: ExtensionManifestEntry): string {
+  const url = new URL(entry.url, document.baseURI);
+  if (entry.version) {
+    url.searchParams.set('v', entry.version);
+  }
+  return url.href;
+}
+
+async function loadBundle(
+  entry: ExtensionManifestEntry,
+  importer: ExtensionImporter
+): Promise<void> {
+  const bundle = await importer(resolveBundleUrl(entry));
+  const exported = bundle?.default;
+
+  if (!exported) {
+    throw new Error('Bundle has no default export');
+  }
+
+  const module = typeof exported === 'function' ? await exported({ React }) : exported;
+
+  if (!module?.name) {
+    throw new Error('Bundle did not provide a module definition');
+  }
+  if (module.name !== entry.name) {
+    console.warn(
+      `Extension bundle for "${entry.name}" registered module "${module.name}"`
+    );
+  }
+
+  await registerModule(module);
+}
+
+/**
+ * Load and register every bundle in the manifest.
+ * Bundles load in parallel; failures are collected instead of thrown,
+ * so one broken module does not prevent the app from starting.
+ */
+export async function loadExtensionModules(
+  entries: ExtensionManifestEntry[],
+  importer: ExtensionImporter = defaultImporter
+): Promise<ExtensionLoadResult> {
+  const results = await Promise.allSettled(
+    entries.map((entry) => loadBundle(entry, importer))
+  );
+
+  const loaded: string[] = [];
+  const errors: ExtensionLoadError[] = [];
+
+  results.forEach((result, index) => {
+    const entry = entries[index];
+    if (!entry) return;
+
+    if (result.status === 'fulfilled') {
+      loaded.push(entry.name);
+    } else {
+      const error =
+        result.reason instanceof Error ? result.reason : new Error(String(result.reason));
+      console.error(`Failed to load extension module "${entry.name}":`, error);
+      errors.push({ name: entry.name, url: entry.url, error });
+    }
+  });
+
+  return { loaded, errors };
+}
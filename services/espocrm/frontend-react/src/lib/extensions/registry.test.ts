@@ -8,18 +8,24 @@ import {
   getCustomActions,
   getDashlets,
   getSidebarPanels,
+  getRoutes,
+  getNavItems,
+  getAdminPanels,
   isModuleRegistered,
   getModule,
   getRegisteredModules,
   unregisterModule,
   clearAllRegistries,
+  subscribeToRegistry,
+  getRegistryVersion,
   type ModuleDefinition,
 } from './registry';
-
-// Mock the field registry
-vi.mock('@/fields/registry', () => ({
-  registerField: vi.fn(),
-}));
+import { registerField, getFieldComponent, hasFieldType } from '@/fields/registry';
+import { registerMapProvider, getMapProvider } from '@/lib/map';
+import { createLocalGeocoder, getGeocoder } from '@/lib/geocoding';
+import { getCallHandler, type CallHandler } from '@/lib/phone';
+import type { FieldComponent } from '@/fields/types';
+import { emit } from './events';
 
 describe('Extension Registry', () => {
   beforeEach(() => {
@@ -236,6 +242,58 @@ describe('Extension Registry', () => {
     });
   });
 
+  describe('getRoutes', () => {
+    it('groups routes by access level, defaulting to authenticated', async () => {
+      const Page = () => null;
+
+      await registerModule({
+        name: 'RouteModule',
+        routes: [
+          { path: 'ReportBuilder', component: Page },
+          { path: '/report/:token', component: Page, access: 'public' },
+          { path: 'reportSettings', component: Page, access: 'admin' },
+        ],
+      });
+
+      expect(getRoutes('authenticated').map((r) => r.path)).toEqual(['ReportBuilder']);
+      expect(getRoutes('public').map((r) => r.path)).toEqual(['/report/:token']);
+      expect(getRoutes('admin').map((r) => r.path)).toEqual(['reportSettings']);
+    });
+  });
+
+  describe('getNavItems', () => {
+    it('returns tabs from all modules sorted by order', async () => {
+      await registerModule({
+        name: 'NavModule1',
+        navItems: [{ name: 'Reports', label: 'Reports', href: '/ReportBuilder', order: 20 }],
+      });
+      await registerModule({
+        name: 'NavModule2',
+        navItems: [{ name: 'Maps', label: 'Maps', href: '/Maps', order: 10 }],
+      });
+
+      expect(getNavItems().map((item) => item.name)).toEqual(['Maps', 'Reports']);
+    });
+  });
+
+  describe('getAdminPanels', () => {
+    it('returns admin panel contributions', async () => {
+      await registerModule({
+        name: 'AdminModule',
+        adminPanels: [
+          {
+            group: 'customization',
+            items: [{ name: 'reportSettings', label: 'Reports', path: '/Admin/reportSettings' }],
+          },
+        ],
+      });
+
+      const panels = getAdminPanels();
+      expect(panels).toHaveLength(1);
+      expect(panels[0]?.items[0]?.name).toBe('reportSettings');
+    });
+  });
+
   describe('unregisterModule', () => {
     it('removes module from registry', async () => {
       await registerModule({ name: 'ToRemove' });
@@ -244,6 +302,180 @@ describe('Extension Registry', () => {
       unregisterModule('ToRemove');
       expect(isModuleRegistered('ToRemove')).toBe(false);
     });
+
+    it('removes routes, tabs and admin panels of the module', async () => {
+      await registerModule({
+        name: 'PageModule',
+        routes: [{ path: 'ReportBuilder', component: () => null }],
+        navItems: [{ name: 'Reports', label: 'Reports', href: '/ReportBuilder' }],
+        adminPanels: [{ group: 'reports', items: [] }],
+      });
+
+      unregisterModule('PageModule');
+
+      expect(getRoutes('authenticated')).toEqual([]);
+      expect(getNavItems()).toEqual([]);
+      expect(getAdminPanels()).toEqual([]);
+    });
+  });
+
+  describe('ownership', () => {
+    const BuiltInField: FieldComponent = () => null;
+    const CustomField: FieldComponent = () => null;
+    const OtherField: FieldComponent = () => null;
+
+    it('keeps views and actions of other modules for the same entity', async () => {
+      const First = () => null;
+      const Second = () => null;
+      await registerModule({
+        name: 'First',
+        views: { Account: [{ component: First, type: 'detail' }] },
+        actions: { Account: [{ label: 'First', handler: vi.fn() }] },
+      });
+      await registerModule({
+        name: 'Second',
+        views: { Account: [{ component: Second, type: 'list' }] },
+        actions: { Account: [{ label: 'Second', handler: vi.fn() }] },
+      });
+
+      unregisterModule('Second');
+
+      expect(getCustomView('Account', 'detail')?.component).toBe(First);
+      expect(getCustomView('Account', 'list')).toBeUndefined();
+      expect(getCustomActions('Account').map((a) => a.label)).toEqual(['First']);
+    });
+
+    it('restores the previous field component on unregister', async () => {
+      registerField('varcharTest', BuiltInField);
+      await registerModule({ name: 'First', fieldTypes: { varcharTest: CustomField } });
+      await registerModule({ name: 'Second', fieldTypes: { varcharTest: OtherField, ratingTest: OtherField } });
+
+      expect(getFieldComponent('varcharTest')).toBe(OtherField);
+
+      unregisterModule('First');
+      expect(getFieldComponent('varcharTest')).toBe(OtherField);
+
+      unregisterModule('Second');
+      expect(getFieldComponent('varcharTest')).toBe(BuiltInField);
+      expect(hasFieldType('ratingTest')).toBe(false);
+    });
+
+    it('layers map providers over the built-in ones', async () => {
+      const BuiltInMap = () => null;
+      const VendorMap = () => null;
+      registerMapProvider('TilesTest', { label: 'Tiles', component: BuiltInMap });
+      await registerModule({
+        name: 'Maps',
+        mapProviders: {
+          TilesTest: { label: 'Custom tiles', component: VendorMap },
+          Vendor: { label: 'Vendor', component: VendorMap },
+        },
+      });
+
+      expect(getMapProvider('TilesTest')?.component).toBe(VendorMap);
+      expect(getMapProvider('Vendor')?.label).toBe('Vendor');
+
+      unregisterModule('Maps');
+      expect(getMapProvider('TilesTest')?.component).toBe(BuiltInMap);
+      expect(getMapProvider('Vendor')).toBeUndefined();
+    });
+
+    it('registers geocoders of a module', async () => {
+      const geocoder = createLocalGeocoder([]);
+      await registerModule({ name: 'Geo', geocoders: { LocalTest: geocoder, Nominatim: geocoder } });
+
+      expect(getGeocoder('LocalTest')).toBe(geocoder);
+      expect(getGeocoder('Nominatim')).toBe(geocoder);
+
+      unregisterModule('Geo');
+      expect(getGeocoder('LocalTest')).toBeUndefined();
+      expect(getGeocoder('Nominatim')?.label).toBe('Nominatim');
+    });
+
+    it('registers click-to-call handlers of a module', async () => {
+      const handler: CallHandler = { label: 'Softphone', call: vi.fn() };
+      await registerModule({ name: 'Dialer', callHandlers: { Softphone: handler } });
+      expect(getCallHandler('Softphone')).toBe(handler);
+
+      await registerModule({ name: 'Dialer', callHandlers: {} });
+      expect(getCallHandler('Softphone')).toBeUndefined();
+      expect(getCallHandler('tel')?.label).toBe('Phone link');
+    });
+
+    it('does not let built-in re-initialization override module fields', async () => {
+      await registerModule({ name: 'First', fieldTypes: { varcharTest: CustomField } });
+      registerField('varcharTest', BuiltInField);
+
+      expect(getFieldComponent('varcharTest')).toBe(CustomField);
+    });
+
+    it('replaces all contributions when a module is registered again', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const OldView = () => null;
+      const NewView = () => null;
+      const Panel = () => null;
+
+      await registerModule({
+        name: 'Hot',
+        fieldTypes: { ratingTest: CustomField },
+        views: { Account: [{ component: OldView, type: 'detail' }] },
+        sidebarPanels: { old: { label: 'Old', component: Panel }, kept: { label: 'Kept', component: Panel } },
+        navItems: [{ name: 'Hot', label: 'Hot', href: '/Hot' }],
+      });
+      await registerModule({ name: 'Other', actions: { Account: [{ label: 'Other', handler: vi.fn() }] } });
+      await registerModule({
+        name: 'Hot',
+        views: { Account: [{ component: NewView, type: 'detail' }] },
+        sidebarPanels: { kept: { label: 'Kept', component: Panel } },
+      });
+
+      expect(getCustomView('Account', 'detail')?.component).toBe(NewView);
+      expect(hasFieldType('ratingTest')).toBe(false);
+      expect(getSidebarPanels('Account').map((p) => p.label)).toEqual(['Kept']);
+      expect(getNavItems()).toEqual([]);
+      expect(getRegisteredModules().map((m) => m.name)).toEqual(['Hot', 'Other']);
+    });
+
+    it('notifies subscribers when the registry changes', async () => {
+      const listener = vi.fn();
+      const unsubscribe = subscribeToRegistry(listener);
+      const version = getRegistryVersion();
+
+      await registerModule({ name: 'First' });
+      unregisterModule('First');
+      unsubscribe();
+      await registerModule({ name: 'Second' });
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(getRegistryVersion()).toBe(version + 3);
+    });
+  });
+
+  describe('events', () => {
+    it('subscribes module event handlers and unsubscribes them on unregister', async () => {
+      const afterDelete = vi.fn();
+      await registerModule({ name: 'AuditModule', events: { afterDelete } });
+
+      emit('afterDelete', { entityType: 'Account', recordId: '1' });
+      expect(afterDelete).toHaveBeenCalledTimes(1);
+
+      unregisterModule('AuditModule');
+      emit('afterDelete', { entityType: 'Account', recordId: '2' });
+      expect(afterDelete).toHaveBeenCalledTimes(1);
+    });
+
+    it('replaces handlers when a module is registered again', async () => {
+      const first = vi.fn();
+      const second = vi.fn();
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await registerModule({ name: 'AuditModule', events: { afterDelete: first } });
+      await registerModule({ name: 'AuditModule', events: { afterDelete: second } });
+
+      emit('afterDelete', { entityType: 'Account', recordId: '1' });
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('getRegisteredModules', () => {
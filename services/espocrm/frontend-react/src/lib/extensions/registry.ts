@@ -9,7 +9,15 @@
  */
 
 import type { ComponentType, LazyExoticComponent } from 'react';
+import type { LucideIcon } from 'lucide-react';
 import type { FieldComponent } from '@/fields/types';
+import type { AclAction } from '@/lib/acl';
+import { registerField, unregisterField } from '@/fields/registry';
+import { registerMapProvider, unregisterMapProvider, type MapProvider } from '@/lib/map';
+import { registerGeocoder, unregisterGeocoder, type Geocoder } from '@/lib/geocoding';
+import { registerCallHandler, unregisterCallHandler, type CallHandler } from '@/lib/phone';
+import { subscribeModuleHandlers, clearEventListeners } from './events';
+import type { ModuleEventHandlers } from './events';
 
 /**
  * Custom view configuration for entity-specific views
@@ -18,7 +26,7 @@ export interface ViewConfig {
   /** Component to render */
   component: ComponentType<ViewProps> | LazyExoticComponent<ComponentType<ViewProps>>;
   /** View type (detail, list, edit, etc.) */
-  type: 'detail' | 'list' | 'edit' | 'listSmall' | 'detailSmall' | 'kanban' | 'calendar';
+  type: 'detail' | 'list' | 'edit' | 'listSmall' | 'detailSmall' | 'kanban' | 'calendar' | 'map';
   /** Priority for view selection (higher wins) */
   priority?: number;
 }
@@ -46,7 +54,7 @@ export interface ActionHandler {
   /** Whether to show in detail view */
   showInDetail?: boolean;
   /** ACL action required */
-  acl?: string;
+  acl?: AclAction;
   /** Icon name (lucide icon) */
   icon?: string;
 }
@@ -70,6 +78,12 @@ export interface ModuleDefinition {
   initialize?: () => void | Promise<void>;
   /** Custom field types to register */
   fieldTypes?: Record<string, FieldComponent>;
+  /** Map providers by name, selectable with a map field's `provider` param or the `mapProvider` setting */
+  mapProviders?: Record<string, MapProvider>;
+  /** Address geocoders by name, selectable with the `geocoder` setting */
+  geocoders?: Record<string, Geocoder>;
+  /** Click-to-call handlers (e.g. softphones), selectable with the `phoneCallHandler` setting */
+  callHandlers?: Record<string, CallHandler>;
   /** Custom views by entity type */
   views?: Record<string, ViewConfig[]>;
   /** Custom actions by entity type */
@@ -78,6 +92,14 @@ export interface ModuleDefinition {
   dashlets?: Record<string, DashletConfig>;
   /** Custom sidebar panels */
   sidebarPanels?: Record<string, SidebarPanelConfig>;
+  /** Custom pages */
+  routes?: RouteConfig[];
+  /** Custom navigation tabs */
+  navItems?: NavItemConfig[];
+  /** Custom admin panel entries */
+  adminPanels?: AdminPanelConfig[];
+  /** Record lifecycle event handlers */
+  events?: ModuleEventHandlers;
 }
 
 /**
@@ -116,62 +138,188 @@ export interface SidebarPanelProps {
   data?: Record<string, unknown>;
 }
 
-// Internal registries
+/**
+ * Route access level
+ * - public: mounted outside authentication (like /login)
+ * - authenticated: mounted inside the main layout, path relative to "/"
+ * - admin: mounted inside the admin layout, path relative to "/Admin"
+ */
+export type RouteAccess = 'public' | 'authenticated' | 'admin';
+
+/**
+ * Page route configuration
+ */
+export interface RouteConfig {
+  /** Route path (react-router syntax) */
+  path: string;
+  /** Page component; use React.lazy to load the page on demand */
+  component: ComponentType | LazyExoticComponent<ComponentType>;
+  /** Where the route is mounted (defaults to authenticated) */
+  access?: RouteAccess;
+}
+
+/**
+ * Navigation tab configuration
+ */
+export interface NavItemConfig {
+  /** Unique tab name */
+  name: string;
+  /** Tab label */
+  label: string;
+  /** Link target */
+  href: string;
+  /** Tab icon */
+  icon?: LucideIcon;
+  /** Only show the tab to administrators */
+  adminOnly?: boolean;
+  /** Order among extension tabs */
+  order?: number;
+}
+
+/**
+ * Admin panel contribution
+ */
+export interface AdminPanelConfig {
+  /** Group name; items are appended to an existing group with this name */
+  group: string;
+  /** Group label, used when the group does not exist yet */
+  label?: string;
+  /** Group icon name, used when the group does not exist yet */
+  icon?: string;
+  /** Admin panel entries */
+  items: AdminPanelItem[];
+}
+
+export interface AdminPanelItem {
+  name: string;
+  label: string;
+  /** Full path, e.g. /Admin/reportBuilder */
+  path: string;
+  description?: string;
+}
+
+// Internal registries; contributions are keyed by the owning module so a
+// module can be removed or replaced without touching the others
 const moduleRegistry = new Map<string, ModuleDefinition>();
-const viewRegistry = new Map<string, ViewConfig[]>();
-const actionRegistry = new Map<string, ActionHandler[]>();
+const viewRegistry = new Map<string, Record<string, ViewConfig[]>>();
+const actionRegistry = new Map<string, Record<string, ActionHandler[]>>();
 const dashletRegistry = new Map<string, DashletConfig>();
 const sidebarPanelRegistry = new Map<string, SidebarPanelConfig>();
+const routeRegistry = new Map<string, RouteConfig[]>();
+const navItemRegistry = new Map<string, NavItemConfig[]>();
+const adminPanelRegistry = new Map<string, AdminPanelConfig[]>();
+const eventUnsubscribers = new Map<string, () => void>();
+
+// Change notification for components rendering registry contents
+let registryVersion = 0;
+const registryListeners = new Set<() => void>();
+
+function notifyRegistryChange(): void {
+  registryVersion++;
+  registryListeners.forEach((listener) => listener());
+}
+
+/**
+ * Set or remove a module's entry in a module-keyed registry
+ */
+function setModuleEntry<T>(registry: Map<string, T>, moduleName: string, value: T | undefined): void {
+  if (value) {
+    registry.set(moduleName, value);
+  } else {
+    registry.delete(moduleName);
+  }
+}
 
 /**
- * Register a custom module
+ * Replace a module's entries in a registry keyed by `${module}:${name}`.
+ * Entries kept across re-registration keep their position.
+ */
+function setNamedEntries<T>(
+  registry: Map<string, T>,
+  moduleName: string,
+  entries: Record<string, T> | undefined
+): void {
+  const prefix = `${moduleName}:`;
+  for (const key of Array.from(registry.keys())) {
+    if (key.startsWith(prefix) && !entries?.[key.slice(prefix.length)]) {
+      registry.delete(key);
+    }
+  }
+  for (const [name, config] of Object.entries(entries ?? {})) {
+    registry.set(`${prefix}${name}`, config);
+  }
+}
+
+/**
+ * Register a custom module.
+ * Registering a module again replaces all of its previous contributions,
+ * which is what hot module replacement relies on.
  */
 export async function registerModule(module: ModuleDefinition): Promise<void> {
-  if (moduleRegistry.has(module.name)) {
+  const previous = moduleRegistry.get(module.name);
+  if (previous) {
     console.warn(`Module "${module.name}" is already registered, updating...`);
   }
 
   moduleRegistry.set(module.name, module);
 
-  // Register field types
-  if (module.fieldTypes) {
-    const { registerField } = await import('@/fields/registry');
-    for (const [type, component] of Object.entries(module.fieldTypes)) {
-      registerField(type, component);
+  // Register field types, removing those the previous version had
+  for (const type of Object.keys(previous?.fieldTypes ?? {})) {
+    if (!module.fieldTypes?.[type]) {
+      unregisterField(type, module.name);
     }
   }
+  for (const [type, component] of Object.entries(module.fieldTypes ?? {})) {
+    registerField(type, component, module.name);
+  }
 
-  // Register views
-  if (module.views) {
-    for (const [entityType, views] of Object.entries(module.views)) {
-      const key = entityType;
-      const existing = viewRegistry.get(key) ?? [];
-      viewRegistry.set(key, [...existing, ...views]);
+  // Same for map providers
+  for (const name of Object.keys(previous?.mapProviders ?? {})) {
+    if (!module.mapProviders?.[name]) {
+      unregisterMapProvider(name, module.name);
     }
   }
+  for (const [name, provider] of Object.entries(module.mapProviders ?? {})) {
+    registerMapProvider(name, provider, module.name);
+  }
 
-  // Register actions
-  if (module.actions) {
-    for (const [entityType, actions] of Object.entries(module.actions)) {
-      const existing = actionRegistry.get(entityType) ?? [];
-      actionRegistry.set(entityType, [...existing, ...actions]);
+  // And geocoders
+  for (const name of Object.keys(previous?.geocoders ?? {})) {
+    if (!module.geocoders?.[name]) {
+      unregisterGeocoder(name, module.name);
     }
   }
+  for (const [name, geocoder] of Object.entries(module.geocoders ?? {})) {
+    registerGeocoder(name, geocoder, module.name);
+  }
 
-  // Register dashlets
-  if (module.dashlets) {
-    for (const [name, config] of Object.entries(module.dashlets)) {
-      dashletRegistry.set(`${module.name}:${name}`, config);
+  // And click-to-call handlers
+  for (const name of Object.keys(previous?.callHandlers ?? {})) {
+    if (!module.callHandlers?.[name]) {
+      unregisterCallHandler(name, module.name);
     }
   }
+  for (const [name, handler] of Object.entries(module.callHandlers ?? {})) {
+    registerCallHandler(name, handler, module.name);
+  }
 
-  // Register sidebar panels
-  if (module.sidebarPanels) {
-    for (const [name, config] of Object.entries(module.sidebarPanels)) {
-      sidebarPanelRegistry.set(`${module.name}:${name}`, config);
-    }
+  setModuleEntry(viewRegistry, module.name, module.views);
+  setModuleEntry(actionRegistry, module.name, module.actions);
+  setNamedEntries(dashletRegistry, module.name, module.dashlets);
+  setNamedEntries(sidebarPanelRegistry, module.name, module.sidebarPanels);
+  setModuleEntry(routeRegistry, module.name, module.routes);
+  setModuleEntry(navItemRegistry, module.name, module.navItems);
+  setModuleEntry(adminPanelRegistry, module.name, module.adminPanels);
+
+  // Subscribe event handlers, replacing those of a previous registration
+  eventUnsubscribers.get(module.name)?.();
+  eventUnsubscribers.delete(module.name);
+  if (module.events) {
+    eventUnsubscribers.set(module.name, subscribeModuleHandlers(module.events));
   }
 
+  notifyRegistryChange();
+
   // Call module initializer
   if (module.initialize) {
     await module.initialize();
@@ -185,7 +333,7 @@ export function getCustomView(
   entityType: string,
   viewType: ViewConfig['type']
 ): ViewConfig | undefined {
-  const views = viewRegistry.get(entityType) ?? [];
+  const views = Array.from(viewRegistry.values()).flatMap((moduleViews) => moduleViews[entityType] ?? []);
   const matching = views
     .filter((v) => v.type === viewType)
     .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
@@ -196,7 +344,7 @@ export function getCustomView(
  * Get custom actions for an entity type
  */
 export function getCustomActions(entityType: string): ActionHandler[] {
-  return actionRegistry.get(entityType) ?? [];
+  return Array.from(actionRegistry.values()).flatMap((moduleActions) => moduleActions[entityType] ?? []);
 }
 
 /**
@@ -219,6 +367,36 @@ export function getSidebarPanels(entityType: string): SidebarPanelConfig[] {
   return panels.sort((a, b) => (a.order ?? 50) - (b.order ?? 50));
 }
 
+/**
+ * Get routes for an access level
+ */
+export function getRoutes(access: RouteAccess): RouteConfig[] {
+  const routes: RouteConfig[] = [];
+  for (const moduleRoutes of routeRegistry.values()) {
+    for (const route of moduleRoutes) {
+      if ((route.access ?? 'authenticated') === access) {
+        routes.push(route);
+      }
+    }
+  }
+  return routes;
+}
+
+/**
+ * Get navigation tabs
+ */
+export function getNavItems(): NavItemConfig[] {
+  const items = Array.from(navItemRegistry.values()).flat();
+  return items.sort((a, b) => (a.order ?? 50) - (b.order ?? 50));
+}
+
+/**
+ * Get admin panel contributions
+ */
+export function getAdminPanels(): AdminPanelConfig[] {
+  return Array.from(adminPanelRegistry.values()).flat();
+}
+
 /**
  * Check if a module is registered
  */
@@ -241,50 +419,85 @@ export function getRegisteredModules(): ModuleDefinition[] {
 }
 
 /**
- * Unregister a module (for testing/hot-reloading)
+ * Subscribe to registry changes. Returns an unsubscribe function.
+ */
+export function subscribeToRegistry(listener: () => void): () => void {
+  registryListeners.add(listener);
+  return () => {
+    registryListeners.delete(listener);
+  };
+}
+
+/**
+ * Get a number that changes whenever the registry changes
+ */
+export function getRegistryVersion(): number {
+  return registryVersion;
+}
+
+/**
+ * Unregister a module (for testing/hot-reloading).
+ * Removes only this module's contributions.
  */
 export function unregisterModule(name: string): void {
   const module = moduleRegistry.get(name);
   if (!module) return;
 
-  // Clean up views
-  if (module.views) {
-    for (const entityType of Object.keys(module.views)) {
-      viewRegistry.delete(entityType);
-    }
+  for (const type of Object.keys(module.fieldTypes ?? {})) {
+    unregisterField(type, name);
   }
-
-  // Clean up actions
-  if (module.actions) {
-    for (const entityType of Object.keys(module.actions)) {
-      actionRegistry.delete(entityType);
-    }
+  for (const providerName of Object.keys(module.mapProviders ?? {})) {
+    unregisterMapProvider(providerName, name);
   }
-
-  // Clean up dashlets
-  if (module.dashlets) {
-    for (const name of Object.keys(module.dashlets)) {
-      dashletRegistry.delete(`${module.name}:${name}`);
-    }
+  for (const geocoderName of Object.keys(module.geocoders ?? {})) {
+    unregisterGeocoder(geocoderName, name);
   }
-
-  // Clean up sidebar panels
-  if (module.sidebarPanels) {
-    for (const panelName of Object.keys(module.sidebarPanels)) {
-      sidebarPanelRegistry.delete(`${module.name}:${panelName}`);
-    }
+  for (const handlerName of Object.keys(module.callHandlers ?? {})) {
+    unregisterCallHandler(handlerName, name);
   }
 
+  viewRegistry.delete(name);
+  actionRegistry.delete(name);
+  setNamedEntries(dashletRegistry, name, undefined);
+  setNamedEntries(sidebarPanelRegistry, name, undefined);
+  routeRegistry.delete(name);
+  navItemRegistry.delete(name);
+  adminPanelRegistry.delete(name);
+
+  eventUnsubscribers.get(name)?.();
+  eventUnsubscribers.delete(name);
+
   moduleRegistry.delete(name);
+  notifyRegistryChange();
 }
 
 /**
  * Clear all registries (for testing)
  */
 export function clearAllRegistries(): void {
+  for (const module of moduleRegistry.values()) {
+    for (const type of Object.keys(module.fieldTypes ?? {})) {
+      unregisterField(type, module.name);
+    }
+    for (const name of Object.keys(module.mapProviders ?? {})) {
+      unregisterMapProvider(name, module.name);
+    }
+    for (const name of Object.keys(module.geocoders ?? {})) {
+      unregisterGeocoder(name, module.name);
+    }
+    for (const name of Object.keys(module.callHandlers ?? {})) {
+      unregisterCallHandler(name, module.name);
+    }
+  }
   moduleRegistry.clear();
   viewRegistry.clear();
   actionRegistry.clear();
   dashletRegistry.clear();
   sidebarPanelRegistry.clear();
+  routeRegistry.clear();
+  navItemRegistry.clear();
+  adminPanelRegistry.clear();
+  eventUnsubscribers.clear();
+  clearEventListeners();
+  notifyRegistryChange();
 }
@@ -15,6 +15,7 @@ import {
   type SidebarPanelConfig,
   type DashletConfig,
 } from './registry';
+import { useRegistryVersion } from './useRegistryVersion';
 
 interface UseExtensionsOptions {
   entityType?: string;
@@ -40,42 +41,22 @@ interface UseExtensionsResult {
  */
 export function useExtensions(options: UseExtensionsOptions = {}): UseExtensionsResult {
   const { entityType } = options;
-
-  const getView = useMemo(() => {
-    return (type: ViewConfig['type']): ViewConfig | undefined => {
-      if (!entityType) return undefined;
-      return getCustomView(entityType, type);
+  const version = useRegistryVersion();
+
+  return useMemo(() => {
+    const actions = entityType ? getCustomActions(entityType) : [];
+
+    return {
+      getView: (type: ViewConfig['type']): ViewConfig | undefined => {
+        if (!entityType) return undefined;
+        return getCustomView(entityType, type);
+      },
+      actions,
+      listActions: actions.filter((a) => a.showInList !== false),
+      detailActions: actions.filter((a) => a.showInDetail !== false),
+      sidebarPanels: entityType ? getSidebarPanels(entityType) : [],
+      dashlets: getDashlets(),
     };
-  }, [entityType]);
-
-  const actions = useMemo(() => {
-    if (!entityType) return [];
-    return getCustomActions(entityType);
-  }, [entityType]);
-
-  const listActions = useMemo(() => {
-    return actions.filter((a) => a.showInList !== false);
-  }, [actions]);
-
-  const detailActions = useMemo(() => {
-    return actions.filter((a) => a.showInDetail !== false);
-  }, [actions]);
-
-  const sidebarPanels = useMemo(() => {
-    if (!entityType) return [];
-    return getSidebarPanels(entityType);
-  }, [entityType]);
-
-  const dashlets = useMemo(() => {
-    return getDashlets();
-  }, []);
-
-  return {
-    getView,
-    actions,
-    listActions,
-    detailActions,
-    sidebarPanels,
-    dashlets,
-  };
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- recompute when the registry changes
+  }, [entityType, version]);
 }
@@ -0,0 +1,17 @@
+/**
+ * useRegistryVersion Hook
+ *
+ * Re-renders the calling component whenever a module is registered,
+ * replaced or removed, so hot-reloaded extension components show up
+ * without a page reload.
+ */
+
+import { useSyncExternalStore } from 'react';
+import { subscribeToRegistry, getRegistryVersion } from './registry';
+
+/**
+ * Get the current registry version, subscribing to changes
+ */
+export function useRegistryVersion(): number {
+  return useSyncExternalStore(subscribeToRegistry, getRegistryVersion, getRegistryVersion);
+}
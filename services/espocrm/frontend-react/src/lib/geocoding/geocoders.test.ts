@@ -0,0 +1,109 @@
+/**
+ * Geocoder Tests
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createLocalGeocoder } from './localGeocoder';
+import { nominatimGeocoder } from './nominatim';
+import { DEFAULT_GEOCODER_SETTINGS, getGeocoderSettings } from './settings';
+
+const settings = { ...DEFAULT_GEOCODER_SETTINGS, geocoder: 'Nominatim', url: 'https://geo.internal/' };
+
+describe('createLocalGeocoder', () => {
+  const geocoder = createLocalGeocoder([
+    { label: '1 Main St, Springfield, IL', street: '1 Main St', city: 'Springfield', postalCode: '62701', countryCode: 'US' },
+    { label: '1 Main St, Springfield, MA', street: '1 Main St', city: 'Springfield', postalCode: '01103', countryCode: 'US' },
+    { label: '1 Main St, Toronto', street: '1 Main St', city: 'Toronto', postalCode: 'M5V 1A1', countryCode: 'CA' },
+  ]);
+
+  it('suggests addresses containing all typed words', async () => {
+    expect(await geocoder.suggest('main springfield', { settings })).toHaveLength(2);
+    expect(await geocoder.suggest('main', { settings, countryCode: 'CA' })).toEqual([
+      expect.objectContaining({ city: 'Toronto' }),
+    ]);
+    expect(await geocoder.suggest('main', { settings: { ...settings, limit: 1 } })).toHaveLength(1);
+  });
+
+  it('completes an address by street and postal code', async () => {
+    expect(await geocoder.geocode?.({ street: '1 main st', postalCode: '01103' }, { settings })).toEqual(
+      expect.objectContaining({ label: '1 Main St, Springfield, MA' })
+    );
+    expect(await geocoder.geocode?.({ city: 'Springfield' }, { settings })).toBeNull();
+  });
+});
+
+describe('nominatimGeocoder', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const place = {
+    place_id: 1,
+    lat: '48.8583',
+    lon: '2.2945',
+    display_name: 'Tour Eiffel, 5, Avenue Anatole France, Paris, 75007, France',
+    address: {
+      house_number: '5',
+      road: 'Avenue Anatole France',
+      city: 'Paris',
+      state: 'Île-de-France',
+      postcode: '75007',
+      country: 'France',
+      country_code: 'fr',
+    },
+  };
+
+  it('searches the configured service', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve([place]) });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const [result] = await nominatimGeocoder.suggest('eiffel', { settings, countryCode: 'FR' });
+
+    const url = new URL(fetchMock.mock.calls[0]?.[0] as string);
+    expect(url.origin + url.pathname).toBe('https://geo.internal/search');
+    expect(url.searchParams.get('q')).toBe('eiffel');
+    expect(url.searchParams.get('countrycodes')).toBe('fr');
+    expect(url.searchParams.get('limit')).toBe('5');
+    expect(result).toEqual({
+      label: place.display_name,
+      street: '5 Avenue Anatole France',
+      city: 'Paris',
+      state: 'Île-de-France',
+      postalCode: '75007',
+      country: 'France',
+      countryCode: 'FR',
+      latitude: 48.8583,
+      longitude: 2.2945,
+    });
+  });
+
+  it('looks up structured addresses', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve([place]) });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await nominatimGeocoder.geocode?.({ street: '5 Avenue Anatole France', city: 'Paris' }, { settings });
+
+    const url = new URL(fetchMock.mock.calls[0]?.[0] as string);
+    expect(url.searchParams.get('street')).toBe('5 Avenue Anatole France');
+    expect(url.searchParams.get('city')).toBe('Paris');
+    expect(url.searchParams.get('limit')).toBe('1');
+    expect(result?.postalCode).toBe('75007');
+  });
+
+  it('fails without a URL or on errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 503 }));
+
+    await expect(nominatimGeocoder.suggest('x', { settings: { ...settings, url: '' } })).rejects.toThrow(
+      'Geocoder URL is not configured'
+    );
+    await expect(nominatimGeocoder.suggest('x', { settings })).rejects.toThrow('Geocoder request failed (503)');
+  });
+});
+
+describe('getGeocoderSettings', () => {
+  it('reads the geocoder settings', () => {
+    expect(getGeocoderSettings(null)).toEqual(DEFAULT_GEOCODER_SETTINGS);
+    expect(
+      getGeocoderSettings({ geocoder: 'Nominatim', geocoderUrl: 'https://geo.internal', geocoderLimit: 8 })
+    ).toEqual({ geocoder: 'Nominatim', url: 'https://geo.internal', minQueryLength: 3, limit: 8 });
+  });
+});
@@ -0,0 +1,20 @@
+/**
+ * Geocoding Module
+ *
+ * Address autocomplete, completion and normalization for AddressField.
+ */
+
+export type { GeocodedAddress, GeocoderSettings, GeocodeOptions, Geocoder } from './types';
+export {
+  getCountryCode,
+  getCountryName,
+  normalizeCountry,
+  normalizeState,
+  normalizePostalCode,
+  normalizeAddress,
+} from './normalize';
+export { nominatimGeocoder } from './nominatim';
+export { createLocalGeocoder } from './localGeocoder';
+export { DEFAULT_GEOCODER_SETTINGS, getGeocoderSettings } from './settings';
+export { registerGeocoder, unregisterGeocoder, getGeocoder } from './registry';
+export { useGeocoder, useAddressSuggestions, type UseAddressSuggestionsOptions } from './useGeocoder';
@@ -0,0 +1,47 @@
+/**
+ * Geocoder over a fixed list of addresses
+ *
+ * Stands in for a real service in tests and demos, and works for small
+ * offline address books.
+ */
+import type { AddressValue } from '@/fields/types';
+import type { GeocodedAddress, Geocoder } from './types';
+
+function simplify(text: string | undefined): string {
+  return (text ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function searchText(address: GeocodedAddress): string {
+  return simplify([address.label, address.street, address.city, address.postalCode, address.country].join(' '));
+}
+
+/**
+ * Create a geocoder that searches the given addresses
+ */
+export function createLocalGeocoder(addresses: GeocodedAddress[], label = 'Local'): Geocoder {
+  return {
+    label,
+    suggest: (query, { countryCode, settings }) => {
+      const words = simplify(query).split(' ').filter(Boolean);
+      const matches = addresses.filter(
+        (address) =>
+          (!countryCode || !address.countryCode || address.countryCode === countryCode) &&
+          words.every((word) => searchText(address).includes(word))
+      );
+      return Promise.resolve(matches.slice(0, settings.limit));
+    },
+    geocode: (address: AddressValue) => {
+      const street = simplify(address.street);
+      const postalCode = simplify(address.postalCode);
+      const city = simplify(address.city);
+      const match = addresses.find(
+        (candidate) =>
+          (!street || simplify(candidate.street) === street) &&
+          (!postalCode || simplify(candidate.postalCode) === postalCode) &&
+          (!city || simplify(candidate.city) === city) &&
+          (street || postalCode)
+      );
+      return Promise.resolve(match ?? null);
+    },
+  };
+}
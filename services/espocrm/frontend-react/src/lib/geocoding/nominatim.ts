@@ -0,0 +1,73 @@
+/**
+ * Geocoder for the Nominatim API, e.g. a self-hosted instance set as the
+ * `geocoderUrl` setting
+ *
+ * Requests go straight to the service with `fetch`, so the CRM's auth
+ * headers are never sent to it.
+ */
+import type { AddressValue } from '@/fields/types';
+import type { GeocodedAddress, GeocodeOptions, Geocoder } from './types';
+
+interface NominatimPlace {
+  place_id: number | string;
+  lat: string;
+  lon: string;
+  display_name: string;
+  address?: Record<string, string | undefined>;
+}
+
+function toAddress(place: NominatimPlace): GeocodedAddress {
+  const parts = place.address ?? {};
+  const street = [parts.house_number, parts.road ?? parts.pedestrian].filter(Boolean).join(' ');
+  const countryCode = parts.country_code?.toUpperCase();
+  return {
+    label: place.display_name,
+    street,
+    city: parts.city ?? parts.town ?? parts.village ?? parts.municipality ?? '',
+    state: parts.state ?? '',
+    postalCode: parts.postcode ?? '',
+    country: parts.country ?? '',
+    countryCode,
+    latitude: parseFloat(place.lat),
+    longitude: parseFloat(place.lon),
+  };
+}
+
+async function search(params: Record<string, string>, { settings, countryCode, signal }: GeocodeOptions): Promise<GeocodedAddress[]> {
+  if (!settings.url) {
+    throw new Error('Geocoder URL is not configured');
+  }
+
+  const query = new URLSearchParams({ format: 'jsonv2', addressdetails: '1', limit: String(settings.limit), ...params });
+  if (countryCode) {
+    query.set('countrycodes', countryCode.toLowerCase());
+  }
+
+  const response = await fetch(`${settings.url.replace(/\/+$/, '')}/search?${query.toString()}`, {
+    headers: { Accept: 'application/json' },
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`Geocoder request failed (${response.status})`);
+  }
+
+  const places = (await response.json()) as NominatimPlace[];
+  return places.map(toAddress);
+}
+
+export const nominatimGeocoder: Geocoder = {
+  label: 'Nominatim',
+  suggest: (query, options) => search({ q: query }, options),
+  geocode: async (address: AddressValue, options) => {
+    const params: Record<string, string> = {};
+    if (address.street) params.street = address.street;
+    if (address.city) params.city = address.city;
+    if (address.state) params.state = address.state;
+    if (address.postalCode) params.postalcode = address.postalCode;
+    if (address.country && !options.countryCode) params.country = address.country;
+    if (Object.keys(params).length === 0) return null;
+
+    const [first] = await search(params, { ...options, settings: { ...options.settings, limit: 1 } });
+    return first ?? null;
+  },
+};
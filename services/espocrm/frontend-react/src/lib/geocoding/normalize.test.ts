@@ -0,0 +1,65 @@
+/**
+ * Address Normalization Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { getCountryCode, normalizeAddress, normalizeCountry, normalizePostalCode, normalizeState } from './normalize';
+
+describe('countries', () => {
+  it('recognizes names, codes and aliases', () => {
+    expect(getCountryCode('Germany')).toBe('DE');
+    expect(getCountryCode('de')).toBe('DE');
+    expect(getCountryCode('U.S.A.')).toBe('US');
+    expect(getCountryCode('  united   kingdom ')).toBe('GB');
+    expect(getCountryCode('España')).toBe('ES');
+    expect(getCountryCode('Atlantis')).toBeNull();
+  });
+
+  it('stores the English name', () => {
+    expect(normalizeCountry('usa')).toBe('United States');
+    expect(normalizeCountry('FR')).toBe('France');
+    expect(normalizeCountry(' Atlantis ')).toBe('Atlantis');
+  });
+});
+
+describe('states', () => {
+  it('uses postal abbreviations where countries have them', () => {
+    expect(normalizeState('california', 'US')).toBe('CA');
+    expect(normalizeState('on', 'CA')).toBe('ON');
+    expect(normalizeState('New South Wales', 'AU')).toBe('NSW');
+  });
+
+  it('keeps other states as typed', () => {
+    expect(normalizeState(' Bavaria ', 'DE')).toBe('Bavaria');
+    expect(normalizeState('Narnia', 'US')).toBe('Narnia');
+  });
+});
+
+describe('postal codes', () => {
+  it('formats Canadian and British codes', () => {
+    expect(normalizePostalCode('k1a0b1', 'CA')).toBe('K1A 0B1');
+    expect(normalizePostalCode('sw1a2aa', 'GB')).toBe('SW1A 2AA');
+    expect(normalizePostalCode(' 10001 ', 'US')).toBe('10001');
+  });
+});
+
+describe('normalizeAddress', () => {
+  it('normalizes all parts and keeps the others', () => {
+    expect(
+      normalizeAddress({
+        street: ' 1 Main St ',
+        city: 'Springfield ',
+        state: 'illinois',
+        postalCode: '62701',
+        country: 'United States of America',
+        latitude: 39.8,
+      })
+    ).toEqual({
+      street: '1 Main St',
+      city: 'Springfield',
+      state: 'IL',
+      postalCode: '62701',
+      country: 'United States',
+      latitude: 39.8,
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Address normalization
+ *
+ * Countries are stored by their English name and states of countries with
+ * postal abbreviations (US, CA, AU) by code, so "usa", "U.S." and "United
+ * States of America" all end up as "United States".
+ */
+import type { AddressValue } from '@/fields/types';
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  usa: 'US',
+  us: 'US',
+  'united states of america': 'US',
+  america: 'US',
+  uk: 'GB',
+  'great britain': 'GB',
+  england: 'GB',
+  scotland: 'GB',
+  wales: 'GB',
+  'northern ireland': 'GB',
+  holland: 'NL',
+  'the netherlands': 'NL',
+  deutschland: 'DE',
+  espana: 'ES',
+  españa: 'ES',
+  russia: 'RU',
+  'south korea': 'KR',
+  korea: 'KR',
+  'czech republic': 'CZ',
+  uae: 'AE',
+};
+
+const STATE_CODES: Record<string, Record<string, string>> = {
+  US: {
+    AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California', CO: 'Colorado',
+    CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia', FL: 'Florida', GA: 'Georgia',
+    HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois', IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky',
+    LA: 'Louisiana', ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota',
+    MS: 'Mississippi', MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire',
+    NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York', NC: 'North Carolina', ND: 'North Dakota',
+    OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania', RI: 'Rhode Island',
+    SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas', UT: 'Utah', VT: 'Vermont',
+    VA: 'Virginia', WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming',
+    PR: 'Puerto Rico',
+  },
+  CA: {
+    AB: 'Alberta', BC: 'British Columbia', MB: 'Manitoba', NB: 'New Brunswick',
+    NL: 'Newfoundland and Labrador', NS: 'Nova Scotia', NT: 'Northwest Territories', NU: 'Nunavut',
+    ON: 'Ontario', PE: 'Prince Edward Island', QC: 'Quebec', SK: 'Saskatchewan', YT: 'Yukon',
+  },
+  AU: {
+    ACT: 'Australian Capital Territory', NSW: 'New South Wales', NT: 'Northern Territory',
+    QLD: 'Queensland', SA: 'South Australia', TAS: 'Tasmania', VIC: 'Victoria', WA: 'Western Australia',
+  },
+};
+
+// Lower-cased names and codes by country code, built on first use
+let countryLookup: Map<string, string> | null = null;
+let regionNames: Intl.DisplayNames | null = null;
+
+function getRegionNames(): Intl.DisplayNames {
+  regionNames ??= new Intl.DisplayNames(['en'], { type: 'region', fallback: 'none' });
+  return regionNames;
+}
+
+function simplify(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[.]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function getCountryLookup(): Map<string, string> {
+  if (countryLookup) return countryLookup;
+
+  const lookup = new Map<string, string>();
+  const names = getRegionNames();
+  for (let first = 65; first <= 90; first++) {
+    for (let second = 65; second <= 90; second++) {
+      const code = String.fromCharCode(first, second);
+      const name = names.of(code);
+      // Deprecated codes (DD, UK, ...) canonicalize to the current ones
+      if (name && name !== code && new Intl.Locale(`und-${code}`).region === code) {
+        lookup.set(simplify(name), code);
+        lookup.set(code.toLowerCase(), code);
+      }
+    }
+  }
+  for (const [alias, code] of Object.entries(COUNTRY_ALIASES)) {
+    lookup.set(simplify(alias), code);
+  }
+
+  countryLookup = lookup;
+  return lookup;
+}
+
+/**
+ * ISO 3166-1 alpha-2 code of a country name, alias or code; null if unknown
+ */
+export function getCountryCode(country: string | undefined): string | null {
+  if (!country?.trim()) return null;
+  return getCountryLookup().get(simplify(country)) ?? null;
+}
+
+/**
+ * English name of a country code
+ */
+export function getCountryName(code: string): string {
+  return getRegionNames().of(code.toUpperCase()) ?? code;
+}
+
+/**
+ * Canonical country name; unknown values are returned trimmed
+ */
+export function normalizeCountry(country: string | undefined): string {
+  const code = getCountryCode(country);
+  return code ? getCountryName(code) : (country ?? '').trim();
+}
+
+/**
+ * State code for countries using postal abbreviations; other values are
+ * returned trimmed
+ */
+export function normalizeState(state: string | undefined, countryCode: string | null): string {
+  const value = (state ?? '').trim();
+  const states = countryCode ? STATE_CODES[countryCode] : undefined;
+  if (!value || !states) return value;
+
+  const simplified = simplify(value);
+  for (const [code, name] of Object.entries(states)) {
+    if (simplified === code.toLowerCase() || simplified === simplify(name)) {
+      return code;
+    }
+  }
+  return value;
+}
+
+/**
+ * Postal code with consistent spacing and letter case
+ */
+export function normalizePostalCode(postalCode: string | undefined, countryCode: string | null): string {
+  const value = (postalCode ?? '').trim().replace(/\s+/g, ' ').toUpperCase();
+  // Canadian and British codes have a space before the last three characters
+  if ((countryCode === 'CA' || countryCode === 'GB') && /^[A-Z0-9]{5,7}$/.test(value)) {
+    return `${value.slice(0, -3)} ${value.slice(-3)}`;
+  }
+  return value;
+}
+
+/**
+ * Address with normalized country, state and postal code and trimmed parts
+ */
+export function normalizeAddress<T extends AddressValue>(address: T): T {
+  const countryCode = getCountryCode(address.country);
+  return {
+    ...address,
+    street: (address.street ?? '').trim(),
+    city: (address.city ?? '').trim(),
+    state: normalizeState(address.state, countryCode),
+    postalCode: normalizePostalCode(address.postalCode, countryCode),
+    country: normalizeCountry(address.country),
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Geocoder registry
+ *
+ * Geocoders are looked up by the `geocoder` setting. Geocoders registered by
+ * an extension module are layered over the built-in ones and can be removed
+ * again with unregisterGeocoder.
+ */
+import { createLayeredRegistry } from '@/lib/utils/layeredRegistry';
+import { nominatimGeocoder } from './nominatim';
+import type { Geocoder } from './types';
+
+const geocoders = createLayeredRegistry<Geocoder>({
+  Nominatim: nominatimGeocoder,
+});
+
+/**
+ * Register a geocoder.
+ * Pass an owner (module name) to layer it over a built-in geocoder.
+ */
+export function registerGeocoder(name: string, geocoder: Geocoder, owner?: string): void {
+  geocoders.register(name, geocoder, owner);
+}
+
+/**
+ * Remove a geocoder registered by an owner
+ */
+export function unregisterGeocoder(name: string, owner: string): void {
+  geocoders.unregister(name, owner);
+}
+
+/**
+ * Get a geocoder by name
+ */
+export function getGeocoder(name: string): Geocoder | undefined {
+  return geocoders.get(name);
+}
@@ -0,0 +1,31 @@
+/**
+ * Geocoder settings
+ *
+ * - `geocoder`: geocoder name, e.g. `Nominatim`; address lookups are off when not set
+ * - `geocoderUrl`: service URL for HTTP geocoders
+ * - `geocoderMinQueryLength`, `geocoderLimit`: autocomplete tuning
+ */
+import type { GeocoderSettings } from './types';
+
+export const DEFAULT_GEOCODER_SETTINGS: GeocoderSettings = {
+  geocoder: '',
+  url: '',
+  minQueryLength: 3,
+  limit: 5,
+};
+
+/**
+ * Geocoder settings from the application settings, with defaults for missing ones
+ */
+export function getGeocoderSettings(settings: Record<string, unknown> | null | undefined): GeocoderSettings {
+  const source = settings ?? {};
+  const number = (value: unknown, fallback: number): number =>
+    typeof value === 'number' && value > 0 ? value : fallback;
+
+  return {
+    geocoder: typeof source.geocoder === 'string' ? source.geocoder : DEFAULT_GEOCODER_SETTINGS.geocoder,
+    url: typeof source.geocoderUrl === 'string' ? source.geocoderUrl : DEFAULT_GEOCODER_SETTINGS.url,
+    minQueryLength: number(source.geocoderMinQueryLength, DEFAULT_GEOCODER_SETTINGS.minQueryLength),
+    limit: number(source.geocoderLimit, DEFAULT_GEOCODER_SETTINGS.limit),
+  };
+}
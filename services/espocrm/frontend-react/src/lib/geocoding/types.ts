@@ -0,0 +1,45 @@
+import type { AddressValue } from '@/fields/types';
+
+/**
+ * A complete address found by a geocoder
+ */
+export interface GeocodedAddress extends AddressValue {
+  /** One-line text shown in suggestions */
+  label: string;
+  /** ISO 3166-1 alpha-2 country code */
+  countryCode?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+/**
+ * Geocoder settings from the application config
+ */
+export interface GeocoderSettings {
+  /** Geocoder name; empty turns address lookups off */
+  geocoder: string;
+  /** Service URL for HTTP geocoders, e.g. a self-hosted Nominatim */
+  url: string;
+  /** Characters typed before suggestions are looked up */
+  minQueryLength: number;
+  /** Most suggestions shown */
+  limit: number;
+}
+
+export interface GeocodeOptions {
+  settings: GeocoderSettings;
+  /** Country code to search in, when the address has one */
+  countryCode?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Address lookup service
+ */
+export interface Geocoder {
+  label: string;
+  /** Addresses matching what was typed in the street input */
+  suggest: (query: string, options: GeocodeOptions) => Promise<GeocodedAddress[]>;
+  /** Complete a typed address (postal code, city, coordinates); null when not found */
+  geocode?: (address: AddressValue, options: GeocodeOptions) => Promise<GeocodedAddress | null>;
+}
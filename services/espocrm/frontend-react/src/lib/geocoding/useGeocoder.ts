@@ -0,0 +1,70 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAuthStore } from '@/features/auth/store';
+import { getGeocoder } from './registry';
+import { getGeocoderSettings } from './settings';
+import type { GeocodedAddress, Geocoder, GeocoderSettings } from './types';
+
+/**
+ * Configured geocoder; null when address lookups are off
+ */
+export function useGeocoder(): { geocoder: Geocoder | null; settings: GeocoderSettings } {
+  const appSettings = useAuthStore((state) => state.settings);
+  const settings = useMemo(() => getGeocoderSettings(appSettings), [appSettings]);
+  const geocoder = settings.geocoder ? (getGeocoder(settings.geocoder) ?? null) : null;
+  return { geocoder, settings };
+}
+
+export interface UseAddressSuggestionsOptions {
+  /** Look up only while the street input has focus */
+  enabled: boolean;
+  countryCode?: string;
+  debounceMs?: number;
+}
+
+interface SuggestionResult {
+  key: string;
+  suggestions: GeocodedAddress[];
+}
+
+/**
+ * Debounced address suggestions for what was typed in a street input
+ */
+export function useAddressSuggestions(
+  query: string,
+  { enabled, countryCode, debounceMs = 300 }: UseAddressSuggestionsOptions
+): { suggestions: GeocodedAddress[]; isLoading: boolean } {
+  const { geocoder, settings } = useGeocoder();
+  const [result, setResult] = useState<SuggestionResult | null>(null);
+
+  const trimmed = query.trim();
+  const active = enabled && geocoder !== null && trimmed.length >= settings.minQueryLength;
+  const key = `${countryCode ?? ''}|${trimmed}`;
+
+  useEffect(() => {
+    if (!active || !geocoder) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      geocoder
+        .suggest(trimmed, { settings, countryCode, signal: controller.signal })
+        .then((suggestions) => {
+          if (!controller.signal.aborted) setResult({ key, suggestions });
+        })
+        .catch(() => {
+          // A failing service just means no suggestions; the inputs still work
+          if (!controller.signal.aborted) setResult({ key, suggestions: [] });
+        });
+    }, debounceMs);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [active, geocoder, trimmed, settings, countryCode, key, debounceMs]);
+
+  const isCurrent = active && result?.key === key;
+  return {
+    suggestions: isCurrent ? result.suggestions : [],
+    isLoading: active && !isCurrent,
+  };
+}
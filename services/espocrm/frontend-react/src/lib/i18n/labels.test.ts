@@ -0,0 +1,21 @@
+/**
+ * Interface Label Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { formatLabel } from './labels';
+
+describe('formatLabel', () => {
+  it('fills the English default when a key has no translation', () => {
+    expect(formatLabel('removeRecord', { name: 'Jane Smith' }, (key) => key)).toBe('Remove Jane Smith');
+  });
+
+  it('uses the translated template', () => {
+    const t = (key: string): string => (key === 'Global.labels.removeRecord' ? '{name} entfernen' : key);
+
+    expect(formatLabel('removeRecord', { name: 'Jane Smith' }, t)).toBe('Jane Smith entfernen');
+  });
+
+  it('returns unknown keys as they are', () => {
+    expect(formatLabel('unknown', {})).toBe('unknown');
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Interface Labels
+ *
+ * Label keys are looked up in the `Global.labels` entries of the EspoCRM
+ * language data. The English text below is used when a key has no
+ * translation.
+ */
+import { formatTemplate, type TranslateFunction } from './template';
+
+export const DEFAULT_LABELS: Record<string, string> = {
+  addRecord: 'Add {entityType}',
+  removeRecord: 'Remove {name}',
+  noRecordsSelected: 'No {entityType} selected',
+  searchRecords: 'Search {entityType}...',
+  columnOfRecord: '{column} of {name}',
+  andMore: '+{count} more',
+  extensionsNotLoaded: 'Some extensions could not be loaded',
+  dismiss: 'Dismiss',
+};
+
+/**
+ * Build an interface label from a `Global.labels` key
+ */
+export function formatLabel(
+  key: string,
+  params: Record<string, string | number | undefined>,
+  t?: TranslateFunction
+): string {
+  return formatTemplate(`Global.labels.${key}`, DEFAULT_LABELS[key] ?? key, params, t);
+}
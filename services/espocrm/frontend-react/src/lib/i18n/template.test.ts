@@ -0,0 +1,19 @@
+/**
+ * Translated Template Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { formatTemplate } from './template';
+
+describe('formatTemplate', () => {
+  it('fills the translated template', () => {
+    const t = (key: string): string => (key === 'Global.labels.andMore' ? 'et {count} de plus' : key);
+
+    expect(formatTemplate('Global.labels.andMore', '+{count} more', { count: 3 }, t)).toBe('et 3 de plus');
+  });
+
+  it('falls back for untranslated keys and keeps placeholders without a value', () => {
+    expect(formatTemplate('Global.labels.x', '{column} of {name}', { column: 'Role' }, (key) => key)).toBe(
+      'Role of {name}'
+    );
+  });
+});
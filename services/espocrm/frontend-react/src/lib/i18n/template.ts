@@ -0,0 +1,31 @@
+/**
+ * Translated Templates
+ *
+ * Messages and labels of the EspoCRM language data are templates with the
+ * classic client's `{name}` placeholders.
+ */
+
+/**
+ * Translation lookup; returns the key itself when there is no translation
+ * (the i18next convention).
+ */
+export type TranslateFunction = (key: string) => string;
+
+/**
+ * Fill a template from the language data, or the fallback when the key has
+ * no translation. Placeholders without a value are kept.
+ */
+export function formatTemplate(
+  translationKey: string,
+  fallback: string,
+  params: Record<string, string | number | undefined>,
+  t?: TranslateFunction
+): string {
+  const translated = t?.(translationKey);
+  const template = translated && translated !== translationKey ? translated : fallback;
+
+  return template.replace(/\{(\w+)\}/g, (match: string, name: string) => {
+    const value = params[name];
+    return value !== undefined ? String(value) : match;
+  });
+}
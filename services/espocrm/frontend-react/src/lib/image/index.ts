@@ -0,0 +1,24 @@
+/**
+ * Image Module
+ *
+ * Cropping, rotation and compression for image uploads.
+ */
+
+export {
+  ASPECT_PRESETS,
+  DEFAULT_MAX_IMAGE_SIZE,
+  DEFAULT_IMAGE_QUALITY,
+  canProcessImage,
+  getRotatedSize,
+  fitWithin,
+  getCenteredCrop,
+  getOutputType,
+  renameForType,
+  loadImage,
+  processImage,
+  type AspectPreset,
+  type CropArea,
+  type Rotation,
+  type Size,
+  type ProcessImageOptions,
+} from './processImage';
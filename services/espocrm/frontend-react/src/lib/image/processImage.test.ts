@@ -0,0 +1,111 @@
+/**
+ * Image Processing Tests
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  canProcessImage,
+  fitWithin,
+  getCenteredCrop,
+  getOutputType,
+  getRotatedSize,
+  processImage,
+  renameForType,
+} from './processImage';
+
+describe('geometry helpers', () => {
+  it('swaps the sides for quarter turns', () => {
+    expect(getRotatedSize({ width: 400, height: 300 }, 90)).toEqual({ width: 300, height: 400 });
+    expect(getRotatedSize({ width: 400, height: 300 }, 180)).toEqual({ width: 400, height: 300 });
+  });
+
+  it('scales down but never up', () => {
+    expect(fitWithin({ width: 4000, height: 3000 }, 1920, 1920)).toEqual({ width: 1920, height: 1440 });
+    expect(fitWithin({ width: 200, height: 100 }, 1920, 1920)).toEqual({ width: 200, height: 100 });
+  });
+
+  it('centers the largest crop with an aspect ratio', () => {
+    expect(getCenteredCrop({ width: 400, height: 300 }, 1)).toEqual({ x: 50, y: 0, width: 300, height: 300 });
+    expect(getCenteredCrop({ width: 400, height: 300 }, 3)).toEqual({ x: 0, y: 83, width: 400, height: 133 });
+    expect(getCenteredCrop({ width: 400, height: 300 }, null)).toEqual({ x: 0, y: 0, width: 400, height: 300 });
+  });
+});
+
+describe('file type helpers', () => {
+  it('keeps PNG and turns other photos into JPEG', () => {
+    expect(getOutputType('image/png')).toBe('image/png');
+    expect(getOutputType('image/heic')).toBe('image/jpeg');
+    expect(renameForType('photo.heic', 'image/jpeg')).toBe('photo.jpg');
+    expect(renameForType('logo', 'image/png')).toBe('logo.png');
+  });
+
+  it('leaves animations and vector images alone', () => {
+    expect(canProcessImage(new File([''], 'a.jpg', { type: 'image/jpeg' }))).toBe(true);
+    expect(canProcessImage(new File([''], 'a.gif', { type: 'image/gif' }))).toBe(false);
+    expect(canProcessImage(new File([''], 'a.svg', { type: 'image/svg+xml' }))).toBe(false);
+    expect(canProcessImage(new File([''], 'a.pdf', { type: 'application/pdf' }))).toBe(false);
+  });
+});
+
+describe('processImage', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function mockCanvas() {
+    const canvases: Array<{ width: number; height: number; context: Record<string, unknown>; toBlob: ReturnType<typeof vi.fn> }> = [];
+    const createElement = document.createElement.bind(document);
+    vi.spyOn(document, 'createElement').mockImplementation((tag: string) => {
+      if (tag !== 'canvas') return createElement(tag);
+      const context = {
+        translate: vi.fn(),
+        rotate: vi.fn(),
+        drawImage: vi.fn(),
+        fillRect: vi.fn(),
+        fillStyle: '',
+        imageSmoothingQuality: 'low',
+      };
+      const canvas = {
+        width: 0,
+        height: 0,
+        context,
+        getContext: () => context,
+        toBlob: vi.fn((callback: (blob: Blob | null) => void, type: string) => callback(new Blob(['x'], { type }))),
+      };
+      canvases.push(canvas as never);
+      return canvas as unknown as HTMLElement;
+    });
+    return canvases;
+  }
+
+  it('rotates, crops and downscales', async () => {
+    const canvases = mockCanvas();
+    const image = { naturalWidth: 4000, naturalHeight: 3000 } as HTMLImageElement;
+
+    const blob = await processImage(image, {
+      rotation: 90,
+      crop: { x: 0, y: 1000, width: 3000, height: 3000 },
+      maxWidth: 1000,
+      maxHeight: 1000,
+      quality: 0.7,
+    });
+
+    expect(blob.type).toBe('image/jpeg');
+    const [rotated, output] = canvases;
+    expect(rotated).toMatchObject({ width: 3000, height: 4000 });
+    expect(rotated?.context.rotate).toHaveBeenCalledWith(Math.PI / 2);
+    expect(output).toMatchObject({ width: 1000, height: 1000 });
+    expect(output?.context.drawImage).toHaveBeenCalledWith(rotated, 0, 1000, 3000, 3000, 0, 0, 1000, 1000);
+    expect(output?.toBlob).toHaveBeenCalledWith(expect.any(Function), 'image/jpeg', 0.7);
+  });
+
+  it('fails when the browser has no canvas support', async () => {
+    const createElement = document.createElement.bind(document);
+    vi.spyOn(document, 'createElement').mockImplementation((tag: string) =>
+      tag === 'canvas' ? ({ getContext: () => null } as unknown as HTMLElement) : createElement(tag)
+    );
+
+    await expect(processImage({ naturalWidth: 10, naturalHeight: 10 } as HTMLImageElement)).rejects.toThrow(
+      'Canvas is not supported'
+    );
+  });
+});
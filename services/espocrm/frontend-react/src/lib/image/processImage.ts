@@ -0,0 +1,190 @@
+/**
+ * Image Processing
+ *
+ * Canvas helpers behind the image field's cropper: rotate, crop, downscale
+ * and re-encode a photo before it is uploaded.
+ */
+
+/** Crop rectangle in pixels of the rotated image */
+export interface CropArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface ProcessImageOptions {
+  /** Area to keep; the whole image when omitted */
+  crop?: CropArea;
+  rotation?: Rotation;
+  maxWidth?: number;
+  maxHeight?: number;
+  /** Encoder quality for JPEG/WebP, 0–1 */
+  quality?: number;
+  /** Output type; PNG stays PNG (transparency), everything else becomes JPEG */
+  mimeType?: string;
+}
+
+export interface AspectPreset {
+  key: string;
+  label: string;
+  /** Width / height; null for a free crop */
+  aspect: number | null;
+}
+
+export const ASPECT_PRESETS: AspectPreset[] = [
+  { key: 'free', label: 'Free', aspect: null },
+  { key: 'square', label: 'Square (avatar)', aspect: 1 },
+  { key: 'banner', label: 'Banner (3:1)', aspect: 3 },
+];
+
+export const DEFAULT_MAX_IMAGE_SIZE = 1920;
+export const DEFAULT_IMAGE_QUALITY = 0.85;
+
+// Formats the browser can't re-encode without losing something (animation, vectors)
+const PASSTHROUGH_TYPES = ['image/gif', 'image/svg+xml'];
+
+/**
+ * Whether a file can go through the cropper and encoder
+ */
+export function canProcessImage(file: File): boolean {
+  return file.type.startsWith('image/') && !PASSTHROUGH_TYPES.includes(file.type);
+}
+
+/**
+ * Size of an image after rotation
+ */
+export function getRotatedSize(size: Size, rotation: Rotation): Size {
+  return rotation === 90 || rotation === 270
+    ? { width: size.height, height: size.width }
+    : { width: size.width, height: size.height };
+}
+
+/**
+ * Scale a size down (never up) to fit within the given bounds
+ */
+export function fitWithin(size: Size, maxWidth: number, maxHeight: number): Size {
+  const scale = Math.min(1, maxWidth / size.width, maxHeight / size.height);
+  return {
+    width: Math.max(1, Math.round(size.width * scale)),
+    height: Math.max(1, Math.round(size.height * scale)),
+  };
+}
+
+/**
+ * Largest centered crop with the given aspect ratio (width / height); the
+ * whole image when `aspect` is null
+ */
+export function getCenteredCrop(size: Size, aspect: number | null): CropArea {
+  if (!aspect) {
+    return { x: 0, y: 0, width: size.width, height: size.height };
+  }
+
+  let width = size.width;
+  let height = width / aspect;
+  if (height > size.height) {
+    height = size.height;
+    width = height * aspect;
+  }
+
+  return {
+    x: Math.round((size.width - width) / 2),
+    y: Math.round((size.height - height) / 2),
+    width: Math.round(width),
+    height: Math.round(height),
+  };
+}
+
+/**
+ * Output type for a source type
+ */
+export function getOutputType(sourceType: string): string {
+  return sourceType === 'image/png' ? 'image/png' : 'image/jpeg';
+}
+
+/**
+ * File name with the extension matching a MIME type
+ */
+export function renameForType(name: string, mimeType: string): string {
+  const extension = mimeType === 'image/png' ? 'png' : mimeType === 'image/webp' ? 'webp' : 'jpg';
+  const dot = name.lastIndexOf('.');
+  return `${dot > 0 ? name.slice(0, dot) : name}.${extension}`;
+}
+
+function createCanvas(size: Size): { canvas: HTMLCanvasElement; context: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported');
+  }
+  return { canvas, context };
+}
+
+/**
+ * Load an image file into an element
+ */
+export function loadImage(file: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read the image'));
+    };
+    image.src = url;
+  });
+}
+
+/**
+ * Rotate, crop, downscale and encode an image
+ */
+export async function processImage(image: HTMLImageElement, options: ProcessImageOptions = {}): Promise<Blob> {
+  const {
+    rotation = 0,
+    maxWidth = DEFAULT_MAX_IMAGE_SIZE,
+    maxHeight = DEFAULT_MAX_IMAGE_SIZE,
+    quality = DEFAULT_IMAGE_QUALITY,
+    mimeType = 'image/jpeg',
+  } = options;
+
+  const natural = { width: image.naturalWidth, height: image.naturalHeight };
+  const rotated = getRotatedSize(natural, rotation);
+  const crop = options.crop ?? { x: 0, y: 0, ...rotated };
+
+  // Draw the rotated image at full size first, then crop and scale from it
+  const { canvas: rotatedCanvas, context: rotatedContext } = createCanvas(rotated);
+  rotatedContext.translate(rotated.width / 2, rotated.height / 2);
+  rotatedContext.rotate((rotation * Math.PI) / 180);
+  rotatedContext.drawImage(image, -natural.width / 2, -natural.height / 2);
+
+  const output = fitWithin(crop, maxWidth, maxHeight);
+  const { canvas, context } = createCanvas(output);
+  if (mimeType === 'image/jpeg') {
+    // JPEG has no transparency; keep transparent areas white instead of black
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, output.width, output.height);
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(rotatedCanvas, crop.x, crop.y, crop.width, crop.height, 0, 0, output.width, output.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))),
+      mimeType,
+      quality
+    );
+  });
+}
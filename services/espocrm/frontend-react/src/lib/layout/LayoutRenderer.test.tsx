@@ -2,15 +2,33 @@
  * LayoutRenderer Tests
  */
 import React from 'react';
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import type { FieldDef } from '@/fields/types';
 import type { DetailLayout, ListLayout } from './types';
 
 // Mock FieldRenderer - must be before LayoutRenderer import
 vi.mock('@/fields', () => ({
-  FieldRenderer: ({ name, value, mode }: { name: string; value: unknown; mode: string }) => (
-    <span data-testid={`field-${name}`} data-mode={mode}>
+  FieldRenderer: ({
+    name,
+    value,
+    mode,
+    fieldDef,
+    record,
+  }: {
+    name: string;
+    value: unknown;
+    mode: string;
+    fieldDef: FieldDef;
+    record?: Record<string, unknown>;
+  }) => (
+    <span
+      data-testid={`field-${name}`}
+      data-mode={mode}
+      data-record={JSON.stringify(record)}
+      data-readonly={String(fieldDef.readOnly ?? false)}
+      data-options={fieldDef.filteredOptions?.join(',')}
+    >
       {String(value ?? '')}
     </span>
   ),
@@ -24,14 +42,27 @@ vi.mock('@/fields/InlineEditableField', () => ({
 }));
 
 // Mock useDynamicLogic
-vi.mock('@/lib/dynamicLogic', () => ({
-  useDynamicLogic: () => ({
-    isFieldVisible: () => true,
-    isFieldRequired: () => false,
-    isFieldReadOnly: () => false,
-    getFilteredOptions: () => undefined,
-    getPanelState: () => ({ visible: true }),
-  }),
+const dynamicLogicState = vi.hoisted(() => ({
+  readOnly: new Set<string>(),
+  invalid: new Set<string>(),
+  options: {} as Record<string, string[]>,
+  panels: {} as Record<string, { visible: boolean; styled?: boolean }>,
+  lastOptions: undefined as { panels?: Record<string, unknown> } | undefined,
+}));
+
+vi.mock('@/lib/dynamicLogic', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/dynamicLogic')>()),
+  useDynamicLogic: (options: { panels?: Record<string, unknown> }) => {
+    dynamicLogicState.lastOptions = options;
+    return {
+      isFieldVisible: () => true,
+      isFieldRequired: () => false,
+      isFieldReadOnly: (name: string) => dynamicLogicState.readOnly.has(name),
+      getFieldState: (name: string) => ({ invalid: dynamicLogicState.invalid.has(name) }),
+      getFilteredOptions: (name: string) => dynamicLogicState.options[name],
+      getPanelState: (name: string) => dynamicLogicState.panels[name] ?? { visible: true },
+    };
+  },
 }));
 
 // Import after mocks
@@ -264,6 +295,28 @@ describe('LayoutRenderer', () => {
       expect(screen.getByTestId('field-email')).toHaveTextContent('updated@example.com');
     });
 
+    it('should pass the record with the unsaved changes to fields', () => {
+      const emailAddressData = [{ emailAddress: 'updated@example.com', primary: true }];
+
+      render(
+        <LayoutRenderer
+          layout={layout}
+          type="detail"
+          fieldDefs={fieldDefs}
+          record={{ name: 'Original', emailData: [] }}
+          entityType="Contact"
+          mode="edit"
+          formData={{ email: 'updated@example.com', emailData: emailAddressData }}
+        />
+      );
+
+      expect(JSON.parse(screen.getByTestId('field-email').dataset.record ?? '{}')).toEqual({
+        name: 'Original',
+        email: 'updated@example.com',
+        emailData: emailAddressData,
+      });
+    });
+
     it('should show required indicator for required fields', () => {
       render(
         <LayoutRenderer
@@ -280,6 +333,220 @@ describe('LayoutRenderer', () => {
       const requiredIndicators = screen.getAllByText('*');
       expect(requiredIndicators.length).toBeGreaterThan(0);
     });
+
+    it('should show field errors below the field', () => {
+      const { container } = render(
+        <LayoutRenderer
+          layout={layout}
+          type="detail"
+          fieldDefs={fieldDefs}
+          record={{ name: 'Test', email: 'taken@example.com' }}
+          entityType="Contact"
+          mode="edit"
+          errors={{ email: 'Email must be unique' }}
+        />
+      );
+
+      expect(screen.getByText('Email must be unique')).toBeInTheDocument();
+      expect(container.querySelectorAll('[data-invalid]')).toHaveLength(1);
+    });
+
+    it('should show asynchronous validation status next to fields', () => {
+      const { container, rerender } = render(
+        <LayoutRenderer
+          layout={layout}
+          type="detail"
+          fieldDefs={fieldDefs}
+          record={{ name: 'Test', email: 'new@example.com' }}
+          entityType="Contact"
+          mode="edit"
+          fieldStatus={{ email: 'pending', name: 'valid' }}
+        />
+      );
+
+      expect(container.querySelector('[data-validation-status="pending"]')).toBeInTheDocument();
+      expect(container.querySelector('[data-validation-status="valid"]')).toBeInTheDocument();
+
+      rerender(
+        <LayoutRenderer
+          layout={layout}
+          type="detail"
+          fieldDefs={fieldDefs}
+          record={{ name: 'Test', email: 'new@example.com' }}
+          entityType="Contact"
+          mode="detail"
+          fieldStatus={{ email: 'pending' }}
+        />
+      );
+
+      expect(container.querySelector('[data-validation-status]')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('dynamic logic', () => {
+    const layout: DetailLayout = [
+      {
+        rows: [[{ name: 'status' }, { name: 'amount' }]],
+      },
+    ];
+
+    const fieldDefs: Record<string, FieldDef> = {
+      status: { type: 'enum', options: ['New', 'Assigned', 'Closed'] },
+      amount: { type: 'currency' },
+    };
+
+    afterEach(() => {
+      dynamicLogicState.readOnly.clear();
+      dynamicLogicState.invalid.clear();
+      dynamicLogicState.options = {};
+      dynamicLogicState.panels = {};
+    });
+
+    it('should make dynamically read-only fields read-only', () => {
+      dynamicLogicState.readOnly.add('amount');
+
+      render(
+        <LayoutRenderer
+          layout={layout}
+          type="detail"
+          fieldDefs={fieldDefs}
+          record={{ status: 'New', amount: 10 }}
+          entityType="Opportunity"
+          mode="edit"
+        />
+      );
+
+      expect(screen.getByTestId('field-amount')).toHaveAttribute('data-readonly', 'true');
+      expect(screen.getByTestId('field-status')).toHaveAttribute('data-readonly', 'false');
+    });
+
+    it('should pass filtered options without replacing the full list', () => {
+      dynamicLogicState.options.status = ['New', 'Assigned'];
+
+      render(
+        <LayoutRenderer
+          layout={layout}
+          type="detail"
+          fieldDefs={fieldDefs}
+          record={{ status: 'New' }}
+          entityType="Opportunity"
+          mode="edit"
+        />
+      );
+
+      expect(screen.getByTestId('field-status')).toHaveAttribute('data-options', 'New,Assigned');
+    });
+
+    it('should mark invalid fields in edit mode only', () => {
+      dynamicLogicState.invalid.add('amount');
+
+      const { container, rerender } = render(
+        <LayoutRenderer
+          layout={layout}
+          type="detail"
+          fieldDefs={fieldDefs}
+          record={{ amount: -1 }}
+          entityType="Opportunity"
+          mode="edit"
+        />
+      );
+
+      expect(container.querySelectorAll('[data-invalid]')).toHaveLength(1);
+
+      rerender(
+        <LayoutRenderer
+          layout={layout}
+          type="detail"
+          fieldDefs={fieldDefs}
+          record={{ amount: -1 }}
+          entityType="Opportunity"
+          mode="detail"
+        />
+      );
+
+      expect(container.querySelectorAll('[data-invalid]')).toHaveLength(0);
+    });
+
+    it('should pass layout panel conditions to dynamic logic', () => {
+      const styledLayout: DetailLayout = [
+        {
+          name: 'risk',
+          style: 'danger',
+          dynamicLogicStyled: {
+            conditionGroup: [{ type: 'lessThan', attribute: 'amount', value: 0 }],
+          },
+          rows: [[{ name: 'amount' }]],
+        },
+        {
+          dynamicLogicVisible: {
+            conditionGroup: [{ type: 'isNotEmpty', attribute: 'status' }],
+          },
+          rows: [[{ name: 'status' }]],
+        },
+      ];
+
+      render(
+        <LayoutRenderer
+          layout={styledLayout}
+          type="detail"
+          fieldDefs={fieldDefs}
+          record={{ amount: 10 }}
+          entityType="Opportunity"
+          mode="detail"
+        />
+      );
+
+      expect(dynamicLogicState.lastOptions?.panels).toEqual({
+        risk: {
+          styled: { type: 'and', value: [{ type: 'lessThan', attribute: 'amount', value: 0 }] },
+        },
+        'panel-1': {
+          visible: { type: 'and', value: [{ type: 'isNotEmpty', attribute: 'status' }] },
+        },
+      });
+    });
+
+    it('should apply the panel style only while styled conditions match', () => {
+      const styledLayout: DetailLayout = [
+        {
+          name: 'risk',
+          style: 'danger',
+          dynamicLogicStyled: {
+            conditionGroup: [{ type: 'lessThan', attribute: 'amount', value: 0 }],
+          },
+          rows: [[{ name: 'amount' }]],
+        },
+      ];
+      dynamicLogicState.panels.risk = { visible: true, styled: false };
+
+      const { container, rerender } = render(
+        <LayoutRenderer
+          layout={styledLayout}
+          type="detail"
+          fieldDefs={fieldDefs}
+          record={{ amount: 10 }}
+          entityType="Opportunity"
+          mode="detail"
+        />
+      );
+
+      expect(container.querySelector('[data-panel-style="default"]')).toBeInTheDocument();
+      expect(container.querySelector('.bg-red-50')).not.toBeInTheDocument();
+
+      dynamicLogicState.panels.risk = { visible: true, styled: true };
+      rerender(
+        <LayoutRenderer
+          layout={styledLayout}
+          type="detail"
+          fieldDefs={fieldDefs}
+          record={{ amount: -5 }}
+          entityType="Opportunity"
+          mode="detail"
+        />
+      );
+
+      expect(container.querySelector('[data-panel-style="danger"]')).toHaveClass('bg-red-50');
+    });
   });
 
   describe('panel styles', () => {
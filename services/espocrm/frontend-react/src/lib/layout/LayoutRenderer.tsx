@@ -1,9 +1,13 @@
 import React, { useMemo } from 'react';
+import { AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
 import { FieldRenderer } from '@/fields';
 import { InlineEditableField } from '@/fields/InlineEditableField';
 import { useDynamicLogic } from '@/lib/dynamicLogic';
+import type { DynamicPanelState } from '@/lib/dynamicLogic';
+import type { FieldValidationStatus } from '@/lib/validation/asyncValidators';
 import type { FieldMode, FieldDef } from '@/fields/types';
 import type { DetailLayout, LayoutPanel, LayoutCell, ListLayout } from './types';
+import { getPanelKey, getLayoutPanelLogic } from './panelLogic';
 import { cn } from '@/lib/utils/cn';
 
 export interface LayoutRendererProps {
@@ -26,9 +30,13 @@ export interface LayoutRendererProps {
   /** Enable inline editing in detail mode */
   inlineEdit?: boolean;
   /** Handler for inline edit saves */
-  onInlineEditSave?: (fieldName: string, value: unknown) => void;
+  onInlineEditSave?: (fieldName: string, value: unknown) => void | Promise<void>;
   /** Fields currently being saved via inline edit */
   savingFields?: Set<string>;
+  /** Validation errors by field name (edit mode) */
+  errors?: Record<string, string>;
+  /** Asynchronous validation status by field name (edit mode) */
+  fieldStatus?: Record<string, FieldValidationStatus>;
   /** Additional CSS class */
   className?: string;
 }
@@ -48,6 +56,8 @@ export function LayoutRenderer({
   inlineEdit,
   onInlineEditSave,
   savingFields,
+  errors,
+  fieldStatus,
   className,
 }: LayoutRendererProps): React.ReactElement {
   if (type === 'detail') {
@@ -63,6 +73,8 @@ export function LayoutRenderer({
         inlineEdit={inlineEdit}
         onInlineEditSave={onInlineEditSave}
         savingFields={savingFields}
+        errors={errors}
+        fieldStatus={fieldStatus}
         className={className}
       />
     );
@@ -89,8 +101,10 @@ interface DetailLayoutRendererProps {
   formData?: Record<string, unknown>;
   onChange?: (field: string, value: unknown) => void;
   inlineEdit?: boolean;
-  onInlineEditSave?: (fieldName: string, value: unknown) => void;
+  onInlineEditSave?: (fieldName: string, value: unknown) => void | Promise<void>;
   savingFields?: Set<string>;
+  errors?: Record<string, string>;
+  fieldStatus?: Record<string, FieldValidationStatus>;
   className?: string;
 }
 
@@ -108,6 +122,8 @@ function DetailLayoutRenderer({
   inlineEdit,
   onInlineEditSave,
   savingFields,
+  errors,
+  fieldStatus,
   className,
 }: DetailLayoutRendererProps): React.ReactElement {
   // Get current data for dynamic logic evaluation
@@ -115,16 +131,21 @@ function DetailLayoutRenderer({
     return formData ? { ...record, ...formData } : record;
   }, [record, formData]);
 
+  // Panel conditions configured in the layout itself
+  const panelLogic = useMemo(() => getLayoutPanelLogic(layout), [layout]);
+
   // Use dynamic logic to get field/panel states
   const {
     isFieldVisible,
     isFieldRequired,
     isFieldReadOnly,
+    getFieldState,
     getFilteredOptions,
     getPanelState,
   } = useDynamicLogic({
     entityType,
     data: currentData,
+    panels: panelLogic,
   });
 
   // Group panels by tab
@@ -151,6 +172,7 @@ function DetailLayoutRenderer({
     isFieldVisible,
     isFieldRequired,
     isFieldReadOnly,
+    isFieldInvalid: (fieldName) => getFieldState(fieldName).invalid,
     getFilteredOptions,
     getPanelState,
   };
@@ -162,7 +184,8 @@ function DetailLayoutRenderer({
       <div className={cn('space-y-6', className)}>
         {firstTab.panels.map((panel, idx) => (
           <PanelRenderer
-            key={panel.name ?? `panel-${idx}`}
+            key={getPanelKey(panel, idx)}
+            panelKey={getPanelKey(panel, idx)}
             panel={panel}
             fieldDefs={fieldDefs}
             record={record}
@@ -173,6 +196,8 @@ function DetailLayoutRenderer({
             inlineEdit={inlineEdit}
             onInlineEditSave={onInlineEditSave}
             savingFields={savingFields}
+            errors={errors}
+            fieldStatus={fieldStatus}
             dynamicLogic={dynamicLogic}
           />
         ))}
@@ -186,7 +211,8 @@ function DetailLayoutRenderer({
     <div className={cn('space-y-6', className)}>
       {layout.map((panel, idx) => (
         <PanelRenderer
-          key={panel.name ?? `panel-${idx}`}
+          key={getPanelKey(panel, idx)}
+          panelKey={getPanelKey(panel, idx)}
           panel={panel}
           fieldDefs={fieldDefs}
           record={record}
@@ -197,6 +223,8 @@ function DetailLayoutRenderer({
           inlineEdit={inlineEdit}
           onInlineEditSave={onInlineEditSave}
           savingFields={savingFields}
+          errors={errors}
+          fieldStatus={fieldStatus}
           dynamicLogic={dynamicLogic}
         />
       ))}
@@ -208,11 +236,13 @@ interface DynamicLogicFunctions {
   isFieldVisible: (fieldName: string) => boolean;
   isFieldRequired: (fieldName: string) => boolean;
   isFieldReadOnly: (fieldName: string) => boolean;
+  isFieldInvalid: (fieldName: string) => boolean;
   getFilteredOptions: (fieldName: string) => string[] | undefined;
-  getPanelState: (panelName: string) => { visible: boolean };
+  getPanelState: (panelName: string) => DynamicPanelState;
 }
 
 interface PanelRendererProps {
+  panelKey: string;
   panel: LayoutPanel;
   fieldDefs: Record<string, FieldDef>;
   record: Record<string, unknown>;
@@ -221,8 +251,10 @@ interface PanelRendererProps {
   formData?: Record<string, unknown>;
   onChange?: (field: string, value: unknown) => void;
   inlineEdit?: boolean;
-  onInlineEditSave?: (fieldName: string, value: unknown) => void;
+  onInlineEditSave?: (fieldName: string, value: unknown) => void | Promise<void>;
   savingFields?: Set<string>;
+  errors?: Record<string, string>;
+  fieldStatus?: Record<string, FieldValidationStatus>;
   dynamicLogic: DynamicLogicFunctions;
 }
 
@@ -230,6 +262,7 @@ interface PanelRendererProps {
  * Renders a single panel with its rows
  */
 function PanelRenderer({
+  panelKey,
   panel,
   fieldDefs,
   record,
@@ -240,11 +273,15 @@ function PanelRenderer({
   inlineEdit,
   onInlineEditSave,
   savingFields,
+  errors,
+  fieldStatus,
   dynamicLogic,
 }: PanelRendererProps): React.ReactElement {
   const rows = panel.rows ?? [];
   const label = panel.customLabel ?? panel.label;
-  const style = panel.style ?? 'default';
+  const panelState = dynamicLogic.getPanelState(panelKey);
+  // Panels with styled conditions only take their style while the conditions match
+  const style = panelState.styled === false ? 'default' : (panel.style ?? 'default');
 
   const styleClasses: Record<string, string> = {
     default: 'border-border',
@@ -260,15 +297,12 @@ function PanelRenderer({
   }
 
   // Check dynamic panel visibility
-  if (panel.name) {
-    const panelState = dynamicLogic.getPanelState(panel.name);
-    if (!panelState.visible) {
-      return <React.Fragment />;
-    }
+  if (!panelState.visible) {
+    return <React.Fragment />;
   }
 
   return (
-    <div className={cn('rounded-lg border p-4', styleClasses[style])}>
+    <div className={cn('rounded-lg border p-4', styleClasses[style])} data-panel-style={style}>
       {label && (
         <h3 className="text-lg font-semibold mb-4 text-foreground">
           {label}
@@ -288,6 +322,8 @@ function PanelRenderer({
             inlineEdit={inlineEdit}
             onInlineEditSave={onInlineEditSave}
             savingFields={savingFields}
+            errors={errors}
+            fieldStatus={fieldStatus}
             dynamicLogic={dynamicLogic}
           />
         ))}
@@ -305,8 +341,10 @@ interface RowRendererProps {
   formData?: Record<string, unknown>;
   onChange?: (field: string, value: unknown) => void;
   inlineEdit?: boolean;
-  onInlineEditSave?: (fieldName: string, value: unknown) => void;
+  onInlineEditSave?: (fieldName: string, value: unknown) => void | Promise<void>;
   savingFields?: Set<string>;
+  errors?: Record<string, string>;
+  fieldStatus?: Record<string, FieldValidationStatus>;
   dynamicLogic: DynamicLogicFunctions;
 }
 
@@ -324,6 +362,8 @@ function RowRenderer({
   inlineEdit,
   onInlineEditSave,
   savingFields,
+  errors,
+  fieldStatus,
   dynamicLogic,
 }: RowRendererProps): React.ReactElement {
   // Filter out false cells and check for fullWidth
@@ -353,6 +393,8 @@ function RowRenderer({
             inlineEdit={inlineEdit}
             onInlineEditSave={onInlineEditSave}
             savingFields={savingFields}
+            errors={errors}
+            fieldStatus={fieldStatus}
             dynamicLogic={dynamicLogic}
             fullWidth
           />
@@ -381,6 +423,8 @@ function RowRenderer({
             inlineEdit={inlineEdit}
             onInlineEditSave={onInlineEditSave}
             savingFields={savingFields}
+            errors={errors}
+            fieldStatus={fieldStatus}
             dynamicLogic={dynamicLogic}
           />
         );
@@ -398,8 +442,10 @@ interface CellRendererProps {
   formData?: Record<string, unknown>;
   onChange?: (field: string, value: unknown) => void;
   inlineEdit?: boolean;
-  onInlineEditSave?: (fieldName: string, value: unknown) => void;
+  onInlineEditSave?: (fieldName: string, value: unknown) => void | Promise<void>;
   savingFields?: Set<string>;
+  errors?: Record<string, string>;
+  fieldStatus?: Record<string, FieldValidationStatus>;
   dynamicLogic: DynamicLogicFunctions;
   fullWidth?: boolean;
 }
@@ -418,6 +464,8 @@ function CellRenderer({
   inlineEdit,
   onInlineEditSave,
   savingFields,
+  errors,
+  fieldStatus,
   dynamicLogic,
   fullWidth,
 }: CellRendererProps): React.ReactElement {
@@ -436,21 +484,25 @@ function CellRenderer({
   // Get dynamic logic state for this field
   const isDynamicallyRequired = dynamicLogic.isFieldRequired(cell.name);
   const isDynamicallyReadOnly = dynamicLogic.isFieldReadOnly(cell.name);
+  const isDynamicallyInvalid = mode === 'edit' && dynamicLogic.isFieldInvalid(cell.name);
   const filteredOptions = dynamicLogic.getFilteredOptions(cell.name);
 
   // Merge field def with cell overrides and dynamic logic
   const mergedFieldDef: FieldDef = {
     ...fieldDef,
     ...cell.params,
-    readOnly: cell.readOnly ?? fieldDef.readOnly ?? isDynamicallyReadOnly,
+    readOnly: cell.readOnly ?? (fieldDef.readOnly || isDynamicallyReadOnly),
     required: fieldDef.required || isDynamicallyRequired,
     type: cell.type ?? fieldDef.type,
     // Apply filtered options if available
-    ...(filteredOptions ? { options: filteredOptions } : {}),
+    ...(filteredOptions ? { filteredOptions } : {}),
   };
 
   // Get value from formData (edit mode) or record
   const value = formData?.[cell.name] ?? record[cell.name];
+  // Fields read the attributes tied to them (e.g. `<field>Data`) from the
+  // record, which includes the unsaved changes in edit mode
+  const fieldRecord = formData ? { ...record, ...formData } : record;
 
   // Get label
   const label = cell.labelText ?? cell.label ?? formatFieldLabel(cell.name);
@@ -461,16 +513,24 @@ function CellRenderer({
   const isSaving = savingFields?.has(cell.name) ?? false;
 
   // Determine if field is effectively read-only
-  const effectiveReadOnly = cell.readOnly ?? mergedFieldDef.readOnly ?? isDynamicallyReadOnly;
+  const effectiveReadOnly = mergedFieldDef.readOnly ?? false;
+
+  const fieldError = mode === 'edit' ? errors?.[cell.name] : undefined;
+  const isInvalid = isDynamicallyInvalid || !!fieldError;
+  const validationStatus = mode === 'edit' ? fieldStatus?.[cell.name] : undefined;
 
   return (
-    <div className={cn(fullWidth && 'col-span-full')}>
+    <div
+      className={cn(fullWidth && 'col-span-full', isInvalid && 'rounded-md ring-1 ring-destructive ring-offset-2')}
+      data-invalid={isInvalid || undefined}
+    >
       {showLabel && mode !== 'list' && (
         <label className="block text-sm font-medium text-muted-foreground mb-1">
           {label}
           {mergedFieldDef.required && mode === 'edit' && (
             <span className="text-destructive ml-1">*</span>
           )}
+          {validationStatus && <ValidationStatusIndicator status={validationStatus} />}
         </label>
       )}
       {useInlineEditable ? (
@@ -492,15 +552,38 @@ function CellRenderer({
           fieldDef={mergedFieldDef}
           mode={mode}
           entityType={entityType}
-          record={record}
+          record={fieldRecord}
           onChange={(newValue) => onChange?.(cell.name, newValue)}
           readOnly={effectiveReadOnly}
         />
       )}
+      {validationStatus && !(showLabel && mode !== 'list') && (
+        <ValidationStatusIndicator status={validationStatus} />
+      )}
+      {fieldError && (
+        <p className="text-xs text-destructive mt-1">{fieldError}</p>
+      )}
     </div>
   );
 }
 
+/**
+ * Icon showing the state of a field's asynchronous validation
+ */
+function ValidationStatusIndicator({ status }: { status: FieldValidationStatus }): React.ReactElement {
+  return (
+    <span
+      className="ml-2 inline-flex align-middle"
+      data-validation-status={status}
+      title={status === 'pending' ? 'Checking…' : status === 'valid' ? 'Valid' : 'Invalid'}
+    >
+      {status === 'pending' && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+      {status === 'valid' && <CheckCircle2 className="h-3.5 w-3.5 text-green-600" />}
+      {status === 'invalid' && <AlertCircle className="h-3.5 w-3.5 text-destructive" />}
+    </span>
+  );
+}
+
 interface ListLayoutRendererProps {
   layout: ListLayout;
   fieldDefs: Record<string, FieldDef>;
@@ -7,6 +7,7 @@
 
 export { LayoutRenderer } from './LayoutRenderer';
 export type { LayoutRendererProps } from './LayoutRenderer';
+export { getPanelKey, getLayoutPanelLogic } from './panelLogic';
 
 export {
   useLayout,
@@ -0,0 +1,40 @@
+/**
+ * Layout panel dynamic logic
+ *
+ * Panels can carry their own visible/styled conditions in the layout
+ * (`dynamicLogicVisible`, `dynamicLogicStyled`). These helpers collect them
+ * in the shape `useDynamicLogic` merges over the metadata panel logic.
+ */
+
+import { toConditionGroup } from '@/lib/dynamicLogic';
+import type { DynamicPanelLogicDef } from '@/lib/dynamicLogic';
+import type { DetailLayout, LayoutPanel } from './types';
+
+/**
+ * Key a panel's dynamic state is stored under
+ */
+export function getPanelKey(panel: LayoutPanel, index: number): string {
+  return panel.name ?? `panel-${index}`;
+}
+
+/**
+ * Collect the visible/styled conditions defined on layout panels
+ */
+export function getLayoutPanelLogic(
+  layout: DetailLayout
+): Record<string, DynamicPanelLogicDef> | undefined {
+  const panels: Record<string, DynamicPanelLogicDef> = {};
+
+  layout.forEach((panel, idx) => {
+    const visible = toConditionGroup(panel.dynamicLogicVisible);
+    const styled = toConditionGroup(panel.dynamicLogicStyled);
+    if (visible || styled) {
+      panels[getPanelKey(panel, idx)] = {
+        ...(visible ? { visible } : {}),
+        ...(styled ? { styled } : {}),
+      };
+    }
+  });
+
+  return Object.keys(panels).length > 0 ? panels : undefined;
+}
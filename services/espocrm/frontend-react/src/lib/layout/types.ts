@@ -5,6 +5,7 @@
  */
 
 import { z } from 'zod';
+import type { ConditionGroup } from '@/lib/dynamicLogic/types';
 
 /**
  * Cell in a detail layout row
@@ -92,6 +93,10 @@ export interface ParsedLayoutPanel {
   tabNumber?: number;
   tabLabel?: string;
   hidden?: boolean;
+  /** Conditions that make the panel visible */
+  dynamicLogicVisible?: ConditionGroup;
+  /** Conditions that switch the panel from default to its `style` */
+  dynamicLogicStyled?: ConditionGroup;
 }
 
 export interface ParsedLayoutRow {
@@ -0,0 +1,50 @@
+/**
+ * Map Coordinates Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { getMapAddressField, getMapAddressLabel, getRecordCoordinates, parseCoordinates } from './coordinates';
+
+describe('parseCoordinates', () => {
+  it('reads objects and "lat, lng" strings', () => {
+    expect(parseCoordinates({ latitude: 1.5, longitude: '2.5' })).toEqual({ latitude: 1.5, longitude: 2.5 });
+    expect(parseCoordinates('51.5, -0.12')).toEqual({ latitude: 51.5, longitude: -0.12 });
+  });
+
+  it('rejects incomplete and out-of-range values', () => {
+    expect(parseCoordinates({ latitude: 1, longitude: null })).toBeNull();
+    expect(parseCoordinates('abc, def')).toBeNull();
+    expect(parseCoordinates('95, 10')).toBeNull();
+    expect(parseCoordinates(null)).toBeNull();
+  });
+});
+
+describe('getRecordCoordinates', () => {
+  it('prefers the field attributes, then the address attributes, then the value', () => {
+    const record = {
+      addressMapLatitude: 1,
+      addressMapLongitude: 2,
+      addressLatitude: 3,
+      addressLongitude: 4,
+    };
+    expect(getRecordCoordinates(record, 'addressMap')).toEqual({ latitude: 1, longitude: 2 });
+    expect(getRecordCoordinates({ addressLatitude: 3, addressLongitude: 4 }, 'addressMap')).toEqual({
+      latitude: 3,
+      longitude: 4,
+    });
+    expect(getRecordCoordinates({}, 'location', '5, 6')).toEqual({ latitude: 5, longitude: 6 });
+    expect(getRecordCoordinates(undefined, 'location')).toBeNull();
+  });
+});
+
+describe('address helpers', () => {
+  it('derives the address field from the map field name', () => {
+    expect(getMapAddressField('billingAddressMap')).toBe('billingAddress');
+    expect(getMapAddressField('location')).toBeNull();
+  });
+
+  it('joins the address parts', () => {
+    const record = { addressStreet: '1 Main St', addressCity: 'Springfield', addressState: '', addressCountry: 'USA' };
+    expect(getMapAddressLabel(record, 'addressMap')).toBe('1 Main St, Springfield, USA');
+    expect(getMapAddressLabel(record, 'location')).toBe('');
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Coordinates of map fields
+ *
+ * A map field's value may be `{ latitude, longitude }` or a "lat, lng"
+ * string. EspoCRM map fields are named after their address field
+ * (`billingAddressMap` shows `billingAddress`), so coordinates are also read
+ * from `<address>Latitude` / `<address>Longitude` and `<field>Latitude` /
+ * `<field>Longitude` record attributes.
+ */
+import type { GeoPoint } from './types';
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(number) ? null : number;
+}
+
+/**
+ * Whether a point is a valid location
+ */
+export function isValidPoint(point: { latitude: number | null; longitude: number | null }): point is GeoPoint {
+  const { latitude, longitude } = point;
+  return (
+    latitude !== null &&
+    longitude !== null &&
+    !isNaN(latitude) &&
+    !isNaN(longitude) &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180
+  );
+}
+
+/**
+ * Read a point from a field value
+ */
+export function parseCoordinates(value: unknown): GeoPoint | null {
+  let point: { latitude: number | null; longitude: number | null } | null = null;
+
+  if (typeof value === 'object' && value !== null) {
+    const coords = value as { latitude?: unknown; longitude?: unknown };
+    point = { latitude: toNumber(coords.latitude), longitude: toNumber(coords.longitude) };
+  } else if (typeof value === 'string' && value.includes(',')) {
+    const parts = value.split(',');
+    if (parts.length === 2) {
+      point = { latitude: toNumber(parts[0]?.trim()), longitude: toNumber(parts[1]?.trim()) };
+    }
+  }
+
+  return point && isValidPoint(point) ? point : null;
+}
+
+/**
+ * Name of the address field a map field shows
+ */
+export function getMapAddressField(field: string): string | null {
+  return field.endsWith('Map') && field.length > 3 ? field.slice(0, -3) : null;
+}
+
+/**
+ * Read a point from record attributes with the given prefix
+ */
+function readAttributes(record: Record<string, unknown>, prefix: string): GeoPoint | null {
+  const point = {
+    latitude: toNumber(record[`${prefix}Latitude`]),
+    longitude: toNumber(record[`${prefix}Longitude`]),
+  };
+  return isValidPoint(point) ? point : null;
+}
+
+/**
+ * Location of a map field, from its value or the record's coordinate attributes
+ */
+export function getRecordCoordinates(
+  record: Record<string, unknown> | undefined,
+  field: string,
+  value: unknown = record?.[field]
+): GeoPoint | null {
+  if (record) {
+    const own = readAttributes(record, field);
+    if (own) return own;
+
+    const addressField = getMapAddressField(field);
+    const address = addressField ? readAttributes(record, addressField) : null;
+    if (address) return address;
+  }
+
+  return parseCoordinates(value);
+}
+
+/**
+ * Single-line address of a map field's address, for marker labels
+ */
+export function getMapAddressLabel(record: Record<string, unknown> | undefined, field: string): string {
+  const addressField = getMapAddressField(field);
+  if (!record || !addressField) return '';
+
+  return ['Street', 'City', 'State', 'Country']
+    .map((part) => record[`${addressField}${part}`])
+    .filter((part): part is string => typeof part === 'string' && part.trim() !== '')
+    .join(', ');
+}
+
+/**
+ * "lat, lng" with six decimals
+ */
+export function formatCoordinates(point: GeoPoint): string {
+  return `${point.latitude.toFixed(6)}, ${point.longitude.toFixed(6)}`;
+}
@@ -0,0 +1,30 @@
+/**
+ * Map Module
+ *
+ * Coordinates, tile math, settings and the provider registry used by
+ * MapField and the record map view.
+ */
+
+export type { GeoPoint, MapMarker, MapSettings, MapRendererProps, MapProvider } from './types';
+export {
+  TILE_SIZE,
+  project,
+  unproject,
+  fitBounds,
+  getVisibleTiles,
+  formatTileUrl,
+  type PixelPoint,
+  type Viewport,
+  type TilePlacement,
+} from './projection';
+export {
+  isValidPoint,
+  parseCoordinates,
+  getMapAddressField,
+  getRecordCoordinates,
+  getMapAddressLabel,
+  formatCoordinates,
+} from './coordinates';
+export { DEFAULT_MAP_PROVIDER, DEFAULT_MAP_SETTINGS, getMapSettings, formatMapLink } from './settings';
+export { registerMapProvider, unregisterMapProvider, getMapProvider, getMapProviderNames } from './registry';
+export { useMapSettings } from './useMapSettings';
@@ -0,0 +1,86 @@
+/**
+ * Map Projection Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { fitBounds, formatTileUrl, getVisibleTiles, project, unproject } from './projection';
+
+describe('project / unproject', () => {
+  it('maps the world onto tiles', () => {
+    expect(project({ latitude: 0, longitude: 0 }, 0)).toEqual({ x: 128, y: 128 });
+    expect(project({ latitude: 0, longitude: -180 }, 1)).toEqual({ x: 0, y: 256 });
+  });
+
+  it('round-trips points', () => {
+    const point = { latitude: 52.52, longitude: 13.405 };
+    const back = unproject(project(point, 12), 12);
+    expect(back.latitude).toBeCloseTo(point.latitude, 6);
+    expect(back.longitude).toBeCloseTo(point.longitude, 6);
+  });
+
+  it('clamps the poles', () => {
+    expect(project({ latitude: 90, longitude: 0 }, 0).y).toBeCloseTo(0, 3);
+  });
+});
+
+describe('fitBounds', () => {
+  it('centers between the points at the closest zoom showing all of them', () => {
+    const viewport = fitBounds(
+      [
+        { latitude: 48.8566, longitude: 2.3522 },
+        { latitude: 51.5074, longitude: -0.1278 },
+      ],
+      600,
+      400,
+      { maxZoom: 18 }
+    );
+
+    expect(viewport.zoom).toBe(6);
+    expect(viewport.center.longitude).toBeCloseTo(1.1122, 3);
+  });
+
+  it('stays within the zoom limits', () => {
+    expect(fitBounds([{ latitude: 1, longitude: 1 }], 600, 400, { maxZoom: 12 }).zoom).toBe(12);
+    expect(
+      fitBounds(
+        [
+          { latitude: 60, longitude: -170 },
+          { latitude: -60, longitude: 170 },
+        ],
+        200,
+        200,
+        { minZoom: 2 }
+      ).zoom
+    ).toBe(2);
+  });
+});
+
+describe('getVisibleTiles', () => {
+  it('covers the viewport and wraps around the date line', () => {
+    const tiles = getVisibleTiles({ center: { latitude: 0, longitude: 180 }, zoom: 1 }, 256, 256);
+
+    expect(tiles.map((tile) => [tile.x, tile.y])).toEqual([
+      [1, 0],
+      [0, 0],
+      [1, 1],
+      [0, 1],
+    ]);
+    expect(tiles[0]).toMatchObject({ left: -128, top: -128 });
+    expect(new Set(tiles.map((tile) => tile.key)).size).toBe(4);
+  });
+
+  it('skips rows beyond the poles', () => {
+    const tiles = getVisibleTiles({ center: { latitude: 0, longitude: 0 }, zoom: 0 }, 256, 1024);
+    expect(tiles).toHaveLength(1);
+  });
+});
+
+describe('formatTileUrl', () => {
+  it('fills the placeholders', () => {
+    expect(formatTileUrl('https://tiles.local/{z}/{x}/{y}.png', { x: 3, y: 5, z: 4 })).toBe(
+      'https://tiles.local/4/3/5.png'
+    );
+    expect(formatTileUrl('https://{s}.tiles.local/{z}/{x}/{y}.png', { x: 1, y: 0, z: 1 }, ['a', 'b'])).toBe(
+      'https://b.tiles.local/1/1/0.png'
+    );
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Web Mercator math for slippy-map tiles
+ *
+ * Positions are in "world pixels": at zoom z the world is a square of
+ * TILE_SIZE * 2^z pixels with (0, 0) at the top left (180°W, ~85°N).
+ */
+import type { GeoPoint } from './types';
+
+export const TILE_SIZE = 256;
+
+// Web Mercator can't show the poles
+const MAX_LATITUDE = 85.05112878;
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+export interface Viewport {
+  center: GeoPoint;
+  zoom: number;
+}
+
+export interface TilePlacement {
+  /** Unique per position, also when the world repeats */
+  key: string;
+  /** Tile coordinates to request; x is wrapped around the date line */
+  x: number;
+  y: number;
+  z: number;
+  /** Position in the viewport */
+  left: number;
+  top: number;
+}
+
+function worldSize(zoom: number): number {
+  return TILE_SIZE * 2 ** zoom;
+}
+
+/**
+ * World pixel position of a point
+ */
+export function project(point: GeoPoint, zoom: number): PixelPoint {
+  const size = worldSize(zoom);
+  const latitude = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, point.latitude));
+  const sin = Math.sin((latitude * Math.PI) / 180);
+  return {
+    x: ((point.longitude + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+}
+
+/**
+ * Point at a world pixel position
+ */
+export function unproject(pixel: PixelPoint, zoom: number): GeoPoint {
+  const size = worldSize(zoom);
+  const n = Math.PI - (2 * Math.PI * pixel.y) / size;
+  return {
+    latitude: (Math.atan(Math.sinh(n)) * 180) / Math.PI,
+    longitude: (pixel.x / size) * 360 - 180,
+  };
+}
+
+/**
+ * Center and zoom showing all points, zoomed in as far as `maxZoom`
+ */
+export function fitBounds(
+  points: GeoPoint[],
+  width: number,
+  height: number,
+  { minZoom = 0, maxZoom = 18, padding = 32 }: { minZoom?: number; maxZoom?: number; padding?: number } = {}
+): Viewport {
+  if (points.length === 0) {
+    return { center: { latitude: 0, longitude: 0 }, zoom: minZoom };
+  }
+
+  const projected = points.map((point) => project(point, 0));
+  const minX = Math.min(...projected.map((p) => p.x));
+  const maxX = Math.max(...projected.map((p) => p.x));
+  const minY = Math.min(...projected.map((p) => p.y));
+  const maxY = Math.max(...projected.map((p) => p.y));
+  const center = unproject({ x: (minX + maxX) / 2, y: (minY + maxY) / 2 }, 0);
+
+  const availableWidth = Math.max(width - padding * 2, 1);
+  const availableHeight = Math.max(height - padding * 2, 1);
+  let zoom = maxZoom;
+  while (
+    zoom > minZoom &&
+    ((maxX - minX) * 2 ** zoom > availableWidth || (maxY - minY) * 2 ** zoom > availableHeight)
+  ) {
+    zoom--;
+  }
+
+  return { center, zoom };
+}
+
+/**
+ * Tiles covering a viewport of the given size
+ */
+export function getVisibleTiles(viewport: Viewport, width: number, height: number): TilePlacement[] {
+  const { zoom } = viewport;
+  const count = 2 ** zoom;
+  const center = project(viewport.center, zoom);
+  const originX = center.x - width / 2;
+  const originY = center.y - height / 2;
+
+  const tiles: TilePlacement[] = [];
+  const firstX = Math.floor(originX / TILE_SIZE);
+  const lastX = Math.ceil((originX + width) / TILE_SIZE) - 1;
+  const firstY = Math.max(Math.floor(originY / TILE_SIZE), 0);
+  const lastY = Math.min(Math.ceil((originY + height) / TILE_SIZE) - 1, count - 1);
+
+  for (let y = firstY; y <= lastY; y++) {
+    for (let x = firstX; x <= lastX; x++) {
+      tiles.push({
+        key: `${zoom}/${x}/${y}`,
+        x: ((x % count) + count) % count,
+        y,
+        z: zoom,
+        left: x * TILE_SIZE - originX,
+        top: y * TILE_SIZE - originY,
+      });
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Fill a tile URL template
+ */
+export function formatTileUrl(template: string, tile: Pick<TilePlacement, 'x' | 'y' | 'z'>, subdomains: string[] = []): string {
+  const subdomain = subdomains.length > 0 ? subdomains[Math.abs(tile.x + tile.y) % subdomains.length] : '';
+  return template
+    .replace('{s}', subdomain ?? '')
+    .replace('{z}', String(tile.z))
+    .replace('{x}', String(tile.x))
+    .replace('{y}', String(tile.y));
+}
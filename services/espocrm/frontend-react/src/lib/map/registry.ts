@@ -0,0 +1,41 @@
+/**
+ * Map provider registry
+ *
+ * Providers are looked up by name (a field's `provider` param or the
+ * `mapProvider` setting). Like field components, providers registered by an
+ * extension module are layered over the built-in ones and can be removed
+ * again with unregisterMapProvider.
+ */
+import { createLayeredRegistry } from '@/lib/utils/layeredRegistry';
+import type { MapProvider } from './types';
+
+const providers = createLayeredRegistry<MapProvider>();
+
+/**
+ * Register a map provider.
+ * Pass an owner (module name) to layer it over a built-in provider.
+ */
+export function registerMapProvider(name: string, provider: MapProvider, owner?: string): void {
+  providers.register(name, provider, owner);
+}
+
+/**
+ * Remove a map provider registered by an owner
+ */
+export function unregisterMapProvider(name: string, owner: string): void {
+  providers.unregister(name, owner);
+}
+
+/**
+ * Get a map provider by name
+ */
+export function getMapProvider(name: string): MapProvider | undefined {
+  return providers.get(name);
+}
+
+/**
+ * Names of all registered map providers
+ */
+export function getMapProviderNames(): string[] {
+  return providers.names();
+}
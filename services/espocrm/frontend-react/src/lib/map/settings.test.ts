@@ -0,0 +1,51 @@
+/**
+ * Map Settings Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_MAP_SETTINGS, formatMapLink, getMapSettings } from './settings';
+
+describe('getMapSettings', () => {
+  it('uses defaults without settings', () => {
+    expect(getMapSettings(null)).toEqual(DEFAULT_MAP_SETTINGS);
+  });
+
+  it('has no tile server until one is configured', () => {
+    expect(getMapSettings(null)).toMatchObject({ tileUrl: '', attribution: '' });
+  });
+
+  it('reads the tile server settings', () => {
+    const settings = getMapSettings({
+      mapProvider: 'None',
+      mapTileUrl: 'https://{s}.tiles.internal/{z}/{x}/{y}.png',
+      mapTileSubdomains: 'abc',
+      mapTileAttribution: 'Internal tiles',
+      mapMaxZoom: 16,
+      mapLinkUrl: '',
+    });
+
+    expect(settings).toMatchObject({
+      provider: 'None',
+      tileUrl: 'https://{s}.tiles.internal/{z}/{x}/{y}.png',
+      tileSubdomains: ['a', 'b', 'c'],
+      attribution: 'Internal tiles',
+      maxZoom: 16,
+      linkUrl: '',
+    });
+  });
+
+  it('ignores empty or invalid values', () => {
+    const settings = getMapSettings({ mapProvider: '', mapTileUrl: '', mapMaxZoom: 'x' });
+    expect(settings.provider).toBe(DEFAULT_MAP_SETTINGS.provider);
+    expect(settings.tileUrl).toBe(DEFAULT_MAP_SETTINGS.tileUrl);
+    expect(settings.maxZoom).toBe(DEFAULT_MAP_SETTINGS.maxZoom);
+  });
+});
+
+describe('formatMapLink', () => {
+  it('fills the template or returns null when links are off', () => {
+    expect(formatMapLink('https://maps.internal/?q={lat},{lng}&z={zoom}', { latitude: 1, longitude: 2 }, 14)).toBe(
+      'https://maps.internal/?q=1,2&z=14'
+    );
+    expect(formatMapLink('', { latitude: 1, longitude: 2 }, 14)).toBeNull();
+  });
+});
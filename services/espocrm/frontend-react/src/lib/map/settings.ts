@@ -0,0 +1,67 @@
+/**
+ * Map settings
+ *
+ * Read from the application settings so a self-hosted tile server can be
+ * used behind a firewall:
+ * - `mapProvider`: default provider (`Tiles` when not set)
+ * - `mapTileUrl`, `mapTileSubdomains`, `mapTileAttribution`: tile server;
+ *   maps are off, showing a list of locations, until a tile URL is set
+ * - `mapMinZoom`, `mapMaxZoom`, `mapDefaultZoom`
+ * - `mapLinkUrl`: external map link; an empty string turns links off
+ */
+import type { GeoPoint, MapSettings } from './types';
+
+export const DEFAULT_MAP_PROVIDER = 'Tiles';
+
+export const DEFAULT_MAP_SETTINGS: MapSettings = {
+  provider: DEFAULT_MAP_PROVIDER,
+  tileUrl: '',
+  tileSubdomains: [],
+  attribution: '',
+  minZoom: 1,
+  maxZoom: 19,
+  defaultZoom: 15,
+  linkUrl: 'https://www.openstreetmap.org/?mlat={lat}&mlon={lng}#map={zoom}/{lat}/{lng}',
+};
+
+function stringSetting(value: unknown, fallback: string): string {
+  return typeof value === 'string' ? value : fallback;
+}
+
+function numberSetting(value: unknown, fallback: number): number {
+  return typeof value === 'number' && !isNaN(value) ? value : fallback;
+}
+
+/**
+ * Map settings from the application settings, with defaults for missing ones
+ */
+export function getMapSettings(settings: Record<string, unknown> | null | undefined): MapSettings {
+  const source = settings ?? {};
+  const subdomains = source.mapTileSubdomains;
+
+  return {
+    provider: stringSetting(source.mapProvider, DEFAULT_MAP_SETTINGS.provider) || DEFAULT_MAP_PROVIDER,
+    tileUrl: stringSetting(source.mapTileUrl, DEFAULT_MAP_SETTINGS.tileUrl),
+    tileSubdomains: Array.isArray(subdomains)
+      ? subdomains.filter((item): item is string => typeof item === 'string')
+      : typeof subdomains === 'string' && subdomains
+        ? subdomains.split('')
+        : DEFAULT_MAP_SETTINGS.tileSubdomains,
+    attribution: stringSetting(source.mapTileAttribution, DEFAULT_MAP_SETTINGS.attribution),
+    minZoom: numberSetting(source.mapMinZoom, DEFAULT_MAP_SETTINGS.minZoom),
+    maxZoom: numberSetting(source.mapMaxZoom, DEFAULT_MAP_SETTINGS.maxZoom),
+    defaultZoom: numberSetting(source.mapDefaultZoom, DEFAULT_MAP_SETTINGS.defaultZoom),
+    linkUrl: stringSetting(source.mapLinkUrl, DEFAULT_MAP_SETTINGS.linkUrl),
+  };
+}
+
+/**
+ * Fill the external link template for a point; null when links are off
+ */
+export function formatMapLink(template: string, point: GeoPoint, zoom: number): string | null {
+  if (!template) return null;
+  return template
+    .replaceAll('{lat}', String(point.latitude))
+    .replaceAll('{lng}', String(point.longitude))
+    .replaceAll('{zoom}', String(zoom));
+}
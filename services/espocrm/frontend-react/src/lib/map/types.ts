@@ -0,0 +1,57 @@
+import type { ComponentType } from 'react';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface MapMarker {
+  id: string;
+  position: GeoPoint;
+  /** Shown as the marker's tooltip and accessible name */
+  label?: string;
+}
+
+/**
+ * Map settings from the application config
+ */
+export interface MapSettings {
+  /** Provider used when a field doesn't name one */
+  provider: string;
+  /** Tile URL template with `{z}`, `{x}`, `{y}` and optional `{s}` placeholders */
+  tileUrl: string;
+  /** Values for `{s}` in the tile URL */
+  tileSubdomains: string[];
+  attribution: string;
+  minZoom: number;
+  maxZoom: number;
+  /** Zoom used for a single marker */
+  defaultZoom: number;
+  /**
+   * Template for links to an external map with `{lat}`, `{lng}` and `{zoom}`
+   * placeholders; empty for no link
+   */
+  linkUrl: string;
+}
+
+/**
+ * Props passed to a provider's map component
+ */
+export interface MapRendererProps {
+  markers: MapMarker[];
+  /** Height in pixels */
+  height: number;
+  settings: MapSettings;
+  onMarkerClick?: (marker: MapMarker) => void;
+  className?: string;
+}
+
+/**
+ * A map implementation, e.g. the built-in tile renderer or one added by a module
+ */
+export interface MapProvider {
+  label: string;
+  component: ComponentType<MapRendererProps>;
+  /** Link to a location in an external map application; null for none */
+  getExternalUrl?: (point: GeoPoint, settings: MapSettings) => string | null;
+}
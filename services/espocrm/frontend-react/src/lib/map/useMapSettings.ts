@@ -0,0 +1,12 @@
+import { useMemo } from 'react';
+import { useAuthStore } from '@/features/auth/store';
+import { getMapSettings } from './settings';
+import type { MapSettings } from './types';
+
+/**
+ * Map settings of the current application config
+ */
+export function useMapSettings(): MapSettings {
+  const settings = useAuthStore((state) => state.settings);
+  return useMemo(() => getMapSettings(settings), [settings]);
+}
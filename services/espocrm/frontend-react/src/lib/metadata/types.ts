@@ -33,6 +33,11 @@ export const FieldDefSchema = z.object({
   // Link field properties
   entity: z.string().optional(),
   foreign: z.string().optional(),
+  selectPrimaryFilterName: z.string().optional(),
+  selectBoolFilterList: z.array(z.string()).optional(),
+
+  // Link-multiple field
+  columns: z.record(z.string()).optional(),
 
   // File field properties
   maxFileSize: z.number().optional(),
@@ -42,6 +47,10 @@ export const FieldDefSchema = z.object({
   // Currency field
   currency: z.string().optional(),
 
+  // Duration field
+  start: z.string().optional(),
+  end: z.string().optional(),
+
   // Phone field
   typeList: z.array(z.string()).optional(),
   defaultType: z.string().optional(),
@@ -64,7 +73,11 @@ export const LinkDefSchema = z.object({
   type: z.string(),
   entity: z.string().optional(),
   foreign: z.string().optional(),
+  selectPrimaryFilterName: z.string().optional(),
+  selectBoolFilterList: z.array(z.string()).optional(),
   relationName: z.string().optional(),
+  // Relationship columns and the attributes related records carry them in
+  columnAttributeMap: z.record(z.string()).optional(),
 }).passthrough();
 
 export type LinkDef = z.infer<typeof LinkDefSchema>;
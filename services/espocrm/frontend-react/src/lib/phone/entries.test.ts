@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { getPhoneNumberChanges, getPhoneNumberEntries } from './entries';
+
+describe('getPhoneNumberEntries', () => {
+  it('prefers an array value', () => {
+    const value = [{ phoneNumber: '+12125550100', primary: true }, { primary: false }];
+
+    expect(getPhoneNumberEntries('phoneNumber', value, { phoneNumberData: [] })).toEqual([
+      { phoneNumber: '+12125550100', primary: true },
+    ]);
+  });
+
+  it('reads the rows from the record', () => {
+    const record = {
+      phoneNumberData: [
+        { phoneNumber: '+12125550100', type: 'Office', primary: true },
+        { phoneNumber: '+12125550101', type: 'Mobile', optOut: true },
+      ],
+    };
+
+    expect(getPhoneNumberEntries('phoneNumber', '+12125550100', record)).toEqual(record.phoneNumberData);
+  });
+
+  it('falls back to a single primary number', () => {
+    expect(getPhoneNumberEntries('phoneNumber', '+12125550100', {})).toEqual([
+      { phoneNumber: '+12125550100', primary: true },
+    ]);
+    expect(getPhoneNumberEntries('phoneNumber', null, {})).toEqual([]);
+  });
+});
+
+describe('getPhoneNumberChanges', () => {
+  const fieldDefs = { phoneNumber: { type: 'phone' }, name: { type: 'varchar' } };
+
+  it('saves the rows and the primary number', () => {
+    const rows = [
+      { phoneNumber: '+12125550100', type: 'Office', primary: false },
+      { phoneNumber: ' +12125550101 ', type: 'Mobile', primary: true },
+    ];
+
+    expect(getPhoneNumberChanges(fieldDefs, 'phoneNumber', rows)).toEqual({
+      phoneNumber: '+12125550101',
+      phoneNumberData: rows,
+    });
+  });
+
+  it('clears the primary number when it is blank', () => {
+    expect(getPhoneNumberChanges(fieldDefs, 'phoneNumber', [{ phoneNumber: '', primary: true }])).toEqual({
+      phoneNumber: null,
+      phoneNumberData: [{ phoneNumber: '', primary: true }],
+    });
+  });
+
+  it('ignores other fields and string values', () => {
+    expect(getPhoneNumberChanges(fieldDefs, 'name', [])).toEqual({});
+    expect(getPhoneNumberChanges(fieldDefs, 'phoneNumber', '+12125550100')).toEqual({});
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Phone number rows
+ *
+ * The `<field>Data` rows of phone fields, with the type of each number.
+ */
+import { getFieldDataChanges, getFieldDataEntries } from '@/lib/utils/fieldData';
+import type { PhoneNumberEntry } from './types';
+
+/**
+ * Numbers of a field: an array value, the record's `<field>Data`, or a
+ * single number
+ */
+export function getPhoneNumberEntries(
+  field: string,
+  value: unknown,
+  record?: Record<string, unknown>
+): PhoneNumberEntry[] {
+  return getFieldDataEntries<PhoneNumberEntry>('phoneNumber', field, value, record);
+}
+
+/**
+ * Attributes to update after a phone field changed to a list of numbers
+ */
+export function getPhoneNumberChanges(
+  fieldDefs: Record<string, { type?: string }>,
+  field: string,
+  value: unknown
+): Record<string, unknown> {
+  return getFieldDataChanges('phone', 'phoneNumber', fieldDefs, field, value);
+}
@@ -0,0 +1,21 @@
+/**
+ * Phone Module
+ *
+ * E.164 parsing, validation and formatting, the `<field>Data` rows of
+ * phone fields, phone settings and the click-to-call handler registry used
+ * by PhoneField.
+ */
+
+export type {
+  PhoneNumberEntry,
+  PhoneNumberFormat,
+  ParsedPhoneNumber,
+  PhoneSettings,
+  CallContext,
+  CallHandler,
+} from './types';
+export { parsePhoneNumber, isValidPhoneNumber, normalizePhoneNumber, formatPhoneNumber } from './phoneNumber';
+export { getPhoneNumberEntries, getPhoneNumberChanges } from './entries';
+export { DEFAULT_CALL_HANDLER, DEFAULT_PHONE_SETTINGS, getPhoneSettings, formatCallUrl } from './settings';
+export { registerCallHandler, unregisterCallHandler, getCallHandler } from './registry';
+export { usePhoneSettings } from './usePhoneSettings';
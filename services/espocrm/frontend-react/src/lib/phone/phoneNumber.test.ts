@@ -0,0 +1,88 @@
+/**
+ * Phone Number Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { formatPhoneNumber, isValidPhoneNumber, normalizePhoneNumber, parsePhoneNumber } from './phoneNumber';
+
+describe('parsePhoneNumber', () => {
+  it('reads international numbers', () => {
+    expect(parsePhoneNumber('+49 30 1234567')).toEqual({
+      number: '+49301234567',
+      countryCallingCode: '49',
+      nationalNumber: '301234567',
+      country: 'DE',
+      valid: true,
+    });
+    expect(parsePhoneNumber('0044 20 7946 0958')?.number).toBe('+442079460958');
+    expect(parsePhoneNumber('+44 (0)20 7946 0958')?.number).toBe('+442079460958');
+  });
+
+  it('reads national numbers of the default country without the trunk prefix', () => {
+    expect(parsePhoneNumber('(212) 555-0100', 'US')?.number).toBe('+12125550100');
+    expect(parsePhoneNumber('1-212-555-0100', 'US')?.number).toBe('+12125550100');
+    expect(parsePhoneNumber('030 1234567', 'DE')?.number).toBe('+49301234567');
+    expect(parsePhoneNumber('06 12 34 56 78', 'FR')?.number).toBe('+33612345678');
+    expect(parsePhoneNumber('2125550100')).toBeNull();
+  });
+
+  it('tells countries sharing a calling code apart', () => {
+    expect(parsePhoneNumber('+1 416 555 0100')?.country).toBe('CA');
+    expect(parsePhoneNumber('+1 212 555 0100')?.country).toBe('US');
+    expect(parsePhoneNumber('416 555 0100', 'US')?.country).toBe('CA');
+  });
+
+  it('reads numbers of any country', () => {
+    expect(parsePhoneNumber('+7 495 123 45 67')).toEqual({
+      number: '+74951234567',
+      countryCallingCode: '7',
+      nationalNumber: '4951234567',
+      country: 'RU',
+      valid: true,
+    });
+    expect(parsePhoneNumber('+55 11 91234 5678')?.country).toBe('BR');
+  });
+
+  it('rejects text that is not a number', () => {
+    expect(parsePhoneNumber('call me')).toBeNull();
+    expect(parsePhoneNumber('')).toBeNull();
+  });
+});
+
+describe('isValidPhoneNumber', () => {
+  it('checks the numbering plan of the country', () => {
+    expect(isValidPhoneNumber('+33 6 12 34 56 78')).toBe(true);
+    expect(isValidPhoneNumber('+33 6 12 34')).toBe(false);
+    expect(isValidPhoneNumber('055 123 4567', 'US')).toBe(false);
+    expect(isValidPhoneNumber('(555) 123-4567', 'US')).toBe(false);
+    expect(isValidPhoneNumber('+1234567890123456')).toBe(false);
+  });
+});
+
+describe('normalizePhoneNumber', () => {
+  it('stores valid numbers in E.164 and keeps others as typed', () => {
+    expect(normalizePhoneNumber(' (212) 555-0100 ', 'US')).toBe('+12125550100');
+    expect(normalizePhoneNumber(' 123 ', 'US')).toBe('123');
+  });
+});
+
+describe('formatPhoneNumber', () => {
+  it('uses the national format for numbers of the default country', () => {
+    expect(formatPhoneNumber('+12125550100', 'national', 'US')).toBe('(212) 555-0100');
+    expect(formatPhoneNumber('+14165550100', 'national', 'US')).toBe('(416) 555-0100');
+    expect(formatPhoneNumber('+49301234567', 'national', 'DE')).toBe('030 1234567');
+    expect(formatPhoneNumber('+447911123456', 'national', 'GB')).toBe('07911 123456');
+  });
+
+  it('uses the international format for other numbers', () => {
+    expect(formatPhoneNumber('+49301234567', 'national', 'US')).toBe('+49 30 1234567');
+    expect(formatPhoneNumber('+12125550100', 'international', 'US')).toBe('+1 212 555 0100');
+    expect(formatPhoneNumber('+33612345678')).toBe('+33 6 12 34 56 78');
+    expect(formatPhoneNumber('+442079460958')).toBe('+44 20 7946 0958');
+  });
+
+  it('shows E.164 when asked or when the number is not valid', () => {
+    expect(formatPhoneNumber('(212) 555-0100', 'E.164', 'US')).toBe('+12125550100');
+    expect(formatPhoneNumber('+15551234567', 'national', 'US')).toBe('+15551234567');
+    expect(formatPhoneNumber(' ext 12 ')).toBe('ext 12');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Phone number parsing and formatting
+ *
+ * Numbers are stored in E.164 (`+4930123456`). Input is read as
+ * international when it starts with `+` or `00`, and otherwise as a national
+ * number of the default country. Numbering plans come from libphonenumber-js.
+ */
+import {
+  getCountryCallingCode,
+  isSupportedCountry,
+  parsePhoneNumberFromString,
+  type CountryCode,
+  type PhoneNumber,
+} from 'libphonenumber-js';
+import type { ParsedPhoneNumber, PhoneNumberFormat } from './types';
+
+function toCountryCode(country: string | null | undefined): CountryCode | undefined {
+  return country && isSupportedCountry(country) ? country : undefined;
+}
+
+function parse(input: string, defaultCountry: string | null | undefined): PhoneNumber | undefined {
+  const text = input.trim();
+  if (!text || !/^\+?[\d\s().\-/]+$/.test(text)) return undefined;
+
+  // libphonenumber-js reads the `00` international prefix only with a default country
+  const international = text.startsWith('00') ? `+${text.slice(2)}` : text;
+  const country = toCountryCode(defaultCountry);
+  if (!international.startsWith('+') && !country) return undefined;
+
+  return parsePhoneNumberFromString(international, country);
+}
+
+/**
+ * Parse a phone number typed in any common notation; null when it isn't one
+ * or when a national number is given without a known default country
+ */
+export function parsePhoneNumber(input: string, defaultCountry?: string | null): ParsedPhoneNumber | null {
+  const phoneNumber = parse(input, defaultCountry);
+  if (!phoneNumber) return null;
+
+  return {
+    number: phoneNumber.number,
+    countryCallingCode: phoneNumber.countryCallingCode,
+    nationalNumber: phoneNumber.nationalNumber,
+    country: phoneNumber.country,
+    valid: phoneNumber.isValid(),
+  };
+}
+
+/**
+ * Whether a number is valid for its country
+ */
+export function isValidPhoneNumber(input: string, defaultCountry?: string | null): boolean {
+  return parsePhoneNumber(input, defaultCountry)?.valid ?? false;
+}
+
+/**
+ * E.164 form of a valid number; other input is returned trimmed
+ */
+export function normalizePhoneNumber(input: string, defaultCountry?: string | null): string {
+  const parsed = parsePhoneNumber(input, defaultCountry);
+  return parsed?.valid ? parsed.number : input.trim();
+}
+
+/**
+ * Format a number for display
+ *
+ * The national format is used for numbers of the default country (and of
+ * countries sharing its calling code); others are shown internationally.
+ * Numbers that aren't valid are shown as typed, or as E.164 if parsed.
+ */
+export function formatPhoneNumber(
+  input: string,
+  format: PhoneNumberFormat = 'international',
+  defaultCountry?: string | null
+): string {
+  const phoneNumber = parse(input, defaultCountry);
+  if (!phoneNumber) return input.trim();
+  if (!phoneNumber.isValid() || format === 'E.164') return phoneNumber.number;
+
+  const home = toCountryCode(defaultCountry);
+  if (format === 'national' && home && getCountryCallingCode(home) === phoneNumber.countryCallingCode) {
+    return phoneNumber.formatNational();
+  }
+
+  return phoneNumber.formatInternational();
+}
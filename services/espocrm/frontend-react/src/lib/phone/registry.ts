@@ -0,0 +1,42 @@
+/**
+ * Click-to-call handler registry
+ *
+ * Handlers are looked up by the `phoneCallHandler` setting or preference.
+ * The built-in `tel` handler links to the `phoneCallUrl` template; softphone
+ * integrations registered by an extension module are layered over the
+ * built-in handlers and can be removed again with unregisterCallHandler.
+ */
+import { createLayeredRegistry } from '@/lib/utils/layeredRegistry';
+import { DEFAULT_CALL_HANDLER, formatCallUrl } from './settings';
+import type { CallHandler } from './types';
+
+const telCallHandler: CallHandler = {
+  label: 'Phone link',
+  getHref: (number, settings) => formatCallUrl(settings.callUrl, number),
+};
+
+const callHandlers = createLayeredRegistry<CallHandler>({
+  [DEFAULT_CALL_HANDLER]: telCallHandler,
+});
+
+/**
+ * Register a click-to-call handler.
+ * Pass an owner (module name) to layer it over a built-in handler.
+ */
+export function registerCallHandler(name: string, handler: CallHandler, owner?: string): void {
+  callHandlers.register(name, handler, owner);
+}
+
+/**
+ * Remove a click-to-call handler registered by an owner
+ */
+export function unregisterCallHandler(name: string, owner: string): void {
+  callHandlers.unregister(name, owner);
+}
+
+/**
+ * Get a click-to-call handler by name
+ */
+export function getCallHandler(name: string): CallHandler | undefined {
+  return callHandlers.get(name);
+}
@@ -0,0 +1,43 @@
+/**
+ * Phone Settings Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PHONE_SETTINGS, formatCallUrl, getPhoneSettings } from './settings';
+
+describe('getPhoneSettings', () => {
+  it('uses defaults for missing settings', () => {
+    expect(getPhoneSettings(null)).toEqual(DEFAULT_PHONE_SETTINGS);
+  });
+
+  it('reads settings, with user preferences first', () => {
+    expect(
+      getPhoneSettings(
+        {
+          phoneNumberDefaultCountry: 'de',
+          phoneNumberFormat: 'national',
+          phoneCallHandler: 'tel',
+          phoneCallUrl: 'sip:{number}@pbx.local',
+        },
+        { phoneNumberFormat: 'international', phoneCallHandler: 'Softphone' }
+      )
+    ).toEqual({
+      defaultCountry: 'DE',
+      format: 'international',
+      callHandler: 'Softphone',
+      callUrl: 'sip:{number}@pbx.local',
+    });
+  });
+
+  it('takes the default country from the language', () => {
+    expect(getPhoneSettings({ language: 'en_US' }).defaultCountry).toBe('US');
+    expect(getPhoneSettings({ language: 'en_US' }, { language: 'pt_BR' }).defaultCountry).toBe('BR');
+    expect(getPhoneSettings({ language: 'en_XX', phoneNumberFormat: 'fancy' })).toEqual(DEFAULT_PHONE_SETTINGS);
+  });
+});
+
+describe('formatCallUrl', () => {
+  it('fills in the number', () => {
+    expect(formatCallUrl('tel:{number}', '+15551234567')).toBe('tel:+15551234567');
+    expect(formatCallUrl('callto:{number}', '555 1234')).toBe('callto:555%201234');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Phone settings
+ *
+ * - `phoneNumberDefaultCountry`: country of numbers typed without a calling
+ *   code; taken from the language (`en_US` → `US`) when not set
+ * - `phoneNumberFormat`: `national` (default), `international` or `E.164`;
+ *   a user preference of the same name takes precedence
+ * - `phoneCallHandler`: click-to-call handler (`tel` when not set); users
+ *   may pick their own softphone in their preferences
+ * - `phoneCallUrl`: link template of the `tel` handler, e.g. `sip:{number}@pbx.local`
+ */
+import { isSupportedCountry } from 'libphonenumber-js';
+import type { PhoneNumberFormat, PhoneSettings } from './types';
+
+export const DEFAULT_CALL_HANDLER = 'tel';
+
+export const DEFAULT_PHONE_SETTINGS: PhoneSettings = {
+  defaultCountry: null,
+  format: 'national',
+  callHandler: DEFAULT_CALL_HANDLER,
+  callUrl: 'tel:{number}',
+};
+
+const FORMATS: PhoneNumberFormat[] = ['national', 'international', 'E.164'];
+
+function stringSetting(...values: unknown[]): string | undefined {
+  return values.find((value): value is string => typeof value === 'string' && value !== '');
+}
+
+function getLanguageCountry(language: string | undefined): string | null {
+  const region = language?.split(/[_-]/)[1]?.toUpperCase();
+  return region && isSupportedCountry(region) ? region : null;
+}
+
+/**
+ * Phone settings from the application settings and user preferences
+ */
+export function getPhoneSettings(
+  settings: Record<string, unknown> | null | undefined,
+  preferences?: Record<string, unknown> | null
+): PhoneSettings {
+  const source = settings ?? {};
+  const user = preferences ?? {};
+
+  const country = stringSetting(source.phoneNumberDefaultCountry)?.toUpperCase();
+  const format = stringSetting(user.phoneNumberFormat, source.phoneNumberFormat);
+
+  return {
+    defaultCountry:
+      country && isSupportedCountry(country)
+        ? country
+        : getLanguageCountry(stringSetting(user.language, source.language)),
+    format: FORMATS.find((item) => item === format) ?? DEFAULT_PHONE_SETTINGS.format,
+    callHandler: stringSetting(user.phoneCallHandler, source.phoneCallHandler) ?? DEFAULT_PHONE_SETTINGS.callHandler,
+    callUrl: stringSetting(source.phoneCallUrl) ?? DEFAULT_PHONE_SETTINGS.callUrl,
+  };
+}
+
+/**
+ * Fill a call link template with a number
+ */
+export function formatCallUrl(template: string, number: string): string {
+  return template.replaceAll('{number}', encodeURI(number));
+}
@@ -0,0 +1,60 @@
+/**
+ * Phone Number Types
+ */
+
+/**
+ * One number of a phone field, as stored in `<field>Data`
+ */
+export interface PhoneNumberEntry {
+  /** Number in E.164 (`+15551234567`) once it could be parsed */
+  phoneNumber: string;
+  /** One of the field's `typeList` values, e.g. `Mobile` */
+  type?: string;
+  primary?: boolean;
+  /** The contact asked not to be called on this number */
+  optOut?: boolean;
+  /** The number is known not to work */
+  invalid?: boolean;
+}
+
+export type PhoneNumberFormat = 'national' | 'international' | 'E.164';
+
+export interface ParsedPhoneNumber {
+  /** Number in E.164 */
+  number: string;
+  countryCallingCode: string;
+  /** National significant number: the digits after the calling code */
+  nationalNumber: string;
+  /** ISO 3166-1 alpha-2 code; undefined when the number fits no country's plan */
+  country?: string;
+  /** Whether the number fits the numbering plan of its country */
+  valid: boolean;
+}
+
+export interface PhoneSettings {
+  /** Country of numbers entered without a `+` calling code */
+  defaultCountry: string | null;
+  /** National format applies to numbers of the default country only */
+  format: PhoneNumberFormat;
+  /** Name of the click-to-call handler */
+  callHandler: string;
+  /** Link template of the `tel` handler; `{number}` is replaced by the E.164 number */
+  callUrl: string;
+}
+
+export interface CallContext {
+  entityType: string;
+  recordId?: string;
+  field: string;
+}
+
+/**
+ * Click-to-call handler, e.g. a softphone integration
+ */
+export interface CallHandler {
+  label: string;
+  /** Link for a number; numbers without one are shown as buttons */
+  getHref?(number: string, settings: PhoneSettings): string | null;
+  /** Start a call; when given, the link is not followed */
+  call?(number: string, context: CallContext): void;
+}
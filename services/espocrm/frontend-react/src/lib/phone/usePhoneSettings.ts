@@ -0,0 +1,17 @@
+import { useMemo } from 'react';
+import { useAuthStore } from '@/features/auth/store';
+import { getCallHandler } from './registry';
+import { DEFAULT_CALL_HANDLER, getPhoneSettings } from './settings';
+import type { CallHandler, PhoneSettings } from './types';
+
+/**
+ * Phone settings of the current user, with the click-to-call handler they
+ * select (the `tel` handler when it isn't registered)
+ */
+export function usePhoneSettings(): { settings: PhoneSettings; callHandler: CallHandler | undefined } {
+  const appSettings = useAuthStore((state) => state.settings);
+  const preferences = useAuthStore((state) => state.preferences);
+  const settings = useMemo(() => getPhoneSettings(appSettings, preferences), [appSettings, preferences]);
+  const callHandler = getCallHandler(settings.callHandler) ?? getCallHandler(DEFAULT_CALL_HANDLER);
+  return { settings, callHandler };
+}
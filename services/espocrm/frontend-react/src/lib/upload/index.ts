@@ -0,0 +1,29 @@
+/**
+ * Upload Module
+ *
+ * Upload rules and the chunked upload queue used by the file fields.
+ */
+
+export {
+  getUploadRules,
+  getAcceptAttribute,
+  matchesAccept,
+  checkFiles,
+  type UploadRules,
+  type FileRejection,
+  type CheckFilesResult,
+} from './rules';
+
+export {
+  useUploadQueue,
+  type UploadItem,
+  type UploadStatus,
+  type UseUploadQueueOptions,
+  type UseUploadQueueResult,
+} from './useUploadQueue';
+
+export {
+  useFieldUpload,
+  type UseFieldUploadOptions,
+  type UseFieldUploadResult,
+} from './useFieldUpload';
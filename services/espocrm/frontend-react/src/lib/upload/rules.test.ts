@@ -0,0 +1,68 @@
+/**
+ * Upload Rules Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { checkFiles, getAcceptAttribute, getUploadRules, matchesAccept } from './rules';
+
+function file(name: string, type: string, size = 10): File {
+  const upload = new File(['x'], name, { type });
+  Object.defineProperty(upload, 'size', { value: size });
+  return upload;
+}
+
+describe('getUploadRules', () => {
+  it('reads rules from the field definition or its params', () => {
+    expect(getUploadRules({ type: 'file', maxFileSize: 5, accept: ['.pdf'] })).toEqual({
+      accept: ['.pdf'],
+      maxFileSize: 5,
+      maxCount: undefined,
+    });
+    expect(getUploadRules({ type: 'attachmentMultiple', params: { maxCount: 3 } }).maxCount).toBe(3);
+  });
+
+  it('falls back to the default accept list', () => {
+    const rules = getUploadRules({ type: 'image' }, ['image/*']);
+    expect(getAcceptAttribute(rules)).toBe('image/*');
+    expect(getAcceptAttribute(getUploadRules({ type: 'file' }))).toBeUndefined();
+  });
+});
+
+describe('matchesAccept', () => {
+  it('matches extensions, MIME types and wildcards', () => {
+    expect(matchesAccept(file('a.PDF', 'application/pdf'), ['.pdf'])).toBe(true);
+    expect(matchesAccept(file('a.png', 'image/png'), ['image/*'])).toBe(true);
+    expect(matchesAccept(file('a.png', 'image/png'), ['image/jpeg'])).toBe(false);
+    expect(matchesAccept(file('a.exe', 'application/x-msdownload'), [])).toBe(true);
+  });
+});
+
+describe('checkFiles', () => {
+  it('rejects files of other types, oversized files and files over the count', () => {
+    const rules = { accept: ['.pdf', '.txt'], maxFileSize: 1, maxCount: 2 };
+    const result = checkFiles(
+      [
+        file('a.pdf', 'application/pdf'),
+        file('b.exe', 'application/x-msdownload'),
+        file('c.pdf', 'application/pdf', 2 * 1024 * 1024),
+        file('d.txt', 'text/plain'),
+      ],
+      rules,
+      { existingCount: 1 }
+    );
+
+    expect(result.accepted.map((f) => f.name)).toEqual(['a.pdf']);
+    expect(result.rejected.map((r) => r.message)).toEqual([
+      'b.exe: file type is not allowed',
+      'c.pdf: file should not exceed 1 MB',
+      'Maximum 2 files allowed',
+    ]);
+  });
+
+  it('uses translated messages', () => {
+    const t = (key: string): string =>
+      key === 'Global.messages.fieldMaxFileSizeError' ? '{fileName} ist größer als {max} MB' : key;
+    const result = checkFiles([file('a.pdf', 'application/pdf', 3 * 1024 * 1024)], { accept: [], maxFileSize: 2 }, { t });
+
+    expect(result.rejected[0]?.message).toBe('a.pdf ist größer als 2 MB');
+  });
+});
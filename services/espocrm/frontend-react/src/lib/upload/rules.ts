@@ -0,0 +1,112 @@
+/**
+ * Upload Rules
+ *
+ * Client-side checks for file fields, from the `maxFileSize` (MB), `accept`
+ * and `maxCount` field parameters. The server enforces the same limits; these
+ * only spare the user a failed upload.
+ */
+import type { FieldDef } from '@/fields/types';
+import { formatValidationMessage, type TranslateFunction } from '@/lib/validation/messages';
+
+export interface UploadRules {
+  /** MIME types (`image/png`, `image/*`) and extensions (`.pdf`) */
+  accept: string[];
+  /** Maximum file size in MB */
+  maxFileSize?: number;
+  /** Maximum number of files in the field */
+  maxCount?: number;
+}
+
+export interface FileRejection {
+  file: File;
+  message: string;
+}
+
+export interface CheckFilesResult {
+  accepted: File[];
+  rejected: FileRejection[];
+}
+
+/**
+ * Read the upload rules of a field; `params` is checked as well since some
+ * layouts nest field parameters there
+ */
+export function getUploadRules(fieldDef: FieldDef, defaultAccept: string[] = []): UploadRules {
+  const params = fieldDef.params ?? {};
+  const accept = fieldDef.accept ?? (params.accept as string[] | undefined);
+  const maxFileSize = fieldDef.maxFileSize ?? (params.maxFileSize as number | undefined);
+  const maxCount = fieldDef.maxCount ?? (params.maxCount as number | undefined);
+
+  return {
+    accept: accept && accept.length > 0 ? accept : defaultAccept,
+    maxFileSize: maxFileSize || undefined,
+    maxCount: maxCount || undefined,
+  };
+}
+
+/**
+ * Value for the `accept` attribute of a file input
+ */
+export function getAcceptAttribute(rules: UploadRules): string | undefined {
+  return rules.accept.length > 0 ? rules.accept.join(',') : undefined;
+}
+
+/**
+ * Whether a file matches an accept list (empty list accepts everything)
+ */
+export function matchesAccept(file: File, accept: string[]): boolean {
+  if (accept.length === 0) return true;
+
+  const fileName = file.name.toLowerCase();
+  const fileType = file.type.toLowerCase();
+
+  return accept.some((entry) => {
+    const pattern = entry.trim().toLowerCase();
+    if (!pattern) return false;
+    if (pattern.startsWith('.')) return fileName.endsWith(pattern);
+    if (pattern.endsWith('/*')) return fileType.startsWith(pattern.slice(0, -1));
+    return fileType === pattern;
+  });
+}
+
+/**
+ * Split files into accepted and rejected ones
+ *
+ * `existingCount` is the number of files the field already holds, including
+ * uploads in progress.
+ */
+export function checkFiles(
+  files: File[],
+  rules: UploadRules,
+  options: { existingCount?: number; t?: TranslateFunction } = {}
+): CheckFilesResult {
+  const { existingCount = 0, t } = options;
+  const result: CheckFilesResult = { accepted: [], rejected: [] };
+
+  for (const file of files) {
+    if (!matchesAccept(file, rules.accept)) {
+      result.rejected.push({
+        file,
+        message: formatValidationMessage('fieldNotAllowedFileType', { fileName: file.name }, t),
+      });
+    } else if (rules.maxFileSize && file.size > rules.maxFileSize * 1024 * 1024) {
+      result.rejected.push({
+        file,
+        message: formatValidationMessage(
+          'fieldMaxFileSizeError',
+          { fileName: file.name, max: rules.maxFileSize },
+          t
+        ),
+      });
+    } else if (rules.maxCount && existingCount + result.accepted.length >= rules.maxCount) {
+      result.rejected.push({
+        file,
+        message: formatValidationMessage('fieldExceedsMaxCount', { maxCount: rules.maxCount }, t),
+      });
+    } else {
+      result.accepted.push(file);
+    }
+  }
+
+  return result;
+}
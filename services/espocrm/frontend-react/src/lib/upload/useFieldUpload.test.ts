@@ -0,0 +1,44 @@
+/**
+ * useFieldUpload Tests
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useFieldUpload } from './useFieldUpload';
+import type { FieldDef } from '@/fields/types';
+
+vi.mock('@/api/attachments', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/api/attachments')>()),
+  uploadAttachmentInChunks: vi.fn(() => new Promise(() => {})),
+}));
+
+vi.mock('@/hooks/useTranslation', () => {
+  const translations: Record<string, string> = {
+    'Global.messages.fieldNotAllowedFileType': '{fileName} : type de fichier non autorisé',
+    'Global.messages.fieldExceedsMaxCount': '{maxCount} fichiers au maximum',
+  };
+  const helpers = { t: (key: string): string => translations[key] ?? key };
+  return { useTranslation: () => helpers };
+});
+
+const fieldDef: FieldDef = { type: 'attachmentMultiple', accept: ['.pdf'], maxCount: 1 };
+
+function file(name: string): File {
+  return new File(['content'], name, { type: 'application/pdf' });
+}
+
+describe('useFieldUpload', () => {
+  it('translates the rejection messages', () => {
+    const { result } = renderHook(() =>
+      useFieldUpload({ name: 'attachments', entityType: 'Note', fieldDef, onUploaded: vi.fn() })
+    );
+
+    act(() => {
+      result.current.handleFiles([file('setup.exe'), file('a.pdf'), file('b.pdf')]);
+    });
+
+    expect(result.current.rejections.map((rejection) => rejection.message)).toEqual([
+      'setup.exe : type de fichier non autorisé',
+      '1 fichiers au maximum',
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * useFieldUpload - upload handling shared by the file fields
+ *
+ * Checks picked or dropped files against the field's upload rules and queues
+ * the accepted ones; rejected files are kept for display until the next pick.
+ * With `prepareFiles`, accepted files go there first (e.g. to a cropper) and
+ * are queued with `queueFiles` afterwards; the size limit is then checked on
+ * the prepared files.
+ */
+import { useCallback, useMemo, useState } from 'react';
+import type { Attachment } from '@/api/attachments';
+import type { FieldDef } from '@/fields/types';
+import { useTranslation } from '@/hooks/useTranslation';
+import { checkFiles, getUploadRules, type FileRejection, type UploadRules } from './rules';
+import { useUploadQueue, type UseUploadQueueResult } from './useUploadQueue';
+
+export interface UseFieldUploadOptions {
+  name: string;
+  entityType: string;
+  fieldDef: FieldDef;
+  /** Accept list used when the field defines none */
+  defaultAccept?: string[];
+  /** Files the field already holds, counted against `maxCount` */
+  existingCount?: number;
+  onUploaded: (attachment: Attachment) => void;
+  /** Receives accepted files instead of the queue */
+  prepareFiles?: (files: File[]) => void;
+}
+
+export interface UseFieldUploadResult {
+  rules: UploadRules;
+  queue: UseUploadQueueResult;
+  rejections: FileRejection[];
+  /** Check and queue picked or dropped files */
+  handleFiles: (files: File[]) => void;
+  /** Check and queue prepared files */
+  queueFiles: (files: File[]) => void;
+  dismissRejections: () => void;
+}
+
+export function useFieldUpload({
+  name,
+  entityType,
+  fieldDef,
+  defaultAccept,
+  existingCount = 0,
+  onUploaded,
+  prepareFiles,
+}: UseFieldUploadOptions): UseFieldUploadResult {
+  const [rejections, setRejections] = useState<FileRejection[]>([]);
+  const { t } = useTranslation();
+
+  const rules = useMemo(() => getUploadRules(fieldDef, defaultAccept), [fieldDef, defaultAccept]);
+
+  const queue = useUploadQueue({
+    role: 'Attachment',
+    relatedType: entityType,
+    field: name,
+    onUploaded,
+  });
+
+  const { addFiles, items } = queue;
+
+  const queueFiles = useCallback(
+    (files: File[]): void => {
+      const { accepted, rejected } = checkFiles(files, rules, {
+        existingCount: existingCount + items.length,
+        t,
+      });
+      setRejections(rejected);
+      addFiles(accepted);
+    },
+    [rules, existingCount, items.length, addFiles, t]
+  );
+
+  const handleFiles = useCallback(
+    (files: File[]): void => {
+      if (!prepareFiles) {
+        queueFiles(files);
+        return;
+      }
+      const { accepted, rejected } = checkFiles(files, { ...rules, maxFileSize: undefined }, {
+        existingCount: existingCount + items.length,
+        t,
+      });
+      setRejections(rejected);
+      if (accepted.length > 0) prepareFiles(accepted);
+    },
+    [prepareFiles, queueFiles, rules, existingCount, items.length, t]
+  );
+
+  const dismissRejections = useCallback(() => setRejections([]), []);
+
+  return { rules, queue, rejections, handleFiles, queueFiles, dismissRejections };
+}
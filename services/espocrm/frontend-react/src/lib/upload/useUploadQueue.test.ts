@@ -0,0 +1,110 @@
+/**
+ * useUploadQueue Tests
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useUploadQueue } from './useUploadQueue';
+import type { Attachment, ChunkedUploadOptions } from '@/api/attachments';
+
+vi.mock('@/api/attachments', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/api/attachments')>()),
+  uploadAttachmentInChunks: vi.fn(),
+}));
+
+import { uploadAttachmentInChunks } from '@/api/attachments';
+
+const mockUpload = vi.mocked(uploadAttachmentInChunks);
+
+interface PendingUpload {
+  file: File;
+  options: ChunkedUploadOptions;
+  resolve: (attachment: Attachment) => void;
+  reject: (error: unknown) => void;
+}
+
+let pending: PendingUpload[] = [];
+
+function file(name: string): File {
+  return new File(['content'], name, { type: 'text/plain' });
+}
+
+describe('useUploadQueue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    pending = [];
+    mockUpload.mockImplementation(
+      (uploadFile, options = {}) =>
+        new Promise<Attachment>((resolve, reject) => {
+          pending.push({ file: uploadFile, options, resolve, reject });
+        })
+    );
+  });
+
+  it('uploads files with limited concurrency and hands over finished uploads', async () => {
+    const onUploaded = vi.fn();
+    const { result } = renderHook(() =>
+      useUploadQueue({ onUploaded, concurrency: 1, relatedType: 'Document', field: 'file' })
+    );
+
+    act(() => result.current.addFiles([file('a.txt'), file('b.txt')]));
+
+    expect(result.current.items.map((item) => item.status)).toEqual(['uploading', 'queued']);
+    expect(result.current.isUploading).toBe(true);
+    expect(pending).toHaveLength(1);
+    expect(pending[0]?.options).toMatchObject({ relatedType: 'Document', field: 'file' });
+
+    act(() => {
+      pending[0]?.options.onProgress?.({ attachment: { id: 'a', name: 'a.txt' }, uploadedBytes: 4 });
+    });
+    expect(result.current.items[0]?.uploadedBytes).toBe(4);
+
+    await act(async () => pending[0]?.resolve({ id: 'a', name: 'a.txt' }));
+
+    expect(onUploaded).toHaveBeenCalledWith({ id: 'a', name: 'a.txt' });
+    expect(result.current.items.map((item) => item.file.name)).toEqual(['b.txt']);
+    await waitFor(() => expect(pending).toHaveLength(2));
+  });
+
+  it('resumes a failed upload from its last stored chunk', async () => {
+    const { result } = renderHook(() => useUploadQueue({ onUploaded: vi.fn() }));
+
+    act(() => result.current.addFiles([file('a.txt')]));
+    const progress = { attachment: { id: 'a', name: 'a.txt' }, uploadedBytes: 4 };
+    act(() => pending[0]?.options.onProgress?.(progress));
+    await act(async () => pending[0]?.reject(new Error('Network error')));
+
+    expect(result.current.items[0]).toMatchObject({ status: 'failed', error: 'Network error' });
+    expect(result.current.isUploading).toBe(false);
+
+    act(() => result.current.retry(result.current.items[0]?.key ?? ''));
+
+    expect(result.current.items[0]?.status).toBe('uploading');
+    expect(pending[1]?.options.resume).toEqual(progress);
+  });
+
+  it('cancels an upload', async () => {
+    const onUploaded = vi.fn();
+    const { result } = renderHook(() => useUploadQueue({ onUploaded }));
+
+    act(() => result.current.addFiles([file('a.txt')]));
+    const signal = pending[0]?.options.signal;
+
+    act(() => result.current.cancel(result.current.items[0]?.key ?? ''));
+
+    expect(signal?.aborted).toBe(true);
+    expect(result.current.items).toEqual([]);
+
+    await act(async () => pending[0]?.reject(new DOMException('Upload cancelled', 'AbortError')));
+    expect(result.current.items).toEqual([]);
+    expect(onUploaded).not.toHaveBeenCalled();
+  });
+
+  it('aborts running uploads on unmount', () => {
+    const { result, unmount } = renderHook(() => useUploadQueue({ onUploaded: vi.fn() }));
+
+    act(() => result.current.addFiles([file('a.txt')]));
+    unmount();
+
+    expect(pending[0]?.options.signal?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * useUploadQueue - queued, chunked attachment uploads for file fields
+ *
+ * Files are uploaded a few at a time through the chunk API. Each item keeps
+ * the last stored chunk, so retrying a failed upload resumes from there
+ * instead of starting over. Finished uploads are handed to `onUploaded` and
+ * leave the queue.
+ */
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  uploadAttachmentInChunks,
+  isUploadCancelled,
+  type Attachment,
+  type ChunkedUploadProgress,
+  type UploadAttachmentOptions,
+} from '@/api/attachments';
+
+export type UploadStatus = 'queued' | 'uploading' | 'failed';
+
+export interface UploadItem {
+  key: string;
+  file: File;
+  status: UploadStatus;
+  /** Bytes stored on the server */
+  uploadedBytes: number;
+  error?: string;
+  /** Set once the first chunk is stored; used to resume */
+  progress?: ChunkedUploadProgress;
+}
+
+export interface UseUploadQueueOptions extends UploadAttachmentOptions {
+  /** Called with each finished upload */
+  onUploaded: (attachment: Attachment) => void;
+  /** Uploads running at the same time */
+  concurrency?: number;
+  chunkSize?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+}
+
+export interface UseUploadQueueResult {
+  items: UploadItem[];
+  /** Whether any upload is queued or running */
+  isUploading: boolean;
+  addFiles: (files: File[]) => void;
+  /** Stop an upload and remove it from the queue */
+  cancel: (key: string) => void;
+  /** Resume a failed upload */
+  retry: (key: string) => void;
+  /** Remove a failed upload from the queue */
+  dismiss: (key: string) => void;
+}
+
+let keyCounter = 0;
+
+export function useUploadQueue({
+  onUploaded,
+  concurrency = 2,
+  chunkSize,
+  maxRetries,
+  retryDelayMs,
+  role,
+  relatedType,
+  field,
+}: UseUploadQueueOptions): UseUploadQueueResult {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  // Source of truth for the async upload loop; `items` mirrors it for rendering
+  const itemsRef = useRef<UploadItem[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const onUploadedRef = useRef(onUploaded);
+
+  useEffect(() => {
+    onUploadedRef.current = onUploaded;
+  }, [onUploaded]);
+
+  // Stop running uploads when the field goes away
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach((controller) => controller.abort());
+      controllers.clear();
+    };
+  }, []);
+
+  const commit = useCallback((next: UploadItem[]): void => {
+    itemsRef.current = next;
+    setItems(next);
+  }, []);
+
+  const update = useCallback(
+    (key: string, patch: Partial<UploadItem>): void => {
+      commit(itemsRef.current.map((item) => (item.key === key ? { ...item, ...patch } : item)));
+    },
+    [commit]
+  );
+
+  const remove = useCallback(
+    (key: string): void => {
+      commit(itemsRef.current.filter((item) => item.key !== key));
+    },
+    [commit]
+  );
+
+  const pump = useCallback((): void => {
+    let running = itemsRef.current.filter((item) => item.status === 'uploading').length;
+
+    for (const item of itemsRef.current) {
+      if (running >= concurrency) break;
+      if (item.status !== 'queued') continue;
+      running++;
+
+      const controller = new AbortController();
+      controllersRef.current.set(item.key, controller);
+      update(item.key, { status: 'uploading', error: undefined });
+
+      uploadAttachmentInChunks(item.file, {
+        role,
+        relatedType,
+        field,
+        chunkSize,
+        maxRetries,
+        retryDelayMs,
+        signal: controller.signal,
+        resume: item.progress,
+        onProgress: (progress) => {
+          update(item.key, { progress, uploadedBytes: progress.uploadedBytes });
+        },
+      })
+        .then((attachment) => {
+          remove(item.key);
+          onUploadedRef.current(attachment);
+        })
+        .catch((error: unknown) => {
+          // Cancelled items are already gone from the queue
+          if (isUploadCancelled(error)) return;
+          update(item.key, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Upload failed',
+          });
+        })
+        .finally(() => {
+          controllersRef.current.delete(item.key);
+          pump();
+        });
+    }
+  }, [concurrency, chunkSize, maxRetries, retryDelayMs, role, relatedType, field, update, remove]);
+
+  const addFiles = useCallback(
+    (files: File[]): void => {
+      if (files.length === 0) return;
+      const added = files.map(
+        (file): UploadItem => ({
+          key: `upload-${++keyCounter}`,
+          file,
+          status: 'queued',
+          uploadedBytes: 0,
+        })
+      );
+      commit([...itemsRef.current, ...added]);
+      pump();
+    },
+    [commit, pump]
+  );
+
+  const cancel = useCallback(
+    (key: string): void => {
+      remove(key);
+      controllersRef.current.get(key)?.abort();
+      controllersRef.current.delete(key);
+    },
+    [remove]
+  );
+
+  const retry = useCallback(
+    (key: string): void => {
+      update(key, { status: 'queued', error: undefined });
+      pump();
+    },
+    [update, pump]
+  );
+
+  return {
+    items,
+    isUploading: items.some((item) => item.status !== 'failed'),
+    addFiles,
+    cancel,
+    retry,
+    dismiss: remove,
+  };
+}
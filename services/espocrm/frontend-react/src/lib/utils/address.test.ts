@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { getAddressChanges } from './address';
+
+describe('getAddressChanges', () => {
+  const fieldDefs = { billingAddress: { type: 'address' }, name: { type: 'varchar' } };
+
+  it('returns the part and coordinate attributes', () => {
+    const value = {
+      street: '350 5th Ave',
+      city: 'New York',
+      state: '',
+      postalCode: '10118',
+      country: 'United States',
+      latitude: 40.7484,
+      longitude: -73.9857,
+    };
+
+    expect(getAddressChanges(fieldDefs, 'billingAddress', value)).toEqual({
+      billingAddressStreet: '350 5th Ave',
+      billingAddressCity: 'New York',
+      billingAddressState: null,
+      billingAddressPostalCode: '10118',
+      billingAddressCountry: 'United States',
+      billingAddressLatitude: 40.7484,
+      billingAddressLongitude: -73.9857,
+    });
+  });
+
+  it('clears the coordinates of an address changed after geocoding', () => {
+    expect(getAddressChanges(fieldDefs, 'billingAddress', { street: 'Main St', latitude: null, longitude: null })).toEqual({
+      billingAddressStreet: 'Main St',
+      billingAddressLatitude: null,
+      billingAddressLongitude: null,
+    });
+  });
+
+  it('ignores other fields and non-object values', () => {
+    expect(getAddressChanges(fieldDefs, 'name', { street: 'Main St' })).toEqual({});
+    expect(getAddressChanges(fieldDefs, 'billingAddress', null)).toEqual({});
+  });
+});
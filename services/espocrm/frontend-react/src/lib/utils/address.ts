@@ -0,0 +1,33 @@
+/**
+ * Address helpers
+ *
+ * EspoCRM saves an address field as one attribute per part
+ * (`<field>Street`, `<field>City`, ...) and the geocoded location as
+ * `<field>Latitude` / `<field>Longitude`. The address field edits them as
+ * one value.
+ */
+import type { AddressValue } from '@/fields/types';
+
+const ADDRESS_PARTS = ['street', 'city', 'state', 'postalCode', 'country', 'latitude', 'longitude'] as const;
+
+/**
+ * Attributes to update after an address field changed to an address value:
+ * each part it holds, blank parts as null
+ */
+export function getAddressChanges(
+  fieldDefs: Record<string, { type?: string }>,
+  field: string,
+  value: unknown
+): Record<string, unknown> {
+  if (fieldDefs[field]?.type !== 'address' || typeof value !== 'object' || value === null) return {};
+
+  const address = value as AddressValue;
+  const changes: Record<string, unknown> = {};
+  for (const part of ADDRESS_PARTS) {
+    if (part in address) {
+      const attribute = `${field}${part.charAt(0).toUpperCase()}${part.slice(1)}`;
+      changes[attribute] = address[part] === '' ? null : (address[part] ?? null);
+    }
+  }
+  return changes;
+}
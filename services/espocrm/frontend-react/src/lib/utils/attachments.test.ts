@@ -0,0 +1,79 @@
+/**
+ * Attachment Helper Tests
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  getPreviewKind,
+  getFieldAttachments,
+  getRecordAttachments,
+  getPreviewAttachments,
+  parseCsv,
+} from './attachments';
+
+describe('getPreviewKind', () => {
+  it('detects previewable types from the MIME type or extension', () => {
+    expect(getPreviewKind({ name: 'a.png', type: 'image/png' })).toBe('image');
+    expect(getPreviewKind({ name: 'contract.PDF' })).toBe('pdf');
+    expect(getPreviewKind({ name: 'data.csv', type: 'text/csv' })).toBe('csv');
+    expect(getPreviewKind({ name: 'readme', type: 'text/plain' })).toBe('text');
+    expect(getPreviewKind({ name: 'call.mp3', type: 'audio/mpeg' })).toBe('audio');
+    expect(getPreviewKind({ name: 'demo.mp4', type: 'video/mp4' })).toBe('video');
+    expect(getPreviewKind({ name: 'archive.zip', type: 'application/zip' })).toBeNull();
+  });
+});
+
+describe('getFieldAttachments', () => {
+  it('reads file and attachment-multiple attributes', () => {
+    expect(getFieldAttachments({ fileId: 'f1', fileName: 'a.pdf', fileType: 'application/pdf' }, 'file')).toEqual([
+      { id: 'f1', name: 'a.pdf', type: 'application/pdf' },
+    ]);
+    expect(
+      getFieldAttachments(
+        { attachmentsIds: ['a1', 'a2'], attachmentsNames: { a1: 'x.txt', a2: 'y.png' }, attachmentsTypes: { a2: 'image/png' } },
+        'attachments'
+      )
+    ).toEqual([
+      { id: 'a1', name: 'x.txt', type: undefined },
+      { id: 'a2', name: 'y.png', type: 'image/png' },
+    ]);
+    expect(getFieldAttachments({}, 'file')).toEqual([]);
+  });
+});
+
+describe('getRecordAttachments', () => {
+  const record = {
+    accountId: 'acc1',
+    accountName: 'Acme',
+    parentId: 'p1',
+    parentType: 'Account',
+    fileId: 'f1',
+    fileName: 'a.pdf',
+    fileType: 'application/pdf',
+    attachmentsIds: ['a1', 'f1'],
+    attachmentsNames: { a1: 'x.txt', f1: 'a.pdf' },
+    attachmentsTypes: { a1: 'text/plain', f1: 'application/pdf' },
+  };
+
+  it('collects file fields only, without duplicates', () => {
+    expect(getRecordAttachments(record).map((a) => a.id)).toEqual(['f1', 'a1']);
+  });
+
+  it('puts unsaved field attachments first', () => {
+    expect(getPreviewAttachments(record, [{ id: 'new', name: 'n.txt' }]).map((a) => a.id)).toEqual([
+      'new',
+      'f1',
+      'a1',
+    ]);
+    expect(getPreviewAttachments(undefined, [{ id: 'new', name: 'n.txt' }])).toHaveLength(1);
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quoted values, escaped quotes and line endings', () => {
+    expect(parseCsv('a,b\r\n"x, y","say ""hi"""\n1,\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"'],
+      ['1', ''],
+    ]);
+  });
+});
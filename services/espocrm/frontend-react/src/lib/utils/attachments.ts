@@ -0,0 +1,147 @@
+/**
+ * Attachment helpers
+ *
+ * EspoCRM returns file fields as `<field>Id` / `<field>Name` / `<field>Type`
+ * attributes and attachment-multiple fields as `<field>Ids` with `Names` and
+ * `Types` maps. These helpers collect them as attachment lists and decide how
+ * the previewer shows each file.
+ */
+import type { Attachment } from '@/api/attachments';
+
+export type PreviewKind = 'image' | 'pdf' | 'text' | 'csv' | 'audio' | 'video';
+
+const TEXT_EXTENSIONS = ['txt', 'log', 'md', 'json', 'xml'];
+
+function getExtension(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot >= 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+/**
+ * How an attachment can be shown inline; null when it can only be downloaded
+ */
+export function getPreviewKind(attachment: Pick<Attachment, 'name' | 'type'>): PreviewKind | null {
+  const type = (attachment.type ?? '').toLowerCase();
+  const extension = getExtension(attachment.name);
+
+  if (type.startsWith('image/')) return 'image';
+  if (type === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (type === 'text/csv' || extension === 'csv') return 'csv';
+  if (type.startsWith('text/') || type === 'application/json' || TEXT_EXTENSIONS.includes(extension)) {
+    return 'text';
+  }
+  if (type.startsWith('audio/')) return 'audio';
+  if (type.startsWith('video/')) return 'video';
+  if (!type && ['png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp'].includes(extension)) return 'image';
+  return null;
+}
+
+/**
+ * Attachments of one file or attachment-multiple field of a record
+ */
+export function getFieldAttachments(record: Record<string, unknown>, field: string): Attachment[] {
+  const ids = record[`${field}Ids`];
+  if (Array.isArray(ids)) {
+    const names = (record[`${field}Names`] ?? {}) as Record<string, string>;
+    const types = (record[`${field}Types`] ?? {}) as Record<string, string>;
+    return ids
+      .filter((id): id is string => typeof id === 'string')
+      .map((id) => ({ id, name: names[id] ?? id, type: types[id] }));
+  }
+
+  const id = record[`${field}Id`];
+  if (typeof id === 'string' && id) {
+    const name = record[`${field}Name`];
+    const type = record[`${field}Type`];
+    return [{ id, name: typeof name === 'string' ? name : id, type: typeof type === 'string' ? type : undefined }];
+  }
+
+  return [];
+}
+
+/**
+ * All attachments of a record, in attribute order
+ *
+ * Only fields with a MIME type (`Type` attribute or `Types` map) count, which
+ * tells files apart from links and link-parent fields.
+ */
+export function getRecordAttachments(record: Record<string, unknown>): Attachment[] {
+  const attachments: Attachment[] = [];
+  const seen = new Set<string>();
+
+  for (const key of Object.keys(record)) {
+    let field: string | null = null;
+    if (key.endsWith('Ids') && typeof record[`${key.slice(0, -3)}Types`] === 'object') {
+      field = key.slice(0, -3);
+    } else if (key.endsWith('Id') && String(record[`${key.slice(0, -2)}Type`] ?? '').includes('/')) {
+      field = key.slice(0, -2);
+    }
+    if (!field) continue;
+
+    for (const attachment of getFieldAttachments(record, field)) {
+      if (seen.has(attachment.id)) continue;
+      seen.add(attachment.id);
+      attachments.push(attachment);
+    }
+  }
+
+  return attachments;
+}
+
+/**
+ * Attachments to page through when previewing a field's files: all of the
+ * record's attachments, with the field's own ones first if the record data
+ * doesn't include them (e.g. values not saved yet)
+ */
+export function getPreviewAttachments(
+  record: Record<string, unknown> | undefined,
+  own: Attachment[]
+): Attachment[] {
+  const recordAttachments = record ? getRecordAttachments(record) : [];
+  const missing = own.filter((attachment) => !recordAttachments.some((other) => other.id === attachment.id));
+  return [...missing, ...recordAttachments];
+}
+
+/**
+ * Split CSV text into rows, handling quoted values
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  if (value || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  return rows;
+}
@@ -0,0 +1,34 @@
+/**
+ * Attribute sync
+ *
+ * Some fields are edited as one value but saved, or tied to, other
+ * attributes: durations with their start and end, link-multiple fields with
+ * their ids, names and relationship columns, email and phone fields with
+ * their primary value and `<field>Data` rows, address fields with their
+ * part and coordinate attributes. Every place that changes a field applies
+ * these changes so the saved attributes stay consistent.
+ */
+import { getDurationSyncChanges } from '@/lib/datetime';
+import { getLinkMultipleChanges } from './linkMultiple';
+import { getEmailAddressChanges } from './emailAddress';
+import { getPhoneNumberChanges } from '@/lib/phone';
+import { getAddressChanges } from './address';
+import type { FieldDef } from '@/fields/types';
+
+/**
+ * Attributes to update after `field` changed; `attributes` already holds
+ * its new value
+ */
+export function getAttributeSyncChanges(
+  fieldDefs: Record<string, FieldDef>,
+  field: string,
+  attributes: Record<string, unknown>
+): Record<string, unknown> {
+  return {
+    ...getDurationSyncChanges(fieldDefs, field, attributes),
+    ...getLinkMultipleChanges(fieldDefs, field, attributes[field]),
+    ...getEmailAddressChanges(fieldDefs, field, attributes[field]),
+    ...getPhoneNumberChanges(fieldDefs, field, attributes[field]),
+    ...getAddressChanges(fieldDefs, field, attributes[field]),
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { getEmailAddressChanges, getEmailAddressEntries } from './emailAddress';
+
+describe('getEmailAddressEntries', () => {
+  it('prefers an array value', () => {
+    const value = [{ emailAddress: 'a@example.com', primary: true }, { primary: false }];
+
+    expect(getEmailAddressEntries('emailAddress', value, { emailAddressData: [] })).toEqual([
+      { emailAddress: 'a@example.com', primary: true },
+    ]);
+  });
+
+  it('reads the rows from the record', () => {
+    const record = {
+      emailAddressData: [
+        { emailAddress: 'a@example.com', primary: true },
+        { emailAddress: 'b@example.com', optOut: true },
+      ],
+    };
+
+    expect(getEmailAddressEntries('emailAddress', 'a@example.com', record)).toEqual(record.emailAddressData);
+  });
+
+  it('falls back to a single primary address', () => {
+    expect(getEmailAddressEntries('emailAddress', 'a@example.com', {})).toEqual([
+      { emailAddress: 'a@example.com', primary: true },
+    ]);
+    expect(getEmailAddressEntries('emailAddress', null, {})).toEqual([]);
+  });
+});
+
+describe('getEmailAddressChanges', () => {
+  const fieldDefs = { emailAddress: { type: 'email' }, name: { type: 'varchar' } };
+
+  it('saves the rows and the primary address', () => {
+    const rows = [
+      { emailAddress: 'old@example.com', primary: false, invalid: true },
+      { emailAddress: ' new@example.com ', primary: true },
+    ];
+
+    expect(getEmailAddressChanges(fieldDefs, 'emailAddress', rows)).toEqual({
+      emailAddress: 'new@example.com',
+      emailAddressData: rows,
+    });
+  });
+
+  it('clears the primary address when it is blank', () => {
+    expect(getEmailAddressChanges(fieldDefs, 'emailAddress', [{ emailAddress: '', primary: true }])).toEqual({
+      emailAddress: null,
+      emailAddressData: [{ emailAddress: '', primary: true }],
+    });
+  });
+
+  it('ignores other fields and string values', () => {
+    expect(getEmailAddressChanges(fieldDefs, 'name', [])).toEqual({});
+    expect(getEmailAddressChanges(fieldDefs, 'emailAddress', 'a@example.com')).toEqual({});
+  });
+});
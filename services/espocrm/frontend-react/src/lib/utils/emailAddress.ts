@@ -0,0 +1,30 @@
+/**
+ * Email address helpers
+ *
+ * The `<field>Data` rows of email fields, see ./fieldData.
+ */
+import type { EmailAddressEntry } from '@/fields/types';
+import { getFieldDataChanges, getFieldDataEntries } from './fieldData';
+
+/**
+ * Addresses of a field: an array value, the record's `<field>Data`, or a
+ * single address
+ */
+export function getEmailAddressEntries(
+  field: string,
+  value: unknown,
+  record?: Record<string, unknown>
+): EmailAddressEntry[] {
+  return getFieldDataEntries<EmailAddressEntry>('emailAddress', field, value, record);
+}
+
+/**
+ * Attributes to update after an email field changed to a list of addresses
+ */
+export function getEmailAddressChanges(
+  fieldDefs: Record<string, { type?: string }>,
+  field: string,
+  value: unknown
+): Record<string, unknown> {
+  return getFieldDataChanges('email', 'emailAddress', fieldDefs, field, value);
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { getFieldDataChanges, getFieldDataEntries, getFieldDataValues } from './fieldData';
+
+describe('getFieldDataEntries', () => {
+  it('keeps the rows that have the value key', () => {
+    const value = [{ phoneNumber: '+12125550100', primary: true }, { emailAddress: 'a@example.com' }];
+
+    expect(getFieldDataEntries('phoneNumber', 'phoneNumber', value)).toEqual([
+      { phoneNumber: '+12125550100', primary: true },
+    ]);
+  });
+});
+
+describe('getFieldDataValues', () => {
+  it('collects the primary value and the values of the rows once', () => {
+    const record = {
+      emailAddressData: [
+        { emailAddress: 'a@example.com', primary: true },
+        { emailAddress: 'b@example.com' },
+      ],
+    };
+
+    expect(getFieldDataValues('emailAddress', 'emailAddress', 'a@example.com', record)).toEqual([
+      'a@example.com',
+      'b@example.com',
+    ]);
+    expect(getFieldDataValues('emailAddress', 'emailAddress', null, {})).toEqual([]);
+  });
+});
+
+describe('getFieldDataChanges', () => {
+  it('only applies to fields of the given type', () => {
+    const fieldDefs = { emailAddress: { type: 'email' } };
+    const rows = [{ emailAddress: 'a@example.com', primary: true }];
+
+    expect(getFieldDataChanges('phone', 'phoneNumber', fieldDefs, 'emailAddress', rows)).toEqual({});
+    expect(getFieldDataChanges('email', 'emailAddress', fieldDefs, 'emailAddress', rows)).toEqual({
+      emailAddress: 'a@example.com',
+      emailAddressData: rows,
+    });
+  });
+});
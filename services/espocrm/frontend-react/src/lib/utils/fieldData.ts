@@ -0,0 +1,77 @@
+/**
+ * `<field>Data` helpers
+ *
+ * EspoCRM saves email and phone fields as their primary value under the
+ * field name and every value, with its flags, as rows under `<field>Data`.
+ * Rows with a blank value are skipped by the server. `key` names the value
+ * of a row, e.g. `emailAddress` or `phoneNumber`.
+ */
+
+/**
+ * Rows of a field: an array value, the record's `<field>Data`, or a single
+ * primary value
+ */
+export function getFieldDataEntries<T extends object>(
+  key: keyof T & string,
+  field: string,
+  value: unknown,
+  record?: Record<string, unknown>
+): T[] {
+  const isEntry = (item: unknown): item is T =>
+    typeof (item as Record<string, unknown> | null)?.[key] === 'string';
+
+  if (Array.isArray(value)) {
+    return value.filter(isEntry);
+  }
+
+  const data = record?.[`${field}Data`];
+  if (Array.isArray(data) && data.some(isEntry)) {
+    return data.filter(isEntry);
+  }
+
+  if (typeof value === 'string' && value) {
+    return [{ [key]: value, primary: true } as T];
+  }
+
+  return [];
+}
+
+/**
+ * Every value of a field: the primary value and the values of its rows
+ */
+export function getFieldDataValues(
+  key: string,
+  field: string,
+  value: unknown,
+  record?: Record<string, unknown>
+): string[] {
+  const values = typeof value === 'string' && value ? [value] : [];
+  for (const entry of getFieldDataEntries<Record<string, string>>(key, field, value, record)) {
+    const entryValue = entry[key];
+    if (entryValue && !values.includes(entryValue)) {
+      values.push(entryValue);
+    }
+  }
+  return values;
+}
+
+/**
+ * Attributes to update after a field of the given type changed to a list of
+ * rows: the rows as `<field>Data` and the primary value (null when blank)
+ */
+export function getFieldDataChanges(
+  type: string,
+  key: string,
+  fieldDefs: Record<string, { type?: string }>,
+  field: string,
+  value: unknown
+): Record<string, unknown> {
+  if (fieldDefs[field]?.type !== type || !Array.isArray(value)) return {};
+
+  const entries = getFieldDataEntries<Record<string, unknown>>(key, field, value);
+  const primary = entries.find((entry) => entry.primary) ?? entries[0];
+  return {
+    [field]: String(primary?.[key] ?? '').trim() || null,
+    [`${field}Data`]: entries,
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * Human-readable file size ("1.5 MB"); empty for unknown or zero sizes
+ */
+export function formatFileSize(bytes?: number): string {
+  if (!bytes) return '';
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unitIndex = 0;
+  while (size >= 1024 && unitIndex < units.length - 1) {
+    size /= 1024;
+    unitIndex++;
+  }
+  return `${size.toFixed(1)} ${units[unitIndex]}`;
+}
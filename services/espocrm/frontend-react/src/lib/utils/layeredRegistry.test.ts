@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { createLayeredRegistry } from './layeredRegistry';
+
+describe('createLayeredRegistry', () => {
+  it('layers owned items over the built-in ones', () => {
+    const registry = createLayeredRegistry({ tel: 'built-in' });
+
+    registry.register('tel', 'first', 'moduleA');
+    registry.register('tel', 'second', 'moduleB');
+    expect(registry.get('tel')).toBe('second');
+
+    registry.unregister('tel', 'moduleB');
+    expect(registry.get('tel')).toBe('first');
+
+    registry.unregister('tel', 'moduleA');
+    expect(registry.get('tel')).toBe('built-in');
+  });
+
+  it('replaces the layer of the same owner', () => {
+    const registry = createLayeredRegistry<string>();
+
+    registry.register('sip', 'v1', 'moduleA');
+    registry.register('sip', 'v2', 'moduleA');
+    registry.unregister('sip', 'moduleB');
+
+    expect(registry.get('sip')).toBe('v2');
+    expect(registry.has('sip')).toBe(true);
+    expect(registry.names()).toEqual(['sip']);
+
+    registry.unregister('sip', 'moduleA');
+    expect(registry.has('sip')).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Layered registry
+ *
+ * Built-in items are registered without an owner. Items registered by an
+ * owner (an extension module) are layered over them: the last layer for a
+ * name wins, and removing it restores the one below.
+ */
+
+export interface LayeredRegistry<T> {
+  /** Built-in items by name */
+  readonly base: Record<string, T>;
+  /** Register an item; pass an owner to layer it over the built-in one */
+  register(name: string, item: T, owner?: string): void;
+  /** Remove the item an owner registered */
+  unregister(name: string, owner: string): void;
+  /** The top layer for a name, else the built-in item */
+  get(name: string): T | undefined;
+  has(name: string): boolean;
+  names(): string[];
+}
+
+/**
+ * Create a layered registry, optionally with built-in items
+ */
+export function createLayeredRegistry<T>(builtIn: Record<string, T> = {}): LayeredRegistry<T> {
+  const base: Record<string, T> = { ...builtIn };
+  const overrides = new Map<string, { owner: string; item: T }[]>();
+
+  return {
+    base,
+    register(name, item, owner) {
+      if (!owner) {
+        base[name] = item;
+        return;
+      }
+
+      const layers = overrides.get(name) ?? [];
+      const existing = layers.find((layer) => layer.owner === owner);
+      if (existing) {
+        existing.item = item;
+      } else {
+        layers.push({ owner, item });
+      }
+      overrides.set(name, layers);
+    },
+    unregister(name, owner) {
+      const layers = overrides.get(name);
+      if (!layers) return;
+
+      const remaining = layers.filter((layer) => layer.owner !== owner);
+      if (remaining.length > 0) {
+        overrides.set(name, remaining);
+      } else {
+        overrides.delete(name);
+      }
+    },
+    get(name) {
+      return overrides.get(name)?.at(-1)?.item ?? base[name];
+    },
+    has(name) {
+      return name in base || overrides.has(name);
+    },
+    names() {
+      return Array.from(new Set([...Object.keys(base), ...overrides.keys()]));
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { getLinkMultipleChanges, getLinkMultipleItems, toLinkMultipleAttributes } from './linkMultiple';
+
+describe('getLinkMultipleItems', () => {
+  it('reads ids, names and column values from the record', () => {
+    const record = {
+      contactsIds: ['c1', 'c2'],
+      contactsNames: { c1: 'John Doe' },
+      contactsColumns: { c1: { role: 'Influencer' } },
+    };
+
+    expect(getLinkMultipleItems('contacts', undefined, record)).toEqual([
+      { id: 'c1', name: 'John Doe', columns: { role: 'Influencer' } },
+      { id: 'c2', name: 'c2' },
+    ]);
+  });
+
+  it('prefers an array value', () => {
+    const value = [{ id: 'c3', name: 'Jane Smith' }, { name: 'No id' }];
+
+    expect(getLinkMultipleItems('contacts', value, { contactsIds: ['c1'] })).toEqual([
+      { id: 'c3', name: 'Jane Smith' },
+    ]);
+  });
+
+  it('is empty without ids', () => {
+    expect(getLinkMultipleItems('contacts', null, {})).toEqual([]);
+  });
+});
+
+describe('toLinkMultipleAttributes', () => {
+  const items = [
+    { id: 'c1', name: 'John Doe', columns: { role: 'Influencer' } },
+    { id: 'c2', name: 'Jane Smith' },
+  ];
+
+  it('fills every column of every link', () => {
+    expect(toLinkMultipleAttributes('contacts', items, ['role'])).toEqual({
+      contactsIds: ['c1', 'c2'],
+      contactsNames: { c1: 'John Doe', c2: 'Jane Smith' },
+      contactsColumns: { c1: { role: 'Influencer' }, c2: { role: null } },
+    });
+  });
+
+  it('leaves columns out for fields without any', () => {
+    expect(toLinkMultipleAttributes('contacts', items)).not.toHaveProperty('contactsColumns');
+  });
+});
+
+describe('getLinkMultipleChanges', () => {
+  const fieldDefs = {
+    contacts: { type: 'linkMultiple', columns: { role: 'opportunityRole' } },
+    name: { type: 'varchar' },
+  };
+
+  it('derives the attributes of a changed link-multiple field', () => {
+    expect(getLinkMultipleChanges(fieldDefs, 'contacts', [{ id: 'c1', name: 'John Doe' }])).toEqual({
+      contactsIds: ['c1'],
+      contactsNames: { c1: 'John Doe' },
+      contactsColumns: { c1: { role: null } },
+    });
+  });
+
+  it('ignores other fields', () => {
+    expect(getLinkMultipleChanges(fieldDefs, 'name', 'Acme')).toEqual({});
+  });
+});
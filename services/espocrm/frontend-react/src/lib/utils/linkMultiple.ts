@@ -0,0 +1,74 @@
+/**
+ * Link-multiple helpers
+ *
+ * EspoCRM returns and saves link-multiple fields as `<field>Ids` with a
+ * `<field>Names` map and, for relationships with extra columns (e.g. a
+ * contact's role on an opportunity), a `<field>Columns` map of column values
+ * per linked id. The field definition's `columns` names each column and the
+ * field of the target entity describing it.
+ */
+import type { LinkMultipleItem } from '@/fields/types';
+
+type ColumnValues = Record<string, unknown>;
+
+/**
+ * Linked records of a field: an array value, or the record's attributes
+ */
+export function getLinkMultipleItems(
+  field: string,
+  value: unknown,
+  record?: Record<string, unknown>
+): LinkMultipleItem[] {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is LinkMultipleItem => typeof (item as LinkMultipleItem | null)?.id === 'string');
+  }
+
+  const ids = record?.[`${field}Ids`];
+  if (!Array.isArray(ids)) return [];
+
+  const names = (record?.[`${field}Names`] ?? {}) as Record<string, string>;
+  const columns = (record?.[`${field}Columns`] ?? {}) as Record<string, ColumnValues>;
+  return ids
+    .filter((id): id is string => typeof id === 'string')
+    .map((id) => ({ id, name: names[id] ?? id, ...(columns[id] ? { columns: columns[id] } : {}) }));
+}
+
+/**
+ * Attributes EspoCRM saves a link-multiple field from; columns are only
+ * included when the field has any, every column present for every id
+ */
+export function toLinkMultipleAttributes(
+  field: string,
+  items: LinkMultipleItem[],
+  columnNames: string[] = []
+): Record<string, unknown> {
+  const attributes: Record<string, unknown> = {
+    [`${field}Ids`]: items.map((item) => item.id),
+    [`${field}Names`]: Object.fromEntries(items.map((item) => [item.id, item.name])),
+  };
+
+  if (columnNames.length > 0) {
+    attributes[`${field}Columns`] = Object.fromEntries(
+      items.map((item) => [
+        item.id,
+        Object.fromEntries(columnNames.map((column) => [column, item.columns?.[column] ?? null])),
+      ])
+    );
+  }
+
+  return attributes;
+}
+
+/**
+ * Attributes to update after a link-multiple field changed to a list of items
+ */
+export function getLinkMultipleChanges(
+  fieldDefs: Record<string, { type?: string; columns?: Record<string, string> }>,
+  field: string,
+  value: unknown
+): Record<string, unknown> {
+  const fieldDef = fieldDefs[field];
+  if (fieldDef?.type !== 'linkMultiple' || !Array.isArray(value)) return {};
+
+  return toLinkMultipleAttributes(field, getLinkMultipleItems(field, value), Object.keys(fieldDef.columns ?? {}));
+}
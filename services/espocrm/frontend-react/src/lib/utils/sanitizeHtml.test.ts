@@ -0,0 +1,68 @@
+/**
+ * HTML Sanitizer Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { sanitizeHtml, htmlToPlainText } from './sanitizeHtml';
+
+describe('sanitizeHtml', () => {
+  it('keeps formatting, lists, links, tables and images', () => {
+    const html =
+      '<p><strong>Bold</strong> <em>and</em> <u>more</u></p>' +
+      '<ul><li>One</li></ul>' +
+      '<a href="https://example.com" title="Example">Link</a>' +
+      '<table><tbody><tr><td colspan="2">Cell</td></tr></tbody></table>' +
+      '<img src="/api/v1/Attachment/file/abc" alt="Logo">';
+
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+
+  it('removes scripts, styles and embedded documents with their content', () => {
+    expect(
+      sanitizeHtml('<p>Hi</p><script>alert(1)</script><style>p{}</style><iframe src="https://evil"></iframe>')
+    ).toBe('<p>Hi</p>');
+  });
+
+  it('removes event handlers and unknown attributes', () => {
+    expect(sanitizeHtml('<img src="/a.png" onerror="alert(1)" data-x="1">')).toBe('<img src="/a.png">');
+    expect(sanitizeHtml('<p onclick="alert(1)" title="Lead">Text</p>')).toBe('<p title="Lead">Text</p>');
+  });
+
+  it('removes class attributes', () => {
+    expect(sanitizeHtml('<div class="fixed inset-0 z-50"><span class="lead">Text</span></div>')).toBe(
+      '<div><span>Text</span></div>'
+    );
+  });
+
+  it('removes unsafe URLs', () => {
+    expect(sanitizeHtml('<a href="javascript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHtml('<a href="java\tscript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHtml('<img src="data:image/svg+xml;base64,PHN2Zz4=">')).toBe('<img>');
+    expect(sanitizeHtml('<a href="mailto:a@example.com">a</a>')).toBe('<a href="mailto:a@example.com">a</a>');
+    expect(sanitizeHtml('<img src="data:image/png;base64,iVBOR">')).toBe('<img src="data:image/png;base64,iVBOR">');
+  });
+
+  it('filters inline styles', () => {
+    expect(
+      sanitizeHtml('<span style="color: red; background-image: url(https://evil); position: fixed">x</span>')
+    ).toBe('<span style="color: red">x</span>');
+    expect(sanitizeHtml('<span style="width: expression(alert(1))">x</span>')).toBe('<span>x</span>');
+  });
+
+  it('unwraps unknown elements and drops comments', () => {
+    expect(sanitizeHtml('<custom-tag><b>Kept</b></custom-tag><!-- note -->')).toBe('<b>Kept</b>');
+  });
+
+  it('adds rel to links opening a new window', () => {
+    expect(sanitizeHtml('<a href="https://example.com" target="_blank">x</a>')).toBe(
+      '<a href="https://example.com" target="_blank" rel="noopener noreferrer">x</a>'
+    );
+  });
+});
+
+describe('htmlToPlainText', () => {
+  it('returns the text content with collapsed whitespace', () => {
+    expect(htmlToPlainText('<p><strong>Bold</strong>\n  text</p><script>x()</script>')).toBe('Bold text');
+    expect(htmlToPlainText('<p><br></p>')).toBe('');
+    expect(htmlToPlainText('')).toBe('');
+  });
+});
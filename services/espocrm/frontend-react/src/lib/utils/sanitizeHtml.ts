@@ -0,0 +1,162 @@
+/**
+ * HTML Sanitizer
+ *
+ * Allow-list sanitizer for stored rich text (descriptions, email bodies).
+ * Only known formatting elements and attributes survive; scripts, event
+ * handlers, `javascript:` URLs and embedded documents are removed. Unknown
+ * elements are unwrapped so their text is kept.
+ */
+
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'b', 'blockquote', 'br', 'caption', 'code', 'col', 'colgroup', 'dd', 'del',
+  'div', 'dl', 'dt', 'em', 'font', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img',
+  'ins', 'li', 'mark', 'ol', 'p', 'pre', 's', 'small', 'span', 'strike', 'strong', 'sub',
+  'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul',
+]);
+
+// Removed together with their content
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'noscript',
+  'template', 'svg', 'math', 'form', 'input', 'button', 'select', 'textarea', 'link', 'meta',
+  'base', 'title', 'head',
+]);
+
+// No `class`: stored HTML must not pick up the app's own styles (e.g. a
+// `fixed inset-0` overlay over the page)
+const GLOBAL_ATTRIBUTES = new Set(['title', 'dir', 'align', 'style']);
+
+const TAG_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(['href', 'target', 'rel', 'name']),
+  img: new Set(['src', 'alt', 'width', 'height']),
+  table: new Set(['border', 'cellpadding', 'cellspacing', 'width']),
+  td: new Set(['colspan', 'rowspan', 'valign', 'width', 'height']),
+  th: new Set(['colspan', 'rowspan', 'valign', 'width', 'height', 'scope']),
+  col: new Set(['span', 'width']),
+  colgroup: new Set(['span', 'width']),
+  ol: new Set(['start', 'type']),
+  font: new Set(['color', 'face', 'size']),
+};
+
+const STYLE_PROPERTIES = new Set([
+  'color', 'background-color', 'font-weight', 'font-style', 'font-size', 'font-family',
+  'text-decoration', 'text-align', 'vertical-align', 'line-height', 'margin', 'margin-left',
+  'margin-right', 'margin-top', 'margin-bottom', 'padding', 'padding-left', 'padding-right',
+  'padding-top', 'padding-bottom', 'border', 'border-collapse', 'border-color', 'border-style',
+  'border-width', 'width', 'height', 'white-space',
+]);
+
+const SAFE_LINK_PATTERN = /^(https?:|mailto:|tel:|#|\/|\?|\.{0,2}\/)/i;
+const SAFE_IMAGE_PATTERN = /^(https?:|\/|\?|\.{0,2}\/|data:image\/(png|jpe?g|gif|webp);base64,)/i;
+const RELATIVE_PATTERN = /^[^:]*$/;
+
+function isSafeUrl(value: string, pattern: RegExp): boolean {
+  // Control characters and whitespace can hide a scheme (e.g. "java\tscript:")
+  const url = Array.from(value)
+    .filter((char) => char.charCodeAt(0) > 32)
+    .join('');
+  return pattern.test(url) || RELATIVE_PATTERN.test(url);
+}
+
+function sanitizeStyle(style: string): string {
+  return style
+    .split(';')
+    .map((declaration) => declaration.trim())
+    .filter((declaration) => {
+      const separator = declaration.indexOf(':');
+      if (separator <= 0) return false;
+      const property = declaration.slice(0, separator).trim().toLowerCase();
+      const value = declaration.slice(separator + 1).toLowerCase();
+      return (
+        STYLE_PROPERTIES.has(property) &&
+        !/url\s*\(|expression\s*\(|javascript:|@import/.test(value)
+      );
+    })
+    .join('; ');
+}
+
+function sanitizeElement(element: Element): void {
+  const tag = element.tagName.toLowerCase();
+  const allowed = TAG_ATTRIBUTES[tag];
+
+  for (const attribute of Array.from(element.attributes)) {
+    const name = attribute.name.toLowerCase();
+    if (!GLOBAL_ATTRIBUTES.has(name) && !allowed?.has(name)) {
+      element.removeAttribute(attribute.name);
+      continue;
+    }
+
+    if (name === 'href' && !isSafeUrl(attribute.value, SAFE_LINK_PATTERN)) {
+      element.removeAttribute(attribute.name);
+    } else if (name === 'src' && !isSafeUrl(attribute.value, SAFE_IMAGE_PATTERN)) {
+      element.removeAttribute(attribute.name);
+    } else if (name === 'style') {
+      const style = sanitizeStyle(attribute.value);
+      if (style) {
+        element.setAttribute('style', style);
+      } else {
+        element.removeAttribute('style');
+      }
+    }
+  }
+
+  // Links opening a new window must not get access to this one
+  if (tag === 'a' && element.hasAttribute('target')) {
+    element.setAttribute('rel', 'noopener noreferrer');
+  }
+}
+
+function sanitizeChildren(parent: Node): void {
+  for (const child of Array.from(parent.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) continue;
+
+    if (child.nodeType !== Node.ELEMENT_NODE) {
+      // Comments, processing instructions, etc.
+      parent.removeChild(child);
+      continue;
+    }
+
+    const element = child as Element;
+    const tag = element.tagName.toLowerCase();
+
+    if (DROPPED_TAGS.has(tag)) {
+      parent.removeChild(element);
+      continue;
+    }
+
+    sanitizeChildren(element);
+
+    if (ALLOWED_TAGS.has(tag)) {
+      sanitizeElement(element);
+    } else {
+      // Unwrap unknown elements, keeping their content
+      while (element.firstChild) {
+        parent.insertBefore(element.firstChild, element);
+      }
+      parent.removeChild(element);
+    }
+  }
+}
+
+/**
+ * Remove everything not on the allow-list from an HTML fragment
+ */
+export function sanitizeHtml(html: string): string {
+  if (!html) return '';
+
+  const document = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  sanitizeChildren(document.body);
+  return document.body.innerHTML;
+}
+
+/**
+ * Plain-text content of an HTML fragment, with whitespace collapsed
+ */
+export function htmlToPlainText(html: string): string {
+  if (!html) return '';
+
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  for (const element of Array.from(document.querySelectorAll('script, style'))) {
+    element.remove();
+  }
+  return (document.body.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,117 @@
+/**
+ * Asynchronous Validator Tests
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createUniqueValidator,
+  createPhoneValidator,
+  getDefaultAsyncValidators,
+  runAsyncValidators,
+  type AsyncValidatorContext,
+} from './asyncValidators';
+
+vi.mock('@/api/client', () => ({
+  get: vi.fn(),
+}));
+
+import { get } from '@/api/client';
+
+const mockGet = vi.mocked(get);
+
+function context(field: string, label: string): AsyncValidatorContext {
+  return { field, label, signal: new AbortController().signal };
+}
+
+describe('createUniqueValidator', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reports values used by another record', async () => {
+    mockGet.mockResolvedValue({ total: 1 });
+    const validator = createUniqueValidator('Account', '123');
+
+    await expect(validator('Acme', {}, context('name', 'Name'))).resolves.toBe('Name must be unique');
+
+    const url = mockGet.mock.calls[0]?.[0] ?? '';
+    expect(url.startsWith('/Account?')).toBe(true);
+    expect([...new URLSearchParams(url.split('?')[1]).entries()]).toEqual([
+      ['select', 'id'],
+      ['maxSize', '1'],
+      ['where[0][type]', 'equals'],
+      ['where[0][attribute]', 'name'],
+      ['where[0][value]', 'Acme'],
+      ['where[1][type]', 'notEquals'],
+      ['where[1][attribute]', 'id'],
+      ['where[1][value]', '123'],
+    ]);
+  });
+
+  it('accepts unused and empty values', async () => {
+    mockGet.mockResolvedValue({ total: 0 });
+    const validator = createUniqueValidator('Account');
+
+    await expect(validator('Acme', {}, context('name', 'Name'))).resolves.toBeNull();
+    await expect(validator('', {}, context('name', 'Name'))).resolves.toBeNull();
+    expect(mockGet).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createPhoneValidator', () => {
+  const validator = createPhoneValidator();
+
+  it('accepts formatted numbers', async () => {
+    await expect(validator('+1 (212) 555-0100', {}, context('phoneNumber', 'Phone'))).resolves.toBeNull();
+  });
+
+  it('rejects numbers with too few or too many digits', async () => {
+    await expect(validator('12345', {}, context('phoneNumber', 'Phone'))).resolves.toBe(
+      'Phone must be a valid phone number'
+    );
+    await expect(
+      validator('+1 212 555 0100', { phoneNumberData: [{ phoneNumber: '+1234567890123456' }] }, context('phoneNumber', 'Phone'))
+    ).resolves.toBe('Phone must be a valid phone number');
+  });
+
+  it('checks numbers against the plan of their country', async () => {
+    const usValidator = createPhoneValidator('US');
+
+    await expect(usValidator('(212) 555-0100', {}, context('phoneNumber', 'Phone'))).resolves.toBeNull();
+    await expect(
+      usValidator([{ phoneNumber: '+12125550100' }, { phoneNumber: '+33 6 12 34' }], {}, context('phoneNumber', 'Phone'))
+    ).resolves.toBe('Phone must be a valid phone number');
+    await expect(usValidator('055 123 4567', {}, context('phoneNumber', 'Phone'))).resolves.toBe(
+      'Phone must be a valid phone number'
+    );
+  });
+});
+
+describe('getDefaultAsyncValidators', () => {
+  it('builds validators from field definitions', () => {
+    const validators = getDefaultAsyncValidators('Contact', {
+      name: { type: 'varchar', unique: true },
+      emailAddress: { type: 'email', unique: true },
+      phoneNumber: { type: 'phone' },
+      description: { type: 'text' },
+      code: { type: 'varchar', unique: true, readOnly: true },
+    });
+
+    expect(Object.keys(validators)).toEqual(['name', 'emailAddress', 'phoneNumber']);
+    expect(validators.emailAddress).toHaveLength(2);
+  });
+});
+
+describe('runAsyncValidators', () => {
+  it('stops at the first error', async () => {
+    const second = vi.fn().mockResolvedValue(null);
+    const result = await runAsyncValidators(
+      [() => Promise.resolve('First failed'), second],
+      'value',
+      {},
+      context('name', 'Name')
+    );
+
+    expect(result).toBe('First failed');
+    expect(second).not.toHaveBeenCalled();
+  });
+});
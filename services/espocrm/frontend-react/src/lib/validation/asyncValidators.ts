@@ -0,0 +1,151 @@
+/**
+ * Asynchronous Field Validators
+ *
+ * Validators that may need the server (uniqueness) or that are too costly to
+ * run on every keystroke. `useFormValidation` debounces them and tracks a
+ * pending/valid/invalid status per field.
+ */
+
+import { get } from '@/api/client';
+import { parsePhoneNumber } from '@/lib/phone';
+import { getFieldDataValues } from '@/lib/utils/fieldData';
+import { formatValidationMessage, type TranslateFunction } from './messages';
+import type { FieldValidationDef } from './schemaGenerator';
+
+/**
+ * Status of a field's asynchronous validation
+ */
+export type FieldValidationStatus = 'pending' | 'valid' | 'invalid';
+
+export interface AsyncValidatorContext {
+  /** Field being validated */
+  field: string;
+  /** Display label of the field */
+  label: string;
+  /** Aborted when a newer value supersedes this check */
+  signal: AbortSignal;
+  /** Translation lookup for messages */
+  t?: TranslateFunction;
+}
+
+/**
+ * Resolves to an error message, or null when the value is valid
+ */
+export type AsyncFieldValidator = (
+  value: unknown,
+  data: Record<string, unknown>,
+  context: AsyncValidatorContext
+) => Promise<string | null>;
+
+interface ListResponse {
+  total: number;
+}
+
+/**
+ * Check that no other record of the entity type has the same value
+ */
+export function createUniqueValidator(entityType: string, excludeId?: string): AsyncFieldValidator {
+  return async (value, _data, { field, label, signal, t }) => {
+    if (value === null || value === undefined || value === '') {
+      return null;
+    }
+
+    const where = [{ type: 'equals', attribute: field, value: String(value) }];
+    if (excludeId) {
+      where.push({ type: 'notEquals', attribute: 'id', value: excludeId });
+    }
+
+    // The list endpoint reads `where` as a bracket-encoded array
+    const params = new URLSearchParams({ select: 'id', maxSize: '1' });
+    where.forEach((item, index) => {
+      params.append(`where[${index}][type]`, item.type);
+      params.append(`where[${index}][attribute]`, item.attribute);
+      params.append(`where[${index}][value]`, item.value);
+    });
+
+    const response = await get<ListResponse>(`/${entityType}?${params.toString()}`, { signal });
+    return response.total > 0
+      ? formatValidationMessage('fieldValueDuplicate', { field: label }, t)
+      : null;
+  };
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+/**
+ * Check every address of an email field, including its additional addresses
+ */
+export function createEmailValidator(): AsyncFieldValidator {
+  return (value, data, { field, label, t }) => {
+    const invalid = getFieldDataValues('emailAddress', field, value, data).some(
+      (address) => !EMAIL_PATTERN.test(address)
+    );
+    return Promise.resolve(
+      invalid ? formatValidationMessage('fieldShouldBeEmail', { field: label }, t) : null
+    );
+  };
+}
+
+/**
+ * Check every number of a phone field against the numbering plan of its
+ * country. National numbers are read for the default country; without one,
+ * they only need 7 to 15 digits (the E.164 maximum).
+ */
+export function createPhoneValidator(defaultCountry?: string | null): AsyncFieldValidator {
+  return (value, data, { field, label, t }) => {
+    const invalid = getFieldDataValues('phoneNumber', field, value, data).some((number) => {
+      const parsed = parsePhoneNumber(number, defaultCountry);
+      if (parsed) return !parsed.valid;
+      if (defaultCountry || !/^[\d\s().-]+$/.test(number)) return true;
+      const digits = number.replace(/\D/g, '').length;
+      return digits < 7 || digits > 15;
+    });
+    return Promise.resolve(
+      invalid ? formatValidationMessage('fieldPhoneInvalid', { field: label }, t) : null
+    );
+  };
+}
+
+/**
+ * Build the asynchronous validators implied by field definitions:
+ * uniqueness for `unique` fields and validity for email and phone fields
+ */
+export function getDefaultAsyncValidators(
+  entityType: string,
+  fieldDefs: Record<string, FieldValidationDef>,
+  options?: { recordId?: string; phoneDefaultCountry?: string | null }
+): Record<string, AsyncFieldValidator[]> {
+  const validators: Record<string, AsyncFieldValidator[]> = {};
+
+  for (const [fieldName, fieldDef] of Object.entries(fieldDefs)) {
+    if (fieldDef.readOnly || fieldDef.disabled) continue;
+
+    const fieldValidators: AsyncFieldValidator[] = [];
+    if (fieldDef.type === 'email') fieldValidators.push(createEmailValidator());
+    if (fieldDef.type === 'phone') fieldValidators.push(createPhoneValidator(options?.phoneDefaultCountry));
+    if (fieldDef.unique) fieldValidators.push(createUniqueValidator(entityType, options?.recordId));
+
+    if (fieldValidators.length > 0) {
+      validators[fieldName] = fieldValidators;
+    }
+  }
+
+  return validators;
+}
+
+/**
+ * Run a field's validators in order, stopping at the first error
+ */
+export async function runAsyncValidators(
+  validators: AsyncFieldValidator[],
+  value: unknown,
+  data: Record<string, unknown>,
+  context: AsyncValidatorContext
+): Promise<string | null> {
+  for (const validator of validators) {
+    const error = await validator(value, data, context);
+    if (error) return error;
+    if (context.signal.aborted) return null;
+  }
+  return null;
+}
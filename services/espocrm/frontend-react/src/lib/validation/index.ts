@@ -8,9 +8,13 @@
 export {
   generateFieldSchema,
   generateEntitySchema,
+  generateCrossFieldRules,
+  validateCrossFieldRules,
   validateEntityData,
   createFormValidation,
   type FieldValidationDef,
+  type CrossFieldRule,
+  type ValidationMessageOptions,
   type UseFormValidationResult,
 } from './schemaGenerator';
 
@@ -21,3 +25,27 @@ export {
   type ValidationError,
   type UseFormValidationOptions,
 } from './useFormValidation';
+
+export {
+  createUniqueValidator,
+  createEmailValidator,
+  createPhoneValidator,
+  getDefaultAsyncValidators,
+  runAsyncValidators,
+  type AsyncFieldValidator,
+  type AsyncValidatorContext,
+  type FieldValidationStatus,
+} from './asyncValidators';
+
+export {
+  parseServerValidationErrors,
+  isServerValidationError,
+  getServerValidationMessage,
+  type ServerValidationError,
+} from './serverErrors';
+
+export {
+  formatValidationMessage,
+  DEFAULT_VALIDATION_MESSAGES,
+  type TranslateFunction,
+} from './messages';
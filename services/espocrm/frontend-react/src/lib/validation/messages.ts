@@ -0,0 +1,62 @@
+/**
+ * Validation Messages
+ *
+ * Message keys match the `Global.messages` entries of the EspoCRM language
+ * data. The English text below is used when a key has no translation.
+ */
+import { formatTemplate, type TranslateFunction } from '@/lib/i18n/template';
+
+export type { TranslateFunction };
+
+export const DEFAULT_VALIDATION_MESSAGES: Record<string, string> = {
+  fieldIsRequired: '{field} is required',
+  fieldInvalid: '{field} is invalid',
+  fieldExceedsMaxLength: '{field} must be at most {maxLength} characters',
+  fieldBelowMinLength: '{field} must be at least {minLength} characters',
+  fieldShouldBeLess: '{field} must be at most {value}',
+  fieldShouldBeGreater: '{field} must be at least {value}',
+  fieldNotMatchingPattern: '{field} does not match the required pattern',
+  'fieldNotMatchingPattern$noBadCharacters': '{field} contains not allowed characters',
+  'fieldNotMatchingPattern$noAsciiSpecialCharacters': '{field} should not contain ASCII special characters',
+  'fieldNotMatchingPattern$latinLetters': '{field} can contain only latin letters',
+  'fieldNotMatchingPattern$latinLettersDigits': '{field} can contain only latin letters and digits',
+  'fieldNotMatchingPattern$latinLettersDigitsWhitespace':
+    '{field} can contain only latin letters, digits and whitespace',
+  'fieldNotMatchingPattern$latinLettersWhitespace': '{field} can contain only latin letters and whitespace',
+  'fieldNotMatchingPattern$digits': '{field} can contain only digits',
+  'fieldNotMatchingPattern$uriOptionalProtocol': '{field} must be a valid URL',
+  'fieldNotMatchingPattern$phoneNumberLoose': '{field} contains characters not allowed in a phone number',
+  fieldExceedsMaxCount: 'Maximum {maxCount} files allowed',
+  fieldMaxFileSizeError: '{fileName}: file should not exceed {max} MB',
+  fieldNotAllowedFileType: '{fileName}: file type is not allowed',
+  fieldShouldBeEmail: '{field} must be a valid email address',
+  fieldPhoneInvalid: '{field} must be a valid phone number',
+  fieldShouldBeInt: '{field} must be a whole number',
+  fieldShouldBeNumber: '{field} must be a valid number',
+  fieldShouldBeDate: '{field} must be a valid date (YYYY-MM-DD)',
+  fieldShouldBeDatetime: '{field} must be a valid datetime',
+  fieldValueDuplicate: '{field} must be unique',
+  fieldShouldAfter: '{field} should be after {otherField}',
+  fieldShouldBefore: '{field} should be before {otherField}',
+  fieldBadRangeOrder: '{field}: "from" must not be greater than "to"',
+};
+
+/**
+ * Message key of a failed pattern check; predefined patterns (`$name`)
+ * have a message of their own
+ */
+export function getPatternMessageKey(pattern: string): string {
+  return pattern.startsWith('$') ? `fieldNotMatchingPattern${pattern}` : 'fieldNotMatchingPattern';
+}
+
+/**
+ * Build a validation message from a `Global.messages` key
+ */
+export function formatValidationMessage(
+  key: string,
+  params: Record<string, string | number | undefined>,
+  t?: TranslateFunction
+): string {
+  const fallback = DEFAULT_VALIDATION_MESSAGES[key] ?? DEFAULT_VALIDATION_MESSAGES.fieldInvalid ?? '';
+  return formatTemplate(`Global.messages.${key}`, fallback, params, t);
+}
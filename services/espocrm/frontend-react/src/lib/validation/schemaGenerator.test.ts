@@ -3,6 +3,8 @@ import {
   generateFieldSchema,
   generateEntitySchema,
   validateEntityData,
+  generateCrossFieldRules,
+  validateCrossFieldRules,
   type FieldValidationDef,
 } from './schemaGenerator';
 
@@ -56,6 +58,28 @@ describe('generateFieldSchema', () => {
       expect(schema.safeParse('').success).toBe(true);
       expect(schema.safeParse(undefined).success).toBe(true);
     });
+
+    it('validates each address of the list', () => {
+      const schema = generateFieldSchema('emailAddress', { type: 'email', maxLength: 30 });
+      expect(
+        schema.safeParse([
+          { emailAddress: 'a@example.com', primary: true },
+          { emailAddress: 'b@example.com', optOut: true, invalid: true },
+          { emailAddress: ' ' },
+        ]).success
+      ).toBe(true);
+
+      const invalid = schema.safeParse([{ emailAddress: 'a@example.com' }, { emailAddress: 'nope' }]);
+      expect(invalid.success).toBe(false);
+      expect(invalid.error?.issues[0]?.message).toBe('Email Address must be a valid email address');
+      expect(schema.safeParse([{ emailAddress: `${'x'.repeat(30)}@example.com` }]).success).toBe(false);
+    });
+
+    it('requires an address in the list', () => {
+      const schema = generateFieldSchema('emailAddress', { type: 'email', required: true });
+      expect(schema.safeParse([{ emailAddress: 'a@example.com' }]).success).toBe(true);
+      expect(schema.safeParse([{ emailAddress: '' }]).success).toBe(false);
+    });
   });
 
   describe('int type', () => {
@@ -94,6 +118,26 @@ describe('generateFieldSchema', () => {
     });
   });
 
+  describe('currency type', () => {
+    it('accepts an amount or an amount with its currency', () => {
+      const schema = generateFieldSchema('amount', { type: 'currency', min: 0 });
+      expect(schema.safeParse(100).success).toBe(true);
+      expect(schema.safeParse({ amount: 100, currency: 'EUR' }).success).toBe(true);
+      expect(schema.safeParse({ amount: null, currency: 'EUR' }).success).toBe(true);
+      expect(schema.safeParse(null).success).toBe(true);
+      expect(schema.safeParse({ amount: -5, currency: 'EUR' }).success).toBe(false);
+    });
+
+    it('requires an amount when required', () => {
+      const schema = generateFieldSchema('amount', { type: 'currency', required: true });
+      expect(schema.safeParse({ amount: 1, currency: 'EUR' }).success).toBe(true);
+
+      const result = schema.safeParse({ amount: null, currency: 'EUR' });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]?.message).toBe('Amount is required');
+    });
+  });
+
   describe('bool type', () => {
     it('validates boolean', () => {
       const schema = generateFieldSchema('isActive', { type: 'bool' });
@@ -220,6 +264,62 @@ describe('generateFieldSchema', () => {
   });
 });
 
+describe('translated messages', () => {
+  const t = (key: string): string =>
+    ({
+      'Global.messages.fieldIsRequired': '{field} ist erforderlich',
+      'Global.messages.fieldExceedsMaxLength': '{field} darf höchstens {maxLength} Zeichen lang sein',
+    })[key] ?? key;
+  const getLabel = (fieldName: string): string => (fieldName === 'lastName' ? 'Nachname' : fieldName);
+
+  it('uses Global.messages templates and field labels', () => {
+    const schema = generateFieldSchema('lastName', { type: 'varchar', required: true, maxLength: 3 }, { t, getLabel });
+
+    expect(schema.safeParse('').error?.issues[0]?.message).toBe('Nachname ist erforderlich');
+    expect(schema.safeParse('Schmidt').error?.issues[0]?.message).toBe(
+      'Nachname darf höchstens 3 Zeichen lang sein'
+    );
+  });
+
+  it('falls back to English for untranslated keys', () => {
+    const schema = generateFieldSchema('website', { type: 'url' }, { t, getLabel });
+
+    expect(schema.safeParse('nope').error?.issues[0]?.message).toBe('website must be a valid URL');
+  });
+
+  it('reads the messages of the EspoCRM language data', () => {
+    const translate = (key: string): string =>
+      ({
+        'Global.messages.fieldIsRequired': '{field} ist erforderlich',
+        'Global.messages.fieldNotMatchingPattern$uriOptionalProtocol': '{field} muss eine gültige URL sein',
+        'Global.messages.fieldNotMatchingPattern$noBadCharacters': '{field} enthält unzulässige Zeichen',
+      })[key] ?? key;
+    const options = { t: translate, getLabel };
+
+    expect(
+      generateFieldSchema('website', { type: 'url' }, options).safeParse('nope').error?.issues[0]?.message
+    ).toBe('website muss eine gültige URL sein');
+    expect(
+      generateFieldSchema('lastName', { type: 'varchar', pattern: '$noBadCharacters' }, options).safeParse('<b>')
+        .error?.issues[0]?.message
+    ).toBe('Nachname enthält unzulässige Zeichen');
+    expect(
+      generateFieldSchema('tags', { type: 'multiEnum', options: ['A'], required: true }, options).safeParse([])
+        .error?.issues[0]?.message
+    ).toBe('tags ist erforderlich');
+  });
+
+  it('translates entity validation errors', () => {
+    const result = validateEntityData(
+      { lastName: { type: 'varchar', required: true } },
+      { lastName: '' },
+      { t, getLabel }
+    );
+
+    expect(result).toEqual({ success: false, errors: { lastName: 'Nachname ist erforderlich' } });
+  });
+});
+
 describe('generateEntitySchema', () => {
   const fieldDefs: Record<string, FieldValidationDef> = {
     name: { type: 'varchar', required: true, maxLength: 150 },
@@ -328,3 +428,60 @@ describe('validateEntityData', () => {
     }
   });
 });
+
+describe('generateCrossFieldRules', () => {
+  it('checks date order from after/before params', () => {
+    const rules = generateCrossFieldRules({
+      dateStart: { type: 'datetime', before: 'dateEnd' },
+      dateEnd: { type: 'datetime', after: 'dateStart' },
+    });
+
+    expect(
+      validateCrossFieldRules(rules, { dateStart: '2024-03-01 10:00:00', dateEnd: '2024-03-01 10:00:00' })
+    ).toEqual({
+      dateStart: 'Date Start should be before Date End',
+      dateEnd: 'Date End should be after Date Start',
+    });
+    expect(
+      validateCrossFieldRules(rules, { dateStart: '2024-03-01 10:00:00', dateEnd: '2024-03-01T11:00:00' })
+    ).toEqual({});
+    expect(validateCrossFieldRules(rules, { dateStart: '2024-03-01 10:00:00', dateEnd: null })).toEqual({});
+  });
+
+  it('keeps dateEnd from preceding dateStart by default', () => {
+    const rules = generateCrossFieldRules({
+      dateStart: { type: 'date' },
+      dateEnd: { type: 'date' },
+    });
+
+    expect(validateCrossFieldRules(rules, { dateStart: '2024-03-02', dateEnd: '2024-03-02' })).toEqual({});
+    expect(validateCrossFieldRules(rules, { dateStart: '2024-03-02', dateEnd: '2024-03-01' })).toEqual({
+      dateEnd: 'Date End should be after Date Start',
+    });
+  });
+
+  it('checks range fields in both storage formats', () => {
+    const rules = generateCrossFieldRules({ budget: { type: 'rangeInt' } });
+
+    expect(validateCrossFieldRules(rules, { budget: { from: 10, to: 5 } })).toEqual({
+      budget: 'Budget: "from" must not be greater than "to"',
+    });
+    expect(validateCrossFieldRules(rules, { budgetFrom: 5, budgetTo: 10 })).toEqual({});
+    expect(validateCrossFieldRules(rules, { budgetFrom: 5 })).toEqual({});
+  });
+
+  it('is applied by validateEntityData', () => {
+    const result = validateEntityData(
+      {
+        dateStart: { type: 'date' },
+        dateEnd: { type: 'date', after: 'dateStart' },
+      },
+      { dateStart: '2024-03-02', dateEnd: '2024-03-01' }
+    );
+
+    expect(result).toEqual({
+      success: false,
+      errors: { dateEnd: 'Date End should be after Date Start' },
+    });
+  });
+});
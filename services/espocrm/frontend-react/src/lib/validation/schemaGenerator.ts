@@ -1,4 +1,5 @@
 import { z, type ZodTypeAny } from 'zod';
+import { formatValidationMessage, getPatternMessageKey, type TranslateFunction } from './messages';
 
 /**
  * Field definition with all validation-related properties
@@ -29,6 +30,14 @@ export interface FieldValidationDef {
   // Link fields
   entity?: string;
 
+  // Date fields: name of the field this one must follow or precede
+  after?: string;
+  afterOrEqual?: string;
+  before?: string;
+
+  // Value must not be used by another record
+  unique?: boolean;
+
   // File fields
   maxFileSize?: number;
   accept?: string[];
@@ -51,14 +60,37 @@ const PATTERNS: Record<string, RegExp> = {
   '$alphanumericHyphen': /^[a-zA-Z0-9-]*$/,
 };
 
+/**
+ * How validation messages are built: templates come from the
+ * `Global.messages` language data and field labels from the entity's
+ * translations. Without them the English defaults and the humanized field
+ * name are used.
+ */
+export interface ValidationMessageOptions {
+  /** Translation lookup for `Global.messages.*` templates */
+  t?: TranslateFunction;
+  /** Display label of a field */
+  getLabel?: (fieldName: string) => string;
+}
+
+function createMessageBuilder(
+  fieldName: string,
+  options?: ValidationMessageOptions
+): (key: string, params?: Record<string, string | number | undefined>) => string {
+  const label = options?.getLabel?.(fieldName) ?? formatFieldName(fieldName);
+  return (key, params) => formatValidationMessage(key, { field: label, ...params }, options?.t);
+}
+
 /**
  * Generate a Zod schema for a single field based on its definition
  */
 export function generateFieldSchema(
   fieldName: string,
-  fieldDef: FieldValidationDef
+  fieldDef: FieldValidationDef,
+  messageOptions?: ValidationMessageOptions
 ): ZodTypeAny {
   const { type, required, maxLength, minLength, min, max, pattern, options } = fieldDef;
+  const message = createMessageBuilder(fieldName, messageOptions);
 
   let schema: ZodTypeAny;
 
@@ -75,20 +107,20 @@ export function generateFieldSchema(
 
       if (maxLength !== undefined) {
         stringSchema = stringSchema.max(maxLength, {
-          message: `${formatFieldName(fieldName)} must be at most ${maxLength} characters`,
+          message: message('fieldExceedsMaxLength', { maxLength }),
         });
       }
 
       if (minLength !== undefined) {
         stringSchema = stringSchema.min(minLength, {
-          message: `${formatFieldName(fieldName)} must be at least ${minLength} characters`,
+          message: message('fieldBelowMinLength', { minLength }),
         });
       }
 
       if (pattern) {
         const regex = PATTERNS[pattern] ?? new RegExp(pattern);
         stringSchema = stringSchema.regex(regex, {
-          message: `${formatFieldName(fieldName)} contains invalid characters`,
+          message: message(getPatternMessageKey(pattern), { pattern }),
         });
       }
 
@@ -96,10 +128,10 @@ export function generateFieldSchema(
       if (type === 'url') {
         if (required) {
           schema = stringSchema
-            .min(1, { message: `${formatFieldName(fieldName)} is required` })
+            .min(1, { message: message('fieldIsRequired') })
             .refine(
               (val) => /^(https?:\/\/)?[\w.-]+\.[a-z]{2,}/i.test(val),
-              { message: `${formatFieldName(fieldName)} must be a valid URL` }
+              { message: message('fieldNotMatchingPattern$uriOptionalProtocol') }
             );
         } else {
           schema = stringSchema
@@ -107,14 +139,14 @@ export function generateFieldSchema(
             .or(z.literal(''))
             .refine(
               (val) => !val || val.length === 0 || /^(https?:\/\/)?[\w.-]+\.[a-z]{2,}/i.test(val),
-              { message: `${formatFieldName(fieldName)} must be a valid URL` }
+              { message: message('fieldNotMatchingPattern$uriOptionalProtocol') }
             );
         }
         break;
       }
 
       schema = required
-        ? stringSchema.min(1, { message: `${formatFieldName(fieldName)} is required` })
+        ? stringSchema.min(1, { message: message('fieldIsRequired') })
         : stringSchema.optional().or(z.literal(''));
       break;
     }
@@ -122,16 +154,43 @@ export function generateFieldSchema(
     // Email type
     case 'email': {
       let emailSchema = z.string().email({
-        message: `${formatFieldName(fieldName)} must be a valid email address`,
+        message: message('fieldShouldBeEmail'),
       });
 
       if (maxLength !== undefined) {
-        emailSchema = emailSchema.max(maxLength);
+        emailSchema = emailSchema.max(maxLength, {
+          message: message('fieldExceedsMaxLength', { maxLength }),
+        });
       }
 
+      // Every entry of `emailAddressData`; blank rows are ignored
+      const entriesSchema = z
+        .array(z.object({
+          emailAddress: z.string(),
+          primary: z.boolean().optional(),
+          optOut: z.boolean().optional(),
+          invalid: z.boolean().optional(),
+        }))
+        .superRefine((entries, ctx) => {
+          for (const entry of entries) {
+            const address = entry.emailAddress.trim();
+            if (!address) continue;
+            const result = emailSchema.safeParse(address);
+            if (!result.success) {
+              ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.error.issues[0]?.message });
+              return;
+            }
+          }
+        });
+
+      const addressSchema = z.union([emailSchema, entriesSchema]);
+
       schema = required
-        ? emailSchema
-        : emailSchema.optional().or(z.literal(''));
+        ? addressSchema.refine(
+            (val) => typeof val === 'string' || val.some((entry) => entry.emailAddress.trim()),
+            { message: message('fieldIsRequired') }
+          )
+        : addressSchema.optional().or(z.literal(''));
       break;
     }
 
@@ -143,6 +202,8 @@ export function generateFieldSchema(
           phoneNumber: z.string().optional(),
           type: z.string().optional(),
           primary: z.boolean().optional(),
+          optOut: z.boolean().optional(),
+          invalid: z.boolean().optional(),
         })),
       ]);
 
@@ -153,7 +214,7 @@ export function generateFieldSchema(
               if (Array.isArray(val)) return val.some((p) => p.phoneNumber);
               return false;
             },
-            { message: `${formatFieldName(fieldName)} is required` }
+            { message: message('fieldIsRequired') }
           )
         : phoneSchema.optional();
       break;
@@ -163,18 +224,18 @@ export function generateFieldSchema(
     case 'int':
     case 'autoincrement': {
       let intSchema = z.number().int({
-        message: `${formatFieldName(fieldName)} must be a whole number`,
+        message: message('fieldShouldBeInt'),
       });
 
       if (min !== undefined) {
         intSchema = intSchema.min(min, {
-          message: `${formatFieldName(fieldName)} must be at least ${min}`,
+          message: message('fieldShouldBeGreater', { value: min }),
         });
       }
 
       if (max !== undefined) {
         intSchema = intSchema.max(max, {
-          message: `${formatFieldName(fieldName)} must be at most ${max}`,
+          message: message('fieldShouldBeLess', { value: max }),
         });
       }
 
@@ -191,19 +252,38 @@ export function generateFieldSchema(
 
       if (min !== undefined) {
         floatSchema = floatSchema.min(min, {
-          message: `${formatFieldName(fieldName)} must be at least ${min}`,
+          message: message('fieldShouldBeGreater', { value: min }),
         });
       }
 
       if (max !== undefined) {
         floatSchema = floatSchema.max(max, {
-          message: `${formatFieldName(fieldName)} must be at most ${max}`,
+          message: message('fieldShouldBeLess', { value: max }),
         });
       }
 
+      if (type === 'float') {
+        schema = required
+          ? floatSchema
+          : floatSchema.optional().nullable();
+        break;
+      }
+
+      // Currency: an amount, or amount and currency once one is picked
+      const currencySchema = z.union([
+        floatSchema,
+        z.object({
+          amount: floatSchema.nullable(),
+          currency: z.string(),
+        }),
+      ]);
+
       schema = required
-        ? floatSchema
-        : floatSchema.optional().nullable();
+        ? currencySchema.refine(
+            (val) => typeof val === 'number' || val.amount !== null,
+            { message: message('fieldIsRequired') }
+          )
+        : currencySchema.optional().nullable();
       break;
     }
 
@@ -217,10 +297,10 @@ export function generateFieldSchema(
     case 'date': {
       if (required) {
         schema = z.string()
-          .min(1, { message: `${formatFieldName(fieldName)} is required` })
+          .min(1, { message: message('fieldIsRequired') })
           .refine(
             (val) => /^\d{4}-\d{2}-\d{2}$/.test(val),
-            { message: `${formatFieldName(fieldName)} must be a valid date (YYYY-MM-DD)` }
+            { message: message('fieldShouldBeDate') }
           );
       } else {
         schema = z.string()
@@ -228,7 +308,7 @@ export function generateFieldSchema(
           .or(z.literal(''))
           .refine(
             (val) => !val || /^\d{4}-\d{2}-\d{2}$/.test(val),
-            { message: `${formatFieldName(fieldName)} must be a valid date (YYYY-MM-DD)` }
+            { message: message('fieldShouldBeDate') }
           );
       }
       break;
@@ -238,10 +318,10 @@ export function generateFieldSchema(
     case 'datetimeOptional': {
       if (required) {
         schema = z.string()
-          .min(1, { message: `${formatFieldName(fieldName)} is required` })
+          .min(1, { message: message('fieldIsRequired') })
           .refine(
             (val) => /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2})?/.test(val),
-            { message: `${formatFieldName(fieldName)} must be a valid datetime` }
+            { message: message('fieldShouldBeDatetime') }
           );
       } else {
         schema = z.string()
@@ -249,7 +329,7 @@ export function generateFieldSchema(
           .or(z.literal(''))
           .refine(
             (val) => !val || /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2})?/.test(val),
-            { message: `${formatFieldName(fieldName)} must be a valid datetime` }
+            { message: message('fieldShouldBeDatetime') }
           );
       }
       break;
@@ -259,14 +339,16 @@ export function generateFieldSchema(
     case 'enum': {
       if (options && options.length > 0) {
         const enumValues = options.map(String);
-        const enumSchema = z.enum(enumValues as [string, ...string[]]);
+        const enumSchema = z.enum(enumValues as [string, ...string[]], {
+          errorMap: () => ({ message: message('fieldInvalid') }),
+        });
 
         schema = required
           ? enumSchema
           : enumSchema.optional().or(z.literal(''));
       } else {
         schema = required
-          ? z.string().min(1, { message: `${formatFieldName(fieldName)} is required` })
+          ? z.string().min(1, { message: message('fieldIsRequired') })
           : z.string().optional();
       }
       break;
@@ -280,15 +362,15 @@ export function generateFieldSchema(
         const validOptions = options.map(String);
         const itemSchema = z.string().refine(
           (val) => validOptions.includes(val),
-          { message: `Invalid option selected` }
+          { message: message('fieldInvalid') }
         );
 
         schema = required
-          ? z.array(itemSchema).min(1, { message: `${formatFieldName(fieldName)} requires at least one selection` })
+          ? z.array(itemSchema).min(1, { message: message('fieldIsRequired') })
           : z.array(itemSchema).optional().default([]);
       } else {
         schema = required
-          ? z.array(z.string()).min(1, { message: `${formatFieldName(fieldName)} requires at least one selection` })
+          ? z.array(z.string()).min(1, { message: message('fieldIsRequired') })
           : z.array(z.string()).optional().default([]);
       }
       break;
@@ -312,7 +394,7 @@ export function generateFieldSchema(
               if (typeof val === 'object') return val.id.length > 0;
               return false;
             },
-            { message: `${formatFieldName(fieldName)} is required` }
+            { message: message('fieldIsRequired') }
           )
         : linkSchema.optional().nullable();
       break;
@@ -328,7 +410,7 @@ export function generateFieldSchema(
       ]));
 
       schema = required
-        ? linkMultipleSchema.min(1, { message: `${formatFieldName(fieldName)} requires at least one selection` })
+        ? linkMultipleSchema.min(1, { message: message('fieldIsRequired') })
         : linkMultipleSchema.optional().default([]);
       break;
     }
@@ -343,7 +425,7 @@ export function generateFieldSchema(
       schema = required
         ? linkParentSchema.refine(
             (val) => val.parentType && val.parentId,
-            { message: `${formatFieldName(fieldName)} is required` }
+            { message: message('fieldIsRequired') }
           )
         : linkParentSchema.optional().nullable();
       break;
@@ -370,7 +452,7 @@ export function generateFieldSchema(
               if (typeof val === 'object') return val.id.length > 0;
               return false;
             },
-            { message: `${formatFieldName(fieldName)} is required` }
+            { message: message('fieldIsRequired') }
           )
         : fileSchema.optional().nullable();
       break;
@@ -389,12 +471,12 @@ export function generateFieldSchema(
 
       if (fieldDef.maxCount !== undefined) {
         attachmentArraySchema = attachmentArraySchema.max(fieldDef.maxCount, {
-          message: `Maximum ${fieldDef.maxCount} files allowed`,
+          message: message('fieldExceedsMaxCount', { maxCount: fieldDef.maxCount }),
         });
       }
 
       schema = required
-        ? attachmentArraySchema.min(1, { message: `${formatFieldName(fieldName)} requires at least one file` })
+        ? attachmentArraySchema.min(1, { message: message('fieldIsRequired') })
         : attachmentArraySchema.optional().default([]);
       break;
     }
@@ -407,6 +489,8 @@ export function generateFieldSchema(
         state: z.string().optional(),
         postalCode: z.string().optional(),
         country: z.string().optional(),
+        latitude: z.number().min(-90).max(90).optional().nullable(),
+        longitude: z.number().min(-180).max(180).optional().nullable(),
       }).optional();
       break;
     }
@@ -425,10 +509,10 @@ export function generateFieldSchema(
     case 'colorpicker': {
       if (required) {
         schema = z.string()
-          .min(1, { message: `${formatFieldName(fieldName)} is required` })
+          .min(1, { message: message('fieldIsRequired') })
           .refine(
             (val) => /^#([0-9A-Fa-f]{3}|[0-9A-Fa-f]{6})$/.test(val),
-            { message: `${formatFieldName(fieldName)} must be a valid hex color` }
+            { message: message('fieldInvalid') }
           );
       } else {
         schema = z.string()
@@ -436,7 +520,7 @@ export function generateFieldSchema(
           .or(z.literal(''))
           .refine(
             (val) => !val || /^#([0-9A-Fa-f]{3}|[0-9A-Fa-f]{6})$/.test(val),
-            { message: `${formatFieldName(fieldName)} must be a valid hex color` }
+            { message: message('fieldInvalid') }
           );
       }
       break;
@@ -465,7 +549,7 @@ export function generateFieldSchema(
  */
 export function generateEntitySchema(
   fieldDefs: Record<string, FieldValidationDef>,
-  options?: {
+  options?: ValidationMessageOptions & {
     /** Only include these fields in the schema */
     includeFields?: string[];
     /** Exclude these fields from the schema */
@@ -490,12 +574,155 @@ export function generateEntitySchema(
       continue;
     }
 
-    schemaShape[fieldName] = generateFieldSchema(fieldName, fieldDef);
+    schemaShape[fieldName] = generateFieldSchema(fieldName, fieldDef, options);
   }
 
   return z.object(schemaShape).passthrough();
 }
 
+/**
+ * A validation rule spanning several fields. The error is reported on `field`
+ * and the rule is re-checked whenever one of `dependsOn` changes.
+ */
+export interface CrossFieldRule {
+  /** Field that receives the error */
+  field: string;
+  /** Other fields the rule reads */
+  dependsOn: string[];
+  /** Returns an error message, or null when the data is valid */
+  validate: (data: Record<string, unknown>) => string | null;
+}
+
+const DATE_TYPES = ['date', 'datetime', 'datetimeOptional'];
+const RANGE_TYPES = ['rangeInt', 'rangeFloat', 'rangeCurrency'];
+
+/**
+ * Compare two date or datetime strings. A date is compared with the date part
+ * of a datetime. Returns null when either value is empty.
+ */
+function compareDateValues(a: unknown, b: unknown): number | null {
+  if (typeof a !== 'string' || typeof b !== 'string' || !a || !b) {
+    return null;
+  }
+
+  let left = a.replace('T', ' ');
+  let right = b.replace('T', ' ');
+  if (left.length === 10 || right.length === 10) {
+    left = left.slice(0, 10);
+    right = right.slice(0, 10);
+  }
+
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Read the from/to values of a range field, stored either as a `{ from, to }`
+ * value or as the `{name}From` and `{name}To` attributes
+ */
+function getRangeValues(
+  fieldName: string,
+  data: Record<string, unknown>
+): { from: unknown; to: unknown } {
+  const value = data[fieldName];
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const range = value as { from?: unknown; to?: unknown };
+    return { from: range.from, to: range.to };
+  }
+  return { from: data[`${fieldName}From`], to: data[`${fieldName}To`] };
+}
+
+/**
+ * Generate cross-field rules from field definitions:
+ * - date fields with `after`, `afterOrEqual` or `before` params
+ * - `dateEnd` must not precede `dateStart` when neither declares a rule
+ * - range fields must have from ≤ to
+ */
+export function generateCrossFieldRules(
+  fieldDefs: Record<string, FieldValidationDef>,
+  messageOptions?: ValidationMessageOptions
+): CrossFieldRule[] {
+  const rules: CrossFieldRule[] = [];
+  const getLabel = messageOptions?.getLabel ?? formatFieldName;
+
+  const addDateRule = (fieldName: string, otherField: string, kind: 'after' | 'afterOrEqual' | 'before'): void => {
+    rules.push({
+      field: fieldName,
+      dependsOn: [otherField],
+      validate: (data) => {
+        const result = compareDateValues(data[fieldName], data[otherField]);
+        if (result === null) return null;
+
+        const isValid = kind === 'after' ? result > 0 : kind === 'afterOrEqual' ? result >= 0 : result < 0;
+        if (isValid) return null;
+
+        return formatValidationMessage(
+          kind === 'before' ? 'fieldShouldBefore' : 'fieldShouldAfter',
+          { field: getLabel(fieldName), otherField: getLabel(otherField) },
+          messageOptions?.t
+        );
+      },
+    });
+  };
+
+  for (const [fieldName, fieldDef] of Object.entries(fieldDefs)) {
+    if (DATE_TYPES.includes(fieldDef.type)) {
+      if (fieldDef.after) addDateRule(fieldName, fieldDef.after, 'after');
+      if (fieldDef.afterOrEqual) addDateRule(fieldName, fieldDef.afterOrEqual, 'afterOrEqual');
+      if (fieldDef.before) addDateRule(fieldName, fieldDef.before, 'before');
+    }
+
+    if (RANGE_TYPES.includes(fieldDef.type)) {
+      rules.push({
+        field: fieldName,
+        dependsOn: [`${fieldName}From`, `${fieldName}To`],
+        validate: (data) => {
+          const { from, to } = getRangeValues(fieldName, data);
+          if (typeof from !== 'number' || typeof to !== 'number' || from <= to) {
+            return null;
+          }
+          return formatValidationMessage(
+            'fieldBadRangeOrder',
+            { field: getLabel(fieldName) },
+            messageOptions?.t
+          );
+        },
+      });
+    }
+  }
+
+  const dateStart = fieldDefs.dateStart;
+  const dateEnd = fieldDefs.dateEnd;
+  if (
+    dateStart && dateEnd &&
+    DATE_TYPES.includes(dateStart.type) && DATE_TYPES.includes(dateEnd.type) &&
+    !rules.some((rule) => rule.field === 'dateEnd' || rule.field === 'dateStart')
+  ) {
+    addDateRule('dateEnd', 'dateStart', 'afterOrEqual');
+  }
+
+  return rules;
+}
+
+/**
+ * Run cross-field rules, returning errors by field name
+ */
+export function validateCrossFieldRules(
+  rules: CrossFieldRule[],
+  data: Record<string, unknown>
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  for (const rule of rules) {
+    if (errors[rule.field]) continue;
+    const error = rule.validate(data);
+    if (error) {
+      errors[rule.field] = error;
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Validate data against an entity schema
  */
@@ -508,26 +735,34 @@ export function validateEntityData(
 
   const result = schema.safeParse(data);
 
-  if (result.success) {
-    return { success: true, data: result.data };
-  }
-
   // Convert Zod errors to a simple error map
   const errors: Record<string, string> = {};
-  for (const issue of result.error.issues) {
-    const field = issue.path.join('.');
-    if (!errors[field]) {
-      errors[field] = issue.message;
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      const field = issue.path.join('.');
+      if (!errors[field]) {
+        errors[field] = issue.message;
+      }
     }
   }
 
+  // Cross-field rules apply to validated fields that passed their own checks
+  const rules = generateCrossFieldRules(fieldDefs, options).filter(
+    (rule) => rule.field in schema.shape && !errors[rule.field]
+  );
+  Object.assign(errors, validateCrossFieldRules(rules, data));
+
+  if (Object.keys(errors).length === 0 && result.success) {
+    return { success: true, data: result.data };
+  }
+
   return { success: false, errors };
 }
 
 /**
  * Format field name for display in error messages
  */
-function formatFieldName(name: string): string {
+export function formatFieldName(name: string): string {
   return name
     .replace(/([A-Z])/g, ' $1')
     .replace(/^./, (str) => str.toUpperCase())
@@ -0,0 +1,81 @@
+/**
+ * Server Validation Error Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { ApiError } from '@/api/client';
+import {
+  parseServerValidationErrors,
+  isServerValidationError,
+  getServerValidationMessage,
+} from './serverErrors';
+
+function validationFailure(field: string, type: string): ApiError {
+  return new ApiError('An error occurred', 400, undefined, {
+    messageTranslation: {
+      label: 'validationFailure',
+      scope: null,
+      data: { field, type },
+    },
+  });
+}
+
+describe('parseServerValidationErrors', () => {
+  it('parses an EspoCRM validation failure', () => {
+    expect(parseServerValidationErrors(validationFailure('name', 'required'))).toEqual([
+      { field: 'name', type: 'required' },
+    ]);
+  });
+
+  it('ignores other errors', () => {
+    expect(parseServerValidationErrors(new Error('Network error'))).toEqual([]);
+    expect(parseServerValidationErrors(new ApiError('Access denied', 403))).toEqual([]);
+    expect(
+      parseServerValidationErrors(
+        new ApiError('Bad request', 400, undefined, { messageTranslation: 'nameIsAlreadyUsed' })
+      )
+    ).toEqual([]);
+  });
+
+  it('reports whether an error is a validation failure', () => {
+    expect(isServerValidationError(validationFailure('name', 'maxLength'))).toBe(true);
+    expect(isServerValidationError(new ApiError('Server error', 500))).toBe(false);
+  });
+});
+
+describe('getServerValidationMessage', () => {
+  it('builds messages for each validation type', () => {
+    expect(getServerValidationMessage({ field: 'name', type: 'required' }, 'Name')).toBe(
+      'Name is required'
+    );
+    expect(
+      getServerValidationMessage({ field: 'name', type: 'maxLength' }, 'Name', {
+        type: 'varchar',
+        maxLength: 100,
+      })
+    ).toBe('Name must be at most 100 characters');
+    expect(
+      getServerValidationMessage({ field: 'age', type: 'max' }, 'Age', { type: 'int', max: 120 })
+    ).toBe('Age must be at most 120');
+    expect(getServerValidationMessage({ field: 'code', type: 'unknown' }, 'Code')).toBe(
+      'Code is invalid'
+    );
+  });
+
+  it('uses the field type for failed validity checks', () => {
+    expect(
+      getServerValidationMessage({ field: 'emailAddress', type: 'valid' }, 'Email', { type: 'email' })
+    ).toBe('Email must be a valid email address');
+    expect(
+      getServerValidationMessage({ field: 'name', type: 'valid' }, 'Name', { type: 'varchar' })
+    ).toBe('Name is invalid');
+  });
+
+  it('uses translated message templates when available', () => {
+    const t = (key: string): string =>
+      key === 'Global.messages.fieldIsRequired' ? '{field} ist erforderlich' : key;
+
+    expect(getServerValidationMessage({ field: 'name', type: 'required' }, 'Name', undefined, t)).toBe(
+      'Name ist erforderlich'
+    );
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Server-side Validation Errors
+ *
+ * EspoCRM rejects invalid records with a 400 response naming the failing
+ * field and the validation type:
+ *
+ * @example
+ * {
+ *   "messageTranslation": {
+ *     "label": "validationFailure",
+ *     "scope": null,
+ *     "data": { "field": "name", "type": "required" }
+ *   }
+ * }
+ */
+
+import { ApiError } from '@/api/client';
+import { formatValidationMessage, getPatternMessageKey, type TranslateFunction } from './messages';
+import type { FieldValidationDef } from './schemaGenerator';
+
+/**
+ * A field rejected by server-side validation
+ */
+export interface ServerValidationError {
+  /** Field name */
+  field: string;
+  /** Validation type, e.g. `required`, `maxLength`, `valid` */
+  type: string;
+}
+
+interface MessageTranslation {
+  label?: unknown;
+  data?: { field?: unknown; type?: unknown };
+}
+
+/**
+ * Extract server validation failures from a request error.
+ * Returns an empty list for any other kind of error.
+ */
+export function parseServerValidationErrors(error: unknown): ServerValidationError[] {
+  if (!(error instanceof ApiError) || error.status !== 400) {
+    return [];
+  }
+
+  const details = error.details as { messageTranslation?: unknown } | null | undefined;
+  const translations = Array.isArray(details?.messageTranslation)
+    ? (details.messageTranslation as unknown[])
+    : [details?.messageTranslation];
+
+  const errors: ServerValidationError[] = [];
+  for (const item of translations) {
+    if (!item || typeof item !== 'object') continue;
+
+    const { label, data } = item as MessageTranslation;
+    if (label !== 'validationFailure') continue;
+    if (typeof data?.field !== 'string') continue;
+
+    errors.push({
+      field: data.field,
+      type: typeof data.type === 'string' ? data.type : 'valid',
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Whether a request error is a server validation failure
+ */
+export function isServerValidationError(error: unknown): boolean {
+  return parseServerValidationErrors(error).length > 0;
+}
+
+// Message keys for a failed `valid` check, by field type
+const VALID_MESSAGE_KEYS: Record<string, string> = {
+  email: 'fieldShouldBeEmail',
+  phone: 'fieldPhoneInvalid',
+  url: 'fieldNotMatchingPattern$uriOptionalProtocol',
+  int: 'fieldShouldBeInt',
+  float: 'fieldShouldBeNumber',
+  currency: 'fieldShouldBeNumber',
+  date: 'fieldShouldBeDate',
+  datetime: 'fieldShouldBeDatetime',
+  datetimeOptional: 'fieldShouldBeDatetime',
+};
+
+/**
+ * Build the message shown for a server validation failure
+ */
+export function getServerValidationMessage(
+  error: ServerValidationError,
+  label: string,
+  fieldDef?: FieldValidationDef,
+  t?: TranslateFunction
+): string {
+  switch (error.type) {
+    case 'required':
+      return formatValidationMessage('fieldIsRequired', { field: label }, t);
+    case 'maxLength':
+      return formatValidationMessage(
+        'fieldExceedsMaxLength',
+        { field: label, maxLength: fieldDef?.maxLength },
+        t
+      );
+    case 'max':
+      return formatValidationMessage('fieldShouldBeLess', { field: label, value: fieldDef?.max }, t);
+    case 'min':
+      return formatValidationMessage('fieldShouldBeGreater', { field: label, value: fieldDef?.min }, t);
+    case 'pattern':
+      return formatValidationMessage(
+        fieldDef?.pattern ? getPatternMessageKey(fieldDef.pattern) : 'fieldNotMatchingPattern',
+        { field: label, pattern: fieldDef?.pattern },
+        t
+      );
+    case 'maxCount':
+      return formatValidationMessage(
+        'fieldExceedsMaxCount',
+        { field: label, maxCount: fieldDef?.maxCount },
+        t
+      );
+    case 'valid':
+      return formatValidationMessage(
+        (fieldDef && VALID_MESSAGE_KEYS[fieldDef.type]) ?? 'fieldInvalid',
+        { field: label },
+        t
+      );
+    default:
+      return formatValidationMessage('fieldInvalid', { field: label }, t);
+  }
+}
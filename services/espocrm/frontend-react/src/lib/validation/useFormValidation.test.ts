@@ -1,8 +1,8 @@
 /**
  * useFormValidation Hook Tests
  */
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { renderHook } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
 import {
   useFormValidation,
   isFieldRequired,
@@ -15,7 +15,23 @@ vi.mock('@/lib/metadata/useMetadata', () => ({
   useMetadata: vi.fn(),
 }));
 
+// Translations available to the hook; empty means every key is untranslated
+const translations = vi.hoisted(() => ({ current: {} as Record<string, string> }));
+
+vi.mock('@/hooks/useTranslation', () => {
+  const t = (key: string): string => translations.current[key] ?? key;
+  const helpers = {
+    t,
+    translateField: (entityType: string, field: string): string => {
+      const key = `${entityType}.fields.${field}`;
+      return translations.current[key] ?? field;
+    },
+  };
+  return { useTranslation: () => helpers };
+});
+
 import { useMetadata } from '@/lib/metadata/useMetadata';
+import { ApiError } from '@/api/client';
 
 const mockUseMetadata = vi.mocked(useMetadata);
 
@@ -285,6 +301,266 @@ describe('useFormValidation', () => {
   });
 });
 
+describe('useFormValidation server errors', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseMetadata.mockReturnValue({
+      metadata: {
+        entityDefs: {
+          Contact: { fields: mockFieldDefs },
+        },
+      },
+      isLoading: false,
+      error: null,
+    } as ReturnType<typeof useMetadata>);
+  });
+
+  it('maps server validation failures to field messages', () => {
+    const { result } = renderHook(() => useFormValidation('Contact'));
+
+    const error = new ApiError('An error occurred', 400, undefined, {
+      messageTranslation: {
+        label: 'validationFailure',
+        scope: null,
+        data: { field: 'email', type: 'valid' },
+      },
+    });
+
+    expect(result.current.mapServerErrors(error)).toEqual({
+      email: 'Email must be a valid email address',
+    });
+  });
+
+  it('returns null for other errors', () => {
+    const { result } = renderHook(() => useFormValidation('Contact'));
+
+    expect(result.current.mapServerErrors(new ApiError('Server error', 500))).toBeNull();
+  });
+});
+
+describe('useFormValidation translated messages', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    translations.current = {
+      'Global.messages.fieldIsRequired': '{field} es obligatorio',
+      'Contact.fields.name': 'Nombre',
+    };
+    mockUseMetadata.mockReturnValue({
+      metadata: {
+        entityDefs: {
+          Contact: { fields: mockFieldDefs },
+        },
+      },
+      isLoading: false,
+      error: null,
+    } as ReturnType<typeof useMetadata>);
+  });
+
+  afterEach(() => {
+    translations.current = {};
+  });
+
+  it('uses translated templates and field labels', () => {
+    const { result } = renderHook(() => useFormValidation('Contact'));
+
+    expect(result.current.validate({ name: '', email: 'john@example.com' }).errors.name).toBe(
+      'Nombre es obligatorio'
+    );
+    expect(result.current.validateField('name', '', {})).toBe('Nombre es obligatorio');
+  });
+});
+
+describe('useFormValidation with dynamic logic', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseMetadata.mockReturnValue({
+      metadata: {
+        entityDefs: {
+          Contact: { fields: mockFieldDefs },
+        },
+        clientDefs: {
+          Contact: {
+            dynamicLogic: {
+              fields: {
+                phone: {
+                  required: { type: 'and', value: [{ type: 'equals', attribute: 'status', value: 'Active' }] },
+                },
+                email: {
+                  visible: { type: 'and', value: [{ type: 'notEquals', attribute: 'status', value: 'Inactive' }] },
+                },
+                age: {
+                  invalid: { type: 'and', value: [{ type: 'lessThan', attribute: 'age', value: 18 }] },
+                },
+              },
+            },
+          },
+        },
+      },
+      isLoading: false,
+      error: null,
+    } as ReturnType<typeof useMetadata>);
+  });
+
+  it('does not validate hidden fields', () => {
+    const { result } = renderHook(() => useFormValidation('Contact'));
+
+    const validation = result.current.validate({ name: 'John', status: 'Inactive' });
+
+    expect(validation.errors.email).toBeUndefined();
+    expect(result.current.validateField('email', '', { status: 'Inactive' })).toBeNull();
+  });
+
+  it('requires dynamically required fields', () => {
+    const { result } = renderHook(() => useFormValidation('Contact'));
+
+    const validation = result.current.validate({ name: 'John', email: 'john@example.com', status: 'Active' });
+
+    expect(validation.isValid).toBe(false);
+    expect(validation.errors.phone).toBeDefined();
+    expect(result.current.validateField('phone', '', { status: 'Pending' })).toBeNull();
+  });
+
+  it('reports dynamically invalid fields', () => {
+    const { result } = renderHook(() => useFormValidation('Contact'));
+
+    const validation = result.current.validate({ name: 'John', email: 'john@example.com', age: 16 });
+
+    expect(validation.errors.age).toBe('Age is invalid');
+    expect(result.current.validateField('age', 21, {})).toBeNull();
+  });
+});
+
+describe('useFormValidation cross-field and async validation', () => {
+  const isTaken = vi.fn();
+  const options: UseFormValidationOptions = {
+    asyncValidations: {
+      name: async (value) => ((await isTaken(value)) ? 'Name is taken' : null),
+    },
+    asyncDebounceMs: 300,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    mockUseMetadata.mockReturnValue({
+      metadata: {
+        entityDefs: {
+          Meeting: {
+            fields: {
+              name: { type: 'varchar', required: true },
+              emailAddress: { type: 'email' },
+              dateStart: { type: 'datetime' },
+              dateEnd: { type: 'datetime', after: 'dateStart' },
+            },
+          },
+        },
+      },
+      isLoading: false,
+      error: null,
+    } as ReturnType<typeof useMetadata>);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('applies cross-field rules', () => {
+    const { result } = renderHook(() => useFormValidation('Meeting', options));
+    const data = { name: 'Sync', dateStart: '2024-03-01 10:00:00', dateEnd: '2024-03-01 09:00:00' };
+
+    expect(result.current.validate(data).errors.dateEnd).toBe('Date End should be after Date Start');
+    expect(result.current.validateField('dateEnd', data.dateEnd, data)).toBe(
+      'Date End should be after Date Start'
+    );
+    expect(result.current.getDependentFields('dateStart')).toEqual(['dateEnd']);
+  });
+
+  it('reports pending, then the result of a debounced check', async () => {
+    isTaken.mockResolvedValue(true);
+    const { result } = renderHook(() => useFormValidation('Meeting', options));
+
+    act(() => {
+      result.current.validateFieldAsync('name', 'Sync', { name: 'Sync' });
+    });
+    expect(result.current.fieldStatus.name).toBe('pending');
+    expect(isTaken).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(300);
+    });
+
+    expect(isTaken).toHaveBeenCalledTimes(1);
+    expect(result.current.fieldStatus.name).toBe('invalid');
+    expect(result.current.asyncErrors.name).toBe('Name is taken');
+  });
+
+  it('only checks the latest value', async () => {
+    isTaken.mockResolvedValue(false);
+    const { result } = renderHook(() => useFormValidation('Meeting', options));
+
+    act(() => {
+      result.current.validateFieldAsync('name', 'Sy', { name: 'Sy' });
+      result.current.validateFieldAsync('name', 'Sync', { name: 'Sync' });
+    });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(300);
+    });
+
+    expect(isTaken).toHaveBeenCalledTimes(1);
+    expect(isTaken).toHaveBeenCalledWith('Sync');
+    expect(result.current.fieldStatus.name).toBe('valid');
+  });
+
+  it('resolves waiting callers once the pending checks finished', async () => {
+    isTaken.mockResolvedValue(false);
+    const { result } = renderHook(() => useFormValidation('Meeting', options));
+    const settled = vi.fn();
+
+    await expect(result.current.waitForAsyncValidation()).resolves.toEqual({});
+
+    act(() => {
+      result.current.validateFieldAsync('name', 'Sync', { name: 'Sync' });
+    });
+    void result.current.waitForAsyncValidation().then(settled);
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(100);
+    });
+    expect(settled).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(200);
+    });
+    expect(settled).toHaveBeenCalledWith({ name: 'valid' });
+  });
+
+  it('skips asynchronous checks while synchronous validation fails', () => {
+    const { result } = renderHook(() => useFormValidation('Meeting', options));
+
+    act(() => {
+      result.current.validateFieldAsync('emailAddress', 'not-an-email', {});
+    });
+
+    expect(result.current.fieldStatus.emailAddress).toBeUndefined();
+  });
+
+  it('checks additional email addresses', async () => {
+    const { result } = renderHook(() => useFormValidation('Meeting', options));
+    const data = {
+      emailAddress: 'a@example.com',
+      emailAddressData: [{ emailAddress: 'a@example.com' }, { emailAddress: 'broken@' }],
+    };
+
+    act(() => {
+      result.current.validateFieldAsync('emailAddress', data.emailAddress, data);
+    });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(300);
+    });
+
+    expect(result.current.asyncErrors.emailAddress).toBe('Email Address must be a valid email address');
+  });
+});
+
 describe('isFieldRequired', () => {
   it('returns true for required field', () => {
     expect(isFieldRequired({ type: 'varchar', required: true })).toBe(true);
@@ -1,11 +1,30 @@
-import { useMemo, useCallback } from 'react';
+import { useMemo, useCallback, useState, useRef, useEffect } from 'react';
 import { z, type ZodTypeAny } from 'zod';
 import { useMetadata } from '@/lib/metadata/useMetadata';
+import { useTranslation } from '@/hooks/useTranslation';
+import { usePhoneSettings } from '@/lib/phone';
+import {
+  evaluateEntityDynamicLogic,
+  useEvaluationContext,
+  type EntityDynamicLogic,
+  type DynamicEntityState,
+} from '@/lib/dynamicLogic';
 import {
   generateEntitySchema,
+  generateCrossFieldRules,
+  validateCrossFieldRules,
   validateEntityData,
+  formatFieldName,
   type FieldValidationDef,
 } from './schemaGenerator';
+import { parseServerValidationErrors, getServerValidationMessage } from './serverErrors';
+import { formatValidationMessage } from './messages';
+import {
+  getDefaultAsyncValidators,
+  runAsyncValidators,
+  type AsyncFieldValidator,
+  type FieldValidationStatus,
+} from './asyncValidators';
 
 export interface ValidationError {
   field: string;
@@ -21,6 +40,12 @@ export interface UseFormValidationOptions {
   skipReadOnly?: boolean;
   /** Additional custom validations */
   customValidations?: Record<string, (value: unknown, data: Record<string, unknown>) => string | null>;
+  /** Additional asynchronous validations, run after the metadata-based ones */
+  asyncValidations?: Record<string, AsyncFieldValidator>;
+  /** Record being edited, excluded from uniqueness checks */
+  recordId?: string;
+  /** Delay before asynchronous validation starts, in ms (default: 500) */
+  asyncDebounceMs?: number;
 }
 
 export interface UseFormValidationResult {
@@ -33,6 +58,18 @@ export interface UseFormValidationResult {
   };
   /** Validate a single field */
   validateField: (fieldName: string, value: unknown, data: Record<string, unknown>) => string | null;
+  /** Schedule the debounced asynchronous validation of a field */
+  validateFieldAsync: (fieldName: string, value: unknown, data: Record<string, unknown>) => void;
+  /** Resolve with the asynchronous validation status once no check is pending */
+  waitForAsyncValidation: () => Promise<Record<string, FieldValidationStatus>>;
+  /** Fields whose cross-field rules read the given field */
+  getDependentFields: (fieldName: string) => string[];
+  /** Asynchronous validation status by field name */
+  fieldStatus: Record<string, FieldValidationStatus>;
+  /** Asynchronous validation errors by field name */
+  asyncErrors: Record<string, string>;
+  /** Map a failed save's server validation errors to field messages (null for other errors) */
+  mapServerErrors: (error: unknown) => Record<string, string> | null;
   /** Get field definitions */
   fieldDefs: Record<string, FieldValidationDef>;
   /** Whether validation is ready */
@@ -40,13 +77,84 @@ export interface UseFormValidationResult {
 }
 
 /**
- * React hook for form validation based on entity metadata
+ * Field definitions adjusted for the current dynamic logic state
+ */
+interface DynamicValidationDefs {
+  /** Field definitions with dynamic requirements applied */
+  fieldDefs: Record<string, FieldValidationDef>;
+  /** Hidden (and, when skipping read-only, read-only) fields */
+  skippedFields: string[];
+  /** Evaluated dynamic logic */
+  state: DynamicEntityState;
+}
+
+function applyDynamicLogic(
+  fieldDefs: Record<string, FieldValidationDef>,
+  state: DynamicEntityState,
+  skipReadOnly: boolean
+): DynamicValidationDefs {
+  const adjusted = { ...fieldDefs };
+  const skippedFields: string[] = [];
+
+  for (const [fieldName, fieldState] of Object.entries(state.fields)) {
+    const fieldDef = adjusted[fieldName];
+    if (!fieldDef) continue;
+
+    if (!fieldState.visible || (skipReadOnly && fieldState.readOnly)) {
+      skippedFields.push(fieldName);
+    } else if (fieldState.required && !fieldDef.required) {
+      adjusted[fieldName] = { ...fieldDef, required: true };
+    }
+  }
+
+  return { fieldDefs: adjusted, skippedFields, state };
+}
+
+interface AsyncFieldState {
+  status: FieldValidationStatus;
+  error?: string;
+}
+
+function getStatuses(state: Record<string, AsyncFieldState>): Record<string, FieldValidationStatus> {
+  const status: Record<string, FieldValidationStatus> = {};
+  for (const [fieldName, fieldState] of Object.entries(state)) {
+    status[fieldName] = fieldState.status;
+  }
+  return status;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+/**
+ * React hook for form validation based on entity metadata.
+ * Dynamic logic is applied to the validated data: hidden fields are not
+ * validated, and dynamic required/invalid conditions produce errors.
  */
 export function useFormValidation(
   entityType: string,
   options?: UseFormValidationOptions
 ): UseFormValidationResult {
   const { metadata } = useMetadata();
+  const { t, translateField } = useTranslation();
+  const evaluationContext = useEvaluationContext();
+  const skipReadOnly = options?.skipReadOnly ?? true;
+  const asyncDebounceMs = options?.asyncDebounceMs ?? 500;
+  const [asyncState, setAsyncState] = useState<Record<string, AsyncFieldState>>({});
+  const timersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const controllersRef = useRef<Record<string, AbortController>>({});
+  // Latest asynchronous state and callers waiting for pending checks to end
+  const asyncStateRef = useRef<Record<string, AsyncFieldState>>({});
+  const waitersRef = useRef<Array<(status: Record<string, FieldValidationStatus>) => void>>([]);
+
+  // Get dynamic logic definition from metadata
+  const dynamicLogic = useMemo<EntityDynamicLogic | undefined>(() => {
+    const clientDefs = metadata?.clientDefs?.[entityType] as
+      | { dynamicLogic?: EntityDynamicLogic }
+      | undefined;
+    return clientDefs?.dynamicLogic;
+  }, [metadata, entityType]);
 
   // Get field definitions from metadata
   const fieldDefs = useMemo<Record<string, FieldValidationDef>>(() => {
@@ -60,6 +168,46 @@ export function useFormValidation(
     return typedDefs;
   }, [metadata, entityType]);
 
+  // Field labels for messages: the translated label, or the humanized name
+  const getFieldLabel = useCallback(
+    (fieldName: string): string => {
+      const translated = translateField(entityType, fieldName);
+      return translated !== fieldName ? translated : formatFieldName(fieldName);
+    },
+    [entityType, translateField]
+  );
+
+  // Message templates come from the `Global.messages` language data
+  const messageOptions = useMemo(() => ({ t, getLabel: getFieldLabel }), [t, getFieldLabel]);
+
+  // Rules spanning several fields (date order, range bounds)
+  const crossFieldRules = useMemo(
+    () => generateCrossFieldRules(fieldDefs, messageOptions),
+    [fieldDefs, messageOptions]
+  );
+
+  // Asynchronous validators from metadata plus custom ones
+  const phoneDefaultCountry = usePhoneSettings().settings.defaultCountry;
+  const asyncValidators = useMemo(() => {
+    const validators = getDefaultAsyncValidators(entityType, fieldDefs, {
+      recordId: options?.recordId,
+      phoneDefaultCountry,
+    });
+    for (const [fieldName, validator] of Object.entries(options?.asyncValidations ?? {})) {
+      validators[fieldName] = [...(validators[fieldName] ?? []), validator];
+    }
+    return validators;
+  }, [entityType, fieldDefs, options?.recordId, options?.asyncValidations, phoneDefaultCountry]);
+
+  // Evaluate dynamic logic against form data
+  const getDynamicDefs = useCallback(
+    (data: Record<string, unknown>): DynamicValidationDefs => {
+      const state = evaluateEntityDynamicLogic(dynamicLogic, data, undefined, evaluationContext);
+      return applyDynamicLogic(fieldDefs, state, skipReadOnly);
+    },
+    [dynamicLogic, fieldDefs, evaluationContext, skipReadOnly]
+  );
+
   // Generate schema
   const schema = useMemo(() => {
     if (Object.keys(fieldDefs).length === 0) {
@@ -67,22 +215,25 @@ export function useFormValidation(
     }
 
     return generateEntitySchema(fieldDefs, {
+      ...messageOptions,
       includeFields: options?.includeFields,
       excludeFields: options?.excludeFields,
       skipReadOnly: options?.skipReadOnly ?? true,
     });
-  }, [fieldDefs, options?.includeFields, options?.excludeFields, options?.skipReadOnly]);
+  }, [fieldDefs, messageOptions, options?.includeFields, options?.excludeFields, options?.skipReadOnly]);
 
   // Validate entire form
   const validate = useCallback(
     (data: Record<string, unknown>): { isValid: boolean; errors: Record<string, string> } => {
       const errors: Record<string, string> = {};
+      const dynamic = getDynamicDefs(data);
 
       // Run Zod validation
-      const result = validateEntityData(fieldDefs, data, {
+      const result = validateEntityData(dynamic.fieldDefs, data, {
+        ...messageOptions,
         includeFields: options?.includeFields,
-        excludeFields: options?.excludeFields,
-        skipReadOnly: options?.skipReadOnly ?? true,
+        excludeFields: [...(options?.excludeFields ?? []), ...dynamic.skippedFields],
+        skipReadOnly,
       });
 
       if (!result.success) {
@@ -92,6 +243,7 @@ export function useFormValidation(
       // Run custom validations
       if (options?.customValidations) {
         for (const [fieldName, validator] of Object.entries(options.customValidations)) {
+          if (dynamic.skippedFields.includes(fieldName)) continue;
           const error = validator(data[fieldName], data);
           if (error && !errors[fieldName]) {
             errors[fieldName] = error;
@@ -99,51 +251,215 @@ export function useFormValidation(
         }
       }
 
+      // Dynamic invalid conditions
+      for (const [fieldName, fieldState] of Object.entries(dynamic.state.fields)) {
+        if (fieldState.invalid && !errors[fieldName] && !dynamic.skippedFields.includes(fieldName)) {
+          errors[fieldName] = formatValidationMessage('fieldInvalid', { field: getFieldLabel(fieldName) }, t);
+        }
+      }
+
       return {
         isValid: Object.keys(errors).length === 0,
         errors,
       };
     },
-    [fieldDefs, options]
+    [getDynamicDefs, getFieldLabel, messageOptions, options, skipReadOnly, t]
   );
 
   // Validate single field
   const validateField = useCallback(
     (fieldName: string, value: unknown, data: Record<string, unknown>): string | null => {
-      const fieldDef = fieldDefs[fieldName];
+      const dynamic = getDynamicDefs({ ...data, [fieldName]: value });
+      const fieldDef = dynamic.fieldDefs[fieldName];
 
-      if (!fieldDef) {
+      if (!fieldDef || dynamic.skippedFields.includes(fieldName)) {
         return null;
       }
 
       // Create a mini schema for just this field
       const singleFieldSchema = generateEntitySchema(
         { [fieldName]: fieldDef },
-        { skipReadOnly: false }
+        { ...messageOptions, skipReadOnly: false }
       );
 
       const result = singleFieldSchema.safeParse({ [fieldName]: value });
 
       if (!result.success) {
         const issue = result.error.issues[0];
-        return issue?.message ?? 'Invalid value';
+        return issue?.message ?? formatValidationMessage('fieldInvalid', { field: getFieldLabel(fieldName) }, t);
       }
 
+      // Run cross-field rules reported on this field
+      const crossFieldError = validateCrossFieldRules(
+        crossFieldRules.filter((rule) => rule.field === fieldName),
+        { ...data, [fieldName]: value }
+      )[fieldName];
+      if (crossFieldError) return crossFieldError;
+
       // Run custom validation if exists
       const customValidator = options?.customValidations?.[fieldName];
       if (customValidator) {
-        return customValidator(value, data);
+        const error = customValidator(value, data);
+        if (error) return error;
+      }
+
+      if (dynamic.state.fields[fieldName]?.invalid) {
+        return formatValidationMessage('fieldInvalid', { field: getFieldLabel(fieldName) }, t);
       }
 
       return null;
     },
-    [fieldDefs, options?.customValidations]
+    [getDynamicDefs, crossFieldRules, getFieldLabel, messageOptions, options?.customValidations, t]
+  );
+
+  const getDependentFields = useCallback(
+    (fieldName: string): string[] =>
+      crossFieldRules
+        .filter((rule) => rule.dependsOn.includes(fieldName) && rule.field !== fieldName)
+        .map((rule) => rule.field),
+    [crossFieldRules]
+  );
+
+  const cancelAsync = useCallback((fieldName: string): void => {
+    clearTimeout(timersRef.current[fieldName]);
+    delete timersRef.current[fieldName];
+    controllersRef.current[fieldName]?.abort();
+    delete controllersRef.current[fieldName];
+  }, []);
+
+  const setFieldAsyncState = useCallback((fieldName: string, state: AsyncFieldState | null): void => {
+    const prev = asyncStateRef.current;
+    if (!state && !prev[fieldName]) return;
+
+    const next = { ...prev };
+    if (state) {
+      next[fieldName] = state;
+    } else {
+      delete next[fieldName];
+    }
+    asyncStateRef.current = next;
+    setAsyncState(next);
+
+    if (!Object.values(next).some((fieldState) => fieldState.status === 'pending')) {
+      const waiters = waitersRef.current;
+      waitersRef.current = [];
+      waiters.forEach((resolve) => resolve(getStatuses(next)));
+    }
+  }, []);
+
+  const waitForAsyncValidation = useCallback(
+    (): Promise<Record<string, FieldValidationStatus>> =>
+      new Promise((resolve) => {
+        const state = asyncStateRef.current;
+        if (Object.values(state).some((fieldState) => fieldState.status === 'pending')) {
+          waitersRef.current.push(resolve);
+        } else {
+          resolve(getStatuses(state));
+        }
+      }),
+    []
+  );
+
+  // Debounced asynchronous validation; only runs once the synchronous checks pass
+  const validateFieldAsync = useCallback(
+    (fieldName: string, value: unknown, data: Record<string, unknown>): void => {
+      cancelAsync(fieldName);
+
+      const validators = asyncValidators[fieldName];
+      if (!validators) return;
+
+      if (isEmptyValue(value) || validateField(fieldName, value, data)) {
+        setFieldAsyncState(fieldName, null);
+        return;
+      }
+
+      setFieldAsyncState(fieldName, { status: 'pending' });
+
+      timersRef.current[fieldName] = setTimeout(() => {
+        delete timersRef.current[fieldName];
+        const controller = new AbortController();
+        controllersRef.current[fieldName] = controller;
+
+        runAsyncValidators(validators, value, { ...data, [fieldName]: value }, {
+          field: fieldName,
+          label: getFieldLabel(fieldName),
+          signal: controller.signal,
+          t,
+        })
+          .then((error) => {
+            if (controller.signal.aborted) return;
+            setFieldAsyncState(
+              fieldName,
+              error ? { status: 'invalid', error } : { status: 'valid' }
+            );
+          })
+          .catch(() => {
+            // A failed check (e.g. network error) leaves the decision to the server
+            if (controller.signal.aborted) return;
+            setFieldAsyncState(fieldName, null);
+          })
+          .finally(() => {
+            if (controllersRef.current[fieldName] === controller) {
+              delete controllersRef.current[fieldName];
+            }
+          });
+      }, asyncDebounceMs);
+    },
+    [asyncValidators, asyncDebounceMs, cancelAsync, getFieldLabel, setFieldAsyncState, t, validateField]
+  );
+
+  // Stop pending checks on unmount
+  useEffect(() => {
+    const timers = timersRef.current;
+    const controllers = controllersRef.current;
+    return () => {
+      Object.values(timers).forEach(clearTimeout);
+      Object.values(controllers).forEach((controller) => controller.abort());
+    };
+  }, []);
+
+  const fieldStatus = useMemo(() => getStatuses(asyncState), [asyncState]);
+
+  const asyncErrors = useMemo(() => {
+    const errors: Record<string, string> = {};
+    for (const [fieldName, state] of Object.entries(asyncState)) {
+      if (state.error) errors[fieldName] = state.error;
+    }
+    return errors;
+  }, [asyncState]);
+
+  // Map server-side validation failures
+  const mapServerErrors = useCallback(
+    (error: unknown): Record<string, string> | null => {
+      const serverErrors = parseServerValidationErrors(error);
+      if (serverErrors.length === 0) {
+        return null;
+      }
+
+      const errors: Record<string, string> = {};
+      for (const serverError of serverErrors) {
+        errors[serverError.field] = getServerValidationMessage(
+          serverError,
+          getFieldLabel(serverError.field),
+          fieldDefs[serverError.field],
+          t
+        );
+      }
+      return errors;
+    },
+    [fieldDefs, t, getFieldLabel]
   );
 
   return {
     schema,
     validate,
     validateField,
+    validateFieldAsync,
+    waitForAsyncValidation,
+    getDependentFields,
+    fieldStatus,
+    asyncErrors,
+    mapServerErrors,
     fieldDefs,
     isReady: Object.keys(fieldDefs).length > 0,
   };
@@ -5,6 +5,7 @@ import { BrowserRouter } from 'react-router-dom';
 import { MetadataProvider } from '@/lib/metadata/MetadataProvider';
 import { AclProvider } from '@/lib/acl';
 import { ModalProvider } from '@/components/modals';
+import { ExtensionLoader } from '@/lib/extensions';
 import { initI18n } from '@/lib/i18n/config';
 import './index.css';
 import App from './App';
@@ -35,7 +36,9 @@ initI18n()
             <MetadataProvider>
               <AclProvider>
                 <ModalProvider>
-                  <App />
+                  <ExtensionLoader>
+                    <App />
+                  </ExtensionLoader>
                 </ModalProvider>
               </AclProvider>
             </MetadataProvider>
@@ -54,7 +57,9 @@ initI18n()
             <MetadataProvider>
               <AclProvider>
                 <ModalProvider>
-                  <App />
+                  <ExtensionLoader>
+                    <App />
+                  </ExtensionLoader>
                 </ModalProvider>
               </AclProvider>
             </MetadataProvider>